@@ -8,6 +8,9 @@ import { StarshipsModule } from './starships/starships.module'
 import { VehiclesModule } from './vehicles/vehicles.module'
 import { SpeciesModule } from './species/species.module'
 import { UserModule } from './user/user.module'
+import { MailModule } from './mail/mail.module'
+import { AuditModule } from './audit/audit.module'
+import { ImageStorageModule } from './images/storage/image-storage.module'
 
 // Database related imports
 import { TypeOrmModule } from '@nestjs/typeorm'
@@ -23,6 +26,8 @@ import { People } from './people/entities/people.entity'
 import { Film } from './films/entities/film.entity'
 import { Image } from './images/entities/image.entity'
 import { HealthModule } from './health/health.module'
+import { SearchModule } from './search/search.module'
+import { GraphqlApiModule } from './graphql/graphql-api.module'
 
 /**
  * AppModule
@@ -34,13 +39,18 @@ import { HealthModule } from './health/health.module'
  * Feature modules:
  * - AuthModule: Handles authentication and authorization.
  * - UserModule: Manages user-related operations.
+ * - MailModule: Sends the account emails through the configured mail transport.
+ * - AuditModule: Records the security events and audited mutations, readable at `/admin/audit`.
  * - PeopleModule: Manages people entities related to films and other entities.
  * - FilmsModule: Manages films and associated entities.
  * - PlanetsModule: Manages planets and associated entities.
  * - ImagesModule: Manages images and associated entities.
+ * - ImageStorageModule: Stores the image files with the configured driver (S3, S3-compatible or local).
  * - StarshipsModule: Manages starships and associated entities.
  * - VehiclesModule: Manages vehicles and associated entities.
  * - SpeciesModule: Manages species and associated entities.
+ * - SearchModule: Provides free-text search across all resources.
+ * - GraphqlApiModule: Exposes the resources through a GraphQL endpoint.
  *
  * Global settings:
  * - ConfigModule.forRoot({ isGlobal: true }): Loads global configuration settings.
@@ -78,6 +88,9 @@ import { HealthModule } from './health/health.module'
     // Feature modules
     AuthModule,
     UserModule,
+    MailModule,
+    AuditModule,
+    ImageStorageModule,
     PeopleModule,
     FilmsModule,
     PlanetsModule,
@@ -85,6 +98,8 @@ import { HealthModule } from './health/health.module'
     StarshipsModule,
     VehiclesModule,
     SpeciesModule,
+    SearchModule,
+    GraphqlApiModule,
   ],
   providers: [
     // Database seeding service
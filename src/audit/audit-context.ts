@@ -0,0 +1,31 @@
+import { AuthenticatedUser } from 'src/shared/constants'
+
+/**
+ * Interface for the origin of an audited action
+ *
+ * - `actorId`: The ID of the user taking the action.
+ * - `apiKeyId`: The ID of the API key the request was authenticated with, if any.
+ * - `ip`: The IP address of the client.
+ */
+export interface AuditContext {
+  actorId?: string | null
+  apiKeyId?: string | null
+  ip?: string | null
+}
+
+/**
+ * Returns the origin of the action of a request
+ *
+ * @param req The HTTP request (its `user` is set by `JwtAuthGuard` on the authenticated routes)
+ * @returns The `AuditContext` of the request
+ */
+export function getAuditContext(req: {
+  user?: AuthenticatedUser
+  ip?: string
+}): AuditContext {
+  return {
+    actorId: req.user?.userId ?? null,
+    apiKeyId: req.user?.apiKeyId ?? null,
+    ip: req.ip ?? null,
+  }
+}
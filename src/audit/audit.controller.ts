@@ -0,0 +1,112 @@
+import {
+  BadRequestException,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  HttpStatus,
+  ParseUUIDPipe,
+  Query,
+} from '@nestjs/common'
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger'
+import { Pagination } from 'nestjs-typeorm-paginate'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Permissions } from 'src/auth/permissions'
+import { limitCount, localUrl } from 'src/shared/constants'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { AuditService } from './audit.service'
+import { AuditLog } from './entities/audit-log.entity'
+
+/**
+ * AuditController: Security audit log
+ *
+ * This controller exposes the `/admin/audit` resource, readable with the `audit:read` permission
+ * (administrators). The log itself is written by the services and the `AuditInterceptor`; it cannot
+ * be changed through the API.
+ */
+@ApiTags('admin')
+@ApiBearerAuth()
+@Controller('/admin/audit')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * Lists the audit log entries, the latest first, paginated
+   *
+   * @param page The page number (default 1)
+   * @param limit The page size (capped at `limitCount`)
+   * @param actor An optional ID of the user who took the actions
+   * @param action An optional action, or prefix of actions ending in `.*` (e.g. `auth.*`)
+   * @param from An optional start of the time range (ISO 8601 date)
+   * @param to An optional end of the time range (ISO 8601 date)
+   * @returns A Promise resolving to a paginated list of `AuditLog` entries
+   */
+  @RequirePermissions(Permissions.AuditRead)
+  @Get()
+  @ApiOperation({ summary: 'List the audit log' })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'actor',
+    required: false,
+    description: 'ID of the user who took the actions.',
+  })
+  @ApiQuery({
+    name: 'action',
+    required: false,
+    description:
+      'An action (e.g. `auth.loginFailed`), or every action of a prefix (e.g. `people.*`).',
+  })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    description:
+      'Start of the time range (ISO 8601, e.g. `2024-07-01T00:00:00Z`).',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    description: 'End of the time range (ISO 8601).',
+  })
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'The actor is not a UUID, or a date is invalid',
+  )
+  async findAll(
+    @Query('page', new DefaultValuePipe(1)) page: number,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+    @Query('actor', new ParseUUIDPipe({ optional: true })) actor?: string,
+    @Query('action') action?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<Pagination<AuditLog>> {
+    if (limit > limitCount) limit = limitCount
+    return this.auditService.findAll(
+      { page, limit, route: `${localUrl}admin/audit` },
+      {
+        actorId: actor,
+        action: action || undefined,
+        from: this.parseDate(from, 'from'),
+        to: this.parseDate(to, 'to'),
+      },
+    )
+  }
+
+  /**
+   * Parses an optional date of the query string
+   *
+   * @param value The value of the parameter
+   * @param name The name of the parameter, for the error message
+   * @returns The date, or `undefined` if the parameter is missing
+   * @throws BadRequestException If the value is not a valid date
+   */
+  private parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) {
+      return undefined
+    }
+    const date: Date = new Date(value)
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`'${name}' must be an ISO 8601 date`)
+    }
+    return date
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { GqlContextType, GqlExecutionContext } from '@nestjs/graphql'
+import { Observable, catchError, from, mergeMap, throwError } from 'rxjs'
+import { PERMISSIONS_KEY } from 'src/auth/decorators/permissions.decorator'
+import { isReadOnlyMethod } from 'src/auth/decorators/allow-unverified.decorator'
+import { AuditService, AuditEntry } from './audit.service'
+import { AuditOutcomes } from './entities/audit-log.entity'
+import { getAuditContext } from './audit-context'
+
+/**
+ * Key used to store the name of an audited controller in metadata.
+ */
+export const AUDITED_KEY = 'audited'
+
+/**
+ * Returns the entry of the audit log of a request, if it is an audited mutation
+ *
+ * The mutations of the controllers marked with `@Audited()` are audited: the REST routes other than
+ * `GET`/`HEAD`/`OPTIONS` and the GraphQL mutations, that require permissions. The action is named
+ * after the controller and the handler (e.g. `people.update`); the target is taken from the route
+ * parameters or GraphQL `id` argument.
+ *
+ * @param reflector The reflector reading the `audited` and permissions metadata
+ * @param context The ExecutionContext object containing request information
+ * @returns The entry, without its outcome, or `null` if the request is not audited
+ */
+export function getAuditedMutation(
+  reflector: Reflector,
+  context: ExecutionContext,
+): AuditEntry | null {
+  const name: string = reflector.getAllAndOverride<string>(AUDITED_KEY, [
+    context.getHandler(),
+    context.getClass(),
+  ])
+  const permissions: string[] = reflector.getAllAndOverride<string[]>(
+    PERMISSIONS_KEY,
+    [context.getHandler(), context.getClass()],
+  )
+  if (!name || !permissions?.length) {
+    return null
+  }
+  let request: any
+  let target: string | undefined
+  let details: Record<string, unknown>
+  if (context.getType<GqlContextType>() === 'graphql') {
+    const gqlContext: GqlExecutionContext = GqlExecutionContext.create(context)
+    if (gqlContext.getInfo().parentType.name !== 'Mutation') {
+      return null
+    }
+    request = gqlContext.getContext().req
+    target = gqlContext.getArgs().id?.toString()
+    details = { operation: gqlContext.getInfo().fieldName }
+  } else {
+    request = context.switchToHttp().getRequest()
+    if (isReadOnlyMethod(request.method)) {
+      return null
+    }
+    target = Object.values(request.params ?? {}).join('/') || undefined
+    details = { method: request.method, path: request.path }
+  }
+  return {
+    ...getAuditContext(request),
+    action: `${name}.${context.getHandler().name}`,
+    target,
+    details,
+  }
+}
+
+/**
+ * Returns the entry of the audit log of a failed or refused mutation
+ *
+ * @param entry The entry of the mutation (`getAuditedMutation`)
+ * @param error The error the mutation failed with
+ * @returns The entry, with a failure outcome and the status and message of the error
+ */
+export function getFailureEntry(entry: AuditEntry, error: any): AuditEntry {
+  return {
+    ...entry,
+    outcome: AuditOutcomes.Failure,
+    details: {
+      ...entry.details,
+      status: error.status ?? error.getStatus?.() ?? 500,
+      error: error.message,
+    },
+  }
+}
+
+/**
+ * AuditInterceptor: Records the mutations of the audited controllers
+ *
+ * This interceptor is applied with the `@Audited()` decorator. It records in the audit log every
+ * mutation (REST route other than `GET`/`HEAD`/`OPTIONS`, or GraphQL mutation) that requires
+ * permissions, once it has succeeded or failed (`getAuditedMutation`). The target of a creation is
+ * the `id` of the created resource. Requests refused by `JwtAuthGuard` never reach the interceptor:
+ * the guard records them itself, unless they are anonymous.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const entry: AuditEntry | null = getAuditedMutation(this.reflector, context)
+    if (!entry) {
+      return next.handle()
+    }
+    return next.handle().pipe(
+      mergeMap(async (result) => {
+        await this.auditService.record({
+          ...entry,
+          target: entry.target ?? result?.id?.toString(),
+        })
+        return result
+      }),
+      catchError((error) =>
+        from(this.auditService.record(getFailureEntry(entry, error))).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+    )
+  }
+}
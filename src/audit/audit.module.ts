@@ -0,0 +1,22 @@
+import { Global, Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+import { AuditLog } from './entities/audit-log.entity'
+import { AuditService } from './audit.service'
+import { AuditController } from './audit.controller'
+
+/**
+ * AuditModule: Security audit log
+ *
+ * This global module provides the `AuditService`, used by the authentication and account services
+ * to record the security events, and by the `AuditInterceptor` that the `@Audited()` decorator applies
+ * to the controllers whose mutations are recorded (the resources, images, user administration and
+ * GraphQL mutations). The `AuditController` lets administrators read the log (`/admin/audit`).
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditLog])],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import {
+  And,
+  FindOptionsWhere,
+  LessThanOrEqual,
+  Like,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm'
+import {
+  IPaginationOptions,
+  Pagination,
+  paginate,
+} from 'nestjs-typeorm-paginate'
+import { AuditLog, AuditOutcomes } from './entities/audit-log.entity'
+import { AuditContext } from './audit-context'
+
+/**
+ * Interface for an entry to add to the audit log
+ *
+ * The `AuditContext` (actor, API key, IP) completed with:
+ *
+ * - `action`: The action taken (`AuditActions`, or `<controller>.<handler>`).
+ * - `outcome`: Whether the action succeeded (`success` by default).
+ * - `target`: What the action was taken on.
+ * - `details`: Any details worth keeping (never secrets such as passwords or tokens).
+ */
+export interface AuditEntry extends AuditContext {
+  action: string
+  outcome?: AuditOutcomes
+  target?: string | null
+  details?: Record<string, unknown> | null
+}
+
+/**
+ * Interface for the filters of the audit log
+ *
+ * - `actorId`: Only the actions of this user.
+ * - `action`: Only this action; an action ending in `.*` matches every action of the prefix
+ *   (e.g. `auth.*`, `people.*`).
+ * - `from`, `to`: Only the actions taken within this time range (inclusive).
+ */
+export interface AuditFilters {
+  actorId?: string
+  action?: string
+  from?: Date
+  to?: Date
+}
+
+/**
+ * AuditService: Security audit log
+ *
+ * This service appends the security events (logins, registrations, account changes) and the
+ * mutations of the audited controllers to the `audit_logs` table, and lets administrators read it.
+ * It offers no way to change or delete an entry. Recording never fails the audited action: an entry
+ * that cannot be written is reported in the application log instead.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name)
+
+  constructor(
+    @InjectRepository(AuditLog)
+    private readonly auditLogsRepository: Repository<AuditLog>,
+  ) {}
+
+  /**
+   * Appends an entry to the audit log
+   *
+   * @param entry The action, its origin, target, outcome and details
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.auditLogsRepository.insert({
+        action: entry.action,
+        outcome: entry.outcome ?? AuditOutcomes.Success,
+        actorId: entry.actorId ?? null,
+        apiKeyId: entry.apiKeyId ?? null,
+        target: entry.target ?? null,
+        ip: entry.ip ?? null,
+        details: entry.details ?? null,
+      })
+    } catch (error) {
+      this.logger.error(
+        `Could not record '${entry.action}' (${entry.outcome ?? AuditOutcomes.Success}) of '${entry.actorId}' on '${entry.target}': ${error.message}`,
+      )
+    }
+  }
+
+  /**
+   * Retrieves a paginated list of audit log entries, the latest first
+   *
+   * @param options The pagination options
+   * @param filters The actor, action and time range filters
+   * @returns A Promise resolving to a paginated list of `AuditLog` entries
+   */
+  async findAll(
+    options: IPaginationOptions,
+    filters: AuditFilters = {},
+  ): Promise<Pagination<AuditLog>> {
+    const where: FindOptionsWhere<AuditLog> = {}
+    if (filters.actorId) {
+      where.actorId = filters.actorId
+    }
+    if (filters.action) {
+      where.action = filters.action.endsWith('.*')
+        ? // Escape the LIKE wildcards of the prefix
+          Like(`${filters.action.slice(0, -1).replace(/[\\%_]/g, '\\$&')}%`)
+        : filters.action
+    }
+    if (filters.from && filters.to) {
+      where.created = And(
+        MoreThanOrEqual(filters.from),
+        LessThanOrEqual(filters.to),
+      )
+    } else if (filters.from) {
+      where.created = MoreThanOrEqual(filters.from)
+    } else if (filters.to) {
+      where.created = LessThanOrEqual(filters.to)
+    }
+    return paginate<AuditLog>(this.auditLogsRepository, options, {
+      where,
+      order: { created: 'DESC', id: 'DESC' },
+    })
+  }
+}
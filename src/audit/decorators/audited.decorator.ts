@@ -0,0 +1,17 @@
+import { SetMetadata, UseInterceptors, applyDecorators } from '@nestjs/common'
+import { AUDITED_KEY, AuditInterceptor } from '../audit.interceptor'
+
+/**
+ * Decorator to record the mutations of a controller or resolver in the audit log.
+ *
+ * This decorator sets the name of the controller in metadata and applies the `AuditInterceptor`,
+ * which records every mutation requiring permissions as `<name>.<handler>` (e.g. `people.create`).
+ *
+ * @param name The name of the controller in the recorded actions (e.g. `people`, `admin.users`).
+ * @returns A decorator function that sets the `audited` metadata and applies the interceptor.
+ */
+export const Audited = (name: string) =>
+  applyDecorators(
+    SetMetadata(AUDITED_KEY, name),
+    UseInterceptors(AuditInterceptor),
+  )
@@ -0,0 +1,116 @@
+import { ApiProperty } from '@nestjs/swagger'
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm'
+
+/**
+ * Enum for the security events recorded by the services
+ *
+ * The mutations of the `@Audited()` controllers are recorded as well, with an action named after the
+ * controller and its handler (e.g. `people.create`, `admin.users.disable`).
+ */
+export enum AuditActions {
+  Login = 'auth.login',
+  LoginFailed = 'auth.loginFailed',
+  LoginLocked = 'auth.loginLocked',
+  Register = 'auth.register',
+  RegisterAdmin = 'auth.registerAdmin',
+  RemoveUser = 'auth.removeUser',
+  Logout = 'auth.logout',
+  RefreshTokenReused = 'auth.refreshTokenReused',
+  EmailVerified = 'auth.emailVerified',
+  PasswordResetRequested = 'auth.passwordResetRequested',
+  PasswordReset = 'auth.passwordReset',
+  ProfileUpdated = 'users.profileUpdated',
+  PasswordChanged = 'users.passwordChanged',
+  AccountDeleted = 'users.accountDeleted',
+}
+
+/**
+ * Enum for the outcome of an audited action
+ */
+export enum AuditOutcomes {
+  Success = 'success',
+  Failure = 'failure',
+}
+
+/**
+ * AuditLog Entity
+ *
+ * This class represents an entry of the security audit log: who (`actorId`, and the API key used if
+ * any) did what (`action`) to what (`target`), from where (`ip`), when and with which outcome. The
+ * log is append-only: entries are never updated nor deleted by the application, and they are kept
+ * when the actor's account is deleted (there is no foreign key on `actorId`).
+ */
+@Entity({ name: 'audit_logs' })
+export class AuditLog {
+  /**
+   * Unique identifier of the entry
+   */
+  @PrimaryGeneratedColumn()
+  @ApiProperty()
+  id: number
+
+  /**
+   * The action (`AuditActions`, or `<controller>.<handler>` for the audited mutations)
+   */
+  @Index()
+  @Column({ length: 100 })
+  @ApiProperty({ example: AuditActions.Login })
+  action: string
+
+  /**
+   * Whether the action succeeded
+   */
+  @Column({ type: 'enum', enum: AuditOutcomes })
+  @ApiProperty({ enum: AuditOutcomes })
+  outcome: AuditOutcomes
+
+  /**
+   * ID of the user who took the action (`null` if unknown, e.g. a failed login on an unknown username)
+   */
+  @Index()
+  @Column({ length: 36, nullable: true })
+  @ApiProperty({ required: false, nullable: true })
+  actorId: string | null
+
+  /**
+   * ID of the API key the request was authenticated with, if any
+   */
+  @Column({ length: 36, nullable: true })
+  @ApiProperty({ required: false, nullable: true })
+  apiKeyId: string | null
+
+  /**
+   * What the action was taken on (e.g. a user ID, `people/1`, a username)
+   */
+  @Column({ nullable: true })
+  @ApiProperty({ required: false, nullable: true, example: 'people/1' })
+  target: string | null
+
+  /**
+   * IP address of the client
+   */
+  @Column({ length: 45, nullable: true })
+  @ApiProperty({ required: false, nullable: true })
+  ip: string | null
+
+  /**
+   * Details of the action (e.g. the HTTP route, the error of a failure)
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  @ApiProperty({ required: false, nullable: true })
+  details: Record<string, unknown> | null
+
+  /**
+   * Date of the action
+   */
+  @Index()
+  @CreateDateColumn({ type: 'datetime' })
+  @ApiProperty()
+  created: Date
+}
@@ -0,0 +1,154 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { createHash, randomBytes } from 'crypto'
+import { ApiKey } from './entities/api-key.entity'
+import { CreateApiKeyDto } from './dto/create-api-key.dto'
+import { ApiKeyResponseDto, toApiKeyResponse } from './dto/api-key-response.dto'
+import { hasPermissions } from './permissions'
+import {
+  AuthenticatedUser,
+  UserRoles,
+  apiKeyDefaultLifetime,
+} from 'src/shared/constants'
+
+/**
+ * ApiKeyService: Management and verification of the API keys
+ *
+ * This service creates, lists and revokes the API keys of a user, and verifies the keys sent by
+ * machine clients in the `X-API-Key` header (see `ApiKeyStrategy`). A key is a random string
+ * returned to its owner once; the database only keeps its SHA-256 hash.
+ */
+@Injectable()
+export class ApiKeyService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeysRepository: Repository<ApiKey>,
+  ) {}
+
+  /**
+   * Creates an API key
+   *
+   * @param owner The user creating the key
+   * @param createApiKeyDto The name, scopes and lifetime of the key
+   * @returns A Promise resolving to the stored key and the raw key, returned only this once
+   * @throws ForbiddenException If the role of the user does not grant every scope, or an administrator
+   *         did not sign in with a second factor
+   */
+  async create(
+    owner: AuthenticatedUser,
+    createApiKeyDto: CreateApiKeyDto,
+  ): Promise<{ apiKey: ApiKeyResponseDto; key: string }> {
+    const scopes: string[] = [...new Set(createApiKeyDto.scopes)]
+    // An administrator key would otherwise bypass the mandatory second factor
+    if (owner.role === UserRoles.Admin && !owner.twoFactor) {
+      throw new ForbiddenException(
+        'Administrators must sign in with two-factor authentication to create API keys',
+      )
+    }
+    if (!hasPermissions(owner.role, createApiKeyDto.scopes)) {
+      throw new ForbiddenException(
+        'An API key cannot have permissions your role does not grant',
+      )
+    }
+    const key: string = `swk_${randomBytes(32).toString('base64url')}`
+    const lifetime: number =
+      createApiKeyDto.expiresInDays ?? apiKeyDefaultLifetime
+    const apiKey: ApiKey = await this.apiKeysRepository.save(
+      this.apiKeysRepository.create({
+        name: createApiKeyDto.name,
+        prefix: key.slice(0, 12),
+        keyHash: this.hashKey(key),
+        scopes,
+        userId: owner.userId,
+        expiresAt: new Date(Date.now() + lifetime * 86400 * 1000),
+      }),
+    )
+    return { apiKey: toApiKeyResponse(apiKey), key }
+  }
+
+  /**
+   * Lists the API keys of a user, the latest first
+   *
+   * @param userId The ID of the owner
+   * @returns A Promise resolving to the keys, revoked and expired ones included
+   */
+  async findAll(userId: string): Promise<ApiKeyResponseDto[]> {
+    const apiKeys: ApiKey[] = await this.apiKeysRepository.find({
+      where: { userId },
+      order: { created: 'DESC' },
+    })
+    return apiKeys.map(toApiKeyResponse)
+  }
+
+  /**
+   * Revokes an API key of a user
+   *
+   * Revoking a key that is already revoked changes nothing.
+   *
+   * @param userId The ID of the owner
+   * @param apiKeyId The ID of the key
+   * @returns A Promise resolving to the revoked key
+   * @throws NotFoundException If the user has no key with this ID
+   */
+  async revoke(userId: string, apiKeyId: string): Promise<ApiKeyResponseDto> {
+    const apiKey: ApiKey = await this.apiKeysRepository.findOne({
+      where: { id: apiKeyId, userId },
+    })
+    if (!apiKey) {
+      throw new NotFoundException(`API key with id ${apiKeyId} not found`)
+    }
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date()
+      await this.apiKeysRepository.save(apiKey)
+    }
+    return toApiKeyResponse(apiKey)
+  }
+
+  /**
+   * Verifies a raw API key and records its use
+   *
+   * @param key The raw key sent by the client
+   * @returns A Promise resolving to the authenticated owner, limited to the scopes of the key
+   * @throws UnauthorizedException If the key is unknown, revoked or expired, or its owner is disabled or must
+   *         reset their password
+   */
+  async authenticate(key: string): Promise<AuthenticatedUser> {
+    const apiKey: ApiKey = await this.apiKeysRepository.findOne({
+      where: { keyHash: this.hashKey(key) },
+      relations: { user: true },
+    })
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      apiKey.expiresAt.getTime() <= Date.now() ||
+      apiKey.user.isDisabled ||
+      apiKey.user.passwordResetRequired
+    ) {
+      throw new UnauthorizedException('Invalid API key')
+    }
+    await this.apiKeysRepository.update(apiKey.id, { lastUsedAt: new Date() })
+    return {
+      userId: apiKey.userId,
+      role: apiKey.user.role,
+      emailVerified: Boolean(apiKey.user.isEmailVerified),
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+    }
+  }
+
+  /**
+   * Computes the stored hash of a raw key
+   *
+   * @param key The raw API key
+   * @returns The SHA-256 hash of the key, hex-encoded
+   */
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex')
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+} from '@nestjs/common'
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { ApiKeyService } from './api-key.service'
+import { CreateApiKeyDto } from './dto/create-api-key.dto'
+import { ApiKeyResponseDto } from './dto/api-key-response.dto'
+
+/**
+ * ApiKeysController: Management of the API keys of the current user
+ *
+ * This controller lets a user create, list and revoke the API keys their machine clients send in
+ * the `X-API-Key` header. Its routes require an access token: an API key cannot manage keys.
+ */
+@ApiTags('auth')
+@ApiBearerAuth()
+@Controller('/auth/api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  /**
+   * Creates an API key
+   *
+   * The response contains the key itself, shown only once.
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @param createApiKeyDto The name, scopes and lifetime of the key (from request body)
+   * @returns A Promise resolving to the stored key and the raw key
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create an API key' })
+  @ApiBody({ type: CreateApiKeyDto })
+  @ApiProblemResponse(
+    HttpStatus.FORBIDDEN,
+    'A scope is not granted by the role of the user',
+  )
+  async create(
+    @Req() req,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ): Promise<{ apiKey: ApiKeyResponseDto; key: string }> {
+    return this.apiKeyService.create(req.user, createApiKeyDto)
+  }
+
+  /**
+   * Lists the API keys of the current user
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @returns A Promise resolving to the keys, the latest first
+   */
+  @Get()
+  @ApiOperation({ summary: 'List your API keys' })
+  @ApiResponse({ status: HttpStatus.OK, type: [ApiKeyResponseDto] })
+  async findAll(@Req() req): Promise<ApiKeyResponseDto[]> {
+    return this.apiKeyService.findAll(req.user.userId)
+  }
+
+  /**
+   * Revokes an API key of the current user
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @param id The ID of the key
+   * @returns A Promise resolving to the revoked key
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The key does not exist')
+  async revoke(
+    @Req() req,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiKeyResponseDto> {
+    return this.apiKeyService.revoke(req.user.userId, id)
+  }
+}
@@ -1,28 +1,40 @@
-import { ApiBody, ApiTags } from '@nestjs/swagger'
+import { ApiBearerAuth, ApiBody, ApiQuery, ApiTags } from '@nestjs/swagger'
 import { AuthService } from './auth.service'
 import {
+  BadRequestException,
   Body,
   Controller,
   Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
   NotFoundException,
   Post,
+  Query,
   Req,
-  Response,
   UseGuards,
 } from '@nestjs/common'
 import { LocalAuthGuard } from './guards/local-auth.guard'
 import { LoginUserDto } from './dto/login-user.dto'
 import { RegistrationUserDto } from './dto/registration-user.dto'
-import { AdminGuard } from './guards/admin.guard'
 import { UserRoles } from 'src/shared/constants'
 import { UserService } from 'src/user/user.service'
 import { RemoveUserDto } from './dto/remove-user.dto'
+import { RefreshTokenDto } from './dto/refresh-token.dto'
+import { ForgotPasswordDto } from './dto/forgot-password.dto'
+import { ResetPasswordDto } from './dto/reset-password.dto'
+import { TwoFactorLoginDto } from './dto/two-factor-login.dto'
+import { AllowUnverified } from './decorators/allow-unverified.decorator'
+import { Public } from './decorators/public.decorator'
+import { RequirePermissions } from './decorators/permissions.decorator'
+import { Permissions } from './permissions'
+import { getAuditContext } from 'src/audit/audit-context'
 
 /**
  * AuthController: Controller for Authentication Endpoints
  *
  * This controller handles various authentication-related endpoints, including login, registration,
- * user removal, and logout. It interacts with the `AuthService` and `UserService` for user
+ * token refresh, email verification, password reset, user removal, and logout. It interacts with the `AuthService` and `UserService` for user
  * authentication, registration, and management.
  */
 @ApiTags('auth')
@@ -39,17 +51,46 @@ export class AuthController {
    * This method handles POST requests to the `/auth/login` endpoint. It expects a
    * `LoginUserDto` object containing the user's credentials (username and password)
    * in the request body. It utilizes the `LocalAuthGuard` to authenticate the user
-   * and then calls the `AuthService` to sign the user in and generate an access token.
+   * and then calls the `AuthService` to sign the user in and generate an access token
+   * and a refresh token.
+   *
+   * When the user enabled two-factor authentication, the response is a `challenge_token` (with
+   * `two_factor_required: true`) to send along with a code to `POST /auth/login/2fa`.
    *
    * @param req The HTTP request object containing the user credentials in the body
-   * @returns A Promise resolving to an object with the `access_token` property on successful login,
-   *          or throws a `HttpException` with appropriate status code for errors.
+   * @returns A Promise resolving to an object with the `access_token` and `refresh_token` properties on successful login,
+   *          or with the `challenge_token` of the second step, or throws a `HttpException` with appropriate status code for errors.
    */
+  @Public()
   @Post('/login')
   @UseGuards(LocalAuthGuard)
   @ApiBody({ type: LoginUserDto })
   async login(@Req() req) {
-    return await this.authService.signIn(req.user)
+    return await this.authService.signIn(req.user, req.ip)
+  }
+
+  /**
+   * Second login step for users with two-factor authentication
+   *
+   * This method handles POST requests to the `/auth/login/2fa` endpoint. It expects the challenge
+   * token returned by `POST /auth/login` and a code of the authenticator app (or a recovery code),
+   * and returns the tokens of a session opened with a second factor.
+   *
+   * @param req The HTTP request object, for the IP address of the client
+   * @param body The TwoFactorLoginDto object containing the challenge token and the code (from request body)
+   * @returns A Promise resolving to an object with the `access_token` and `refresh_token` properties,
+   *          or throws an `UnauthorizedException` if the challenge token or the code is invalid.
+   */
+  @Public()
+  @Post('/login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiBody({ type: TwoFactorLoginDto })
+  async loginWithTwoFactor(@Req() req, @Body() body: TwoFactorLoginDto) {
+    return this.authService.signInWithTwoFactor(
+      body.challenge_token,
+      body.code,
+      req.ip,
+    )
   }
 
   /**
@@ -58,74 +99,204 @@ export class AuthController {
    * This method handles POST requests to the `/auth/register` endpoint. It expects a
    * `RegistrationUserDto` object containing user registration details in the request body.
    * It interacts with the `AuthService` to handle user registration and potentially
-   * returns a response object upon successful registration.
+   * returns a response object upon successful registration. The account always gets the
+   * `user` role, whatever the body contains.
    *
+   * @param req The HTTP request object, for the IP address of the client (recorded in the audit log)
    * @param registrationData The RegistrationUserDto object containing user registration details (from request body)
    * @returns A Promise resolving to a response object (potentially indicating successful registration)
    */
+  @Public()
   @Post('/register')
   @ApiBody({ type: RegistrationUserDto })
-  async register(@Body() registrationData: RegistrationUserDto) {
-    return this.authService.signUp(registrationData)
+  async register(@Req() req, @Body() registrationData: RegistrationUserDto) {
+    registrationData.role = UserRoles.User
+    return this.authService.signUp(registrationData, getAuditContext(req))
   }
 
   /**
-   * Registration endpoint for creating an admin user (requires admin privileges)
+   * Registration endpoint for creating an admin user (requires the `users:manage` permission)
    *
    * This method handles POST requests to the `/auth/register-admin` endpoint. It requires the
-   * user to be authenticated as an admin via the `AdminGuard`. It expects a
+   * user to have the `users:manage` permission. It expects a
    * `RegistrationUserDto` object containing user registration details in the request body.
    * It sets the user's role to "Admin" before calling the `AuthService` to create the user.
    *
+   * @param req The HTTP request object (its `user` is the administrator, recorded in the audit log)
    * @param registrationData The RegistrationUserDto object containing user registration details (from request body)
    * @returns A Promise resolving to a response object (potentially indicating successful registration)
    */
   @Post('/register-admin')
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.UsersManage)
+  @ApiBearerAuth()
   @ApiBody({ type: RegistrationUserDto })
-  async registerAdmin(@Body() registrationData: RegistrationUserDto) {
+  async registerAdmin(
+    @Req() req,
+    @Body() registrationData: RegistrationUserDto,
+  ) {
     // Set the user's role to "Admin" before creating the user
     registrationData.role = UserRoles.Admin
-    return this.authService.signUp(registrationData)
+    return this.authService.signUp(registrationData, getAuditContext(req))
+  }
+
+  /**
+   * Token refresh endpoint
+   *
+   * This method handles POST requests to the `/auth/refresh` endpoint. It expects a
+   * `RefreshTokenDto` object containing a refresh token in the request body, and exchanges
+   * it for a new access token and a new refresh token. The presented refresh token cannot be
+   * used again: reusing it revokes the whole session.
+   *
+   * @param req The HTTP request object, for the IP address of the client
+   * @param body The RefreshTokenDto object containing the refresh token (from request body)
+   * @returns A Promise resolving to an object with the new `access_token` and `refresh_token`,
+   *          or throws an `UnauthorizedException` if the refresh token is invalid, expired or reused.
+   */
+  @Public()
+  @Post('/refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiBody({ type: RefreshTokenDto })
+  async refresh(@Req() req, @Body() body: RefreshTokenDto) {
+    return this.authService.refresh(body.refresh_token, req.ip)
   }
 
   /**
    * Logout endpoint for user session termination
    *
-   * This method handles POST requests to the `/auth/logout` endpoint.
-   * It clears the "jwtToken" cookie from the user's response to invalidate
-   * the access token and potentially returns a success message indicating
-   * successful logout.
+   * This method handles POST requests to the `/auth/logout` endpoint. It expects a
+   * `RefreshTokenDto` object containing the refresh token of the session in the request body.
+   * It revokes every refresh token of the session and the access tokens issued for it,
+   * and returns a success message indicating successful logout.
    *
-   * @param res The HTTP response object
-   * @returns A Promise resolving to a JSON object with a success message
+   * @param req The HTTP request object, for the IP address of the client
+   * @param body The RefreshTokenDto object containing the refresh token (from request body)
+   * @returns A Promise resolving to a JSON object with a success message,
+   *          or throws an `UnauthorizedException` if the refresh token is unknown.
    */
+  @Public()
   @Post('/logout')
-  async logout(@Response() res) {
-    res.clearCookie('jwtToken')
-    return res.status(200).json({ message: 'Logout successfully completed...' })
+  @HttpCode(HttpStatus.OK)
+  @ApiBody({ type: RefreshTokenDto })
+  async logout(@Req() req, @Body() body: RefreshTokenDto) {
+    await this.authService.logout(body.refresh_token, req.ip)
+    return { message: 'Logout successfully completed...' }
+  }
+
+  /**
+   * Email verification endpoint (the link sent by email)
+   *
+   * This method handles GET requests to the `/auth/verify-email` endpoint, opened from the
+   * verification email. It marks the email address of the user as verified; write access is
+   * granted with the next token refresh or login.
+   *
+   * @param req The HTTP request object, for the IP address of the client
+   * @param token The verification token (from the query string)
+   * @returns A Promise resolving to a JSON object with a success message,
+   *          or throws a `BadRequestException` if the token is invalid, expired or already used.
+   */
+  @Public()
+  @Get('/verify-email')
+  @ApiQuery({ name: 'token', required: true })
+  async verifyEmail(@Req() req, @Query('token') token: string) {
+    await this.authService.verifyEmail(String(token ?? ''), req.ip)
+    return {
+      message:
+        'Email address verified. Refresh your tokens to get write access.',
+    }
+  }
+
+  /**
+   * Endpoint for sending a new verification email
+   *
+   * This method handles POST requests to the `/auth/resend-verification` endpoint. It requires a
+   * valid access token, even from an unverified account, and sends a new verification link to the
+   * address of the user; the links sent before stop working.
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @returns A Promise resolving to a JSON object with a success message,
+   *          or throws a `BadRequestException` if the address is already verified.
+   */
+  @Post('/resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @AllowUnverified()
+  @ApiBearerAuth()
+  async resendVerification(@Req() req) {
+    const user = await this.userService.getAccount(req.user.userId)
+    if (user.isEmailVerified) {
+      throw new BadRequestException('Email address already verified.')
+    }
+    await this.authService.sendEmailVerification(user)
+    return { message: 'Verification email sent.' }
+  }
+
+  /**
+   * Forgotten password endpoint
+   *
+   * This method handles POST requests to the `/auth/forgot-password` endpoint. It emails a
+   * single-use password reset token to the account with the given address. The response is the
+   * same whether the address is registered or not.
+   *
+   * @param req The HTTP request object, for the IP address of the client
+   * @param body The ForgotPasswordDto object containing the email address (from request body)
+   * @returns A Promise resolving to a JSON object with a generic message
+   */
+  @Public()
+  @Post('/forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiBody({ type: ForgotPasswordDto })
+  async forgotPassword(@Req() req, @Body() body: ForgotPasswordDto) {
+    await this.authService.requestPasswordReset(body.email, req.ip)
+    return {
+      message:
+        'If an account uses this email address, a password reset email was sent.',
+    }
+  }
+
+  /**
+   * Password reset endpoint
+   *
+   * This method handles POST requests to the `/auth/reset-password` endpoint. It expects the
+   * emailed token and the new password, sets the password and ends every session of the user.
+   *
+   * @param req The HTTP request object, for the IP address of the client
+   * @param body The ResetPasswordDto object containing the token and the new password (from request body)
+   * @returns A Promise resolving to a JSON object with a success message,
+   *          or throws a `BadRequestException` if the token is invalid, expired or already used.
+   */
+  @Public()
+  @Post('/reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiBody({ type: ResetPasswordDto })
+  async resetPassword(@Req() req, @Body() body: ResetPasswordDto) {
+    await this.authService.resetPassword(body.token, body.newPassword, req.ip)
+    return { message: 'Password reset successfully. Please log in again.' }
   }
 
   /**
-   * Endpoint for removing a user (requires admin privileges)
+   * Endpoint for removing a user (requires the `users:manage` permission)
    *
    * This method handles DELETE requests to the `/auth/remove-user` endpoint. It requires the
-   * user to be authenticated as an admin via the `AdminGuard`. It expects a request body containing
+   * user to have the `users:manage` permission. It expects a request body containing
    * the `userName` property of the user to be removed.
    *
    * - Calls the `UserService` to remove the user with the provided username.
    * - Returns a success message if the user is removed successfully.
    * - Throws a `NotFoundException` if the user with the provided username is not found.
    *
+   * @param req The HTTP request object (its `user` is the administrator, recorded in the audit log)
    * @param body An object containing the `userName` property of the user to be removed (from request body)
    * @returns A Promise resolving to an object with a success message on successful deletion,
    *          or throws a `NotFoundException` if the user is not found.
    */
   @Delete('/remove-user')
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.UsersManage)
+  @ApiBearerAuth()
   @ApiBody({ type: RemoveUserDto })
-  async removeUser(@Body() body: { userName: string }) {
-    const result = await this.userService.remove(body.userName)
+  async removeUser(@Req() req, @Body() body: { userName: string }) {
+    const result = await this.userService.remove(
+      body.userName,
+      getAuditContext(req),
+    )
     if (result) {
       return {
         message: `User '${body.userName}' was removed successfully.`,
@@ -1,15 +1,58 @@
 import 'dotenv/config'
-import { Module } from '@nestjs/common'
+import { Global, Module } from '@nestjs/common'
+import { APP_GUARD } from '@nestjs/core'
 import { AuthService } from './auth.service'
 import { UserModule } from 'src/user/user.module'
 import { JwtModule } from '@nestjs/jwt'
-import { TypeOrmModule } from '@nestjs/typeorm'
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm'
 import { User } from 'src/user/entities/user.entity'
 import { PassportModule } from '@nestjs/passport'
 import { LocalStrategy } from './strategies/local.strategy'
 import { JwtStrategy } from './strategies/jwt.strategy'
 import { AuthController } from './auth.controller'
 import { UserService } from 'src/user/user.service'
+import { RefreshToken } from './entities/refresh-token.entity'
+import { RevokedToken } from './entities/revoked-token.entity'
+import { UserToken } from './entities/user-token.entity'
+import { UserTokenService } from './user-token.service'
+import { RefreshTokenService } from './refresh-token.service'
+import { TokenRevocationService } from './token-revocation.service'
+import { accessTokenLifetime } from 'src/shared/constants'
+import { JwtAuthGuard } from './guards/jwt-auth.guard'
+import { ApiKey } from './entities/api-key.entity'
+import { ApiKeyService } from './api-key.service'
+import { ApiKeyStrategy } from './strategies/api-key.strategy'
+import { ApiKeysController } from './api-keys.controller'
+import { Repository } from 'typeorm'
+import { LoginAttempt } from './entities/login-attempt.entity'
+import { LoginAttemptStore } from './login-attempt-store'
+import { MemoryLoginAttemptStore } from './memory.login-attempt-store'
+import { DatabaseLoginAttemptStore } from './database.login-attempt-store'
+import { LoginThrottleService } from './login-throttle.service'
+import { UserTwoFactor } from './entities/user-two-factor.entity'
+import { TwoFactorService } from './two-factor.service'
+import { TwoFactorController } from './two-factor.controller'
+import { JwtSigningKey } from './entities/jwt-signing-key.entity'
+import { JwtKeyService } from './jwt-key.service'
+import { JwksController } from './jwks.controller'
+
+/**
+ * Creates the store of the failed login attempts selected by the environment
+ *
+ * - `LOGIN_ATTEMPT_STORE=database`: the `login_attempts` table, shared by every instance.
+ * - otherwise: memory of the process.
+ *
+ * @param loginAttemptsRepository The repository of the `LoginAttempt` entity
+ * @returns The login attempt store
+ */
+function createLoginAttemptStore(
+  loginAttemptsRepository: Repository<LoginAttempt>,
+): LoginAttemptStore {
+  if (process.env.LOGIN_ATTEMPT_STORE === 'database') {
+    return new DatabaseLoginAttemptStore(loginAttemptsRepository)
+  }
+  return new MemoryLoginAttemptStore()
+}
 
 /**
  * AuthModule: Provides authentication functionalities for the application
@@ -19,25 +62,76 @@ import { UserService } from 'src/user/user.service'
  *
  * - UserModule: Provides access to user data and functionalities for user management.
  * - AuthService: Handles user login, registration, and token management.
+ * - RefreshTokenService: Stores the hashed refresh tokens and their families.
+ * - UserTokenService: Issues the single-use email verification and password reset tokens.
+ * - TokenRevocationService: Keeps the revocation list of the access tokens, consulted by `JwtStrategy`.
+ * - JwtAuthGuard: Registered as the global guard (`APP_GUARD`). It authenticates every request that is not
+ *   `@Public()` and checks the `@Roles()` and `@RequirePermissions()` of the route.
+ * - LoginThrottleService: Counts the failed logins per account and client IP and locks them out, in the
+ *   `LoginAttemptStore` selected by `LOGIN_ATTEMPT_STORE`.
+ * - TwoFactorService: Handles the TOTP two-factor authentication (enrolment through `TwoFactorController`,
+ *   second login step), mandatory for administrators.
  * - PassportModule: Enables Passport.js integration for implementing authentication strategies.
  * - LocalStrategy: Defines the local authentication strategy using username and password.
  * - JwtStrategy: Defines the JWT authentication strategy for verifying access tokens.
- * - JwtModule: Configures the JWT module with the secret key and signing options for token generation.
- * - AuthController: Exposes endpoints for user login, registration, and logout functionalities.
+ * - JwtKeyService: Signs and verifies the tokens, with the `JWT_SECRET` or with rotated `RS256`/`ES256` key pairs
+ *   whose public keys `JwksController` publishes at `GET /.well-known/jwks.json`.
+ * - ApiKeyStrategy, ApiKeyService: Authenticate the machine clients sending a user-owned API key in the
+ *   `X-API-Key` header; `ApiKeysController` lets users create, list and revoke their keys.
+ * - JwtModule: Configures the JWT module with the default signing options; the keys are passed by `JwtKeyService`.
+ * - AuthController: Exposes endpoints for user login, registration, token refresh, and logout functionalities.
  */
+@Global()
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([
+      User,
+      RefreshToken,
+      RevokedToken,
+      UserToken,
+      ApiKey,
+      LoginAttempt,
+      UserTwoFactor,
+      JwtSigningKey,
+    ]),
     PassportModule,
     UserModule,
     JwtModule.register({
       global: true,
-      secret: process.env.JWT_SECRET,
-      signOptions: { expiresIn: '21600s' }, // 6 hours...
+      signOptions: { expiresIn: accessTokenLifetime },
     }),
   ],
-  providers: [AuthService, LocalStrategy, JwtStrategy, UserService],
-  controllers: [AuthController],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    LocalStrategy,
+    JwtStrategy,
+    ApiKeyStrategy,
+    UserService,
+    RefreshTokenService,
+    TokenRevocationService,
+    UserTokenService,
+    ApiKeyService,
+    {
+      provide: LoginAttemptStore,
+      useFactory: createLoginAttemptStore,
+      inject: [getRepositoryToken(LoginAttempt)],
+    },
+    LoginThrottleService,
+    TwoFactorService,
+    JwtKeyService,
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+  ],
+  controllers: [
+    AuthController,
+    ApiKeysController,
+    TwoFactorController,
+    JwksController,
+  ],
+  exports: [
+    AuthService,
+    RefreshTokenService,
+    TokenRevocationService,
+    LoginThrottleService,
+  ],
 })
 export class AuthModule {}
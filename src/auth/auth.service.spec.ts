@@ -0,0 +1,465 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import {
+  BadRequestException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common'
+import * as bcrypt from 'bcrypt'
+import { AuthService } from './auth.service'
+import { UserService } from 'src/user/user.service'
+import { User } from 'src/user/entities/user.entity'
+import { JwtKeyService } from './jwt-key.service'
+import { RefreshTokenService } from './refresh-token.service'
+import { TokenRevocationService } from './token-revocation.service'
+import { UserTokenService } from './user-token.service'
+import { UserTokenPurposes } from './entities/user-token.entity'
+import { RefreshToken } from './entities/refresh-token.entity'
+import { MailService } from 'src/mail/mail.service'
+import { LoginThrottleService } from './login-throttle.service'
+import { TwoFactorService } from './two-factor.service'
+import { AuditService } from 'src/audit/audit.service'
+import {
+  AuditActions,
+  AuditOutcomes,
+} from 'src/audit/entities/audit-log.entity'
+import { UserRoles } from 'src/shared/constants'
+import { RegistrationUserDto } from './dto/registration-user.dto'
+
+/**
+ * Unit test suite for AuthService.
+ * The users, the tokens, the mails, the login throttling, the second factor and the audit log are
+ * mocked.
+ */
+describe('AuthService', () => {
+  let service: AuthService
+  let userService: Record<string, jest.Mock>
+  let jwtKeyService: Record<string, jest.Mock>
+  let loginThrottleService: Record<string, jest.Mock>
+  let twoFactorService: Record<string, jest.Mock>
+  let userTokenService: Record<string, jest.Mock>
+  let mailService: Record<string, jest.Mock>
+  let auditService: Record<string, jest.Mock>
+  let refreshTokenService: Record<string, jest.Mock>
+  let tokenRevocationService: Record<string, jest.Mock>
+  let user: User
+
+  beforeEach(async () => {
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      userName: 'luke',
+      email: 'luke@tatooine.org',
+      password: await bcrypt.hash('password', 4),
+      role: UserRoles.User,
+      isDisabled: false,
+      passwordResetRequired: false,
+    })
+    userService = {
+      findOneByName: jest.fn(async () => user),
+      findOneById: jest.fn(async () => user),
+      findOneByEmail: jest.fn(async () => user),
+      markEmailVerified: jest.fn(async () => user),
+      resetPassword: jest.fn(),
+    }
+    jwtKeyService = {
+      sign: jest.fn().mockResolvedValue('signed-token'),
+      verify: jest.fn().mockResolvedValue({ sub: 'user-1', typ: '2fa' }),
+    }
+    loginThrottleService = {
+      assertAllowed: jest.fn(),
+      recordFailure: jest.fn(),
+      recordSuccess: jest.fn(),
+    }
+    twoFactorService = {
+      isEnabled: jest.fn().mockResolvedValue(false),
+      verify: jest.fn().mockResolvedValue(true),
+    }
+    userTokenService = {
+      issue: jest.fn().mockResolvedValue('user-token'),
+      consume: jest.fn().mockResolvedValue('user-1'),
+    }
+    mailService = {
+      sendEmailVerification: jest.fn(),
+      sendPasswordReset: jest.fn(),
+    }
+    auditService = { record: jest.fn() }
+    refreshTokenService = {
+      issue: jest.fn().mockResolvedValue({
+        token: 'refresh-token',
+        refreshToken: { family: 'sid-1', twoFactor: false },
+      }),
+      findByToken: jest.fn(),
+      markUsed: jest.fn().mockResolvedValue(true),
+      findActiveFamilies: jest.fn().mockResolvedValue(['sid-1', 'sid-2']),
+      revokeFamily: jest.fn(),
+    }
+    tokenRevocationService = { revoke: jest.fn() }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: UserService, useValue: userService },
+        { provide: JwtKeyService, useValue: jwtKeyService },
+        { provide: RefreshTokenService, useValue: refreshTokenService },
+        { provide: TokenRevocationService, useValue: tokenRevocationService },
+        { provide: UserTokenService, useValue: userTokenService },
+        { provide: MailService, useValue: mailService },
+        { provide: LoginThrottleService, useValue: loginThrottleService },
+        { provide: TwoFactorService, useValue: twoFactorService },
+        { provide: AuditService, useValue: auditService },
+      ],
+    }).compile()
+
+    service = module.get<AuthService>(AuthService)
+  })
+
+  /**
+   * Test suite for the `validateUser` method of AuthService.
+   */
+  describe('validateUser', () => {
+    it('should return the user without clearing the failed attempts', async () => {
+      await expect(
+        service.validateUser('luke', 'password', '10.0.0.1'),
+      ).resolves.toBe(user)
+      expect(loginThrottleService.assertAllowed).toHaveBeenCalledWith(
+        'luke',
+        '10.0.0.1',
+      )
+      expect(loginThrottleService.recordSuccess).not.toHaveBeenCalled()
+      expect(loginThrottleService.recordFailure).not.toHaveBeenCalled()
+    })
+
+    it('should count a wrong password', async () => {
+      await expect(
+        service.validateUser('luke', 'wrong', '10.0.0.1'),
+      ).resolves.toBeNull()
+      expect(loginThrottleService.recordFailure).toHaveBeenCalledWith(
+        'luke',
+        '10.0.0.1',
+      )
+    })
+  })
+
+  /**
+   * Test suite for the `signIn` method of AuthService.
+   */
+  describe('signIn', () => {
+    it('should clear the failed attempts when the login is complete', async () => {
+      await expect(service.signIn(user, '10.0.0.1')).resolves.toEqual({
+        access_token: 'signed-token',
+        refresh_token: 'refresh-token',
+      })
+      expect(loginThrottleService.recordSuccess).toHaveBeenCalledWith('luke')
+    })
+
+    it('should keep the failed attempts while the second factor is pending', async () => {
+      twoFactorService.isEnabled.mockResolvedValue(true)
+
+      await expect(service.signIn(user, '10.0.0.1')).resolves.toEqual({
+        two_factor_required: true,
+        challenge_token: 'signed-token',
+      })
+      expect(loginThrottleService.recordSuccess).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Test suite for the `signInWithTwoFactor` method of AuthService.
+   */
+  describe('signInWithTwoFactor', () => {
+    it('should clear the failed attempts after a valid code', async () => {
+      await service.signInWithTwoFactor('challenge', '123456', '10.0.0.1')
+
+      expect(loginThrottleService.recordSuccess).toHaveBeenCalledWith('luke')
+    })
+
+    it('should count a wrong code', async () => {
+      twoFactorService.verify.mockResolvedValue(false)
+
+      await expect(
+        service.signInWithTwoFactor('challenge', '000000', '10.0.0.1'),
+      ).rejects.toMatchObject({ status: 401 })
+      expect(loginThrottleService.recordFailure).toHaveBeenCalledWith(
+        'luke',
+        '10.0.0.1',
+      )
+      expect(loginThrottleService.recordSuccess).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Test suite for the `requestPasswordReset` method of AuthService.
+   */
+  describe('requestPasswordReset', () => {
+    beforeEach(() => {
+      jest.spyOn(Logger.prototype, 'error').mockImplementation()
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should send the token in the background', async () => {
+      await service.requestPasswordReset('luke@tatooine.org', '10.0.0.1')
+      await new Promise(setImmediate)
+
+      expect(mailService.sendPasswordReset).toHaveBeenCalledWith(
+        'luke@tatooine.org',
+        'luke',
+        'user-token',
+        false,
+      )
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditActions.PasswordResetRequested,
+          ip: '10.0.0.1',
+        }),
+      )
+    })
+
+    it('should not wait for the email', async () => {
+      mailService.sendPasswordReset.mockReturnValue(new Promise(() => {}))
+
+      await expect(
+        service.requestPasswordReset('luke@tatooine.org'),
+      ).resolves.toBeUndefined()
+    })
+
+    it('should succeed and log the error when the email cannot be sent', async () => {
+      mailService.sendPasswordReset.mockRejectedValue(
+        new Error('SMTP connection closed'),
+      )
+
+      await expect(
+        service.requestPasswordReset('luke@tatooine.org'),
+      ).resolves.toBeUndefined()
+      await new Promise(setImmediate)
+      expect(Logger.prototype.error).toHaveBeenCalledWith(
+        expect.stringContaining('SMTP connection closed'),
+        expect.any(String),
+      )
+    })
+
+    it('should send nothing for an unknown or disabled account', async () => {
+      userService.findOneByEmail.mockResolvedValueOnce({ message: 'none' })
+      await service.requestPasswordReset('nobody@tatooine.org')
+      user.isDisabled = true
+      await service.requestPasswordReset('luke@tatooine.org')
+      await new Promise(setImmediate)
+
+      expect(userTokenService.issue).not.toHaveBeenCalled()
+      expect(mailService.sendPasswordReset).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Test suite for the `signUp` method of AuthService.
+   */
+  describe('signUp', () => {
+    const registration = {
+      userName: 'luke',
+      email: 'luke@tatooine.org',
+      password: 'password',
+      role: UserRoles.User,
+    } as RegistrationUserDto
+
+    beforeEach(() => {
+      userService.create = jest.fn(async () => user)
+      jest.spyOn(Logger.prototype, 'error').mockImplementation()
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should send the verification link and return the tokens', async () => {
+      await expect(service.signUp(registration)).resolves.toEqual({
+        access_token: 'signed-token',
+        refresh_token: 'refresh-token',
+      })
+      await new Promise(setImmediate)
+      expect(mailService.sendEmailVerification).toHaveBeenCalledWith(
+        'luke@tatooine.org',
+        'luke',
+        'user-token',
+      )
+    })
+
+    it('should return the tokens and log the error when the email cannot be sent', async () => {
+      mailService.sendEmailVerification.mockRejectedValue(
+        new Error('SMTP connection closed'),
+      )
+
+      await expect(service.signUp(registration)).resolves.toHaveProperty(
+        'access_token',
+      )
+      await new Promise(setImmediate)
+      expect(Logger.prototype.error).toHaveBeenCalledWith(
+        expect.stringContaining('SMTP connection closed'),
+        expect.any(String),
+      )
+    })
+  })
+
+  /**
+   * Test suite for the `verifyEmail` method of AuthService.
+   */
+  describe('verifyEmail', () => {
+    it('should consume the verification token and mark the address verified', async () => {
+      await service.verifyEmail('user-token', '10.0.0.1')
+
+      expect(userTokenService.consume).toHaveBeenCalledWith(
+        'user-token',
+        UserTokenPurposes.EmailVerification,
+      )
+      expect(userService.markEmailVerified).toHaveBeenCalledWith('user-1')
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditActions.EmailVerified,
+          actorId: 'user-1',
+        }),
+      )
+    })
+
+    it('should refuse an invalid, expired or used token', async () => {
+      userTokenService.consume.mockRejectedValue(
+        new BadRequestException('Invalid or expired token'),
+      )
+
+      await expect(service.verifyEmail('used-token')).rejects.toThrow(
+        BadRequestException,
+      )
+      expect(userService.markEmailVerified).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Test suite for the `resetPassword` method of AuthService.
+   */
+  describe('resetPassword', () => {
+    it('should set the password with the reset token and end every session', async () => {
+      await service.resetPassword('user-token', 'new-password', '10.0.0.1')
+
+      expect(userTokenService.consume).toHaveBeenCalledWith(
+        'user-token',
+        UserTokenPurposes.PasswordReset,
+      )
+      expect(userService.resetPassword).toHaveBeenCalledWith(
+        'user-1',
+        'new-password',
+      )
+      expect(refreshTokenService.revokeFamily.mock.calls).toEqual([
+        ['sid-1'],
+        ['sid-2'],
+      ])
+      expect(tokenRevocationService.revoke.mock.calls).toEqual([
+        ['sid-1'],
+        ['sid-2'],
+      ])
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditActions.PasswordReset }),
+      )
+    })
+
+    it('should refuse an invalid, expired or used token', async () => {
+      userTokenService.consume.mockRejectedValue(
+        new BadRequestException('Invalid or expired token'),
+      )
+
+      await expect(
+        service.resetPassword('used-token', 'new-password'),
+      ).rejects.toThrow(BadRequestException)
+      expect(userService.resetPassword).not.toHaveBeenCalled()
+      expect(refreshTokenService.revokeFamily).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Test suite for the `refresh` method of AuthService.
+   */
+  describe('refresh', () => {
+    let stored: RefreshToken
+
+    beforeEach(() => {
+      stored = Object.assign(new RefreshToken(), {
+        id: 'rt-1',
+        family: 'sid-1',
+        userId: 'user-1',
+        twoFactor: false,
+        expiresAt: new Date(Date.now() + 60000),
+        revokedAt: null,
+      })
+      refreshTokenService.findByToken.mockResolvedValue(stored)
+    })
+
+    it('should rotate the token within its family', async () => {
+      await expect(service.refresh('refresh-token')).resolves.toEqual({
+        access_token: 'signed-token',
+        refresh_token: 'refresh-token',
+      })
+      expect(refreshTokenService.markUsed).toHaveBeenCalledWith(stored)
+      expect(refreshTokenService.issue).toHaveBeenCalledWith(
+        'user-1',
+        stored,
+        expect.anything(),
+      )
+      expect(refreshTokenService.revokeFamily).not.toHaveBeenCalled()
+    })
+
+    it('should revoke the whole family when a used token is presented again', async () => {
+      stored.revokedAt = new Date()
+
+      await expect(
+        service.refresh('refresh-token', '10.0.0.1'),
+      ).rejects.toThrow('Refresh token reuse detected, the session was revoked')
+      expect(refreshTokenService.revokeFamily).toHaveBeenCalledWith('sid-1')
+      expect(tokenRevocationService.revoke).toHaveBeenCalledWith('sid-1')
+      expect(auditService.record).toHaveBeenCalledWith({
+        action: AuditActions.RefreshTokenReused,
+        outcome: AuditOutcomes.Failure,
+        actorId: 'user-1',
+        target: 'sid-1',
+        ip: '10.0.0.1',
+      })
+      expect(refreshTokenService.issue).not.toHaveBeenCalled()
+    })
+
+    it('should revoke the whole family when a concurrent request used the token first', async () => {
+      refreshTokenService.markUsed.mockResolvedValue(false)
+
+      await expect(service.refresh('refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      )
+      expect(refreshTokenService.revokeFamily).toHaveBeenCalledWith('sid-1')
+      expect(tokenRevocationService.revoke).toHaveBeenCalledWith('sid-1')
+      expect(refreshTokenService.issue).not.toHaveBeenCalled()
+    })
+
+    it('should refuse an expired token without revoking the session', async () => {
+      stored.expiresAt = new Date(Date.now() - 1000)
+
+      await expect(service.refresh('refresh-token')).rejects.toThrow(
+        'Refresh token expired',
+      )
+      expect(refreshTokenService.markUsed).not.toHaveBeenCalled()
+      expect(refreshTokenService.revokeFamily).not.toHaveBeenCalled()
+      expect(refreshTokenService.issue).not.toHaveBeenCalled()
+    })
+
+    it('should refuse an unknown token', async () => {
+      refreshTokenService.findByToken.mockResolvedValue(null)
+
+      await expect(service.refresh('unknown')).rejects.toThrow(
+        'Invalid refresh token',
+      )
+      expect(refreshTokenService.issue).not.toHaveBeenCalled()
+    })
+
+    it('should refuse the token of a disabled user', async () => {
+      user.isDisabled = true
+
+      await expect(service.refresh('refresh-token')).rejects.toThrow(
+        'Invalid refresh token',
+      )
+      expect(refreshTokenService.issue).not.toHaveBeenCalled()
+    })
+  })
+})
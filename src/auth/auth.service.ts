@@ -1,23 +1,65 @@
-import { Injectable } from '@nestjs/common'
-import { JwtService } from '@nestjs/jwt'
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common'
 import * as bcrypt from 'bcrypt'
+import { randomUUID } from 'crypto'
 import { User } from 'src/user/entities/user.entity'
 import { UserService } from 'src/user/user.service'
-import { ErrorResponce } from 'src/shared/constants'
+import {
+  ErrorResponce,
+  Payload,
+  UserRoles,
+  TokenPair,
+  TwoFactorChallenge,
+  twoFactorSettings,
+} from 'src/shared/constants'
 import { RegistrationUserDto } from './dto/registration-user.dto'
+import { RefreshToken } from './entities/refresh-token.entity'
+import { RefreshTokenService } from './refresh-token.service'
+import { TokenRevocationService } from './token-revocation.service'
+import { UserTokenService } from './user-token.service'
+import { UserTokenPurposes } from './entities/user-token.entity'
+import { MailService } from 'src/mail/mail.service'
+import { LoginThrottleService } from './login-throttle.service'
+import { TwoFactorService } from './two-factor.service'
+import { JwtKeyService } from './jwt-key.service'
+import { AuditService } from 'src/audit/audit.service'
+import { AuditContext } from 'src/audit/audit-context'
+import {
+  AuditActions,
+  AuditOutcomes,
+} from 'src/audit/entities/audit-log.entity'
 
 /**
  * Authentication service for handling user login, registration, and token management
  *
  * This service provides methods for authenticating users, generating access tokens,
  * and managing user sessions. It interacts with the `UserService` for user data
- * access and the `JwtService` for generating and handling JSON Web Tokens (JWTs).
+ * access, the `JwtKeyService` for signing and verifying JSON Web Tokens (JWTs), the
+ * `RefreshTokenService` for the rotated refresh tokens, the `TokenRevocationService`
+ * for the revocation list of the access tokens, the `UserTokenService` and `MailService`
+ * for the email verification and password reset emails, the `LoginThrottleService` for the
+ * brute-force protection of the login, and the `TwoFactorService` for the second login step.
+ * Logins, registrations, logouts, refresh token reuse and password resets are recorded by the
+ * `AuditService`.
  */
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name)
+
   constructor(
     private userService: UserService,
-    private jwtService: JwtService,
+    private jwtKeyService: JwtKeyService,
+    private refreshTokenService: RefreshTokenService,
+    private tokenRevocationService: TokenRevocationService,
+    private userTokenService: UserTokenService,
+    private mailService: MailService,
+    private loginThrottleService: LoginThrottleService,
+    private twoFactorService: TwoFactorService,
+    private auditService: AuditService,
   ) {}
 
   /**
@@ -25,30 +67,155 @@ export class AuthService {
    *
    * This method takes a `LoginRequestDto` containing the user's credentials (username and password)
    * and attempts to authenticate the user. If successful, it generates an access token for the user.
+   * When the user enabled two-factor authentication, it returns a short-lived challenge token instead,
+   * to exchange along with a code for the tokens at `POST /auth/login/2fa`. The tokens of an administrator
+   * who has not enabled it only give access to the routes of their own account, to enroll (see `JwtAuthGuard`).
+   * The failed login attempts of the account are cleared once the tokens are issued, not with the challenge.
    *
    * @param user The LoginRequestDto object containing username and password
-   * @returns A Promise resolving to an object with the access_token property, or throws an error
-   *          if authentication fails.
+   * @param ip IP address of the client
+   * @returns A Promise resolving to an object with the access_token and refresh_token properties,
+   *          or to the `TwoFactorChallenge`; or throws an error if authentication fails.
+   * @throws ForbiddenException If the account was disabled by an administrator, or its password must be reset
    */
-  async signIn(user: User): Promise<{ access_token: string }> {
+  async signIn(
+    user: User,
+    ip?: string,
+  ): Promise<TokenPair | TwoFactorChallenge> {
+    if (user.isDisabled) {
+      await this.auditService.record({
+        action: AuditActions.LoginFailed,
+        outcome: AuditOutcomes.Failure,
+        actorId: user.id,
+        target: user.userName,
+        ip,
+        details: { reason: 'account_disabled' },
+      })
+      throw new ForbiddenException('This account is disabled')
+    }
+    if (user.passwordResetRequired) {
+      await this.auditService.record({
+        action: AuditActions.LoginFailed,
+        outcome: AuditOutcomes.Failure,
+        actorId: user.id,
+        target: user.userName,
+        ip,
+        details: { reason: 'password_reset_required' },
+      })
+      throw new ForbiddenException(
+        'The password of this account must be reset: use the token sent by email',
+      )
+    }
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return {
+        two_factor_required: true,
+        challenge_token: await this.jwtKeyService.sign(
+          { sub: user.id, typ: '2fa' },
+          twoFactorSettings.challengeLifetime,
+        ),
+      }
+    }
+    await this.loginThrottleService.recordSuccess(user.userName)
+    await this.auditService.record({
+      action: AuditActions.Login,
+      actorId: user.id,
+      target: user.userName,
+      ip,
+      details: { twoFactor: false },
+    })
     return this.createToken(user)
   }
 
+  /**
+   * Completes a two-step login with a second-factor code.
+   *
+   * Failed codes are counted by the `LoginThrottleService` like failed passwords, so the code cannot
+   * be guessed while the challenge token is valid.
+   *
+   * @param challengeToken The challenge token returned by `signIn`
+   * @param code A code of the authenticator app or a recovery code
+   * @param ip IP address of the client
+   * @returns Promise<TokenPair> The tokens of a session opened with a second factor
+   * @throws UnauthorizedException If the challenge token is invalid or expired, the code is wrong, or the
+   *         password was reset since the challenge was issued
+   * @throws HttpException 429 If the account or the IP is locked after too many failed attempts
+   */
+  async signInWithTwoFactor(
+    challengeToken: string,
+    code: string,
+    ip?: string,
+  ): Promise<TokenPair> {
+    let payload: Payload
+    try {
+      payload = await this.jwtKeyService.verify<Payload>(challengeToken)
+    } catch {
+      throw new UnauthorizedException('Invalid or expired challenge token')
+    }
+    if (payload.typ !== '2fa') {
+      throw new UnauthorizedException('Invalid or expired challenge token')
+    }
+    const user: User = await this.userService.findOneById(payload.sub)
+    if (!user || user.isDisabled || user.passwordResetRequired) {
+      throw new UnauthorizedException('Invalid or expired challenge token')
+    }
+    await this.loginThrottleService.assertAllowed(user.userName, ip)
+    if (!(await this.twoFactorService.verify(user.id, code))) {
+      await this.loginThrottleService.recordFailure(user.userName, ip)
+      await this.auditService.record({
+        action: AuditActions.LoginFailed,
+        outcome: AuditOutcomes.Failure,
+        actorId: user.id,
+        target: user.userName,
+        ip,
+        details: { reason: 'invalid_two_factor_code' },
+      })
+      throw new UnauthorizedException('Invalid two-factor code')
+    }
+    await this.loginThrottleService.recordSuccess(user.userName)
+    await this.auditService.record({
+      action: AuditActions.Login,
+      actorId: user.id,
+      target: user.userName,
+      ip,
+      details: { twoFactor: true },
+    })
+    return this.createToken(user, undefined, true)
+  }
+
   /**
    * Validates user credentials for login.
    *
    * This method retrieves the user by username and compares the provided password with the hashed password stored in the database.
+   * Attempts on a locked account or from a locked IP are rejected first, and every failure is counted
+   * by the `LoginThrottleService`, whether the username exists or not. A valid password does not clear
+   * the failed attempts: `signIn` and `signInWithTwoFactor` clear them once the login is complete, so
+   * that the attempts at the second factor keep counting.
    *
    * @param name Username of the user attempting to login
    * @param pass Password provided by the user
+   * @param ip IP address of the client
    * @returns Promise<User | null> Resolved user object if credentials are valid, otherwise null
+   * @throws HttpException 429 If the account or the IP is locked after too many failed attempts
    */
-  async validateUser(name: string, pass: string): Promise<User | null> {
+  async validateUser(
+    name: string,
+    pass: string,
+    ip?: string,
+  ): Promise<User | null> {
+    await this.loginThrottleService.assertAllowed(name, ip)
     const user: User = await this.userService.findOneByName(name)
-    if (user) {
-      const isMatch = await bcrypt.compare(pass, user.password)
-      return isMatch ? user : null
+    if (user && (await bcrypt.compare(pass, user.password))) {
+      return user
     }
+    await this.loginThrottleService.recordFailure(name, ip)
+    await this.auditService.record({
+      action: AuditActions.LoginFailed,
+      outcome: AuditOutcomes.Failure,
+      actorId: user?.id,
+      target: name,
+      ip,
+      details: { reason: user ? 'invalid_password' : 'unknown_user' },
+    })
     return null
   }
 
@@ -56,17 +223,39 @@ export class AuthService {
    * Handles user registration.
    *
    * This method calls the `userService.create` method to create a new user and handles potential errors.
-   * If successful, it calls `signIn` to generate a JWT token for the newly created user.
+   * If successful, it sends the email verification link in the background (a delivery failure is logged, and
+   * the user can ask for a new link) and generates the tokens of the newly created user, whose access is
+   * read-only until the address is verified.
    *
    * @param user User data for registration (RegistrationRequestDto)
-   * @returns Promise<{ access_token: string }> Object containing the access token on success
+   * @param context The origin of the request, recorded in the audit log (the administrator registering
+   *                another administrator; the new user registers themselves otherwise)
+   * @returns Promise<TokenPair> Object containing the access and refresh tokens on success
    * @throws Error Exception thrown for unexpected errors during user creation
    */
-  async signUp(user: RegistrationUserDto): Promise<{ access_token: string }> {
+  async signUp(
+    user: RegistrationUserDto,
+    context: AuditContext = {},
+  ): Promise<TokenPair> {
     // Create new user
     const newUser: User | ErrorResponce = await this.userService.create(user)
     // Check if user creation was successful (not an error response)
     if (newUser instanceof User) {
+      await this.auditService.record({
+        ...context,
+        action:
+          newUser.role === UserRoles.Admin
+            ? AuditActions.RegisterAdmin
+            : AuditActions.Register,
+        actorId: context.actorId ?? newUser.id,
+        target: newUser.id,
+        details: { userName: newUser.userName },
+      })
+      // An SMTP failure must not fail the registration of the created account: the user can
+      // ask for a new link with POST /auth/resend-verification
+      this.runInBackground(`Verification email to user ${newUser.id}`, () =>
+        this.sendEmailVerification(newUser),
+      )
       // Generate token for the newly created user
       return this.createToken(newUser)
       //return this.signIn(newUser)
@@ -78,25 +267,300 @@ export class AuthService {
     }
   }
 
+  /**
+   * Exchanges a refresh token for a new token pair (token rotation).
+   *
+   * A refresh token can be used once: the presented token is revoked and replaced by a new token
+   * of the same family. Presenting a token that was already used or revoked means it leaked (or
+   * that the legitimate client lost a race with an attacker), so the whole family is revoked,
+   * along with the access tokens of the session.
+   *
+   * @param token The refresh token sent by the client
+   * @param ip IP address of the client
+   * @returns Promise<TokenPair> The new access and refresh tokens
+   * @throws UnauthorizedException If the token is unknown, expired or reused, or the user no longer exists, is disabled
+   *         or must reset their password
+   */
+  async refresh(token: string, ip?: string): Promise<TokenPair> {
+    const refreshToken: RefreshToken =
+      await this.refreshTokenService.findByToken(token)
+    if (!refreshToken) {
+      throw new UnauthorizedException('Invalid refresh token')
+    }
+    // A token that was already used or revoked is being reused: end the session
+    if (refreshToken.revokedAt) {
+      await this.revokeSession(refreshToken.family)
+      await this.recordTokenReuse(refreshToken, ip)
+      throw new UnauthorizedException(
+        'Refresh token reuse detected, the session was revoked',
+      )
+    }
+    if (refreshToken.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token expired')
+    }
+    // Another request may have used the token since it was read
+    if (!(await this.refreshTokenService.markUsed(refreshToken))) {
+      await this.revokeSession(refreshToken.family)
+      await this.recordTokenReuse(refreshToken, ip)
+      throw new UnauthorizedException(
+        'Refresh token reuse detected, the session was revoked',
+      )
+    }
+    const user: User = await this.userService.findOneById(refreshToken.userId)
+    if (!user || user.isDisabled || user.passwordResetRequired) {
+      throw new UnauthorizedException('Invalid refresh token')
+    }
+    return this.createToken(user, refreshToken)
+  }
+
+  /**
+   * Logs a user out by revoking the session of a refresh token.
+   *
+   * Every refresh token of the family is revoked, and the session is added to the revocation list
+   * so that the access tokens already issued for it are rejected as well.
+   *
+   * @param token The refresh token sent by the client
+   * @param ip IP address of the client
+   * @throws UnauthorizedException If the token is unknown
+   */
+  async logout(token: string, ip?: string): Promise<void> {
+    const refreshToken: RefreshToken =
+      await this.refreshTokenService.findByToken(token)
+    if (!refreshToken) {
+      throw new UnauthorizedException('Invalid refresh token')
+    }
+    await this.revokeSession(refreshToken.family)
+    await this.auditService.record({
+      action: AuditActions.Logout,
+      actorId: refreshToken.userId,
+      target: refreshToken.family,
+      ip,
+    })
+  }
+
+  /**
+   * Sends a new email verification link to a user.
+   *
+   * The links sent before stop working.
+   *
+   * @param user The user whose address must be verified
+   */
+  async sendEmailVerification(user: User): Promise<void> {
+    const token: string = await this.userTokenService.issue(
+      user.id,
+      UserTokenPurposes.EmailVerification,
+    )
+    await this.mailService.sendEmailVerification(
+      user.email,
+      user.userName,
+      token,
+    )
+  }
+
+  /**
+   * Verifies the email address of a user with the token of the verification link.
+   *
+   * The access tokens issued before still carry the unverified status: the client gets write
+   * access with the next token refresh (or login).
+   *
+   * @param token The verification token
+   * @param ip IP address of the client
+   * @throws BadRequestException If the token is invalid, expired or already used
+   */
+  async verifyEmail(token: string, ip?: string): Promise<void> {
+    const userId: string = await this.userTokenService.consume(
+      token,
+      UserTokenPurposes.EmailVerification,
+    )
+    const user: User = await this.userService.markEmailVerified(userId)
+    await this.auditService.record({
+      action: AuditActions.EmailVerified,
+      actorId: userId,
+      target: user.email,
+      ip,
+    })
+  }
+
+  /**
+   * Sends a password reset token to the owner of an email address.
+   *
+   * Nothing is sent for an unknown or disabled account, without telling the caller, so that the
+   * endpoint cannot be used to find out which addresses are registered. For the same reason, the
+   * token is issued, sent and audited in the background: the response takes the same time and
+   * succeeds whether an email is sent or not, and a delivery failure is only logged.
+   *
+   * @param email The email address of the account
+   * @param ip IP address of the client
+   */
+  async requestPasswordReset(email: string, ip?: string): Promise<void> {
+    const user: User | ErrorResponce =
+      await this.userService.findOneByEmail(email)
+    if (!(user instanceof User) || user.isDisabled) {
+      return
+    }
+    this.runInBackground(
+      `Password reset email to user ${user.id}`,
+      async () => {
+        await this.sendPasswordReset(user)
+        await this.auditService.record({
+          action: AuditActions.PasswordResetRequested,
+          actorId: user.id,
+          target: user.email,
+          ip,
+        })
+      },
+    )
+  }
+
+  /**
+   * Sends a new password reset token to a user.
+   *
+   * The tokens sent before stop working.
+   *
+   * @param user The user who must choose a new password
+   * @param forced Whether an administrator reset the password (the email then says so)
+   */
+  async sendPasswordReset(user: User, forced: boolean = false): Promise<void> {
+    const token: string = await this.userTokenService.issue(
+      user.id,
+      UserTokenPurposes.PasswordReset,
+    )
+    await this.mailService.sendPasswordReset(
+      user.email,
+      user.userName,
+      token,
+      forced,
+    )
+  }
+
+  /**
+   * Sets a new password with a password reset token.
+   *
+   * Every session of the user is ended, since the old password may have been compromised.
+   *
+   * @param token The password reset token
+   * @param newPassword The new password
+   * @param ip IP address of the client
+   * @throws BadRequestException If the token is invalid, expired or already used
+   */
+  async resetPassword(
+    token: string,
+    newPassword: string,
+    ip?: string,
+  ): Promise<void> {
+    const userId: string = await this.userTokenService.consume(
+      token,
+      UserTokenPurposes.PasswordReset,
+    )
+    await this.userService.resetPassword(userId, newPassword)
+    await this.revokeUserSessions(userId)
+    await this.auditService.record({
+      action: AuditActions.PasswordReset,
+      actorId: userId,
+      target: userId,
+      ip,
+    })
+  }
+
+  /**
+   * Revokes every session of a user.
+   *
+   * Used when an administrator disables an account, changes its role or forces a password reset,
+   * so that the tokens issued before the change stop working.
+   *
+   * @param userId The ID of the user
+   */
+  async revokeUserSessions(userId: string): Promise<void> {
+    const families: string[] =
+      await this.refreshTokenService.findActiveFamilies(userId)
+    for (const family of families) {
+      await this.revokeSession(family)
+    }
+  }
+
   /**
    * Creates a JSON Web Token (JWT) containing user information.
    *
-   * This method takes a `User` object as input and creates a JWT payload containing the user's ID, username, email, and role.
-   * It then uses the `jwtService.signAsync` method to sign the payload and generate a JWT access token.
+   * This method takes a `User` object as input and creates a JWT payload containing the user's ID, username, email, role,
+   * email verification status and whether the session was opened with a second factor (`mfa`),
+   * along with a unique token ID (`jti`) and the session ID (`sid`) used by the revocation list.
+   * It then uses the `jwtKeyService.sign` method to sign the payload (with the `iss` and `aud` claims) and generate a JWT access token,
+   * and issues the refresh token of the session.
    *
    * @param user The user object for whom the token is being generated.
-   * @returns Promise that resolves to an object with a single property:
+   * @param replaced The refresh token being rotated, whose session continues (a new session starts when omitted).
+   * @param twoFactor Whether a new session was opened with a second factor.
+   * @returns Promise that resolves to an object with two properties:
    *   - `access_token`: The generated JWT access token as a string.
+   *   - `refresh_token`: The refresh token to exchange for a new pair at `POST /auth/refresh`.
    */
-  async createToken(user: User): Promise<{ access_token: string }> {
+  async createToken(
+    user: User,
+    replaced?: RefreshToken,
+    twoFactor: boolean = false,
+  ): Promise<TokenPair> {
+    const { token, refreshToken } = await this.refreshTokenService.issue(
+      user.id,
+      replaced,
+      twoFactor,
+    )
     const payload = {
       sub: user.id,
       userName: user.userName,
       email: user.email,
       role: user.role,
+      emailVerified: Boolean(user.isEmailVerified),
+      mfa: refreshToken.twoFactor,
+      jti: randomUUID(),
+      sid: refreshToken.family,
     }
     return {
-      access_token: await this.jwtService.signAsync(payload),
+      access_token: await this.jwtKeyService.sign(payload),
+      refresh_token: token,
     }
   }
+
+  /**
+   * Runs a task without waiting for it, outside of the request: its failure is logged, not thrown.
+   *
+   * @param description The description of the task, for the log
+   * @param task The task
+   */
+  private runInBackground(
+    description: string,
+    task: () => Promise<void>,
+  ): void {
+    task().catch((error: Error) =>
+      this.logger.error(`${description} failed: ${error.message}`, error.stack),
+    )
+  }
+
+  /**
+   * Revokes a session: its refresh tokens and the access tokens issued for it.
+   *
+   * @param family The refresh token family (the `sid` of the access tokens)
+   */
+  private async revokeSession(family: string): Promise<void> {
+    await this.refreshTokenService.revokeFamily(family)
+    await this.tokenRevocationService.revoke(family)
+  }
+
+  /**
+   * Records the reuse of a refresh token, a sign that it leaked, in the audit log.
+   *
+   * @param refreshToken The reused refresh token
+   * @param ip IP address of the client presenting it
+   */
+  private async recordTokenReuse(
+    refreshToken: RefreshToken,
+    ip?: string,
+  ): Promise<void> {
+    await this.auditService.record({
+      action: AuditActions.RefreshTokenReused,
+      outcome: AuditOutcomes.Failure,
+      actorId: refreshToken.userId,
+      target: refreshToken.family,
+      ip,
+    })
+  }
 }
@@ -0,0 +1,168 @@
+import { LessThanOrEqual, Repository } from 'typeorm'
+import { DatabaseLoginAttemptStore } from './database.login-attempt-store'
+import { LoginAttempt } from './entities/login-attempt.entity'
+
+/**
+ * Unit test suite for DatabaseLoginAttemptStore.
+ * The repository and the transaction are mocked; the clock is faked.
+ */
+describe('DatabaseLoginAttemptStore', () => {
+  let store: DatabaseLoginAttemptStore
+  let repository: Record<string, any>
+  let transactionRepository: Record<string, jest.Mock>
+  let getRepository: jest.Mock
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    transactionRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      save: jest.fn(async (record) => record),
+    }
+    getRepository = jest.fn(() => transactionRepository)
+    repository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      delete: jest.fn(),
+      update: jest.fn(),
+      manager: {
+        transaction: jest.fn(async (run) => run({ getRepository })),
+      },
+    }
+    store = new DatabaseLoginAttemptStore(
+      repository as unknown as Repository<LoginAttempt>,
+    )
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  /**
+   * Returns the date some seconds from now
+   *
+   * @param seconds The number of seconds
+   * @returns The date
+   */
+  const inSeconds = (seconds: number) => new Date(Date.now() + seconds * 1000)
+
+  /**
+   * Test suite for the `get` method of DatabaseLoginAttemptStore.
+   */
+  describe('get', () => {
+    it('should return a record that has not expired', async () => {
+      const record = { key: 'user:luke', failures: 2, expiresAt: inSeconds(1) }
+      repository.findOne.mockResolvedValue(record)
+
+      await expect(store.get('user:luke')).resolves.toBe(record)
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { key: 'user:luke' },
+      })
+    })
+
+    it('should ignore an expired record', async () => {
+      repository.findOne.mockResolvedValue({
+        key: 'user:luke',
+        failures: 2,
+        expiresAt: inSeconds(0),
+      })
+
+      await expect(store.get('user:luke')).resolves.toBeNull()
+    })
+  })
+
+  /**
+   * Test suite for the `increment` method of DatabaseLoginAttemptStore.
+   */
+  describe('increment', () => {
+    it('should prune the expired records', async () => {
+      await store.increment('user:luke', inSeconds(60))
+
+      expect(repository.delete).toHaveBeenCalledWith({
+        expiresAt: LessThanOrEqual(new Date()),
+      })
+    })
+
+    it('should start a record with the row locked', async () => {
+      await expect(
+        store.increment('user:luke', inSeconds(60)),
+      ).resolves.toEqual({
+        key: 'user:luke',
+        failures: 1,
+        lockedUntil: null,
+        expiresAt: inSeconds(60),
+      })
+      expect(getRepository).toHaveBeenCalledWith(LoginAttempt)
+      expect(transactionRepository.findOne).toHaveBeenCalledWith({
+        where: { key: 'user:luke' },
+        lock: { mode: 'pessimistic_write' },
+      })
+    })
+
+    it('should count a further failure and keep the lockout and the later expiration', async () => {
+      transactionRepository.findOne.mockResolvedValue({
+        key: 'user:luke',
+        failures: 5,
+        lockedUntil: inSeconds(30),
+        expiresAt: inSeconds(120),
+      })
+
+      await expect(
+        store.increment('user:luke', inSeconds(60)),
+      ).resolves.toEqual({
+        key: 'user:luke',
+        failures: 6,
+        lockedUntil: inSeconds(30),
+        expiresAt: inSeconds(120),
+      })
+    })
+  })
+
+  /**
+   * Test suite for the `lock` method of DatabaseLoginAttemptStore.
+   */
+  describe('lock', () => {
+    it('should keep the record until the end of the lockout', async () => {
+      repository.findOne.mockResolvedValue({
+        key: 'user:luke',
+        expiresAt: inSeconds(60),
+      })
+
+      await store.lock('user:luke', inSeconds(300))
+
+      expect(repository.update).toHaveBeenCalledWith('user:luke', {
+        lockedUntil: inSeconds(300),
+        expiresAt: inSeconds(300),
+      })
+    })
+
+    it('should not shorten the life of the record', async () => {
+      repository.findOne.mockResolvedValue({
+        key: 'user:luke',
+        expiresAt: inSeconds(600),
+      })
+
+      await store.lock('user:luke', inSeconds(300))
+
+      expect(repository.update).toHaveBeenCalledWith('user:luke', {
+        lockedUntil: inSeconds(300),
+        expiresAt: inSeconds(600),
+      })
+    })
+
+    it('should not lock a key without a record', async () => {
+      await store.lock('user:luke', inSeconds(300))
+
+      expect(repository.update).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Test suite for the `reset` method of DatabaseLoginAttemptStore.
+   */
+  describe('reset', () => {
+    it('should delete the record of the key', async () => {
+      await store.reset('user:luke')
+
+      expect(repository.delete).toHaveBeenCalledWith('user:luke')
+    })
+  })
+})
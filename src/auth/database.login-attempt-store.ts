@@ -0,0 +1,67 @@
+import { EntityManager, LessThanOrEqual, Repository } from 'typeorm'
+import { LoginAttempt } from './entities/login-attempt.entity'
+import { LoginAttemptRecord, LoginAttemptStore } from './login-attempt-store'
+
+/**
+ * DatabaseLoginAttemptStore: Failed login attempts kept in the `login_attempts` table
+ *
+ * The records are shared by every instance of the application. Failures are counted in a
+ * transaction locking the record, so that concurrent attempts are all counted.
+ */
+export class DatabaseLoginAttemptStore extends LoginAttemptStore {
+  constructor(
+    private readonly loginAttemptsRepository: Repository<LoginAttempt>,
+  ) {
+    super()
+  }
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const record: LoginAttempt = await this.loginAttemptsRepository.findOne({
+      where: { key },
+    })
+    return record && record.expiresAt.getTime() > Date.now() ? record : null
+  }
+
+  async increment(key: string, expiresAt: Date): Promise<LoginAttemptRecord> {
+    const now: Date = new Date()
+    await this.loginAttemptsRepository.delete({
+      expiresAt: LessThanOrEqual(now),
+    })
+    return this.loginAttemptsRepository.manager.transaction(
+      async (manager: EntityManager) => {
+        const loginAttemptsRepository: Repository<LoginAttempt> =
+          manager.getRepository(LoginAttempt)
+        const previous: LoginAttempt = await loginAttemptsRepository.findOne({
+          where: { key },
+          lock: { mode: 'pessimistic_write' },
+        })
+        return loginAttemptsRepository.save({
+          key,
+          failures: (previous?.failures ?? 0) + 1,
+          lockedUntil: previous?.lockedUntil ?? null,
+          expiresAt:
+            previous && previous.expiresAt > expiresAt
+              ? previous.expiresAt
+              : expiresAt,
+        })
+      },
+    )
+  }
+
+  async lock(key: string, lockedUntil: Date): Promise<void> {
+    const record: LoginAttempt = await this.loginAttemptsRepository.findOne({
+      where: { key },
+    })
+    if (record) {
+      await this.loginAttemptsRepository.update(key, {
+        lockedUntil,
+        expiresAt:
+          record.expiresAt < lockedUntil ? lockedUntil : record.expiresAt,
+      })
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.loginAttemptsRepository.delete(key)
+  }
+}
@@ -0,0 +1,29 @@
+import { SetMetadata } from '@nestjs/common'
+
+/**
+ * Key used to mark routes open to unverified accounts.
+ *
+ * This constant is used as a key in the metadata to indicate that a write route can be used
+ * by a user whose email address is not verified yet.
+ */
+export const ALLOW_UNVERIFIED_KEY = 'allowUnverified'
+
+/**
+ * Decorator to open a write route to unverified accounts.
+ *
+ * Unverified accounts are limited to read-only access (`GET`, `HEAD` and `OPTIONS` requests);
+ * this decorator lifts the restriction for a route, e.g. to resend the verification email.
+ *
+ * @returns A decorator function that sets the `allowUnverified` metadata to `true`.
+ */
+export const AllowUnverified = () => SetMetadata(ALLOW_UNVERIFIED_KEY, true)
+
+/**
+ * Checks whether a request only reads data.
+ *
+ * @param method The HTTP method of the request
+ * @returns `true` for `GET`, `HEAD` and `OPTIONS` requests
+ */
+export function isReadOnlyMethod(method: string): boolean {
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method?.toUpperCase())
+}
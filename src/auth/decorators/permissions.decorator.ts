@@ -0,0 +1,25 @@
+import { SetMetadata, applyDecorators } from '@nestjs/common'
+import { ApiSecurity } from '@nestjs/swagger'
+import { Permissions } from '../permissions'
+
+/**
+ * Key used to mark the permissions required by a route in metadata.
+ */
+export const PERMISSIONS_KEY = 'permissions'
+
+/**
+ * Decorator to specify the permissions required for accessing a route.
+ *
+ * This decorator function uses the `SetMetadata` function from NestJS to set metadata on a route,
+ * listing the permissions the role of the user must grant (all of them). They are checked by the
+ * global `JwtAuthGuard`. These routes also accept API keys whose scopes include the permissions,
+ * which is documented in Swagger with the `api-key` security scheme.
+ *
+ * @param permissions The permissions required to access the route.
+ * @returns A decorator function that sets the `permissions` metadata with the specified permissions.
+ */
+export const RequirePermissions = (...permissions: Permissions[]) =>
+  applyDecorators(
+    SetMetadata(PERMISSIONS_KEY, permissions),
+    ApiSecurity('api-key'),
+  )
@@ -0,0 +1,55 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Expose, plainToInstance } from 'class-transformer'
+import { ApiKey } from '../entities/api-key.entity'
+
+/**
+ * ApiKeyResponseDto: API key as returned to its owner
+ *
+ * Only the properties decorated with `@Expose()` are kept by `toApiKeyResponse`, so the hash of
+ * the key never leaves the server.
+ */
+export class ApiKeyResponseDto {
+  @Expose()
+  @ApiProperty()
+  id: string
+
+  @Expose()
+  @ApiProperty()
+  name: string
+
+  @Expose()
+  @ApiProperty({ description: 'First characters of the key.' })
+  prefix: string
+
+  @Expose()
+  @ApiProperty({ type: [String] })
+  scopes: string[]
+
+  @Expose()
+  @ApiProperty()
+  expiresAt: Date
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  lastUsedAt: Date | null
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  revokedAt: Date | null
+
+  @Expose()
+  @ApiProperty()
+  created: Date
+}
+
+/**
+ * Converts an `ApiKey` entity into the `ApiKeyResponseDto` returned to the client
+ *
+ * @param apiKey The API key entity
+ * @returns The `ApiKeyResponseDto` of the key
+ */
+export function toApiKeyResponse(apiKey: ApiKey): ApiKeyResponseDto {
+  return plainToInstance(ApiKeyResponseDto, apiKey, {
+    excludeExtraneousValues: true,
+  })
+}
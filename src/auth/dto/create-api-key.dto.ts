@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator'
+import { Permissions } from '../permissions'
+import { apiKeyDefaultLifetime, apiKeyMaxLifetime } from 'src/shared/constants'
+
+/**
+ * CreateApiKeyDto: DTO for creating an API key
+ *
+ * This class defines the body of `POST /auth/api-keys`. The scopes must be permissions granted by
+ * the role of the owner.
+ */
+export class CreateApiKeyDto {
+  /**
+   * Name of the key, to recognize it in the list of keys
+   */
+  @ApiProperty({ example: 'nightly import' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string
+
+  /**
+   * Permissions granted to the key
+   */
+  @ApiProperty({
+    enum: Permissions,
+    isArray: true,
+    example: [Permissions.PeopleWrite],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(Permissions, { each: true })
+  scopes: Permissions[]
+
+  /**
+   * Number of days before the key expires
+   */
+  @ApiPropertyOptional({
+    default: apiKeyDefaultLifetime,
+    minimum: 1,
+    maximum: apiKeyMaxLifetime,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(apiKeyMaxLifetime)
+  expiresInDays?: number
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsEmail } from 'class-validator'
+
+/**
+ * ForgotPasswordDto: DTO for requesting a password reset
+ *
+ * This class defines the body of `POST /auth/forgot-password`.
+ */
+export class ForgotPasswordDto {
+  /**
+   * Email address of the account
+   *
+   * This property is decorated with:
+   *   - `@ApiProperty()`: Exposes the property in the Swagger API documentation.
+   *   - `@IsEmail()`: Ensures the value is an email address.
+   */
+  @ApiProperty({ description: 'User email' })
+  @IsEmail({}, { message: 'Incorrect email address.' })
+  email: string
+}
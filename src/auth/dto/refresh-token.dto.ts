@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString } from 'class-validator'
+
+/**
+ * RefreshTokenDto: DTO for token refresh and logout
+ *
+ * This class defines the structure of the DTO (Data Transfer Object) carrying the refresh token
+ * returned on login, registration or a previous refresh.
+ */
+export class RefreshTokenDto {
+  /**
+   * Refresh token
+   *
+   * This property represents the opaque refresh token. It is decorated with:
+   *   - `@ApiProperty()`: Exposes the property in the Swagger API documentation.
+   *   - `@IsString()` and `@IsNotEmpty()`: Ensure the value is a non-empty string.
+   */
+  @ApiProperty({ description: 'Refresh token' })
+  @IsString()
+  @IsNotEmpty()
+  refresh_token: string
+}
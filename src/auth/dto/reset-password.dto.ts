@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString, MinLength, Validate } from 'class-validator'
+import { MatchValidator } from 'src/shared/password-validation'
+
+/**
+ * ResetPasswordDto: DTO for resetting a password with an emailed token
+ *
+ * This class defines the body of `POST /auth/reset-password`. The new password follows the
+ * same rules as on registration.
+ */
+export class ResetPasswordDto {
+  /**
+   * Password reset token (from the email)
+   *
+   * This property is decorated with:
+   *   - `@ApiProperty()`: Exposes the property in the Swagger API documentation.
+   *   - `@IsString()` and `@IsNotEmpty()`: Ensure the value is a non-empty string.
+   */
+  @ApiProperty({ description: 'Password reset token' })
+  @IsString()
+  @IsNotEmpty()
+  token: string
+
+  /**
+   * New password (minimum length of 4 characters)
+   *
+   * This property is decorated with:
+   *   - `@ApiProperty({ description: 'New password', minLength: 4 })`: Provides a description and minimum length in Swagger API documentation.
+   *   - `@IsString()`, `@IsNotEmpty()` and `@MinLength(4)`: Ensure the password is a string of at least 4 characters.
+   */
+  @ApiProperty({ description: 'New password', minLength: 4 })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(4)
+  newPassword: string
+
+  /**
+   * Repeated new password (must match newPassword)
+   *
+   * This property is decorated with:
+   *   - `@ApiProperty({ description: 'Repeated new password' })`: Provides a description in Swagger API documentation.
+   *   - `@Validate(MatchValidator, ['newPassword'])`: Ensures the repeated password matches the new password.
+   */
+  @ApiProperty({ description: 'Repeated new password' })
+  @IsString()
+  @IsNotEmpty()
+  @Validate(MatchValidator, ['newPassword'])
+  repeatedPassword: string
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString } from 'class-validator'
+
+/**
+ * TwoFactorCodeDto: DTO carrying a second-factor code
+ *
+ * This class defines the body of the `/auth/2fa` endpoints that require a code of the
+ * authenticator app (or, where stated, a recovery code).
+ */
+export class TwoFactorCodeDto {
+  /**
+   * The 6-digit code of the authenticator app, or a recovery code
+   */
+  @ApiProperty({ example: '123456' })
+  @IsString()
+  @IsNotEmpty()
+  code: string
+}
@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString } from 'class-validator'
+
+/**
+ * TwoFactorLoginDto: DTO for the second step of the login
+ *
+ * This class defines the body of `POST /auth/login/2fa`: the challenge token returned by
+ * `POST /auth/login` and a code of the authenticator app or a recovery code.
+ */
+export class TwoFactorLoginDto {
+  /**
+   * The challenge token returned by the first login step
+   */
+  @ApiProperty({ description: 'Challenge token' })
+  @IsString()
+  @IsNotEmpty()
+  challenge_token: string
+
+  /**
+   * The 6-digit code of the authenticator app, or a recovery code
+   */
+  @ApiProperty({ example: '123456' })
+  @IsString()
+  @IsNotEmpty()
+  code: string
+}
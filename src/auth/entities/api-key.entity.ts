@@ -0,0 +1,92 @@
+import { User } from 'src/user/entities/user.entity'
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm'
+
+/**
+ * ApiKey Entity
+ *
+ * This class represents an API key owned by a user, used by machine clients (batch jobs, partner
+ * integrations) instead of logging in. Like the refresh tokens, only the SHA-256 hash of the key is
+ * stored; its first characters (`prefix`) are kept to help the owner recognize it. A key only grants
+ * its `scopes`, and only as long as the role of its owner grants them too.
+ */
+@Entity({ name: 'api_keys' })
+export class ApiKey {
+  /**
+   * Unique identifier of the key (UUID)
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  /**
+   * Name given to the key by its owner
+   */
+  @Column({ length: 100 })
+  name: string
+
+  /**
+   * First characters of the key, shown in the list of keys
+   */
+  @Column({ length: 16 })
+  prefix: string
+
+  /**
+   * SHA-256 hash (hex) of the key
+   *
+   * The key itself is returned to the owner once and never stored.
+   */
+  @Index({ unique: true })
+  @Column({ length: 64 })
+  keyHash: string
+
+  /**
+   * Permissions granted to the key (`Permissions` values)
+   */
+  @Column({ type: 'simple-array' })
+  scopes: string[]
+
+  /**
+   * ID of the owner of the key
+   */
+  @Index()
+  @Column({ length: 36 })
+  userId: string
+
+  /**
+   * The owner of the key (their keys are deleted along with the user)
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  /**
+   * Expiration date of the key
+   */
+  @Column({ type: 'datetime' })
+  expiresAt: Date
+
+  /**
+   * Date the key was last used (`null` if it never was)
+   */
+  @Column({ type: 'datetime', nullable: true })
+  lastUsedAt: Date | null
+
+  /**
+   * Date the key was revoked (`null` while it is active)
+   */
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt: Date | null
+
+  /**
+   * Creation date of the key
+   */
+  @CreateDateColumn({ type: 'datetime' })
+  created: Date
+}
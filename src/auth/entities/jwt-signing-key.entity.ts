@@ -0,0 +1,61 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryColumn } from 'typeorm'
+
+/**
+ * JwtSigningKey Entity
+ *
+ * This class represents a key pair signing the tokens with `RS256` or `ES256`, identified by the
+ * `kid` header of the tokens. A key pair is published in the JWKS from its creation, signs the
+ * tokens from `activatesAt` to `retiresAt` and keeps verifying them until `expiresAt`, once every
+ * token it signed has expired. Expired key pairs are deleted by the rotation.
+ */
+@Entity({ name: 'jwt_signing_keys' })
+export class JwtSigningKey {
+  /**
+   * Key ID (the `kid` header of the tokens)
+   */
+  @PrimaryColumn({ length: 36 })
+  kid: string
+
+  /**
+   * Algorithm of the key pair (`RS256` or `ES256`)
+   */
+  @Column({ length: 5 })
+  algorithm: string
+
+  /**
+   * Public key, PEM-encoded (SPKI)
+   */
+  @Column({ type: 'text' })
+  publicKey: string
+
+  /**
+   * Private key, PEM-encoded (PKCS #8)
+   */
+  @Column({ type: 'text' })
+  privateKey: string
+
+  /**
+   * Date from which the key pair signs the tokens
+   */
+  @Column({ type: 'datetime' })
+  activatesAt: Date
+
+  /**
+   * Date from which the next key pair signs the tokens
+   */
+  @Column({ type: 'datetime' })
+  retiresAt: Date
+
+  /**
+   * Date after which the key pair is removed from the JWKS and deleted
+   */
+  @Index()
+  @Column({ type: 'datetime' })
+  expiresAt: Date
+
+  /**
+   * Date of creation
+   */
+  @CreateDateColumn({ type: 'datetime' })
+  created: Date
+}
@@ -0,0 +1,37 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm'
+
+/**
+ * LoginAttempt Entity
+ *
+ * This class represents the failed login attempts recorded for an account (`user:<name>`) or a
+ * client IP (`ip:<address>`) by the database store of `LoginThrottleService`
+ * (`LOGIN_ATTEMPT_STORE=database`). Like the revocation list entries, a record carries its own
+ * expiration date and is pruned afterwards.
+ */
+@Entity({ name: 'login_attempts' })
+export class LoginAttempt {
+  /**
+   * The account or IP key
+   */
+  @PrimaryColumn({ length: 320 })
+  key: string
+
+  /**
+   * Number of consecutive failed attempts
+   */
+  @Column({ type: 'int', default: 0 })
+  failures: number
+
+  /**
+   * End of the current lockout (`null` if there is none)
+   */
+  @Column({ type: 'datetime', nullable: true })
+  lockedUntil: Date | null
+
+  /**
+   * Date after which the record can be removed
+   */
+  @Index()
+  @Column({ type: 'datetime' })
+  expiresAt: Date
+}
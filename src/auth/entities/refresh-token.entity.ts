@@ -0,0 +1,89 @@
+import { User } from 'src/user/entities/user.entity'
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm'
+
+/**
+ * RefreshToken Entity
+ *
+ * This class represents a refresh token issued to a user. Only the SHA-256 hash of the token is
+ * stored, so a leaked table does not expose usable tokens. Every refresh rotates the token: the
+ * used token is revoked and replaced by a new one of the same family. A family groups all the
+ * tokens descending from one login, so that the whole session can be revoked at once (on logout,
+ * or when a revoked token is presented again).
+ */
+@Entity({ name: 'refresh_tokens' })
+export class RefreshToken {
+  /**
+   * Unique identifier of the token (UUID)
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  /**
+   * SHA-256 hash (hex) of the token
+   *
+   * The token itself is returned to the client once and never stored.
+   */
+  @Index({ unique: true })
+  @Column({ length: 64 })
+  tokenHash: string
+
+  /**
+   * Identifier of the token family (the session started by a login)
+   *
+   * It is also the `sid` claim of the access tokens issued along with the tokens of the family.
+   */
+  @Index()
+  @Column({ length: 36 })
+  family: string
+
+  /**
+   * ID of the user the token was issued to
+   */
+  @Column({ length: 36 })
+  userId: string
+
+  /**
+   * The user the token was issued to (its tokens are deleted along with the user)
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  /**
+   * Whether the session was opened with a second factor (passed on to the access tokens as `mfa`)
+   */
+  @Column({ default: false })
+  twoFactor: boolean
+
+  /**
+   * Expiration date of the token
+   */
+  @Column({ type: 'datetime' })
+  expiresAt: Date
+
+  /**
+   * Date the token was used or revoked (`null` while it is active)
+   */
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt: Date | null
+
+  /**
+   * ID of the token issued in exchange for this one (`null` unless it was rotated)
+   */
+  @Column({ length: 36, nullable: true })
+  replacedBy: string | null
+
+  /**
+   * Issue date of the token
+   */
+  @CreateDateColumn({ type: 'datetime' })
+  created: Date
+}
@@ -0,0 +1,25 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm'
+
+/**
+ * RevokedToken Entity
+ *
+ * This class represents an entry of the access token revocation list. The `id` is either the `jti`
+ * claim of a single access token or the `sid` claim shared by all the access tokens of a session.
+ * An entry is only needed until every access token it covers has expired, so it carries its own
+ * expiration date and is pruned afterwards.
+ */
+@Entity({ name: 'revoked_tokens' })
+export class RevokedToken {
+  /**
+   * The revoked token ID (`jti`) or session ID (`sid`)
+   */
+  @PrimaryColumn({ length: 36 })
+  id: string
+
+  /**
+   * Date after which the entry can be removed
+   */
+  @Index()
+  @Column({ type: 'datetime' })
+  expiresAt: Date
+}
@@ -0,0 +1,79 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm'
+import { User } from 'src/user/entities/user.entity'
+
+/**
+ * Enum for the purposes of the single-use user tokens
+ */
+export enum UserTokenPurposes {
+  EmailVerification = 'email_verification',
+  PasswordReset = 'password_reset',
+}
+
+/**
+ * UserToken Entity
+ *
+ * This class represents a single-use token sent to a user by email, to verify their email
+ * address or to reset their password. As for refresh tokens, only the SHA-256 hash of the
+ * token is stored. A token is valid until it is used, expires, or is superseded by a newer
+ * token of the same purpose.
+ */
+@Entity({ name: 'user_tokens' })
+export class UserToken {
+  /**
+   * Unique identifier of the token (UUID)
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string
+
+  /**
+   * SHA-256 hash (hex) of the token
+   */
+  @Index({ unique: true })
+  @Column({ length: 64 })
+  tokenHash: string
+
+  /**
+   * What the token can be used for
+   */
+  @Column({ type: 'enum', enum: UserTokenPurposes })
+  purpose: UserTokenPurposes
+
+  /**
+   * ID of the user the token was sent to
+   */
+  @Column({ length: 36 })
+  userId: string
+
+  /**
+   * The user the token was sent to (its tokens are deleted along with the user)
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  /**
+   * Expiration date of the token
+   */
+  @Column({ type: 'datetime' })
+  expiresAt: Date
+
+  /**
+   * Date the token was used or superseded (`null` while it is valid)
+   */
+  @Column({ type: 'datetime', nullable: true })
+  usedAt: Date | null
+
+  /**
+   * Issue date of the token
+   */
+  @CreateDateColumn({ type: 'datetime' })
+  created: Date
+}
@@ -0,0 +1,63 @@
+import { User } from 'src/user/entities/user.entity'
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  OneToOne,
+  PrimaryColumn,
+} from 'typeorm'
+
+/**
+ * UserTwoFactor Entity
+ *
+ * This class represents the TOTP two-factor authentication of a user. It is created by the
+ * enrolment (`POST /auth/2fa/setup`) and only enforced once the user confirmed a first code
+ * (`enabledAt`). The recovery codes, usable once each instead of a TOTP code, are stored as
+ * SHA-256 hashes.
+ */
+@Entity({ name: 'user_two_factor' })
+export class UserTwoFactor {
+  /**
+   * ID of the user
+   */
+  @PrimaryColumn({ length: 36 })
+  userId: string
+
+  /**
+   * The user (the record is deleted along with the user)
+   */
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User
+
+  /**
+   * TOTP secret, base32-encoded
+   */
+  @Column({ length: 64 })
+  secret: string
+
+  /**
+   * Date the two-factor authentication was confirmed (`null` while the enrolment is pending)
+   */
+  @Column({ type: 'datetime', nullable: true })
+  enabledAt: Date | null
+
+  /**
+   * SHA-256 hashes (hex) of the unused recovery codes
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  recoveryCodes: string[] | null
+
+  /**
+   * Time step of the last accepted TOTP code, so that a code cannot be used twice
+   */
+  @Column({ type: 'int', nullable: true })
+  lastUsedStep: number | null
+
+  /**
+   * Date of the enrolment
+   */
+  @CreateDateColumn({ type: 'datetime' })
+  created: Date
+}
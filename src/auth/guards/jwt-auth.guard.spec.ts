@@ -0,0 +1,239 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  HttpStatus,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { AuthenticatedUser, UserRoles } from 'src/shared/constants'
+import { JwtAuthGuard } from './jwt-auth.guard'
+import { RequirePermissions } from '../decorators/permissions.decorator'
+import { Public } from '../decorators/public.decorator'
+import { Permissions } from '../permissions'
+import { AUDITED_KEY } from 'src/audit/audit.interceptor'
+import { AuditService } from 'src/audit/audit.service'
+import { AuditOutcomes } from 'src/audit/entities/audit-log.entity'
+
+/**
+ * Routes of the tests, with the metadata the guard reads (audited as `tests`)
+ */
+@SetMetadata(AUDITED_KEY, 'tests')
+class TestController {
+  @Public()
+  publicRoute() {}
+
+  @RequirePermissions(Permissions.PeopleWrite)
+  writePeople() {}
+
+  @RequirePermissions(Permissions.UsersManage)
+  manageUsers() {}
+
+  // A route without required permissions, such as `/users/me` or `POST /auth/api-keys`
+  ownAccount() {}
+}
+
+/**
+ * Creates the execution context of an HTTP request to a route of `TestController`
+ *
+ * @param handler The name of the route
+ * @param user The authenticated user of the request
+ * @param method The HTTP method of the request
+ * @returns The execution context
+ */
+function createContext(
+  handler: keyof TestController,
+  user: AuthenticatedUser,
+  method: string = 'POST',
+): ExecutionContext {
+  const request = { user, method, path: '/tests', params: {}, ip: '10.0.0.1' }
+  return {
+    getType: () => 'http',
+    getHandler: () => TestController.prototype[handler],
+    getClass: () => TestController,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext
+}
+
+/**
+ * Unit test suite for JwtAuthGuard.
+ * The authentication itself (`JwtStrategy`, `ApiKeyStrategy`) is mocked: the tests cover the
+ * authorization checks applied to the authenticated user.
+ */
+describe('JwtAuthGuard', () => {
+  let guard: JwtAuthGuard
+  let authenticate: jest.SpyInstance
+  let auditService: { record: jest.Mock }
+
+  const editor: AuthenticatedUser = {
+    userId: 'user-1',
+    role: UserRoles.Editor,
+    emailVerified: true,
+  }
+  const editorKey: AuthenticatedUser = {
+    ...editor,
+    apiKeyId: 'key-1',
+    scopes: [Permissions.PeopleWrite],
+  }
+
+  beforeEach(() => {
+    auditService = { record: jest.fn() }
+    guard = new JwtAuthGuard(
+      new Reflector(),
+      auditService as unknown as AuditService,
+    )
+    authenticate = jest
+      .spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate')
+      .mockResolvedValue(true)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should let public routes through without authentication', async () => {
+    await expect(
+      guard.canActivate(createContext('publicRoute', undefined)),
+    ).resolves.toBe(true)
+    expect(authenticate).not.toHaveBeenCalled()
+  })
+
+  it('should check the permissions of the role of a user', async () => {
+    await expect(
+      guard.canActivate(createContext('writePeople', editor)),
+    ).resolves.toBe(true)
+    await expect(
+      guard.canActivate(createContext('manageUsers', editor)),
+    ).rejects.toThrow(ForbiddenException)
+  })
+
+  /**
+   * Test suite for the mandatory second factor of the administrators.
+   */
+  describe('for an administrator', () => {
+    const admin: AuthenticatedUser = {
+      userId: 'admin-1',
+      role: UserRoles.Admin,
+      emailVerified: true,
+    }
+
+    it('should refuse the protected routes without a second factor', async () => {
+      await expect(
+        guard.canActivate(createContext('manageUsers', admin)),
+      ).rejects.toThrow(
+        'Administrators must sign in with two-factor authentication',
+      )
+    })
+
+    it('should allow the protected routes with a second factor', async () => {
+      await expect(
+        guard.canActivate(
+          createContext('manageUsers', { ...admin, twoFactor: true }),
+        ),
+      ).resolves.toBe(true)
+    })
+
+    it('should allow their own account without a second factor, to enroll', async () => {
+      await expect(
+        guard.canActivate(createContext('ownAccount', admin)),
+      ).resolves.toBe(true)
+    })
+  })
+
+  /**
+   * Test suite for the requests authenticated with an API key.
+   */
+  describe('with an API key', () => {
+    it('should allow the routes within the scopes of the key', async () => {
+      await expect(
+        guard.canActivate(createContext('writePeople', editorKey)),
+      ).resolves.toBe(true)
+    })
+
+    it('should refuse the routes outside the scopes of the key', async () => {
+      const readOnlyKey: AuthenticatedUser = {
+        ...editorKey,
+        role: UserRoles.Admin,
+        scopes: [Permissions.UsersRead],
+      }
+      await expect(
+        guard.canActivate(createContext('writePeople', readOnlyKey)),
+      ).rejects.toThrow(
+        'The API key is missing the scope: ' + Permissions.PeopleWrite,
+      )
+    })
+
+    it('should refuse the routes requiring no permission', async () => {
+      await expect(
+        guard.canActivate(createContext('ownAccount', editorKey)),
+      ).rejects.toThrow('This route is not available with an API key')
+    })
+
+    it('should still require the permission from the role of the owner', async () => {
+      const userKey: AuthenticatedUser = { ...editorKey, role: UserRoles.User }
+      await expect(
+        guard.canActivate(createContext('writePeople', userKey)),
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+
+  /**
+   * Test suite for the audit of the refused mutations.
+   */
+  describe('audit', () => {
+    it('should record a mutation refused for lack of permission', async () => {
+      await expect(
+        guard.canActivate(createContext('manageUsers', editor)),
+      ).rejects.toThrow(ForbiddenException)
+
+      expect(auditService.record).toHaveBeenCalledWith({
+        action: 'tests.manageUsers',
+        outcome: AuditOutcomes.Failure,
+        actorId: 'user-1',
+        apiKeyId: null,
+        ip: '10.0.0.1',
+        target: undefined,
+        details: {
+          method: 'POST',
+          path: '/tests',
+          status: HttpStatus.FORBIDDEN,
+          error: 'Missing permission: ' + Permissions.UsersManage,
+        },
+      })
+    })
+
+    it('should not record a mutation refused without authentication', async () => {
+      authenticate.mockRejectedValue(new UnauthorizedException())
+
+      await expect(
+        guard.canActivate(createContext('writePeople', undefined)),
+      ).rejects.toThrow(UnauthorizedException)
+
+      expect(auditService.record).not.toHaveBeenCalled()
+    })
+
+    it('should not record the refused reads', async () => {
+      await expect(
+        guard.canActivate(createContext('manageUsers', editor, 'GET')),
+      ).rejects.toThrow(ForbiddenException)
+
+      expect(auditService.record).not.toHaveBeenCalled()
+    })
+
+    it('should not record the refused routes requiring no permission', async () => {
+      await expect(
+        guard.canActivate(createContext('ownAccount', editorKey)),
+      ).rejects.toThrow(ForbiddenException)
+
+      expect(auditService.record).not.toHaveBeenCalled()
+    })
+
+    it('should not record the allowed mutations', async () => {
+      await expect(
+        guard.canActivate(createContext('writePeople', editor)),
+      ).resolves.toBe(true)
+
+      expect(auditService.record).not.toHaveBeenCalled()
+    })
+  })
+})
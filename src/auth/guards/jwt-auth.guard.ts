@@ -1,31 +1,187 @@
-import { ExecutionContext, Injectable } from '@nestjs/common'
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common'
 import { Reflector } from '@nestjs/core'
 import { AuthGuard } from '@nestjs/passport'
+import { GqlContextType, GqlExecutionContext } from '@nestjs/graphql'
+import { AuthenticatedUser, UserRoles } from 'src/shared/constants'
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator'
+import { ROLES_KEY } from '../decorators/roles.decorator'
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator'
+import {
+  ALLOW_UNVERIFIED_KEY,
+  isReadOnlyMethod,
+} from '../decorators/allow-unverified.decorator'
+import { Permissions, hasPermissions } from '../permissions'
+import { AuditService } from 'src/audit/audit.service'
+import {
+  getAuditedMutation,
+  getFailureEntry,
+} from 'src/audit/audit.interceptor'
 
 /**
- * JwtAuthGuard: Custom JWT Authentication Guard
+ * JwtAuthGuard: Global Authentication and Authorization Guard
  *
- * This guard extends the `AuthGuard('jwt')` from `@nestjs/passport` to provide conditional
- * JWT authentication based on the `@Public()` decorator. It intercepts incoming requests
- * and determines if JWT authentication is required.
+ * This guard extends the `AuthGuard` from `@nestjs/passport` and is registered globally
+ * (`APP_GUARD`), for REST routes and GraphQL operations alike. For every request it:
+ *
+ * 1. Lets the routes marked with `@Public()` through without authentication.
+ * 2. Authenticates the access token with `JwtStrategy` (which rejects revoked tokens), or else the
+ *    `X-API-Key` header with `ApiKeyStrategy`.
+ * 3. Gives read-only access to users whose email address is not verified, unless the route is
+ *    marked with `@AllowUnverified()`.
+ * 4. Checks the roles required with `@Roles()`, if any.
+ * 5. Checks the permissions required with `@RequirePermissions()`, if any, against the
+ *    permissions of the user's role (`rolePermissions`). An API key only gives access to the
+ *    routes requiring permissions, and only to those within its scopes.
+ * 6. Refuses the routes requiring roles or permissions to administrators whose session was not opened
+ *    with a second factor (two-factor authentication is mandatory for them).
+ *
+ * The requests of authenticated users or API keys refused (`403`) at the audited mutations
+ * (`@Audited()`) are recorded in the audit log as failures, since they never reach the
+ * `AuditInterceptor`. The requests refused without authentication (`401`) are not recorded, so that
+ * anonymous clients cannot flood the audit log.
  */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
-  constructor(private reflector: Reflector) {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
+  constructor(
+    private reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {
     super()
   }
-  canActivate(context: ExecutionContext) {
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     // Check for the `@Public()` decorator on the handler or class
-    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
-      context.getHandler(),
-      context.getClass(),
-    ])
+    const isPublic = this.getMetadata<boolean>(IS_PUBLIC_KEY, context)
     // If the route is public, bypass JWT authentication
     if (isPublic) {
       return true
     }
-    // Otherwise, perform default JWT authentication
-    return super.canActivate(context)
+    try {
+      return await this.authorize(context)
+    } catch (error) {
+      // Record the refused attempts at the audited mutations, when authenticated: anonymous clients
+      // could otherwise fill the audit log with refused requests
+      const entry = getAuditedMutation(this.reflector, context)
+      if (entry?.actorId) {
+        await this.auditService.record(getFailureEntry(entry, error))
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Authenticates the request and checks its access to the route
+   *
+   * @param context The ExecutionContext object containing request information
+   * @returns A Promise resolving to `true` if the request is authorized
+   * @throws UnauthorizedException If the request is not authenticated
+   * @throws ForbiddenException If the user or API key has no access to the route
+   */
+  private async authorize(context: ExecutionContext): Promise<boolean> {
+    // Perform default JWT authentication
+    if (!(await super.canActivate(context))) {
+      return false
+    }
+    const request = this.getRequest(context)
+    const user: AuthenticatedUser = request.user
+    const requiredPermissions = this.getMetadata<Permissions[]>(
+      PERMISSIONS_KEY,
+      context,
+    )
+    // An API key is limited to its scopes, and to the routes requiring permissions
+    if (user.apiKeyId && !this.isWithinScopes(user, requiredPermissions)) {
+      throw new ForbiddenException(
+        requiredPermissions?.length
+          ? `The API key is missing the scope: ${requiredPermissions.join(', ')}`
+          : 'This route is not available with an API key',
+      )
+    }
+    // Unverified accounts are read-only
+    if (
+      user.emailVerified === false &&
+      !this.getMetadata<boolean>(ALLOW_UNVERIFIED_KEY, context) &&
+      !isReadOnlyMethod(request.method)
+    ) {
+      throw new ForbiddenException(
+        'Verify your email address to get write access',
+      )
+    }
+    // Check the required roles and permissions
+    const requiredRoles = this.getMetadata<UserRoles[]>(ROLES_KEY, context)
+    // Administrators need a second factor (their API keys could only be created with one)
+    if (
+      (requiredRoles?.length || requiredPermissions?.length) &&
+      user.role === UserRoles.Admin &&
+      !user.twoFactor &&
+      !user.apiKeyId
+    ) {
+      throw new ForbiddenException(
+        'Administrators must sign in with two-factor authentication',
+      )
+    }
+    if (requiredRoles && !requiredRoles.includes(user.role)) {
+      throw new ForbiddenException('Your role does not give access to this')
+    }
+    if (
+      requiredPermissions &&
+      !hasPermissions(user.role, requiredPermissions)
+    ) {
+      throw new ForbiddenException(
+        `Missing permission: ${requiredPermissions.join(', ')}`,
+      )
+    }
+    return true
+  }
+
+  /**
+   * Returns the HTTP request of the context, also for GraphQL operations
+   *
+   * @param context The ExecutionContext object containing request information
+   * @returns The HTTP request
+   */
+  getRequest(context: ExecutionContext) {
+    return context.getType<GqlContextType>() === 'graphql'
+      ? GqlExecutionContext.create(context).getContext().req
+      : context.switchToHttp().getRequest()
+  }
+
+  /**
+   * Checks whether the scopes of an API key cover the permissions required by a route
+   *
+   * Routes without required permissions (e.g. the account and API key management) are not
+   * available with an API key.
+   *
+   * @param user The owner of the API key, with its scopes
+   * @param requiredPermissions The permissions required by the route
+   * @returns `true` if the key has every required permission
+   */
+  private isWithinScopes(
+    user: AuthenticatedUser,
+    requiredPermissions: Permissions[] | undefined,
+  ): boolean {
+    return (
+      Boolean(requiredPermissions?.length) &&
+      requiredPermissions.every((permission) =>
+        user.scopes?.includes(permission),
+      )
+    )
+  }
+
+  /**
+   * Reads a metadata value from the handler, or else from its class
+   *
+   * @param key The metadata key
+   * @param context The ExecutionContext object containing request information
+   * @returns The metadata value, or `undefined` if it is not set
+   */
+  private getMetadata<T>(key: string, context: ExecutionContext): T {
+    return this.reflector.getAllAndOverride<T>(key, [
+      context.getHandler(),
+      context.getClass(),
+    ])
   }
 }
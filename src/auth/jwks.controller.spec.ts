@@ -0,0 +1,52 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { Response } from 'express'
+import { JwksController } from './jwks.controller'
+import { JwtKeyService } from './jwt-key.service'
+import { jwtSettings } from 'src/shared/constants'
+
+/**
+ * Unit test suite for JwksController.
+ * The key set is mocked.
+ */
+describe('JwksController', () => {
+  let controller: JwksController
+  let jwtKeyService: Record<string, jest.Mock>
+
+  beforeEach(async () => {
+    jwtKeyService = {
+      getJwks: jest.fn().mockResolvedValue({
+        keys: [
+          {
+            kty: 'EC',
+            crv: 'P-256',
+            x: 'f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU',
+            y: 'x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0',
+            kid: 'key-1',
+            alg: 'ES256',
+            use: 'sig',
+          },
+        ],
+      }),
+    }
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [JwksController],
+      providers: [{ provide: JwtKeyService, useValue: jwtKeyService }],
+    }).compile()
+
+    controller = module.get<JwksController>(JwksController)
+  })
+
+  it('should send the key set as is, cached as long as the keys are', async () => {
+    const res = { set: jest.fn().mockReturnThis(), json: jest.fn() }
+
+    await controller.getJwks(res as unknown as Response)
+
+    expect(res.set).toHaveBeenCalledWith(
+      'Cache-Control',
+      `public, max-age=${jwtSettings.keyCacheLifetime}`,
+    )
+    expect(res.json).toHaveBeenCalledWith({
+      keys: [expect.objectContaining({ kid: 'key-1', alg: 'ES256' })],
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { Controller, Get, Res } from '@nestjs/common'
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger'
+import { Response } from 'express'
+import { jwtSettings } from 'src/shared/constants'
+import { JwtKeyService } from './jwt-key.service'
+import { Public } from './decorators/public.decorator'
+
+/**
+ * JwksController: Public keys of the token signing
+ *
+ * This controller publishes the JSON Web Key Set that other services use to verify the access
+ * tokens signed with `RS256` or `ES256` (matching the `kid` header of a token to a key). The set is
+ * sent as is, without the `data` wrapper of the other responses, as verifiers expect it.
+ */
+@ApiTags('auth')
+@Public()
+@Controller('/.well-known')
+export class JwksController {
+  constructor(private readonly jwtKeyService: JwtKeyService) {}
+
+  /**
+   * Returns the public signing keys
+   *
+   * @param res The HTTP response object, written directly to bypass the response wrapping
+   */
+  @Get('/jwks.json')
+  @ApiOperation({ summary: 'Get the public keys verifying the access tokens' })
+  @ApiOkResponse({
+    description:
+      'The JSON Web Key Set (empty when the tokens are signed with a shared secret).',
+    schema: {
+      example: {
+        keys: [
+          {
+            kty: 'EC',
+            crv: 'P-256',
+            x: 'f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU',
+            y: 'x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0',
+            kid: '1b4e28ba-2fa1-11d2-883f-0016d3cca427',
+            alg: 'ES256',
+            use: 'sig',
+          },
+        ],
+      },
+    },
+  })
+  async getJwks(@Res() res: Response): Promise<void> {
+    res
+      .set('Cache-Control', `public, max-age=${jwtSettings.keyCacheLifetime}`)
+      .json(await this.jwtKeyService.getJwks())
+  }
+}
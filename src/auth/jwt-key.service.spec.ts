@@ -0,0 +1,297 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { Logger, UnauthorizedException } from '@nestjs/common'
+import { JwtService } from '@nestjs/jwt'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { FindOperator } from 'typeorm'
+import { createPublicKey } from 'crypto'
+import { JwtKeyService } from './jwt-key.service'
+import { JwtSigningKey } from './entities/jwt-signing-key.entity'
+import {
+  JwtAlgorithm,
+  accessTokenLifetime,
+  jwtSettings,
+} from 'src/shared/constants'
+
+/**
+ * Unit test suite for JwtKeyService.
+ * The tokens are really signed and verified; the key pairs are kept by an in-memory repository, which
+ * several instances of the service can share. The clock is faked.
+ */
+describe('JwtKeyService', () => {
+  const { algorithm, keyRotationInterval, keyPrepublication } = jwtSettings
+  let repository: Record<string, jest.Mock>
+  let storedKeys: JwtSigningKey[]
+  let services: JwtKeyService[]
+
+  beforeEach(() => {
+    jest.useFakeTimers({
+      now: new Date('2026-01-01T00:00:00Z'),
+      doNotFake: ['nextTick', 'setImmediate'],
+    })
+    jest.spyOn(Logger.prototype, 'log').mockImplementation()
+    process.env.JWT_SECRET = 'jwt-secret'
+    storedKeys = []
+    services = []
+    repository = {
+      find: jest.fn(async ({ where }) =>
+        storedKeys
+          .filter(
+            (key) =>
+              key.expiresAt > (where.expiresAt as FindOperator<Date>).value,
+          )
+          .sort((a, b) => a.activatesAt.getTime() - b.activatesAt.getTime()),
+      ),
+      delete: jest.fn(async ({ expiresAt }) => {
+        storedKeys = storedKeys.filter(
+          (key) => key.expiresAt >= (expiresAt as FindOperator<Date>).value,
+        )
+      }),
+      create: jest.fn((values) => Object.assign(new JwtSigningKey(), values)),
+      save: jest.fn(async (key) => {
+        storedKeys.push(key)
+        return key
+      }),
+    }
+  })
+
+  afterEach(() => {
+    services.forEach((service) => service.onModuleDestroy())
+    jwtSettings.algorithm = algorithm
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  /**
+   * Creates an instance of the service on the shared repository
+   *
+   * @param jwtAlgorithm The algorithm signing the tokens
+   * @returns A Promise resolving to the service, initialized
+   */
+  const createService = async (jwtAlgorithm: JwtAlgorithm) => {
+    jwtSettings.algorithm = jwtAlgorithm
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtKeyService,
+        JwtService,
+        { provide: getRepositoryToken(JwtSigningKey), useValue: repository },
+      ],
+    }).compile()
+    const service: JwtKeyService = module.get<JwtKeyService>(JwtKeyService)
+    services.push(service)
+    await service.onModuleInit()
+    return service
+  }
+
+  /**
+   * Returns the `kid` header of a token
+   *
+   * @param token The signed token
+   * @returns The ID of the key that signed the token
+   */
+  const getKid = (token: string): string =>
+    JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString()).kid
+
+  /**
+   * Moves the clock to a date, without running the scheduled rotations
+   *
+   * @param date The new date
+   */
+  const setNow = (date: Date | number) => jest.setSystemTime(date)
+
+  it('should refuse an unsupported algorithm', async () => {
+    await expect(createService('none' as JwtAlgorithm)).rejects.toThrow(
+      "Unsupported JWT_ALGORITHM 'none'",
+    )
+  })
+
+  describe('with HS256', () => {
+    it('should sign and verify the tokens with the shared secret', async () => {
+      const service: JwtKeyService = await createService('HS256')
+
+      const token: string = await service.sign({ sub: 'user-1' })
+
+      await expect(service.verify(token)).resolves.toEqual(
+        expect.objectContaining({
+          sub: 'user-1',
+          iss: jwtSettings.issuer,
+          aud: jwtSettings.audience,
+        }),
+      )
+      expect(getKid(token)).toBeUndefined()
+      expect(repository.save).not.toHaveBeenCalled()
+    })
+
+    it('should publish no key', async () => {
+      const service: JwtKeyService = await createService('HS256')
+
+      await expect(service.getJwks()).resolves.toEqual({ keys: [] })
+    })
+
+    it('should refuse a token of another audience', async () => {
+      const service: JwtKeyService = await createService('HS256')
+      const token: string = await new JwtService().signAsync(
+        { sub: 'user-1' },
+        {
+          secret: 'jwt-secret',
+          issuer: jwtSettings.issuer,
+          audience: 'another-api',
+        },
+      )
+
+      await expect(service.verify(token)).rejects.toThrow(
+        'jwt audience invalid',
+      )
+    })
+  })
+
+  describe('with ES256', () => {
+    it('should create a key pair on start and sign with it', async () => {
+      const service: JwtKeyService = await createService('ES256')
+
+      const token: string = await service.sign({ sub: 'user-1' })
+
+      expect(storedKeys).toHaveLength(1)
+      expect(getKid(token)).toBe(storedKeys[0].kid)
+      await expect(service.verify(token)).resolves.toEqual(
+        expect.objectContaining({ sub: 'user-1' }),
+      )
+    })
+
+    it('should not create a key pair when another instance already did', async () => {
+      await createService('ES256')
+      await createService('ES256')
+
+      expect(storedKeys).toHaveLength(1)
+    })
+
+    it('should publish the public keys as a JSON Web Key Set', async () => {
+      const service: JwtKeyService = await createService('ES256')
+      const token: string = await service.sign({ sub: 'user-1' })
+
+      const { keys } = await service.getJwks()
+
+      expect(keys).toEqual([
+        {
+          kty: 'EC',
+          crv: 'P-256',
+          x: expect.any(String),
+          y: expect.any(String),
+          kid: storedKeys[0].kid,
+          alg: 'ES256',
+          use: 'sig',
+        },
+      ])
+      // The published key verifies the tokens, as a verifier would do with it
+      const publicKey: string = createPublicKey({ key: keys[0], format: 'jwk' })
+        .export({ type: 'spki', format: 'pem' })
+        .toString()
+      await expect(
+        new JwtService().verifyAsync(token, { publicKey }),
+      ).resolves.toEqual(expect.objectContaining({ sub: 'user-1' }))
+    })
+
+    it('should publish the next key before it starts signing', async () => {
+      const service: JwtKeyService = await createService('ES256')
+      const [current] = storedKeys
+
+      setNow(current.retiresAt.getTime() - keyPrepublication * 1000)
+      await service.rotate()
+
+      expect(storedKeys).toHaveLength(2)
+      expect(storedKeys[1].activatesAt).toEqual(current.retiresAt)
+      expect((await service.getJwks()).keys.map(({ kid }) => kid)).toEqual([
+        current.kid,
+        storedKeys[1].kid,
+      ])
+      expect(getKid(await service.sign({ sub: 'user-1' }))).toBe(current.kid)
+    })
+
+    it('should sign with the next key once the current one retires', async () => {
+      const service: JwtKeyService = await createService('ES256')
+      const [current] = storedKeys
+      setNow(current.retiresAt.getTime() - keyPrepublication * 1000)
+      await service.rotate()
+      setNow(current.retiresAt.getTime() - 60000)
+      const oldToken: string = await service.sign({ sub: 'user-1' })
+
+      setNow(current.retiresAt)
+      const newToken: string = await service.sign({ sub: 'user-1' })
+
+      expect(getKid(newToken)).toBe(storedKeys[1].kid)
+      await expect(service.verify(oldToken)).resolves.toEqual(
+        expect.objectContaining({ sub: 'user-1' }),
+      )
+      await expect(service.verify(newToken)).resolves.toEqual(
+        expect.objectContaining({ sub: 'user-1' }),
+      )
+    })
+
+    it('should drop a retired key once its last token expired', async () => {
+      const service: JwtKeyService = await createService('ES256')
+      const [current] = storedKeys
+      setNow(current.retiresAt.getTime() - keyPrepublication * 1000)
+      await service.rotate()
+
+      setNow(current.retiresAt.getTime() + accessTokenLifetime * 1000 + 1000)
+      await service.rotate()
+
+      expect(storedKeys.map(({ kid }) => kid)).not.toContain(current.kid)
+      expect((await service.getJwks()).keys).toHaveLength(1)
+    })
+
+    it('should create a signing key when the rotation was missed', async () => {
+      const service: JwtKeyService = await createService('ES256')
+
+      setNow(Date.now() + keyRotationInterval * 1000 * 2)
+      const token: string = await service.sign({ sub: 'user-1' })
+
+      expect(storedKeys).toHaveLength(1)
+      expect(getKid(token)).toBe(storedKeys[0].kid)
+      expect(storedKeys[0].activatesAt).toEqual(new Date())
+    })
+
+    it('should reload the key set for a key created by another instance', async () => {
+      const verifier: JwtKeyService = await createService('ES256')
+      const [current] = storedKeys
+      setNow(current.retiresAt.getTime() - 10000)
+      await verifier.getJwks()
+      const signer: JwtKeyService = await createService('ES256')
+
+      setNow(current.retiresAt.getTime() + 10000)
+      const token: string = await signer.sign({ sub: 'user-1' })
+
+      expect(getKid(token)).not.toBe(current.kid)
+      await expect(verifier.verify(token)).resolves.toEqual(
+        expect.objectContaining({ sub: 'user-1' }),
+      )
+    })
+
+    it('should refuse a token naming an unknown key', async () => {
+      const service: JwtKeyService = await createService('ES256')
+      const token: string = await service.sign({ sub: 'user-1' })
+      storedKeys = []
+      setNow(Date.now() + (jwtSettings.keyCacheLifetime + 1) * 1000)
+
+      await expect(service.verify(token)).rejects.toThrow(
+        new UnauthorizedException('Unknown signing key'),
+      )
+    })
+
+    it('should refuse a token signed with the shared secret', async () => {
+      const service: JwtKeyService = await createService('ES256')
+      const token: string = await new JwtService().signAsync(
+        { sub: 'user-1' },
+        {
+          secret: 'jwt-secret',
+          keyid: storedKeys[0].kid,
+          issuer: jwtSettings.issuer,
+          audience: jwtSettings.audience,
+        },
+      )
+
+      await expect(service.verify(token)).rejects.toThrow(
+        new UnauthorizedException('Unknown signing key'),
+      )
+    })
+  })
+})
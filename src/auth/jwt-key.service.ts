@@ -0,0 +1,317 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common'
+import { JwtService } from '@nestjs/jwt'
+import { InjectRepository } from '@nestjs/typeorm'
+import { LessThan, MoreThan, Repository } from 'typeorm'
+import {
+  JsonWebKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomUUID,
+} from 'crypto'
+import {
+  JwtAlgorithm,
+  accessTokenLifetime,
+  jwtSettings,
+} from 'src/shared/constants'
+import { JwtSigningKey } from './entities/jwt-signing-key.entity'
+
+/**
+ * Seconds between two reloads of the key set caused by tokens signed with an unknown key
+ */
+const unknownKeyReloadInterval: number = 5
+
+/**
+ * JwtKeyService: Signing and verification of the JWTs
+ *
+ * With `JWT_ALGORITHM=HS256` (the default) the tokens are signed and verified with the shared
+ * `JWT_SECRET`. With `RS256` or `ES256` they are signed with a key pair stored in the database and
+ * named by the `kid` header of the tokens, so that any service can verify them with the public keys
+ * published at `GET /.well-known/jwks.json`. The key pairs are rotated every `keyRotationInterval`:
+ * the next one is created and published `keyPrepublication` seconds before it starts signing, and a
+ * retired one is kept in the key set until the last token it signed has expired. Every instance
+ * caches the key set and checks the rotation every `keyCacheLifetime` seconds. Every token carries
+ * the `iss` and `aud` claims of `jwtSettings`, and is refused without them.
+ */
+@Injectable()
+export class JwtKeyService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JwtKeyService.name)
+  private keys: JwtSigningKey[] = []
+  private loadedAt: number = 0
+  private rotationTimer?: NodeJS.Timeout
+
+  constructor(
+    private readonly jwtService: JwtService,
+    @InjectRepository(JwtSigningKey)
+    private readonly signingKeysRepository: Repository<JwtSigningKey>,
+  ) {
+    if (!['HS256', 'RS256', 'ES256'].includes(jwtSettings.algorithm)) {
+      throw new Error(`Unsupported JWT_ALGORITHM '${jwtSettings.algorithm}'`)
+    }
+  }
+
+  /**
+   * The algorithms accepted on verification
+   *
+   * Keys of another asymmetric algorithm than the configured one stay valid until they expire, so
+   * that the algorithm can be changed without invalidating the issued tokens.
+   */
+  get algorithms(): JwtAlgorithm[] {
+    return this.isAsymmetric() ? ['RS256', 'ES256'] : ['HS256']
+  }
+
+  /**
+   * Creates the first key pair if needed and schedules the rotation
+   */
+  async onModuleInit(): Promise<void> {
+    if (!this.isAsymmetric()) {
+      return
+    }
+    await this.rotate()
+    this.rotationTimer = setInterval(() => {
+      this.rotate().catch((error) =>
+        this.logger.error(`Signing key rotation failed: ${error.message}`),
+      )
+    }, jwtSettings.keyCacheLifetime * 1000)
+    // Don't keep the process alive for the rotation alone
+    this.rotationTimer.unref()
+  }
+
+  /**
+   * Stops the rotation
+   */
+  onModuleDestroy(): void {
+    clearInterval(this.rotationTimer)
+  }
+
+  /**
+   * Signs a token with the current key, adding the `iss` and `aud` claims
+   *
+   * @param payload The claims of the token
+   * @param expiresIn Lifetime of the token in seconds (the lifetime of an access token by default)
+   * @returns A Promise resolving to the signed token
+   */
+  async sign(
+    payload: object,
+    expiresIn: number = accessTokenLifetime,
+  ): Promise<string> {
+    const options = {
+      expiresIn,
+      issuer: jwtSettings.issuer,
+      audience: jwtSettings.audience,
+    }
+    if (!this.isAsymmetric()) {
+      return this.jwtService.signAsync(payload, {
+        ...options,
+        algorithm: 'HS256',
+        secret: process.env.JWT_SECRET,
+      })
+    }
+    const key: JwtSigningKey = await this.getSigningKey()
+    return this.jwtService.signAsync(payload, {
+      ...options,
+      algorithm: key.algorithm as JwtAlgorithm,
+      keyid: key.kid,
+      privateKey: key.privateKey,
+    })
+  }
+
+  /**
+   * Verifies a token against the key set, along with its expiration, issuer and audience
+   *
+   * @param token The signed token
+   * @returns A Promise resolving to the payload of the token
+   * @throws UnauthorizedException If the token was not signed by a key of the key set
+   * @throws Error (from `jsonwebtoken`) If the signature or a claim is invalid
+   */
+  async verify<T extends object>(token: string): Promise<T> {
+    const key: string = await this.getVerificationKey(token)
+    return this.jwtService.verifyAsync<T>(token, {
+      ...(this.isAsymmetric() ? { publicKey: key } : { secret: key }),
+      algorithms: this.algorithms,
+      issuer: jwtSettings.issuer,
+      audience: jwtSettings.audience,
+    })
+  }
+
+  /**
+   * Returns the key to verify a token with: the public key named by its `kid` header, or the
+   * `JWT_SECRET` with `HS256`
+   *
+   * A token naming an unknown key causes a reload of the key set (at most every few seconds), in
+   * case the key was just created by another instance.
+   *
+   * @param token The signed token (it is only decoded here, not verified)
+   * @returns A Promise resolving to the secret or PEM-encoded public key
+   * @throws UnauthorizedException If the token names no key of the key set, or another algorithm
+   */
+  async getVerificationKey(token: string): Promise<string> {
+    if (!this.isAsymmetric()) {
+      return process.env.JWT_SECRET
+    }
+    const header = this.jwtService.decode(token, { complete: true })?.header
+    let key: JwtSigningKey | undefined = header?.kid
+      ? (await this.getKeys()).find(({ kid }) => kid === header.kid)
+      : undefined
+    if (
+      !key &&
+      header?.kid &&
+      Date.now() - this.loadedAt > unknownKeyReloadInterval * 1000
+    ) {
+      await this.load()
+      key = this.keys.find(({ kid }) => kid === header.kid)
+    }
+    if (!key || key.algorithm !== header.alg) {
+      throw new UnauthorizedException('Unknown signing key')
+    }
+    return key.publicKey
+  }
+
+  /**
+   * Returns the public keys of the key set as a JSON Web Key Set (RFC 7517)
+   *
+   * The set holds the current key, the next one once it is published and the retired ones whose
+   * tokens may still be valid. It is empty with `HS256`, whose secret is never published.
+   *
+   * @returns A Promise resolving to the key set
+   */
+  async getJwks(): Promise<{ keys: JsonWebKey[] }> {
+    if (!this.isAsymmetric()) {
+      return { keys: [] }
+    }
+    return {
+      keys: (await this.getKeys()).map((key) => ({
+        ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    }
+  }
+
+  /**
+   * Rotates the key pairs
+   *
+   * Deletes the expired key pairs, creates a key pair signing from now on when none does (first
+   * start, change of algorithm, or an instance stopped longer than a rotation interval), and creates
+   * the next one once the current one retires within `keyPrepublication` seconds. Instances rotating
+   * at the same time may each create a key pair; they are all published, so every token stays valid.
+   */
+  async rotate(): Promise<void> {
+    const now: Date = new Date()
+    await this.signingKeysRepository.delete({ expiresAt: LessThan(now) })
+    await this.load()
+    const latest: JwtSigningKey | undefined = this.keys
+      .filter(({ algorithm }) => algorithm === jwtSettings.algorithm)
+      .pop()
+    if (!latest || latest.retiresAt <= now) {
+      await this.createKey(now)
+    } else if (
+      latest.retiresAt.getTime() - jwtSettings.keyPrepublication * 1000 <=
+      now.getTime()
+    ) {
+      await this.createKey(latest.retiresAt)
+    } else {
+      return
+    }
+    await this.load()
+  }
+
+  /**
+   * Whether the tokens are signed with a key pair rather than the shared secret
+   */
+  private isAsymmetric(): boolean {
+    return jwtSettings.algorithm !== 'HS256'
+  }
+
+  /**
+   * Returns the key pair signing the tokens now
+   *
+   * @returns A Promise resolving to the latest activated key pair of the configured algorithm
+   */
+  private async getSigningKey(): Promise<JwtSigningKey> {
+    const findActive = (): JwtSigningKey | undefined => {
+      const now: Date = new Date()
+      return this.keys
+        .filter(
+          (key) =>
+            key.algorithm === jwtSettings.algorithm &&
+            key.activatesAt <= now &&
+            key.retiresAt > now,
+        )
+        .pop()
+    }
+    await this.getKeys()
+    let key: JwtSigningKey | undefined = findActive()
+    if (!key) {
+      await this.rotate()
+      key = findActive()
+    }
+    return key
+  }
+
+  /**
+   * Returns the cached key set, reloaded once older than `keyCacheLifetime`
+   *
+   * @returns A Promise resolving to the unexpired key pairs, by activation date
+   */
+  private async getKeys(): Promise<JwtSigningKey[]> {
+    if (Date.now() - this.loadedAt > jwtSettings.keyCacheLifetime * 1000) {
+      await this.load()
+    }
+    return this.keys
+  }
+
+  /**
+   * Loads the unexpired key pairs from the database into the cache
+   */
+  private async load(): Promise<void> {
+    this.keys = await this.signingKeysRepository.find({
+      where: { expiresAt: MoreThan(new Date()) },
+      order: { activatesAt: 'ASC' },
+    })
+    this.loadedAt = Date.now()
+  }
+
+  /**
+   * Generates and stores a key pair of the configured algorithm
+   *
+   * @param activatesAt Date from which the key pair signs the tokens
+   */
+  private async createKey(activatesAt: Date): Promise<void> {
+    const { publicKey, privateKey } =
+      jwtSettings.algorithm === 'RS256'
+        ? generateKeyPairSync('rsa', {
+            modulusLength: 2048,
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+          })
+        : generateKeyPairSync('ec', {
+            namedCurve: 'P-256',
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+          })
+    const retiresAt: Date = new Date(
+      activatesAt.getTime() + jwtSettings.keyRotationInterval * 1000,
+    )
+    const key: JwtSigningKey = await this.signingKeysRepository.save(
+      this.signingKeysRepository.create({
+        kid: randomUUID(),
+        algorithm: jwtSettings.algorithm,
+        publicKey,
+        privateKey,
+        activatesAt,
+        retiresAt,
+        expiresAt: new Date(retiresAt.getTime() + accessTokenLifetime * 1000),
+      }),
+    )
+    this.logger.log(
+      `Created the ${key.algorithm} signing key ${key.kid}, signing from ${activatesAt.toISOString()}`,
+    )
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Interface for the failed login attempts recorded under a key
+ *
+ * - `failures`: The number of consecutive failed attempts.
+ * - `lockedUntil`: The end of the current lockout (`null` if there is none).
+ * - `expiresAt`: The date after which the record is forgotten (no failure for a while and no lockout).
+ */
+export interface LoginAttemptRecord {
+  failures: number
+  lockedUntil: Date | null
+  expiresAt: Date
+}
+
+/**
+ * LoginAttemptStore: Abstraction over the storage of the failed login attempts
+ *
+ * `LoginThrottleService` counts the failures of every account (`user:<name>`) and client IP
+ * (`ip:<address>`) in the store selected by the `LOGIN_ATTEMPT_STORE` environment variable:
+ *
+ * - `memory` (default): `MemoryLoginAttemptStore` keeps them in the process.
+ * - `database`: `DatabaseLoginAttemptStore` keeps them in the `login_attempts` table, shared by
+ *   every instance of the application and kept across restarts.
+ *
+ * Expired records are ignored and pruned by the stores. The abstract class doubles as the injection
+ * token of the store.
+ */
+export abstract class LoginAttemptStore {
+  /**
+   * Returns the record of a key
+   *
+   * @param key The account or IP key
+   * @returns A Promise resolving to the record, or `null` if there is none or it expired
+   */
+  abstract get(key: string): Promise<LoginAttemptRecord | null>
+
+  /**
+   * Counts a failed attempt
+   *
+   * The count starts again from 1 when the previous record expired.
+   *
+   * @param key The account or IP key
+   * @param expiresAt The new expiration date of the record
+   * @returns A Promise resolving to the updated record
+   */
+  abstract increment(key: string, expiresAt: Date): Promise<LoginAttemptRecord>
+
+  /**
+   * Locks a key until the given date
+   *
+   * The record is kept at least until the end of the lockout.
+   *
+   * @param key The account or IP key
+   * @param lockedUntil The end of the lockout
+   */
+  abstract lock(key: string, lockedUntil: Date): Promise<void>
+
+  /**
+   * Forgets the record of a key (after a successful login or an unlock)
+   *
+   * @param key The account or IP key
+   */
+  abstract reset(key: string): Promise<void>
+}
@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { HttpStatus } from '@nestjs/common'
+import { LoginThrottleService } from './login-throttle.service'
+import { LoginAttemptStore } from './login-attempt-store'
+import { MemoryLoginAttemptStore } from './memory.login-attempt-store'
+import { AuditService } from 'src/audit/audit.service'
+import {
+  AuditActions,
+  AuditOutcomes,
+} from 'src/audit/entities/audit-log.entity'
+import { loginThrottleSettings } from 'src/shared/constants'
+
+/**
+ * Unit test suite for LoginThrottleService.
+ * The failures are counted in a memory store and the clock is faked; the audit log is mocked.
+ */
+describe('LoginThrottleService', () => {
+  const { maxAccountFailures, maxIpFailures, baseLockout, maxLockout } =
+    loginThrottleSettings
+  let service: LoginThrottleService
+  let auditService: Record<string, jest.Mock>
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    auditService = { record: jest.fn() }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        { provide: LoginAttemptStore, useValue: new MemoryLoginAttemptStore() },
+        { provide: AuditService, useValue: auditService },
+      ],
+    }).compile()
+
+    service = module.get<LoginThrottleService>(LoginThrottleService)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  /**
+   * Records failed attempts
+   *
+   * @param count The number of failures
+   * @param userName The username of the attempts
+   * @param ip The IP address of the client
+   */
+  const fail = async (count: number, userName: string, ip?: string) => {
+    for (let i = 0; i < count; i++) {
+      await service.recordFailure(userName, ip)
+    }
+  }
+
+  /**
+   * Returns the lockout, in seconds, announced for an attempt (0 if it is allowed)
+   *
+   * @param userName The username of the attempt
+   * @param ip The IP address of the client
+   * @returns A Promise resolving to the seconds to wait
+   */
+  const getRetryAfter = async (userName: string, ip?: string) => {
+    try {
+      await service.assertAllowed(userName, ip)
+      return 0
+    } catch (error) {
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS)
+      return Number(error.message.match(/try again in (\d+) seconds/)[1])
+    }
+  }
+
+  it('should lock an account once it reached its limit', async () => {
+    await fail(maxAccountFailures - 1, 'luke', '10.0.0.1')
+    expect(await getRetryAfter('luke', '10.0.0.1')).toBe(0)
+
+    await fail(1, 'luke', '10.0.0.1')
+
+    expect(await getRetryAfter('luke', '10.0.0.1')).toBe(baseLockout)
+    expect(auditService.record).toHaveBeenCalledWith({
+      action: AuditActions.LoginLocked,
+      outcome: AuditOutcomes.Failure,
+      target: 'user:luke',
+      ip: null,
+      details: { failures: maxAccountFailures, lockout: baseLockout },
+    })
+  })
+
+  it('should double the lockout with every further failure', async () => {
+    await fail(maxAccountFailures, 'luke')
+
+    await fail(1, 'luke')
+    expect(await getRetryAfter('luke')).toBe(baseLockout * 2)
+
+    await fail(1, 'luke')
+    expect(await getRetryAfter('luke')).toBe(baseLockout * 4)
+  })
+
+  it('should cap the lockout', async () => {
+    await fail(maxAccountFailures + 20, 'luke')
+
+    expect(await getRetryAfter('luke')).toBe(maxLockout)
+    expect(auditService.record).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        details: { failures: maxAccountFailures + 20, lockout: maxLockout },
+      }),
+    )
+  })
+
+  it('should allow the attempts again once the lockout is over', async () => {
+    await fail(maxAccountFailures, 'luke')
+
+    jest.advanceTimersByTime(baseLockout * 1000)
+
+    expect(await getRetryAfter('luke')).toBe(0)
+  })
+
+  it('should start counting again after the failure window', async () => {
+    await fail(maxAccountFailures - 1, 'luke')
+
+    jest.advanceTimersByTime(loginThrottleSettings.failureWindow * 1000)
+    await fail(maxAccountFailures - 1, 'luke')
+
+    expect(await getRetryAfter('luke')).toBe(0)
+    expect(auditService.record).not.toHaveBeenCalled()
+  })
+
+  it('should keep counting the failures within the window', async () => {
+    await fail(maxAccountFailures - 1, 'luke')
+
+    jest.advanceTimersByTime(loginThrottleSettings.failureWindow * 1000 - 1000)
+    await fail(1, 'luke')
+
+    expect(await getRetryAfter('luke')).toBe(baseLockout)
+  })
+
+  it('should lock an account whatever the IP and the case of the username', async () => {
+    for (let i = 0; i < maxAccountFailures; i++) {
+      await service.recordFailure(i % 2 ? 'Luke' : 'LUKE', `10.0.0.${i}`)
+    }
+
+    expect(await getRetryAfter('luke', '10.0.1.1')).toBe(baseLockout)
+    expect(await getRetryAfter('leia', '10.0.0.1')).toBe(0)
+  })
+
+  it('should lock an IP trying many accounts', async () => {
+    for (let i = 0; i < maxIpFailures; i++) {
+      await service.recordFailure(`user-${i}`, '10.0.0.1')
+    }
+
+    expect(await getRetryAfter('leia', '10.0.0.1')).toBe(baseLockout)
+    expect(await getRetryAfter('leia', '10.0.0.2')).toBe(0)
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ target: 'ip:10.0.0.1', ip: '10.0.0.1' }),
+    )
+  })
+
+  it('should announce the longest lockout of the account and the IP', async () => {
+    for (let i = 0; i < maxIpFailures + 1; i++) {
+      await service.recordFailure(`user-${i}`, '10.0.0.1')
+    }
+    await fail(maxAccountFailures, 'luke', '10.0.0.2')
+
+    expect(await getRetryAfter('luke', '10.0.0.1')).toBe(baseLockout * 2)
+  })
+
+  it('should clear the failures of the account but not of the IP on success', async () => {
+    await fail(maxAccountFailures - 1, 'luke', '10.0.0.1')
+    await fail(maxIpFailures - maxAccountFailures, 'leia', '10.0.0.1')
+
+    await service.recordSuccess('Luke')
+    await fail(1, 'luke', '10.0.0.1')
+
+    expect(await getRetryAfter('luke', '10.0.0.2')).toBe(0)
+    expect(await getRetryAfter('han', '10.0.0.1')).toBe(baseLockout)
+  })
+
+  it('should unlock an account', async () => {
+    await fail(maxAccountFailures, 'luke')
+
+    await service.unlock('luke')
+
+    expect(await getRetryAfter('luke')).toBe(0)
+  })
+})
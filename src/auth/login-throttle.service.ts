@@ -0,0 +1,139 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common'
+import { LoginAttemptRecord, LoginAttemptStore } from './login-attempt-store'
+import { loginThrottleSettings } from 'src/shared/constants'
+import { AuditService } from 'src/audit/audit.service'
+import {
+  AuditActions,
+  AuditOutcomes,
+} from 'src/audit/entities/audit-log.entity'
+
+/**
+ * LoginThrottleService: Brute-force protection of the login
+ *
+ * This service counts the failed login attempts of every account and of every client IP in the
+ * `LoginAttemptStore`. Once a key reaches its limit (`loginThrottleSettings`), it is locked for
+ * `baseLockout` seconds, and every further failure doubles the lockout up to `maxLockout`. Locked
+ * accounts and IPs are rejected with `429 Too Many Requests` before the password is even checked.
+ * A successful login clears the count of the account (not of the IP), and administrators can
+ * unlock an account. Every lockout is written to the audit log.
+ */
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    private readonly store: LoginAttemptStore,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Rejects a login attempt on a locked account or from a locked IP
+   *
+   * @param userName The username of the attempt
+   * @param ip The IP address of the client
+   * @throws HttpException 429 If the account or the IP is locked
+   */
+  async assertAllowed(userName: string, ip: string): Promise<void> {
+    const now: number = Date.now()
+    let retryAfter: number = 0
+    for (const key of this.getKeys(userName, ip)) {
+      const record: LoginAttemptRecord = await this.store.get(key)
+      if (record?.lockedUntil && record.lockedUntil.getTime() > now) {
+        retryAfter = Math.max(
+          retryAfter,
+          Math.ceil((record.lockedUntil.getTime() - now) / 1000),
+        )
+      }
+    }
+    if (retryAfter) {
+      throw new HttpException(
+        `Too many failed login attempts, try again in ${retryAfter} seconds`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      )
+    }
+  }
+
+  /**
+   * Counts a failed login attempt, and locks the account and/or IP that reached their limit
+   *
+   * @param userName The username of the attempt
+   * @param ip The IP address of the client
+   */
+  async recordFailure(userName: string, ip: string): Promise<void> {
+    const [accountKey, ipKey] = this.getKeys(userName, ip)
+    await this.countFailure(
+      accountKey,
+      loginThrottleSettings.maxAccountFailures,
+    )
+    if (ipKey) {
+      await this.countFailure(ipKey, loginThrottleSettings.maxIpFailures)
+    }
+  }
+
+  /**
+   * Clears the failed attempts of an account after a successful login
+   *
+   * @param userName The username of the account
+   */
+  async recordSuccess(userName: string): Promise<void> {
+    await this.store.reset(this.getAccountKey(userName))
+  }
+
+  /**
+   * Unlocks an account and clears its failed attempts
+   *
+   * @param userName The username of the account
+   */
+  async unlock(userName: string): Promise<void> {
+    await this.store.reset(this.getAccountKey(userName))
+  }
+
+  /**
+   * Counts a failure of a key and locks it once it reached the limit
+   *
+   * @param key The account or IP key
+   * @param maxFailures The failures allowed before a lockout
+   */
+  private async countFailure(key: string, maxFailures: number): Promise<void> {
+    const now: number = Date.now()
+    const record: LoginAttemptRecord = await this.store.increment(
+      key,
+      new Date(now + loginThrottleSettings.failureWindow * 1000),
+    )
+    if (record.failures < maxFailures) {
+      return
+    }
+    // Exponential backoff: every failure past the limit doubles the lockout
+    const lockout: number = Math.min(
+      loginThrottleSettings.baseLockout * 2 ** (record.failures - maxFailures),
+      loginThrottleSettings.maxLockout,
+    )
+    await this.store.lock(key, new Date(now + lockout * 1000))
+    await this.auditService.record({
+      action: AuditActions.LoginLocked,
+      outcome: AuditOutcomes.Failure,
+      target: key,
+      ip: key.startsWith('ip:') ? key.slice(3) : null,
+      details: { failures: record.failures, lockout },
+    })
+  }
+
+  /**
+   * Returns the keys of an attempt: the account and, if known, the client IP
+   *
+   * @param userName The username of the attempt
+   * @param ip The IP address of the client
+   * @returns The account key and the IP key
+   */
+  private getKeys(userName: string, ip: string): string[] {
+    return [this.getAccountKey(userName), ...(ip ? [`ip:${ip}`] : [])]
+  }
+
+  /**
+   * Returns the key of an account (usernames are compared case-insensitively, as by MySQL)
+   *
+   * @param userName The username of the account
+   * @returns The account key
+   */
+  private getAccountKey(userName: string): string {
+    return `user:${String(userName).toLowerCase()}`
+  }
+}
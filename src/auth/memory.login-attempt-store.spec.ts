@@ -0,0 +1,90 @@
+import { MemoryLoginAttemptStore } from './memory.login-attempt-store'
+
+/**
+ * Unit test suite for MemoryLoginAttemptStore.
+ * The clock is faked.
+ */
+describe('MemoryLoginAttemptStore', () => {
+  let store: MemoryLoginAttemptStore
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    store = new MemoryLoginAttemptStore()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  /**
+   * Returns the date some seconds from now
+   *
+   * @param seconds The number of seconds
+   * @returns The date
+   */
+  const inSeconds = (seconds: number) => new Date(Date.now() + seconds * 1000)
+
+  it('should count the failures of every key separately', async () => {
+    await store.increment('user:luke', inSeconds(60))
+    await store.increment('user:luke', inSeconds(60))
+    await store.increment('ip:10.0.0.1', inSeconds(60))
+
+    expect((await store.get('user:luke')).failures).toBe(2)
+    expect((await store.get('ip:10.0.0.1')).failures).toBe(1)
+    expect(await store.get('user:leia')).toBeNull()
+  })
+
+  it('should forget a record once it expired', async () => {
+    await store.increment('user:luke', inSeconds(60))
+
+    jest.advanceTimersByTime(60000)
+
+    expect(await store.get('user:luke')).toBeNull()
+    expect((await store.increment('user:luke', inSeconds(60))).failures).toBe(1)
+  })
+
+  it('should not shorten the life of a record', async () => {
+    await store.increment('user:luke', inSeconds(120))
+
+    const record = await store.increment('user:luke', inSeconds(60))
+
+    expect(record.expiresAt).toEqual(inSeconds(120))
+  })
+
+  it('should keep a locked record until the end of the lockout', async () => {
+    await store.increment('user:luke', inSeconds(60))
+    await store.lock('user:luke', inSeconds(300))
+
+    jest.advanceTimersByTime(120000)
+
+    expect(await store.get('user:luke')).toEqual({
+      failures: 1,
+      lockedUntil: new Date('2026-01-01T00:05:00Z'),
+      expiresAt: new Date('2026-01-01T00:05:00Z'),
+    })
+  })
+
+  it('should keep the lockout while counting further failures', async () => {
+    await store.increment('user:luke', inSeconds(60))
+    await store.lock('user:luke', inSeconds(30))
+
+    const record = await store.increment('user:luke', inSeconds(60))
+
+    expect(record.failures).toBe(2)
+    expect(record.lockedUntil).toEqual(inSeconds(30))
+  })
+
+  it('should not lock a key without a record', async () => {
+    await store.lock('user:luke', inSeconds(30))
+
+    expect(await store.get('user:luke')).toBeNull()
+  })
+
+  it('should forget a reset key', async () => {
+    await store.increment('user:luke', inSeconds(60))
+
+    await store.reset('user:luke')
+
+    expect(await store.get('user:luke')).toBeNull()
+  })
+})
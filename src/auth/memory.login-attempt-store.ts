@@ -0,0 +1,56 @@
+import { LoginAttemptRecord, LoginAttemptStore } from './login-attempt-store'
+
+/**
+ * MemoryLoginAttemptStore: Failed login attempts kept in memory
+ *
+ * This is the default store. The records are lost on restart and not shared between instances
+ * of the application; use the database store when several instances run behind a load balancer.
+ */
+export class MemoryLoginAttemptStore extends LoginAttemptStore {
+  private readonly records = new Map<string, LoginAttemptRecord>()
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const record: LoginAttemptRecord = this.records.get(key)
+    return record && record.expiresAt.getTime() > Date.now() ? record : null
+  }
+
+  async increment(key: string, expiresAt: Date): Promise<LoginAttemptRecord> {
+    this.prune()
+    const previous: LoginAttemptRecord = await this.get(key)
+    const record: LoginAttemptRecord = {
+      failures: (previous?.failures ?? 0) + 1,
+      lockedUntil: previous?.lockedUntil ?? null,
+      expiresAt: new Date(
+        Math.max(expiresAt.getTime(), previous?.expiresAt.getTime() ?? 0),
+      ),
+    }
+    this.records.set(key, record)
+    return record
+  }
+
+  async lock(key: string, lockedUntil: Date): Promise<void> {
+    const record: LoginAttemptRecord = this.records.get(key)
+    if (record) {
+      record.lockedUntil = lockedUntil
+      if (record.expiresAt < lockedUntil) {
+        record.expiresAt = lockedUntil
+      }
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.records.delete(key)
+  }
+
+  /**
+   * Removes the expired records, so that the map does not grow with every client ever seen
+   */
+  private prune() {
+    const now: number = Date.now()
+    for (const [key, record] of this.records) {
+      if (record.expiresAt.getTime() <= now) {
+        this.records.delete(key)
+      }
+    }
+  }
+}
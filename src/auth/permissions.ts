@@ -0,0 +1,80 @@
+import { UserRoles, entityClassesForFill } from 'src/shared/constants'
+
+/**
+ * Enum for the permissions checked on protected routes
+ *
+ * Permissions are named `<domain>:<action>`:
+ *
+ * - `<resource>:write`: Create, update and delete the resources of a type (REST and GraphQL).
+ * - `images:upload`, `images:delete`: Upload and delete the images of the resources.
+ * - `users:read`: List and view the user accounts (`/admin/users`).
+ * - `users:moderate`: Disable and enable accounts, force password resets.
+ * - `users:manage`: Change roles, register administrators and remove accounts.
+ * - `audit:read`: Read the security audit log (`/admin/audit`).
+ */
+export enum Permissions {
+  PeopleWrite = 'people:write',
+  FilmsWrite = 'films:write',
+  PlanetsWrite = 'planets:write',
+  SpeciesWrite = 'species:write',
+  StarshipsWrite = 'starships:write',
+  VehiclesWrite = 'vehicles:write',
+  ImagesUpload = 'images:upload',
+  ImagesDelete = 'images:delete',
+  UsersRead = 'users:read',
+  UsersModerate = 'users:moderate',
+  UsersManage = 'users:manage',
+  AuditRead = 'audit:read',
+}
+
+/**
+ * Write permission of every resource type, used by the generated GraphQL mutations
+ */
+export const resourceWritePermissions: Record<
+  keyof typeof entityClassesForFill,
+  Permissions
+> = {
+  people: Permissions.PeopleWrite,
+  films: Permissions.FilmsWrite,
+  planets: Permissions.PlanetsWrite,
+  species: Permissions.SpeciesWrite,
+  starships: Permissions.StarshipsWrite,
+  vehicles: Permissions.VehiclesWrite,
+}
+
+/**
+ * Permissions granted to each role
+ *
+ * - `user`: None; users can read the public resources and manage their own account.
+ * - `editor`: Writes the resources and uploads their images.
+ * - `moderator`: Moderates the user accounts and deletes images.
+ * - `admin`: Everything.
+ */
+export const rolePermissions: Record<UserRoles, Permissions[]> = {
+  [UserRoles.User]: [],
+  [UserRoles.Editor]: [
+    ...Object.values(resourceWritePermissions),
+    Permissions.ImagesUpload,
+  ],
+  [UserRoles.Moderator]: [
+    Permissions.ImagesDelete,
+    Permissions.UsersRead,
+    Permissions.UsersModerate,
+  ],
+  [UserRoles.Admin]: Object.values(Permissions),
+}
+
+/**
+ * Checks whether a role grants a set of permissions
+ *
+ * @param role The role of the user
+ * @param permissions The required permissions
+ * @returns `true` if the role grants every required permission
+ */
+export function hasPermissions(
+  role: string,
+  permissions: Permissions[],
+): boolean {
+  const granted: Permissions[] = rolePermissions[role as UserRoles] ?? []
+  return permissions.every((permission) => granted.includes(permission))
+}
@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { IsNull } from 'typeorm'
+import { createHash } from 'crypto'
+import { RefreshTokenService } from './refresh-token.service'
+import { RefreshToken } from './entities/refresh-token.entity'
+import { refreshTokenLifetime } from 'src/shared/constants'
+
+/**
+ * Computes the hash stored for a raw token
+ *
+ * @param token The raw refresh token
+ * @returns The SHA-256 hash of the token, hex-encoded
+ */
+const hash = (token: string): string =>
+  createHash('sha256').update(token).digest('hex')
+
+/**
+ * Unit test suite for RefreshTokenService.
+ * The repository is mocked; `save` returns the token with a generated ID.
+ */
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService
+  let repository: Record<string, jest.Mock>
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn((values) => Object.assign(new RefreshToken(), values)),
+      save: jest.fn(async (refreshToken) => ({ ...refreshToken, id: 'rt-2' })),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      findOne: jest.fn(),
+      find: jest.fn(),
+    }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        { provide: getRepositoryToken(RefreshToken), useValue: repository },
+      ],
+    }).compile()
+
+    service = module.get<RefreshTokenService>(RefreshTokenService)
+  })
+
+  /**
+   * Test suite for the `issue` method of RefreshTokenService.
+   */
+  describe('issue', () => {
+    it('should start a new family and store only the hash of the token', async () => {
+      const { token, refreshToken } = await service.issue(
+        'user-1',
+        undefined,
+        true,
+      )
+
+      expect(token).toMatch(/^[\w-]{64}$/)
+      expect(refreshToken).toEqual(
+        expect.objectContaining({
+          id: 'rt-2',
+          tokenHash: hash(token),
+          userId: 'user-1',
+          twoFactor: true,
+        }),
+      )
+      expect(refreshToken.family).toMatch(/^[0-9a-f-]{36}$/)
+      expect(repository.update).not.toHaveBeenCalled()
+    })
+
+    it('should expire the token after the refresh token lifetime', async () => {
+      const before: number = Date.now()
+      const { refreshToken } = await service.issue('user-1')
+
+      expect(refreshToken.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + refreshTokenLifetime * 1000,
+      )
+      expect(refreshToken.expiresAt.getTime()).toBeLessThanOrEqual(
+        Date.now() + refreshTokenLifetime * 1000,
+      )
+    })
+
+    it('should rotate a token within its family and link the replaced token', async () => {
+      const replaced = Object.assign(new RefreshToken(), {
+        id: 'rt-1',
+        family: 'sid-1',
+        twoFactor: true,
+      })
+
+      const { refreshToken } = await service.issue('user-1', replaced)
+
+      expect(refreshToken.family).toBe('sid-1')
+      expect(refreshToken.twoFactor).toBe(true)
+      expect(repository.update).toHaveBeenCalledWith('rt-1', {
+        replacedBy: 'rt-2',
+      })
+    })
+
+    it('should issue a different token every time', async () => {
+      const first = await service.issue('user-1')
+      const second = await service.issue('user-1')
+
+      expect(first.token).not.toBe(second.token)
+      expect(first.refreshToken.family).not.toBe(second.refreshToken.family)
+    })
+  })
+
+  /**
+   * Test suite for the `findByToken` method of RefreshTokenService.
+   */
+  describe('findByToken', () => {
+    it('should look the token up by its hash', async () => {
+      await service.findByToken('raw-token')
+
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { tokenHash: hash('raw-token') },
+      })
+    })
+  })
+
+  /**
+   * Test suite for the `markUsed` method of RefreshTokenService.
+   */
+  describe('markUsed', () => {
+    it('should revoke the token only if it is still active', async () => {
+      await expect(
+        service.markUsed(Object.assign(new RefreshToken(), { id: 'rt-1' })),
+      ).resolves.toBe(true)
+      expect(repository.update).toHaveBeenCalledWith(
+        { id: 'rt-1', revokedAt: IsNull() },
+        { revokedAt: expect.any(Date) },
+      )
+    })
+
+    it('should report a token already used or revoked', async () => {
+      repository.update.mockResolvedValue({ affected: 0 })
+
+      await expect(
+        service.markUsed(Object.assign(new RefreshToken(), { id: 'rt-1' })),
+      ).resolves.toBe(false)
+    })
+  })
+
+  /**
+   * Test suite for the `revokeFamily` method of RefreshTokenService.
+   */
+  describe('revokeFamily', () => {
+    it('should revoke every active token of the family', async () => {
+      await service.revokeFamily('sid-1')
+
+      expect(repository.update).toHaveBeenCalledWith(
+        { family: 'sid-1', revokedAt: IsNull() },
+        { revokedAt: expect.any(Date) },
+      )
+    })
+  })
+
+  /**
+   * Test suite for the `findActiveFamilies` method of RefreshTokenService.
+   */
+  describe('findActiveFamilies', () => {
+    it('should list every family with an active token once', async () => {
+      repository.find.mockResolvedValue([
+        { family: 'sid-1' },
+        { family: 'sid-2' },
+        { family: 'sid-1' },
+      ])
+
+      await expect(service.findActiveFamilies('user-1')).resolves.toEqual([
+        'sid-1',
+        'sid-2',
+      ])
+      expect(repository.find).toHaveBeenCalledWith({
+        select: { family: true },
+        where: { userId: 'user-1', revokedAt: IsNull() },
+      })
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { IsNull, Repository } from 'typeorm'
+import { createHash, randomBytes, randomUUID } from 'crypto'
+import { RefreshToken } from './entities/refresh-token.entity'
+import { refreshTokenLifetime } from 'src/shared/constants'
+
+/**
+ * RefreshTokenService: Storage of the refresh tokens
+ *
+ * This service issues, looks up and revokes refresh tokens. A refresh token is a random string
+ * returned to the client once; the database only keeps its SHA-256 hash. The rotation policy
+ * itself (single use, reuse detection) lives in `AuthService`.
+ */
+@Injectable()
+export class RefreshTokenService {
+  constructor(
+    @InjectRepository(RefreshToken)
+    private readonly refreshTokensRepository: Repository<RefreshToken>,
+  ) {}
+
+  /**
+   * Issues a new refresh token
+   *
+   * @param userId The ID of the user the token is issued to
+   * @param replaced The token rotated in exchange for the new one (the new token joins its family);
+   *                 a new family is started when omitted
+   * @param twoFactor Whether a new session was opened with a second factor (a rotated token keeps
+   *                  the value of its family)
+   * @returns A Promise resolving to the raw token and its stored entity
+   */
+  async issue(
+    userId: string,
+    replaced?: RefreshToken,
+    twoFactor: boolean = false,
+  ): Promise<{ token: string; refreshToken: RefreshToken }> {
+    const token: string = randomBytes(48).toString('base64url')
+    const refreshToken: RefreshToken = await this.refreshTokensRepository.save(
+      this.refreshTokensRepository.create({
+        tokenHash: this.hashToken(token),
+        family: replaced?.family ?? randomUUID(),
+        userId,
+        twoFactor: replaced?.twoFactor ?? twoFactor,
+        expiresAt: new Date(Date.now() + refreshTokenLifetime * 1000),
+      }),
+    )
+    if (replaced) {
+      await this.refreshTokensRepository.update(replaced.id, {
+        replacedBy: refreshToken.id,
+      })
+    }
+    return { token, refreshToken }
+  }
+
+  /**
+   * Finds a refresh token by its raw value
+   *
+   * @param token The raw refresh token sent by the client
+   * @returns A Promise resolving to the stored token, or `null` if it is unknown
+   */
+  async findByToken(token: string): Promise<RefreshToken | null> {
+    return this.refreshTokensRepository.findOne({
+      where: { tokenHash: this.hashToken(token) },
+    })
+  }
+
+  /**
+   * Marks an active refresh token as used
+   *
+   * The update only matches a token that is still active, so of two concurrent requests presenting
+   * the same token only one can use it.
+   *
+   * @param refreshToken The token to mark as used
+   * @returns A Promise resolving to `false` if the token had already been used or revoked
+   */
+  async markUsed(refreshToken: RefreshToken): Promise<boolean> {
+    const result = await this.refreshTokensRepository.update(
+      { id: refreshToken.id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    )
+    return result.affected === 1
+  }
+
+  /**
+   * Revokes every active token of a family
+   *
+   * @param family The family (session) ID
+   */
+  async revokeFamily(family: string): Promise<void> {
+    await this.refreshTokensRepository.update(
+      { family, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    )
+  }
+
+  /**
+   * Lists the families of a user that still have an active token
+   *
+   * @param userId The ID of the user
+   * @returns A Promise resolving to the family (session) IDs
+   */
+  async findActiveFamilies(userId: string): Promise<string[]> {
+    const refreshTokens: RefreshToken[] =
+      await this.refreshTokensRepository.find({
+        select: { family: true },
+        where: { userId, revokedAt: IsNull() },
+      })
+    return [...new Set(refreshTokens.map(({ family }) => family))]
+  }
+
+  /**
+   * Computes the stored hash of a raw token
+   *
+   * @param token The raw refresh token
+   * @returns The SHA-256 hash of the token, hex-encoded
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+}
@@ -0,0 +1,68 @@
+import { Strategy } from 'passport'
+import { Request } from 'express'
+import { PassportStrategy } from '@nestjs/passport'
+import { Injectable } from '@nestjs/common'
+import { AuthenticatedUser } from 'src/shared/constants'
+import { ApiKeyService } from '../api-key.service'
+
+/**
+ * Name of the request header carrying the API key
+ */
+export const apiKeyHeader: string = 'x-api-key'
+
+/**
+ * Passport strategy reading a key from the `X-API-Key` header
+ *
+ * The strategy fails (lets the next strategy try) when the header is missing, and hands the key
+ * to its verify callback otherwise.
+ */
+class HeaderApiKeyStrategy extends Strategy {
+  constructor(
+    private readonly verify: (
+      key: string,
+      done: (error: Error | null, user?: AuthenticatedUser) => void,
+    ) => void,
+  ) {
+    super()
+  }
+
+  authenticate(req: Request): void {
+    const key: string | string[] = req.headers[apiKeyHeader]
+    if (!key || typeof key !== 'string') {
+      return this.fail(401)
+    }
+    this.verify(key, (error, user) => {
+      if (error) return this.error(error)
+      if (!user) return this.fail(401)
+      this.success(user)
+    })
+  }
+}
+
+/**
+ * ApiKeyStrategy: API Key Authentication Strategy
+ *
+ * This class authenticates machine clients sending an API key in the `X-API-Key` header. It is
+ * tried after `JwtStrategy` by the global `JwtAuthGuard`, and sets the owner of the key, limited
+ * to its scopes, as `request.user`.
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(
+  HeaderApiKeyStrategy,
+  'api-key',
+) {
+  constructor(private apiKeyService: ApiKeyService) {
+    super()
+  }
+
+  /**
+   * Verifies the API key
+   *
+   * @param key The raw API key from the header
+   * @returns The owner of the key, with its ID and scopes
+   * @throws UnauthorizedException If the key is invalid, revoked or expired
+   */
+  async validate(key: string): Promise<AuthenticatedUser> {
+    return this.apiKeyService.authenticate(key)
+  }
+}
@@ -1,34 +1,68 @@
 import { ExtractJwt, Strategy } from 'passport-jwt'
 import { PassportStrategy } from '@nestjs/passport'
-import { Injectable } from '@nestjs/common'
-import { Payload } from 'src/shared/constants'
+import { Injectable, UnauthorizedException } from '@nestjs/common'
+import {
+  AuthenticatedUser,
+  Payload,
+  UserRoles,
+  jwtSettings,
+} from 'src/shared/constants'
+import { TokenRevocationService } from '../token-revocation.service'
+import { JwtKeyService } from '../jwt-key.service'
 
 /**
  * JwtStrategy: JWT Authentication Strategy
  *
  * This class implements the Passport JWT strategy for user authentication using a JSON Web Token (JWT).
- * It defines how the JWT is extracted from the request header, validates its signature using the secret key,
- * and retrieves the user information from the payload.
+ * It defines how the JWT is extracted from the request header, validates its signature against the key
+ * set of the `JwtKeyService` (the key named by its `kid` header, or the shared secret) along with its
+ * `iss` and `aud` claims, and retrieves the user information from the payload. Tokens on the revocation
+ * list (logged out sessions) are rejected, and so are the tokens that are not access tokens (the login
+ * challenge tokens).
  */
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
-  constructor() {
+  constructor(
+    private tokenRevocationService: TokenRevocationService,
+    jwtKeyService: JwtKeyService,
+  ) {
     super({
       // Extract JWT from the Authorization header as a Bearer token
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       // Don't ignore expiration (ensure token is not expired)
       ignoreExpiration: false,
-      // Use the JWT secret key from the environment variable
-      secretOrKey: process.env.JWT_SECRET,
+      // Look up the key the token was signed with
+      secretOrKeyProvider: (request, rawJwtToken: string, done) => {
+        jwtKeyService
+          .getVerificationKey(rawJwtToken)
+          .then((key) => done(null, key), done)
+      },
+      algorithms: jwtKeyService.algorithms,
+      issuer: jwtSettings.issuer,
+      audience: jwtSettings.audience,
     })
   }
 
   /**
    * Retrieves the 'user ID' and 'role' from the JWT package and returns them
    * @param payload JWT payload
-   * @returns An object with a user ID (userId) and a role (role)
+   * @returns An object with a user ID (userId), a role (role), the email verification status (emailVerified),
+   *          whether the session was opened with a second factor (twoFactor) and the session ID (sessionId)
+   * @throws UnauthorizedException If the token is not an access token, or the token or its session was revoked
    */
-  async validate(payload: Payload) {
-    return { userId: payload.sub, role: payload.role }
+  async validate(payload: Payload): Promise<AuthenticatedUser> {
+    if (payload.typ) {
+      throw new UnauthorizedException('Invalid token')
+    }
+    if (await this.tokenRevocationService.isRevoked(payload)) {
+      throw new UnauthorizedException('Token has been revoked')
+    }
+    return {
+      userId: payload.sub,
+      role: payload.role as UserRoles,
+      emailVerified: payload.emailVerified,
+      twoFactor: Boolean(payload.mfa),
+      sessionId: payload.sid,
+    }
   }
 }
@@ -1,4 +1,5 @@
 import { Strategy } from 'passport-local'
+import { Request } from 'express'
 import { PassportStrategy } from '@nestjs/passport'
 import { Injectable, UnauthorizedException } from '@nestjs/common'
 import { AuthService } from '../auth.service'
@@ -9,12 +10,13 @@ import { User } from 'src/user/entities/user.entity'
  *
  * This class implements the Passport local strategy for authenticating users based on username and password.
  * It defines the username field (which might be different from the default "username") and validates the
- * credentials against the user database using the injected `AuthService`.
+ * credentials against the user database using the injected `AuthService`. The request is passed to `validate`
+ * so that failed attempts can also be counted per client IP.
  */
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
   constructor(private authService: AuthService) {
-    super({ usernameField: `userName` }) // Configure the username field (since our field is different from the default value "username")
+    super({ usernameField: `userName`, passReqToCallback: true }) // Configure the username field (since our field is different from the default value "username")
   }
 
   /**
@@ -24,18 +26,26 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
    * It takes the username and password from the request and attempts to validate them against the user database
    * using the injected `AuthService`.
    *
+   * @param req The HTTP request, for the IP address of the client
    * @param username The username provided by the user
    * @param password The password provided by the user
    * @returns A Promise resolving to a User object if valid, otherwise throws an UnauthorizedException
    */
-  async validate(userName: string, password: string): Promise<User> {
+  async validate(
+    req: Request,
+    userName: string,
+    password: string,
+  ): Promise<User> {
     // Attempt to validate the user using the AuthService
-    const user: User = await this.authService.validateUser(userName, password)
+    const user: User = await this.authService.validateUser(
+      userName,
+      password,
+      req.ip,
+    )
     // If user is not found (validation fails), throw an UnauthorizedException
+    // (without telling whether the username exists)
     if (!user) {
-      throw new UnauthorizedException(
-        `loc.str:37 - User ${userName} was not validated!...`,
-      )
+      throw new UnauthorizedException('Invalid username or password')
     }
     return user
   }
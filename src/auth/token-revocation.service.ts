@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { In, LessThan, Repository } from 'typeorm'
+import { RevokedToken } from './entities/revoked-token.entity'
+import { Payload, accessTokenLifetime } from 'src/shared/constants'
+
+/**
+ * TokenRevocationService: Revocation list of the access tokens
+ *
+ * Access tokens are stateless JWTs, so logging out cannot delete them. Instead, their `jti` (a single
+ * token) or `sid` (every token of a session) is added to this list, which `JwtStrategy` consults
+ * before accepting a token. Entries are kept for the lifetime of an access
+ * token, after which the tokens they cover are expired anyway.
+ */
+@Injectable()
+export class TokenRevocationService {
+  constructor(
+    @InjectRepository(RevokedToken)
+    private readonly revokedTokensRepository: Repository<RevokedToken>,
+  ) {}
+
+  /**
+   * Adds a token ID or session ID to the revocation list
+   *
+   * Expired entries are pruned on the way.
+   *
+   * @param id The `jti` of an access token or the `sid` of a session
+   */
+  async revoke(id: string): Promise<void> {
+    const now: Date = new Date()
+    await this.revokedTokensRepository.delete({ expiresAt: LessThan(now) })
+    await this.revokedTokensRepository.save({
+      id,
+      expiresAt: new Date(now.getTime() + accessTokenLifetime * 1000),
+    })
+  }
+
+  /**
+   * Checks whether an access token was revoked
+   *
+   * @param payload The verified payload of the access token
+   * @returns A Promise resolving to `true` if the token or its session is on the revocation list
+   */
+  async isRevoked(payload: Payload): Promise<boolean> {
+    const ids: string[] = [payload.jti, payload.sid].filter(Boolean)
+    if (!ids.length) {
+      return false
+    }
+    return this.revokedTokensRepository.existsBy({ id: In(ids) })
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  computeTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from './totp'
+
+/**
+ * Secret of the test vectors of RFC 6238 (appendix B): the ASCII string `12345678901234567890`
+ */
+const rfcSecret: string = base32Encode(Buffer.from('12345678901234567890'))
+
+/**
+ * Unit test suite for the TOTP functions.
+ */
+describe('totp', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('base32', () => {
+    it('should encode and decode bytes (RFC 4648)', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI')
+      expect(base32Decode('mzxw6ytboi======').toString()).toBe('foobar')
+      expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    })
+
+    it('should refuse invalid characters', () => {
+      expect(() => base32Decode('MZXW1')).toThrow(
+        "Invalid base32 character '1'",
+      )
+    })
+  })
+
+  describe('computeTotp', () => {
+    it('should compute the codes of the RFC 6238 test vectors', () => {
+      // The RFC lists 8-digit codes: the 6-digit codes are their last 6 digits
+      expect(computeTotp(rfcSecret, getTotpStep(59000))).toBe('287082')
+      expect(computeTotp(rfcSecret, getTotpStep(1111111109000))).toBe('081804')
+      expect(computeTotp(rfcSecret, getTotpStep(2000000000000))).toBe('279037')
+    })
+  })
+
+  describe('verifyTotp', () => {
+    const now: number = 1111111109000
+    const step: number = getTotpStep(now)
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now })
+    })
+
+    it('should accept the code of the current step', () => {
+      expect(verifyTotp(rfcSecret, '081804')).toBe(step)
+      expect(verifyTotp(rfcSecret, ' 081 804 ')).toBe(step)
+    })
+
+    it('should accept the codes of the adjacent steps, for clock drift', () => {
+      expect(verifyTotp(rfcSecret, computeTotp(rfcSecret, step - 1))).toBe(
+        step - 1,
+      )
+      expect(verifyTotp(rfcSecret, computeTotp(rfcSecret, step + 1))).toBe(
+        step + 1,
+      )
+      expect(verifyTotp(rfcSecret, computeTotp(rfcSecret, step + 2))).toBeNull()
+    })
+
+    it('should refuse a code of a step already used', () => {
+      expect(verifyTotp(rfcSecret, '081804', step)).toBeNull()
+      expect(
+        verifyTotp(rfcSecret, computeTotp(rfcSecret, step + 1), step),
+      ).toBe(step + 1)
+    })
+
+    it('should refuse malformed and wrong codes', () => {
+      expect(verifyTotp(rfcSecret, '08180')).toBeNull()
+      expect(verifyTotp(rfcSecret, 'abcdef')).toBeNull()
+      expect(verifyTotp(rfcSecret, '000000')).toBeNull()
+    })
+  })
+
+  it('should generate 160-bit secrets', () => {
+    const secret: string = generateTotpSecret()
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(base32Decode(secret)).toHaveLength(20)
+  })
+
+  it('should build the otpauth URI of a secret', () => {
+    expect(buildOtpauthUri('SWAPI', 'luke skywalker', rfcSecret)).toBe(
+      `otpauth://totp/SWAPI:luke%20skywalker?secret=${rfcSecret}&issuer=SWAPI&algorithm=SHA1&digits=6&period=30`,
+    )
+  })
+})
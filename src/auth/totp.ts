@@ -0,0 +1,160 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+/**
+ * Time-based one-time passwords (TOTP, RFC 6238)
+ *
+ * The codes are the 6-digit HMAC-SHA1 codes of 30-second time steps used by the common
+ * authenticator apps. Secrets are exchanged base32-encoded (RFC 4648), in an `otpauth://` URI.
+ */
+
+const base32Alphabet: string = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const totpPeriod: number = 30
+const totpDigits: number = 6
+
+/**
+ * Encodes bytes in base32, without padding
+ *
+ * @param buffer The bytes to encode
+ * @returns The base32 string
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits: number = 0
+  let value: number = 0
+  let output: string = ''
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += base32Alphabet[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += base32Alphabet[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+/**
+ * Decodes a base32 string (case-insensitive, padding and spaces ignored)
+ *
+ * @param encoded The base32 string
+ * @returns The decoded bytes
+ */
+export function base32Decode(encoded: string): Buffer {
+  const bytes: number[] = []
+  let bits: number = 0
+  let value: number = 0
+  for (const char of encoded.toUpperCase().replace(/[\s=]/g, '')) {
+    const index: number = base32Alphabet.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character '${char}'`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+/**
+ * Generates a new TOTP secret (160 random bits, base32-encoded)
+ *
+ * @returns The secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+/**
+ * Computes the TOTP code of a time step
+ *
+ * @param secret The base32 secret
+ * @param step The time step (seconds since the epoch divided by 30)
+ * @returns The 6-digit code
+ */
+export function computeTotp(secret: string, step: number): string {
+  const counter: Buffer = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac: Buffer = createHmac('sha1', base32Decode(secret))
+    .update(counter)
+    .digest()
+  // Dynamic truncation (RFC 4226, section 5.3)
+  const offset: number = hmac[hmac.length - 1] & 15
+  const binary: number = hmac.readUInt32BE(offset) & 0x7fffffff
+  return String(binary % 10 ** totpDigits).padStart(totpDigits, '0')
+}
+
+/**
+ * Returns the current TOTP time step
+ *
+ * @param time The date in milliseconds (now by default)
+ * @returns The time step
+ */
+export function getTotpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / totpPeriod)
+}
+
+/**
+ * Verifies a TOTP code
+ *
+ * The codes of the previous and next steps are accepted too, to allow for clock drift. A step
+ * that was already used (`lastUsedStep`) or is older is refused, so that a code cannot be replayed.
+ *
+ * @param secret The base32 secret
+ * @param code The code entered by the user
+ * @param lastUsedStep The step of the last accepted code, if any
+ * @returns The matched step, or `null` if the code is wrong or was already used
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null,
+): number | null {
+  const normalized: string = String(code).replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) {
+    return null
+  }
+  const currentStep: number = getTotpStep()
+  for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+    if (lastUsedStep != null && step <= lastUsedStep) {
+      continue
+    }
+    if (
+      timingSafeEqual(
+        Buffer.from(computeTotp(secret, step)),
+        Buffer.from(normalized),
+      )
+    ) {
+      return step
+    }
+  }
+  return null
+}
+
+/**
+ * Builds the `otpauth://` URI of a secret, to be shown as a QR code to authenticator apps
+ *
+ * @param issuer The name of the service
+ * @param accountName The name of the account (e.g. the username)
+ * @param secret The base32 secret
+ * @returns The `otpauth://totp/...` URI
+ */
+export function buildOtpauthUri(
+  issuer: string,
+  accountName: string,
+  secret: string,
+): string {
+  const label: string = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`
+  const parameters = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(totpDigits),
+    period: String(totpPeriod),
+  })
+  return `otpauth://totp/${label}?${parameters.toString()}`
+}
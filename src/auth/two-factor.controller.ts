@@ -0,0 +1,145 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+} from '@nestjs/common'
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiTags } from '@nestjs/swagger'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { UserService } from 'src/user/user.service'
+import { TwoFactorService } from './two-factor.service'
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto'
+import { AllowUnverified } from './decorators/allow-unverified.decorator'
+
+/**
+ * TwoFactorController: TOTP two-factor authentication of the current user
+ *
+ * This controller lets a user enrol an authenticator app (`setup`, then `enable` with a first
+ * code), replace their recovery codes and disable two-factor authentication (wrong codes are
+ * throttled like failed logins). Enabling it turns `POST /auth/login` into a two-step login.
+ * Unverified accounts can use these routes too.
+ */
+@ApiTags('auth')
+@ApiBearerAuth()
+@AllowUnverified()
+@Controller('/auth/2fa')
+export class TwoFactorController {
+  constructor(
+    private readonly twoFactorService: TwoFactorService,
+    private readonly userService: UserService,
+  ) {}
+
+  /**
+   * Returns the two-factor authentication status of the current user
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @returns A Promise resolving to the status
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get your two-factor authentication status' })
+  async getStatus(@Req() req) {
+    return this.twoFactorService.getStatus(req.user.userId)
+  }
+
+  /**
+   * Starts the enrolment of an authenticator app
+   *
+   * The response contains the secret and the `otpauth://` URI to show as a QR code. Two-factor
+   * authentication is enabled once a first code is confirmed with `POST /auth/2fa/enable`.
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @returns A Promise resolving to the secret and its URI
+   */
+  @Post('/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start the enrolment of an authenticator app' })
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'Two-factor authentication is already enabled',
+  )
+  async setup(@Req() req) {
+    const user = await this.userService.getAccount(req.user.userId)
+    return this.twoFactorService.setup(user)
+  }
+
+  /**
+   * Enables two-factor authentication with a first code of the authenticator app
+   *
+   * The response contains the recovery codes, shown only once.
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @param body The code of the authenticator app (from request body)
+   * @returns A Promise resolving to the recovery codes
+   */
+  @Post('/enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Enable two-factor authentication' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'No enrolment is pending or the code is wrong',
+  )
+  async enable(@Req() req, @Body() body: TwoFactorCodeDto) {
+    return this.twoFactorService.enable(req.user.userId, body.code)
+  }
+
+  /**
+   * Replaces the recovery codes
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @param body A code of the authenticator app or a recovery code (from request body)
+   * @returns A Promise resolving to the new recovery codes
+   */
+  @Post('/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace your recovery codes' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Two-factor authentication is not enabled or the code is wrong',
+  )
+  @ApiProblemResponse(
+    HttpStatus.TOO_MANY_REQUESTS,
+    'Too many wrong codes, the account or the IP is locked',
+  )
+  async regenerateRecoveryCodes(@Req() req, @Body() body: TwoFactorCodeDto) {
+    const user = await this.userService.getAccount(req.user.userId)
+    return this.twoFactorService.regenerateRecoveryCodes(
+      user,
+      body.code,
+      req.ip,
+    )
+  }
+
+  /**
+   * Disables two-factor authentication (not allowed for administrators)
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @param body A code of the authenticator app or a recovery code (from request body)
+   * @returns A Promise resolving to a JSON object with a success message
+   */
+  @Post('/disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiProblemResponse(
+    HttpStatus.FORBIDDEN,
+    'Two-factor authentication is mandatory for administrators',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Two-factor authentication is not enabled or the code is wrong',
+  )
+  @ApiProblemResponse(
+    HttpStatus.TOO_MANY_REQUESTS,
+    'Too many wrong codes, the account or the IP is locked',
+  )
+  async disable(@Req() req, @Body() body: TwoFactorCodeDto) {
+    const user = await this.userService.getAccount(req.user.userId)
+    await this.twoFactorService.disable(user, body.code, req.ip)
+    return { message: 'Two-factor authentication disabled.' }
+  }
+}
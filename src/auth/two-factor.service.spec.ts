@@ -0,0 +1,253 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+} from '@nestjs/common'
+import { FindOperator } from 'typeorm'
+import { createHash } from 'crypto'
+import { TwoFactorService } from './two-factor.service'
+import { UserTwoFactor } from './entities/user-two-factor.entity'
+import { LoginThrottleService } from './login-throttle.service'
+import { User } from 'src/user/entities/user.entity'
+import { computeTotp, getTotpStep } from './totp'
+import { UserRoles, twoFactorSettings } from 'src/shared/constants'
+
+/**
+ * Secret of the tests (base32)
+ */
+const secret: string = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+/**
+ * Computes the stored hash of a recovery code, like `TwoFactorService`
+ *
+ * @param recoveryCode The recovery code
+ * @returns The SHA-256 hash of the code, hex-encoded
+ */
+function hashRecoveryCode(recoveryCode: string): string {
+  return createHash('sha256').update(recoveryCode).digest('hex')
+}
+
+/**
+ * Unit test suite for TwoFactorService.
+ * This test suite covers the enrolment, the verification of the TOTP and recovery codes (replays
+ * included), the deactivation of two-factor authentication and the throttling of the wrong codes.
+ */
+describe('TwoFactorService', () => {
+  let service: TwoFactorService
+  let repository: Record<string, jest.Mock>
+  let loginThrottleService: Record<string, jest.Mock>
+  let twoFactor: UserTwoFactor
+  let user: User
+
+  beforeEach(async () => {
+    twoFactor = {
+      userId: 'user-1',
+      secret,
+      enabledAt: new Date(),
+      recoveryCodes: [
+        hashRecoveryCode('aaaaa-11111'),
+        hashRecoveryCode('bbbbb-22222'),
+      ],
+      lastUsedStep: null,
+    } as UserTwoFactor
+    repository = {
+      findOne: jest.fn(async () => twoFactor),
+      existsBy: jest.fn(async () => Boolean(twoFactor?.enabledAt)),
+      save: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      delete: jest.fn(),
+    }
+    loginThrottleService = {
+      assertAllowed: jest.fn(),
+      recordFailure: jest.fn(),
+    }
+    user = {
+      id: 'user-1',
+      userName: 'luke',
+      role: UserRoles.User,
+    } as User
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: getRepositoryToken(UserTwoFactor), useValue: repository },
+        { provide: LoginThrottleService, useValue: loginThrottleService },
+      ],
+    }).compile()
+
+    service = module.get<TwoFactorService>(TwoFactorService)
+  })
+
+  it('should be defined', () => {
+    expect(service).toBeDefined()
+  })
+
+  /**
+   * Test suite for the `verify` method of TwoFactorService.
+   */
+  describe('verify', () => {
+    it('should accept the current TOTP code and record its step', async () => {
+      const step: number = getTotpStep()
+
+      await expect(
+        service.verify('user-1', computeTotp(secret, step)),
+      ).resolves.toBe(true)
+      expect(repository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1' }),
+        { lastUsedStep: step },
+      )
+    })
+
+    it('should refuse a TOTP code already accepted by a parallel request', async () => {
+      repository.update.mockResolvedValue({ affected: 0 })
+
+      await expect(
+        service.verify('user-1', computeTotp(secret, getTotpStep())),
+      ).resolves.toBe(false)
+    })
+
+    it('should consume an unused recovery code', async () => {
+      await expect(service.verify('user-1', 'AAAAA-11111')).resolves.toBe(true)
+      const [criteria, values] = repository.update.mock.calls[0]
+      expect(values).toEqual({
+        recoveryCodes: [hashRecoveryCode('bbbbb-22222')],
+      })
+      // The update only applies to the codes read, which still include this one
+      const condition: FindOperator<string> = criteria.recoveryCodes
+      expect(condition.type).toBe('raw')
+      expect(condition.objectLiteralParameters).toEqual({
+        recoveryCodes: JSON.stringify(twoFactor.recoveryCodes),
+      })
+    })
+
+    it('should refuse a recovery code consumed by a parallel request', async () => {
+      repository.update.mockResolvedValue({ affected: 0 })
+
+      await expect(service.verify('user-1', 'aaaaa-11111')).resolves.toBe(false)
+    })
+
+    it('should refuse unknown codes', async () => {
+      await expect(service.verify('user-1', 'ccccc-33333')).resolves.toBe(false)
+      await expect(service.verify('user-1', '000000')).resolves.toBe(false)
+      expect(repository.update).not.toHaveBeenCalled()
+    })
+
+    it('should refuse codes while two-factor authentication is not enabled', async () => {
+      twoFactor.enabledAt = null
+
+      await expect(service.verify('user-1', 'aaaaa-11111')).resolves.toBe(false)
+    })
+  })
+
+  /**
+   * Test suite for the `enable` method of TwoFactorService.
+   */
+  describe('enable', () => {
+    beforeEach(() => {
+      twoFactor.enabledAt = null
+      twoFactor.recoveryCodes = null
+    })
+
+    it('should enable two-factor authentication and return the recovery codes', async () => {
+      const result = await service.enable(
+        'user-1',
+        computeTotp(secret, getTotpStep()),
+      )
+
+      expect(result.recovery_codes).toHaveLength(
+        twoFactorSettings.recoveryCodeCount,
+      )
+      expect(result.recovery_codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/)
+      expect(repository.update).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({
+          recoveryCodes: result.recovery_codes.map(hashRecoveryCode),
+        }),
+      )
+    })
+
+    it('should throw BadRequestException for a wrong code', async () => {
+      await expect(service.enable('user-1', '000000')).rejects.toThrow(
+        BadRequestException,
+      )
+    })
+  })
+
+  /**
+   * Test suite for the `disable` method of TwoFactorService.
+   */
+  describe('disable', () => {
+    it('should refuse to disable the second factor of an administrator', async () => {
+      await expect(
+        service.disable(
+          { ...user, role: UserRoles.Admin } as User,
+          'aaaaa-11111',
+        ),
+      ).rejects.toThrow(ForbiddenException)
+      expect(repository.delete).not.toHaveBeenCalled()
+    })
+
+    it('should disable it with a valid code', async () => {
+      await service.disable(user, 'aaaaa-11111', '10.0.0.1')
+
+      expect(loginThrottleService.assertAllowed).toHaveBeenCalledWith(
+        'luke',
+        '10.0.0.1',
+      )
+      expect(loginThrottleService.recordFailure).not.toHaveBeenCalled()
+      expect(repository.delete).toHaveBeenCalledWith('user-1')
+    })
+
+    it('should count a wrong code as a failed login attempt', async () => {
+      await expect(
+        service.disable(user, 'zzzzz-00000', '10.0.0.1'),
+      ).rejects.toThrow(BadRequestException)
+      expect(loginThrottleService.recordFailure).toHaveBeenCalledWith(
+        'luke',
+        '10.0.0.1',
+      )
+      expect(repository.delete).not.toHaveBeenCalled()
+    })
+
+    it('should refuse a locked account before checking the code', async () => {
+      loginThrottleService.assertAllowed.mockRejectedValue(
+        new HttpException('Too many failed login attempts', 429),
+      )
+
+      await expect(
+        service.disable(user, 'aaaaa-11111', '10.0.0.1'),
+      ).rejects.toMatchObject({ status: 429 })
+      expect(repository.findOne).not.toHaveBeenCalled()
+      expect(repository.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Test suite for the `regenerateRecoveryCodes` method of TwoFactorService.
+   */
+  describe('regenerateRecoveryCodes', () => {
+    it('should replace the recovery codes with a valid code', async () => {
+      const { recovery_codes } = await service.regenerateRecoveryCodes(
+        user,
+        'aaaaa-11111',
+      )
+
+      expect(recovery_codes).toHaveLength(twoFactorSettings.recoveryCodeCount)
+      expect(repository.update).toHaveBeenLastCalledWith('user-1', {
+        recoveryCodes: recovery_codes.map(hashRecoveryCode),
+      })
+    })
+
+    it('should count a wrong code as a failed login attempt', async () => {
+      await expect(
+        service.regenerateRecoveryCodes(user, 'zzzzz-00000', '10.0.0.1'),
+      ).rejects.toThrow(BadRequestException)
+      expect(loginThrottleService.recordFailure).toHaveBeenCalledWith(
+        'luke',
+        '10.0.0.1',
+      )
+      expect(repository.update).not.toHaveBeenCalled()
+    })
+  })
+})
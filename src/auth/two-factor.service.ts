@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { IsNull, LessThan, Not, Or, Raw, Repository } from 'typeorm'
+import { createHash, randomBytes } from 'crypto'
+import { UserTwoFactor } from './entities/user-two-factor.entity'
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp'
+import { User } from 'src/user/entities/user.entity'
+import { UserRoles, twoFactorSettings } from 'src/shared/constants'
+import { LoginThrottleService } from './login-throttle.service'
+
+/**
+ * TwoFactorService: TOTP two-factor authentication of the users
+ *
+ * This service handles the enrolment (a new secret and its `otpauth://` URI, confirmed with a first
+ * code), the recovery codes, and the verification of the second factor at login. Two-factor
+ * authentication is optional for every user, and mandatory for administrators: their sessions only
+ * get administrator access when they were opened with a second factor (see `JwtAuthGuard`). The
+ * wrong codes sent to disable it or to replace the recovery codes are counted by the
+ * `LoginThrottleService`, like the failed logins.
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectRepository(UserTwoFactor)
+    private readonly twoFactorRepository: Repository<UserTwoFactor>,
+    private readonly loginThrottleService: LoginThrottleService,
+  ) {}
+
+  /**
+   * Returns the two-factor authentication status of a user
+   *
+   * @param userId The ID of the user
+   * @returns A Promise resolving to whether it is enabled, whether an enrolment is pending, and the
+   *          number of unused recovery codes
+   */
+  async getStatus(userId: string): Promise<{
+    enabled: boolean
+    pending: boolean
+    recovery_codes_left: number
+  }> {
+    const twoFactor: UserTwoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    })
+    return {
+      enabled: Boolean(twoFactor?.enabledAt),
+      pending: Boolean(twoFactor && !twoFactor.enabledAt),
+      recovery_codes_left: twoFactor?.recoveryCodes?.length ?? 0,
+    }
+  }
+
+  /**
+   * Checks whether a user has enabled two-factor authentication
+   *
+   * @param userId The ID of the user
+   * @returns A Promise resolving to `true` if the login requires a second factor
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    return this.twoFactorRepository.existsBy({
+      userId,
+      enabledAt: Not(IsNull()),
+    })
+  }
+
+  /**
+   * Starts the enrolment of a user
+   *
+   * A new secret replaces the one of a pending enrolment. Two-factor authentication is only
+   * enforced once a first code was confirmed with `enable`.
+   *
+   * @param user The user
+   * @returns A Promise resolving to the base32 secret and its `otpauth://` URI
+   * @throws ConflictException If two-factor authentication is already enabled
+   */
+  async setup(user: User): Promise<{ secret: string; otpauth_uri: string }> {
+    if (await this.isEnabled(user.id)) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      )
+    }
+    const secret: string = generateTotpSecret()
+    await this.twoFactorRepository.save({
+      userId: user.id,
+      secret,
+      enabledAt: null,
+      recoveryCodes: null,
+      lastUsedStep: null,
+    })
+    return {
+      secret,
+      otpauth_uri: buildOtpauthUri(
+        twoFactorSettings.issuer,
+        user.userName,
+        secret,
+      ),
+    }
+  }
+
+  /**
+   * Confirms the enrolment with a first code and enables two-factor authentication
+   *
+   * @param userId The ID of the user
+   * @param code A code of the authenticator app
+   * @returns A Promise resolving to the recovery codes, returned only this once
+   * @throws BadRequestException If no enrolment is pending or the code is wrong
+   */
+  async enable(
+    userId: string,
+    code: string,
+  ): Promise<{ recovery_codes: string[] }> {
+    const twoFactor: UserTwoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    })
+    if (!twoFactor || twoFactor.enabledAt) {
+      throw new BadRequestException(
+        'Start the enrolment with POST /auth/2fa/setup first',
+      )
+    }
+    const step: number | null = verifyTotp(twoFactor.secret, code)
+    if (step === null) {
+      throw new BadRequestException('Invalid two-factor code')
+    }
+    const recoveryCodes: string[] = this.generateRecoveryCodes()
+    await this.twoFactorRepository.update(userId, {
+      enabledAt: new Date(),
+      lastUsedStep: step,
+      recoveryCodes: recoveryCodes.map((recoveryCode) =>
+        this.hashRecoveryCode(recoveryCode),
+      ),
+    })
+    return { recovery_codes: recoveryCodes }
+  }
+
+  /**
+   * Disables the two-factor authentication of a user
+   *
+   * @param user The user
+   * @param code A code of the authenticator app or a recovery code
+   * @param ip IP address of the client
+   * @throws ForbiddenException If the user is an administrator (two-factor authentication is mandatory)
+   * @throws BadRequestException If two-factor authentication is not enabled or the code is wrong
+   * @throws HttpException 429 If the account or the IP is locked after too many failed attempts
+   */
+  async disable(user: User, code: string, ip?: string): Promise<void> {
+    if (user.role === UserRoles.Admin) {
+      throw new ForbiddenException(
+        'Two-factor authentication is mandatory for administrators',
+      )
+    }
+    await this.assertCode(user, code, ip)
+    await this.twoFactorRepository.delete(user.id)
+  }
+
+  /**
+   * Replaces the recovery codes of a user
+   *
+   * @param user The user
+   * @param code A code of the authenticator app or a recovery code
+   * @param ip IP address of the client
+   * @returns A Promise resolving to the new recovery codes, returned only this once
+   * @throws BadRequestException If two-factor authentication is not enabled or the code is wrong
+   * @throws HttpException 429 If the account or the IP is locked after too many failed attempts
+   */
+  async regenerateRecoveryCodes(
+    user: User,
+    code: string,
+    ip?: string,
+  ): Promise<{ recovery_codes: string[] }> {
+    await this.assertCode(user, code, ip)
+    const recoveryCodes: string[] = this.generateRecoveryCodes()
+    await this.twoFactorRepository.update(user.id, {
+      recoveryCodes: recoveryCodes.map((recoveryCode) =>
+        this.hashRecoveryCode(recoveryCode),
+      ),
+    })
+    return { recovery_codes: recoveryCodes }
+  }
+
+  /**
+   * Verifies the second factor of a user: a TOTP code or an unused recovery code
+   *
+   * An accepted TOTP code cannot be used again, and an accepted recovery code is consumed.
+   *
+   * @param userId The ID of the user
+   * @param code The code entered by the user
+   * @returns A Promise resolving to `true` if the code was accepted
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const twoFactor: UserTwoFactor = await this.twoFactorRepository.findOne({
+      where: { userId },
+    })
+    if (!twoFactor?.enabledAt) {
+      return false
+    }
+    const step: number | null = verifyTotp(
+      twoFactor.secret,
+      code,
+      twoFactor.lastUsedStep,
+    )
+    if (step !== null) {
+      // Conditional update: of two requests with the same code, only one is accepted
+      const result = await this.twoFactorRepository.update(
+        { userId, lastUsedStep: Or(IsNull(), LessThan(step)) },
+        { lastUsedStep: step },
+      )
+      return result.affected === 1
+    }
+    const hash: string = this.hashRecoveryCode(code)
+    if (!twoFactor.recoveryCodes?.includes(hash)) {
+      return false
+    }
+    // Conditional update on the codes read above: of two requests with the same recovery code (or
+    // two codes at once), only the first one changing them is accepted
+    const result = await this.twoFactorRepository.update(
+      {
+        userId,
+        recoveryCodes: Raw((column) => `${column} = :recoveryCodes`, {
+          recoveryCodes: JSON.stringify(twoFactor.recoveryCodes),
+        }),
+      },
+      {
+        recoveryCodes: twoFactor.recoveryCodes.filter(
+          (recoveryCode) => recoveryCode !== hash,
+        ),
+      },
+    )
+    return result.affected === 1
+  }
+
+  /**
+   * Verifies a code of a user with enabled two-factor authentication
+   *
+   * Attempts on a locked account or from a locked IP are rejected first, and every wrong code is
+   * counted by the `LoginThrottleService`, so the codes cannot be guessed with a stolen session.
+   *
+   * @param user The user
+   * @param code A code of the authenticator app or a recovery code
+   * @param ip IP address of the client
+   * @throws BadRequestException If two-factor authentication is not enabled or the code is wrong
+   * @throws HttpException 429 If the account or the IP is locked after too many failed attempts
+   */
+  private async assertCode(
+    user: User,
+    code: string,
+    ip?: string,
+  ): Promise<void> {
+    if (!(await this.isEnabled(user.id))) {
+      throw new BadRequestException('Two-factor authentication is not enabled')
+    }
+    await this.loginThrottleService.assertAllowed(user.userName, ip)
+    if (!(await this.verify(user.id, code))) {
+      await this.loginThrottleService.recordFailure(user.userName, ip)
+      throw new BadRequestException('Invalid two-factor code')
+    }
+  }
+
+  /**
+   * Generates a new set of recovery codes (`xxxxx-xxxxx`, hexadecimal)
+   *
+   * @returns The recovery codes
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: twoFactorSettings.recoveryCodeCount }, () => {
+      const hex: string = randomBytes(5).toString('hex')
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`
+    })
+  }
+
+  /**
+   * Computes the stored hash of a recovery code (case and spaces are ignored)
+   *
+   * @param recoveryCode The recovery code
+   * @returns The SHA-256 hash of the code, hex-encoded
+   */
+  private hashRecoveryCode(recoveryCode: string): string {
+    return createHash('sha256')
+      .update(String(recoveryCode).toLowerCase().replace(/\s/g, ''))
+      .digest('hex')
+  }
+}
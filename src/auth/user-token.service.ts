@@ -0,0 +1,83 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { IsNull, MoreThan, Repository } from 'typeorm'
+import { createHash, randomBytes } from 'crypto'
+import { UserToken, UserTokenPurposes } from './entities/user-token.entity'
+import { userTokenLifetimes } from 'src/shared/constants'
+
+/**
+ * UserTokenService: Single-use tokens sent by email
+ *
+ * This service issues and consumes the email verification and password reset tokens. Issuing
+ * a token invalidates the previous unused tokens of the same purpose, so only the latest email
+ * works; consuming a token marks it as used in the same conditional update that checks it.
+ */
+@Injectable()
+export class UserTokenService {
+  constructor(
+    @InjectRepository(UserToken)
+    private readonly userTokensRepository: Repository<UserToken>,
+  ) {}
+
+  /**
+   * Issues a new token
+   *
+   * @param userId The ID of the user
+   * @param purpose What the token can be used for
+   * @returns A Promise resolving to the raw token, to send to the user
+   */
+  async issue(userId: string, purpose: UserTokenPurposes): Promise<string> {
+    const now: Date = new Date()
+    // Supersede the tokens sent before
+    await this.userTokensRepository.update(
+      { userId, purpose, usedAt: IsNull() },
+      { usedAt: now },
+    )
+    const token: string = randomBytes(32).toString('base64url')
+    await this.userTokensRepository.save({
+      tokenHash: this.hashToken(token),
+      purpose,
+      userId,
+      expiresAt: new Date(now.getTime() + userTokenLifetimes[purpose] * 1000),
+    })
+    return token
+  }
+
+  /**
+   * Consumes a token
+   *
+   * @param token The raw token sent by the user
+   * @param purpose The purpose the token must have
+   * @returns A Promise resolving to the ID of the user the token was issued to
+   * @throws BadRequestException If the token is unknown, expired, already used or has another purpose
+   */
+  async consume(token: string, purpose: UserTokenPurposes): Promise<string> {
+    const tokenHash: string = this.hashToken(token)
+    const result = await this.userTokensRepository.update(
+      {
+        tokenHash,
+        purpose,
+        usedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      { usedAt: new Date() },
+    )
+    if (result.affected !== 1) {
+      throw new BadRequestException('Invalid or expired token')
+    }
+    const userToken: UserToken = await this.userTokensRepository.findOne({
+      where: { tokenHash },
+    })
+    return userToken.userId
+  }
+
+  /**
+   * Computes the stored hash of a raw token
+   *
+   * @param token The raw token
+   * @returns The SHA-256 hash of the token, hex-encoded
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+}
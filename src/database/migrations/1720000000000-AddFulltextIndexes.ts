@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddFulltextIndexes1720000000000 implements MigrationInterface {
+  name = 'AddFulltextIndexes1720000000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // FULLTEXT indexes used by `?search=` on the list endpoints and by `GET /search`
+    await queryRunner.query(
+      `CREATE FULLTEXT INDEX \`FT_people_name\` ON \`people\` (\`name\`)`,
+    )
+    await queryRunner.query(
+      `CREATE FULLTEXT INDEX \`FT_films_title\` ON \`films\` (\`title\`)`,
+    )
+    await queryRunner.query(
+      `CREATE FULLTEXT INDEX \`FT_planets_name\` ON \`planets\` (\`name\`)`,
+    )
+    await queryRunner.query(
+      `CREATE FULLTEXT INDEX \`FT_species_name\` ON \`species\` (\`name\`)`,
+    )
+    await queryRunner.query(
+      `CREATE FULLTEXT INDEX \`FT_starships_name_model\` ON \`starships\` (\`name\`, \`model\`)`,
+    )
+    await queryRunner.query(
+      `CREATE FULLTEXT INDEX \`FT_vehicles_name_model\` ON \`vehicles\` (\`name\`, \`model\`)`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX \`FT_vehicles_name_model\` ON \`vehicles\``,
+    )
+    await queryRunner.query(
+      `DROP INDEX \`FT_starships_name_model\` ON \`starships\``,
+    )
+    await queryRunner.query(`DROP INDEX \`FT_species_name\` ON \`species\``)
+    await queryRunner.query(`DROP INDEX \`FT_planets_name\` ON \`planets\``)
+    await queryRunner.query(`DROP INDEX \`FT_films_title\` ON \`films\``)
+    await queryRunner.query(`DROP INDEX \`FT_people_name\` ON \`people\``)
+  }
+}
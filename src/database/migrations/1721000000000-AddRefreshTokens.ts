@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddRefreshTokens1721000000000 implements MigrationInterface {
+  name = 'AddRefreshTokens1721000000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Hashed refresh tokens, grouped in families (one per login session)
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`refresh_tokens\` (
+            \`id\` varchar(36) NOT NULL,
+            \`tokenHash\` varchar(64) NOT NULL,
+            \`family\` varchar(36) NOT NULL,
+            \`userId\` varchar(36) NOT NULL,
+            \`expiresAt\` datetime NOT NULL,
+            \`revokedAt\` datetime NULL,
+            \`replacedBy\` varchar(36) NULL,
+            \`created\` datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+            UNIQUE INDEX \`IDX_refresh_tokens_tokenHash\` (\`tokenHash\`),
+            INDEX \`IDX_refresh_tokens_family\` (\`family\`),
+            PRIMARY KEY (\`id\`)) ENGINE=InnoDB`)
+    await queryRunner.query(
+      `ALTER TABLE \`refresh_tokens\` ADD CONSTRAINT \`FK_refresh_tokens_userId\` FOREIGN KEY (\`userId\`) REFERENCES \`users\`(\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    // Revocation list of the access tokens (token IDs and session IDs)
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`revoked_tokens\` (
+            \`id\` varchar(36) NOT NULL,
+            \`expiresAt\` datetime NOT NULL,
+            INDEX \`IDX_revoked_tokens_expiresAt\` (\`expiresAt\`),
+            PRIMARY KEY (\`id\`)) ENGINE=InnoDB`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE \`revoked_tokens\``)
+    await queryRunner.query(
+      `ALTER TABLE \`refresh_tokens\` DROP FOREIGN KEY \`FK_refresh_tokens_userId\``,
+    )
+    await queryRunner.query(`DROP TABLE \`refresh_tokens\``)
+  }
+}
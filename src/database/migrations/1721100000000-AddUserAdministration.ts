@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddUserAdministration1721100000000 implements MigrationInterface {
+  name = 'AddUserAdministration1721100000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE \`users\` ADD \`isDisabled\` tinyint NOT NULL DEFAULT 0`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE \`users\` ADD \`passwordResetRequired\` tinyint NOT NULL DEFAULT 0`,
+    )
+    // History of the actions taken by administrators on user accounts
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`user_admin_actions\` (
+            \`id\` int NOT NULL AUTO_INCREMENT,
+            \`userId\` varchar(36) NOT NULL,
+            \`adminId\` varchar(36) NOT NULL,
+            \`action\` enum ('role_changed', 'disabled', 'enabled', 'password_reset') NOT NULL,
+            \`details\` varchar(255) NULL,
+            \`created\` datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+            INDEX \`IDX_user_admin_actions_userId\` (\`userId\`),
+            PRIMARY KEY (\`id\`)) ENGINE=InnoDB`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE \`user_admin_actions\``)
+    await queryRunner.query(
+      `ALTER TABLE \`users\` DROP COLUMN \`passwordResetRequired\``,
+    )
+    await queryRunner.query(`ALTER TABLE \`users\` DROP COLUMN \`isDisabled\``)
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddEmailVerification1721200000000 implements MigrationInterface {
+  name = 'AddEmailVerification1721200000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE \`users\` ADD \`isEmailVerified\` tinyint NOT NULL DEFAULT 0`,
+    )
+    // Accounts created before email verification keep their write access
+    await queryRunner.query(`UPDATE \`users\` SET \`isEmailVerified\` = 1`)
+    // Hashed single-use tokens sent by email (verification, password reset)
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`user_tokens\` (
+            \`id\` varchar(36) NOT NULL,
+            \`tokenHash\` varchar(64) NOT NULL,
+            \`purpose\` enum ('email_verification', 'password_reset') NOT NULL,
+            \`userId\` varchar(36) NOT NULL,
+            \`expiresAt\` datetime NOT NULL,
+            \`usedAt\` datetime NULL,
+            \`created\` datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+            UNIQUE INDEX \`IDX_user_tokens_tokenHash\` (\`tokenHash\`),
+            PRIMARY KEY (\`id\`)) ENGINE=InnoDB`)
+    await queryRunner.query(
+      `ALTER TABLE \`user_tokens\` ADD CONSTRAINT \`FK_user_tokens_userId\` FOREIGN KEY (\`userId\`) REFERENCES \`users\`(\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE \`user_tokens\` DROP FOREIGN KEY \`FK_user_tokens_userId\``,
+    )
+    await queryRunner.query(`DROP TABLE \`user_tokens\``)
+    await queryRunner.query(
+      `ALTER TABLE \`users\` DROP COLUMN \`isEmailVerified\``,
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddEditorAndModeratorRoles1721300000000
+  implements MigrationInterface
+{
+  name = 'AddEditorAndModeratorRoles1721300000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE \`users\` MODIFY \`role\` enum ('user', 'editor', 'moderator', 'admin') NOT NULL DEFAULT 'user'`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Editors and moderators become plain users again
+    await queryRunner.query(
+      `UPDATE \`users\` SET \`role\` = 'user' WHERE \`role\` IN ('editor', 'moderator')`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE \`users\` MODIFY \`role\` enum ('user', 'admin') NOT NULL DEFAULT 'user'`,
+    )
+  }
+}
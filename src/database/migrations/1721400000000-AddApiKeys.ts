@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddApiKeys1721400000000 implements MigrationInterface {
+  name = 'AddApiKeys1721400000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Hashed API keys owned by the users, for machine clients
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`api_keys\` (
+            \`id\` varchar(36) NOT NULL,
+            \`name\` varchar(100) NOT NULL,
+            \`prefix\` varchar(16) NOT NULL,
+            \`keyHash\` varchar(64) NOT NULL,
+            \`scopes\` text NOT NULL,
+            \`userId\` varchar(36) NOT NULL,
+            \`expiresAt\` datetime NOT NULL,
+            \`lastUsedAt\` datetime NULL,
+            \`revokedAt\` datetime NULL,
+            \`created\` datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+            UNIQUE INDEX \`IDX_api_keys_keyHash\` (\`keyHash\`),
+            INDEX \`IDX_api_keys_userId\` (\`userId\`),
+            PRIMARY KEY (\`id\`)) ENGINE=InnoDB`)
+    await queryRunner.query(
+      `ALTER TABLE \`api_keys\` ADD CONSTRAINT \`FK_api_keys_userId\` FOREIGN KEY (\`userId\`) REFERENCES \`users\`(\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE \`api_keys\` DROP FOREIGN KEY \`FK_api_keys_userId\``,
+    )
+    await queryRunner.query(`DROP TABLE \`api_keys\``)
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddLoginAttempts1721500000000 implements MigrationInterface {
+  name = 'AddLoginAttempts1721500000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Failed login attempts per account and client IP (LOGIN_ATTEMPT_STORE=database)
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`login_attempts\` (
+            \`key\` varchar(320) NOT NULL,
+            \`failures\` int NOT NULL DEFAULT 0,
+            \`lockedUntil\` datetime NULL,
+            \`expiresAt\` datetime NOT NULL,
+            INDEX \`IDX_login_attempts_expiresAt\` (\`expiresAt\`),
+            PRIMARY KEY (\`key\`)) ENGINE=InnoDB`)
+    await queryRunner.query(
+      `ALTER TABLE \`user_admin_actions\` MODIFY \`action\` enum ('role_changed', 'disabled', 'enabled', 'password_reset', 'unlocked') NOT NULL`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DELETE FROM \`user_admin_actions\` WHERE \`action\` = 'unlocked'`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE \`user_admin_actions\` MODIFY \`action\` enum ('role_changed', 'disabled', 'enabled', 'password_reset') NOT NULL`,
+    )
+    await queryRunner.query(`DROP TABLE \`login_attempts\``)
+  }
+}
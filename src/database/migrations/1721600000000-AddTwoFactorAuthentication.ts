@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddTwoFactorAuthentication1721600000000
+  implements MigrationInterface
+{
+  name = 'AddTwoFactorAuthentication1721600000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // TOTP secrets and hashed recovery codes of the users
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`user_two_factor\` (
+            \`userId\` varchar(36) NOT NULL,
+            \`secret\` varchar(64) NOT NULL,
+            \`enabledAt\` datetime NULL,
+            \`recoveryCodes\` text NULL,
+            \`lastUsedStep\` int NULL,
+            \`created\` datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+            PRIMARY KEY (\`userId\`)) ENGINE=InnoDB`)
+    await queryRunner.query(
+      `ALTER TABLE \`user_two_factor\` ADD CONSTRAINT \`FK_user_two_factor_userId\` FOREIGN KEY (\`userId\`) REFERENCES \`users\`(\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION`,
+    )
+    // Sessions opened with a second factor
+    await queryRunner.query(
+      `ALTER TABLE \`refresh_tokens\` ADD \`twoFactor\` tinyint NOT NULL DEFAULT 0`,
+    )
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE \`refresh_tokens\` DROP COLUMN \`twoFactor\``,
+    )
+    await queryRunner.query(
+      `ALTER TABLE \`user_two_factor\` DROP FOREIGN KEY \`FK_user_two_factor_userId\``,
+    )
+    await queryRunner.query(`DROP TABLE \`user_two_factor\``)
+  }
+}
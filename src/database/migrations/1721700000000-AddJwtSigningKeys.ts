@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddJwtSigningKeys1721700000000 implements MigrationInterface {
+  name = 'AddJwtSigningKeys1721700000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Rotated key pairs signing the tokens with RS256 or ES256
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`jwt_signing_keys\` (
+            \`kid\` varchar(36) NOT NULL,
+            \`algorithm\` varchar(5) NOT NULL,
+            \`publicKey\` text NOT NULL,
+            \`privateKey\` text NOT NULL,
+            \`activatesAt\` datetime NOT NULL,
+            \`retiresAt\` datetime NOT NULL,
+            \`expiresAt\` datetime NOT NULL,
+            \`created\` datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+            INDEX \`IDX_jwt_signing_keys_expiresAt\` (\`expiresAt\`),
+            PRIMARY KEY (\`kid\`)) ENGINE=InnoDB`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE \`jwt_signing_keys\``)
+  }
+}
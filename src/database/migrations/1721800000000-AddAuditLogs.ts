@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddAuditLogs1721800000000 implements MigrationInterface {
+  name = 'AddAuditLogs1721800000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Append-only security audit log (no foreign key: entries outlive the accounts)
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS \`audit_logs\` (
+            \`id\` int NOT NULL AUTO_INCREMENT,
+            \`action\` varchar(100) NOT NULL,
+            \`outcome\` enum ('success', 'failure') NOT NULL,
+            \`actorId\` varchar(36) NULL,
+            \`apiKeyId\` varchar(36) NULL,
+            \`target\` varchar(255) NULL,
+            \`ip\` varchar(45) NULL,
+            \`details\` text NULL,
+            \`created\` datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+            INDEX \`IDX_audit_logs_action\` (\`action\`),
+            INDEX \`IDX_audit_logs_actorId\` (\`actorId\`),
+            INDEX \`IDX_audit_logs_created\` (\`created\`),
+            PRIMARY KEY (\`id\`)) ENGINE=InnoDB`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE \`audit_logs\``)
+  }
+}
@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddImageVariants1721900000000 implements MigrationInterface {
+  name = 'AddImageVariants1721900000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Resized and converted copies of the images, as JSON (NULL until generated)
+    await queryRunner.query(`ALTER TABLE \`images\` ADD \`variants\` text NULL`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE \`images\` DROP COLUMN \`variants\``)
+  }
+}
@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+export class AddImageMetadata1722000000000 implements MigrationInterface {
+  name = 'AddImageMetadata1722000000000'
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Storage key of the files: the existing files were stored under the name given on upload,
+    // which follows the '<resource>-<id>_' prefix of the image name
+    await queryRunner.query(
+      `ALTER TABLE \`images\` ADD \`key\` varchar(255) NOT NULL DEFAULT ''`,
+    )
+    await queryRunner.query(
+      `UPDATE \`images\` SET \`key\` = SUBSTRING(\`name\`, LOCATE('_', \`name\`) + 1)`,
+    )
+    await queryRunner.query(
+      `ALTER TABLE \`images\` ALTER COLUMN \`key\` DROP DEFAULT`,
+    )
+    // Metadata of the files (NULL for the existing images until their files are read back)
+    await queryRunner.query(`ALTER TABLE \`images\`
+            ADD \`contentType\` varchar(100) NULL,
+            ADD \`size\` int NULL,
+            ADD \`width\` int NULL,
+            ADD \`height\` int NULL,
+            ADD \`checksum\` char(64) NULL,
+            ADD \`uploaderId\` varchar(36) NULL,
+            ADD \`uploadedAt\` datetime(6) NULL DEFAULT CURRENT_TIMESTAMP(6),
+            ADD INDEX \`IDX_images_checksum\` (\`checksum\`)`)
+    // The upload date of the existing images is unknown
+    await queryRunner.query(`UPDATE \`images\` SET \`uploadedAt\` = NULL`)
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE \`images\`
+            DROP INDEX \`IDX_images_checksum\`,
+            DROP COLUMN \`uploadedAt\`,
+            DROP COLUMN \`uploaderId\`,
+            DROP COLUMN \`checksum\`,
+            DROP COLUMN \`height\`,
+            DROP COLUMN \`width\`,
+            DROP COLUMN \`size\`,
+            DROP COLUMN \`contentType\`,
+            DROP COLUMN \`key\``)
+  }
+}
@@ -26,6 +26,7 @@ import { Vehicle } from '../../vehicles/entities/vehicle.entity'
  * for API documentation.
  */
 @Entity({ name: 'films' })
+@Index('FT_films_title', ['title'], { fulltext: true })
 export class Film extends AbstractEntity<Film> {
   /**
    * title: The title of the film (string)
@@ -5,6 +5,8 @@ import { Film } from './entities/film.entity'
 import { ForbiddenException, HttpException, HttpStatus } from '@nestjs/common'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import { JwtService } from '@nestjs/jwt'
+import { AuditService } from 'src/audit/audit.service'
+import { ImagesService } from 'src/images/images.service'
 import { People } from 'src/people/entities/people.entity'
 import { DataSource, Repository } from 'typeorm'
 import { Planet } from 'src/planets/entities/planet.entity'
@@ -20,6 +22,7 @@ import {
   updatedFilm,
   updatedFilmDto,
 } from './test-constants'
+import { describeFindImages } from 'src/images/test-constants'
 
 /**
  * Unit test suite for FilmsController.
@@ -29,6 +32,7 @@ import {
 describe('FilmsController', () => {
   let controller: FilmsController
   let service: FilmsService
+  let imagesService: ImagesService
 
   /**
    * Setup for each test in the suite.
@@ -82,11 +86,24 @@ describe('FilmsController', () => {
             verify: jest.fn(),
           },
         },
+        {
+          provide: AuditService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: ImagesService,
+          useValue: {
+            findAllOfAnEntity: jest.fn(),
+          },
+        },
       ],
     }).compile()
 
     controller = module.get<FilmsController>(FilmsController)
     service = module.get<FilmsService>(FilmsService)
+    imagesService = module.get<ImagesService>(ImagesService)
   })
 
   /**
@@ -145,7 +162,7 @@ describe('FilmsController', () => {
       // Mock the service's `findAll` method
       jest.spyOn(service, 'findAll').mockResolvedValue(paginatedResult)
 
-      expect(await controller.findAll(1, 10)).toEqual(paginatedResult)
+      expect(await controller.findAll(1, 10, {})).toEqual(paginatedResult)
     })
   })
 
@@ -159,8 +176,8 @@ describe('FilmsController', () => {
     it('should return a single film by ID', async () => {
       // Mock the service's `findOne` method
       jest.spyOn(service, 'findOne').mockResolvedValue(film)
-      expect(await controller.findOne(1)).toEqual(film)
-      expect(service.findOne).toHaveBeenCalledWith(1)
+      expect(await controller.findOne(1, {})).toEqual(film)
+      expect(service.findOne).toHaveBeenCalledWith(1, undefined)
     })
 
     /**
@@ -177,6 +194,8 @@ describe('FilmsController', () => {
     })
   })
 
+  describeFindImages('films', () => ({ controller, imagesService }))
+
   /**
    * Test suite for the `update` method of FilmsController.
    */
@@ -8,7 +8,7 @@ import {
   Delete,
   Query,
   DefaultValuePipe,
-  UseGuards,
+  HttpStatus,
 } from '@nestjs/common'
 import { FilmsService } from './films.service'
 import { CreateFilmDto } from './dto/create-film.dto'
@@ -22,8 +22,19 @@ import {
 } from '@nestjs/swagger'
 import { Pagination } from 'nestjs-typeorm-paginate'
 import { limitCount } from 'src/shared/constants'
+import { ListQuery } from 'src/shared/query-filter'
+import { CursorPagination } from 'src/shared/cursor-pagination'
+import { BulkReport } from 'src/shared/bulk-operations'
+import { BulkRemoveDto } from 'src/shared/dto/bulk-remove.dto'
+import { getExpandParameter } from 'src/shared/relation-expansion'
 import { Film } from 'src/films/entities/film.entity'
-import { AdminGuard } from 'src/auth/guards/admin.guard'
+import { Public } from 'src/auth/decorators/public.decorator'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Audited } from 'src/audit/decorators/audited.decorator'
+import { Permissions } from 'src/auth/permissions'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { ImagesService } from 'src/images/images.service'
+import { Image } from 'src/images/entities/image.entity'
 
 /**
  * FilmsController: Controller for handling film-related requests
@@ -31,13 +42,18 @@ import { AdminGuard } from 'src/auth/guards/admin.guard'
  * This class handles incoming HTTP requests related to films. It uses decorators
  * from `@nestjs/common` for routing, `@nestjs/swagger` for API documentation,
  * `nestjs-typeorm-paginate` for pagination, and injects the `FilmsService`
- * to perform film-related operations. Additionally, it uses the `AdminGuard`
- * to restrict certain endpoints to admin users.
+ * to perform film-related operations. Additionally, it requires the `films:write`
+ * permission (`@RequirePermissions()`) on the endpoints that change films, whose calls are
+ * recorded in the audit log (`@Audited()`).
  */
 @ApiTags('films')
+@Audited('films')
 @Controller('films')
 export class FilmsController {
-  constructor(private readonly filmsService: FilmsService) {}
+  constructor(
+    private readonly filmsService: FilmsService,
+    private readonly imagesService: ImagesService,
+  ) {}
 
   /**
    * Create a new film
@@ -49,15 +65,75 @@ export class FilmsController {
    * @param createFilmDto (CreateFilmDto) - Data for creating a new film
    * @returns Promise<Film> - Promise resolving to the created film object
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.FilmsWrite)
   @Post('create')
   @ApiBearerAuth()
   @ApiBody({ type: CreateFilmDto })
   @ApiOperation({ summary: 'Create new "film"' })
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'A resource with the same title already exists',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async create(@Body() createFilmDto: CreateFilmDto): Promise<Film> {
     return this.filmsService.create(createFilmDto)
   }
 
+  /**
+   * Creates several "films" resources in a single transaction
+   *
+   * Every item is validated like the body of `POST /films/create`. The response reports for every item
+   * whether it was created, skipped as a duplicate name, or failed with its validation errors.
+   *
+   * @param items An array of `CreateFilmDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.FilmsWrite)
+  @Post('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: [CreateFilmDto] })
+  @ApiOperation({ summary: 'Create several "films" resources' })
+  async bulkCreate(@Body() items: CreateFilmDto[]): Promise<BulkReport> {
+    return this.filmsService.bulkCreate(items)
+  }
+
+  /**
+   * Updates several "films" resources in a single transaction
+   *
+   * @param items An array of `UpdateFilmDto` objects, each with the `id` of the resource to update
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.FilmsWrite)
+  @Patch('bulk')
+  @ApiBearerAuth()
+  @ApiBody({
+    type: [UpdateFilmDto],
+    description:
+      'Every item must also contain the `id` of the resource to update.',
+  })
+  @ApiOperation({ summary: 'Update several "films" resources' })
+  async bulkUpdate(@Body() items: UpdateFilmDto[]): Promise<BulkReport> {
+    return this.filmsService.bulkUpdate(items)
+  }
+
+  /**
+   * Deletes several "films" resources in a single transaction
+   *
+   * @param bulkRemoveDto The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.FilmsWrite)
+  @Delete('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: BulkRemoveDto })
+  @ApiOperation({ summary: 'Delete several "films" resources' })
+  async bulkRemove(@Body() bulkRemoveDto: BulkRemoveDto): Promise<BulkReport> {
+    return this.filmsService.bulkRemove(bulkRemoveDto.ids)
+  }
+
   /**
    * findAll: Retrieves all film resources with pagination
    *
@@ -67,17 +143,45 @@ export class FilmsController {
    * - `@ApiQuery({ name: 'page', required: false })`: Describes optional query parameter for pagination (page number).
    * - `@ApiQuery({ name: 'limit', required: false })`: Describes optional query parameter for pagination (results per page).
    * - `async findAll(@Query(...) page: number, limit: number)`: Asynchronous method that takes optional page and limit query parameters and returns a Promise resolving to a Pagination<Film> object containing film data and pagination information.
+   * - `@ApiQuery({ name: 'cursor', required: false })`: Describes the optional cursor; when given, a CursorPagination<Film> object with `next`/`prev` cursor links is returned instead.
+   * - `@ApiQuery({ name: 'sort', required: false })`: Describes the optional sort order; any other film column can be passed as an exact-match filter.
+   * - `@ApiQuery({ name: 'search', required: false })`: Describes the optional free-text search on the film title.
    */
+  @Public()
   @Get()
   @ApiOperation({ summary: 'Get all the "films" resources' })
   @ApiQuery({ name: 'page', required: false })
   @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id` and on the first `sort` field.',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description:
+      'Comma-separated fields to sort by, prefix with "-" for descending order. Any other column can be used as an exact-match filter (e.g. `?name=...`).',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Free-text search on the title of the films.',
+  })
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `characters,planets.residents`). `include` is accepted as an alias.',
+  })
   async findAll(
     @Query('page', new DefaultValuePipe(1)) page: number,
     @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
-  ): Promise<Pagination<Film>> {
+    @Query() query: ListQuery,
+  ): Promise<Pagination<Film> | CursorPagination<Film>> {
     if (limit > limitCount) limit = limitCount
-    return this.filmsService.findAll({ page, limit })
+    return this.filmsService.findAll({ page, limit }, query)
   }
 
   /**
@@ -87,30 +191,88 @@ export class FilmsController {
    * - `@Get(':id')`: Defines the endpoint for retrieving a film by ID (GET request to '/films/:id').
    * - `@ApiOperation({ summary: 'Get resource "film" by its "id"' })`: Summarizes the API operation in documentation.
    * - `async findOne(@Param('id') id: number)`: Asynchronous method that takes the film ID from the request parameter and returns a Promise resolving to the Film entity for that ID.
+   * - `@ApiQuery({ name: 'expand', required: false })`: Describes the optional list of relations to embed instead of their URLs (`include` is accepted as an alias).
    */
+  @Public()
   @Get(':id')
   @ApiOperation({ summary: 'Get resource "film" by its "id"' })
-  async findOne(@Param('id') id: number): Promise<Film> {
-    return await this.filmsService.findOne(id)
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `characters,planets.residents`). `include` is accepted as an alias.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findOne(
+    @Param('id') id: number,
+    @Query() query: ListQuery = {},
+  ): Promise<Film> {
+    return await this.filmsService.findOne(id, getExpandParameter(query))
+  }
+
+  /**
+   * Retrieves the images of a "film" resource (paginated)
+   *
+   * @param id The ID of the "film" resource
+   * @param page The page number to retrieve (defaults to 1)
+   * @param limit The number of items per page (defaults to `limitCount`)
+   * @param cursor The opaque cursor selecting cursor pagination (empty for the first page)
+   * @returns A Promise resolving to a `Pagination<Image>` object containing the paginated list, or a
+   *          `CursorPagination<Image>` in cursor mode
+   */
+  @Public()
+  @Get(':id/images')
+  @ApiOperation({ summary: 'Get the images of resource "film" by its "id"' })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id`.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findImages(
+    @Param('id') id: number,
+    @Query('page', new DefaultValuePipe(1)) page: number,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+    @Query('cursor') cursor?: string,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    if (limit > limitCount) limit = limitCount
+    return this.imagesService.findAllOfAnEntity(
+      'films',
+      id,
+      { page, limit },
+      cursor,
+    )
   }
 
   /**
    * update: Updates a film resource by its ID
    *
    * This method updates an existing film resource in the database using the provided ID and `UpdateFilmDto` data.
-   * It's protected by the `AdminGuard` to ensure only authorized users can update films.
-   * - `@UseGuards(AdminGuard)`: Enforces admin authentication.
+   * It requires the `films:write` permission, so only authorized users can update films.
+   * - `@RequirePermissions(Permissions.FilmsWrite)`: Requires the `films:write` permission.
    * - `@Patch(':id')`: Defines the endpoint for updating films by ID (PATCH request to '/films/:id').
    * - `@ApiBearerAuth()`: Requires Bearer token for authorization in API documentation.
    * - `@ApiBody({ type: UpdateFilmDto })`: Describes the expected request body format (UpdateFilmDto).
    * - `@ApiOperation({ summary: 'Update resource "film" by its "id"' })`: Summarizes the API operation in documentation.
    * - `async update(@Param('id') id: number, @Body() updateFilmDto: UpdateFilmDto)`: Asynchronous method that takes the film ID from the request parameter and UpdateFilmDto data from the request body, returning a Promise resolving to the updated Film entity.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.FilmsWrite)
   @Patch(':id')
   @ApiBearerAuth()
   @ApiBody({ type: UpdateFilmDto })
   @ApiOperation({ summary: 'Update resource "film" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'Another resource already has the same title',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async update(
     @Param('id') id: number,
     @Body() updateFilmDto: UpdateFilmDto,
@@ -122,17 +284,18 @@ export class FilmsController {
    * remove: Deletes a film resource by its ID
    *
    * This method deletes a film resource from the database based on the provided ID.
-   * It's protected by the `AdminGuard` to ensure only authorized users can delete films.
-   * - `@UseGuards(AdminGuard)`: Enforces admin authentication.
+   * It requires the `films:write` permission, so only authorized users can delete films.
+   * - `@RequirePermissions(Permissions.FilmsWrite)`: Requires the `films:write` permission.
    * - `@Delete(':id')`: Defines the endpoint for deleting films by ID (DELETE request to '/films/:id').
    * - `@ApiBearerAuth()`: Requires Bearer token for authorization in API documentation.
    * - `@ApiOperation({ summary: 'Delete resource "film" by its "id"' })`: Summarizes the API operation in documentation.
    * - `async remove(@Param('id') id: number)`: Asynchronous method that takes the film ID from the request parameter and returns a Promise that resolves when the deletion is complete (no return value).
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.FilmsWrite)
   @Delete(':id')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete resource "film" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
   async remove(@Param('id') id: number): Promise<void> {
     await this.filmsService.remove(id)
   }
@@ -30,6 +30,7 @@ import { ImagesService } from 'src/images/images.service'
  *
  * The module exports `TypeOrmModule` to make the database connection accessible to other modules
  * that might need to interact with film data.
+ * It also exports the `FilmsService`, which is reused by the GraphQL resolvers.
  */
 @Module({
   imports: [
@@ -43,7 +44,7 @@ import { ImagesService } from 'src/images/images.service'
       Image,
     ]),
   ],
-  exports: [TypeOrmModule],
+  exports: [TypeOrmModule, FilmsService],
   controllers: [FilmsController],
   providers: [FilmsService, ImagesService],
 })
@@ -1,12 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { HttpStatus, NotFoundException } from '@nestjs/common'
 import { FilmsService } from './films.service'
 import { DataSource, Repository } from 'typeorm'
 import { Film } from './entities/film.entity'
-import { People } from 'src/people/entities/people.entity'
-import { Planet } from 'src/planets/entities/planet.entity'
-import { Species } from 'src/species/entities/species.entity'
-import { Starship } from 'src/starships/entities/starship.entity'
-import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import { paginate } from 'nestjs-typeorm-paginate'
 import {
@@ -23,7 +19,12 @@ import {
   updatedFilmDto,
   vehicle,
 } from './test-constants'
-import { paginationOptions } from 'src/shared/constants'
+import {
+  localUrl,
+  paginationOptions,
+  relatedEntitiesMap,
+} from 'src/shared/constants'
+import { setRelatedEntities } from 'src/shared/related-entities'
 
 /**
  * Mocking the `nestjs-typeorm-paginate` module
@@ -37,6 +38,17 @@ import { paginationOptions } from 'src/shared/constants'
  */
 jest.mock('nestjs-typeorm-paginate')
 
+/**
+ * Mocking the relation writer of `src/shared/related-entities`
+ *
+ * The related entities are written with TypeORM's relation query builder, which needs a real
+ * data source. The tests only check that the relations of the DTO are passed to it.
+ */
+jest.mock('src/shared/related-entities', () => ({
+  ...jest.requireActual('src/shared/related-entities'),
+  setRelatedEntities: jest.fn(),
+}))
+
 /**
  * Unit test suite for FilmsService.
  * This test suite covers various scenarios for creating, finding, updating, deleting film records,
@@ -45,11 +57,7 @@ jest.mock('nestjs-typeorm-paginate')
 describe('FilmsService', () => {
   let service: FilmsService
   let filmRepository: Repository<Film>
-  let peopleRepository: Repository<People>
-  let planetRepository: Repository<Planet>
-  let speciesRepository: Repository<Species>
-  let starshipRepository: Repository<Starship>
-  let vehicleRepository: Repository<Vehicle>
+  let transactionManager: Record<string, jest.Mock>
 
   /**
    * Setup for each test in the suite.
@@ -66,43 +74,9 @@ describe('FilmsService', () => {
             findOne: jest.fn(),
             save: jest.fn(),
             remove: jest.fn(),
-            query: jest.fn().mockResolvedValue([{ maxId: 0 }]),
-          },
-        },
-        {
-          provide: getRepositoryToken(People),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'people1' } as People),
-          },
-        },
-        {
-          provide: getRepositoryToken(Planet),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'planet1' } as Planet),
-          },
-        },
-        {
-          provide: getRepositoryToken(Species),
-          useValue: {
-            findOne: jest
-              .fn()
-              .mockResolvedValue({ url: 'species1' } as Species),
-          },
-        },
-        {
-          provide: getRepositoryToken(Starship),
-          useValue: {
-            findOne: jest
-              .fn()
-              .mockResolvedValue({ url: 'starship1' } as Starship),
-          },
-        },
-        {
-          provide: getRepositoryToken(Vehicle),
-          useValue: {
-            findOne: jest
-              .fn()
-              .mockResolvedValue({ url: 'vehicle1' } as Vehicle),
+            create: jest.fn((values) => values),
+            update: jest.fn(),
+            query: jest.fn(),
           },
         },
         {
@@ -116,34 +90,18 @@ describe('FilmsService', () => {
 
     service = module.get<FilmsService>(FilmsService)
     filmRepository = module.get<Repository<Film>>(getRepositoryToken(Film))
-    peopleRepository = module.get<Repository<People>>(
-      getRepositoryToken(People),
-    )
-    planetRepository = module.get<Repository<Planet>>(
-      getRepositoryToken(Planet),
-    )
-    speciesRepository = module.get<Repository<Species>>(
-      getRepositoryToken(Species),
-    )
-    starshipRepository = module.get<Repository<Starship>>(
-      getRepositoryToken(Starship),
-    )
-    vehicleRepository = module.get<Repository<Vehicle>>(
-      getRepositoryToken(Vehicle),
-    )
 
     // Mock implementation for paginate function
     jest
       .spyOn(filmRepository, 'findAndCount')
-      .mockImplementation(async () => [[], 0]),
-      // Define the repositories property in the service
-      ((service as any).repositories = {
-        characters: peopleRepository,
-        planets: planetRepository,
-        starships: starshipRepository,
-        species: speciesRepository,
-        vehicles: vehicleRepository,
-      })
+      .mockImplementation(async () => [[], 0])
+    // Run transactions with a transactional manager returning the same repository
+    transactionManager = {
+      transaction: jest.fn((run) => run(transactionManager)),
+      existsBy: jest.fn().mockResolvedValue(true),
+      getRepository: jest.fn(() => filmRepository),
+    }
+    ;(filmRepository as any).manager = transactionManager
   })
 
   /**
@@ -166,36 +124,63 @@ describe('FilmsService', () => {
     it('should create a new film', async () => {
       jest.spyOn(filmRepository, 'findOne').mockResolvedValueOnce(null)
       jest.spyOn(filmRepository, 'save').mockResolvedValue(newFilm)
-      jest.spyOn(filmRepository, 'query').mockResolvedValue([{ maxId: 0 }])
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValueOnce(newFilm)
-
-      // Setting up mocks for related entities
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
-      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(planet)
-      jest.spyOn(speciesRepository, 'findOne').mockResolvedValue(species)
-      jest.spyOn(starshipRepository, 'findOne').mockResolvedValue(starship)
-      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValue(vehicle)
+      // The created film is fetched again with its related entities
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValueOnce({
+        ...newFilm,
+        characters: [people],
+        planets: [planet],
+        species: [species],
+        starships: [starship],
+        vehicles: [vehicle],
+      } as Film)
 
       const result = await service.create(createFilmDto)
-      expect(result).toEqual(newFilm)
+      // Related entities are returned as SWAPI-style URLs
+      expect(result).toEqual({
+        ...newFilm,
+        characters: ['people1'],
+        planets: ['planet1'],
+        species: ['species1'],
+        starships: ['starship1'],
+        vehicles: ['vehicle1'],
+      })
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Film,
+        newFilm.id,
+        createFilmDto,
+        relatedEntitiesMap.films.relatedEntities,
+      )
     })
 
     /**
-     * Test to verify that creating a film with an existing name returns null.
+     * Test to verify that the film is created in a transaction, with its URL derived from the generated ID.
      */
-    it('should return null if a film with the same name already exists', async () => {
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(existingFilm)
+    it('should create a new film in a transaction', async () => {
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(filmRepository, 'save')
+        .mockResolvedValue({ ...newFilm, id: 7 } as Film)
 
-      const consoleErrorSpy = jest
-        .spyOn(console, 'error')
-        .mockImplementation(() => {})
+      await service.create(createFilmDto)
 
-      expect(await service.create(createFilmDto)).toBeNull()
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        `Film '${createFilmDto.title}' already exists!`,
-      )
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(filmRepository.update).toHaveBeenCalledWith(7, {
+        url: `${localUrl}films/7/`,
+      })
+      expect(filmRepository.query).not.toHaveBeenCalled()
+    })
 
-      consoleErrorSpy.mockRestore()
+    /**
+     * Test to verify that creating a film with an existing name throws a 409 conflict.
+     */
+    it('should throw a conflict if a film with the same name already exists', async () => {
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(existingFilm)
+
+      await expect(service.create(createFilmDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+        message: `Film '${createFilmDto.title}' already exists`,
+      })
     })
 
     /**
@@ -249,6 +234,15 @@ describe('FilmsService', () => {
 
       await expect(service.findOne(1)).rejects.toThrow('Repository error')
     })
+
+    /**
+     * Test to verify that an unknown ID throws a 404 error.
+     */
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(null)
+
+      await expect(service.findOne(99)).rejects.toThrow(NotFoundException)
+    })
   })
 
   /**
@@ -262,9 +256,46 @@ describe('FilmsService', () => {
      * Test to verify that a film can be updated successfully.
      */
     it('should update a film', async () => {
-      jest.spyOn(filmRepository, 'save').mockResolvedValue(updatedFilm)
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValueOnce(film)
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValueOnce(null)
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValueOnce(updatedFilm)
 
       expect(await service.update(1, updatedFilmDto)).toEqual(updatedFilm)
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Film,
+        film.id,
+        updatedFilmDto,
+        relatedEntitiesMap.films.relatedEntities,
+      )
+    })
+
+    /**
+     * Test to verify that renaming a film to the title of another film throws a 409 conflict.
+     */
+    it('should throw a conflict if another film has the same title', async () => {
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValueOnce(film)
+      jest
+        .spyOn(filmRepository, 'findOne')
+        .mockResolvedValueOnce({ ...existingFilm, id: 2 } as Film)
+
+      await expect(service.update(1, updatedFilmDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      })
+      expect(filmRepository.save).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Test to verify that updating an unknown film throws a 404 error.
+     */
+    it('should throw a not found error for an unknown film', async () => {
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValueOnce(null)
+
+      await expect(service.update(99, {})).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      })
+      expect(filmRepository.save).not.toHaveBeenCalled()
     })
 
     /**
@@ -307,45 +338,15 @@ describe('FilmsService', () => {
 
       await expect(service.remove(1)).rejects.toThrow('Internal server error')
     })
-  })
-
-  /**
-   * Test suite for the `fillRelatedEntities` method of FilmsService.
-   */
-  describe('fillRelatedEntities', () => {
-    const newFilm: Film = new Film()
-
-    /**
-     * Test to verify that related entities are filled correctly.
-     */
-    it('should fill related entities', async () => {
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
-      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(planet)
-      jest.spyOn(speciesRepository, 'findOne').mockResolvedValue(species)
-      jest.spyOn(starshipRepository, 'findOne').mockResolvedValue(starship)
-      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValue(vehicle)
-
-      await service['fillRelatedEntities'](newFilm, createFilmDto)
-
-      expect(newFilm.characters).toBeDefined()
-      expect(newFilm.characters).toContainEqual(people)
-      expect(newFilm.planets).toContainEqual(planet)
-      expect(newFilm.species).toContainEqual(species)
-      expect(newFilm.starships).toContainEqual(starship)
-      expect(newFilm.vehicles).toContainEqual(vehicle)
-    })
 
     /**
-     * Test to verify that errors in related entity lookups are handled properly.
+     * Test to verify that removing an unknown ID throws a 404 error.
      */
-    it('should handle errors in related entity lookups', async () => {
-      jest
-        .spyOn(planetRepository, 'findOne')
-        .mockRejectedValue(new Error('Internal server error'))
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(null)
 
-      await expect(
-        service['fillRelatedEntities'](newFilm, createFilmDto),
-      ).rejects.toThrow('Internal server error')
+      await expect(service.remove(99)).rejects.toThrow(NotFoundException)
+      expect(filmRepository.remove).not.toHaveBeenCalled()
     })
   })
 })
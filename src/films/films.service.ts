@@ -1,20 +1,49 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common'
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
 import { CreateFilmDto } from './dto/create-film.dto'
 import { UpdateFilmDto } from './dto/update-film.dto'
 import { InjectRepository } from '@nestjs/typeorm'
 import { Film } from 'src/films/entities/film.entity'
-import { Planet } from 'src/planets/entities/planet.entity'
-import { Repository } from 'typeorm'
+import { EntityManager, FindManyOptions, Repository } from 'typeorm'
 import {
   IPaginationOptions,
   Pagination,
   paginate,
 } from 'nestjs-typeorm-paginate'
-import { People } from 'src/people/entities/people.entity'
-import { Starship } from 'src/starships/entities/starship.entity'
-import { Species } from 'src/species/entities/species.entity'
-import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
-import { localUrl, relatedEntitiesMap } from 'src/shared/constants'
+import {
+  localUrl,
+  relatedEntitiesMap,
+  searchFieldsMap,
+  unsortableFieldsMap,
+} from 'src/shared/constants'
+import { ListQuery, buildListFindOptions } from 'src/shared/query-filter'
+import {
+  getExpandParameter,
+  getExpandRelations,
+  parseExpandParameter,
+  serializePagination,
+  serializeResource,
+} from 'src/shared/relation-expansion'
+import {
+  CursorPagination,
+  isCursorRequest,
+  paginateByCursor,
+} from 'src/shared/cursor-pagination'
+import {
+  BulkReport,
+  runBulkCreate,
+  runBulkRemove,
+  runBulkUpdate,
+} from 'src/shared/bulk-operations'
+import {
+  getColumnValues,
+  setRelatedEntities,
+} from 'src/shared/related-entities'
 import { getResponceOfException } from 'src/shared/common.functions'
 
 /**
@@ -22,8 +51,8 @@ import { getResponceOfException } from 'src/shared/common.functions'
  *
  * This service provides business logic for film-related operations, including
  * creating, retrieving, updating, and deleting films. It utilizes the
- * `filmsRepository` for database access and interacts with repositories for
- * related entities (characters, starships, planets, species, vehicles).
+ * `filmsRepository` for database access and sets the related entities (characters,
+ * starships, planets, species, vehicles) through the TypeORM relation API.
  */
 @Injectable()
 export class FilmsService {
@@ -32,16 +61,6 @@ export class FilmsService {
   constructor(
     @InjectRepository(Film)
     private readonly filmsRepository: Repository<Film>,
-    @InjectRepository(People)
-    private readonly peopleRepository: Repository<People>,
-    @InjectRepository(Starship)
-    private readonly starshipsRepository: Repository<Starship>,
-    @InjectRepository(Planet)
-    private readonly planetsRepository: Repository<Planet>,
-    @InjectRepository(Species)
-    private readonly speciesRepository: Repository<Species>,
-    @InjectRepository(Vehicle)
-    private readonly vehiclesRepository: Repository<Vehicle>,
   ) {
     this.relatedEntities = relatedEntitiesMap.films.relatedEntities
   }
@@ -50,74 +69,62 @@ export class FilmsService {
    * Creates a new film resource
    *
    * This method creates a new film entity in the database using the provided
-   * `CreateFilmDto` data. It first checks if a film with the same title already
-   * exists. If not, it creates a new `Film` object, populates its properties
-   * from the DTO, and then fills in the related entities (characters, starships,
-   * planets, species, vehicles) using the `fillRelatedEntities` method. Finally,
-   * it saves the new film entity to the database and returns it.
+   * `CreateFilmDto` data, in a single transaction. It first checks if a film with
+   * the same title already exists. If not, it inserts a new `Film` with the
+   * properties from the DTO, derives its URL from the generated ID, and then sets
+   * the related entities (characters, starships, planets, species, vehicles).
+   * Finally, it returns the new film with its related entities.
    *
    * @param createFilmDto The data for the new film (CreateFilmDto)
-   * @returns The created Film entity or null if a film with the same title already exists
-   * @throws HttpException on error
+   * @returns The created Film entity
+   * @throws HttpException on error (409 if a film with the same title already exists, 400 if a related
+   *         resource does not exist)
    */
   async create(createFilmDto: CreateFilmDto): Promise<Film> {
     try {
-      // Check if a film with the same title already exists
-      const existingFilm = await this.filmsRepository.findOne({
-        where: { title: createFilmDto.title },
-      })
-      if (existingFilm) {
-        console.error(`Film '${createFilmDto.title}' already exists!`)
-        return null
-      }
-
-      // Create a new Film object
-      const newFilm: Film = new Film()
-
-      // Get the last inserted ID
-      const lastIdResult = await this.filmsRepository.query(
-        'SELECT MAX(id) as maxId FROM films',
-      )
-      const nextId: number =
-        lastIdResult.length > 0 ? lastIdResult[0].maxId + 1 : 1
-      newFilm.url = `${localUrl}films/${nextId}/`
-
-      // Populate film properties from DTO, excluding related entities
-      for (const key in createFilmDto) {
-        if (key !== 'url' && !this.relatedEntities.includes(key)) {
-          newFilm[key] = createFilmDto[key]
+      return await this.filmsRepository.manager.transaction(async (manager) => {
+        const filmsRepository: Repository<Film> = manager.getRepository(Film)
+        // Check if a film with the same title already exists
+        const existsFilm: Film = await filmsRepository.findOne({
+          where: { title: createFilmDto.title },
+        })
+        if (existsFilm) {
+          throw new ConflictException(
+            `Film '${createFilmDto.title}' already exists`,
+          )
         }
-      }
 
-      // Save the new film to the database without related entities
-      const savedFilm = await this.filmsRepository.save(newFilm)
-
-      // Update URL if necessary
-      if (savedFilm.id !== nextId) {
-        console.warn(
-          `Predicted ID (${nextId}) doesn't match actual ID (${savedFilm.id}). Updating URL...`,
+        // Save the new film to the database without its URL and related entities
+        const savedFilm: Film = await filmsRepository.save(
+          filmsRepository.create(
+            getColumnValues<Film>(createFilmDto, this.relatedEntities),
+          ),
         )
-        await this.filmsRepository.query(
-          'UPDATE films SET url = ? WHERE id = ?',
-          [`${localUrl}films/${savedFilm.id}/`, savedFilm.id],
+
+        // Derive the URL from the generated ID
+        await filmsRepository.update(savedFilm.id, {
+          url: `${localUrl}films/${savedFilm.id}/`,
+        })
+
+        // Fill in related entities
+        await setRelatedEntities(
+          manager,
+          Film,
+          savedFilm.id,
+          createFilmDto,
+          this.relatedEntities,
         )
-        savedFilm.url = `${localUrl}films/${savedFilm.id}/`
-      }
 
-      // Fill in related entities
-      await this.fillRelatedEntities(savedFilm, createFilmDto)
+        // Fetch the created film to reflect all changes
+        const createdFilm: Film = await filmsRepository.findOne({
+          where: { id: savedFilm.id },
+          relations: this.relatedEntities,
+        })
 
-      // Fetch the updated film to reflect all changes
-      const updatedFilm: Film = await this.filmsRepository.findOne({
-        where: { id: savedFilm.id },
-        relations: this.relatedEntities,
+        return serializeResource(createdFilm, 'films')
       })
-
-      return updatedFilm
     } catch (error) {
-      //console.error('Error creating film:', error)
       throw getResponceOfException(error)
-      //throw new Error(`Failed to create film: ${error.message}`)
     }
   }
 
@@ -128,14 +135,52 @@ export class FilmsService {
    * list of film entities from the database. It takes `IPaginationOptions` as input
    * and returns a `Pagination<Film>` object containing film data and pagination
    * information.
+   * When a `cursor` query parameter is given, the list is paginated with opaque cursors instead.
    *
    * @param options Pagination options (IPaginationOptions)
+   * @param query Field filters, free-text search, sort order and relation expansion from the query string (e.g. `?director=George Lucas&sort=-release_date&expand=characters`)
    * @returns Pagination object containing film data and pagination information
    * @throws HttpException on error
    */
-  async findAll(options: IPaginationOptions): Promise<Pagination<Film>> {
+  async findAll(
+    options: IPaginationOptions,
+    query: ListQuery = {},
+  ): Promise<Pagination<Film> | CursorPagination<Film>> {
+    // Build where/order clauses from the field filters, the search term and the sort parameter
+    const findOptions: FindManyOptions<Film> = buildListFindOptions(
+      this.filmsRepository,
+      query,
+      searchFieldsMap.films,
+      unsortableFieldsMap.films,
+    )
+    // Load the related entities, rendered as URLs unless expanded
+    const expand: string[] = parseExpandParameter(
+      getExpandParameter(query),
+      'films',
+    )
+    findOptions.relations = getExpandRelations('films', expand)
+    findOptions.relationLoadStrategy = 'query'
+    // Use keyset pagination when a cursor is given
+    if (isCursorRequest(query)) {
+      const page: CursorPagination<Film> = await paginateByCursor<Film>(
+        this.filmsRepository,
+        findOptions,
+        {
+          cursor: String(query.cursor),
+          limit: Number(options.limit),
+          route: `${localUrl}films/`,
+          query,
+        },
+      )
+      return serializePagination(page, 'films', expand)
+    }
     try {
-      return paginate<Film>(this.filmsRepository, options)
+      const films: Pagination<Film> = await paginate<Film>(
+        this.filmsRepository,
+        options,
+        findOptions,
+      )
+      return serializePagination(films, 'films', expand)
     } catch (error) {
       throw new HttpException(error.message, HttpStatus.INTERNAL_SERVER_ERROR)
     }
@@ -149,17 +194,23 @@ export class FilmsService {
    * ID and returns the film object if found.
    *
    * @param filmId The ID of the film to retrieve (number)
-   * @returns The Film entity with the specified ID, or null if not found
-   * @throws HttpException on error
+   * @param expand The relations to embed instead of their URLs (e.g. `characters,planets.residents`)
+   * @returns The Film entity with the specified ID
+   * @throws NotFoundException if the film does not exist
    */
-  async findOne(filmId: number): Promise<Film> {
+  async findOne(filmId: number, expand?: string | string[]): Promise<Film> {
+    const expandedRelations: string[] = parseExpandParameter(expand, 'films')
     const film: Film = await this.filmsRepository.findOne({
       where: {
         id: filmId,
       },
+      relations: getExpandRelations('films', expandedRelations),
+      relationLoadStrategy: 'query',
     })
-    // Return the film entity or 'null'
-    return film
+    if (!film) {
+      throw new NotFoundException(`Film with id ${filmId} not found`)
+    }
+    return serializeResource(film, 'films', expandedRelations)
   }
 
   /**
@@ -168,47 +219,60 @@ export class FilmsService {
    * This method updates an existing film entity in the database using the provided
    * ID and `UpdateFilmDto` data. It first retrieves the film from the database
    * using `findOne`. Then, it updates the film's properties with the values from
-   * the `UpdateFilmDto`, sets the `edited` timestamp, and fills in the related
-   * entities (if updated). Finally, it saves the updated film entity to the
-   * database and returns it.
+   * the `UpdateFilmDto`, sets the `edited` timestamp, saves it, and replaces the
+   * related entities (if updated). All of this runs in a single transaction.
    *
    * @param filmId The ID of the film to update (number)
    * @param updateFilmDto The data for updating the film (UpdateFilmDto)
-   * @returns The updated Film entity, or null if not found
-   * @throws HttpException on error
+   * @returns The updated Film entity
+   * @throws HttpException on error (404 if the film does not exist, 409 if another film has the new title,
+   *         400 if a related resource does not exist)
    */
   async update(filmId: number, updateFilmDto: UpdateFilmDto): Promise<Film> {
     try {
-      const film: Film = await this.findOne(filmId)
-      // Return null if not found
-      if (!film) return null
-      // Update film properties from DTO
-      for (const key in updateFilmDto) {
-        if (updateFilmDto.hasOwnProperty(key) && updateFilmDto[key]) {
-          // Check if the film title is being updated
-          if (updateFilmDto.title) {
-            // Search for an existing film with the new title
-            const existingFilm = await this.filmsRepository.findOne({
-              where: {
-                title: updateFilmDto.title,
-              },
-            })
-
-            // If a film with this title exists and it's not the same film we're updating
-            if (existingFilm && existingFilm.id !== film.id) {
-              console.error(`Film '${updateFilmDto.title}' already exists!`)
-              return null
-            }
+      return await this.filmsRepository.manager.transaction(async (manager) => {
+        const filmsRepository: Repository<Film> = manager.getRepository(Film)
+        const film: Film = await filmsRepository.findOne({
+          where: { id: filmId },
+        })
+        if (!film) {
+          throw new NotFoundException(`Film with id ${filmId} not found`)
+        }
+        // Check if the title is being updated to the title of another film
+        if (updateFilmDto.title) {
+          const existingFilm: Film = await filmsRepository.findOne({
+            where: {
+              title: updateFilmDto.title,
+            },
+          })
+          if (existingFilm && existingFilm.id !== film.id) {
+            throw new ConflictException(
+              `Film '${updateFilmDto.title}' already exists`,
+            )
           }
-          film[key] = updateFilmDto[key]
         }
-      }
-      // Update edited timestamp
-      film.edited = new Date()
-      // Fill in related entities
-      await this.fillRelatedEntities(film, updateFilmDto)
-      // Save the updated film
-      return await this.filmsRepository.save(film)
+        // Update the film properties and the 'edited' field
+        Object.assign(
+          film,
+          getColumnValues<Film>(updateFilmDto, this.relatedEntities),
+        )
+        film.edited = new Date()
+        await filmsRepository.save(film)
+        // Replace the related entities present in the DTO
+        await setRelatedEntities(
+          manager,
+          Film,
+          film.id,
+          updateFilmDto,
+          this.relatedEntities,
+        )
+        // Fetch the updated film to reflect all changes
+        const updatedFilm: Film = await filmsRepository.findOne({
+          where: { id: film.id },
+          relations: this.relatedEntities,
+        })
+        return serializeResource(updatedFilm, 'films')
+      })
     } catch (error) {
       throw getResponceOfException(error)
     }
@@ -223,102 +287,80 @@ export class FilmsService {
    *
    * @param filmId The ID of the film to delete (number)
    * @returns No return value, void on success
+   * @throws NotFoundException if the film does not exist
    */
   async remove(filmId: number): Promise<Film> {
-    const film: Film = await this.findOne(filmId)
+    const film: Film = await this.filmsRepository.findOne({
+      where: { id: filmId },
+    })
+    if (!film) {
+      throw new NotFoundException(`Film with id ${filmId} not found`)
+    }
     return await this.filmsRepository.remove(film)
   }
 
   /**
-   * Fills the related entities for a film entity based on the provided DTO.
+   * Creates several films in a single transaction
    *
-   * This method processes related entities (like characters, planets, etc.) for a given film entity
-   * and updates the database to reflect these relationships. It uses raw SQL queries to handle the
-   * relationships and ensures that duplicates are ignored.
+   * Every item is validated against `CreateFilmDto` and created with `create`. The report tells for every item
+   * whether it was created, skipped as a duplicate name or failed; failed items are rolled back alone.
    *
-   * @param film - The film entity to update.
-   * @param filmDto - The DTO containing the related entities information.
-   * @returns A promise that resolves when the operation is complete.
-   * @throws An error if the operation fails.
+   * @param items The request body, an array of `CreateFilmDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
    */
-  private async fillRelatedEntities(
-    film: Film,
-    filmDto: CreateFilmDto | UpdateFilmDto,
-  ): Promise<void> {
-    // Initialize variables for table name and parameter name
-    let tableName: string
-    let firstParameter: string
-    try {
-      // Loop through each key in the relatedEntities array
-      for (const key of this.relatedEntities) {
-        // Check if the filmDto contains the key
-        if (filmDto[key]) {
-          // Fetch the related entities from the database
-          const entities = await Promise.all(
-            filmDto[key].map(async (url: string) => {
-              const repository = this.getRepositoryByKey(key)
-              const entity = await repository.findOne({ where: { url } })
-              return entity
-            }),
-          )
-
-          // Filter out any null values (entities that weren't found)
-          const validEntities = entities.filter((obj: null) => obj !== null)
+  async bulkCreate(items: unknown): Promise<BulkReport> {
+    return runBulkCreate(
+      this.filmsRepository.manager,
+      items,
+      CreateFilmDto,
+      (createDto, manager) => this.withManager(manager).create(createDto),
+    )
+  }
 
-          // Filling in the film property
-          film[key] = validEntities
+  /**
+   * Updates several films in a single transaction
+   *
+   * Every item is an `UpdateFilmDto` with the `id` of the resource to update, and is applied with `update`.
+   *
+   * @param items The request body, an array of `UpdateFilmDto` objects with an `id`
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkUpdate(items: unknown): Promise<BulkReport> {
+    return runBulkUpdate(
+      this.filmsRepository.manager,
+      Film,
+      items,
+      UpdateFilmDto,
+      (id, updateDto, manager) =>
+        this.withManager(manager).update(id, updateDto),
+    )
+  }
 
-          // Use raw query to insert relations, ignoring duplicates
-          if (validEntities.length > 0) {
-            if (key === 'characters') {
-              tableName = 'people_films'
-              firstParameter = 'peopleId'
-            } else {
-              tableName = `films_${key}`
-              firstParameter = `${key}Id`
-            }
-            // Create the values string for the SQL query
-            const values = validEntities
-              .map((entity: { id: number }) => `(${entity.id}, ${film.id})`)
-              .join(',')
-            // Execute the SQL query to insert the relations
-            await this.filmsRepository.query(
-              `INSERT IGNORE INTO ${tableName} (${firstParameter}, filmsId) VALUES ${values}`,
-            )
-          }
-        }
-      }
-    } catch (error) {
-      throw new Error(error)
-    }
+  /**
+   * Deletes several films in a single transaction
+   *
+   * @param ids The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkRemove(ids: number[]): Promise<BulkReport> {
+    return runBulkRemove(
+      this.filmsRepository.manager,
+      Film,
+      ids,
+      (id, manager) => this.withManager(manager).remove(id),
+    )
   }
 
   /**
-   * Retrieves the appropriate repository based on the given key.
+   * Returns a copy of this service whose repositories use the given entity manager
    *
-   * This private helper method returns the correct TypeORM repository
-   * based on the provided key. The key is expected to be one of the
-   * related entity types (e.g., 'films', 'starships', 'species', 'vehicles',
-   * 'homeworld'). If the key does not match any of these, an error is thrown.
+   * The bulk operations use it so that every query of `create`, `update` and `remove` runs inside
+   * the transaction of the batch.
    *
-   * @param key The key representing the type of related entity
-   * @returns The corresponding TypeORM repository for the given key
-   * @throws Error if no repository is found for the given key
+   * @param manager The transactional entity manager
+   * @returns A `FilmsService` bound to the transaction
    */
-  private getRepositoryByKey(key: string): Repository<any> {
-    switch (key) {
-      case 'characters':
-        return this.peopleRepository
-      case 'planets':
-        return this.planetsRepository
-      case 'starships':
-        return this.starshipsRepository
-      case 'vehicles':
-        return this.vehiclesRepository
-      case 'species':
-        return this.speciesRepository
-      default:
-        throw new Error(`No repository found for key: ${key}`)
-    }
+  private withManager(manager: EntityManager): FilmsService {
+    return new FilmsService(manager.getRepository(Film))
   }
 }
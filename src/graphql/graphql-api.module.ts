@@ -0,0 +1,59 @@
+import { Module } from '@nestjs/common'
+import { GraphQLModule } from '@nestjs/graphql'
+import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo'
+import { DataSource } from 'typeorm'
+import { Request } from 'express'
+import { PeopleModule } from 'src/people/people.module'
+import { FilmsModule } from 'src/films/films.module'
+import { PlanetsModule } from 'src/planets/planets.module'
+import { SpeciesModule } from 'src/species/species.module'
+import { StarshipsModule } from 'src/starships/starships.module'
+import { VehiclesModule } from 'src/vehicles/vehicles.module'
+import { GraphqlContext, RelationLoader } from './relation.loader'
+import { graphqlResolvers } from './resolvers'
+import { createCostLimitPlugin, createDepthLimitRule } from './query-limits'
+import { graphqlQuerySettings } from 'src/shared/constants'
+
+/**
+ * GraphqlApiModule
+ *
+ * This module exposes the Star Wars resources through a GraphQL endpoint (`POST /graphql`), next to the
+ * REST API. The schema is generated code-first from the entities and DTOs (see `createResourceResolver`),
+ * and the mutations reuse the services of the feature modules, so that both APIs share the same business
+ * logic and admin restrictions.
+ *
+ * Every request gets its own `RelationLoader` in the GraphQL context, which batches relation lookups.
+ * Operations nested too deeply or too costly (lists within lists) are rejected before they run, within
+ * the limits of `graphqlQuerySettings` (see `createDepthLimitRule` and `createCostLimitPlugin`).
+ */
+@Module({
+  imports: [
+    GraphQLModule.forRootAsync<ApolloDriverConfig>({
+      driver: ApolloDriver,
+      inject: [DataSource],
+      useFactory: (dataSource: DataSource) => ({
+        autoSchemaFile: true,
+        path: '/graphql',
+        validationRules: [createDepthLimitRule(graphqlQuerySettings.maxDepth)],
+        plugins: [
+          createCostLimitPlugin(
+            graphqlQuerySettings.maxCost,
+            graphqlQuerySettings.listSize,
+          ),
+        ],
+        context: ({ req }: { req: Request }): GraphqlContext => ({
+          req,
+          relationLoader: new RelationLoader(dataSource),
+        }),
+      }),
+    }),
+    PeopleModule,
+    FilmsModule,
+    PlanetsModule,
+    SpeciesModule,
+    StarshipsModule,
+    VehiclesModule,
+  ],
+  providers: [...graphqlResolvers],
+})
+export class GraphqlApiModule {}
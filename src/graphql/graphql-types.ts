@@ -0,0 +1,289 @@
+import { Type } from '@nestjs/common'
+import {
+  ArgsType,
+  Field,
+  FieldMiddleware,
+  GraphQLISODateTime,
+  InputType,
+  Int,
+  ObjectType,
+} from '@nestjs/graphql'
+import { Min, getMetadataStorage } from 'class-validator'
+import { GraphQLScalarType } from 'graphql'
+import { getMetadataArgsStorage } from 'typeorm'
+import { GraphqlContext } from './relation.loader'
+import { limitCount } from 'src/shared/constants'
+
+/**
+ * Properties of the DTOs that are filled by the server and therefore not exposed in GraphQL input types
+ */
+const serverGeneratedFields: string[] = ['url']
+
+/**
+ * Object types generated for the entities, indexed by entity class
+ *
+ * Relation fields reference the object type of the related entity lazily through this map, so that
+ * entities referencing each other (e.g. `People.films` and `Film.characters`) can be generated in any order.
+ */
+const entityObjectTypes = new Map<Type<unknown>, Type<unknown>>()
+
+/**
+ * Generates a GraphQL object type from a TypeORM entity
+ *
+ * Every column of the entity (including the inherited `id`, `created` and `edited` columns) becomes a field
+ * whose GraphQL type is derived from the TypeScript type of the property (JSON columns are rendered as JSON
+ * strings). Every relation becomes a field
+ * resolved by the request's `RelationLoader`, which batches the lookups of all parents into a single query.
+ *
+ * @param entity (Type<unknown>) The entity class.
+ * @param name (string) The name of the GraphQL type.
+ * @returns Type<unknown> The generated object type class.
+ */
+export function createEntityObjectType(
+  entity: Type<unknown>,
+  name: string,
+): Type<unknown> {
+  @ObjectType(name)
+  class EntityObjectType {}
+
+  const targets: Type<unknown>[] = getInheritanceChain(entity)
+  const metadataArgs = getMetadataArgsStorage()
+  for (const column of metadataArgs.filterColumns(targets)) {
+    const isPrimary: boolean = Boolean(column.options.primary)
+    const isJson: boolean = column.options.type === 'simple-json'
+    Field(
+      () =>
+        isPrimary
+          ? Int
+          : isJson
+            ? String
+            : getScalarType(
+                column.target as Type<unknown>,
+                column.propertyName,
+              ),
+      {
+        nullable: !isPrimary,
+        middleware: isJson ? [jsonFieldMiddleware] : undefined,
+      },
+    )(EntityObjectType.prototype, column.propertyName)
+  }
+  for (const relation of metadataArgs.filterRelations(targets)) {
+    const isList: boolean =
+      relation.relationType === 'one-to-many' ||
+      relation.relationType === 'many-to-many'
+    const getRelatedType = () =>
+      entityObjectTypes.get((relation.type as () => Type<unknown>)())
+    Field(() => (isList ? [getRelatedType()] : getRelatedType()), {
+      nullable: true,
+      middleware: [relationFieldMiddleware(entity)],
+    })(EntityObjectType.prototype, relation.propertyName)
+  }
+  entityObjectTypes.set(entity, EntityObjectType)
+  return EntityObjectType
+}
+
+/**
+ * Generates a GraphQL input type from a DTO class
+ *
+ * The input type extends the DTO, so that the validation rules of the DTO (class-validator decorators) are
+ * inherited and can be applied to GraphQL arguments by a `ValidationPipe`. Every validated property of the DTO
+ * becomes a field; properties marked with `@IsOptional()` (or all of them when `partial` is set) are nullable.
+ *
+ * @param dto (Type<unknown>) The DTO class.
+ * @param name (string) The name of the GraphQL input type.
+ * @param partial (boolean) Whether all the fields are optional (for updates).
+ * @returns Type<unknown> The generated input type class.
+ */
+export function createDtoInputType(
+  dto: Type<unknown>,
+  name: string,
+  partial: boolean = false,
+): Type<unknown> {
+  @InputType(name)
+  class DtoInputType extends (dto as Type<object>) {}
+
+  const validations = getMetadataStorage().getTargetValidationMetadatas(
+    dto,
+    undefined,
+    true,
+    false,
+  )
+  const properties: string[] = [
+    ...new Set(validations.map((validation) => validation.propertyName)),
+  ].filter((property) => !serverGeneratedFields.includes(property))
+  for (const property of properties) {
+    const isOptional: boolean = validations.some(
+      (validation) =>
+        validation.propertyName === property &&
+        validation.type === 'conditionalValidation',
+    )
+    const propertyType = Reflect.getMetadata(
+      'design:type',
+      dto.prototype,
+      property,
+    )
+    Field(
+      () => (propertyType === Array ? [String] : getScalarType(dto, property)),
+      { nullable: partial || isOptional },
+    )(DtoInputType.prototype, property)
+  }
+  return DtoInputType
+}
+
+/**
+ * Page metadata of a paginated list (as returned by `nestjs-typeorm-paginate`)
+ */
+@ObjectType()
+export class PageMeta {
+  @Field(() => Int)
+  itemCount: number
+
+  @Field(() => Int, { nullable: true })
+  totalItems?: number
+
+  @Field(() => Int)
+  itemsPerPage: number
+
+  @Field(() => Int, { nullable: true })
+  totalPages?: number
+
+  @Field(() => Int)
+  currentPage: number
+}
+
+/**
+ * Generates the GraphQL type of a paginated list of resources
+ *
+ * @param itemType (Type<unknown>) The object type of the items.
+ * @param name (string) The name of the GraphQL type.
+ * @returns Type<unknown> The generated page type class.
+ */
+export function createPageType(
+  itemType: Type<unknown>,
+  name: string,
+): Type<unknown> {
+  @ObjectType(name)
+  class PageType {
+    @Field(() => [itemType])
+    items: unknown[]
+
+    @Field(() => PageMeta)
+    meta: PageMeta
+  }
+  return PageType
+}
+
+/**
+ * Exact-match filter on a column of a resource
+ *
+ * Several values are matched with `IN (...)`, like repeated query parameters on the REST list endpoints.
+ */
+@InputType()
+export class FieldFilter {
+  @Field()
+  field: string
+
+  @Field(() => [String])
+  values: string[]
+}
+
+/**
+ * Arguments of the list queries (`all<pluralName>`)
+ *
+ * - `page`: The page to return, from 1.
+ * - `limit`: The number of items per page, from 1 (capped at `limitCount`).
+ * - `filters`: The exact-match filters on the columns of the resource.
+ * - `search`: The free-text search term.
+ * - `sort`: The comma-separated columns to sort by, descending with a leading `-`.
+ */
+@ArgsType()
+export class ListArgs {
+  @Field(() => Int, { defaultValue: 1 })
+  @Min(1)
+  page: number
+
+  @Field(() => Int, { defaultValue: limitCount })
+  @Min(1)
+  limit: number
+
+  @Field(() => [FieldFilter], { nullable: true })
+  filters?: FieldFilter[]
+
+  @Field({ nullable: true })
+  search?: string
+
+  @Field({ nullable: true })
+  sort?: string
+}
+
+/**
+ * Field middleware serializing the value of a JSON column (e.g. `Image.variants`) as a JSON string
+ */
+const jsonFieldMiddleware: FieldMiddleware = async ({ source, info }) => {
+  const value: unknown = source[info.fieldName]
+  return value === null || value === undefined ? null : JSON.stringify(value)
+}
+
+/**
+ * Creates the field middleware resolving a relation of an entity
+ *
+ * @param entity (Type<unknown>) The entity class owning the relation.
+ * @returns FieldMiddleware The middleware loading the relation through the request's `RelationLoader`.
+ */
+function relationFieldMiddleware(entity: Type<unknown>): FieldMiddleware {
+  return ({ source, context, info }) => {
+    // Resources that were just removed no longer have an ID
+    if (source.id === undefined) return null
+    return (context as GraphqlContext).relationLoader.load(
+      entity,
+      info.fieldName,
+      source.id,
+    )
+  }
+}
+
+/**
+ * Returns the GraphQL scalar matching the TypeScript type of a property
+ *
+ * @param target (Type<unknown>) The class declaring the property.
+ * @param property (string) The name of the property.
+ * @returns GraphQLScalarType | Type<unknown> The GraphQL type of the property (String by default).
+ */
+function getScalarType(
+  target: Type<unknown>,
+  property: string,
+): GraphQLScalarType | Type<unknown> {
+  const propertyType = Reflect.getMetadata(
+    'design:type',
+    target.prototype,
+    property,
+  )
+  switch (propertyType) {
+    case Number:
+      return Int
+    case Boolean:
+      return Boolean
+    case Date:
+      return GraphQLISODateTime
+    default:
+      return String
+  }
+}
+
+/**
+ * Returns a class followed by all of its parent classes
+ *
+ * @param entity (Type<unknown>) The class.
+ * @returns Type<unknown>[] The class and its ancestors, used to collect inherited columns (e.g. from `AbstractEntity`).
+ */
+function getInheritanceChain(entity: Type<unknown>): Type<unknown>[] {
+  const chain: Type<unknown>[] = []
+  for (
+    let target: Type<unknown> = entity;
+    target && target !== Function.prototype;
+    target = Object.getPrototypeOf(target)
+  ) {
+    chain.push(target)
+  }
+  return chain
+}
@@ -0,0 +1,154 @@
+import { ApolloServer } from '@apollo/server'
+import { buildSchema, parse, validate } from 'graphql'
+import { createCostLimitPlugin, createDepthLimitRule } from './query-limits'
+
+/**
+ * Schema of the tests: a page of people, whose relations are lists
+ */
+const typeDefs = `
+  type Person {
+    name: String
+    films: [Film]
+    homeworld: Planet
+  }
+  type Film {
+    title: String
+    characters: [Person]
+  }
+  type Planet {
+    name: String
+    residents: [Person]
+  }
+  type PeoplePage {
+    items: [Person!]!
+  }
+  type Query {
+    allPeople(limit: Int): PeoplePage
+    person(id: Int!): Person
+  }
+`
+
+/**
+ * Validates an operation against the schema of the tests with the depth limit rule
+ *
+ * @param query The GraphQL operation
+ * @param maxDepth The deepest selection accepted
+ * @returns The messages of the validation errors
+ */
+function validateDepth(query: string, maxDepth: number): string[] {
+  return validate(buildSchema(typeDefs), parse(query), [
+    createDepthLimitRule(maxDepth),
+  ]).map((error) => error.message)
+}
+
+/**
+ * Unit test suite for the depth limit rule.
+ */
+describe('createDepthLimitRule', () => {
+  it('should accept an operation within the limit', () => {
+    expect(validateDepth('{ allPeople { items { name } } }', 3)).toEqual([])
+  })
+
+  it('should reject an operation nested too deeply', () => {
+    expect(
+      validateDepth('{ allPeople { items { films { title } } } }', 3),
+    ).toEqual(['The operation is nested too deeply (more than 3 levels)'])
+  })
+
+  it('should count the fields of the fragments', () => {
+    const query = `
+      query {
+        person(id: 1) { ...withFilms }
+      }
+      fragment withFilms on Person {
+        films { ... on Film { characters { name } } }
+      }
+    `
+
+    expect(validateDepth(query, 4)).toEqual([])
+    expect(validateDepth(query, 3)).toHaveLength(1)
+  })
+
+  it('should not count the introspection fields', () => {
+    expect(
+      validateDepth(
+        '{ __schema { types { fields { type { ofType { name } } } } } }',
+        1,
+      ),
+    ).toEqual([])
+  })
+
+  it('should not recurse forever into a fragment cycle', () => {
+    const query = `
+      { person(id: 1) { ...a } }
+      fragment a on Person { films { characters { ...a } } }
+    `
+
+    expect(validateDepth(query, 10)).toEqual([])
+  })
+})
+
+/**
+ * Unit test suite for the cost limit plugin.
+ * The operations are run by an Apollo server with the plugin and resolvers returning empty values.
+ */
+describe('createCostLimitPlugin', () => {
+  let server: ApolloServer
+
+  beforeEach(async () => {
+    server = new ApolloServer({
+      typeDefs,
+      resolvers: { Query: { allPeople: () => ({ items: [] }) } },
+      plugins: [createCostLimitPlugin(300, 10)],
+    })
+    await server.start()
+  })
+
+  afterEach(async () => {
+    await server.stop()
+  })
+
+  it('should run an operation within the limit', async () => {
+    // allPeople (1) + items (1 + 10 × (name (1) + films (1 + 10 × title (1))))
+    const { body } = await server.executeOperation({
+      query: '{ allPeople { items { name films { title } } } }',
+    })
+
+    expect(body.kind === 'single' && body.singleResult.errors).toBeUndefined()
+  })
+
+  it('should reject an operation selecting lists within lists', async () => {
+    const { body, http } = await server.executeOperation({
+      query:
+        '{ allPeople { items { films { characters { name homeworld { name } } } } } }',
+    })
+
+    expect(http.status).toBe(400)
+    expect(body.kind === 'single' && body.singleResult.errors).toEqual([
+      expect.objectContaining({
+        message: expect.stringContaining('The operation is too complex'),
+        extensions: expect.objectContaining({ code: 'QUERY_TOO_COMPLEX' }),
+      }),
+    ])
+  })
+
+  it('should estimate the selection with the values of the variables', async () => {
+    const query = `
+      query ($withFilms: Boolean!) {
+        allPeople { items { films @include(if: $withFilms) { characters { name } } } }
+      }
+    `
+
+    const included = await server.executeOperation({
+      query,
+      variables: { withFilms: true },
+    })
+    const skipped = await server.executeOperation({
+      query,
+      variables: { withFilms: false },
+    })
+
+    expect(included.http.status).toBe(400)
+    expect(skipped.http.status).toBeUndefined()
+  })
+})
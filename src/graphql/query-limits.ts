@@ -0,0 +1,168 @@
+import { ApolloServerPlugin } from '@apollo/server'
+import {
+  ASTVisitor,
+  FragmentDefinitionNode,
+  GraphQLError,
+  GraphQLOutputType,
+  Kind,
+  SelectionSetNode,
+  ValidationContext,
+  ValidationRule,
+  getNullableType,
+  isListType,
+} from 'graphql'
+import { ComplexityEstimator, getComplexity } from 'graphql-query-complexity'
+
+/**
+ * Creates the validation rule limiting the depth of the GraphQL operations
+ *
+ * The depth of an operation is the length of its longest path of nested fields, fragments included
+ * (e.g. 3 for `{ allPeople { items { name } } }`). The introspection fields (`__schema`, `__type`)
+ * are not counted, so that the schema can still be explored by the clients.
+ *
+ * @param maxDepth (number) The deepest selection accepted.
+ * @returns ValidationRule The rule reporting the operations nested deeper than `maxDepth`.
+ */
+export function createDepthLimitRule(maxDepth: number): ValidationRule {
+  return (context: ValidationContext): ASTVisitor => ({
+    OperationDefinition(operation) {
+      const depth: number = getSelectionDepth(
+        context,
+        operation.selectionSet,
+        maxDepth + 1,
+        new Set(),
+      )
+      if (depth > maxDepth) {
+        context.reportError(
+          new GraphQLError(
+            `The operation is nested too deeply (more than ${maxDepth} levels)`,
+            { nodes: [operation] },
+          ),
+        )
+      }
+    },
+  })
+}
+
+/**
+ * Computes the depth of a selection set, stopping at a given depth
+ *
+ * @param context (ValidationContext) The validation context, for the fragment definitions.
+ * @param selectionSet (SelectionSetNode) The selection set.
+ * @param remaining (number) The depth past which the selection is not explored further.
+ * @param fragments (Set<string>) The fragments being expanded, so that a fragment cycle (reported by
+ *   the `NoFragmentCycles` rule) does not recurse forever.
+ * @returns number The depth of the selection set, at most `remaining`.
+ */
+function getSelectionDepth(
+  context: ValidationContext,
+  selectionSet: SelectionSetNode,
+  remaining: number,
+  fragments: Set<string>,
+): number {
+  let depth = 0
+  for (const selection of selectionSet.selections) {
+    if (depth >= remaining) break
+    if (selection.kind === Kind.FIELD) {
+      if (selection.name.value.startsWith('__')) continue
+      depth = Math.max(
+        depth,
+        selection.selectionSet
+          ? 1 +
+              getSelectionDepth(
+                context,
+                selection.selectionSet,
+                remaining - 1,
+                fragments,
+              )
+          : 1,
+      )
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      depth = Math.max(
+        depth,
+        getSelectionDepth(
+          context,
+          selection.selectionSet,
+          remaining,
+          fragments,
+        ),
+      )
+    } else {
+      const name: string = selection.name.value
+      const fragment: FragmentDefinitionNode = context.getFragment(name)
+      if (!fragment || fragments.has(name)) continue
+      depth = Math.max(
+        depth,
+        getSelectionDepth(
+          context,
+          fragment.selectionSet,
+          remaining,
+          new Set(fragments).add(name),
+        ),
+      )
+    }
+  }
+  return depth
+}
+
+/**
+ * Creates the estimator of the cost of a field: 1, plus the cost of its selection, counted
+ * `listSize` times when the field returns a list
+ *
+ * @param listSize (number) The number of items assumed for every list.
+ * @returns ComplexityEstimator The estimator.
+ */
+export function createListCostEstimator(listSize: number): ComplexityEstimator {
+  return ({ field, childComplexity }) =>
+    1 +
+    childComplexity *
+      (isListType(getNullableType(field.type as GraphQLOutputType))
+        ? listSize
+        : 1)
+}
+
+/**
+ * Creates the Apollo plugin limiting the estimated cost of the GraphQL operations
+ *
+ * The cost is estimated from the selection with `graphql-query-complexity` (see
+ * `createListCostEstimator`), so that an operation selecting lists within lists is rejected before
+ * it runs any query. This is checked once the operation is resolved rather than by a validation
+ * rule, because the arguments and `@include`/`@skip` directives of the selection may depend on the
+ * variables, which are only known then.
+ *
+ * @param maxCost (number) The highest estimated cost accepted.
+ * @param listSize (number) The number of items assumed for every list.
+ * @returns ApolloServerPlugin The plugin rejecting the operations costing more than `maxCost`, with a
+ *   `400 Bad Request` error (`QUERY_TOO_COMPLEX`).
+ */
+export function createCostLimitPlugin(
+  maxCost: number,
+  listSize: number,
+): ApolloServerPlugin {
+  return {
+    async requestDidStart() {
+      return {
+        async didResolveOperation({ request, document, schema }) {
+          const cost: number = getComplexity({
+            schema,
+            query: document,
+            operationName: request.operationName,
+            variables: request.variables,
+            estimators: [createListCostEstimator(listSize)],
+          })
+          if (cost > maxCost) {
+            throw new GraphQLError(
+              `The operation is too complex (estimated cost ${cost}, at most ${maxCost})`,
+              {
+                extensions: {
+                  code: 'QUERY_TOO_COMPLEX',
+                  http: { status: 400 },
+                },
+              },
+            )
+          }
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,84 @@
+import { DataSource, FindOperator } from 'typeorm'
+import { RelationLoader } from './relation.loader'
+import { People } from 'src/people/entities/people.entity'
+import { Film } from 'src/films/entities/film.entity'
+
+/**
+ * Unit test suite for RelationLoader.
+ * The repositories of the data source are mocked; `find` returns the parents with their relations.
+ */
+describe('RelationLoader', () => {
+  let loader: RelationLoader
+  let find: jest.Mock
+
+  beforeEach(() => {
+    find = jest.fn(
+      async ({ where, relations }: { where: any; relations: string[] }) =>
+        (where.id as FindOperator<number[]>).value
+          .filter((id: number) => id !== 404)
+          .map((id: number) => ({
+            id,
+            [relations[0]]:
+              relations[0] === 'homeworld'
+                ? { name: `planet-${id}` }
+                : [{ title: `film-${id}` }],
+          })),
+    )
+    const dataSource = {
+      getRepository: jest.fn(() => ({ find })),
+    } as unknown as DataSource
+    loader = new RelationLoader(dataSource)
+  })
+
+  it('should load the relation of the parents requested together with one query', async () => {
+    const films = await Promise.all([
+      loader.load(People, 'films', 1),
+      loader.load(People, 'films', 2),
+      loader.load(People, 'films', 3),
+    ])
+
+    expect(films).toEqual([
+      [{ title: 'film-1' }],
+      [{ title: 'film-2' }],
+      [{ title: 'film-3' }],
+    ])
+    expect(find).toHaveBeenCalledTimes(1)
+    expect(find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        relations: ['films'],
+        relationLoadStrategy: 'query',
+      }),
+    )
+    expect(find.mock.calls[0][0].where.id.value).toEqual([1, 2, 3])
+  })
+
+  it('should resolve to null for a parent that does not exist', async () => {
+    const homeworlds = await Promise.all([
+      loader.load(People, 'homeworld', 404),
+      loader.load(People, 'homeworld', 1),
+    ])
+
+    expect(homeworlds).toEqual([null, { name: 'planet-1' }])
+  })
+
+  it('should batch every relation separately', async () => {
+    await Promise.all([
+      loader.load(People, 'films', 1),
+      loader.load(People, 'homeworld', 1),
+      loader.load(Film, 'characters', 1),
+    ])
+
+    expect(find.mock.calls.map(([options]) => options.relations)).toEqual([
+      ['films'],
+      ['homeworld'],
+      ['characters'],
+    ])
+  })
+
+  it('should not load a relation twice within a request', async () => {
+    await loader.load(People, 'films', 1)
+    await loader.load(People, 'films', 1)
+
+    expect(find).toHaveBeenCalledTimes(1)
+  })
+})
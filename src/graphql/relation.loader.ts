@@ -0,0 +1,77 @@
+import { Type } from '@nestjs/common'
+import * as DataLoader from 'dataloader'
+import { Request } from 'express'
+import { DataSource, In } from 'typeorm'
+import { AbstractEntity } from 'src/shared/abstract.entity'
+
+/**
+ * Interface for the context of a GraphQL request
+ *
+ * - `req`: The underlying HTTP request (used by `JwtAuthGuard` to authenticate the request).
+ * - `relationLoader`: The relation loader of the request, shared by all the resolvers of the request.
+ */
+export interface GraphqlContext {
+  req: Request
+  relationLoader: RelationLoader
+}
+
+/**
+ * RelationLoader: Batches the loading of entity relations for a GraphQL request
+ *
+ * Resolving a relation for every item of a list one by one would run one query per item (the N+1 problem).
+ * This class keeps one `DataLoader` per entity relation (e.g. `People.films`), which collects the IDs of all
+ * the parents requested during the same tick and loads their relation with a single query. A new instance is
+ * created for every request, so that cached results never leak between requests.
+ */
+export class RelationLoader {
+  private readonly loaders = new Map<string, DataLoader<number, unknown>>()
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Loads a relation of an entity
+   *
+   * @param entity (Type<unknown>) The entity class owning the relation.
+   * @param relation (string) The name of the relation property.
+   * @param id (number) The ID of the parent entity.
+   * @returns Promise<unknown> The related entity (or array of entities), or null if the parent does not exist.
+   */
+  load(entity: Type<unknown>, relation: string, id: number): Promise<unknown> {
+    const key: string = `${entity.name}.${relation}`
+    if (!this.loaders.has(key)) {
+      this.loaders.set(
+        key,
+        new DataLoader((ids: readonly number[]) =>
+          this.batchLoad(entity, relation, ids),
+        ),
+      )
+    }
+    return this.loaders.get(key).load(id)
+  }
+
+  /**
+   * Loads a relation for a batch of parent entities with a single query
+   *
+   * @param entity (Type<unknown>) The entity class owning the relation.
+   * @param relation (string) The name of the relation property.
+   * @param ids (readonly number[]) The IDs of the parent entities.
+   * @returns Promise<unknown[]> The relation values, in the same order as `ids`.
+   */
+  private async batchLoad(
+    entity: Type<unknown>,
+    relation: string,
+    ids: readonly number[],
+  ): Promise<unknown[]> {
+    const parents: AbstractEntity<unknown>[] = await this.dataSource
+      .getRepository<AbstractEntity<unknown>>(entity)
+      .find({
+        where: { id: In([...ids]) },
+        relations: [relation],
+        relationLoadStrategy: 'query',
+      })
+    const relationsById = new Map<number, unknown>(
+      parents.map((parent) => [parent.id, parent[relation] ?? null]),
+    )
+    return ids.map((id) => relationsById.get(id) ?? null)
+  }
+}
@@ -0,0 +1,94 @@
+import { People } from 'src/people/entities/people.entity'
+import { PeopleService } from 'src/people/people.service'
+import { CreatePeopleDto } from 'src/people/dto/create-people.dto'
+import { UpdatePeopleDto } from 'src/people/dto/update-people.dto'
+import { Film } from 'src/films/entities/film.entity'
+import { FilmsService } from 'src/films/films.service'
+import { CreateFilmDto } from 'src/films/dto/create-film.dto'
+import { UpdateFilmDto } from 'src/films/dto/update-film.dto'
+import { Planet } from 'src/planets/entities/planet.entity'
+import { PlanetsService } from 'src/planets/planets.service'
+import { CreatePlanetDto } from 'src/planets/dto/create-planet.dto'
+import { UpdatePlanetDto } from 'src/planets/dto/update-planet.dto'
+import { Species } from 'src/species/entities/species.entity'
+import { SpeciesService } from 'src/species/species.service'
+import { CreateSpeciesDto } from 'src/species/dto/create-species.dto'
+import { UpdateSpeciesDto } from 'src/species/dto/update-species.dto'
+import { Starship } from 'src/starships/entities/starship.entity'
+import { StarshipsService } from 'src/starships/starships.service'
+import { CreateStarshipDto } from 'src/starships/dto/create-starship.dto'
+import { UpdateStarshipDto } from 'src/starships/dto/update-starship.dto'
+import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
+import { VehiclesService } from 'src/vehicles/vehicles.service'
+import { CreateVehicleDto } from 'src/vehicles/dto/create-vehicle.dto'
+import { UpdateVehicleDto } from 'src/vehicles/dto/update-vehicle.dto'
+import { Image } from 'src/images/entities/image.entity'
+import { createResourceResolver } from './resource.resolver'
+
+/**
+ * GraphQL resolvers of the Star Wars resources
+ *
+ * Images are exposed read-only: they are uploaded through the multipart REST endpoints.
+ */
+export const graphqlResolvers = [
+  createResourceResolver({
+    entity: People,
+    resource: 'people',
+    typeName: 'Person',
+    pluralName: 'People',
+    service: PeopleService,
+    createDto: CreatePeopleDto,
+    updateDto: UpdatePeopleDto,
+  }),
+  createResourceResolver({
+    entity: Film,
+    resource: 'films',
+    typeName: 'Film',
+    pluralName: 'Films',
+    service: FilmsService,
+    createDto: CreateFilmDto,
+    updateDto: UpdateFilmDto,
+  }),
+  createResourceResolver({
+    entity: Planet,
+    resource: 'planets',
+    typeName: 'Planet',
+    pluralName: 'Planets',
+    service: PlanetsService,
+    createDto: CreatePlanetDto,
+    updateDto: UpdatePlanetDto,
+  }),
+  createResourceResolver({
+    entity: Species,
+    resource: 'species',
+    typeName: 'Species',
+    pluralName: 'Species',
+    service: SpeciesService,
+    createDto: CreateSpeciesDto,
+    updateDto: UpdateSpeciesDto,
+  }),
+  createResourceResolver({
+    entity: Starship,
+    resource: 'starships',
+    typeName: 'Starship',
+    pluralName: 'Starships',
+    service: StarshipsService,
+    createDto: CreateStarshipDto,
+    updateDto: UpdateStarshipDto,
+  }),
+  createResourceResolver({
+    entity: Vehicle,
+    resource: 'vehicles',
+    typeName: 'Vehicle',
+    pluralName: 'Vehicles',
+    service: VehiclesService,
+    createDto: CreateVehicleDto,
+    updateDto: UpdateVehicleDto,
+  }),
+  createResourceResolver({
+    entity: Image,
+    resource: 'images',
+    typeName: 'Image',
+    pluralName: 'Images',
+  }),
+]
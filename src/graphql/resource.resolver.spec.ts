@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { INestApplication } from '@nestjs/common'
+import { GraphQLModule } from '@nestjs/graphql'
+import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo'
+import { DataSource, FindOperator, Repository } from 'typeorm'
+import * as request from 'supertest'
+import { People } from 'src/people/entities/people.entity'
+import { Film } from 'src/films/entities/film.entity'
+import { Planet } from 'src/planets/entities/planet.entity'
+import { Species } from 'src/species/entities/species.entity'
+import { Starship } from 'src/starships/entities/starship.entity'
+import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
+import { Image } from 'src/images/entities/image.entity'
+import { createResourceResolver } from './resource.resolver'
+import { GraphqlContext, RelationLoader } from './relation.loader'
+
+jest.mock('src/shared/constants', () => ({
+  ...jest.requireActual('src/shared/constants'),
+  limitCount: 10,
+}))
+
+/**
+ * The people of the tests, with their films
+ */
+const people = [
+  { id: 1, name: 'Luke Skywalker', gender: 'male', films: [{ id: 1 }] },
+  { id: 2, name: 'Leia Organa', gender: 'female', films: [{ id: 1 }] },
+]
+
+/**
+ * Read-only resolvers of every resource, so that every relation has an object type
+ */
+const resolvers = [
+  createResourceResolver({
+    entity: People,
+    resource: 'people',
+    typeName: 'Person',
+    pluralName: 'People',
+  }),
+  createResourceResolver({
+    entity: Film,
+    resource: 'films',
+    typeName: 'Film',
+    pluralName: 'Films',
+  }),
+  createResourceResolver({
+    entity: Planet,
+    resource: 'planets',
+    typeName: 'Planet',
+    pluralName: 'Planets',
+  }),
+  createResourceResolver({
+    entity: Species,
+    resource: 'species',
+    typeName: 'Species',
+    pluralName: 'SpeciesList',
+  }),
+  createResourceResolver({
+    entity: Starship,
+    resource: 'starships',
+    typeName: 'Starship',
+    pluralName: 'Starships',
+  }),
+  createResourceResolver({
+    entity: Vehicle,
+    resource: 'vehicles',
+    typeName: 'Vehicle',
+    pluralName: 'Vehicles',
+  }),
+  createResourceResolver({
+    entity: Image,
+    resource: 'images',
+    typeName: 'Image',
+    pluralName: 'Images',
+  }),
+]
+
+/**
+ * Unit test suite for the generated resource resolvers.
+ * The queries are sent to a GraphQL server whose data source is mocked.
+ */
+describe('createResourceResolver', () => {
+  let app: INestApplication
+  let repository: Record<string, any>
+
+  // The application is created once: a second build of the code-first schema in the same process
+  // loses the arguments of the list queries
+  beforeAll(async () => {
+    // A Repository instance, as told apart from a query builder by `paginate`
+    repository = Object.setPrototypeOf(
+      {
+        metadata: {
+          columns: [{ propertyName: 'name' }, { propertyName: 'gender' }],
+        },
+        findOne: jest.fn(async ({ where }) =>
+          people.find((person) => person.id === where.id),
+        ),
+        find: jest.fn(async ({ where, relations }) =>
+          relations
+            ? people.filter((person) =>
+                (where.id as FindOperator<number[]>).value.includes(person.id),
+              )
+            : people,
+        ),
+        count: jest.fn().mockResolvedValue(people.length),
+      },
+      Repository.prototype,
+    )
+    const dataSource = {
+      getRepository: jest.fn(() => repository),
+    } as unknown as DataSource
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [
+        GraphQLModule.forRoot<ApolloDriverConfig>({
+          driver: ApolloDriver,
+          autoSchemaFile: true,
+          context: ({ req }): GraphqlContext => ({
+            req,
+            relationLoader: new RelationLoader(dataSource),
+          }),
+        }),
+      ],
+      providers: [...resolvers, { provide: DataSource, useValue: dataSource }],
+    }).compile()
+
+    app = module.createNestApplication({ logger: false })
+    await app.init()
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  /**
+   * Sends a GraphQL query
+   *
+   * @param query The GraphQL query
+   * @returns A Promise resolving to the body of the response
+   */
+  const sendQuery = async (query: string) =>
+    (await request(app.getHttpServer()).post('/graphql').send({ query })).body
+
+  it('should return a resource by ID', async () => {
+    const body = await sendQuery('{ person(id: 2) { name gender } }')
+
+    expect(body.data.person).toEqual({ name: 'Leia Organa', gender: 'female' })
+    expect(repository.findOne).toHaveBeenCalledWith({ where: { id: 2 } })
+  })
+
+  it('should return a page filtered by the fields', async () => {
+    const body = await sendQuery(`{
+      allPeople(page: 2, limit: 5, filters: [{ field: "gender", values: ["female"] }]) {
+        items { name }
+        meta { currentPage itemsPerPage totalItems }
+      }
+    }`)
+
+    expect(body.data.allPeople.meta).toEqual({
+      currentPage: 2,
+      itemsPerPage: 5,
+      totalItems: 2,
+    })
+    expect(repository.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        skip: 5,
+        take: 5,
+        where: { gender: 'female' },
+      }),
+    )
+  })
+
+  it('should cap the limit at the page size', async () => {
+    await sendQuery('{ allPeople(limit: 1000) { items { name } } }')
+
+    expect(repository.find).toHaveBeenCalledWith(
+      expect.objectContaining({ take: 10 }),
+    )
+  })
+
+  it.each(['limit: 0', 'limit: -1', 'page: 0'])(
+    'should reject %p',
+    async (argument) => {
+      const body = await sendQuery(
+        `{ allPeople(${argument}) { items { name } } }`,
+      )
+
+      expect(body.data).toBeNull()
+      expect(body.errors[0].extensions.originalError.message).toEqual([
+        expect.stringMatching(/must not be less than 1$/),
+      ])
+      expect(repository.find).not.toHaveBeenCalled()
+    },
+  )
+
+  it('should load the relations of a page with one query', async () => {
+    const body = await sendQuery(
+      '{ allPeople { items { name films { id } } } }',
+    )
+
+    expect(body.data.allPeople.items).toEqual([
+      { name: 'Luke Skywalker', films: [{ id: 1 }] },
+      { name: 'Leia Organa', films: [{ id: 1 }] },
+    ])
+    const relationQueries = repository.find.mock.calls.filter(
+      ([options]) => options.relations,
+    )
+    expect(relationQueries).toHaveLength(1)
+    expect(relationQueries[0][0].relations).toEqual(['films'])
+  })
+})
@@ -0,0 +1,192 @@
+import { Inject, Type, ValidationPipe } from '@nestjs/common'
+import { Args, Int, Mutation, Query, Resolver } from '@nestjs/graphql'
+import { InjectDataSource } from '@nestjs/typeorm'
+import { Pagination, paginate } from 'nestjs-typeorm-paginate'
+import {
+  DataSource,
+  FindManyOptions,
+  FindOptionsWhere,
+  Repository,
+} from 'typeorm'
+import { Public } from 'src/auth/decorators/public.decorator'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Audited } from 'src/audit/decorators/audited.decorator'
+import { Permissions, resourceWritePermissions } from 'src/auth/permissions'
+import {
+  SearchableResource,
+  entityClasses,
+  limitCount,
+  searchFieldsMap,
+  unsortableFieldsMap,
+} from 'src/shared/constants'
+import { ListQuery, buildListFindOptions } from 'src/shared/query-filter'
+import {
+  ListArgs,
+  createDtoInputType,
+  createEntityObjectType,
+  createPageType,
+} from './graphql-types'
+
+/**
+ * Interface for the services whose methods are exposed as GraphQL mutations
+ *
+ * This is the common shape of `PeopleService`, `FilmsService`, `PlanetsService`, `SpeciesService`,
+ * `StarshipsService` and `VehiclesService`.
+ */
+export interface ResourceService<T> {
+  create(createDto: unknown): Promise<T>
+  update(id: number, updateDto: unknown): Promise<T>
+  remove(id: number): Promise<T>
+}
+
+/**
+ * Interface for the options of a generated resource resolver
+ *
+ * - `entity`: The entity class of the resource.
+ * - `resource`: The name of the resource (key of `searchFieldsMap`/`relatedEntitiesMap`).
+ * - `typeName`: The name of the GraphQL object type (e.g. `Person`), also used to name the queries
+ *   (`person`, `allPeople`) and the mutations (`createPerson`, `updatePerson`, `removePerson`).
+ * - `pluralName`: The plural of the type name (e.g. `People`), used to name the list query.
+ * - `service`, `createDto`, `updateDto`: The service and DTOs of the resource; mutations are only
+ *   generated when they are provided.
+ */
+export interface ResourceResolverOptions<T> {
+  entity: Type<T>
+  resource: keyof typeof entityClasses
+  typeName: string
+  pluralName: string
+  service?: Type<ResourceService<T>>
+  createDto?: Type<unknown>
+  updateDto?: Type<unknown>
+}
+
+/**
+ * Generates the GraphQL resolver of a resource
+ *
+ * The generated resolver exposes:
+ * - `<typeName>(id)`: a single resource by ID (public);
+ * - `all<pluralName>(page, limit, filters, search, sort)`: a paginated list, with the same filtering,
+ *   free-text search and sort rules as the REST list endpoints (see `buildListFindOptions`) (public;
+ *   the arguments are validated against `ListArgs`);
+ * - `create<typeName>`, `update<typeName>` and `remove<typeName>`: mutations reusing the `create`,
+ *   `update` and `remove` methods of the resource service, requiring the `<resource>:write` permission
+ *   and recorded in the audit log (`<resource>.create`, …) like the REST mutations.
+ *
+ * Relations of the returned resources are resolved by the generated object type (see `createEntityObjectType`).
+ * The `input` arguments of the mutations are validated against the rules of the DTOs; the validation pipe is
+ * given the expected type explicitly, because the generated input classes cannot be inferred from the signature.
+ *
+ * @param options (ResourceResolverOptions<T>) The options of the resolver.
+ * @returns Type<unknown> The generated resolver class, to be registered as a provider.
+ */
+export function createResourceResolver<T extends { id: number }>(
+  options: ResourceResolverOptions<T>,
+): Type<unknown> {
+  const { entity, resource, typeName, pluralName } = options
+  const objectType = createEntityObjectType(entity, typeName)
+  const pageType = createPageType(objectType, `${pluralName}Page`)
+  const singleName: string =
+    typeName.charAt(0).toLowerCase() + typeName.slice(1)
+
+  @Resolver(() => objectType, { isAbstract: true })
+  abstract class ResourceQueriesResolver {
+    protected readonly repository: Repository<T>
+
+    constructor(@InjectDataSource() dataSource: DataSource) {
+      this.repository = dataSource.getRepository(entity)
+    }
+
+    @Public()
+    @Query(() => objectType, { name: singleName, nullable: true })
+    async findOne(@Args('id', { type: () => Int }) id: number): Promise<T> {
+      return this.repository.findOne({
+        where: { id } as FindOptionsWhere<T>,
+      })
+    }
+
+    @Public()
+    @Query(() => pageType, { name: `all${pluralName}` })
+    async findAll(
+      @Args(new ValidationPipe()) args: ListArgs,
+    ): Promise<Pagination<T>> {
+      const { page, limit, filters, search, sort } = args
+      const query: ListQuery = {}
+      for (const { field, values } of filters ?? []) {
+        query[field] = values.length === 1 ? values[0] : values
+      }
+      if (search) query.search = search
+      if (sort) query.sort = sort
+      const findOptions: FindManyOptions<T> = buildListFindOptions(
+        this.repository,
+        query,
+        searchFieldsMap[resource as SearchableResource] ?? [],
+        unsortableFieldsMap[resource as SearchableResource] ?? [],
+      )
+      return paginate<T>(
+        this.repository,
+        { page, limit: Math.min(limit, limitCount) },
+        findOptions,
+      )
+    }
+  }
+
+  const { service, createDto, updateDto } = options
+  if (!service || !createDto || !updateDto) {
+    @Resolver(() => objectType)
+    class ReadOnlyResourceResolver extends ResourceQueriesResolver {}
+    return ReadOnlyResourceResolver
+  }
+  const writePermission: Permissions =
+    resourceWritePermissions[resource as keyof typeof resourceWritePermissions]
+  const createInput = createDtoInputType(createDto, `Create${typeName}Input`)
+  const updateInput = createDtoInputType(
+    updateDto,
+    `Update${typeName}Input`,
+    true,
+  )
+
+  @Resolver(() => objectType)
+  @Audited(resource)
+  class ResourceResolver extends ResourceQueriesResolver {
+    constructor(
+      @InjectDataSource() dataSource: DataSource,
+      @Inject(service) private readonly resourceService: ResourceService<T>,
+    ) {
+      super(dataSource)
+    }
+
+    @RequirePermissions(writePermission)
+    @Mutation(() => objectType, { name: `create${typeName}`, nullable: true })
+    async create(
+      @Args(
+        'input',
+        { type: () => createInput },
+        new ValidationPipe({ expectedType: createInput }),
+      )
+      input: object,
+    ): Promise<T> {
+      return this.resourceService.create(input)
+    }
+
+    @RequirePermissions(writePermission)
+    @Mutation(() => objectType, { name: `update${typeName}`, nullable: true })
+    async update(
+      @Args('id', { type: () => Int }) id: number,
+      @Args(
+        'input',
+        { type: () => updateInput },
+        new ValidationPipe({ expectedType: updateInput }),
+      )
+      input: object,
+    ): Promise<T> {
+      return this.resourceService.update(id, input)
+    }
+
+    @RequirePermissions(writePermission)
+    @Mutation(() => objectType, { name: `remove${typeName}`, nullable: true })
+    async remove(@Args('id', { type: () => Int }) id: number): Promise<T> {
+      return this.resourceService.remove(id)
+    }
+  }
+  return ResourceResolver
+}
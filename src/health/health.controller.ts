@@ -1,8 +1,10 @@
 import { Controller, Get } from "@nestjs/common";
 import { ApiOperation, ApiTags } from "@nestjs/swagger";
 import { HealthService } from "./health.service";
+import { Public } from "src/auth/decorators/public.decorator";
 
 
+@Public()
 @ApiTags('health')
 @Controller('health')
 export class HealthController {
@@ -0,0 +1,32 @@
+import { NestFactory } from '@nestjs/core'
+import { Logger } from '@nestjs/common'
+import 'dotenv/config'
+import { AppModule } from 'src/app.module'
+import { ImagesService, VariantBackfillResult } from './images.service'
+
+/**
+ * Generates the variants of the images uploaded before they existed
+ *
+ * Run with `npm run images:backfill-variants` (add `-- --force` to regenerate the variants of all
+ * the images, e.g. after a change of `IMAGE_VARIANT_SIZES`). The application context is started
+ * without the HTTP server, with the same environment as the API, so the images are read from and
+ * written to the configured image storage. The process exits with code 1 if any image failed.
+ */
+async function backfillImageVariants() {
+  const logger = new Logger('ImageVariantsBackfill')
+  const app = await NestFactory.createApplicationContext(AppModule)
+  try {
+    // Every resource module provides its own ImagesService: any of them will do
+    const imagesService: ImagesService = app.get(ImagesService, {
+      strict: false,
+    })
+    const { generated, failed }: VariantBackfillResult =
+      await imagesService.backfillVariants(process.argv.includes('--force'))
+    logger.log(`Variants generated for ${generated} image(s), ${failed} failed`)
+    process.exitCode = failed ? 1 : 0
+  } finally {
+    await app.close()
+  }
+}
+
+backfillImageVariants()
@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { ImageFormat } from '../processing/image-codecs'
+
+/**
+ * ImageVariant: A resized or converted copy of an image
+ *
+ * The variants are generated on upload (or by the `images:backfill-variants` command) and recorded
+ * on the `Image` they derive from. Their files are stored next to the original, and served by the
+ * storage from `url` or by the API from `GET /images/:id/content?variant=<name>&format=<format>`.
+ */
+export class ImageVariant {
+  /**
+   * name: The name of the size of the variant (e.g. `thumb`), from `IMAGE_VARIANT_SIZES`
+   */
+  @ApiProperty({
+    description: 'Name of the size of the variant.',
+    example: 'thumb',
+  })
+  name: string
+
+  /**
+   * format: The format of the file of the variant
+   */
+  @ApiProperty({
+    description: 'Format of the file of the variant.',
+    enum: ['jpeg', 'png', 'webp', 'avif'],
+  })
+  format: ImageFormat
+
+  /**
+   * width, height: The dimensions of the variant in pixels
+   */
+  @ApiProperty({ description: 'Width of the variant in pixels.' })
+  width: number
+
+  @ApiProperty({ description: 'Height of the variant in pixels.' })
+  height: number
+
+  /**
+   * size: The size of the file of the variant in bytes
+   */
+  @ApiProperty({ description: 'Size of the file of the variant in bytes.' })
+  size: number
+
+  /**
+   * url: The URL address of the file of the variant in the image storage
+   */
+  @ApiProperty({ description: 'URL address of the variant storage location.' })
+  url: string
+}
@@ -1,11 +1,19 @@
 import { ApiProperty } from '@nestjs/swagger'
-import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm'
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm'
 import { People } from '../../people/entities/people.entity'
 import { Film } from '../../films/entities/film.entity'
 import { Planet } from '../../planets/entities/planet.entity'
 import { Starship } from '../../starships/entities/starship.entity'
 import { Vehicle } from '../../vehicles/entities/vehicle.entity'
 import { Species } from '../../species/entities/species.entity'
+import { ImageVariant } from '../dto/image-variant.dto'
 
 /**
  * Image Entity: Represents an image resource in the database
@@ -61,6 +69,96 @@ export class Image {
   @ApiProperty({ description: 'URL address of the image storage location.' })
   url: string
 
+  /**
+   * key: The key of the file in the image storage (string)
+   *
+   * This property names the stored file: the SHA-256 checksum of its content and the extension of
+   * its format, so that distinct files never collide and identical files are stored once, whatever
+   * their original names.
+   */
+  @Column({ length: 255 })
+  @ApiProperty({ description: 'Key of the file in the image storage.' })
+  key: string
+
+  /**
+   * contentType: The MIME type of the file (string)
+   *
+   * This property is detected from the content of the file on upload. It is `null` for the images
+   * uploaded before it was recorded (as are the other file metadata), until
+   * `images:backfill-variants` reads their files.
+   */
+  @Column({ length: 100, nullable: true })
+  @ApiProperty({ description: 'MIME type of the file.', nullable: true })
+  contentType: string | null
+
+  /**
+   * size: The size of the file in bytes (number)
+   */
+  @Column({ nullable: true })
+  @ApiProperty({ description: 'Size of the file in bytes.', nullable: true })
+  size: number | null
+
+  /**
+   * width, height: The dimensions of the image in pixels, as displayed (number)
+   */
+  @Column({ nullable: true })
+  @ApiProperty({ description: 'Width of the image in pixels.', nullable: true })
+  width: number | null
+
+  @Column({ nullable: true })
+  @ApiProperty({
+    description: 'Height of the image in pixels.',
+    nullable: true,
+  })
+  height: number | null
+
+  /**
+   * checksum: The SHA-256 checksum of the file, in hexadecimal (string)
+   *
+   * This property identifies the content of the file: uploading a file already stored reuses it.
+   */
+  @Index()
+  @Column({ type: 'char', length: 64, nullable: true })
+  @ApiProperty({
+    description: 'SHA-256 checksum of the file (hexadecimal).',
+    nullable: true,
+  })
+  checksum: string | null
+
+  /**
+   * uploaderId: The ID of the user who uploaded the image (string)
+   *
+   * This property is a plain column rather than a relation, so that the image outlives the account.
+   */
+  @Column({ length: 36, nullable: true })
+  @ApiProperty({
+    description: 'ID of the user who uploaded the image.',
+    nullable: true,
+  })
+  uploaderId: string | null
+
+  /**
+   * uploadedAt: The date the image was uploaded (Date)
+   */
+  @CreateDateColumn({ nullable: true })
+  @ApiProperty({ description: 'Upload date of the image.', nullable: true })
+  uploadedAt: Date | null
+
+  /**
+   * variants: The resized and converted copies of the image (ImageVariant[])
+   *
+   * This property lists the variants generated from the image (sizes and formats), stored as JSON.
+   * It is `null` for the images uploaded before the variants existed, until the
+   * `images:backfill-variants` command generates theirs.
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  @ApiProperty({
+    description: 'Resized and converted copies of the image.',
+    type: [ImageVariant],
+    nullable: true,
+  })
+  variants: ImageVariant[] | null
+
   /**
    * people: The People resource featured in this image (People)
    *
@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { INestApplication } from '@nestjs/common'
+import { Readable } from 'stream'
+import * as request from 'supertest'
+import { ImagesController, parseRangeHeader } from './images.controller'
+import { ImageFile, ImagesService } from './images.service'
+import { ByteRange } from './storage/image-storage'
+import { AuditService } from 'src/audit/audit.service'
+
+/**
+ * Unit test suite for `parseRangeHeader`.
+ */
+describe('parseRangeHeader', () => {
+  it('should parse a range of bytes', () => {
+    expect(parseRangeHeader('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 })
+    expect(parseRangeHeader(' bytes=10-10 ', 1000)).toEqual({
+      start: 10,
+      end: 10,
+    })
+  })
+
+  it('should end an open-ended range at the end of the file', () => {
+    expect(parseRangeHeader('bytes=900-', 1000)).toEqual({
+      start: 900,
+      end: 999,
+    })
+    expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual({
+      start: 900,
+      end: 999,
+    })
+  })
+
+  it('should parse a suffix range as the last bytes of the file', () => {
+    expect(parseRangeHeader('bytes=-100', 1000)).toEqual({
+      start: 900,
+      end: 999,
+    })
+    expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({
+      start: 0,
+      end: 999,
+    })
+  })
+
+  it('should reject a range outside the file', () => {
+    expect(parseRangeHeader('bytes=1000-', 1000)).toBeNull()
+    expect(parseRangeHeader('bytes=1000-1999', 1000)).toBeNull()
+    expect(parseRangeHeader('bytes=-0', 1000)).toBeNull()
+    expect(parseRangeHeader('bytes=-10', 0)).toBeNull()
+  })
+
+  it.each([
+    undefined,
+    '',
+    'bytes=-',
+    'bytes=99-0',
+    'bytes=0-9,20-29',
+    'items=0-9',
+    'bytes=a-b',
+  ])('should ignore the header %p and send the whole file', (header) => {
+    expect(parseRangeHeader(header, 1000)).toBeUndefined()
+  })
+})
+
+/**
+ * Unit test suite for ImagesController.
+ * The controller is served by an HTTP server, for the conditional and range requests; the
+ * ImagesService and the AuditService are mocked.
+ */
+describe('ImagesController', () => {
+  let app: INestApplication
+  let imagesService: Record<'getFile' | 'openFile', jest.Mock>
+
+  const content: Buffer = Buffer.from('0123456789abcdefghij')
+  const lastModified: Date = new Date('2024-07-01T12:00:00Z')
+  const file: ImageFile = {
+    key: 'people/1/abc@thumb.webp',
+    stat: { size: content.length, etag: '"v1"', lastModified },
+    contentType: 'image/webp',
+  }
+
+  beforeEach(async () => {
+    imagesService = {
+      getFile: jest.fn().mockResolvedValue(file),
+      openFile: jest.fn(async (_file: ImageFile, range?: ByteRange) =>
+        Readable.from([
+          range ? content.subarray(range.start, range.end + 1) : content,
+        ]),
+      ),
+    }
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ImagesController],
+      providers: [
+        { provide: ImagesService, useValue: imagesService },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+      ],
+    }).compile()
+
+    app = module.createNestApplication()
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  /**
+   * Test suite for the `getContent` method of ImagesController.
+   */
+  describe('getContent', () => {
+    it('should send the file with its validators', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/images/1/content?variant=thumb&format=webp')
+        .expect(200)
+
+      expect(imagesService.getFile).toHaveBeenCalledWith('1', 'thumb', 'webp')
+      expect(response.headers).toMatchObject({
+        'content-type': 'image/webp',
+        'content-length': '20',
+        etag: '"v1"',
+        'last-modified': lastModified.toUTCString(),
+        'accept-ranges': 'bytes',
+      })
+      expect(response.body).toEqual(content)
+    })
+
+    it('should answer 304 when the ETag matches', async () => {
+      await request(app.getHttpServer())
+        .get('/images/1/content')
+        .set('If-None-Match', '"v1"')
+        .expect(304)
+
+      expect(imagesService.openFile).not.toHaveBeenCalled()
+    })
+
+    it('should answer 304 when the file was not modified since the date', async () => {
+      await request(app.getHttpServer())
+        .get('/images/1/content')
+        .set('If-Modified-Since', new Date('2024-07-02').toUTCString())
+        .expect(304)
+    })
+
+    it('should send the file when the ETag changed', async () => {
+      await request(app.getHttpServer())
+        .get('/images/1/content')
+        .set('If-None-Match', '"v0"')
+        .expect(200)
+    })
+
+    it('should send a range of bytes', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/images/1/content')
+        .set('Range', 'bytes=-5')
+        .expect(206)
+
+      expect(response.headers).toMatchObject({
+        'content-range': 'bytes 15-19/20',
+        'content-length': '5',
+      })
+      expect(response.body).toEqual(Buffer.from('fghij'))
+      expect(imagesService.openFile).toHaveBeenCalledWith(file, {
+        start: 15,
+        end: 19,
+      })
+    })
+
+    it('should answer 416 for a range outside the file', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/images/1/content')
+        .set('Range', 'bytes=20-')
+        .expect(416)
+
+      expect(response.headers['content-range']).toBe('bytes */20')
+      expect(imagesService.openFile).not.toHaveBeenCalled()
+    })
+
+    it.each([['"v1"'], [lastModified.toUTCString()]])(
+      'should send the range when If-Range matches (%s)',
+      async (ifRange) => {
+        await request(app.getHttpServer())
+          .get('/images/1/content')
+          .set('Range', 'bytes=0-3')
+          .set('If-Range', ifRange)
+          .expect(206)
+          .expect('Content-Range', 'bytes 0-3/20')
+      },
+    )
+
+    it('should send the whole file when If-Range no longer matches', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/images/1/content')
+        .set('Range', 'bytes=0-3')
+        .set('If-Range', '"v0"')
+        .expect(200)
+
+      expect(response.headers['content-range']).toBeUndefined()
+      expect(response.body).toEqual(content)
+    })
+
+    it('should only send the headers of a HEAD request', async () => {
+      await request(app.getHttpServer())
+        .head('/images/1/content')
+        .expect(200)
+        .expect('Content-Length', '20')
+
+      expect(imagesService.openFile).not.toHaveBeenCalled()
+    })
+  })
+})
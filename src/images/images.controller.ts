@@ -1,63 +1,290 @@
 import {
   Controller,
+  Get,
   Post,
   Param,
   Delete,
+  Query,
+  Req,
+  Res,
+  DefaultValuePipe,
+  HttpException,
+  HttpStatus,
   UploadedFile,
-  UseGuards,
   ParseFilePipe,
   FileTypeValidator,
   UseInterceptors,
 } from '@nestjs/common'
-import { ImagesService } from './images.service'
+import { ImageFile, ImagesService } from './images.service'
 import {
   ApiBearerAuth,
   ApiBody,
   ApiConsumes,
+  ApiHeader,
+  ApiOperation,
   ApiParam,
+  ApiProduces,
+  ApiQuery,
   ApiTags,
 } from '@nestjs/swagger'
+import { Request, Response } from 'express'
+import { Pagination } from 'nestjs-typeorm-paginate'
+import { CursorPagination } from 'src/shared/cursor-pagination'
 import { FileUploadDto } from './dto/file-upload.dto'
-import { AdminGuard } from 'src/auth/guards/admin.guard'
+import { Image } from './entities/image.entity'
+import { ByteRange } from './storage/image-storage'
+import { ImageFormat } from './processing/image-codecs'
+import { Public } from 'src/auth/decorators/public.decorator'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Audited } from 'src/audit/decorators/audited.decorator'
+import { Permissions } from 'src/auth/permissions'
+import { imageUploadSettings, limitCount } from 'src/shared/constants'
+import { ApiProblemResponse } from 'src/shared/problem-details'
 import { FileInterceptor } from '@nestjs/platform-express'
 
 /**
- * Controller handling image upload and deletion.
+ * Parses the `Range` header of a request for the content of a file (RFC 9110)
  *
- * This controller provides endpoints for uploading and deleting images. It is secured with the AdminGuard
- * and only accessible to authenticated users with admin privileges.
+ * Only a single range of bytes is served: a header with several ranges, another unit or an invalid
+ * syntax is ignored, and the whole file is sent.
+ *
+ * @param header The `Range` header of the request
+ * @param size The size of the file in bytes
+ * @returns The range to send, `null` if the range lies outside the file, or `undefined` to send the
+ *          whole file
+ */
+export function parseRangeHeader(
+  header: string | undefined,
+  size: number,
+): ByteRange | null | undefined {
+  const match: RegExpMatchArray | null = /^bytes=(\d*)-(\d*)$/.exec(
+    header?.trim() ?? '',
+  )
+  if (!match || (!match[1] && !match[2])) {
+    return undefined
+  }
+  if (!match[1]) {
+    // Suffix range: the last bytes of the file
+    const length: number = Number(match[2])
+    return length && size
+      ? { start: Math.max(size - length, 0), end: size - 1 }
+      : null
+  }
+  const start: number = Number(match[1])
+  const end: number = match[2] ? Number(match[2]) : Infinity
+  if (end < start) {
+    return undefined
+  }
+  return start < size ? { start, end: Math.min(end, size - 1) } : null
+}
+
+/**
+ * Controller handling the images.
+ *
+ * This controller provides public endpoints for listing images, reading their metadata and streaming
+ * their content (or the content of their resized and converted variants) from the image storage,
+ * and endpoints for uploading and deleting images. Uploading requires the `images:upload`
+ * permission and deleting the `images:delete` permission. Both are recorded in the audit log. The images of a resource are listed at `GET /<resource>/:id/images`.
  */
 @Controller('images')
 @ApiTags('images')
-@UseGuards(AdminGuard)
 @ApiBearerAuth()
+@Audited('images')
 export class ImagesController {
   constructor(private readonly imagesService: ImagesService) {}
 
+  /**
+   * Retrieves all images (paginated)
+   *
+   * @param page The page number to retrieve (defaults to 1)
+   * @param limit The number of items per page (defaults to `limitCount`)
+   * @param cursor The opaque cursor selecting cursor pagination (empty for the first page)
+   * @returns A Promise resolving to a `Pagination<Image>` object containing the paginated list, or a
+   *          `CursorPagination<Image>` in cursor mode
+   */
+  @Public()
+  @Get()
+  @ApiOperation({ summary: 'Get all the images' })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id`.',
+  })
+  async findAll(
+    @Query('page', new DefaultValuePipe(1)) page: number,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+    @Query('cursor') cursor?: string,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    if (limit > limitCount) limit = limitCount
+    return this.imagesService.findAll({ page, limit }, cursor)
+  }
+
+  /**
+   * Retrieves the metadata of an image by ID
+   *
+   * @param id The ID of the image
+   * @returns A Promise resolving to the `Image` entity object, with the URL of its resource
+   */
+  @Public()
+  @Get(':id')
+  @ApiOperation({ summary: 'Get the metadata of an image by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The image does not exist')
+  async findOne(@Param('id') id: number): Promise<Image> {
+    return this.imagesService.findOne(id)
+  }
+
+  /**
+   * Streams the content of an image, or of one of its variants, by ID
+   *
+   * The file is read from the image storage, whichever driver holds it, and sent with its
+   * `Content-Type`, `ETag` and `Last-Modified` headers. Conditional requests (`If-None-Match`,
+   * `If-Modified-Since`) are answered with `304`, and a single `Range` of bytes with `206` (unless
+   * an `If-Range` validator no longer matches the file).
+   *
+   * @param id The ID of the image
+   * @param variant The name of the size of a variant (e.g. `thumb`), the original if not given
+   * @param format The format of the variant, the format of the original by default
+   * @param req The HTTP request object, for the conditional and range headers
+   * @param res The HTTP response object, written directly to stream the file
+   */
+  @Public()
+  @Get(':id/content')
+  @ApiOperation({ summary: 'Get the content of an image by its "id"' })
+  @ApiProduces('image/jpeg', 'image/png', 'image/webp', 'image/avif')
+  @ApiQuery({
+    name: 'variant',
+    required: false,
+    description:
+      'The name of the size of a variant of the image, e.g. `thumb`.',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['jpeg', 'png', 'webp', 'avif'],
+    description: 'The format of the variant.',
+  })
+  @ApiHeader({
+    name: 'Range',
+    required: false,
+    description: 'A single range of bytes, e.g. `bytes=0-1023`.',
+  })
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'A format is given without a variant',
+  )
+  @ApiProblemResponse(
+    HttpStatus.NOT_FOUND,
+    'The image, the variant or its file does not exist',
+  )
+  @ApiProblemResponse(
+    HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+    'The range lies outside the file',
+  )
+  async getContent(
+    @Param('id') id: number,
+    @Query('variant') variant: string | undefined,
+    @Query('format') format: ImageFormat | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<void> {
+    const file: ImageFile = await this.imagesService.getFile(
+      id,
+      variant,
+      format,
+    )
+    const { size, etag, lastModified } = file.stat
+    res.set({
+      'Content-Type': file.contentType,
+      ETag: etag,
+      'Last-Modified': lastModified.toUTCString(),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'public, no-cache',
+    })
+    // Compares the validators of the request with the headers set above
+    if (req.fresh) {
+      res.status(HttpStatus.NOT_MODIFIED).end()
+      return
+    }
+    const ifRange: string | undefined = req.get('If-Range')
+    const range: ByteRange | null | undefined =
+      !ifRange || ifRange === etag || ifRange === lastModified.toUTCString()
+        ? parseRangeHeader(req.get('Range'), size)
+        : undefined
+    if (range === null) {
+      res.set('Content-Range', `bytes */${size}`)
+      throw new HttpException(
+        `Range not satisfiable: the file has ${size} bytes`,
+        HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+      )
+    }
+    if (range) {
+      res
+        .status(HttpStatus.PARTIAL_CONTENT)
+        .set('Content-Range', `bytes ${range.start}-${range.end}/${size}`)
+        .set('Content-Length', String(range.end - range.start + 1))
+    } else {
+      res.set('Content-Length', String(size))
+    }
+    if (req.method === 'HEAD') {
+      res.end()
+      return
+    }
+    const stream = await this.imagesService.openFile(file, range)
+    // Headers are already sent when the storage fails mid-way: abort the response
+    stream.on('error', () => res.destroy()).pipe(res)
+  }
+
   /**
    * Upload an image file for a specified entity.
    *
    * This endpoint handles image file uploads for a specific entity identified by its ID.
-   * The uploaded file is validated to be of the correct type (JPEG, JPG, PNG, JFIF) using the ParseFilePipe
-   * and FileTypeValidator. The file, along with entity name, ID, and optional description, is passed to the
-   * ImagesService for processing and storage.
+   * Files larger than `IMAGE_MAX_UPLOAD_SIZE` are rejected while they are received, and the declared type
+   * of the file is validated (JPEG, JPG, PNG, JFIF) using the ParseFilePipe and FileTypeValidator. The file,
+   * along with entity name, ID, and optional description, is passed to the ImagesService, which checks its
+   * real format and dimensions, removes its metadata and stores it, which records the authenticated user as its uploader.
+   * A file already stored is shared rather than stored again, unless it is already an image of the
+   * entity.
    *
    * @param file The uploaded image file (validated as JPEG, JPG, PNG, JFIF)
    * @param entityName The name of the entity the image is associated with
    * @param id The ID of the entity the image is associated with
    * @param description An optional description of the image
+   * @param req The HTTP request object, for the authenticated user
    * @returns A promise resolving to the result of the image upload operation
    */
+  @RequirePermissions(Permissions.ImagesUpload)
   @Post('upload/:entity/:id/:description')
-  @UseInterceptors(FileInterceptor('file'))
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: imageUploadSettings.maxSize },
+    }),
+  )
   @ApiConsumes('multipart/form-data')
   @ApiBody({ type: FileUploadDto })
   @ApiParam({ name: 'description', required: false })
+  @ApiProblemResponse(
+    HttpStatus.PAYLOAD_TOO_LARGE,
+    'The file is larger than IMAGE_MAX_UPLOAD_SIZE',
+  )
+  @ApiProblemResponse(
+    HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+    'The content of the file is not a JPEG or PNG image',
+  )
+  @ApiProblemResponse(
+    HttpStatus.UNPROCESSABLE_ENTITY,
+    'The image is damaged, larger than IMAGE_MAX_PIXELS or its data inflates beyond its dimensions',
+  )
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'The file is already an image of the entity',
+  )
   async uploadImage(
     @UploadedFile(
       new ParseFilePipe({
         validators: [
-          // new MaxFileSizeValidator({ maxSize: 3000 }),
           new FileTypeValidator({ fileType: '.(jpeg|jpg|png|jfif)' }),
         ],
       }),
@@ -66,6 +293,7 @@ export class ImagesController {
     @Param('entity') entityName: string,
     @Param('id') id: number,
     @Param('description') description: string,
+    @Req() req,
   ) {
     return await this.imagesService.uploadImage(
       file.originalname,
@@ -73,6 +301,7 @@ export class ImagesController {
       entityName,
       id,
       description,
+      req.user?.userId,
     )
   }
 
@@ -85,6 +314,7 @@ export class ImagesController {
    * @param imagename The name of the image to be deleted
    * @returns A promise resolving to a message indicating the result of the deletion operation
    */
+  @RequirePermissions(Permissions.ImagesDelete)
   @Delete('delete/:imagename')
   async removeImage(@Param('imagename') imagename: string): Promise<string> {
     return this.imagesService.removeImage(imagename)
@@ -100,6 +330,7 @@ export class ImagesController {
    * @param id The ID of the entity whose images are to be deleted
    * @returns A promise resolving to a message indicating the result of the deletion operation
    */
+  @RequirePermissions(Permissions.ImagesDelete)
   @Delete('delete/:entity/:id')
   async removeImagesOfAnObject(
     @Param('entity') entityName: string,
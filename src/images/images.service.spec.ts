@@ -0,0 +1,340 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { BadRequestException, HttpStatus } from '@nestjs/common'
+import { MoreThan } from 'typeorm'
+import { ImagesService } from './images.service'
+import { Image } from './entities/image.entity'
+import { ImageStorage } from './storage/image-storage'
+import { ImageVariantsService } from './processing/image-variants.service'
+import { ImageFormat } from './processing/image-codecs'
+import { encodeJpeg, readJpegDimensions } from './processing/jpeg.codec'
+import {
+  createGrayscalePng,
+  exifSecret,
+  exifSegment,
+  gradient,
+  insertJpegSegments,
+} from './test-constants'
+import { People } from 'src/people/entities/people.entity'
+import { Film } from 'src/films/entities/film.entity'
+import { Starship } from 'src/starships/entities/starship.entity'
+import { Planet } from 'src/planets/entities/planet.entity'
+import { Species } from 'src/species/entities/species.entity'
+import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
+import { imageUploadSettings, localUrl } from 'src/shared/constants'
+
+/**
+ * Unit test suite for ImagesService.
+ * The image storage, the variant generation and the repositories are mocked.
+ */
+describe('ImagesService', () => {
+  let service: ImagesService
+  let imageStorage: Record<keyof ImageStorage, jest.Mock>
+  let imageRepository: Record<string, jest.Mock>
+
+  beforeEach(async () => {
+    imageStorage = {
+      put: jest.fn(),
+      delete: jest.fn(),
+      stat: jest.fn(),
+      createReadStream: jest.fn(),
+      getPublicUrl: jest.fn((key) => `https://images.test/${key}`),
+    }
+    imageRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((values) => values),
+      save: jest.fn(async (image) => ({ id: 1, ...image })),
+      find: jest.fn(),
+    }
+    const entityRepository = {
+      findOne: jest.fn(async ({ where }) => ({ id: where.id })),
+    }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImagesService,
+        { provide: ImageStorage, useValue: imageStorage },
+        {
+          provide: ImageVariantsService,
+          useValue: { generate: jest.fn().mockResolvedValue([]) },
+        },
+        { provide: getRepositoryToken(Image), useValue: imageRepository },
+        ...[People, Film, Starship, Planet, Species, Vehicle].map((entity) => ({
+          provide: getRepositoryToken(entity),
+          useValue: entityRepository,
+        })),
+      ],
+    }).compile()
+
+    service = module.get<ImagesService>(ImagesService)
+  })
+
+  it('should be defined', () => {
+    expect(service).toBeDefined()
+  })
+
+  /**
+   * Test suite for the checks of the `uploadImage` method of ImagesService.
+   */
+  describe('uploadImage', () => {
+    const jpeg: Buffer = encodeJpeg(gradient, 90)
+
+    it('should store the image without its EXIF metadata, orientation kept', async () => {
+      const image: Image = await service.uploadImage(
+        'photo.jpg',
+        insertJpegSegments(jpeg, exifSegment),
+        'people',
+        1,
+        'Luke',
+        'user-1',
+      )
+
+      const [key, stored, contentType] = imageStorage.put.mock.calls[0]
+      expect(stored.includes(exifSecret)).toBe(false)
+      expect(readJpegDimensions(stored)).toEqual({ width: 30, height: 40 })
+      expect(contentType).toBe('image/jpeg')
+      expect(image).toMatchObject({
+        key,
+        size: stored.length,
+        width: 30,
+        height: 40,
+        uploaderId: 'user-1',
+      })
+    })
+
+    it('should reject with 415 a file that is not an image', async () => {
+      await expect(
+        service.uploadImage(
+          'photo.jpg',
+          Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'),
+          'people',
+          1,
+          'Luke',
+        ),
+      ).rejects.toMatchObject({ status: HttpStatus.UNSUPPORTED_MEDIA_TYPE })
+      expect(imageStorage.put).not.toHaveBeenCalled()
+    })
+
+    it('should reject with 422 dimensions over the limit', async () => {
+      // The header claims 100000x100000 pixels for a few bytes of data
+      const png: Buffer = createGrayscalePng(100000, 100000, Buffer.alloc(1))
+
+      await expect(
+        service.uploadImage('photo.png', png, 'people', 1, 'Luke'),
+      ).rejects.toMatchObject({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        message: `The image is too large (100000x100000): at most ${imageUploadSettings.maxPixels} pixels are accepted.`,
+      })
+      expect(imageStorage.put).not.toHaveBeenCalled()
+    })
+
+    it('should reject with 422 image data larger than the dimensions', async () => {
+      // 1000x1000 grayscale pixels hold 1001000 bytes of data: the zeros inflate to 16 MB
+      const png: Buffer = createGrayscalePng(1000, 1000, Buffer.alloc(16e6))
+
+      await expect(
+        service.uploadImage('photo.png', png, 'people', 1, 'Luke'),
+      ).rejects.toMatchObject({ status: HttpStatus.UNPROCESSABLE_ENTITY })
+      expect(imageStorage.put).not.toHaveBeenCalled()
+    })
+
+    it('should reject with 422 a damaged image', async () => {
+      await expect(
+        service.uploadImage(
+          'photo.jpg',
+          jpeg.subarray(0, 30),
+          'people',
+          1,
+          'Luke',
+        ),
+      ).rejects.toMatchObject({ status: HttpStatus.UNPROCESSABLE_ENTITY })
+    })
+  })
+
+  /**
+   * Test suite for the `getFile` method of ImagesService.
+   */
+  describe('getFile', () => {
+    const stat = {
+      size: 100,
+      etag: '"v1"',
+      lastModified: new Date('2024-07-01T12:00:00Z'),
+    }
+
+    beforeEach(() => {
+      imageRepository.findOne.mockResolvedValue({
+        id: 1,
+        key: 'people/1/abc.jpg',
+        contentType: 'image/jpeg',
+        variants: [
+          { name: 'thumb', format: 'jpeg', width: 160, height: 120 },
+          { name: 'thumb', format: 'webp', width: 160, height: 120 },
+          { name: 'thumb', format: 'avif', width: 160, height: 120 },
+          { name: 'large', format: 'jpeg', width: 1280, height: 960 },
+        ],
+      })
+      imageStorage.stat.mockResolvedValue(stat)
+    })
+
+    it('should return the original file', async () => {
+      expect(await service.getFile(1)).toEqual({
+        key: 'people/1/abc.jpg',
+        stat,
+        contentType: 'image/jpeg',
+      })
+      expect(imageStorage.stat).toHaveBeenCalledWith('people/1/abc.jpg')
+    })
+
+    it('should return a variant in the format of the original by default', async () => {
+      expect(await service.getFile(1, 'large')).toMatchObject({
+        key: 'people/1/abc@large.jpg',
+        contentType: 'image/jpeg',
+      })
+    })
+
+    it.each([
+      ['webp', 'people/1/abc@thumb.webp', 'image/webp'],
+      ['avif', 'people/1/abc@thumb.avif', 'image/avif'],
+    ])(
+      'should return a variant in the %s format',
+      async (format, key, contentType) => {
+        expect(
+          await service.getFile(1, 'thumb', format as ImageFormat),
+        ).toMatchObject({ key, contentType })
+      },
+    )
+
+    it('should prefer the content type stored with the file', async () => {
+      imageStorage.stat.mockResolvedValue({ ...stat, contentType: 'image/x' })
+
+      expect(await service.getFile(1, 'thumb', 'webp')).toMatchObject({
+        contentType: 'image/x',
+      })
+    })
+
+    it('should reject with 400 a format without a variant', async () => {
+      await expect(service.getFile(1, undefined, 'webp')).rejects.toMatchObject(
+        { status: HttpStatus.BAD_REQUEST },
+      )
+    })
+
+    it.each([
+      ['medium', undefined],
+      ['large', 'webp'],
+    ])(
+      "should reject with 404 the missing variant '%s' (%s)",
+      async (variant, format) => {
+        await expect(
+          service.getFile(1, variant, format as ImageFormat),
+        ).rejects.toMatchObject({ status: HttpStatus.NOT_FOUND })
+        expect(imageStorage.stat).not.toHaveBeenCalled()
+      },
+    )
+
+    it('should reject with 404 an unknown image', async () => {
+      imageRepository.findOne.mockResolvedValue(null)
+
+      await expect(service.getFile(2)).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      })
+    })
+
+    it('should reject with 404 a missing file', async () => {
+      imageStorage.stat.mockResolvedValue(null)
+
+      await expect(service.getFile(1, 'thumb')).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      })
+    })
+  })
+
+  /**
+   * Test suite for the cursor pagination of the `findAll` and `findAllOfAnEntity` methods of
+   * ImagesService.
+   */
+  describe('cursor pagination', () => {
+    beforeEach(() => {
+      imageRepository.find.mockImplementation(async ({ take }) =>
+        [{ id: 1 }, { id: 2 }, { id: 3 }].slice(0, take),
+      )
+    })
+
+    it('should return the first page of the images of a resource with a cursor to the next one', async () => {
+      const page = await service.findAllOfAnEntity(
+        'people',
+        1,
+        { page: 1, limit: 2 },
+        '',
+      )
+
+      expect(page.items.map(({ id }) => id)).toEqual([1, 2])
+      expect(page.meta).toEqual({
+        itemCount: 2,
+        itemsPerPage: 2,
+        nextCursor: expect.any(String),
+        prevCursor: null,
+      })
+      expect(page.links).toEqual({
+        next: expect.stringMatching(
+          `^${localUrl}people/1/images\\?limit=2&cursor=`,
+        ),
+        prev: null,
+      })
+      expect(imageRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { people: { id: 1 } },
+          order: { id: 'ASC' },
+          take: 3,
+        }),
+      )
+    })
+
+    it('should return the images after the cursor', async () => {
+      const { meta } = await service.findAll({ page: 1, limit: 2 }, '')
+      imageRepository.find.mockResolvedValue([{ id: 3 }])
+
+      const page = await service.findAll(
+        { page: 1, limit: 2 },
+        (meta as { nextCursor: string }).nextCursor,
+      )
+
+      expect(page.items.map(({ id }) => id)).toEqual([3])
+      expect(page.meta).toEqual(
+        expect.objectContaining({
+          nextCursor: null,
+          prevCursor: expect.any(String),
+        }),
+      )
+      expect(imageRepository.find).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: [{ id: MoreThan(2) }] }),
+      )
+    })
+
+    it('should keep the filter of the resource after the cursor', async () => {
+      const { meta } = await service.findAllOfAnEntity(
+        'films',
+        4,
+        { page: 1, limit: 2 },
+        '',
+      )
+
+      await service.findAllOfAnEntity(
+        'films',
+        4,
+        { page: 1, limit: 2 },
+        (meta as { nextCursor: string }).nextCursor,
+      )
+
+      expect(imageRepository.find).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: [{ films: { id: 4 }, id: MoreThan(2) }],
+        }),
+      )
+    })
+
+    it('should reject a malformed cursor', async () => {
+      await expect(
+        service.findAll({ page: 1, limit: 2 }, 'not-a-cursor'),
+      ).rejects.toThrow(BadRequestException)
+    })
+  })
+})
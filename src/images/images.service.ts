@@ -1,8 +1,21 @@
-import { Injectable, NotFoundException } from '@nestjs/common'
-import { ConfigService } from '@nestjs/config'
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common'
 import { InjectRepository } from '@nestjs/typeorm'
 import { Image } from 'src/images/entities/image.entity'
-import { Like, Repository } from 'typeorm'
+import {
+  FindManyOptions,
+  FindOptionsWhere,
+  IsNull,
+  Like,
+  Repository,
+} from 'typeorm'
 import { Film } from 'src/films/entities/film.entity'
 import { Starship } from 'src/starships/entities/starship.entity'
 import { Planet } from 'src/planets/entities/planet.entity'
@@ -10,31 +23,170 @@ import { Species } from 'src/species/entities/species.entity'
 import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
 import { People } from 'src/people/entities/people.entity'
 import {
-  getFileNameForDeleteFromAWS as getFileNameForDeleteImageFromAWS,
   getImageStorageURL,
   getResponceOfException,
 } from 'src/shared/common.functions'
+import { Entity, imageUploadSettings, localUrl } from 'src/shared/constants'
+import {
+  getExpandRelations,
+  serializePagination,
+  serializeResource,
+} from 'src/shared/relation-expansion'
+import {
+  IPaginationOptions,
+  Pagination,
+  paginate,
+} from 'nestjs-typeorm-paginate'
+import { Readable } from 'stream'
+import { createHash } from 'crypto'
+import { extname } from 'path'
+import {
+  ByteRange,
+  ImageStorage,
+  StoredFileStat,
+} from './storage/image-storage'
 import {
-  DeleteObjectCommand,
-  PutObjectCommand,
-  S3Client,
-} from '@aws-sdk/client-s3'
-import { Entity } from 'src/shared/constants'
+  ImageVariantsService,
+  getVariantKey,
+} from './processing/image-variants.service'
+import {
+  ImageFormat,
+  checkImageData,
+  detectImageFormat,
+  imageFormats,
+  readImageDimensions,
+} from './processing/image-codecs'
+import { stripImageMetadata } from './processing/image-metadata'
+import {
+  CursorPagination,
+  paginateByCursor,
+} from 'src/shared/cursor-pagination'
+import { ImageVariant } from './dto/image-variant.dto'
+
+/**
+ * MIME types of the image file extensions accepted on upload, for the files whose storage records none
+ */
+const imageContentTypes: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.jfif': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+}
+
+/**
+ * Interface for the metadata of an image file, recorded on its images
+ */
+type StoredImageMetadata = Pick<
+  Image,
+  'key' | 'contentType' | 'size' | 'width' | 'height' | 'checksum'
+>
+
+/**
+ * Describes an image file: its storage key, MIME type, size, dimensions and checksum
+ *
+ * The key is the SHA-256 checksum of the file followed by the extension of its format, so that it
+ * is the same for identical files and never collides for distinct ones, whatever their names.
+ *
+ * @param fileName The name of the file, for the extension of a file whose format is not detected
+ * @param file The content of the file
+ * @returns The metadata of the file
+ */
+function describeImageFile(
+  fileName: string,
+  file: Buffer,
+): StoredImageMetadata {
+  const checksum: string = createHash('sha256').update(file).digest('hex')
+  const format: ImageFormat | null = detectImageFormat(file)
+  const extension: string = format
+    ? imageFormats[format].extension
+    : extname(fileName).toLowerCase()
+  const dimensions = readImageDimensions(file)
+  return {
+    key: `${checksum}${extension}`,
+    contentType: format
+      ? imageFormats[format].contentType
+      : imageContentTypes[extension] ?? null,
+    size: file.length,
+    width: dimensions?.width ?? null,
+    height: dimensions?.height ?? null,
+    checksum,
+  }
+}
+
+/**
+ * Checks that an uploaded file is an image that can be stored
+ *
+ * The format is detected from the first bytes of the file (whatever its name and declared MIME
+ * type), the dimensions read from its headers are bounded by `imageUploadSettings.maxPixels`, and
+ * its compressed data must not inflate to more than these dimensions hold.
+ *
+ * @param file The content of the uploaded file
+ * @throws UnsupportedMediaTypeException if the file is not a JPEG or PNG image
+ * @throws UnprocessableEntityException if the dimensions of the image are unreadable or too large,
+ *         or its data is damaged or larger than its dimensions (a decompression bomb)
+ */
+async function checkUploadedImage(file: Buffer): Promise<void> {
+  if (!detectImageFormat(file)) {
+    throw new UnsupportedMediaTypeException(
+      'The file is not a JPEG or PNG image.',
+    )
+  }
+  const dimensions = readImageDimensions(file)
+  if (!dimensions?.width || !dimensions?.height) {
+    throw new UnprocessableEntityException(
+      'The dimensions of the image cannot be read: the file is damaged.',
+    )
+  }
+  if (dimensions.width * dimensions.height > imageUploadSettings.maxPixels) {
+    throw new UnprocessableEntityException(
+      `The image is too large (${dimensions.width}x${dimensions.height}): at most ${imageUploadSettings.maxPixels} pixels are accepted.`,
+    )
+  }
+  await checkImageData(file, imageUploadSettings.maxPixels).catch((error) => {
+    throw new UnprocessableEntityException(
+      `The image data is invalid: ${error.message}.`,
+    )
+  })
+}
+
+/**
+ * Interface for the stored file of an image
+ *
+ * - `key`: The key of the file in the image storage.
+ * - `stat`: The size, ETag and modification date of the file.
+ * - `contentType`: The MIME type of the file.
+ */
+export interface ImageFile {
+  key: string
+  stat: StoredFileStat
+  contentType: string
+}
+
+/**
+ * Interface for the result of the generation of the variants of the existing images
+ *
+ * - `generated`: The number of images whose variants were generated.
+ * - `failed`: The number of images whose file is missing or could not be processed.
+ */
+export interface VariantBackfillResult {
+  generated: number
+  failed: number
+}
 
 /**
  * ImagesService: Manages image storage and retrieval
  *
  * This service provides functionalities for uploading, removing, and retrieving images
- * associated with various entities in the application. It utilizes AWS S3 for image
- * storage and interacts with the `Image` repository to manage image data in the database.
+ * associated with various entities in the application. It hands the image files to the
+ * configured `ImageStorage` driver (AWS S3, an S3-compatible server or the local filesystem)
+ * and interacts with the `Image` repository to manage image data in the database. The resized
+ * and converted variants of the images are generated by the `ImageVariantsService`.
  */
 @Injectable()
 export class ImagesService {
-  // Initialize AWS S3 client with region from config
-  private readonly s3Client = new S3Client({
-    region: this.configService.getOrThrow('AWS_S3_REGION'),
-  })
-
+  private readonly logger = new Logger(ImagesService.name)
   private readonly repositories: {
     people: Repository<People>
     films: Repository<Film>
@@ -45,7 +197,8 @@ export class ImagesService {
   }
 
   constructor(
-    private readonly configService: ConfigService,
+    private readonly imageStorage: ImageStorage,
+    private readonly imageVariantsService: ImageVariantsService,
     @InjectRepository(Image)
     private readonly imageRepository: Repository<Image>,
     @InjectRepository(People)
@@ -74,16 +227,26 @@ export class ImagesService {
   /**
    * Uploads an image associated with a specific entity
    *
-   * This method uploads an image file to AWS S3 and creates a corresponding `Image` entity
-   * in the database. It generates a unique filename based on the entity type and ID,
-   * retrieves the image storage URL, and saves the image data and metadata to the database.
+   * This method uploads an image file to the image storage and creates a corresponding `Image` entity
+   * in the database. The file is stored under a key derived from its SHA-256 checksum, so that files
+   * never overwrite each other whatever their original names, and a file already stored (for any
+   * resource) is not stored again: the new image shares it and its variants. The file must be a
+   * JPEG or PNG image (checked from its content) of bounded dimensions, and its metadata (EXIF,
+   * GPS, comments, …) are removed before it is stored. The MIME type, size
+   * and dimensions of the file, its checksum and the uploader are recorded on the image.
+   * The variants of a new file are generated and recorded on it; if they cannot be generated, the
+   * image is saved without variants and the error is logged.
    *
    * @param fileName The original filename of the image
    * @param file The image buffer data
    * @param entityName The type of entity the image belongs to (e.g., "people", "films")
    * @param entityId The ID of the entity the image belongs to
    * @param description A description of the image
+   * @param uploaderId The ID of the user uploading the image
    * @returns A Promise resolving to the newly created `Image` entity object
+   * @throws UnsupportedMediaTypeException if the file is not a JPEG or PNG image
+   * @throws UnprocessableEntityException if the dimensions of the image are unreadable or too large
+   * @throws ConflictException if the same file is already an image of the entity
    */
   async uploadImage(
     fileName: string,
@@ -91,15 +254,11 @@ export class ImagesService {
     entityName: string,
     entityId: number,
     description: string,
+    uploaderId: string | null = null,
   ): Promise<Image> {
     try {
       // Generate unique filename based on entity and ID (by type: 'people-1_someImageFileName.jpg')
       const newImageName: string = `${entityName}-${entityId}_${fileName}`
-      // Get image storage URL from config and filename
-      const imageStorageUrl: string = getImageStorageURL(
-        fileName,
-        this.configService,
-      )
       // Eliminate the appearance of default values ​​for an empty field
       description = description !== '{description}' ? description : ''
 
@@ -119,22 +278,57 @@ export class ImagesService {
           `Object ${entityName} with ID ${entityId} for uploading new image was not found.`,
         )
       }
+
+      // Only real images are stored, without their EXIF, GPS and other metadata
+      await checkUploadedImage(file)
+      file = stripImageMetadata(file)
+      const metadata: StoredImageMetadata = describeImageFile(fileName, file)
+      // A file already stored is shared, unless it is already an image of this entity
+      const duplicate: Image = await this.imageRepository.findOne({
+        where: {
+          checksum: metadata.checksum,
+          [`${entityName}`]: { id: entityOnImage.id },
+        },
+      })
+      if (duplicate) {
+        throw new ConflictException(
+          `This file is already the image ${duplicate.id} of ${entityName} ${entityId}.`,
+        )
+      }
+      const stored: Image = await this.imageRepository.findOne({
+        where: { checksum: metadata.checksum },
+        order: { id: 'ASC' },
+      })
+
       // Create new Image entity object
       const newImage: Image = this.imageRepository.create({
         name: newImageName,
         description: description,
-        url: imageStorageUrl,
+        ...metadata,
+        // Get the public URL of the image from the storage driver
+        url: getImageStorageURL(metadata.key, this.imageStorage),
+        uploaderId,
         [`${entityName}`]: entityOnImage.id,
       })
 
-      // Upload image to AWS S3
-      await this.s3Client.send(
-        new PutObjectCommand({
-          Bucket: this.configService.getOrThrow<string>('BUCKET_NAME'),
-          Key: fileName,
-          Body: file,
-        }),
-      )
+      if (stored) {
+        // Share the stored file and its variants
+        newImage.key = stored.key
+        newImage.url = stored.url
+        newImage.variants = stored.variants
+      } else {
+        // Upload image to the storage
+        await this.imageStorage.put(metadata.key, file, metadata.contentType)
+        // Generate the resized and converted copies of the image
+        newImage.variants = await this.imageVariantsService
+          .generate(metadata.key, file)
+          .catch((error) => {
+            this.logger.warn(
+              `Variants of image '${fileName}' not generated: ${error.message}`,
+            )
+            return []
+          })
+      }
 
       // Save new Image entity to database
       return await this.imageRepository.save(newImage)
@@ -147,8 +341,8 @@ export class ImagesService {
    * Removes an image by its name
    *
    * This method attempts to find an `Image` entity in the database with the provided
-   * `imageName`. If found, it deletes the corresponding image from AWS S3 and then removes
-   * the `Image` entity from the database.
+   * `imageName`. If found, it removes the `Image` entity from the database, and then deletes
+   * the file of the image from the storage unless other images share it.
    *
    * @param imageName The name of the image to be removed
    * @returns A Promise resolving to `void` upon successful image removal,
@@ -166,20 +360,11 @@ export class ImagesService {
       if (!image) {
         throw new NotFoundException(`Image with name '${imageName}' not found.`)
       }
-      const fileNameForDeleteFromAWS: string = getFileNameForDeleteImageFromAWS(
-        image.name,
-      )
-
-      // Delete the image from AWS S3
-      await this.s3Client.send(
-        new DeleteObjectCommand({
-          Bucket: this.configService.getOrThrow<string>('BUCKET_NAME'),
-          Key: fileNameForDeleteFromAWS,
-        }),
-      )
 
       // Remove the Image entity from the database
       await this.imageRepository.remove(image)
+      // Delete the image and its variants from the storage
+      await this.deleteUnusedFiles([image])
       return `Image deleted successfully...`
     } catch (error) {
       // Handle any errors and throw a standardized error response
@@ -191,8 +376,8 @@ export class ImagesService {
    * Removes all images associated with a specific entity
    *
    * This method finds all `Image` entities in the database whose names match a pattern
-   * corresponding to the given `entityName` and `entityId`. It then deletes the
-   * corresponding images from AWS S3 and removes the `Image` entities from the database.
+   * corresponding to the given `entityName` and `entityId`. It then removes the `Image` entities
+   * from the database and deletes their files from the storage, except those other images share.
    *
    * @param entityName The type of entity (e.g., "people", "films")
    * @param entityId The ID of the entity
@@ -218,25 +403,295 @@ export class ImagesService {
           `Images for object '${entityName}' with ID '${entityId}' not found.`,
         )
 
-      // Delete the images from AWS S3 (using their names)
-      for (const image of imagesToDelete) {
-        const fileNameForDeleteFromAWS: string =
-          getFileNameForDeleteImageFromAWS(image.name)
-
-        await this.s3Client.send(
-          new DeleteObjectCommand({
-            Bucket: this.configService.getOrThrow<string>('BUCKET_NAME'),
-            Key: fileNameForDeleteFromAWS,
-          }),
-        )
-      }
-
       // Remove the Image entities from the database
       await this.imageRepository.remove(imagesToDelete)
+      // Delete the images and their variants from the storage
+      await this.deleteUnusedFiles(imagesToDelete)
       return `All images deleted successfully...`
     } catch (error) {
       // Handle any errors and throw a standardized error response
       throw getResponceOfException(error)
     }
   }
+
+  /**
+   * Deletes the files (and variants) of removed images from the storage, unless other images
+   * still share them
+   *
+   * @param images The images just removed from the database
+   */
+  private async deleteUnusedFiles(images: Image[]): Promise<void> {
+    const deletedKeys = new Set<string>()
+    for (const { key, variants } of images) {
+      if (
+        deletedKeys.has(key) ||
+        (await this.imageRepository.count({ where: { key } }))
+      ) {
+        continue
+      }
+      await this.imageStorage.delete(key)
+      await this.imageVariantsService.remove(key, variants)
+      deletedKeys.add(key)
+    }
+  }
+
+  /**
+   * Retrieves all images (paginated)
+   *
+   * The resource each image belongs to is rendered as its URL, like the relations of the resources.
+   * When a cursor is given, the list is paginated with opaque cursors instead.
+   *
+   * @param options Pagination options object specifying page number and limit
+   * @param cursor The opaque cursor of the page (empty for the first page), selecting cursor pagination
+   * @returns A Promise resolving to a `Pagination<Image>` object containing the paginated list, or a
+   *          `CursorPagination<Image>` in cursor mode
+   */
+  async findAll(
+    options: IPaginationOptions,
+    cursor?: string,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    return this.paginateImages(`${localUrl}images/`, options, cursor)
+  }
+
+  /**
+   * Retrieves the images of a resource (paginated)
+   *
+   * When a cursor is given, the list is paginated with opaque cursors instead.
+   *
+   * @param entityName The type of entity the images belong to (e.g., "people", "films")
+   * @param entityId The ID of the entity the images belong to
+   * @param options Pagination options object specifying page number and limit
+   * @param cursor The opaque cursor of the page (empty for the first page), selecting cursor pagination
+   * @returns A Promise resolving to a `Pagination<Image>` object containing the paginated list, or a
+   *          `CursorPagination<Image>` in cursor mode
+   * @throws NotFoundException if the resource does not exist
+   */
+  async findAllOfAnEntity(
+    entityName: string,
+    entityId: number,
+    options: IPaginationOptions,
+    cursor?: string,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    const repository: Repository<Entity> = this.repositories[`${entityName}`]
+    const entity: Entity = await repository?.findOne({
+      where: { id: entityId },
+    })
+    if (!entity) {
+      throw new NotFoundException(
+        `Object ${entityName} with ID ${entityId} not found.`,
+      )
+    }
+    return this.paginateImages(
+      `${localUrl}${entityName}/${entityId}/images`,
+      options,
+      cursor,
+      { [`${entityName}`]: { id: entity.id } },
+    )
+  }
+
+  /**
+   * Paginates the images by ID, with page numbers or, when a cursor is given, with opaque cursors
+   *
+   * @param route The absolute URL of the list endpoint
+   * @param options Pagination options object specifying page number and limit
+   * @param cursor The opaque cursor of the page (empty for the first page), if any
+   * @param where Optional filter of the images
+   * @returns A Promise resolving to the page of images, with their resources rendered as URLs
+   * @throws BadRequestException if the cursor or the limit is invalid
+   */
+  private async paginateImages(
+    route: string,
+    options: IPaginationOptions,
+    cursor?: string,
+    where?: FindOptionsWhere<Image>,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    const findOptions: FindManyOptions<Image> = {
+      where,
+      relations: getExpandRelations('images'),
+      relationLoadStrategy: 'query',
+      order: { id: 'ASC' },
+    }
+    if (cursor !== undefined) {
+      const page: CursorPagination<Image> = await paginateByCursor<Image>(
+        this.imageRepository,
+        findOptions,
+        {
+          cursor,
+          limit: Number(options.limit),
+          route,
+          query: { limit: String(options.limit) },
+        },
+      )
+      return serializePagination(page, 'images')
+    }
+    const images: Pagination<Image> = await paginate<Image>(
+      this.imageRepository,
+      { ...options, route },
+      findOptions,
+    )
+    return serializePagination(images, 'images')
+  }
+
+  /**
+   * Retrieves the metadata of an image by ID
+   *
+   * @param imageId The ID of the image
+   * @returns A Promise resolving to the `Image` entity object, with the URL of its resource
+   * @throws NotFoundException if the image does not exist
+   */
+  async findOne(imageId: number): Promise<Image> {
+    const image: Image = await this.imageRepository.findOne({
+      where: { id: imageId },
+      relations: getExpandRelations('images'),
+      relationLoadStrategy: 'query',
+    })
+    if (!image) {
+      throw new NotFoundException(`Image with ID ${imageId} not found.`)
+    }
+    return serializeResource(image, 'images')
+  }
+
+  /**
+   * Retrieves the stored file of an image, or of one of its variants, by ID
+   *
+   * The file is looked up in the configured image storage, whichever driver holds it. Its MIME type
+   * is the one recorded by the storage, or else derived from the file extension.
+   *
+   * @param imageId The ID of the image
+   * @param variant The name of the size of a variant (the original file if not given)
+   * @param format The format of the variant (the format of the original by default)
+   * @returns A Promise resolving to the key, metadata and MIME type of the file
+   * @throws BadRequestException if a format is given without a variant
+   * @throws NotFoundException if the image, the variant or its file does not exist
+   */
+  async getFile(
+    imageId: number,
+    variant?: string,
+    format?: ImageFormat,
+  ): Promise<ImageFile> {
+    const image: Image = await this.imageRepository.findOne({
+      where: { id: imageId },
+    })
+    if (!image) {
+      throw new NotFoundException(`Image with ID ${imageId} not found.`)
+    }
+    let key: string = image.key
+    if (format && !variant) {
+      throw new BadRequestException(
+        'The format of an image can only be chosen for a variant.',
+      )
+    }
+    if (variant) {
+      // The variants of each size start with the one in the format of the original
+      const match: ImageVariant | undefined = image.variants?.find(
+        (candidate) =>
+          candidate.name === variant &&
+          (!format || candidate.format === format),
+      )
+      if (!match) {
+        throw new NotFoundException(
+          `Image with ID ${imageId} has no '${variant}' variant${format ? ` in ${format}` : ''}.`,
+        )
+      }
+      key = getVariantKey(key, match.name, match.format)
+    }
+    const stat: StoredFileStat | null = await this.imageStorage.stat(key)
+    if (!stat) {
+      throw new NotFoundException(
+        `The file of the image with ID ${imageId} was not found.`,
+      )
+    }
+    return {
+      key,
+      stat,
+      contentType:
+        (!variant && image.contentType) ||
+        (stat.contentType ??
+          imageContentTypes[extname(key).toLowerCase()] ??
+          'application/octet-stream'),
+    }
+  }
+
+  /**
+   * Opens the stored file of an image for reading
+   *
+   * @param file The file returned by `getFile`
+   * @param range The range of bytes to read (the whole file by default)
+   * @returns A Promise resolving to a stream of the content of the file
+   */
+  async openFile(file: ImageFile, range?: ByteRange): Promise<Readable> {
+    return this.imageStorage.createReadStream(file.key, range)
+  }
+
+  /**
+   * Generates the variants and metadata of the images stored before they existed
+   *
+   * The original files are read back from the image storage, once for all the images sharing a
+   * file. The missing metadata of the images (MIME type, size, dimensions and checksum) are filled
+   * in, and their variants generated if they have none. An image whose file is missing or cannot be
+   * processed is logged and skipped, and keeps no variants.
+   *
+   * @param force Whether to regenerate the variants of all the images (e.g. after a change of
+   *              `IMAGE_VARIANT_SIZES`), deleting their previous variants
+   * @returns A Promise resolving to the number of images processed and failed
+   */
+  async backfillVariants(
+    force: boolean = false,
+  ): Promise<VariantBackfillResult> {
+    const where: FindOptionsWhere<Image>[] = force
+      ? [{}]
+      : [{ variants: IsNull() }, { checksum: IsNull() }]
+    const images: Image[] = await this.imageRepository.find({
+      where,
+      order: { id: 'ASC' },
+    })
+    // The images sharing a file are processed together
+    const imagesByKey = new Map<string, Image[]>()
+    for (const image of images) {
+      imagesByKey.set(image.key, [...(imagesByKey.get(image.key) ?? []), image])
+    }
+    const result: VariantBackfillResult = { generated: 0, failed: 0 }
+    for (const [key, sharing] of imagesByKey) {
+      try {
+        if (!(await this.imageStorage.stat(key))) {
+          throw new Error('file not found in the image storage')
+        }
+        const chunks: Buffer[] = []
+        for await (const chunk of await this.imageStorage.createReadStream(
+          key,
+        )) {
+          chunks.push(chunk)
+        }
+        const file: Buffer = Buffer.concat(chunks)
+        // The key of a stored file is kept, even if it was not derived from its checksum
+        const { contentType, size, width, height, checksum } =
+          describeImageFile(key, file)
+        const previous: ImageVariant[] | null =
+          sharing.find((image) => image.variants)?.variants ?? null
+        let variants: ImageVariant[] | null = previous
+        if (force || sharing.some((image) => !image.variants)) {
+          await this.imageVariantsService.remove(key, previous)
+          variants = await this.imageVariantsService.generate(key, file)
+        }
+        for (const image of sharing) {
+          Object.assign(image, {
+            contentType,
+            size,
+            width,
+            height,
+            checksum,
+            variants,
+          })
+        }
+        await this.imageRepository.save(sharing)
+        result.generated += sharing.length
+      } catch (error) {
+        this.logger.warn(
+          `Variants of images ${sharing.map(({ id }) => id).join(', ')} ('${key}') not generated: ${error.message}`,
+        )
+        result.failed += sharing.length
+      }
+    }
+    return result
+  }
 }
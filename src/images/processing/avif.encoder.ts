@@ -0,0 +1,55 @@
+import { RasterImage } from './raster'
+import {
+  getWasmEncoderOptions,
+  readWasmBinary,
+  toImageData,
+} from './wasm-encoder'
+
+/**
+ * Type of the encode function of `@jsquash/avif`
+ */
+type AvifEncode = (typeof import('@jsquash/avif/encode.js'))['default']
+
+/**
+ * The encoder, loaded on the first AVIF variant
+ */
+let encoder: Promise<AvifEncode> | null = null
+
+/**
+ * Loads the AVIF encoder (libavif and libaom compiled to WebAssembly)
+ *
+ * The module is imported on first use only, so that it is not loaded unless AVIF is one of the
+ * formats of the variants. In Node, `init` uses the single-threaded build.
+ *
+ * @returns A Promise resolving to the encode function
+ */
+function loadEncoder(): Promise<AvifEncode> {
+  encoder ??= (async () => {
+    const { default: encode, init } = await import('@jsquash/avif/encode.js')
+    await init(
+      await getWasmEncoderOptions(
+        await readWasmBinary('@jsquash/avif/codec/enc/avif_enc.wasm'),
+      ),
+    )
+    return encode
+  })().catch((error) => {
+    encoder = null
+    throw error
+  })
+  return encoder
+}
+
+/**
+ * Encodes an image as AVIF (AV1 still image), with `@jsquash/avif`
+ *
+ * @param image The image
+ * @param quality The quality of the file, from 1 to 100
+ * @returns A Promise resolving to the AVIF file
+ */
+export async function encodeAvif(
+  image: RasterImage,
+  quality: number,
+): Promise<Buffer> {
+  const encode: AvifEncode = await loadEncoder()
+  return Buffer.from(await encode(toImageData(image), { quality }))
+}
@@ -0,0 +1,166 @@
+import {
+  decodeImage,
+  detectImageFormat,
+  encodeImage,
+  ImageQuality,
+  readImageDimensions,
+} from './image-codecs'
+import { RasterImage } from './raster'
+import { encodeJpeg } from './jpeg.codec'
+import {
+  createGradient,
+  exifSegment,
+  gradient,
+  insertJpegSegments,
+} from '../test-constants'
+
+/**
+ * The quality of the lossy formats in the tests
+ */
+const quality: ImageQuality = { jpeg: 90, avif: 50 }
+
+/**
+ * Returns the largest difference between the samples of two images of the same dimensions
+ *
+ * @param a The first image
+ * @param b The second image
+ * @returns The largest absolute difference of a sample
+ */
+function getMaxDifference(a: RasterImage, b: RasterImage): number {
+  let max = 0
+  for (let i = 0; i < a.data.length; i++) {
+    max = Math.max(max, Math.abs(a.data[i] - b.data[i]))
+  }
+  return max
+}
+
+/**
+ * A translucent gradient: the alpha grows from top to bottom
+ */
+const translucent: RasterImage = createGradient(23, 17)
+for (let i = 3; i < translucent.data.length; i += 4) {
+  translucent.data[i] = Math.floor(i / 4 / 23) * 15
+}
+
+/**
+ * Unit test suite for the image codecs.
+ */
+describe('image codecs', () => {
+  /**
+   * Test suite for `detectImageFormat` and `readImageDimensions`.
+   */
+  describe('detectImageFormat', () => {
+    it('should detect JPEG and PNG files from their first bytes', async () => {
+      expect(detectImageFormat(encodeJpeg(gradient, 80))).toBe('jpeg')
+      expect(
+        detectImageFormat(await encodeImage(gradient, 'png', quality)),
+      ).toBe('png')
+      expect(detectImageFormat(Buffer.from('RIFF\0\0\0\0WEBPVP8L'))).toBeNull()
+      expect(detectImageFormat(Buffer.from('GIF89a'))).toBeNull()
+    })
+
+    it('should read the dimensions from the headers, JPEG orientation applied', async () => {
+      const png: Buffer = await encodeImage(gradient, 'png', quality)
+      const jpeg: Buffer = insertJpegSegments(
+        encodeJpeg(gradient, 80),
+        exifSegment,
+      )
+
+      expect(readImageDimensions(png)).toEqual({ width: 40, height: 30 })
+      expect(readImageDimensions(jpeg)).toEqual({ width: 30, height: 40 })
+      expect(readImageDimensions(png.subarray(0, 20))).toBeNull()
+      expect(readImageDimensions(Buffer.from('text'))).toBeNull()
+    })
+  })
+
+  /**
+   * Test suite for the PNG round trip.
+   */
+  describe('PNG', () => {
+    it('should decode an opaque image as encoded', async () => {
+      const png: Buffer = await encodeImage(gradient, 'png', quality)
+
+      expect(decodeImage(png, 1e6)).toEqual(gradient)
+    })
+
+    it('should decode a translucent image as encoded', async () => {
+      const png: Buffer = await encodeImage(translucent, 'png', quality)
+
+      expect(decodeImage(png, 1e6)).toEqual(translucent)
+    })
+
+    it('should write opaque images without an alpha channel', async () => {
+      const png: Buffer = await encodeImage(gradient, 'png', quality)
+
+      // Color type of the IHDR chunk: 2 for RGB, 6 for RGBA
+      expect(png[25]).toBe(2)
+      expect((await encodeImage(translucent, 'png', quality))[25]).toBe(6)
+    })
+  })
+
+  /**
+   * Test suite for the JPEG round trip.
+   */
+  describe('JPEG', () => {
+    it('should decode an image close to the encoded one', async () => {
+      const jpeg: Buffer = await encodeImage(gradient, 'jpeg', quality)
+      const decoded: RasterImage = decodeImage(jpeg, 1e6)
+
+      expect(decoded.width).toBe(40)
+      expect(decoded.height).toBe(30)
+      expect(getMaxDifference(decoded, gradient)).toBeLessThanOrEqual(12)
+    })
+
+    it('should compose the transparent pixels over white', async () => {
+      const jpeg: Buffer = await encodeImage(translucent, 'jpeg', quality)
+      const decoded: RasterImage = decodeImage(jpeg, 1e6)
+
+      // The first row is fully transparent
+      expect(Math.min(...decoded.data.subarray(0, 23 * 4))).toBeGreaterThan(240)
+    })
+
+    it('should turn the image upright according to its EXIF orientation', () => {
+      const jpeg: Buffer = insertJpegSegments(
+        encodeJpeg(gradient, 90),
+        exifSegment,
+      )
+      const decoded: RasterImage = decodeImage(jpeg, 1e6)
+
+      // Orientation 6: the top left corner (dark) is displayed at the top right
+      expect(decoded.width).toBe(30)
+      expect(decoded.height).toBe(40)
+      expect(decoded.data[29 * 4]).toBeLessThan(16)
+      expect(decoded.data[29 * 4 + 1]).toBeLessThan(16)
+      expect(decoded.data[1]).toBeGreaterThan(240)
+    })
+
+    it('should refuse an image larger than the maximum pixels', () => {
+      const jpeg: Buffer = encodeJpeg(gradient, 90)
+
+      expect(() => decodeImage(jpeg, 1000)).toThrow()
+    })
+  })
+
+  /**
+   * Test suite for the errors of `decodeImage`.
+   */
+  describe('decodeImage', () => {
+    it('should refuse a file that is not a JPEG or a PNG', () => {
+      expect(() => decodeImage(Buffer.from('GIF89a'), 1e6)).toThrow(
+        'Unsupported image format (JPEG or PNG expected)',
+      )
+    })
+
+    it('should refuse a truncated PNG', async () => {
+      const png: Buffer = await encodeImage(gradient, 'png', quality)
+
+      expect(() => decodeImage(png.subarray(0, 40), 1e6)).toThrow()
+    })
+
+    it('should refuse a truncated JPEG', () => {
+      const jpeg: Buffer = encodeJpeg(gradient, 90)
+
+      expect(() => decodeImage(jpeg.subarray(0, 200), 1e6)).toThrow()
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import { RasterImage } from './raster'
+import {
+  checkPngImageData,
+  decodePng,
+  encodePng,
+  pngSignature,
+} from './png.codec'
+import { decodeJpeg, encodeJpeg, readJpegDimensions } from './jpeg.codec'
+import { encodeWebp } from './webp.encoder'
+import { encodeAvif } from './avif.encoder'
+
+/**
+ * Type for the image formats the variants are encoded in
+ */
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif'
+
+/**
+ * File extension and MIME type of every image format
+ */
+export const imageFormats: Record<
+  ImageFormat,
+  { extension: string; contentType: string }
+> = {
+  jpeg: { extension: '.jpg', contentType: 'image/jpeg' },
+  png: { extension: '.png', contentType: 'image/png' },
+  webp: { extension: '.webp', contentType: 'image/webp' },
+  avif: { extension: '.avif', contentType: 'image/avif' },
+}
+
+/**
+ * Detects the format of an image file from its first bytes
+ *
+ * @param buffer The image file
+ * @returns The format of the file, or `null` if it is not a decodable image (JPEG or PNG)
+ */
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg'
+  }
+  if (buffer.subarray(0, pngSignature.length).equals(pngSignature)) {
+    return 'png'
+  }
+  return null
+}
+
+/**
+ * Reads the dimensions of a JPEG or PNG image from its headers, without decoding it
+ *
+ * @param buffer The image file
+ * @returns The width and height of the image as displayed, or `null` if they cannot be read
+ */
+export function readImageDimensions(
+  buffer: Buffer,
+): { width: number; height: number } | null {
+  switch (detectImageFormat(buffer)) {
+    case 'jpeg':
+      return readJpegDimensions(buffer)
+    case 'png':
+      // The IHDR chunk comes first: its width and height follow the chunk length and type
+      return buffer.length >= 24
+        ? { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+        : null
+    default:
+      return null
+  }
+}
+
+/**
+ * Checks that the compressed data of an image file is no larger than its dimensions hold, without
+ * decoding it
+ *
+ * The PNG image data is inflated as a stream and discarded. The JPEG decoder allocates the image
+ * from its dimensions alone, which `maxPixels` already bounds.
+ *
+ * @param buffer The image file
+ * @param maxPixels The maximum number of pixels accepted
+ * @throws Error If the file is larger than `maxPixels`, or its data inflates to more than its
+ *         dimensions hold (a decompression bomb)
+ */
+export async function checkImageData(
+  buffer: Buffer,
+  maxPixels: number,
+): Promise<void> {
+  if (detectImageFormat(buffer) === 'png') {
+    await checkPngImageData(buffer, maxPixels)
+  }
+}
+
+/**
+ * Decodes a JPEG or PNG file
+ *
+ * @param buffer The image file
+ * @param maxPixels The maximum number of pixels accepted, to bound the memory used
+ * @returns The decoded image, upright
+ * @throws Error If the file is not a supported image, or is larger than `maxPixels`
+ */
+export function decodeImage(buffer: Buffer, maxPixels: number): RasterImage {
+  switch (detectImageFormat(buffer)) {
+    case 'jpeg':
+      return decodeJpeg(buffer, maxPixels)
+    case 'png':
+      return decodePng(buffer, maxPixels)
+    default:
+      throw new Error('Unsupported image format (JPEG or PNG expected)')
+  }
+}
+
+/**
+ * Interface for the quality of the lossy formats, from 1 to 100
+ */
+export interface ImageQuality {
+  jpeg: number
+  avif: number
+}
+
+/**
+ * Encodes an image in a format
+ *
+ * @param image The image
+ * @param format The format of the file
+ * @param quality The quality of the JPEG and AVIF files
+ * @returns A Promise resolving to the image file
+ */
+export async function encodeImage(
+  image: RasterImage,
+  format: ImageFormat,
+  quality: ImageQuality,
+): Promise<Buffer> {
+  switch (format) {
+    case 'jpeg':
+      return encodeJpeg(image, quality.jpeg)
+    case 'png':
+      return encodePng(image)
+    case 'webp':
+      return encodeWebp(image)
+    case 'avif':
+      return encodeAvif(image, quality.avif)
+  }
+}
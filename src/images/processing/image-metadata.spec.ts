@@ -0,0 +1,97 @@
+import { stripImageMetadata } from './image-metadata'
+import { decodeJpeg, encodeJpeg, readJpegDimensions } from './jpeg.codec'
+import { encodePng } from './png.codec'
+import {
+  createJpegSegment,
+  createPngChunk,
+  exifSecret,
+  exifSegment,
+  gradient,
+  insertJpegSegments,
+  insertPngChunks,
+} from '../test-constants'
+
+/**
+ * Unit test suite for `stripImageMetadata`.
+ */
+describe('stripImageMetadata', () => {
+  const jpeg: Buffer = encodeJpeg(gradient, 90)
+  const png: Buffer = encodePng(gradient)
+
+  /**
+   * Test suite for the JPEG files.
+   */
+  describe('JPEG', () => {
+    const comment: Buffer = createJpegSegment(0xfe, Buffer.from('Shot by R2'))
+    const xmp: Buffer = createJpegSegment(
+      0xe1,
+      Buffer.from('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>'),
+    )
+
+    it('should remove the EXIF, XMP and comment segments', () => {
+      const stripped: Buffer = stripImageMetadata(
+        insertJpegSegments(jpeg, exifSegment, xmp, comment),
+      )
+
+      expect(stripped.includes(exifSecret)).toBe(false)
+      expect(stripped.includes('xmpmeta')).toBe(false)
+      expect(stripped.includes('Shot by R2')).toBe(false)
+    })
+
+    it('should keep the orientation in a new EXIF segment', () => {
+      const stripped: Buffer = stripImageMetadata(
+        insertJpegSegments(jpeg, exifSegment),
+      )
+
+      // The orientation 6 turns the 40x30 image by a quarter turn
+      expect(readJpegDimensions(stripped)).toEqual({ width: 30, height: 40 })
+      expect(decodeJpeg(stripped, 1e6).width).toBe(30)
+    })
+
+    it('should keep the JFIF segment first and the image data unchanged', () => {
+      const stripped: Buffer = stripImageMetadata(
+        insertJpegSegments(jpeg, exifSegment, comment),
+      )
+      // The encoded file starts with the SOI marker and the JFIF segment (20 bytes); the EXIF
+      // segment holding the orientation (36 bytes) follows the JFIF segment
+      expect(stripped.subarray(0, 20)).toEqual(jpeg.subarray(0, 20))
+      expect(stripped[21]).toBe(0xe1)
+      expect(stripped.subarray(56)).toEqual(jpeg.subarray(20))
+    })
+
+    it('should leave a file without metadata unchanged', () => {
+      expect(stripImageMetadata(jpeg)).toEqual(jpeg)
+    })
+  })
+
+  /**
+   * Test suite for the PNG files.
+   */
+  describe('PNG', () => {
+    it('should remove the text, EXIF and time chunks', () => {
+      const withMetadata: Buffer = insertPngChunks(
+        png,
+        createPngChunk('tEXt', Buffer.from(`Comment\0${exifSecret}`)),
+        createPngChunk('eXIf', exifSegment.subarray(10)),
+        createPngChunk('tIME', Buffer.alloc(7)),
+      )
+
+      expect(stripImageMetadata(withMetadata)).toEqual(png)
+    })
+
+    it('should keep the other chunks', () => {
+      const withGamma: Buffer = insertPngChunks(
+        png,
+        createPngChunk('gAMA', Buffer.from([0, 0, 0xb1, 0x8f])),
+      )
+
+      expect(stripImageMetadata(withGamma)).toEqual(withGamma)
+    })
+  })
+
+  it('should return the other files unchanged', () => {
+    const text: Buffer = Buffer.from('not an image')
+
+    expect(stripImageMetadata(text)).toBe(text)
+  })
+})
@@ -0,0 +1,132 @@
+import { detectImageFormat } from './image-codecs'
+import { readExifOrientation } from './jpeg.codec'
+import { pngSignature } from './png.codec'
+
+/**
+ * JPEG segments kept in the stored files: JFIF (APP0), ICC profile (APP2) and Adobe color
+ * transform (APP14), which the display of the image depends on. The other application segments
+ * (EXIF and XMP in APP1, IPTC in APP13, …) and the comments are removed.
+ */
+const keptJpegApplicationMarkers: Set<number> = new Set([0xe0, 0xe2, 0xee])
+
+/**
+ * PNG chunks removed from the stored files: text, EXIF and modification time
+ */
+const removedPngChunks: Set<string> = new Set([
+  'tEXt',
+  'zTXt',
+  'iTXt',
+  'eXIf',
+  'tIME',
+])
+
+/**
+ * Creates a JPEG EXIF segment (APP1) holding only an orientation
+ *
+ * @param orientation The value of the `Orientation` tag, from 2 to 8
+ * @returns The segment, marker and length included
+ */
+function createOrientationSegment(orientation: number): Buffer {
+  const segment: Buffer = Buffer.alloc(36)
+  segment.writeUInt16BE(0xffe1, 0)
+  segment.writeUInt16BE(34, 2)
+  segment.write('Exif\0\0MM\0*', 4, 'latin1')
+  // The first IFD follows the TIFF header, with a single SHORT entry and no next IFD
+  segment.writeUInt32BE(8, 14)
+  segment.writeUInt16BE(1, 18)
+  segment.writeUInt16BE(0x0112, 20)
+  segment.writeUInt16BE(3, 22)
+  segment.writeUInt32BE(1, 24)
+  segment.writeUInt16BE(orientation, 28)
+  return segment
+}
+
+/**
+ * Removes the metadata segments of a JPEG file
+ *
+ * The segments before the first scan are filtered; the rest of the file is copied unchanged. The
+ * EXIF orientation is kept in a new EXIF segment of its own, so that the image is still displayed
+ * upright.
+ *
+ * @param buffer The JPEG file
+ * @returns The JPEG file without metadata
+ */
+function stripJpegMetadata(buffer: Buffer): Buffer {
+  const kept: Buffer[] = []
+  let orientation = 1
+  let offset = 2
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker: number = buffer[offset + 1]
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === 0xda || marker === 0xd9) break
+    const end: number = offset + 2 + buffer.readUInt16BE(offset + 2)
+    const isMetadata: boolean =
+      marker === 0xfe ||
+      (marker >= 0xe0 &&
+        marker <= 0xef &&
+        !keptJpegApplicationMarkers.has(marker))
+    if (!isMetadata) {
+      kept.push(buffer.subarray(offset, end))
+    } else if (marker === 0xe1 && orientation === 1) {
+      orientation = readExifOrientation(buffer.subarray(offset + 4, end))
+    }
+    offset = end
+  }
+  if (orientation >= 2 && orientation <= 8) {
+    // JFIF requires its APP0 segment to come first
+    kept.splice(
+      kept[0]?.[1] === 0xe0 ? 1 : 0,
+      0,
+      createOrientationSegment(orientation),
+    )
+  }
+  return Buffer.concat([
+    buffer.subarray(0, 2),
+    ...kept,
+    buffer.subarray(Math.min(offset, buffer.length)),
+  ])
+}
+
+/**
+ * Removes the metadata chunks of a PNG file
+ *
+ * @param buffer The PNG file
+ * @returns The PNG file without metadata
+ */
+function stripPngMetadata(buffer: Buffer): Buffer {
+  const kept: Buffer[] = [pngSignature]
+  let offset: number = pngSignature.length
+  while (offset + 12 <= buffer.length) {
+    const type: string = buffer.toString('latin1', offset + 4, offset + 8)
+    const end: number = offset + 12 + buffer.readUInt32BE(offset)
+    if (!removedPngChunks.has(type)) {
+      kept.push(buffer.subarray(offset, end))
+    }
+    offset = end
+    if (type === 'IEND') break
+  }
+  return Buffer.concat(kept)
+}
+
+/**
+ * Removes the metadata of an image file (EXIF, GPS, XMP, IPTC, comments and texts)
+ *
+ * The image data and the information its display depends on (color profile, orientation) are
+ * kept unchanged.
+ *
+ * @param buffer The JPEG or PNG file
+ * @returns The file without metadata, or the file itself if its format is not supported
+ */
+export function stripImageMetadata(buffer: Buffer): Buffer {
+  switch (detectImageFormat(buffer)) {
+    case 'jpeg':
+      return stripJpegMetadata(buffer)
+    case 'png':
+      return stripPngMetadata(buffer)
+    default:
+      return buffer
+  }
+}
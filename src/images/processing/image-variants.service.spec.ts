@@ -0,0 +1,76 @@
+import {
+  getVariantKey,
+  parseVariantFormats,
+  parseVariantSizes,
+} from './image-variants.service'
+
+/**
+ * Unit test suite for the settings of the image variants.
+ */
+describe('ImageVariantsService settings', () => {
+  /**
+   * Test suite for `parseVariantSizes`.
+   */
+  describe('parseVariantSizes', () => {
+    it('should parse the sizes, largest first', () => {
+      expect(parseVariantSizes(' thumb:160, large:1280,medium:640 ,')).toEqual([
+        { name: 'large', maxSize: 1280 },
+        { name: 'medium', maxSize: 640 },
+        { name: 'thumb', maxSize: 160 },
+      ])
+    })
+
+    it('should accept no size', () => {
+      expect(parseVariantSizes('')).toEqual([])
+    })
+
+    it.each(['thumb', 'thumb:', 'thumb:0', 'thumb:-5', 'thumb:1.5', 'a b:10'])(
+      "should refuse the invalid size '%s'",
+      (size) => {
+        expect(() => parseVariantSizes(`large:1280,${size}`)).toThrow(
+          `Invalid image variant size '${size}' in IMAGE_VARIANT_SIZES (expected 'name:maxSize')`,
+        )
+      },
+    )
+
+    it('should refuse a repeated name', () => {
+      expect(() => parseVariantSizes('thumb:160,thumb:200')).toThrow(
+        'Duplicate image variant size name in IMAGE_VARIANT_SIZES',
+      )
+    })
+  })
+
+  /**
+   * Test suite for `parseVariantFormats`.
+   */
+  describe('parseVariantFormats', () => {
+    it('should parse the formats, jpg as jpeg', () => {
+      expect(parseVariantFormats('WebP, avif,jpg,png,')).toEqual([
+        'webp',
+        'avif',
+        'jpeg',
+        'png',
+      ])
+    })
+
+    it('should refuse an unknown format', () => {
+      expect(() => parseVariantFormats('webp,gif')).toThrow(
+        "Unknown image variant format 'gif' in IMAGE_VARIANT_FORMATS (expected webp, avif, jpeg or png)",
+      )
+    })
+  })
+
+  /**
+   * Test suite for `getVariantKey`.
+   */
+  describe('getVariantKey', () => {
+    it('should name the variant file next to the original', () => {
+      expect(getVariantKey('people/1/abc.jpeg', 'thumb', 'webp')).toBe(
+        'people/1/abc@thumb.webp',
+      )
+      expect(getVariantKey('people/1/abc.png', 'large', 'jpeg')).toBe(
+        'people/1/abc@large.jpg',
+      )
+    })
+  })
+})
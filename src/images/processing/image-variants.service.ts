@@ -0,0 +1,162 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common'
+import { extname } from 'path'
+import { imageVariantSettings } from 'src/shared/constants'
+import { ImageStorage } from '../storage/image-storage'
+import { ImageVariant } from '../dto/image-variant.dto'
+import { ImageFormat, imageFormats } from './image-codecs'
+import { RenderedVariant, VariantSize } from './variant-renderer'
+import { VariantWorkerPool } from './variant-worker-pool'
+
+/**
+ * Parses the sizes of the variants (`IMAGE_VARIANT_SIZES`)
+ *
+ * @param value Comma-separated `name:maxSize` pairs
+ * @returns The sizes, largest first
+ * @throws Error If a size is invalid or a name is repeated
+ */
+export function parseVariantSizes(value: string): VariantSize[] {
+  const sizes: VariantSize[] = value
+    .split(',')
+    .map((size) => size.trim())
+    .filter(Boolean)
+    .map((size) => {
+      const match: RegExpMatchArray | null = /^([a-z0-9-]+):(\d+)$/i.exec(size)
+      if (!match || Number(match[2]) < 1) {
+        throw new Error(
+          `Invalid image variant size '${size}' in IMAGE_VARIANT_SIZES (expected 'name:maxSize')`,
+        )
+      }
+      return { name: match[1], maxSize: Number(match[2]) }
+    })
+  if (new Set(sizes.map(({ name }) => name)).size !== sizes.length) {
+    throw new Error('Duplicate image variant size name in IMAGE_VARIANT_SIZES')
+  }
+  return sizes.sort((a, b) => b.maxSize - a.maxSize)
+}
+
+/**
+ * Parses the formats the variants are converted to (`IMAGE_VARIANT_FORMATS`)
+ *
+ * @param value Comma-separated format names
+ * @returns The formats
+ * @throws Error If a format is unknown
+ */
+export function parseVariantFormats(value: string): ImageFormat[] {
+  return value
+    .split(',')
+    .map((format) => format.trim().toLowerCase())
+    .filter(Boolean)
+    .map((format) => (format === 'jpg' ? 'jpeg' : format))
+    .map((format) => {
+      if (!(format in imageFormats)) {
+        throw new Error(
+          `Unknown image variant format '${format}' in IMAGE_VARIANT_FORMATS (expected webp, avif, jpeg or png)`,
+        )
+      }
+      return format as ImageFormat
+    })
+}
+
+/**
+ * Returns the key of the file of a variant, next to the original (`<name>@<size>.<extension>`)
+ *
+ * @param key The key of the original file
+ * @param name The name of the size of the variant
+ * @param format The format of the variant
+ * @returns The key of the variant file
+ */
+export function getVariantKey(
+  key: string,
+  name: string,
+  format: ImageFormat,
+): string {
+  const base: string = key.slice(0, key.length - extname(key).length)
+  return `${base}@${name}${imageFormats[format].extension}`
+}
+
+/**
+ * ImageVariantsService: Generates the resized and converted copies of the images
+ *
+ * Every uploaded image is scaled down to each configured size (`IMAGE_VARIANT_SIZES`), and each
+ * size is encoded in the format of the original and in the configured extra formats
+ * (`IMAGE_VARIANT_FORMATS`). The pipeline has no native dependency: JPEG and PNG are decoded and
+ * encoded by `jpeg-js` and `pngjs` (pure JavaScript), the images are resized in TypeScript, and
+ * WebP and AVIF are encoded by `@jsquash/webp` and `@jsquash/avif` (WebAssembly), loaded only when
+ * they are configured. It runs in a worker thread (`VariantWorkerPool`), off the event loop. The
+ * variant files are written to the image storage next to the original.
+ */
+@Injectable()
+export class ImageVariantsService implements OnModuleDestroy {
+  private readonly sizes: VariantSize[]
+  private readonly formats: ImageFormat[]
+  private readonly workerPool = new VariantWorkerPool()
+
+  /**
+   * @param imageStorage The storage the variant files are written to
+   * @throws Error If the settings of the variants are invalid
+   */
+  constructor(private readonly imageStorage: ImageStorage) {
+    this.sizes = parseVariantSizes(imageVariantSettings.sizes)
+    this.formats = parseVariantFormats(imageVariantSettings.formats)
+  }
+
+  /**
+   * Stops the worker thread with the application
+   */
+  async onModuleDestroy(): Promise<void> {
+    await this.workerPool.terminate()
+  }
+
+  /**
+   * Generates and stores the variants of an image
+   *
+   * The sizes are generated from the largest to the smallest, each one scaled down from the
+   * previous one. A size larger than the original keeps the dimensions of the original.
+   *
+   * @param key The key of the original file in the image storage
+   * @param body The content of the original file (JPEG or PNG)
+   * @returns A Promise resolving to the generated variants
+   * @throws Error If the file cannot be decoded or a variant cannot be stored
+   */
+  async generate(key: string, body: Buffer): Promise<ImageVariant[]> {
+    const rendered: RenderedVariant[] = await this.workerPool.render(body, {
+      sizes: this.sizes,
+      formats: this.formats,
+      quality: {
+        jpeg: imageVariantSettings.jpegQuality,
+        avif: imageVariantSettings.avifQuality,
+      },
+      maxPixels: imageVariantSettings.maxPixels,
+    })
+    const variants: ImageVariant[] = []
+    for (const { name, format, width, height, file } of rendered) {
+      const variantKey: string = getVariantKey(key, name, format)
+      await this.imageStorage.put(
+        variantKey,
+        Buffer.from(file.buffer, file.byteOffset, file.byteLength),
+        imageFormats[format].contentType,
+      )
+      variants.push({
+        name,
+        format,
+        width,
+        height,
+        size: file.length,
+        url: this.imageStorage.getPublicUrl(variantKey),
+      })
+    }
+    return variants
+  }
+
+  /**
+   * Deletes the files of the variants of an image from the image storage
+   *
+   * @param key The key of the original file
+   * @param variants The variants recorded on the image (none if `null`)
+   */
+  async remove(key: string, variants: ImageVariant[] | null): Promise<void> {
+    for (const { name, format } of variants ?? []) {
+      await this.imageStorage.delete(getVariantKey(key, name, format))
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import * as jpeg from 'jpeg-js'
+import { RasterImage, applyOrientation } from './raster'
+
+/**
+ * Interface for the header of a JPEG file
+ *
+ * - `width`, `height`: The dimensions of the image as stored.
+ * - `orientation`: The EXIF orientation of the image (1 if absent).
+ */
+interface JpegHeader {
+  width: number
+  height: number
+  orientation: number
+}
+
+/**
+ * Reads the orientation of the image from an EXIF segment (APP1)
+ *
+ * @param segment The content of the APP1 segment
+ * @returns The `Orientation` tag of the first IFD, or 1 if absent
+ */
+export function readExifOrientation(segment: Buffer): number {
+  if (segment.toString('latin1', 0, 6) !== 'Exif\0\0') return 1
+  const tiff: Buffer = segment.subarray(6)
+  const littleEndian: boolean = tiff.toString('latin1', 0, 2) === 'II'
+  const readUInt16 = (offset: number) =>
+    littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset)
+  const readUInt32 = (offset: number) =>
+    littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset)
+  try {
+    const ifd: number = readUInt32(4)
+    const entries: number = readUInt16(ifd)
+    for (let i = 0; i < entries; i++) {
+      const entry: number = ifd + 2 + i * 12
+      if (readUInt16(entry) === 0x0112) {
+        return readUInt16(entry + 8)
+      }
+    }
+  } catch {
+    // Truncated EXIF data: ignore the orientation
+  }
+  return 1
+}
+
+/**
+ * Reads the dimensions and the EXIF orientation of a JPEG image from the segments before its
+ * frame header, without decoding it
+ *
+ * @param buffer The JPEG file
+ * @returns The header, or `null` if no frame header is found
+ */
+function readJpegHeader(buffer: Buffer): JpegHeader | null {
+  let orientation = 1
+  let offset = 2
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker: number = buffer[offset + 1]
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    // The entropy-coded data follows the scan header: the frame header should precede it
+    if (marker === 0xda || marker === 0xd9) break
+    const length: number = buffer.readUInt16BE(offset + 2)
+    const segment: Buffer = buffer.subarray(offset + 4, offset + 2 + length)
+    if (marker === 0xe1) {
+      orientation = readExifOrientation(segment)
+    } else if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc &&
+      segment.length >= 5
+    ) {
+      return {
+        width: segment.readUInt16BE(3),
+        height: segment.readUInt16BE(1),
+        orientation,
+      }
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+/**
+ * Reads the dimensions of a JPEG image from its headers, without decoding it
+ *
+ * @param buffer The JPEG file
+ * @returns The dimensions of the image as displayed (swapped for the EXIF orientations rotating it
+ *          by a quarter turn), or `null` if no frame header is found
+ */
+export function readJpegDimensions(
+  buffer: Buffer,
+): { width: number; height: number } | null {
+  const header: JpegHeader | null = readJpegHeader(buffer)
+  if (!header) return null
+  const { width, height, orientation } = header
+  return orientation >= 5 ? { width: height, height: width } : { width, height }
+}
+
+/**
+ * Decodes a JPEG image with `jpeg-js`
+ *
+ * The dimensions are checked from the frame header before anything is decoded, and the image is
+ * turned upright according to its EXIF orientation.
+ *
+ * @param buffer The JPEG file
+ * @param maxPixels The maximum number of pixels accepted, to bound the memory used
+ * @returns The decoded image
+ * @throws Error If the file is not a valid JPEG, or is larger than `maxPixels`
+ */
+export function decodeJpeg(buffer: Buffer, maxPixels: number): RasterImage {
+  const header: JpegHeader | null = readJpegHeader(buffer)
+  if (!header || !header.width || !header.height) {
+    throw new Error('Invalid JPEG header')
+  }
+  if (header.width * header.height > maxPixels) {
+    throw new Error(`JPEG image too large (${header.width}x${header.height})`)
+  }
+  const { width, height, data } = jpeg.decode(buffer, {
+    useTArray: true,
+    formatAsRGBA: true,
+    tolerantDecoding: false,
+    maxResolutionInMP: maxPixels / 1e6,
+    // The RGBA image, plus the coefficients and planes of the components
+    maxMemoryUsageInMB: Math.ceil((maxPixels * 16) / 2 ** 20),
+  })
+  return applyOrientation({ width, height, data }, header.orientation)
+}
+
+/**
+ * Encodes an image as a baseline JPEG with `jpeg-js`
+ *
+ * JPEG has no transparency: the transparent pixels are composed over white.
+ *
+ * @param image The image
+ * @param quality The quality, from 1 to 100
+ * @returns The JPEG file
+ */
+export function encodeJpeg(image: RasterImage, quality: number): Buffer {
+  const { width, height } = image
+  const data = new Uint8Array(image.data)
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha: number = data[i + 3] / 255
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = Math.round(data[i + c] * alpha + 255 * (1 - alpha))
+    }
+    data[i + 3] = 255
+  }
+  return jpeg.encode(
+    { width, height, data },
+    Math.min(100, Math.max(1, Math.round(quality))),
+  ).data
+}
@@ -0,0 +1,197 @@
+import { Inflate, createInflate } from 'zlib'
+import { PNG, PNGWithMetadata } from 'pngjs'
+import { RasterImage, isOpaque } from './raster'
+
+/**
+ * The 8 bytes every PNG file starts with
+ */
+export const pngSignature: Buffer = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+])
+
+/**
+ * Passes of the Adam7 interlacing: first column, first row, column step and row step
+ */
+const adam7Passes: number[][] = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+]
+
+/**
+ * Number of samples per pixel of every PNG color type
+ */
+const channelsByColorType: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  3: 1, // Palette index
+  4: 2, // Grayscale and alpha
+  6: 4, // RGBA
+}
+
+/**
+ * Interface for the header (`IHDR` chunk) of a PNG file
+ */
+interface PngHeader {
+  width: number
+  height: number
+  bitDepth: number
+  channels: number
+  interlaced: boolean
+}
+
+/**
+ * Reads the header of a PNG file, which must be its first chunk, and checks its dimensions
+ *
+ * @param buffer The PNG file
+ * @param maxPixels The maximum number of pixels accepted
+ * @returns The header
+ * @throws Error If the file is not a valid PNG, or is larger than `maxPixels`
+ */
+function readPngHeader(buffer: Buffer, maxPixels: number): PngHeader {
+  if (
+    !buffer.subarray(0, 8).equals(pngSignature) ||
+    buffer.length < 33 ||
+    buffer.toString('latin1', 12, 16) !== 'IHDR'
+  ) {
+    throw new Error('Not a PNG file')
+  }
+  const width: number = buffer.readUInt32BE(16)
+  const height: number = buffer.readUInt32BE(20)
+  const bitDepth: number = buffer[24]
+  const channels: number = channelsByColorType[buffer[25]]
+  if (!width || !height || !channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error('Invalid PNG header')
+  }
+  if (width * height > maxPixels) {
+    throw new Error(`PNG image too large (${width}x${height})`)
+  }
+  return { width, height, bitDepth, channels, interlaced: buffer[28] === 1 }
+}
+
+/**
+ * Computes the size of the inflated image data of a PNG file: every scanline of every pass, with
+ * its filter type byte
+ *
+ * @param header The header of the PNG file
+ * @returns The size in bytes
+ */
+function getImageDataLength(header: PngHeader): number {
+  const { width, height, bitDepth, channels, interlaced } = header
+  let length = 0
+  for (const [startX, startY, stepX, stepY] of interlaced
+    ? adam7Passes
+    : [[0, 0, 1, 1]]) {
+    const passWidth: number = Math.ceil((width - startX) / stepX)
+    const passHeight: number = Math.ceil((height - startY) / stepY)
+    if (passWidth > 0 && passHeight > 0) {
+      length +=
+        passHeight * (1 + Math.ceil((passWidth * channels * bitDepth) / 8))
+    }
+  }
+  return length
+}
+
+/**
+ * Returns the compressed image data of a PNG file: its `IDAT` chunks, concatenated
+ *
+ * @param buffer The PNG file
+ * @returns The compressed image data
+ * @throws Error If a chunk is truncated
+ */
+function readImageData(buffer: Buffer): Buffer {
+  const chunks: Buffer[] = []
+  let offset = 8
+  while (offset + 8 <= buffer.length) {
+    const length: number = buffer.readUInt32BE(offset)
+    const type: string = buffer.toString('latin1', offset + 4, offset + 8)
+    const data: Buffer = buffer.subarray(offset + 8, offset + 8 + length)
+    if (data.length !== length) {
+      throw new Error(`Truncated PNG chunk ${type}`)
+    }
+    if (type === 'IDAT') {
+      chunks.push(data)
+    } else if (type === 'IEND') {
+      break
+    }
+    offset += length + 12
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Checks the image data of a PNG file without decoding it: it must inflate to no more than its
+ * dimensions hold
+ *
+ * The data is inflated as a stream and discarded, so the check holds little memory and does not
+ * block the event loop.
+ *
+ * @param buffer The PNG file
+ * @param maxPixels The maximum number of pixels accepted
+ * @throws Error If the file is not a valid PNG, is larger than `maxPixels`, or its data inflates to
+ *         more than its dimensions hold (a decompression bomb)
+ */
+export async function checkPngImageData(
+  buffer: Buffer,
+  maxPixels: number,
+): Promise<void> {
+  const maxLength: number = getImageDataLength(readPngHeader(buffer, maxPixels))
+  const inflate: Inflate = createInflate()
+  let length = 0
+  await new Promise<void>((resolve, reject) => {
+    inflate
+      .on('data', (chunk: Buffer) => {
+        length += chunk.length
+        if (length > maxLength) {
+          inflate.destroy(
+            new Error(
+              `PNG image data larger than its dimensions (over ${maxLength} bytes)`,
+            ),
+          )
+        }
+      })
+      .on('end', resolve)
+      .on('error', reject)
+      .end(readImageData(buffer))
+  })
+}
+
+/**
+ * Decodes a PNG image with `pngjs`
+ *
+ * The dimensions are checked from the header before anything is decoded; `pngjs` inflates no more
+ * image data than they hold. 16-bit samples are reduced to 8 bits.
+ *
+ * @param buffer The PNG file
+ * @param maxPixels The maximum number of pixels accepted, to bound the memory used
+ * @returns The decoded image
+ * @throws Error If the file is not a valid PNG, or is larger than `maxPixels`
+ */
+export function decodePng(buffer: Buffer, maxPixels: number): RasterImage {
+  readPngHeader(buffer, maxPixels)
+  const { width, height, data }: PNGWithMetadata = PNG.sync.read(buffer)
+  return {
+    width,
+    height,
+    data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+  }
+}
+
+/**
+ * Encodes an image as PNG with `pngjs`
+ *
+ * Opaque images are written as 8-bit RGB, others as 8-bit RGBA.
+ *
+ * @param image The image
+ * @returns The PNG file
+ */
+export function encodePng(image: RasterImage): Buffer {
+  const { width, height, data } = image
+  const png = new PNG({ width, height })
+  png.data = Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+  return PNG.sync.write(png, { colorType: isOpaque(image) ? 2 : 6 })
+}
@@ -0,0 +1,191 @@
+import {
+  RasterImage,
+  applyOrientation,
+  createRaster,
+  fitWithin,
+  resizeImage,
+} from './raster'
+import { gradient } from '../test-constants'
+
+/**
+ * Creates an image from its pixels
+ *
+ * @param width The width of the image
+ * @param pixels The RGBA samples of the pixels, row by row
+ * @returns The image
+ */
+function createImage(width: number, pixels: number[][]): RasterImage {
+  return {
+    width,
+    height: pixels.length / width,
+    data: Uint8Array.from(pixels.flat()),
+  }
+}
+
+/**
+ * Unit test suite for the raster images.
+ */
+describe('raster', () => {
+  /**
+   * Test suite for `fitWithin`.
+   */
+  describe('fitWithin', () => {
+    it('should scale the longest side down to the box, aspect ratio kept', () => {
+      expect(fitWithin(gradient, 20)).toEqual({ width: 20, height: 15 })
+      expect(fitWithin(createRaster(30, 40), 20)).toEqual({
+        width: 15,
+        height: 20,
+      })
+      expect(fitWithin(createRaster(1000, 333), 160)).toEqual({
+        width: 160,
+        height: 53,
+      })
+    })
+
+    it('should never enlarge the image', () => {
+      expect(fitWithin(gradient, 1280)).toEqual({ width: 40, height: 30 })
+    })
+
+    it('should keep at least one pixel on each side', () => {
+      expect(fitWithin(createRaster(1000, 2), 10)).toEqual({
+        width: 10,
+        height: 1,
+      })
+    })
+  })
+
+  /**
+   * Test suite for `resizeImage`.
+   */
+  describe('resizeImage', () => {
+    it('should scale the image to the given dimensions', () => {
+      const resized: RasterImage = resizeImage(gradient, 17, 11)
+
+      expect(resized.width).toBe(17)
+      expect(resized.height).toBe(11)
+      expect(resized.data.length).toBe(17 * 11 * 4)
+    })
+
+    it('should average the pixels each target pixel covers', () => {
+      const image: RasterImage = createImage(2, [
+        [0, 0, 0, 255],
+        [100, 200, 40, 255],
+        [200, 100, 80, 255],
+        [100, 100, 0, 255],
+      ])
+
+      expect(Array.from(resizeImage(image, 1, 1).data)).toEqual([
+        100, 100, 30, 255,
+      ])
+    })
+
+    it('should not darken the colors with transparent pixels', () => {
+      const image: RasterImage = createImage(2, [
+        [200, 100, 50, 255],
+        [0, 0, 0, 0],
+      ])
+
+      expect(Array.from(resizeImage(image, 1, 1).data)).toEqual([
+        200, 100, 50, 128,
+      ])
+    })
+
+    it('should copy an image kept at its dimensions', () => {
+      const resized: RasterImage = resizeImage(gradient, 40, 30)
+
+      expect(resized).toEqual(gradient)
+      expect(resized.data).not.toBe(gradient.data)
+    })
+  })
+
+  /**
+   * Test suite for `applyOrientation`.
+   */
+  describe('applyOrientation', () => {
+    // 3x2 pixels numbered in their red sample
+    const image: RasterImage = createImage(
+      3,
+      [1, 2, 3, 4, 5, 6].map((red) => [red, 0, 0, 255]),
+    )
+
+    /**
+     * Returns the red samples of an image, row by row
+     */
+    const getRows = ({ width, data }: RasterImage): number[][] => {
+      const rows: number[][] = []
+      for (let i = 0; i < data.length; i += width * 4) {
+        rows.push(Array.from({ length: width }, (_, x) => data[i + x * 4]))
+      }
+      return rows
+    }
+
+    it.each([
+      [
+        1,
+        [
+          [1, 2, 3],
+          [4, 5, 6],
+        ],
+      ],
+      [
+        2,
+        [
+          [3, 2, 1],
+          [6, 5, 4],
+        ],
+      ],
+      [
+        3,
+        [
+          [6, 5, 4],
+          [3, 2, 1],
+        ],
+      ],
+      [
+        4,
+        [
+          [4, 5, 6],
+          [1, 2, 3],
+        ],
+      ],
+      [
+        5,
+        [
+          [1, 4],
+          [2, 5],
+          [3, 6],
+        ],
+      ],
+      [
+        6,
+        [
+          [4, 1],
+          [5, 2],
+          [6, 3],
+        ],
+      ],
+      [
+        7,
+        [
+          [6, 3],
+          [5, 2],
+          [4, 1],
+        ],
+      ],
+      [
+        8,
+        [
+          [3, 6],
+          [2, 5],
+          [1, 4],
+        ],
+      ],
+    ])('should display orientation %i upright', (orientation, rows) => {
+      expect(getRows(applyOrientation(image, orientation))).toEqual(rows)
+    })
+
+    it('should ignore an unknown orientation', () => {
+      expect(applyOrientation(image, 9)).toBe(image)
+    })
+  })
+})
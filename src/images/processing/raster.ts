@@ -0,0 +1,232 @@
+/**
+ * Interface for a decoded image
+ *
+ * - `width`, `height`: The dimensions of the image in pixels.
+ * - `data`: The pixels, row by row from the top left corner, as 8-bit RGBA samples (4 bytes per
+ *   pixel, alpha not premultiplied).
+ */
+export interface RasterImage {
+  width: number
+  height: number
+  data: Uint8Array
+}
+
+/**
+ * Creates a blank (transparent black) image
+ *
+ * @param width The width of the image in pixels
+ * @param height The height of the image in pixels
+ * @returns The new image
+ */
+export function createRaster(width: number, height: number): RasterImage {
+  return { width, height, data: new Uint8Array(width * height * 4) }
+}
+
+/**
+ * Whether every pixel of an image is fully opaque
+ *
+ * @param image The image
+ * @returns `true` if no pixel has an alpha below 255
+ */
+export function isOpaque(image: RasterImage): boolean {
+  for (let i = 3; i < image.data.length; i += 4) {
+    if (image.data[i] !== 255) return false
+  }
+  return true
+}
+
+/**
+ * Returns the dimensions of an image scaled down to fit within a square box
+ *
+ * The aspect ratio is kept and the image is never enlarged.
+ *
+ * @param image The image
+ * @param maxSize The side of the box in pixels
+ * @returns The scaled dimensions (at least 1 pixel each)
+ */
+export function fitWithin(
+  image: RasterImage,
+  maxSize: number,
+): { width: number; height: number } {
+  const scale: number = Math.min(
+    1,
+    maxSize / Math.max(image.width, image.height),
+  )
+  return {
+    width: Math.max(1, Math.round(image.width * scale)),
+    height: Math.max(1, Math.round(image.height * scale)),
+  }
+}
+
+/**
+ * Computes the contributions of the source pixels to every target pixel along one axis
+ *
+ * Every target pixel covers a span of the source axis; each source pixel contributes the fraction
+ * of it within the span (area averaging, or a box filter).
+ *
+ * @param sourceSize The number of source pixels on the axis
+ * @param targetSize The number of target pixels on the axis (not more than `sourceSize`)
+ * @returns For every target pixel, the indices of the source pixels and their weights (summing to 1)
+ */
+function getContributions(
+  sourceSize: number,
+  targetSize: number,
+): { indices: number[]; weights: number[] }[] {
+  const scale: number = sourceSize / targetSize
+  const contributions: { indices: number[]; weights: number[] }[] = []
+  for (let target = 0; target < targetSize; target++) {
+    const start: number = target * scale
+    const end: number = Math.min(start + scale, sourceSize)
+    const indices: number[] = []
+    const weights: number[] = []
+    for (let source = Math.floor(start); source < end; source++) {
+      const weight: number = Math.min(source + 1, end) - Math.max(source, start)
+      if (weight > 0) {
+        indices.push(source)
+        weights.push(weight / (end - start))
+      }
+    }
+    contributions.push({ indices, weights })
+  }
+  return contributions
+}
+
+/**
+ * Scales an image down by area averaging
+ *
+ * Every target pixel is the average of the source pixels it covers, weighted by their coverage,
+ * which keeps thin details and avoids the aliasing of point sampling. The colors are averaged
+ * premultiplied by their alpha, so that transparent pixels don't darken the edges.
+ *
+ * @param image The source image
+ * @param width The target width (not more than the source width)
+ * @param height The target height (not more than the source height)
+ * @returns The scaled image
+ */
+export function resizeImage(
+  image: RasterImage,
+  width: number,
+  height: number,
+): RasterImage {
+  if (width === image.width && height === image.height) {
+    return { width, height, data: image.data.slice() }
+  }
+  const source: Uint8Array = image.data
+  const columns = getContributions(image.width, width)
+  const rows = getContributions(image.height, height)
+  // Horizontal pass: source rows into premultiplied target columns
+  const horizontal = new Float32Array(width * image.height * 4)
+  for (let y = 0; y < image.height; y++) {
+    const sourceRow: number = y * image.width * 4
+    for (let x = 0; x < width; x++) {
+      const { indices, weights } = columns[x]
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let i = 0; i < indices.length; i++) {
+        const offset: number = sourceRow + indices[i] * 4
+        const alphaWeight: number = (source[offset + 3] / 255) * weights[i]
+        r += source[offset] * alphaWeight
+        g += source[offset + 1] * alphaWeight
+        b += source[offset + 2] * alphaWeight
+        a += alphaWeight
+      }
+      const target: number = (y * width + x) * 4
+      horizontal[target] = r
+      horizontal[target + 1] = g
+      horizontal[target + 2] = b
+      horizontal[target + 3] = a
+    }
+  }
+  // Vertical pass: premultiplied columns into the target rows, back to straight alpha
+  const result: RasterImage = createRaster(width, height)
+  for (let y = 0; y < height; y++) {
+    const { indices, weights } = rows[y]
+    for (let x = 0; x < width; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let i = 0; i < indices.length; i++) {
+        const offset: number = (indices[i] * width + x) * 4
+        r += horizontal[offset] * weights[i]
+        g += horizontal[offset + 1] * weights[i]
+        b += horizontal[offset + 2] * weights[i]
+        a += horizontal[offset + 3] * weights[i]
+      }
+      const target: number = (y * width + x) * 4
+      if (a > 0) {
+        result.data[target] = Math.round(r / a)
+        result.data[target + 1] = Math.round(g / a)
+        result.data[target + 2] = Math.round(b / a)
+        result.data[target + 3] = Math.round(a * 255)
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Turns an image upright according to its EXIF orientation
+ *
+ * Cameras store the pixels as captured and record how to display them in the `Orientation` tag
+ * (1 to 8). The variants are stored upright, since the tag is not copied to them.
+ *
+ * @param image The image as stored
+ * @param orientation The EXIF orientation (1: upright, 2-4: flipped or upside down, 5-8: rotated)
+ * @returns The upright image (the same image for orientation 1 or an unknown value)
+ */
+export function applyOrientation(
+  image: RasterImage,
+  orientation: number,
+): RasterImage {
+  if (!(orientation >= 2 && orientation <= 8)) {
+    return image
+  }
+  const { width, height } = image
+  const transposed: boolean = orientation >= 5
+  const result: RasterImage = transposed
+    ? createRaster(height, width)
+    : createRaster(width, height)
+  for (let y = 0; y < result.height; y++) {
+    for (let x = 0; x < result.width; x++) {
+      // Coordinates of the stored pixel displayed at (x, y)
+      let sourceX: number
+      let sourceY: number
+      switch (orientation) {
+        case 2:
+          sourceX = width - 1 - x
+          sourceY = y
+          break
+        case 3:
+          sourceX = width - 1 - x
+          sourceY = height - 1 - y
+          break
+        case 4:
+          sourceX = x
+          sourceY = height - 1 - y
+          break
+        case 5:
+          sourceX = y
+          sourceY = x
+          break
+        case 6:
+          sourceX = y
+          sourceY = height - 1 - x
+          break
+        case 7:
+          sourceX = width - 1 - y
+          sourceY = height - 1 - x
+          break
+        default:
+          sourceX = width - 1 - y
+          sourceY = x
+      }
+      const source: number = (sourceY * width + sourceX) * 4
+      const target: number = (y * result.width + x) * 4
+      result.data.set(image.data.subarray(source, source + 4), target)
+    }
+  }
+  return result
+}
@@ -0,0 +1,86 @@
+import { RenderedVariant, renderVariants } from './variant-renderer'
+import { decodeImage } from './image-codecs'
+import { encodeJpeg } from './jpeg.codec'
+import { encodePng } from './png.codec'
+import { createGradient } from '../test-constants'
+
+/**
+ * Unit test suite for `renderVariants`.
+ */
+describe('renderVariants', () => {
+  const sizes = [
+    { name: 'medium', maxSize: 64 },
+    { name: 'thumb', maxSize: 16 },
+  ]
+  const options = {
+    sizes,
+    formats: [],
+    quality: { jpeg: 80, avif: 50 },
+    maxPixels: 1e6,
+  }
+
+  it('should render every size in the format of the original and the extra formats', async () => {
+    const variants: RenderedVariant[] = await renderVariants(
+      encodeJpeg(createGradient(120, 90), 90),
+      { ...options, formats: ['png', 'jpeg'] },
+    )
+
+    expect(
+      variants.map(({ name, format, width, height }) => [
+        name,
+        format,
+        width,
+        height,
+      ]),
+    ).toEqual([
+      ['medium', 'jpeg', 64, 48],
+      ['medium', 'png', 64, 48],
+      ['thumb', 'jpeg', 16, 12],
+      ['thumb', 'png', 16, 12],
+    ])
+  })
+
+  it('should encode the files at the dimensions of their variant', async () => {
+    const [medium, thumb] = await renderVariants(
+      encodePng(createGradient(90, 120)),
+      options,
+    )
+
+    expect(medium.format).toBe('png')
+    expect(decodeImage(Buffer.from(medium.file), 1e6)).toMatchObject({
+      width: 48,
+      height: 64,
+    })
+    expect(decodeImage(Buffer.from(thumb.file), 1e6)).toMatchObject({
+      width: 12,
+      height: 16,
+    })
+  })
+
+  it('should keep the dimensions of an original smaller than a size', async () => {
+    const variants: RenderedVariant[] = await renderVariants(
+      encodePng(createGradient(20, 10)),
+      options,
+    )
+
+    expect(variants.map(({ width, height }) => [width, height])).toEqual([
+      [20, 10],
+      [16, 8],
+    ])
+  })
+
+  it('should refuse a file that is not a JPEG or a PNG', async () => {
+    await expect(
+      renderVariants(Buffer.from('GIF89a'), options),
+    ).rejects.toThrow('Unsupported image format (JPEG or PNG expected)')
+  })
+
+  it('should refuse an original larger than the maximum pixels', async () => {
+    await expect(
+      renderVariants(encodePng(createGradient(120, 90)), {
+        ...options,
+        maxPixels: 1000,
+      }),
+    ).rejects.toThrow()
+  })
+})
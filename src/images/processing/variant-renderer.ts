@@ -0,0 +1,91 @@
+import {
+  ImageFormat,
+  ImageQuality,
+  decodeImage,
+  detectImageFormat,
+  encodeImage,
+} from './image-codecs'
+import { RasterImage, fitWithin, resizeImage } from './raster'
+
+/**
+ * Interface for a named size of the variants
+ *
+ * - `name`: The name of the size (e.g. `thumb`), in the keys of the files and the API.
+ * - `maxSize`: The side of the square the variants of this size fit in, in pixels.
+ */
+export interface VariantSize {
+  name: string
+  maxSize: number
+}
+
+/**
+ * Interface for the settings of the rendering of the variants
+ *
+ * - `sizes`: The sizes of the variants, largest first.
+ * - `formats`: The formats every size is converted to, besides the format of the original.
+ * - `quality`: The quality of the JPEG and AVIF variants, from 1 to 100.
+ * - `maxPixels`: The largest image (in pixels) decoded.
+ */
+export interface VariantRenderOptions {
+  sizes: VariantSize[]
+  formats: ImageFormat[]
+  quality: ImageQuality
+  maxPixels: number
+}
+
+/**
+ * Interface for a rendered variant, before it is stored
+ *
+ * - `name`, `format`: The name of its size and its format.
+ * - `width`, `height`: Its dimensions in pixels.
+ * - `file`: The encoded file.
+ */
+export interface RenderedVariant {
+  name: string
+  format: ImageFormat
+  width: number
+  height: number
+  file: Uint8Array
+}
+
+/**
+ * Renders the variants of an image: every size, in the format of the original and the extra formats
+ *
+ * The sizes are generated from the largest to the smallest, each one scaled down from the
+ * previous one. A size larger than the original keeps the dimensions of the original.
+ *
+ * @param body The content of the original file (JPEG or PNG)
+ * @param options The sizes, formats and limits of the variants
+ * @returns A Promise resolving to the variants, in the order of the sizes and then of the formats
+ * @throws Error If the file cannot be decoded
+ */
+export async function renderVariants(
+  body: Buffer,
+  options: VariantRenderOptions,
+): Promise<RenderedVariant[]> {
+  const sourceFormat: ImageFormat | null = detectImageFormat(body)
+  if (!sourceFormat) {
+    throw new Error('Unsupported image format (JPEG or PNG expected)')
+  }
+  const original: RasterImage = decodeImage(body, options.maxPixels)
+  const formats: ImageFormat[] = [
+    sourceFormat,
+    ...options.formats.filter((format) => format !== sourceFormat),
+  ]
+  const variants: RenderedVariant[] = []
+  let image: RasterImage = original
+  for (const { name, maxSize } of options.sizes) {
+    const { width, height } = fitWithin(original, maxSize)
+    image = resizeImage(image, width, height)
+    for (const format of formats) {
+      variants.push({
+        name,
+        format,
+        width,
+        height,
+        file: await encodeImage(image, format, options.quality),
+      })
+    }
+  }
+  return variants
+}
@@ -0,0 +1,39 @@
+import { parentPort } from 'worker_threads'
+import { RenderedVariant, renderVariants } from './variant-renderer'
+import {
+  VariantWorkerRequest,
+  VariantWorkerResponse,
+} from './variant-worker-pool'
+
+/**
+ * Entry point of the worker thread rendering the variants of the images (see `VariantWorkerPool`)
+ *
+ * Every request is answered with the rendered variants, their files transferred rather than
+ * copied, or with the message of the error.
+ */
+parentPort.on(
+  'message',
+  async ({ id, body, options }: VariantWorkerRequest) => {
+    let response: VariantWorkerResponse
+    try {
+      const variants: RenderedVariant[] = await renderVariants(
+        Buffer.from(body.buffer, body.byteOffset, body.byteLength),
+        options,
+      )
+      // Small buffers share the memory pool of Node: each file gets its own memory to be transferred
+      response = {
+        id,
+        variants: variants.map((variant) => ({
+          ...variant,
+          file: new Uint8Array(variant.file),
+        })),
+      }
+    } catch (error) {
+      response = { id, error: error.message }
+    }
+    parentPort.postMessage(
+      response,
+      response.variants?.map(({ file }) => file.buffer as ArrayBuffer),
+    )
+  },
+)
@@ -0,0 +1,127 @@
+import { VariantWorkerPool } from './variant-worker-pool'
+import { RenderedVariant, VariantRenderOptions } from './variant-renderer'
+import { encodePng } from './png.codec'
+import { RasterImage } from './raster'
+import { createGradient } from '../test-constants'
+
+/**
+ * Reads the dimensions of an AVIF file from its image spatial extents property (`ispe` box)
+ *
+ * @param avif The AVIF file
+ * @returns The width and height of the image
+ */
+function readAvifDimensions(avif: Buffer): { width: number; height: number } {
+  // The box type is followed by its version and flags, then the width and height
+  const offset: number = avif.indexOf('ispe') + 8
+  return {
+    width: avif.readUInt32BE(offset),
+    height: avif.readUInt32BE(offset + 4),
+  }
+}
+
+/**
+ * Reads the header of a lossless WebP file
+ *
+ * @param webp The WebP file
+ * @returns The width and height of the image, and whether it has an alpha channel
+ */
+function readWebpHeader(webp: Buffer): {
+  width: number
+  height: number
+  alpha: boolean
+} {
+  // Signature, then 14 bits of width - 1, 14 bits of height - 1 and the alpha hint
+  const header: number = webp.readUInt32LE(21)
+  return {
+    width: (header & 0x3fff) + 1,
+    height: ((header >>> 14) & 0x3fff) + 1,
+    alpha: Boolean((header >>> 28) & 1),
+  }
+}
+
+/**
+ * Unit test suite for VariantWorkerPool.
+ * The variants are rendered by a real worker thread, which also loads the WebAssembly encoders of
+ * WebP and AVIF (ES modules, which the test environment cannot load itself).
+ */
+describe('VariantWorkerPool', () => {
+  const pool = new VariantWorkerPool()
+  const options: VariantRenderOptions = {
+    sizes: [{ name: 'thumb', maxSize: 16 }],
+    formats: ['webp', 'avif'],
+    quality: { jpeg: 80, avif: 50 },
+    maxPixels: 1e6,
+  }
+
+  /**
+   * A translucent gradient: the alpha grows from top to bottom
+   */
+  const translucent: RasterImage = createGradient(40, 30)
+  for (let i = 3; i < translucent.data.length; i += 4) {
+    translucent.data[i] = Math.floor(i / 4 / 40) * 8
+  }
+
+  afterAll(async () => {
+    await pool.terminate()
+  })
+
+  it('should render the WebP and AVIF variants', async () => {
+    const variants: RenderedVariant[] = await pool.render(
+      encodePng(createGradient(40, 30)),
+      options,
+    )
+    const [png, webp, avif] = variants.map(({ file }) => Buffer.from(file))
+
+    expect(variants.map(({ format }) => format)).toEqual([
+      'png',
+      'webp',
+      'avif',
+    ])
+    expect(png.subarray(1, 4).toString('latin1')).toBe('PNG')
+    expect(webp.toString('latin1', 0, 4)).toBe('RIFF')
+    expect(webp.toString('latin1', 8, 16)).toBe('WEBPVP8L')
+    expect(readWebpHeader(webp)).toEqual({
+      width: 16,
+      height: 12,
+      alpha: false,
+    })
+    expect(avif.toString('latin1', 4, 12)).toBe('ftypavif')
+    expect(readAvifDimensions(avif)).toEqual({ width: 16, height: 12 })
+  })
+
+  it('should keep the alpha of a translucent image', async () => {
+    const [, webp, avif] = await pool.render(encodePng(translucent), options)
+
+    expect(readWebpHeader(Buffer.from(webp.file)).alpha).toBe(true)
+    // The alpha plane is an auxiliary image of the AVIF file
+    expect(
+      Buffer.from(avif.file).includes(
+        'urn:mpeg:mpegB:cicp:systems:auxiliary:alpha',
+      ),
+    ).toBe(true)
+  })
+
+  it('should reject the request of a file it cannot decode, and go on', async () => {
+    await expect(pool.render(Buffer.from('GIF89a'), options)).rejects.toThrow(
+      'Unsupported image format (JPEG or PNG expected)',
+    )
+
+    await expect(
+      pool.render(encodePng(createGradient(8, 8)), {
+        ...options,
+        formats: [],
+      }),
+    ).resolves.toHaveLength(1)
+  })
+
+  it('should fail the pending requests when it is terminated', async () => {
+    const pending: Promise<RenderedVariant[]> = pool.render(
+      encodePng(createGradient(40, 30)),
+      options,
+    )
+
+    await pool.terminate()
+
+    await expect(pending).rejects.toThrow('Image worker thread exited')
+  })
+})
@@ -0,0 +1,127 @@
+import { Worker } from 'worker_threads'
+import { extname, join } from 'path'
+import { RenderedVariant, VariantRenderOptions } from './variant-renderer'
+
+/**
+ * Interface for a request to the worker thread: the original file and the settings of its variants
+ */
+export interface VariantWorkerRequest {
+  id: number
+  body: Uint8Array
+  options: VariantRenderOptions
+}
+
+/**
+ * Interface for a response of the worker thread: the rendered variants, or the message of the error
+ */
+export interface VariantWorkerResponse {
+  id: number
+  variants?: RenderedVariant[]
+  error?: string
+}
+
+/**
+ * VariantWorkerPool: Renders the variants of the images in a worker thread
+ *
+ * Decoding, resizing and encoding an image takes up to seconds of CPU time: it runs in a single
+ * worker thread (`variant-thread`), so that the event loop keeps serving the other requests, and
+ * the images are processed one at a time, which bounds the memory used. The thread is started on
+ * the first request and only keeps the process alive while it has work. If it crashes, the pending
+ * requests fail and the next request starts a new thread.
+ */
+export class VariantWorkerPool {
+  private worker: Worker | null = null
+  private nextId = 1
+  private readonly pending = new Map<
+    number,
+    {
+      resolve: (variants: RenderedVariant[]) => void
+      reject: (error: Error) => void
+    }
+  >()
+
+  /**
+   * Renders the variants of an image in the worker thread
+   *
+   * @param body The content of the original file (JPEG or PNG)
+   * @param options The sizes, formats and limits of the variants
+   * @returns A Promise resolving to the variants
+   * @throws Error If the file cannot be decoded, or the worker thread fails
+   */
+  render(
+    body: Buffer,
+    options: VariantRenderOptions,
+  ): Promise<RenderedVariant[]> {
+    const worker: Worker = this.worker ?? this.start()
+    const id: number = this.nextId++
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      // The thread keeps the process alive only while it has work
+      worker.ref()
+      const request: VariantWorkerRequest = { id, body, options }
+      worker.postMessage(request)
+    })
+  }
+
+  /**
+   * Stops the worker thread, failing the pending requests
+   */
+  async terminate(): Promise<void> {
+    const worker: Worker | null = this.worker
+    this.worker = null
+    await worker?.terminate()
+  }
+
+  /**
+   * Starts the worker thread
+   *
+   * When the application runs from its TypeScript sources (`ts-node`), the worker thread loads
+   * them the same way.
+   *
+   * @returns The worker thread
+   */
+  private start(): Worker {
+    const extension: string = extname(__filename)
+    const worker = new Worker(join(__dirname, `variant-thread${extension}`), {
+      execArgv:
+        extension === '.ts'
+          ? ['--require', 'ts-node/register/transpile-only']
+          : undefined,
+    })
+    worker
+      .on('message', ({ id, variants, error }: VariantWorkerResponse) => {
+        const task = this.pending.get(id)
+        this.pending.delete(id)
+        if (!this.pending.size) {
+          worker.unref()
+        }
+        if (error !== undefined) {
+          task?.reject(new Error(error))
+        } else {
+          task?.resolve(variants)
+        }
+      })
+      .on('error', (error: Error) => this.fail(worker, error))
+      .on('exit', (code: number) =>
+        this.fail(worker, new Error(`Image worker thread exited (${code})`)),
+      )
+    this.worker = worker
+    return worker
+  }
+
+  /**
+   * Fails the pending requests of a worker thread that stopped
+   *
+   * @param worker The worker thread
+   * @param error The error the requests fail with
+   */
+  private fail(worker: Worker, error: Error): void {
+    if (this.worker === worker) {
+      this.worker = null
+    }
+    for (const { reject } of this.pending.values()) {
+      reject(error)
+    }
+    this.pending.clear()
+  }
+}
@@ -0,0 +1,64 @@
+import { readFile } from 'fs/promises'
+
+/**
+ * Interface for the Emscripten options of an encoder, instantiating its WebAssembly binary
+ */
+export interface WasmEncoderOptions {
+  instantiateWasm: (
+    imports: WebAssembly.Imports,
+    callback: (instance: WebAssembly.Instance) => void,
+  ) => WebAssembly.Exports
+}
+
+/**
+ * Reads the WebAssembly binary of an encoder from its package
+ *
+ * @param path The path of the binary, from the package name (e.g. `@jsquash/avif/codec/enc/avif_enc.wasm`)
+ * @returns A Promise resolving to the binary
+ */
+export function readWasmBinary(path: string): Promise<Buffer> {
+  return readFile(require.resolve(path))
+}
+
+/**
+ * Returns the Emscripten options instantiating the WebAssembly binary of an encoder
+ *
+ * The `@jsquash` encoders are built for the browser, where the binary is fetched from the URL of
+ * the script; Node cannot fetch a local file, so the binary is read from the package and
+ * instantiated with the imports of the encoder.
+ *
+ * @param binary The WebAssembly binary
+ * @returns A Promise resolving to the options of the `init` function of the encoder
+ */
+export async function getWasmEncoderOptions(
+  binary: Buffer,
+): Promise<WasmEncoderOptions> {
+  const module: WebAssembly.Module = await WebAssembly.compile(binary)
+  return {
+    instantiateWasm: (imports, callback) => {
+      const instance = new WebAssembly.Instance(module, imports)
+      callback(instance)
+      return instance.exports
+    },
+  }
+}
+
+/**
+ * Wraps the pixels of an image in the `ImageData` shape the encoders take
+ *
+ * @param image The image, as 8-bit RGBA
+ * @returns The image data
+ */
+export function toImageData(image: {
+  width: number
+  height: number
+  data: Uint8Array
+}): ImageData {
+  const { width, height, data } = image
+  return {
+    width,
+    height,
+    colorSpace: 'srgb',
+    data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength),
+  }
+}
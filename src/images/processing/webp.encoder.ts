@@ -0,0 +1,60 @@
+import { RasterImage } from './raster'
+import {
+  getWasmEncoderOptions,
+  readWasmBinary,
+  toImageData,
+} from './wasm-encoder'
+
+/**
+ * Type of the encode function of `@jsquash/webp`
+ */
+type WebpEncode = (typeof import('@jsquash/webp/encode.js'))['default']
+
+/**
+ * The encoder, loaded on the first WebP variant
+ */
+let encoder: Promise<WebpEncode> | null = null
+
+/**
+ * Loads the WebP encoder (libwebp compiled to WebAssembly)
+ *
+ * The module is imported on first use only, so that it is not loaded unless WebP is one of the
+ * formats of the variants. `init` picks the SIMD build wherever WebAssembly SIMD is supported,
+ * which the binary read here must match.
+ *
+ * @returns A Promise resolving to the encode function
+ */
+function loadEncoder(): Promise<WebpEncode> {
+  encoder ??= (async () => {
+    const { default: encode, init } = await import('@jsquash/webp/encode.js')
+    const simdBinary: Buffer = await readWasmBinary(
+      '@jsquash/webp/codec/enc/webp_enc_simd.wasm',
+    )
+    await init(
+      await getWasmEncoderOptions(
+        WebAssembly.validate(simdBinary)
+          ? simdBinary
+          : await readWasmBinary('@jsquash/webp/codec/enc/webp_enc.wasm'),
+      ),
+    )
+    return encode
+  })().catch((error) => {
+    encoder = null
+    throw error
+  })
+  return encoder
+}
+
+/**
+ * Encodes an image as a lossless WebP, with `@jsquash/webp`
+ *
+ * The result is lossless, so it is larger than a lossy WebP of a photo, but still smaller than
+ * the PNG.
+ *
+ * @param image The image
+ * @returns A Promise resolving to the WebP file
+ */
+export async function encodeWebp(image: RasterImage): Promise<Buffer> {
+  const encode: WebpEncode = await loadEncoder()
+  return Buffer.from(await encode(toImageData(image), { lossless: 1 }))
+}
@@ -0,0 +1,60 @@
+import { Global, Module } from '@nestjs/common'
+import { imageStorageSettings, localUrl } from 'src/shared/constants'
+import { ImageStorage } from './image-storage'
+import { S3ImageStorage } from './s3.image-storage'
+import { S3CompatibleImageStorage } from './s3-compatible.image-storage'
+import { LocalImageStorage } from './local.image-storage'
+import { ImageVariantsService } from '../processing/image-variants.service'
+
+/**
+ * Creates the image storage driver selected by the environment
+ *
+ * - `IMAGE_STORAGE=s3`: AWS S3, configured by `BUCKET_NAME` and `AWS_S3_REGION`.
+ * - `IMAGE_STORAGE=s3-compatible`: An S3-compatible server at `S3_ENDPOINT`, configured by
+ *   `BUCKET_NAME` and optionally `AWS_S3_REGION`.
+ * - `IMAGE_STORAGE=local`: The `IMAGE_STORAGE_DIR` directory, served by the API.
+ *
+ * `IMAGE_PUBLIC_URL` overrides the base URL of the stored images for all of them.
+ *
+ * @returns The image storage driver
+ * @throws Error If the driver is unknown or misconfigured
+ */
+function createImageStorage(): ImageStorage {
+  const { driver, bucket, region, endpoint, publicUrl, directory, route } =
+    imageStorageSettings
+  switch (driver) {
+    case 's3':
+      return new S3ImageStorage({ bucket, region, publicUrl })
+    case 's3-compatible':
+      return new S3CompatibleImageStorage({
+        bucket,
+        region,
+        endpoint,
+        publicUrl,
+      })
+    case 'local':
+      return new LocalImageStorage(
+        directory,
+        publicUrl ?? `${localUrl}${route.slice(1)}`,
+      )
+    default:
+      throw new Error(`Unknown IMAGE_STORAGE '${driver}'`)
+  }
+}
+
+/**
+ * ImageStorageModule: Provides the storage of the image files
+ *
+ * This global module provides the `ImageStorage` driver selected by the environment, and the
+ * `ImageVariantsService` writing the resized copies of the images to it, to the `ImagesService` of
+ * every resource module.
+ */
+@Global()
+@Module({
+  providers: [
+    { provide: ImageStorage, useFactory: createImageStorage },
+    ImageVariantsService,
+  ],
+  exports: [ImageStorage, ImageVariantsService],
+})
+export class ImageStorageModule {}
@@ -0,0 +1,85 @@
+import { Readable } from 'stream'
+
+/**
+ * Interface for the metadata of a stored file
+ *
+ * - `size`: The size of the file in bytes.
+ * - `etag`: The quoted entity tag of the current content of the file.
+ * - `lastModified`: The date the file was last written.
+ * - `contentType`: The MIME type recorded by the storage, if any.
+ */
+export interface StoredFileStat {
+  size: number
+  etag: string
+  lastModified: Date
+  contentType?: string
+}
+
+/**
+ * Interface for a range of bytes of a file (both ends included, as in the HTTP `Range` header)
+ */
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+/**
+ * ImageStorage: Abstraction over the storage of the image files
+ *
+ * `ImagesService` keeps the image records in the database and hands the files to the driver
+ * selected by the `IMAGE_STORAGE` environment variable:
+ *
+ * - `s3`: `S3ImageStorage` stores them in an AWS S3 bucket.
+ * - `s3-compatible`: `S3CompatibleImageStorage` stores them in a bucket of MinIO or any other
+ *   S3-compatible server (`S3_ENDPOINT`).
+ * - `local`: `LocalImageStorage` writes them to a directory served by the API, for development
+ *   without any cloud account.
+ *
+ * The files are named by a key (the original file name); the driver knows the public URL they
+ * are served from, and can be read back through the API (`GET /images/:id/content`). The abstract
+ * class doubles as the injection token of the driver.
+ */
+export abstract class ImageStorage {
+  /**
+   * Stores a file, replacing any file of the same key
+   *
+   * @param key The key of the file
+   * @param body The content of the file
+   * @param contentType The MIME type of the file, if known
+   * @returns A Promise resolving once the file is stored
+   */
+  abstract put(key: string, body: Buffer, contentType?: string): Promise<void>
+
+  /**
+   * Deletes a file (deleting a missing file is not an error)
+   *
+   * @param key The key of the file
+   * @returns A Promise resolving once the file is deleted
+   */
+  abstract delete(key: string): Promise<void>
+
+  /**
+   * Returns the metadata of a file
+   *
+   * @param key The key of the file
+   * @returns A Promise resolving to the metadata, or `null` if there is no such file
+   */
+  abstract stat(key: string): Promise<StoredFileStat | null>
+
+  /**
+   * Opens a file for reading
+   *
+   * @param key The key of the file
+   * @param range The range of bytes to read (the whole file by default)
+   * @returns A Promise resolving to a stream of the content of the file
+   */
+  abstract createReadStream(key: string, range?: ByteRange): Promise<Readable>
+
+  /**
+   * Returns the public URL of a file
+   *
+   * @param key The key of the file
+   * @returns The URL the file is served from
+   */
+  abstract getPublicUrl(key: string): string
+}
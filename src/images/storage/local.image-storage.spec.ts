@@ -0,0 +1,120 @@
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Readable } from 'stream'
+import { LocalImageStorage } from './local.image-storage'
+
+/**
+ * Reads a stream to its end
+ *
+ * @param stream The stream
+ * @returns A Promise resolving to the content read
+ */
+async function read(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Unit test suite for LocalImageStorage.
+ * The files are written to a temporary directory, removed after every test.
+ */
+describe('LocalImageStorage', () => {
+  const content: Buffer = Buffer.from('0123456789')
+  let root: string
+  let directory: string
+  let storage: LocalImageStorage
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'swapi-images-'))
+    directory = join(root, 'images')
+    storage = new LocalImageStorage(directory, 'http://localhost:3000/images/')
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('should create the directory and write the file', async () => {
+    await storage.put('luke.png', content)
+
+    await expect(readFile(join(directory, 'luke.png'))).resolves.toEqual(
+      content,
+    )
+  })
+
+  it('should return the metadata of a file', async () => {
+    await storage.put('luke.png', content)
+
+    const stat = await storage.stat('luke.png')
+
+    // The ETag is derived from the size and modification time, as `express.static` does
+    expect(stat.size).toBe(10)
+    expect(stat.etag).toBe(`"a-${stat.lastModified.getTime().toString(16)}"`)
+    expect(Math.abs(stat.lastModified.getTime() - Date.now())).toBeLessThan(
+      60000,
+    )
+  })
+
+  it('should return no metadata for a missing file', async () => {
+    await expect(storage.stat('missing.png')).resolves.toBeNull()
+  })
+
+  it('should read the whole file', async () => {
+    await storage.put('luke.png', content)
+
+    await expect(
+      read(await storage.createReadStream('luke.png')),
+    ).resolves.toEqual(content)
+  })
+
+  it('should read a range of the file, both ends included', async () => {
+    await storage.put('luke.png', content)
+
+    const stream: Readable = await storage.createReadStream('luke.png', {
+      start: 2,
+      end: 5,
+    })
+
+    await expect(read(stream)).resolves.toEqual(Buffer.from('2345'))
+  })
+
+  it('should delete a file, and ignore a missing one', async () => {
+    await storage.put('luke.png', content)
+
+    await storage.delete('luke.png')
+    await storage.delete('luke.png')
+
+    await expect(readdir(directory)).resolves.toEqual([])
+  })
+
+  it('should return the URL of a file under the static route', () => {
+    expect(storage.getPublicUrl('luke skywalker.png')).toBe(
+      'http://localhost:3000/images/luke%20skywalker.png',
+    )
+  })
+
+  it.each(['../secret.txt', 'nested/luke.png', '..', '.', '', '/etc/passwd'])(
+    'should refuse the key %p',
+    async (key) => {
+      await writeFile(join(root, 'secret.txt'), 'secret')
+
+      await expect(storage.put(key, content)).rejects.toThrow(
+        'Invalid image file name',
+      )
+      await expect(storage.stat(key)).rejects.toThrow('Invalid image file name')
+      await expect(storage.createReadStream(key)).rejects.toThrow(
+        'Invalid image file name',
+      )
+      await expect(storage.delete(key)).rejects.toThrow(
+        'Invalid image file name',
+      )
+      await expect(readFile(join(root, 'secret.txt'), 'utf8')).resolves.toBe(
+        'secret',
+      )
+    },
+  )
+})
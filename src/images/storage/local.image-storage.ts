@@ -0,0 +1,109 @@
+import { createReadStream } from 'fs'
+import { mkdir, rm, stat, writeFile } from 'fs/promises'
+import { basename, resolve } from 'path'
+import { Readable } from 'stream'
+import { ByteRange, ImageStorage, StoredFileStat } from './image-storage'
+
+/**
+ * LocalImageStorage: Stores the images in a directory of the server
+ *
+ * For development and tests without any cloud account: the files are written to the directory
+ * (created if needed), which `main.ts` serves under the static route, so that their URLs are
+ * `<baseUrl>/<key>`. Keys naming anything else than a file of the directory are refused.
+ */
+export class LocalImageStorage extends ImageStorage {
+  private readonly directory: string
+
+  /**
+   * @param directory The directory the files are written to (relative to the working directory)
+   * @param baseUrl The URL the directory is served from
+   */
+  constructor(
+    directory: string,
+    private readonly baseUrl: string,
+  ) {
+    super()
+    this.directory = resolve(directory)
+  }
+
+  /**
+   * Writes a file to the directory
+   *
+   * @param key The key of the file
+   * @param body The content of the file
+   */
+  async put(key: string, body: Buffer): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(this.getPath(key), body)
+  }
+
+  /**
+   * Deletes a file from the directory
+   *
+   * @param key The key of the file
+   */
+  async delete(key: string): Promise<void> {
+    await rm(this.getPath(key), { force: true })
+  }
+
+  /**
+   * Returns the metadata of a file of the directory
+   *
+   * The ETag is derived from the size and modification time of the file, as `express.static` does.
+   *
+   * @param key The key of the file
+   * @returns A Promise resolving to the size, ETag and modification date of the file, or `null` if
+   *          there is no such file
+   */
+  async stat(key: string): Promise<StoredFileStat | null> {
+    const stats = await stat(this.getPath(key)).catch((error) => {
+      if (error.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    })
+    if (!stats?.isFile()) {
+      return null
+    }
+    return {
+      size: stats.size,
+      etag: `"${stats.size.toString(16)}-${stats.mtime.getTime().toString(16)}"`,
+      lastModified: stats.mtime,
+    }
+  }
+
+  /**
+   * Opens a file (or a range of it) of the directory for reading
+   *
+   * @param key The key of the file
+   * @param range The range of bytes to read (the whole file by default)
+   * @returns A Promise resolving to a stream of the content of the file
+   */
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return createReadStream(this.getPath(key), range)
+  }
+
+  /**
+   * Returns the URL of a file under the static route
+   *
+   * @param key The key of the file
+   * @returns The URL the file is served from
+   */
+  getPublicUrl(key: string): string {
+    return `${this.baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(key)}`
+  }
+
+  /**
+   * Returns the path of a file of the directory
+   *
+   * @param key The key of the file
+   * @returns The absolute path of the file
+   * @throws Error If the key is not a plain file name (e.g. `../secrets`)
+   */
+  private getPath(key: string): string {
+    if (!key || key !== basename(key) || key === '.' || key === '..') {
+      throw new Error(`Invalid image file name: ${key}`)
+    }
+    return resolve(this.directory, key)
+  }
+}
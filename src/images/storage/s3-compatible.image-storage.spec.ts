@@ -0,0 +1,211 @@
+import * as http from 'http'
+import * as net from 'net'
+import { Readable } from 'stream'
+import { S3CompatibleImageStorage } from './s3-compatible.image-storage'
+
+/**
+ * Reads a stream to its end
+ *
+ * @param stream The stream
+ * @returns A Promise resolving to the content read
+ */
+async function read(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * A minimal S3-compatible server on a local port, which keeps the objects in memory and records the
+ * requests it receives
+ */
+class FakeS3Server {
+  /**
+   * The objects, by request path (`/<bucket>/<key>`)
+   */
+  readonly objects = new Map<string, { body: Buffer; contentType: string }>()
+
+  /**
+   * The requests received, as `<method> <path>`, with their `Range` header if any
+   */
+  readonly requests: string[] = []
+
+  private readonly server: http.Server = http.createServer((req, res) =>
+    this.serve(req, res),
+  )
+
+  /**
+   * Starts listening on a free local port
+   *
+   * @returns A Promise resolving to the URL of the server
+   */
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    )
+    return `http://127.0.0.1:${(this.server.address() as net.AddressInfo).port}`
+  }
+
+  /**
+   * Stops the server
+   */
+  async close(): Promise<void> {
+    this.server.closeAllConnections()
+    await new Promise((resolve) => this.server.close(resolve))
+  }
+
+  /**
+   * Answers a request on an object
+   *
+   * @param req The request
+   * @param res The response
+   */
+  private async serve(req: http.IncomingMessage, res: http.ServerResponse) {
+    const path: string = decodeURIComponent(req.url.split('?')[0])
+    this.requests.push(
+      [req.method, path, req.headers.range].filter(Boolean).join(' '),
+    )
+    const body: Buffer = await read(req)
+    const object = this.objects.get(path)
+    if (req.method === 'PUT') {
+      this.objects.set(path, {
+        body,
+        contentType: req.headers['content-type'],
+      })
+      res.writeHead(200, { ETag: '"etag"' }).end()
+    } else if (req.method === 'DELETE') {
+      this.objects.delete(path)
+      res.writeHead(204).end()
+    } else if (!object) {
+      res
+        .writeHead(404, { 'Content-Type': 'application/xml' })
+        .end(
+          req.method === 'HEAD'
+            ? undefined
+            : '<Error><Code>NoSuchKey</Code><Message>Not Found</Message></Error>',
+        )
+    } else {
+      const match = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '')
+      const [start, end] = match
+        ? [Number(match[1]), Number(match[2])]
+        : [0, object.body.length - 1]
+      res.writeHead(match ? 206 : 200, {
+        'Content-Type': object.contentType,
+        'Content-Length': end - start + 1,
+        ETag: '"etag"',
+        'Last-Modified': new Date('2026-01-01T00:00:00Z').toUTCString(),
+      })
+      res.end(
+        req.method === 'HEAD'
+          ? undefined
+          : object.body.subarray(start, end + 1),
+      )
+    }
+  }
+}
+
+/**
+ * Unit test suite for S3CompatibleImageStorage.
+ * The files are stored in a minimal S3-compatible server on a local port.
+ */
+describe('S3CompatibleImageStorage', () => {
+  const credentials = {
+    AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
+    AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
+  }
+  const content: Buffer = Buffer.from('0123456789')
+  let server: FakeS3Server
+  let endpoint: string
+  let storage: S3CompatibleImageStorage
+
+  beforeEach(async () => {
+    process.env.AWS_ACCESS_KEY_ID = 'minio'
+    process.env.AWS_SECRET_ACCESS_KEY = 'minio-secret'
+    server = new FakeS3Server()
+    endpoint = await server.listen()
+    storage = new S3CompatibleImageStorage({
+      bucket: 'swapi',
+      region: 'us-east-1',
+      endpoint,
+    })
+  })
+
+  afterEach(async () => {
+    await server.close()
+    Object.assign(process.env, credentials)
+  })
+
+  it('should require an endpoint', () => {
+    expect(
+      () =>
+        new S3CompatibleImageStorage({
+          bucket: 'swapi',
+          region: 'us-east-1',
+          endpoint: '',
+        }),
+    ).toThrow('S3_ENDPOINT must be set')
+  })
+
+  it('should store a file in the bucket addressed in path style', async () => {
+    await storage.put('luke.png', content, 'image/png')
+
+    expect(server.requests).toEqual(['PUT /swapi/luke.png'])
+    expect(server.objects.get('/swapi/luke.png')).toEqual({
+      body: content,
+      contentType: 'image/png',
+    })
+  })
+
+  it('should return the metadata of a file', async () => {
+    await storage.put('luke.png', content, 'image/png')
+
+    await expect(storage.stat('luke.png')).resolves.toEqual({
+      size: 10,
+      etag: '"etag"',
+      lastModified: new Date('2026-01-01T00:00:00Z'),
+      contentType: 'image/png',
+    })
+  })
+
+  it('should return no metadata for a missing file', async () => {
+    await expect(storage.stat('missing.png')).resolves.toBeNull()
+  })
+
+  it('should read the whole file', async () => {
+    await storage.put('luke.png', content, 'image/png')
+
+    await expect(
+      read(await storage.createReadStream('luke.png')),
+    ).resolves.toEqual(content)
+  })
+
+  it('should read a range of the file, both ends included', async () => {
+    await storage.put('luke.png', content, 'image/png')
+
+    const stream: Readable = await storage.createReadStream('luke.png', {
+      start: 2,
+      end: 5,
+    })
+
+    await expect(read(stream)).resolves.toEqual(Buffer.from('2345'))
+    expect(server.requests).toContain('GET /swapi/luke.png bytes=2-5')
+  })
+
+  it('should delete a file', async () => {
+    await storage.put('luke.png', content, 'image/png')
+
+    await storage.delete('luke.png')
+
+    expect(server.requests).toContain('DELETE /swapi/luke.png')
+    expect(server.objects.size).toBe(0)
+    await expect(storage.stat('luke.png')).resolves.toBeNull()
+  })
+
+  it('should return the URL of a file under the endpoint', () => {
+    expect(storage.getPublicUrl('luke skywalker.png')).toBe(
+      `${endpoint}/swapi/luke%20skywalker.png`,
+    )
+  })
+})
@@ -0,0 +1,39 @@
+import { S3ImageStorage, S3StorageOptions } from './s3.image-storage'
+
+/**
+ * Interface for the options of the S3-compatible driver
+ *
+ * The S3 options completed with the `endpoint` of the server (e.g. `http://localhost:9000` for a
+ * local MinIO).
+ */
+export interface S3CompatibleStorageOptions extends S3StorageOptions {
+  endpoint: string
+}
+
+/**
+ * S3CompatibleImageStorage: Stores the images in a bucket of an S3-compatible server
+ *
+ * For MinIO, Ceph, Garage and the S3 APIs of other providers. The bucket is addressed in path
+ * style (`<endpoint>/<bucket>/<key>`), which these servers support without any DNS setup, and the
+ * files are served from the same URL unless a public URL is configured. The bucket must allow
+ * anonymous reads for the URLs to be public.
+ */
+export class S3CompatibleImageStorage extends S3ImageStorage {
+  /**
+   * @param options The endpoint, bucket, region and public URL
+   */
+  constructor(options: S3CompatibleStorageOptions) {
+    if (!options.endpoint) {
+      throw new Error('S3_ENDPOINT must be set to use an S3-compatible storage')
+    }
+    super(
+      {
+        ...options,
+        publicUrl:
+          options.publicUrl ??
+          `${options.endpoint.replace(/\/+$/, '')}/${options.bucket}`,
+      },
+      { endpoint: options.endpoint, forcePathStyle: true },
+    )
+  }
+}
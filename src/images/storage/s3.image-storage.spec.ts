@@ -0,0 +1,140 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3'
+import { Readable } from 'stream'
+import { S3ImageStorage } from './s3.image-storage'
+
+/**
+ * Unit test suite for S3ImageStorage.
+ * The commands sent by the S3 client are intercepted.
+ */
+describe('S3ImageStorage', () => {
+  let storage: S3ImageStorage
+  let send: jest.SpyInstance
+
+  beforeEach(() => {
+    storage = new S3ImageStorage({ bucket: 'swapi', region: 'eu-west-3' })
+    send = jest.spyOn(S3Client.prototype, 'send').mockResolvedValue({} as never)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  /**
+   * Returns the command sent to S3
+   *
+   * @param index The position of the command
+   * @returns The command
+   */
+  const getCommand = (index: number = 0) => send.mock.calls[index][0]
+
+  it('should require a bucket', () => {
+    expect(
+      () => new S3ImageStorage({ bucket: '', region: 'eu-west-3' }),
+    ).toThrow('BUCKET_NAME must be set')
+  })
+
+  it('should upload a file with its content type', async () => {
+    const body: Buffer = Buffer.from('png')
+
+    await storage.put('luke.png', body, 'image/png')
+
+    expect(getCommand()).toBeInstanceOf(PutObjectCommand)
+    expect(getCommand().input).toEqual({
+      Bucket: 'swapi',
+      Key: 'luke.png',
+      Body: body,
+      ContentType: 'image/png',
+    })
+  })
+
+  it('should delete a file', async () => {
+    await storage.delete('luke.png')
+
+    expect(getCommand()).toBeInstanceOf(DeleteObjectCommand)
+    expect(getCommand().input).toEqual({ Bucket: 'swapi', Key: 'luke.png' })
+  })
+
+  it('should return the metadata of a file', async () => {
+    const lastModified: Date = new Date('2026-01-01T00:00:00Z')
+    send.mockResolvedValue({
+      ContentLength: 10,
+      ETag: '"etag"',
+      LastModified: lastModified,
+      ContentType: 'image/png',
+    } as never)
+
+    await expect(storage.stat('luke.png')).resolves.toEqual({
+      size: 10,
+      etag: '"etag"',
+      lastModified,
+      contentType: 'image/png',
+    })
+    expect(getCommand()).toBeInstanceOf(HeadObjectCommand)
+  })
+
+  it('should return no metadata for a missing file', async () => {
+    send.mockRejectedValue(
+      new NotFound({ message: 'Not Found', $metadata: {} }),
+    )
+
+    await expect(storage.stat('missing.png')).resolves.toBeNull()
+  })
+
+  it('should fail on any other error', async () => {
+    send.mockRejectedValue(
+      new S3ServiceException({
+        name: 'AccessDenied',
+        $fault: 'client',
+        $metadata: {},
+        message: 'Access Denied',
+      }),
+    )
+
+    await expect(storage.stat('luke.png')).rejects.toThrow('Access Denied')
+  })
+
+  it('should download the whole file', async () => {
+    const body: Readable = Readable.from([Buffer.from('png')])
+    send.mockResolvedValue({ Body: body } as never)
+
+    await expect(storage.createReadStream('luke.png')).resolves.toBe(body)
+    expect(getCommand()).toBeInstanceOf(GetObjectCommand)
+    expect(getCommand().input).toEqual({
+      Bucket: 'swapi',
+      Key: 'luke.png',
+      Range: undefined,
+    })
+  })
+
+  it('should download a range of the file', async () => {
+    await storage.createReadStream('luke.png', { start: 2, end: 5 })
+
+    expect(getCommand().input.Range).toBe('bytes=2-5')
+  })
+
+  it('should return the URL of a file in the bucket', () => {
+    expect(storage.getPublicUrl('luke skywalker.png')).toBe(
+      'https://swapi.s3.eu-west-3.amazonaws.com/luke%20skywalker.png',
+    )
+  })
+
+  it('should return the URL of a file under the public URL', () => {
+    storage = new S3ImageStorage({
+      bucket: 'swapi',
+      region: 'eu-west-3',
+      publicUrl: 'https://cdn.swapi.test/',
+    })
+
+    expect(storage.getPublicUrl('luke.png')).toBe(
+      'https://cdn.swapi.test/luke.png',
+    )
+  })
+})
@@ -0,0 +1,141 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+  S3ClientConfig,
+} from '@aws-sdk/client-s3'
+import { Readable } from 'stream'
+import { ByteRange, ImageStorage, StoredFileStat } from './image-storage'
+
+/**
+ * Interface for the options of the S3 drivers
+ *
+ * - `bucket`: The bucket the files are stored in.
+ * - `region`: The region of the bucket.
+ * - `publicUrl`: Optional base URL the files are served from instead of the bucket (e.g. a CDN).
+ *
+ * The credentials are read by the AWS SDK from its usual sources (`AWS_ACCESS_KEY_ID` and
+ * `AWS_SECRET_ACCESS_KEY`, shared configuration files, instance roles).
+ */
+export interface S3StorageOptions {
+  bucket: string
+  region: string
+  publicUrl?: string
+}
+
+/**
+ * S3ImageStorage: Stores the images in an AWS S3 bucket
+ *
+ * The files are served by S3 from the virtual-hosted-style URL of the bucket
+ * (`https://<bucket>.s3.<region>.amazonaws.com/<key>`), unless a public URL is configured.
+ */
+export class S3ImageStorage extends ImageStorage {
+  protected readonly client: S3Client
+
+  /**
+   * @param options The bucket, region and public URL
+   * @param clientConfig Additional configuration of the S3 client (e.g. the endpoint)
+   */
+  constructor(
+    protected readonly options: S3StorageOptions,
+    clientConfig: S3ClientConfig = {},
+  ) {
+    super()
+    if (!options.bucket) {
+      throw new Error('BUCKET_NAME must be set to store the images in S3')
+    }
+    this.client = new S3Client({ region: options.region, ...clientConfig })
+  }
+
+  /**
+   * Uploads a file to the bucket
+   *
+   * @param key The key of the file
+   * @param body The content of the file
+   * @param contentType The MIME type of the file, if known
+   */
+  async put(key: string, body: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }),
+    )
+  }
+
+  /**
+   * Deletes a file from the bucket
+   *
+   * @param key The key of the file
+   */
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }),
+    )
+  }
+
+  /**
+   * Returns the metadata of a file of the bucket
+   *
+   * @param key The key of the file
+   * @returns A Promise resolving to the size, ETag, modification date and content type of the
+   *          object, or `null` if there is no such object
+   */
+  async stat(key: string): Promise<StoredFileStat | null> {
+    let head: HeadObjectCommandOutput
+    try {
+      head = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      )
+    } catch (error) {
+      if (error instanceof NotFound) {
+        return null
+      }
+      throw error
+    }
+    return {
+      size: head.ContentLength,
+      etag: head.ETag,
+      lastModified: head.LastModified,
+      contentType: head.ContentType,
+    }
+  }
+
+  /**
+   * Downloads a file (or a range of it) from the bucket
+   *
+   * @param key The key of the file
+   * @param range The range of bytes to read (the whole file by default)
+   * @returns A Promise resolving to a stream of the body of the object
+   */
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const object = await this.client.send(
+      new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }),
+    )
+    // The body is a Node.js stream in the Node.js runtime of the SDK
+    return object.Body as Readable
+  }
+
+  /**
+   * Returns the URL of a file in the bucket, or under the configured public URL
+   *
+   * @param key The key of the file
+   * @returns The URL the file is served from
+   */
+  getPublicUrl(key: string): string {
+    const baseUrl: string =
+      this.options.publicUrl ??
+      `https://${this.options.bucket}.s3.${this.options.region}.amazonaws.com`
+    return `${baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(key)}`
+  }
+}
@@ -0,0 +1,264 @@
+import { deflateSync } from 'zlib'
+import { Pagination } from 'nestjs-typeorm-paginate'
+import { CursorPagination } from 'src/shared/cursor-pagination'
+import * as constants from 'src/shared/constants'
+import { RasterImage, createRaster } from './processing/raster'
+import { Image } from './entities/image.entity'
+import { ImagesService } from './images.service'
+
+/**
+ * A sample image: a gradient of 40x30 pixels, opaque
+ *
+ * The red channel grows from left to right and the green one from top to bottom, so that any
+ * transposition or flip of the image is visible.
+ */
+export const gradient: RasterImage = createGradient(40, 30)
+
+/**
+ * Creates an opaque gradient image
+ *
+ * @param width The width of the image
+ * @param height The height of the image
+ * @returns The image
+ */
+export function createGradient(width: number, height: number): RasterImage {
+  const image: RasterImage = createRaster(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i: number = (y * width + x) * 4
+      image.data[i] = Math.round((x * 255) / (width - 1))
+      image.data[i + 1] = Math.round((y * 255) / (height - 1))
+      image.data[i + 2] = 128
+      image.data[i + 3] = 255
+    }
+  }
+  return image
+}
+
+/**
+ * Text of the EXIF metadata of `exifSegment`, which must not be stored
+ */
+export const exifSecret: string = 'GPS 48.8584N 2.2945E'
+
+/**
+ * A JPEG EXIF segment (APP1): an orientation of 6 (a quarter turn clockwise) and an image
+ * description holding `exifSecret`
+ */
+export const exifSegment: Buffer = createExifSegment(6, exifSecret)
+
+/**
+ * Creates a JPEG EXIF segment (APP1, big-endian TIFF)
+ *
+ * @param orientation The value of the `Orientation` tag
+ * @param description The value of the `ImageDescription` tag
+ * @returns The segment, marker and length included
+ */
+function createExifSegment(orientation: number, description: string): Buffer {
+  const text: Buffer = Buffer.from(`${description}\0`, 'latin1')
+  // TIFF header, then the IFD (2 entries) and the description it points to
+  const tiff: Buffer = Buffer.alloc(8 + 2 + 2 * 12 + 4 + text.length)
+  tiff.write('MM\0*', 0, 'latin1')
+  tiff.writeUInt32BE(8, 4)
+  tiff.writeUInt16BE(2, 8)
+  tiff.writeUInt16BE(0x010e, 10)
+  tiff.writeUInt16BE(2, 12)
+  tiff.writeUInt32BE(text.length, 14)
+  tiff.writeUInt32BE(38, 18)
+  tiff.writeUInt16BE(0x0112, 22)
+  tiff.writeUInt16BE(3, 24)
+  tiff.writeUInt32BE(1, 26)
+  tiff.writeUInt16BE(orientation, 30)
+  text.copy(tiff, 38)
+  return createJpegSegment(
+    0xe1,
+    Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]),
+  )
+}
+
+/**
+ * Creates a JPEG segment
+ *
+ * @param marker The marker of the segment (e.g. `0xfe` for a comment)
+ * @param data The content of the segment
+ * @returns The segment, marker and length included
+ */
+export function createJpegSegment(marker: number, data: Buffer): Buffer {
+  const header: Buffer = Buffer.alloc(4)
+  header.writeUInt16BE(0xff00 | marker, 0)
+  header.writeUInt16BE(data.length + 2, 2)
+  return Buffer.concat([header, data])
+}
+
+/**
+ * Inserts segments at the start of a JPEG file, after its SOI marker
+ *
+ * @param jpeg The JPEG file
+ * @param segments The segments to insert
+ * @returns The new JPEG file
+ */
+export function insertJpegSegments(
+  jpeg: Buffer,
+  ...segments: Buffer[]
+): Buffer {
+  return Buffer.concat([jpeg.subarray(0, 2), ...segments, jpeg.subarray(2)])
+}
+
+/**
+ * Creates a PNG chunk
+ *
+ * @param type The four-letter chunk type
+ * @param data The chunk data
+ * @returns The chunk with its length and CRC
+ */
+export function createPngChunk(type: string, data: Buffer): Buffer {
+  const chunk: Buffer = Buffer.alloc(data.length + 12)
+  chunk.writeUInt32BE(data.length, 0)
+  chunk.write(type, 4, 'latin1')
+  data.copy(chunk, 8)
+  let crc: number = 0xffffffff
+  for (const byte of chunk.subarray(4, 8 + data.length)) {
+    crc ^= byte
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+    }
+  }
+  chunk.writeUInt32BE((crc ^ 0xffffffff) >>> 0, 8 + data.length)
+  return chunk
+}
+
+/**
+ * Inserts chunks in a PNG file, after its IHDR header
+ *
+ * @param png The PNG file
+ * @param chunks The chunks to insert
+ * @returns The new PNG file
+ */
+export function insertPngChunks(png: Buffer, ...chunks: Buffer[]): Buffer {
+  // The signature (8 bytes) and the IHDR chunk (25 bytes) come first
+  return Buffer.concat([png.subarray(0, 33), ...chunks, png.subarray(33)])
+}
+
+/**
+ * Creates a PNG file of an 8-bit grayscale image from its header and compressed image data
+ *
+ * @param width The width announced by the header
+ * @param height The height announced by the header
+ * @param imageData The image data to compress, as is
+ * @returns The PNG file
+ */
+export function createGrayscalePng(
+  width: number,
+  height: number,
+  imageData: Buffer,
+): Buffer {
+  const header: Buffer = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    createPngChunk('IHDR', header),
+    createPngChunk('IDAT', deflateSync(imageData)),
+    createPngChunk('IEND', Buffer.alloc(0)),
+  ])
+}
+
+/**
+ * Mock paginated result for the images of a resource
+ *
+ * This mock object represents an empty page of images, with its meta information.
+ */
+export const paginatedImages: Pagination<Image> = {
+  items: [],
+  meta: {
+    itemCount: 0,
+    totalItems: 0,
+    itemsPerPage: 10,
+    totalPages: 1,
+    currentPage: 1,
+  },
+}
+
+/**
+ * Test suite for the `findImages` method shared by the controllers of the resources
+ *
+ * Every resource lists its images at `GET /<resource>/:id/images`, by the same code: the suite is
+ * declared in the spec of each controller.
+ *
+ * @param entityType The resource type the images are attached to (e.g. `people`)
+ * @param getContext Returns the controller and the `ImagesService` of the current test
+ */
+export function describeFindImages(
+  entityType: string,
+  getContext: () => {
+    controller: {
+      findImages(
+        id: number,
+        page: number,
+        limit: number,
+        cursor?: string,
+      ): Promise<Pagination<Image> | CursorPagination<Image>>
+    }
+    imagesService: ImagesService
+  },
+): void {
+  describe('findImages', () => {
+    /**
+     * Test to verify that the `findImages` method returns the paginated images of the resource.
+     */
+    it('should return the images of the resource', async () => {
+      const { controller, imagesService } = getContext()
+      jest
+        .spyOn(imagesService, 'findAllOfAnEntity')
+        .mockResolvedValue(paginatedImages)
+
+      expect(await controller.findImages(1, 1, 10)).toEqual(paginatedImages)
+      expect(imagesService.findAllOfAnEntity).toHaveBeenCalledWith(
+        entityType,
+        1,
+        { page: 1, limit: 10 },
+        undefined,
+      )
+    })
+
+    /**
+     * Test to verify that the page size is capped at `limitCount`.
+     */
+    it('should cap the limit of the images at limitCount', async () => {
+      const { controller, imagesService } = getContext()
+      const limitCount = jest.replaceProperty(constants, 'limitCount', 20)
+      jest
+        .spyOn(imagesService, 'findAllOfAnEntity')
+        .mockResolvedValue(paginatedImages)
+
+      await controller.findImages(1, 1, 21)
+      limitCount.restore()
+
+      expect(imagesService.findAllOfAnEntity).toHaveBeenCalledWith(
+        entityType,
+        1,
+        { page: 1, limit: 20 },
+        undefined,
+      )
+    })
+
+    /**
+     * Test to verify that the cursor is passed on to select cursor pagination.
+     */
+    it('should pass the cursor of the images', async () => {
+      const { controller, imagesService } = getContext()
+      jest
+        .spyOn(imagesService, 'findAllOfAnEntity')
+        .mockResolvedValue(paginatedImages)
+
+      await controller.findImages(1, 1, 10, 'cursor')
+
+      expect(imagesService.findAllOfAnEntity).toHaveBeenCalledWith(
+        entityType,
+        1,
+        { page: 1, limit: 10 },
+        'cursor',
+      )
+    })
+  })
+}
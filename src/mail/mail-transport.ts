@@ -0,0 +1,34 @@
+/**
+ * Interface for an outgoing email
+ *
+ * - `to`: The recipient address.
+ * - `subject`: The subject line.
+ * - `text`: The plain-text body.
+ */
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * MailTransport: Abstraction over the delivery of emails
+ *
+ * `MailService` composes the messages and hands them to the transport selected by the
+ * `MAIL_TRANSPORT` environment variable:
+ *
+ * - `smtp`: `SmtpMailTransport` delivers them to an SMTP server.
+ * - `outbox` (default): `OutboxMailTransport` keeps them in memory and optionally appends them
+ *   to a file, for development and tests.
+ *
+ * The abstract class doubles as the injection token of the transport.
+ */
+export abstract class MailTransport {
+  /**
+   * Delivers an email
+   *
+   * @param message The message to deliver
+   * @returns A Promise resolving once the message was accepted by the transport
+   */
+  abstract send(message: MailMessage): Promise<void>
+}
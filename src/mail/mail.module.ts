@@ -0,0 +1,49 @@
+import { Global, Module } from '@nestjs/common'
+import { MailTransport } from './mail-transport'
+import { SmtpMailTransport } from './smtp.mail-transport'
+import { OutboxMailTransport } from './outbox.mail-transport'
+import { MailService } from './mail.service'
+
+/**
+ * Creates the mail transport selected by the environment
+ *
+ * - `MAIL_TRANSPORT=smtp`: SMTP delivery configured by `SMTP_HOST`, `SMTP_PORT`, `SMTP_SECURE`,
+ *   `SMTP_USER` and `SMTP_PASS`. The credentials are only sent over TLS, unless
+ *   `SMTP_ALLOW_INSECURE_AUTH=true`.
+ * - otherwise: the development outbox, optionally written to `MAIL_OUTBOX_FILE`.
+ *
+ * `MAIL_FROM` sets the sender address of both.
+ *
+ * @returns The mail transport
+ */
+function createMailTransport(): MailTransport {
+  const from: string = process.env.MAIL_FROM || 'no-reply@localhost'
+  if (process.env.MAIL_TRANSPORT === 'smtp') {
+    return new SmtpMailTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      from,
+    })
+  }
+  return new OutboxMailTransport(from, process.env.MAIL_OUTBOX_FILE)
+}
+
+/**
+ * MailModule: Provides the email delivery of the application
+ *
+ * This global module provides the `MailTransport` selected by the environment and the
+ * `MailService` composing the account emails.
+ */
+@Global()
+@Module({
+  providers: [
+    { provide: MailTransport, useFactory: createMailTransport },
+    MailService,
+  ],
+  exports: [MailTransport, MailService],
+})
+export class MailModule {}
@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common'
+import { MailTransport } from './mail-transport'
+import { localUrl } from 'src/shared/constants'
+
+/**
+ * MailService: Composes and sends the application emails
+ *
+ * This service builds the account emails (address verification, password reset) and hands them
+ * to the configured `MailTransport`.
+ */
+@Injectable()
+export class MailService {
+  constructor(private readonly mailTransport: MailTransport) {}
+
+  /**
+   * Sends the email address verification link
+   *
+   * @param email The address to verify
+   * @param userName The name of the user, for the greeting
+   * @param token The single-use verification token
+   */
+  async sendEmailVerification(
+    email: string,
+    userName: string,
+    token: string,
+  ): Promise<void> {
+    await this.mailTransport.send({
+      to: email,
+      subject: 'Verify your email address',
+      text: [
+        `Hello ${userName},`,
+        '',
+        'Please confirm your email address by opening the following link:',
+        `${localUrl}auth/verify-email?token=${encodeURIComponent(token)}`,
+        '',
+        'Until then, your account has read-only access.',
+      ].join('\n'),
+    })
+  }
+
+  /**
+   * Sends the password reset token
+   *
+   * @param email The address of the user
+   * @param userName The name of the user, for the greeting
+   * @param token The single-use password reset token
+   * @param forced Whether an administrator reset the password, which the user cannot ignore
+   */
+  async sendPasswordReset(
+    email: string,
+    userName: string,
+    token: string,
+    forced: boolean = false,
+  ): Promise<void> {
+    await this.mailTransport.send({
+      to: email,
+      subject: 'Reset your password',
+      text: [
+        `Hello ${userName},`,
+        '',
+        forced
+          ? 'An administrator reset your password. To choose a new one and sign in again, send the'
+          : 'A password reset was requested for your account. To choose a new password, send the',
+        `following token to ${localUrl}auth/reset-password:`,
+        '',
+        token,
+        '',
+        forced
+          ? 'Your previous password no longer works.'
+          : 'If you did not request it, you can ignore this email.',
+      ].join('\n'),
+    })
+  }
+}
@@ -0,0 +1,65 @@
+import { Logger } from '@nestjs/common'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { OutboxMailTransport } from './outbox.mail-transport'
+import { MailMessage } from './mail-transport'
+
+/**
+ * The message of the tests
+ */
+const message: MailMessage = {
+  to: 'luke@tatooine.org',
+  subject: 'Reset your password',
+  text: 'Hello Luke,\n\nToken: 1234',
+}
+
+/**
+ * Unit test suite for OutboxMailTransport.
+ */
+describe('OutboxMailTransport', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation()
+    directory = await mkdtemp(join(tmpdir(), 'outbox-'))
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should keep the messages in memory, oldest first', async () => {
+    const transport = new OutboxMailTransport('no-reply@swapi.test')
+
+    await transport.send(message)
+    await transport.send({ ...message, to: 'leia@alderaan.org' })
+
+    expect(transport.messages).toEqual([
+      expect.objectContaining({ ...message, from: 'no-reply@swapi.test' }),
+      expect.objectContaining({ to: 'leia@alderaan.org' }),
+    ])
+    expect(new Date(transport.messages[0].sentAt).getTime()).not.toBeNaN()
+  })
+
+  it('should append the messages to the file, one JSON object per line', async () => {
+    const file: string = join(directory, 'outbox.jsonl')
+    const transport = new OutboxMailTransport('no-reply@swapi.test', file)
+
+    await transport.send(message)
+    await transport.send(message)
+
+    const lines: string[] = (await readFile(file, 'utf8')).trim().split('\n')
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[0])).toEqual(transport.messages[0])
+  })
+
+  it('should log the recipient and subject, not the body', async () => {
+    await new OutboxMailTransport('no-reply@swapi.test').send(message)
+
+    expect(Logger.prototype.log).toHaveBeenCalledWith(
+      'Mail to luke@tatooine.org stored: Reset your password',
+    )
+  })
+})
@@ -0,0 +1,56 @@
+import { appendFile } from 'fs/promises'
+import { Logger } from '@nestjs/common'
+import { MailMessage, MailTransport } from './mail-transport'
+
+/**
+ * Interface for a message kept by the outbox
+ */
+export interface OutboxMessage extends MailMessage {
+  from: string
+  sentAt: string
+}
+
+/**
+ * OutboxMailTransport: Development and test mail transport
+ *
+ * Nothing is delivered: the messages are kept in memory (`messages`) and, when a file is given
+ * (`MAIL_OUTBOX_FILE`), appended to it as one JSON object per line, so that verification and
+ * password reset links can be picked up without a mail server.
+ */
+export class OutboxMailTransport extends MailTransport {
+  private readonly logger = new Logger(OutboxMailTransport.name)
+
+  /**
+   * The messages sent so far, oldest first
+   */
+  readonly messages: OutboxMessage[] = []
+
+  /**
+   * @param from The sender address
+   * @param file The optional path of the file the messages are appended to
+   */
+  constructor(
+    private readonly from: string,
+    private readonly file?: string,
+  ) {
+    super()
+  }
+
+  /**
+   * Stores a message in the outbox
+   *
+   * @param message The message to store
+   */
+  async send(message: MailMessage): Promise<void> {
+    const outboxMessage: OutboxMessage = {
+      ...message,
+      from: this.from,
+      sentAt: new Date().toISOString(),
+    }
+    this.messages.push(outboxMessage)
+    if (this.file) {
+      await appendFile(this.file, `${JSON.stringify(outboxMessage)}\n`)
+    }
+    this.logger.log(`Mail to ${message.to} stored: ${message.subject}`)
+  }
+}
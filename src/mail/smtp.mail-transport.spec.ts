@@ -0,0 +1,189 @@
+import * as net from 'net'
+import { SmtpMailTransport, SmtpOptions } from './smtp.mail-transport'
+import { MailMessage } from './mail-transport'
+
+/**
+ * The message of the tests
+ */
+const message: MailMessage = {
+  to: 'luke@tatooine.org',
+  subject: 'Verify your email address',
+  text: 'Hello Luke,\n\nPlease confirm your email address.',
+}
+
+/**
+ * A scripted SMTP server on a local port, which records the commands it receives
+ */
+class FakeSmtpServer {
+  /**
+   * The commands received, in order (the message data is recorded as one entry)
+   */
+  readonly commands: string[] = []
+
+  /**
+   * Reply codes replacing the default replies, by command verb (e.g. `RCPT`)
+   */
+  readonly replies: Record<string, string> = {}
+
+  private readonly server: net.Server = net.createServer((socket) =>
+    this.serve(socket),
+  )
+
+  /**
+   * @param features The extensions announced in the EHLO reply
+   */
+  constructor(private readonly features: string[] = ['AUTH PLAIN']) {}
+
+  /**
+   * Starts listening on a free local port
+   *
+   * @returns A Promise resolving to the port
+   */
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    )
+    return (this.server.address() as net.AddressInfo).port
+  }
+
+  /**
+   * Stops the server
+   */
+  async close(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve))
+  }
+
+  /**
+   * Answers the commands of a client connection
+   *
+   * @param socket The client connection
+   */
+  private serve(socket: net.Socket) {
+    let buffer = ''
+    let data = false
+    socket.write('220 localhost ESMTP\r\n')
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString()
+      if (data) {
+        const end: number = buffer.indexOf('\r\n.\r\n')
+        if (end < 0) return
+        this.commands.push(buffer.slice(0, end))
+        buffer = buffer.slice(end + 5)
+        data = false
+        socket.write('250 queued\r\n')
+      }
+      let index: number
+      while (!data && (index = buffer.indexOf('\r\n')) >= 0) {
+        const line: string = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        this.commands.push(line)
+        const verb: string = line.split(' ')[0].toUpperCase()
+        if (this.replies[verb]) {
+          socket.write(`${this.replies[verb]}\r\n`)
+        } else if (verb === 'EHLO') {
+          socket.write(
+            ['localhost', ...this.features]
+              .map((line, i, lines) =>
+                i < lines.length - 1 ? `250-${line}` : `250 ${line}`,
+              )
+              .join('\r\n') + '\r\n',
+          )
+        } else if (verb === 'AUTH') {
+          socket.write('235 authenticated\r\n')
+        } else if (verb === 'DATA') {
+          data = true
+          socket.write('354 go ahead\r\n')
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n')
+        } else {
+          socket.write('250 ok\r\n')
+        }
+      }
+    })
+  }
+}
+
+/**
+ * Unit test suite for SmtpMailTransport.
+ * The messages are delivered to a scripted SMTP server on a local port (without TLS).
+ */
+describe('SmtpMailTransport', () => {
+  let server: FakeSmtpServer
+  let options: SmtpOptions
+
+  beforeEach(async () => {
+    server = new FakeSmtpServer()
+    options = {
+      host: '127.0.0.1',
+      port: await server.listen(),
+      secure: false,
+      from: 'no-reply@swapi.test',
+    }
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('should deliver a message without credentials', async () => {
+    await new SmtpMailTransport(options).send(message)
+
+    expect(server.commands.map((command) => command.split('\r\n')[0])).toEqual([
+      'EHLO 127.0.0.1',
+      'MAIL FROM:<no-reply@swapi.test>',
+      'RCPT TO:<luke@tatooine.org>',
+      'DATA',
+      'From: no-reply@swapi.test',
+      'QUIT',
+    ])
+  })
+
+  it('should send the headers and the base64-encoded body', async () => {
+    await new SmtpMailTransport(options).send(message)
+
+    const [headers, body] = server.commands[4].split('\r\n\r\n')
+    expect(headers).toContain('To: luke@tatooine.org')
+    expect(headers).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`,
+    )
+    expect(headers).toContain('Content-Transfer-Encoding: base64')
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe(message.text)
+  })
+
+  it('should refuse to send the credentials without TLS', async () => {
+    const transport = new SmtpMailTransport({
+      ...options,
+      user: 'mailer',
+      pass: 'secret',
+    })
+
+    await expect(transport.send(message)).rejects.toThrow(
+      'refusing to send the credentials unencrypted',
+    )
+    expect(server.commands.some((command) => command.startsWith('AUTH'))).toBe(
+      false,
+    )
+  })
+
+  it('should send the credentials without TLS when allowed', async () => {
+    await new SmtpMailTransport({
+      ...options,
+      user: 'mailer',
+      pass: 'secret',
+      allowInsecureAuth: true,
+    }).send(message)
+
+    expect(server.commands).toContain(
+      `AUTH PLAIN ${Buffer.from('\u0000mailer\u0000secret').toString('base64')}`,
+    )
+  })
+
+  it('should fail when the server rejects a command', async () => {
+    server.replies.RCPT = '550 No such user'
+
+    await expect(new SmtpMailTransport(options).send(message)).rejects.toThrow(
+      'SMTP error: No such user',
+    )
+    expect(server.commands).not.toContain('DATA')
+  })
+})
@@ -0,0 +1,308 @@
+import * as net from 'net'
+import * as tls from 'tls'
+import { randomUUID } from 'crypto'
+import { MailMessage, MailTransport } from './mail-transport'
+
+/**
+ * Interface for the SMTP connection options
+ *
+ * - `host`, `port`: The SMTP server.
+ * - `secure`: `true` for implicit TLS (port 465); otherwise STARTTLS is used when the server offers it.
+ * - `user`, `pass`: Optional credentials (AUTH PLAIN).
+ * - `allowInsecureAuth`: Whether the credentials may be sent unencrypted, to a server that offers no
+ *   STARTTLS (e.g. a relay on the local network). Refused by default.
+ * - `from`: The sender address.
+ */
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+  allowInsecureAuth?: boolean
+  from: string
+}
+
+/**
+ * Interface for a reply of the SMTP server
+ */
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Timeout of the SMTP connection, in milliseconds
+ */
+const smtpTimeout: number = 30000
+
+/**
+ * SmtpMailTransport: Delivers emails to an SMTP server
+ *
+ * A minimal SMTP client (RFC 5321) over a TCP or TLS socket: one connection per message,
+ * upgraded with STARTTLS when the server supports it, authenticated with AUTH PLAIN when
+ * credentials are configured (over TLS only, unless `allowInsecureAuth` is set). The body is sent base64-encoded, which avoids any line
+ * length or dot-stuffing issue.
+ */
+export class SmtpMailTransport extends MailTransport {
+  /**
+   * @param options The SMTP connection options
+   */
+  constructor(private readonly options: SmtpOptions) {
+    super()
+  }
+
+  /**
+   * Delivers an email through the SMTP server
+   *
+   * @param message The message to deliver
+   * @throws Error If the connection fails, the server rejects a command, or the credentials would be
+   *         sent unencrypted
+   */
+  async send(message: MailMessage): Promise<void> {
+    const { host, port, secure, user, pass, allowInsecureAuth, from } =
+      this.options
+    const connection: SmtpConnection = await SmtpConnection.open(
+      secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port }),
+    )
+    try {
+      await connection.expect(220)
+      let encrypted: boolean = secure
+      const features: string[] = await this.hello(connection)
+      if (!secure && features.includes('STARTTLS')) {
+        await connection.command('STARTTLS', 220)
+        await connection.upgrade(host)
+        await this.hello(connection)
+        encrypted = true
+      }
+      if (user) {
+        if (!encrypted && !allowInsecureAuth) {
+          throw new Error(
+            `SMTP server ${host} does not offer STARTTLS: refusing to send the credentials unencrypted`,
+          )
+        }
+        const credentials: string = Buffer.from(
+          `\u0000${user}\u0000${pass ?? ''}`,
+        ).toString('base64')
+        await connection.command(`AUTH PLAIN ${credentials}`, 235)
+      }
+      await connection.command(`MAIL FROM:<${from}>`, 250)
+      await connection.command(`RCPT TO:<${message.to}>`, 250, 251)
+      await connection.command('DATA', 354)
+      await connection.command(`${this.format(message)}\r\n.`, 250)
+      await connection.command('QUIT', 221)
+    } finally {
+      connection.close()
+    }
+  }
+
+  /**
+   * Greets the server (EHLO) and returns the extensions it supports
+   *
+   * @param connection The SMTP connection
+   * @returns A Promise resolving to the extension keywords (e.g. `STARTTLS`, `AUTH`)
+   */
+  private async hello(connection: SmtpConnection): Promise<string[]> {
+    const reply: SmtpReply = await connection.command(
+      `EHLO ${this.options.host}`,
+      250,
+    )
+    return reply.lines.slice(1).map((line) => line.split(' ')[0].toUpperCase())
+  }
+
+  /**
+   * Formats a message as an RFC 5322 document with a base64-encoded UTF-8 body
+   *
+   * @param message The message to format
+   * @returns The headers and body, with CRLF line endings
+   */
+  private format(message: MailMessage): string {
+    const domain: string = this.options.from.split('@')[1] ?? 'localhost'
+    const body: string = Buffer.from(message.text, 'utf8')
+      .toString('base64')
+      .replace(/.{76}/g, '$&\r\n')
+    return [
+      `From: ${this.options.from}`,
+      `To: ${message.to}`,
+      `Subject: =?UTF-8?B?${Buffer.from(message.subject, 'utf8').toString('base64')}?=`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      body,
+    ].join('\r\n')
+  }
+}
+
+/**
+ * SmtpConnection: Line-based exchange with an SMTP server
+ *
+ * Buffers the data received on the socket and splits it into replies (including multi-line
+ * `250-...` replies), which are handed to the pending `read` calls in order.
+ */
+class SmtpConnection {
+  private buffer: string = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: {
+    resolve: (reply: SmtpReply) => void
+    reject: (error: Error) => void
+  }[] = []
+  private error: Error | null = null
+
+  private constructor(private socket: net.Socket) {
+    this.listen()
+  }
+
+  /**
+   * Waits for a socket to be connected and wraps it
+   *
+   * @param socket The TCP or TLS socket being connected
+   * @returns A Promise resolving to the connection
+   */
+  static open(socket: net.Socket): Promise<SmtpConnection> {
+    const connectEvent: string =
+      socket instanceof tls.TLSSocket ? 'secureConnect' : 'connect'
+    return new Promise((resolve, reject) => {
+      socket.setTimeout(smtpTimeout, () =>
+        socket.destroy(new Error('SMTP connection timed out')),
+      )
+      socket.once('error', reject)
+      socket.once(connectEvent, () => {
+        socket.off('error', reject)
+        resolve(new SmtpConnection(socket))
+      })
+    })
+  }
+
+  /**
+   * Sends a command and checks the code of the reply
+   *
+   * @param line The command (without the trailing CRLF)
+   * @param expectedCodes The accepted reply codes
+   * @returns A Promise resolving to the reply
+   */
+  async command(line: string, ...expectedCodes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(...expectedCodes)
+  }
+
+  /**
+   * Reads the next reply and checks its code
+   *
+   * @param expectedCodes The accepted reply codes
+   * @returns A Promise resolving to the reply
+   * @throws Error If the reply has another code
+   */
+  async expect(...expectedCodes: number[]): Promise<SmtpReply> {
+    const reply: SmtpReply = await this.read()
+    if (!expectedCodes.includes(reply.code)) {
+      throw new Error(`SMTP error: ${reply.lines.join(' ')}`)
+    }
+    return reply
+  }
+
+  /**
+   * Upgrades the connection to TLS (after STARTTLS)
+   *
+   * @param servername The host name checked against the server certificate
+   */
+  async upgrade(servername: string): Promise<void> {
+    this.socket.removeAllListeners('data')
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secureSocket: tls.TLSSocket = tls.connect({
+        socket: this.socket,
+        servername,
+      })
+      secureSocket.once('error', reject)
+      secureSocket.once('secureConnect', () => {
+        secureSocket.off('error', reject)
+        resolve(secureSocket)
+      })
+    })
+    this.listen()
+  }
+
+  /**
+   * Closes the connection
+   */
+  close() {
+    this.socket.end()
+  }
+
+  /**
+   * Listens to the data and errors of the current socket
+   */
+  private listen() {
+    this.socket.on('data', (data: Buffer) => this.receive(data.toString()))
+    this.socket.on('error', (error: Error) => this.fail(error))
+    this.socket.on('close', () =>
+      this.fail(new Error('SMTP connection closed')),
+    )
+  }
+
+  /**
+   * Splits the received data into replies
+   *
+   * @param data The received data
+   */
+  private receive(data: string) {
+    this.buffer += data
+    let index: number
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line: string = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+      this.lines.push(line.slice(4))
+      // A space after the code marks the last line of a reply
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.lines })
+        this.lines = []
+      }
+    }
+  }
+
+  /**
+   * Hands a reply to the oldest pending `read`, or queues it
+   *
+   * @param reply The reply
+   */
+  private deliver(reply: SmtpReply) {
+    const waiting = this.waiting.shift()
+    if (waiting) {
+      waiting.resolve(reply)
+    } else {
+      this.replies.push(reply)
+    }
+  }
+
+  /**
+   * Rejects the pending and future reads after a socket error
+   *
+   * @param error The socket error
+   */
+  private fail(error: Error) {
+    this.error ??= error
+    this.waiting.splice(0).forEach(({ reject }) => reject(this.error))
+  }
+
+  /**
+   * Reads the next reply
+   *
+   * @returns A Promise resolving to the reply
+   */
+  private read(): Promise<SmtpReply> {
+    if (this.replies.length) {
+      return Promise.resolve(this.replies.shift())
+    }
+    if (this.error) {
+      return Promise.reject(this.error)
+    }
+    return new Promise((resolve, reject) =>
+      this.waiting.push({ resolve, reject }),
+    )
+  }
+}
@@ -1,11 +1,15 @@
 import { NestFactory } from '@nestjs/core'
+import { NestExpressApplication } from '@nestjs/platform-express'
 import { AppModule } from './app.module'
 import { ValidationPipe } from '@nestjs/common'
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger'
 import * as packageJsone from '../package.json'
 import 'dotenv/config'
 import { TransformInterceptor } from './shared/Transform.interceptor'
+import { ResponseFormatInterceptor } from './shared/ResponseFormat.interceptor'
 import { CustomExceptionFilter } from './shared/app.custom-exception.filter'
+import { swapiPrefixMiddleware } from './shared/swapi-compatibility'
+import { imageStorageSettings } from './shared/constants'
 
 /**
  * Bootstrap function to initialize and start the NestJS application.
@@ -17,7 +21,15 @@ import { CustomExceptionFilter } from './shared/app.custom-exception.filter'
  */
 async function bootstrap() {
   // Create a Nest application instance
-  const app = await NestFactory.create(AppModule)
+  const app = await NestFactory.create<NestExpressApplication>(AppModule)
+  // Behind a reverse proxy (e.g. Caddy), take the client IP from 'X-Forwarded-For' (used by the login throttling)
+  const trustProxy: string = process.env.TRUST_PROXY
+  if (trustProxy) {
+    app.set(
+      'trust proxy',
+      trustProxy === 'true' ? true : Number(trustProxy) || trustProxy,
+    )
+  }
 
   // Configure Swagger documentation
   const appConfig = new DocumentBuilder()
@@ -27,14 +39,29 @@ async function bootstrap() {
     )
     .setVersion(packageJsone.version)
     .addBearerAuth()
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'api-key')
     .build()
   const document = SwaggerModule.createDocument(app, appConfig)
   // Mount Swagger at '/api' route
   SwaggerModule.setup('api', app, document)
 
+  // Serve the images of the local storage driver (the other drivers serve them themselves)
+  if (imageStorageSettings.driver === 'local') {
+    app.useStaticAssets(imageStorageSettings.directory, {
+      prefix: imageStorageSettings.route,
+      index: false,
+    })
+  }
+
   // Apply global middleware
+  // Serve every route under the '/swapi' prefix in SWAPI-compatible mode (must run before routing)
+  app.use(swapiPrefixMiddleware)
   app.useGlobalPipes(new ValidationPipe())
-  app.useGlobalInterceptors(new TransformInterceptor())
+  // 'ResponseFormatInterceptor' comes first so that it formats the already wrapped response (e.g. '?format=wookiee')
+  app.useGlobalInterceptors(
+    new ResponseFormatInterceptor(),
+    new TransformInterceptor(),
+  )
   app.useGlobalFilters(new CustomExceptionFilter())
 
   // Enable CORS (Cross-Origin Resource Sharing)
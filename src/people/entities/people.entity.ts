@@ -2,6 +2,7 @@ import { AbstractEntity } from '../../shared/abstract.entity'
 import {
   Column,
   Entity,
+  Index,
   JoinTable,
   ManyToMany,
   ManyToOne,
@@ -23,6 +24,7 @@ import { Starship } from '../../starships/entities/starship.entity'
  * database columns and relationships.
  */
 @Entity({ name: 'people' })
+@Index('FT_people_name', ['name'], { fulltext: true })
 export class People extends AbstractEntity<People> {
   /**
    * name: The name of the person (string)
@@ -5,6 +5,8 @@ import { People } from './entities/people.entity'
 import { ForbiddenException } from '@nestjs/common'
 import { Reflector } from '@nestjs/core'
 import { JwtService } from '@nestjs/jwt'
+import { AuditService } from 'src/audit/audit.service'
+import { ImagesService } from 'src/images/images.service'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import { Repository } from 'typeorm'
 import { Film } from 'src/films/entities/film.entity'
@@ -20,6 +22,7 @@ import {
   updatedPerson,
   updatePeopleDto,
 } from './test-constants'
+import { describeFindImages } from 'src/images/test-constants'
 
 /**
  * Unit test suite for PeopleController.
@@ -29,6 +32,7 @@ import {
 describe('PeopleController', () => {
   let controller: PeopleController
   let service: PeopleService
+  let imagesService: ImagesService
 
   /**
    * Setup for each test in the suite.
@@ -76,11 +80,24 @@ describe('PeopleController', () => {
             verify: jest.fn(),
           },
         },
+        {
+          provide: AuditService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: ImagesService,
+          useValue: {
+            findAllOfAnEntity: jest.fn(),
+          },
+        },
       ],
     }).compile()
 
     controller = module.get<PeopleController>(PeopleController)
     service = module.get<PeopleService>(PeopleService)
+    imagesService = module.get<ImagesService>(ImagesService)
   })
 
   /**
@@ -131,6 +148,25 @@ describe('PeopleController', () => {
     })
   })
 
+  /**
+   * Test suite for the `bulkCreate` method of PeopleController.
+   */
+  describe('bulkCreate', () => {
+    /**
+     * Test to verify that the items are passed to the service and its report is returned.
+     */
+    it('should return the report of the bulk creation', async () => {
+      const report = {
+        summary: { created: 1 },
+        results: [{ index: 0, status: 'created' as const, id: 1 }],
+      }
+      jest.spyOn(service, 'bulkCreate').mockResolvedValue(report)
+
+      expect(await controller.bulkCreate([createPeopleDto])).toEqual(report)
+      expect(service.bulkCreate).toHaveBeenCalledWith([createPeopleDto])
+    })
+  })
+
   /**
    * Test suite for the `findAll` method of PeopleController.
    */
@@ -142,7 +178,7 @@ describe('PeopleController', () => {
       // Mock the service's `findAll` method
       jest.spyOn(service, 'findAll').mockResolvedValue(paginatedResult)
 
-      expect(await controller.findAll(1, 10)).toEqual(paginatedResult)
+      expect(await controller.findAll(1, 10, {})).toEqual(paginatedResult)
     })
   })
 
@@ -157,7 +193,7 @@ describe('PeopleController', () => {
       // Mock the service's `findOne` method
       jest.spyOn(service, 'findOne').mockResolvedValue(person)
 
-      expect(await controller.findOne(1)).toEqual(person)
+      expect(await controller.findOne(1, {})).toEqual(person)
     })
 
     /**
@@ -174,6 +210,8 @@ describe('PeopleController', () => {
     })
   })
 
+  describeFindImages('people', () => ({ controller, imagesService }))
+
   /**
    * Test suite for the `update` method of PeopleController.
    */
@@ -8,7 +8,7 @@ import {
   Delete,
   Query,
   DefaultValuePipe,
-  UseGuards,
+  HttpStatus,
 } from '@nestjs/common'
 import { PeopleService } from './people.service'
 import { CreatePeopleDto } from './dto/create-people.dto'
@@ -22,8 +22,19 @@ import {
 } from '@nestjs/swagger'
 import { Pagination } from 'nestjs-typeorm-paginate'
 import { limitCount } from 'src/shared/constants'
+import { ListQuery } from 'src/shared/query-filter'
+import { CursorPagination } from 'src/shared/cursor-pagination'
+import { BulkReport } from 'src/shared/bulk-operations'
+import { BulkRemoveDto } from 'src/shared/dto/bulk-remove.dto'
+import { getExpandParameter } from 'src/shared/relation-expansion'
 import { People } from './entities/people.entity'
-import { AdminGuard } from 'src/auth/guards/admin.guard'
+import { Public } from 'src/auth/decorators/public.decorator'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Audited } from 'src/audit/decorators/audited.decorator'
+import { Permissions } from 'src/auth/permissions'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { ImagesService } from 'src/images/images.service'
+import { Image } from 'src/images/entities/image.entity'
 
 /**
  * PeopleController: Handles HTTP requests for "people" resources
@@ -31,32 +42,96 @@ import { AdminGuard } from 'src/auth/guards/admin.guard'
  * This controller handles CRUD (Create, Read, Update, Delete) operations for "people" resources
  * within the application. It utilizes the `PeopleService` to interact with the database
  * and manage "people" data.
- * Admin privileges are required for creating, updating, and deleting "people" resources
- * via the `AdminGuard`.
+ * The `people:write` permission is required for creating, updating, and deleting "people" resources,
+ * enforced by the global `JwtAuthGuard`; reading them is public. Changes are recorded in the audit log.
  */
 @ApiTags('people')
+@Audited('people')
 @Controller('people')
 export class PeopleController {
-  constructor(private readonly peopleService: PeopleService) {}
+  constructor(
+    private readonly peopleService: PeopleService,
+    private readonly imagesService: ImagesService,
+  ) {}
 
   /**
    * Creates a new "people" resource
    *
    * This method creates a new "people" resource by accepting a `CreatePeopleDto` object
-   * in the request body. It requires admin privileges enforced by the `AdminGuard`.
+   * in the request body. It requires the `people:write` permission.
    *
    * @param createPeopleDto A DTO object containing data for the new "people" resource
    * @returns A Promise resolving to the newly created `People` entity object
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.PeopleWrite)
   @Post('create')
   @ApiBearerAuth()
   @ApiBody({ type: CreatePeopleDto })
   @ApiOperation({ summary: 'Create new "people"' })
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'A resource with the same name already exists',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async create(@Body() createPeopleDto: CreatePeopleDto): Promise<People> {
     return await this.peopleService.create(createPeopleDto)
   }
 
+  /**
+   * Creates several "people" resources in a single transaction
+   *
+   * Every item is validated like the body of `POST /people/create`. The response reports for every item
+   * whether it was created, skipped as a duplicate name, or failed with its validation errors.
+   *
+   * @param items An array of `CreatePeopleDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.PeopleWrite)
+  @Post('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: [CreatePeopleDto] })
+  @ApiOperation({ summary: 'Create several "people" resources' })
+  async bulkCreate(@Body() items: CreatePeopleDto[]): Promise<BulkReport> {
+    return this.peopleService.bulkCreate(items)
+  }
+
+  /**
+   * Updates several "people" resources in a single transaction
+   *
+   * @param items An array of `UpdatePeopleDto` objects, each with the `id` of the resource to update
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.PeopleWrite)
+  @Patch('bulk')
+  @ApiBearerAuth()
+  @ApiBody({
+    type: [UpdatePeopleDto],
+    description:
+      'Every item must also contain the `id` of the resource to update.',
+  })
+  @ApiOperation({ summary: 'Update several "people" resources' })
+  async bulkUpdate(@Body() items: UpdatePeopleDto[]): Promise<BulkReport> {
+    return this.peopleService.bulkUpdate(items)
+  }
+
+  /**
+   * Deletes several "people" resources in a single transaction
+   *
+   * @param bulkRemoveDto The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.PeopleWrite)
+  @Delete('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: BulkRemoveDto })
+  @ApiOperation({ summary: 'Delete several "people" resources' })
+  async bulkRemove(@Body() bulkRemoveDto: BulkRemoveDto): Promise<BulkReport> {
+    return this.peopleService.bulkRemove(bulkRemoveDto.ids)
+  }
+
   /**
    * Retrieves all "people" resources (paginated)
    *
@@ -66,18 +141,45 @@ export class PeopleController {
    *
    * @param page The page number to retrieve (defaults to 1)
    * @param limit The number of items per page (defaults to `limitCount`)
-   * @returns A Promise resolving to a `Pagination<People>` object containing the paginated list
+   * @param query Field filters, free-text search and sort order from the query string, validated against the entity columns,
+   *        and the optional `cursor` selecting cursor pagination
+   * @returns A Promise resolving to a `Pagination<People>` object containing the paginated list, or a `CursorPagination<People>` in cursor mode
    */
+  @Public()
   @Get()
   @ApiOperation({ summary: 'Get all the "people" resources' })
   @ApiQuery({ name: 'page', required: false })
   @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id` and on the first `sort` field.',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description:
+      'Comma-separated fields to sort by, prefix with "-" for descending order. The quantities stored as text (e.g. heights, lengths, populations) cannot be sorted by. Any other column can be used as an exact-match filter (e.g. `?name=...`).',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Free-text search on the name of the people.',
+  })
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `homeworld,films.planets`). `include` is accepted as an alias.',
+  })
   async findAll(
     @Query('page', new DefaultValuePipe(1)) page: number,
     @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
-  ): Promise<Pagination<People>> {
+    @Query() query: ListQuery,
+  ): Promise<Pagination<People> | CursorPagination<People>> {
     if (limit > limitCount) limit = limitCount
-    return this.peopleService.findAll({ page, limit })
+    return this.peopleService.findAll({ page, limit }, query)
   }
 
   /**
@@ -86,30 +188,88 @@ export class PeopleController {
    * This method retrieves a single "people" resource by its ID specified in the URL parameter.
    *
    * @param id The ID of the "people" resource to retrieve
+   * @param query The `expand` (or `include`) query parameter listing the relations to embed
    * @returns A Promise resolving to the `People` entity object representing the resource
    */
+  @Public()
   @Get(':id')
   @ApiOperation({ summary: 'Get resource "people" by its "id"' })
-  async findOne(@Param('id') id: number): Promise<People> {
-    return await this.peopleService.findOne(id)
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `homeworld,films.planets`). `include` is accepted as an alias.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findOne(
+    @Param('id') id: number,
+    @Query() query: ListQuery = {},
+  ): Promise<People> {
+    return await this.peopleService.findOne(id, getExpandParameter(query))
+  }
+
+  /**
+   * Retrieves the images of a "people" resource (paginated)
+   *
+   * @param id The ID of the "people" resource
+   * @param page The page number to retrieve (defaults to 1)
+   * @param limit The number of items per page (defaults to `limitCount`)
+   * @param cursor The opaque cursor selecting cursor pagination (empty for the first page)
+   * @returns A Promise resolving to a `Pagination<Image>` object containing the paginated list, or a
+   *          `CursorPagination<Image>` in cursor mode
+   */
+  @Public()
+  @Get(':id/images')
+  @ApiOperation({ summary: 'Get the images of resource "people" by its "id"' })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id`.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findImages(
+    @Param('id') id: number,
+    @Query('page', new DefaultValuePipe(1)) page: number,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+    @Query('cursor') cursor?: string,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    if (limit > limitCount) limit = limitCount
+    return this.imagesService.findAllOfAnEntity(
+      'people',
+      id,
+      { page, limit },
+      cursor,
+    )
   }
 
   /**
    * Updates a "people" resource by ID
    *
-   * This method updates an existing "people" resource by its ID. It requires admin privileges
-   * enforced by the `AdminGuard` and accepts an `UpdatePeopleDto` object in the request body
+   * This method updates an existing "people" resource by its ID. It requires the `people:write`
+   * permission and accepts an `UpdatePeopleDto` object in the request body
    * containing the updated data.
    *
    * @param id The ID of the "people" resource to update
    * @param updatePeopleDto A DTO object containing the updated data for the "people" resource
    * @returns A Promise resolving to the updated `People` entity object
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.PeopleWrite)
   @Patch(':id')
   @ApiBearerAuth()
   @ApiBody({ type: UpdatePeopleDto })
   @ApiOperation({ summary: 'Update resource "people" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'Another resource already has the same name',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async update(
     @Param('id') id: number,
     @Body() updatePeopleDto: UpdatePeopleDto,
@@ -120,16 +280,17 @@ export class PeopleController {
   /**
    * Deletes a "people" resource by ID
    *
-   * This method deletes a "people" resource by its ID. It requires admin privileges
-   * enforced by the `AdminGuard`.
+   * This method deletes a "people" resource by its ID. It requires the `people:write`
+   * permission.
    *
    * @param id The ID of the "people" resource to delete
    * @returns A Promise resolving to `void` upon successful deletion
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.PeopleWrite)
   @Delete(':id')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete resource "people" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
   async remove(@Param('id') id: number): Promise<void> {
     await this.peopleService.remove(id)
   }
@@ -3,11 +3,6 @@ import { getRepositoryToken } from '@nestjs/typeorm'
 import { Repository } from 'typeorm'
 import { PeopleService } from './people.service'
 import { People } from './entities/people.entity'
-import { Film } from 'src/films/entities/film.entity'
-import { Planet } from 'src/planets/entities/planet.entity'
-import { Species } from 'src/species/entities/species.entity'
-import { Starship } from 'src/starships/entities/starship.entity'
-import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
 import { paginate } from 'nestjs-typeorm-paginate'
 import {
   createPeopleDto,
@@ -15,6 +10,7 @@ import {
   film,
   newPeople,
   paginatedResult,
+  peopleMetadata,
   person,
   planet,
   species,
@@ -23,7 +19,19 @@ import {
   updatePeopleDto,
   vehicle,
 } from './test-constants'
-import { paginationOptions } from 'src/shared/constants'
+import {
+  localUrl,
+  paginationOptions,
+  relatedEntitiesMap,
+} from 'src/shared/constants'
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common'
+import { CursorPagination } from 'src/shared/cursor-pagination'
+import { setRelatedEntities } from 'src/shared/related-entities'
 
 /**
  * Mocking the `nestjs-typeorm-paginate` module
@@ -37,6 +45,17 @@ import { paginationOptions } from 'src/shared/constants'
  */
 jest.mock('nestjs-typeorm-paginate')
 
+/**
+ * Mocking the relation writer of `src/shared/related-entities`
+ *
+ * The related entities are written with TypeORM's relation query builder, which needs a real
+ * data source. The tests only check that the relations of the DTO are passed to it.
+ */
+jest.mock('src/shared/related-entities', () => ({
+  ...jest.requireActual('src/shared/related-entities'),
+  setRelatedEntities: jest.fn(),
+}))
+
 /**
  * Unit test suite for PeopleService.
  * This test suite covers various scenarios for creating, finding, updating, deleting people records,
@@ -45,15 +64,12 @@ jest.mock('nestjs-typeorm-paginate')
 describe('PeopleService', () => {
   let service: PeopleService
   let peopleRepository: Repository<People>
-  let filmRepository: Repository<Film>
-  let planetRepository: Repository<Planet>
-  let speciesRepository: Repository<Species>
-  let starshipRepository: Repository<Starship>
-  let vehicleRepository: Repository<Vehicle>
+  let transactionManager: Record<string, jest.Mock>
 
   /**
    * Setup for each test in the suite.
    * This block is executed before each test and is used to set up the testing module and inject dependencies.
+   * The repository's entity manager runs transactions with a transactional manager returning the same repository.
    */
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -63,46 +79,13 @@ describe('PeopleService', () => {
           provide: getRepositoryToken(People),
           useValue: {
             findAndCount: jest.fn().mockResolvedValue([[], 0]),
+            find: jest.fn().mockResolvedValue([]),
             findOne: jest.fn(),
+            create: jest.fn((values) => values),
             save: jest.fn(),
+            update: jest.fn(),
             remove: jest.fn(),
-            query: jest.fn().mockResolvedValue([{ maxId: 0 }]),
-          },
-        },
-        {
-          provide: getRepositoryToken(Film),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'film1' } as Film),
-          },
-        },
-        {
-          provide: getRepositoryToken(Planet),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'planet1' } as Planet),
-          },
-        },
-        {
-          provide: getRepositoryToken(Species),
-          useValue: {
-            findOne: jest
-              .fn()
-              .mockResolvedValue({ url: 'species1' } as Species),
-          },
-        },
-        {
-          provide: getRepositoryToken(Starship),
-          useValue: {
-            findOne: jest
-              .fn()
-              .mockResolvedValue({ url: 'starship1' } as Starship),
-          },
-        },
-        {
-          provide: getRepositoryToken(Vehicle),
-          useValue: {
-            findOne: jest
-              .fn()
-              .mockResolvedValue({ url: 'vehicle1' } as Vehicle),
+            query: jest.fn(),
           },
         },
       ],
@@ -112,31 +95,16 @@ describe('PeopleService', () => {
     peopleRepository = module.get<Repository<People>>(
       getRepositoryToken(People),
     )
-    filmRepository = module.get<Repository<Film>>(getRepositoryToken(Film))
-    planetRepository = module.get<Repository<Planet>>(
-      getRepositoryToken(Planet),
-    )
-    speciesRepository = module.get<Repository<Species>>(
-      getRepositoryToken(Species),
-    )
-    starshipRepository = module.get<Repository<Starship>>(
-      getRepositoryToken(Starship),
-    )
-    vehicleRepository = module.get<Repository<Vehicle>>(
-      getRepositoryToken(Vehicle),
-    )
+    transactionManager = {
+      transaction: jest.fn((run) => run(transactionManager)),
+      existsBy: jest.fn().mockResolvedValue(true),
+      getRepository: jest.fn(() => peopleRepository),
+    }
+    ;(peopleRepository as any).manager = transactionManager
     // Mock implementation for paginate function
     jest
       .spyOn(peopleRepository, 'findAndCount')
-      .mockImplementation(async () => [[], 0]),
-      // Define the repositories property in the service
-      ((service as any).repositories = {
-        homeworld: planetRepository,
-        films: filmRepository,
-        species: speciesRepository,
-        starships: starshipRepository,
-        vehicles: vehicleRepository,
-      })
+      .mockImplementation(async () => [[], 0])
   })
 
   /**
@@ -159,35 +127,67 @@ describe('PeopleService', () => {
     it('should create a new person', async () => {
       jest.spyOn(peopleRepository, 'findOne').mockResolvedValueOnce(null)
       jest.spyOn(peopleRepository, 'save').mockResolvedValue(newPeople)
-      jest.spyOn(peopleRepository, 'query').mockResolvedValue([{ maxId: 0 }])
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValueOnce(newPeople)
-
-      // Setting up mocks for related entities
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-      jest.spyOn(speciesRepository, 'findOne').mockResolvedValue(species)
-      jest.spyOn(starshipRepository, 'findOne').mockResolvedValue(starship)
-      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValue(vehicle)
+      // The created person is fetched again with its related entities
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValueOnce({
+        ...newPeople,
+        homeworld: planet,
+        films: [film],
+        species: [species],
+        starships: [starship],
+        vehicles: [vehicle],
+      } as People)
 
       const result = await service.create(createPeopleDto)
-      expect(result).toEqual(newPeople)
+      // Related entities are returned as SWAPI-style URLs
+      expect(result).toEqual({
+        ...newPeople,
+        homeworld: 'planet1',
+        films: ['film1'],
+        species: ['species1'],
+        starships: ['starship1'],
+        vehicles: ['vehicle1'],
+      })
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        People,
+        newPeople.id,
+        createPeopleDto,
+        relatedEntitiesMap.people.relatedEntities,
+      )
     })
 
     /**
-     * Test to verify that creating a person with an existing name returns null.
+     * Test to verify that the person is created in a transaction, with its URL derived from the generated ID.
      */
-    it('should return null if a person with the same name already exists', async () => {
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(existingPerson)
+    it('should create a new person in a transaction', async () => {
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(peopleRepository, 'save')
+        .mockResolvedValue({ ...newPeople, id: 7 } as People)
 
-      const consoleErrorSpy = jest
-        .spyOn(console, 'error')
-        .mockImplementation(() => {})
+      await service.create(createPeopleDto)
 
-      expect(await service.create(createPeopleDto)).toBeNull()
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        `People '${createPeopleDto.name}' already exists!`,
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      // Only the columns are inserted, the relations are set afterwards
+      expect(peopleRepository.create).toHaveBeenCalledWith(
+        expect.not.objectContaining({ homeworld: 1, films: ['film1'] }),
       )
+      expect(peopleRepository.update).toHaveBeenCalledWith(7, {
+        url: `${localUrl}people/7/`,
+      })
+      expect(peopleRepository.query).not.toHaveBeenCalled()
+    })
 
-      consoleErrorSpy.mockRestore()
+    /**
+     * Test to verify that creating a person with an existing name throws a 409 conflict.
+     */
+    it('should throw a conflict if a person with the same name already exists', async () => {
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(existingPerson)
+
+      await expect(service.create(createPeopleDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+        message: `People '${createPeopleDto.name}' already exists`,
+      })
     })
 
     /**
@@ -216,6 +216,167 @@ describe('PeopleService', () => {
 
       expect(await service.findAll(paginationOptions)).toEqual(paginatedResult)
     })
+
+    /**
+     * Test to verify that field filters and sort order are passed to `paginate`.
+     */
+    it('should pass field filters and sort order to paginate', async () => {
+      ;(peopleRepository as any).metadata = peopleMetadata
+      jest.mocked(paginate).mockResolvedValue(paginatedResult)
+
+      await service.findAll(paginationOptions, {
+        gender: 'female',
+        eye_color: 'blue',
+        sort: '-eye_color,name',
+      })
+
+      expect(paginate).toHaveBeenLastCalledWith(
+        peopleRepository,
+        paginationOptions,
+        {
+          where: { gender: 'female', eye_color: 'blue' },
+          order: { eye_color: 'DESC', name: 'ASC' },
+          relations: relatedEntitiesMap.people.relatedEntities,
+          relationLoadStrategy: 'query',
+        },
+      )
+    })
+
+    /**
+     * Test to verify that the `search` parameter is turned into a FULLTEXT condition.
+     */
+    it('should pass a FULLTEXT search condition to paginate', async () => {
+      ;(peopleRepository as any).metadata = peopleMetadata
+      jest.mocked(paginate).mockResolvedValue(paginatedResult)
+
+      await service.findAll(paginationOptions, { search: 'luke sky' })
+
+      const [, , { where }] = jest.mocked(paginate).mock.lastCall as any[]
+      expect(where.name.type).toBe('raw')
+      expect(where.name.objectLiteralParameters).toEqual({
+        search: '+luke* +sky*',
+      })
+      expect(where.name.getSql('People.name')).toBe(
+        'MATCH (People.name) AGAINST (:search IN BOOLEAN MODE)',
+      )
+    })
+
+    /**
+     * Test to verify that unknown filter and sort fields are rejected.
+     */
+    it('should throw BadRequestException for unknown fields', async () => {
+      ;(peopleRepository as any).metadata = peopleMetadata
+
+      await expect(
+        service.findAll(paginationOptions, { unknown: 'value' }),
+      ).rejects.toThrow(BadRequestException)
+      await expect(
+        service.findAll(paginationOptions, { sort: '-homeworld' }),
+      ).rejects.toThrow(BadRequestException)
+    })
+
+    /**
+     * Test to verify that the numbers stored as text can be filtered but not sorted by.
+     */
+    it('should refuse to sort by a number stored as text', async () => {
+      ;(peopleRepository as any).metadata = peopleMetadata
+      jest.mocked(paginate).mockResolvedValue(paginatedResult)
+
+      await expect(
+        service.findAll(paginationOptions, { sort: '-height' }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          "The field 'height' cannot be sorted by, its values are stored as text. Allowed fields: id, name, eye_color, gender",
+        ),
+      )
+      await service.findAll(paginationOptions, { height: '172' })
+      expect(paginate).toHaveBeenLastCalledWith(
+        peopleRepository,
+        paginationOptions,
+        expect.objectContaining({ where: { height: '172' } }),
+      )
+    })
+
+    /**
+     * Test to verify that an empty cursor returns the first page with a cursor to the next one.
+     */
+    it('should paginate with cursors when a cursor is given', async () => {
+      ;(peopleRepository as any).metadata = peopleMetadata
+      jest
+        .spyOn(peopleRepository, 'find')
+        .mockResolvedValue([{ id: 1 }, { id: 2 }, { id: 3 }] as People[])
+      const paginateCalls: number = jest.mocked(paginate).mock.calls.length
+
+      const page = (await service.findAll(
+        { page: 1, limit: 2 },
+        { cursor: '' },
+      )) as CursorPagination<People>
+
+      expect(peopleRepository.find).toHaveBeenLastCalledWith(
+        expect.objectContaining({ order: { id: 'ASC' }, take: 3 }),
+      )
+      expect(paginate).toHaveBeenCalledTimes(paginateCalls)
+      expect(page.items.map(({ id }) => id)).toEqual([1, 2])
+      expect(page.meta.prevCursor).toBeNull()
+      expect(page.links.next).toContain(`cursor=${page.meta.nextCursor}`)
+    })
+
+    /**
+     * Test to verify that a cursor selects the items after its position in the active sort order.
+     */
+    it('should continue after the cursor position', async () => {
+      ;(peopleRepository as any).metadata = peopleMetadata
+      jest
+        .spyOn(peopleRepository, 'find')
+        .mockResolvedValueOnce([
+          { id: 4, name: 'Leia' },
+          { id: 1, name: 'Luke' },
+        ] as People[])
+        .mockResolvedValueOnce([{ id: 7, name: 'Obi-Wan' }] as People[])
+
+      const first = (await service.findAll(
+        { page: 1, limit: 1 },
+        { cursor: '', sort: 'name' },
+      )) as CursorPagination<People>
+      const second = (await service.findAll(
+        { page: 1, limit: 1 },
+        { cursor: first.meta.nextCursor, sort: 'name' },
+      )) as CursorPagination<People>
+
+      const [{ where, order }] = jest.mocked(peopleRepository.find).mock
+        .lastCall as any[]
+      expect(order).toEqual({ name: 'ASC', id: 'ASC' })
+      expect(where[0].name.type).toBe('moreThan')
+      expect(where[0].name.value).toBe('Leia')
+      expect(where[1].id.type).toBe('moreThan')
+      expect(where[1].id.value).toBe(4)
+      expect(second.meta.nextCursor).toBeNull()
+      expect(second.meta.prevCursor).not.toBeNull()
+    })
+
+    /**
+     * Test to verify that malformed cursors and cursors of another sort order are rejected.
+     */
+    it('should throw BadRequestException for invalid cursors', async () => {
+      ;(peopleRepository as any).metadata = peopleMetadata
+      jest
+        .spyOn(peopleRepository, 'find')
+        .mockResolvedValue([{ id: 1 }, { id: 2 }] as People[])
+      const { meta } = (await service.findAll(
+        { page: 1, limit: 1 },
+        { cursor: '' },
+      )) as CursorPagination<People>
+
+      await expect(
+        service.findAll(paginationOptions, { cursor: 'not-a-cursor' }),
+      ).rejects.toThrow(BadRequestException)
+      await expect(
+        service.findAll(paginationOptions, {
+          cursor: meta.nextCursor,
+          sort: 'name',
+        }),
+      ).rejects.toThrow(BadRequestException)
+    })
   })
 
   /**
@@ -231,6 +392,45 @@ describe('PeopleService', () => {
       expect(await service.findOne(1)).toEqual(person)
     })
 
+    /**
+     * Test to verify that relations are returned as URLs, except for the expanded ones.
+     */
+    it('should return related entities as URLs unless expanded', async () => {
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue({
+        ...person,
+        homeworld: planet,
+        films: [{ ...film, planets: [planet] }],
+        vehicles: [vehicle],
+      } as People)
+
+      expect(await service.findOne(1, 'films.planets')).toEqual({
+        ...person,
+        homeworld: planet.url,
+        films: [{ ...film, planets: [planet] }],
+        vehicles: [vehicle.url],
+      })
+      expect(peopleRepository.findOne).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          relations: expect.arrayContaining(['homeworld', 'films.planets']),
+        }),
+      )
+    })
+
+    /**
+     * Test to verify that unknown or too deeply nested expansions are rejected.
+     */
+    it('should throw BadRequestException for invalid expansions', async () => {
+      await expect(service.findOne(1, 'unknown')).rejects.toThrow(
+        BadRequestException,
+      )
+      await expect(service.findOne(1, 'films.unknown')).rejects.toThrow(
+        BadRequestException,
+      )
+      await expect(
+        service.findOne(1, 'films.planets.residents'),
+      ).rejects.toThrow(BadRequestException)
+    })
+
     /**
      * Test to verify that errors in the repository's `findOne` method are handled properly.
      */
@@ -241,6 +441,15 @@ describe('PeopleService', () => {
 
       await expect(service.findOne(1)).rejects.toThrow('Repository error')
     })
+
+    /**
+     * Test to verify that an unknown ID throws a 404 error.
+     */
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(null)
+
+      await expect(service.findOne(99)).rejects.toThrow(NotFoundException)
+    })
   })
 
   /**
@@ -254,9 +463,51 @@ describe('PeopleService', () => {
      * Test to verify that a person can be updated successfully.
      */
     it('should update a person', async () => {
-      jest.spyOn(peopleRepository, 'save').mockResolvedValue(updatedPerson)
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValueOnce(person)
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(peopleRepository, 'findOne')
+        .mockResolvedValueOnce(updatedPerson)
 
       expect(await service.update(1, updatePeopleDto)).toEqual(updatedPerson)
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(peopleRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1, name: updatePeopleDto.name }),
+      )
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        People,
+        1,
+        updatePeopleDto,
+        relatedEntitiesMap.people.relatedEntities,
+      )
+    })
+
+    /**
+     * Test to verify that renaming a person to the name of another person throws a 409 conflict.
+     */
+    it('should throw a conflict if another person has the same name', async () => {
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValueOnce(person)
+      jest
+        .spyOn(peopleRepository, 'findOne')
+        .mockResolvedValueOnce({ ...existingPerson, id: 2 } as People)
+
+      await expect(service.update(1, updatePeopleDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      })
+      expect(peopleRepository.save).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Test to verify that updating an unknown person throws a 404 error.
+     */
+    it('should throw a not found error for an unknown person', async () => {
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValueOnce(null)
+
+      await expect(service.update(99, {})).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      })
+      expect(peopleRepository.save).not.toHaveBeenCalled()
     })
 
     /**
@@ -299,45 +550,79 @@ describe('PeopleService', () => {
 
       await expect(service.remove(1)).rejects.toThrow('Repository error')
     })
+
+    /**
+     * Test to verify that removing an unknown ID throws a 404 error.
+     */
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(null)
+
+      await expect(service.remove(99)).rejects.toThrow(NotFoundException)
+      expect(peopleRepository.remove).not.toHaveBeenCalled()
+    })
   })
 
   /**
-   * Test suite for the `fillRelatedEntities` method of PeopleService.
+   * Test suite for the bulk operations of PeopleService.
    */
-  describe('fillRelatedEntities', () => {
-    const newPeople: People = new People()
+  describe('bulk operations', () => {
+    /**
+     * Restores the `PeopleService` prototype methods spied on by the tests.
+     */
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
 
     /**
-     * Test to verify that related entities are filled correctly.
+     * Test to verify that every item of a bulk creation is reported, each in its own savepoint.
      */
-    it('should fill related entities', async () => {
-      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(planet)
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-      jest.spyOn(speciesRepository, 'findOne').mockResolvedValue(species)
-      jest.spyOn(starshipRepository, 'findOne').mockResolvedValue(starship)
-      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValue(vehicle)
-
-      await service['fillRelatedEntities'](newPeople, createPeopleDto)
-
-      expect(newPeople.homeworld).toBeDefined()
-      expect(newPeople.homeworld).toEqual(planet)
-      expect(newPeople.films).toContainEqual(film)
-      expect(newPeople.species).toContainEqual(species)
-      expect(newPeople.starships).toContainEqual(starship)
-      expect(newPeople.vehicles).toContainEqual(vehicle)
+    it('should report created, duplicate and invalid people', async () => {
+      const create = jest
+        .spyOn(PeopleService.prototype, 'create')
+        .mockResolvedValueOnce({ ...newPeople, id: 5 } as People)
+        .mockRejectedValueOnce(new ConflictException('duplicate'))
+
+      const report = await service.bulkCreate([
+        createPeopleDto,
+        createPeopleDto,
+        { ...createPeopleDto, name: 42 },
+      ])
+
+      expect(create).toHaveBeenCalledTimes(2)
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(4)
+      expect(report.summary).toEqual({ created: 1, skipped: 1, failed: 1 })
+      expect(report.results).toEqual([
+        { index: 0, status: 'created', id: 5, url: newPeople.url },
+        { index: 1, status: 'skipped', errors: ['duplicate name'] },
+        { index: 2, status: 'failed', errors: ['name must be a string'] },
+      ])
     })
 
     /**
-     * Test to verify that errors in related entity lookups are handled properly.
+     * Test to verify that unknown IDs are reported as failed by a bulk deletion.
      */
-    it('should handle errors in related entity lookups', async () => {
-      jest
-        .spyOn(planetRepository, 'findOne')
-        .mockRejectedValue(new Error('Repository error'))
+    it('should report unknown people on bulk removal', async () => {
+      jest.spyOn(PeopleService.prototype, 'remove').mockResolvedValue(person)
+      transactionManager.existsBy
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false)
+
+      const report = await service.bulkRemove([1, 99])
+
+      expect(report.results).toEqual([
+        { index: 0, status: 'deleted', id: 1 },
+        { index: 1, status: 'failed', id: 99, errors: ['not found'] },
+      ])
+    })
 
-      await expect(
-        service['fillRelatedEntities'](newPeople, createPeopleDto),
-      ).rejects.toThrow('Repository error')
+    /**
+     * Test to verify that a bulk request body must be a non-empty array.
+     */
+    it('should throw BadRequestException for a body that is not an array', async () => {
+      await expect(service.bulkCreate(createPeopleDto)).rejects.toThrow(
+        BadRequestException,
+      )
+      await expect(service.bulkUpdate([])).rejects.toThrow(BadRequestException)
     })
   })
 })
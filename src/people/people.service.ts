@@ -1,28 +1,54 @@
 import { People } from './entities/people.entity'
 import { CreatePeopleDto } from './dto/create-people.dto'
 import { UpdatePeopleDto } from './dto/update-people.dto'
-import { Repository } from 'typeorm'
+import { EntityManager, FindManyOptions, Repository } from 'typeorm'
 import { InjectRepository } from '@nestjs/typeorm'
 import {
   IPaginationOptions,
   Pagination,
   paginate,
 } from 'nestjs-typeorm-paginate'
-import { Injectable } from '@nestjs/common'
-import { Species } from 'src/species/entities/species.entity'
-import { Film } from 'src/films/entities/film.entity'
-import { Starship } from 'src/starships/entities/starship.entity'
-import { Planet } from 'src/planets/entities/planet.entity'
-import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
-import { localUrl, relatedEntitiesMap } from 'src/shared/constants'
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
+import {
+  localUrl,
+  relatedEntitiesMap,
+  searchFieldsMap,
+  unsortableFieldsMap,
+} from 'src/shared/constants'
+import { ListQuery, buildListFindOptions } from 'src/shared/query-filter'
+import {
+  getExpandParameter,
+  getExpandRelations,
+  parseExpandParameter,
+  serializePagination,
+  serializeResource,
+} from 'src/shared/relation-expansion'
+import {
+  CursorPagination,
+  isCursorRequest,
+  paginateByCursor,
+} from 'src/shared/cursor-pagination'
+import {
+  BulkReport,
+  runBulkCreate,
+  runBulkRemove,
+  runBulkUpdate,
+} from 'src/shared/bulk-operations'
+import {
+  getColumnValues,
+  setRelatedEntities,
+} from 'src/shared/related-entities'
 
 /**
  * PeopleService: Provides CRUD operations for "people" resources
  *
  * This service handles the creation, retrieval, update, and deletion of "people" resources
- * within the application. It interacts with the `People` repository and injects repositories
- * for related entities (films, starships, planets, species, vehicles, and images) to manage
- * their associations.
+ * within the application. It interacts with the `People` repository, and manages the associations
+ * with related entities (films, starships, planets, species, vehicles) through the TypeORM relation API.
  */
 @Injectable()
 export class PeopleService {
@@ -30,16 +56,6 @@ export class PeopleService {
   constructor(
     @InjectRepository(People)
     private readonly peopleRepository: Repository<People>,
-    @InjectRepository(Film)
-    private readonly filmsRepository: Repository<Film>,
-    @InjectRepository(Starship)
-    private readonly starshipsRepository: Repository<Starship>,
-    @InjectRepository(Planet)
-    private readonly homeworldRepository: Repository<Planet>,
-    @InjectRepository(Species)
-    private readonly speciesRepository: Repository<Species>,
-    @InjectRepository(Vehicle)
-    private readonly vehiclesRepository: Repository<Vehicle>,
   ) {
     this.relatedEntities = relatedEntitiesMap.people.relatedEntities
   }
@@ -47,66 +63,57 @@ export class PeopleService {
   /**
    * Creates a new people entity and populates related entities.
    *
-   * This method handles the creation of a new people entity, including checking for duplicates, populating properties
-   * from the provided DTO, and filling in related entities. It also handles updating the URL if the predicted ID
-   * does not match the actual ID.
+   * This method handles the creation of a new people entity in a single transaction: it checks for duplicates,
+   * inserts the properties from the provided DTO, derives the URL from the generated ID and sets the related
+   * entities through the TypeORM relation API. If any step fails, nothing is persisted.
    *
    * @param createPeopleDto - The DTO containing data for creating the people entity.
-   * @returns A promise that resolves to the newly created and updated people entity.
-   * @throws An error if the operation fails.
+   * @returns A promise that resolves to the newly created people entity.
+   * @throws ConflictException if a person with the same name already exists.
+   * @throws BadRequestException if a related resource does not exist.
    */
   async create(createPeopleDto: CreatePeopleDto): Promise<People> {
-    // Check for existing character with the same name
-    const existsPeople: People = await this.peopleRepository.findOne({
-      where: { name: createPeopleDto.name },
-    })
-    if (existsPeople) {
-      console.error(`People '${createPeopleDto.name}' already exists!`)
-      return null
-    }
-
-    // Create a new People entity
-    const newPeople = new People()
-    // Get the last inserted ID
-    const lastIdResult = await this.peopleRepository.query(
-      'SELECT MAX(id) as maxId FROM people',
-    )
-    const nextId: number =
-      lastIdResult.length > 0 ? lastIdResult[0].maxId + 1 : 1
-    newPeople.url = `${localUrl}people/${nextId}/`
-
-    // Populate people properties from DTO, excluding related entities
-    for (const key in createPeopleDto) {
-      if (key !== 'url' && !this.relatedEntities.includes(key)) {
-        newPeople[key] = createPeopleDto[key]
+    return this.peopleRepository.manager.transaction(async (manager) => {
+      const peopleRepository: Repository<People> = manager.getRepository(People)
+      // Check for existing character with the same name
+      const existsPeople: People = await peopleRepository.findOne({
+        where: { name: createPeopleDto.name },
+      })
+      if (existsPeople) {
+        throw new ConflictException(
+          `People '${createPeopleDto.name}' already exists`,
+        )
       }
-    }
-
-    // Save the new people to the database without related entities
-    const savedPeople = await this.peopleRepository.save(newPeople)
 
-    // Update URL if necessary
-    if (savedPeople.id !== nextId) {
-      console.warn(
-        `Predicted ID (${nextId}) doesn't match actual ID (${savedPeople.id}). Updating URL...`,
+      // Save the new people to the database without related entities
+      const savedPeople: People = await peopleRepository.save(
+        peopleRepository.create(
+          getColumnValues<People>(createPeopleDto, this.relatedEntities),
+        ),
       )
-      await this.peopleRepository.query(
-        'UPDATE people SET url = ? WHERE id = ?',
-        [`${localUrl}vehicles/${savedPeople.id}/`, savedPeople.id],
+
+      // Derive the URL from the generated ID
+      await peopleRepository.update(savedPeople.id, {
+        url: `${localUrl}people/${savedPeople.id}/`,
+      })
+
+      // Fill in related entities
+      await setRelatedEntities(
+        manager,
+        People,
+        savedPeople.id,
+        createPeopleDto,
+        this.relatedEntities,
       )
-      savedPeople.url = `${localUrl}people/${savedPeople.id}/`
-    }
 
-    // Fill in related entities
-    await this.fillRelatedEntities(savedPeople, createPeopleDto)
+      // Fetch the created people to reflect all changes
+      const createdPeople: People = await peopleRepository.findOne({
+        where: { id: savedPeople.id },
+        relations: this.relatedEntities,
+      })
 
-    // Fetch the updated people to reflect all changes
-    const updatedPeople: People = await this.peopleRepository.findOne({
-      where: { id: savedPeople.id },
-      relations: this.relatedEntities,
+      return serializeResource(createdPeople, 'people')
     })
-
-    return updatedPeople
   }
 
   /**
@@ -115,75 +122,139 @@ export class PeopleService {
    * This method retrieves a paginated list of "people" resources using the `nestjs-typeorm-paginate`
    * library. It accepts pagination options (`IPaginationOptions`) to control the page number and
    * number of items per page.
+   * When a `cursor` query parameter is given, the list is paginated with opaque cursors instead.
    *
    * @param options Pagination options object specifying page number and limit
+   * @param query Field filters, free-text search, sort order and relation expansion from the query string (e.g. `?gender=female&sort=eye_color,-name&expand=homeworld`)
    * @returns A Promise resolving to a `Pagination<People>` object containing the paginated list
    */
-  async findAll(options: IPaginationOptions): Promise<Pagination<People>> {
-    return paginate<People>(this.peopleRepository, options)
+  async findAll(
+    options: IPaginationOptions,
+    query: ListQuery = {},
+  ): Promise<Pagination<People> | CursorPagination<People>> {
+    // Build where/order clauses from the field filters, the search term and the sort parameter
+    const findOptions: FindManyOptions<People> = buildListFindOptions(
+      this.peopleRepository,
+      query,
+      searchFieldsMap.people,
+      unsortableFieldsMap.people,
+    )
+    // Load the related entities, rendered as URLs unless expanded
+    const expand: string[] = parseExpandParameter(
+      getExpandParameter(query),
+      'people',
+    )
+    findOptions.relations = getExpandRelations('people', expand)
+    findOptions.relationLoadStrategy = 'query'
+    // Use keyset pagination when a cursor is given
+    if (isCursorRequest(query)) {
+      const page: CursorPagination<People> = await paginateByCursor<People>(
+        this.peopleRepository,
+        findOptions,
+        {
+          cursor: String(query.cursor),
+          limit: Number(options.limit),
+          route: `${localUrl}people/`,
+          query,
+        },
+      )
+      return serializePagination(page, 'people', expand)
+    }
+    const people: Pagination<People> = await paginate<People>(
+      this.peopleRepository,
+      options,
+      findOptions,
+    )
+    return serializePagination(people, 'people', expand)
   }
 
   /**
    * Retrieves a single "people" resource by ID
    *
    * This method retrieves a single "people" resource by its ID specified in the `peopleId` parameter.
+   * Related resources are returned as SWAPI-style URLs, except for the relations listed in `expand`,
+   * which are embedded as objects.
    *
    * @param peopleId The ID of the "people" resource to retrieve
-   * @returns A Promise resolving to the `People` entity object representing the resource,
-   *          or `null` if not found
+   * @param expand The relations to embed instead of their URLs (e.g. `homeworld,films.planets`)
+   * @returns A Promise resolving to the `People` entity object representing the resource
+   * @throws NotFoundException if the resource does not exist
    */
-  async findOne(peopleId: number): Promise<People> {
-    return await this.peopleRepository.findOne({
+  async findOne(peopleId: number, expand?: string | string[]): Promise<People> {
+    const expandedRelations: string[] = parseExpandParameter(expand, 'people')
+    const person: People = await this.peopleRepository.findOne({
       where: {
         id: peopleId,
       },
+      relations: getExpandRelations('people', expandedRelations),
+      relationLoadStrategy: 'query',
     })
+    if (!person) {
+      throw new NotFoundException(`People with id ${peopleId} not found`)
+    }
+    return serializeResource(person, 'people', expandedRelations)
   }
 
   /**
    * Updates a "people" resource by ID
    *
-   * This method updates an existing "people" resource by its ID. It fetches the resource first,
-   * then iterates through the `updatePeopleDto` object, updating the corresponding fields in the
-   * `People` entity. It also updates the `edited` field with the current date and calls the
-   * `fillRelatedEntities` method to handle updates for related entities (films, starships, planets,
-   * species, vehicles). Finally, it saves the updated resource to the database.
+   * This method updates an existing "people" resource by its ID in a single transaction. It fetches the
+   * resource first, copies the fields of the `updatePeopleDto` object into the `People` entity, updates the
+   * `edited` field with the current date and saves it. The related entities present in the DTO (homeworld,
+   * films, starships, species, vehicles) replace the current ones through the TypeORM relation API.
    *
    * @param peopleId The ID of the "people" resource to update
    * @param updatePeopleDto A DTO object containing the updated data for the "people" resource
    * @returns A Promise resolving to the updated `People` entity object
+   * @throws NotFoundException if the resource does not exist, ConflictException if another person has the new name,
+   *         BadRequestException if a related resource does not exist
    */
   async update(
     peopleId: number,
     updatePeopleDto: UpdatePeopleDto,
   ): Promise<People> {
-    const person = await this.findOne(peopleId)
-    // Prepare an object with updated data
-    for (const key in updatePeopleDto) {
-      if (updatePeopleDto.hasOwnProperty(key) && updatePeopleDto[key]) {
-        // Check if the name is being updated
-        if (updatePeopleDto.name) {
-          // Search for an existing person with the new name
-          const existingPerson = await this.peopleRepository.findOne({
-            where: {
-              name: updatePeopleDto.name,
-            },
-          })
-
-          // If a person with this name exists and it's not the same person we're updating
-          if (existingPerson && existingPerson.id !== person.id) {
-            console.error(`People '${updatePeopleDto.name}' already exists!`)
-            return null
-          }
+    return this.peopleRepository.manager.transaction(async (manager) => {
+      const peopleRepository: Repository<People> = manager.getRepository(People)
+      const person: People = await peopleRepository.findOne({
+        where: { id: peopleId },
+      })
+      if (!person) {
+        throw new NotFoundException(`People with id ${peopleId} not found`)
+      }
+      // Check if the name is being updated to the name of another person
+      if (updatePeopleDto.name) {
+        const existingPerson: People = await peopleRepository.findOne({
+          where: {
+            name: updatePeopleDto.name,
+          },
+        })
+        if (existingPerson && existingPerson.id !== person.id) {
+          throw new ConflictException(
+            `People '${updatePeopleDto.name}' already exists`,
+          )
         }
-        person[key] = updatePeopleDto[key]
       }
-    }
-    // Update 'edited' field with current date
-    person.edited = new Date()
-    // Handle updates for related entities (films, starships, planets, species, vehicles)
-    await this.fillRelatedEntities(person, updatePeopleDto)
-    return this.peopleRepository.save(person)
+      // Update the properties and the 'edited' field with current date
+      Object.assign(
+        person,
+        getColumnValues<People>(updatePeopleDto, this.relatedEntities),
+      )
+      person.edited = new Date()
+      await peopleRepository.save(person)
+      // Handle updates for related entities (homeworld, films, starships, species, vehicles)
+      await setRelatedEntities(
+        manager,
+        People,
+        person.id,
+        updatePeopleDto,
+        this.relatedEntities,
+      )
+      const updatedPerson: People = await peopleRepository.findOne({
+        where: { id: person.id },
+        relations: this.relatedEntities,
+      })
+      return serializeResource(updatedPerson, 'people')
+    })
   }
 
   /**
@@ -194,103 +265,80 @@ export class PeopleService {
    *
    * @param peopleId The ID of the "people" resource to delete
    * @returns A Promise resolving to `void` upon successful deletion
+   * @throws NotFoundException if the resource does not exist
    */
   async remove(peopleId: number): Promise<People> {
-    const person = await this.findOne(peopleId)
+    const person: People = await this.peopleRepository.findOne({
+      where: { id: peopleId },
+    })
+    if (!person) {
+      throw new NotFoundException(`People with id ${peopleId} not found`)
+    }
     return await this.peopleRepository.remove(person)
   }
 
   /**
-   * Populates related entities for a given people entity.
+   * Creates several "people" resources in a single transaction
    *
-   * This method handles the population of related entities for a given people entity based on the provided DTO.
-   * It updates the homeworld if specified and handles other related entities by inserting relations into the database.
+   * Every item is validated against `CreatePeopleDto` and created with `create`. The report tells for every item
+   * whether it was created, skipped as a duplicate name or failed; failed items are rolled back alone.
    *
-   * @param people - The People entity to populate related entities for.
-   * @param peopleDto - The DTO containing data for creating or updating the people entity.
-   * @returns A promise that resolves when related entities are populated.
-   * @throws An error if the operation fails.
+   * @param items The request body, an array of `CreatePeopleDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
    */
-  private async fillRelatedEntities(
-    people: People,
-    peopleDto: CreatePeopleDto | UpdatePeopleDto,
-  ): Promise<void> {
-    let tableName: string
-    let secondParameter: string
-    try {
-      for (const key of this.relatedEntities) {
-        // Handle homeworld relationship
-        if (key === 'homeworld' && peopleDto.homeworld) {
-          const urlToSearch: string = `${localUrl}planets/${peopleDto.homeworld}/`
-          const planet: Planet = await this.homeworldRepository.findOne({
-            where: { url: urlToSearch },
-          })
-          people[key] = planet
-          await this.peopleRepository.query(
-            `UPDATE people SET homeworldId = ? WHERE id = ?`,
-            [planet.id, people.id],
-          )
-        } else if (peopleDto[key]) {
-          // Handle other related entities
-          const entities = await Promise.all(
-            peopleDto[key].map(async (url: string) => {
-              const repository = this.getRepositoryForKey(key)
-              const entity = await repository.findOne({ where: { url } })
-              return entity
-            }),
-          )
-
-          // Filter out any null values (entities that weren't found)
-          const validEntities = entities.filter((e: null) => e !== null)
-
-          // Filling in the people property
-          people[key] = validEntities
+  async bulkCreate(items: unknown): Promise<BulkReport> {
+    return runBulkCreate(
+      this.peopleRepository.manager,
+      items,
+      CreatePeopleDto,
+      (createDto, manager) => this.withManager(manager).create(createDto),
+    )
+  }
 
-          // Use raw query to insert relations, ignoring duplicates
-          if (validEntities.length > 0) {
-            tableName = `people_${key}`
-            secondParameter = `${key}Id`
+  /**
+   * Updates several "people" resources in a single transaction
+   *
+   * Every item is an `UpdatePeopleDto` with the `id` of the resource to update, and is applied with `update`.
+   *
+   * @param items The request body, an array of `UpdatePeopleDto` objects with an `id`
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkUpdate(items: unknown): Promise<BulkReport> {
+    return runBulkUpdate(
+      this.peopleRepository.manager,
+      People,
+      items,
+      UpdatePeopleDto,
+      (id, updateDto, manager) =>
+        this.withManager(manager).update(id, updateDto),
+    )
+  }
 
-            const values = validEntities
-              .map((entity: { id: number }) => `(${people.id}, ${entity.id})`)
-              .join(',')
-            await this.peopleRepository.query(
-              `INSERT IGNORE INTO ${tableName} (peopleId, ${secondParameter}) VALUES ${values}`,
-            )
-          }
-        }
-      }
-    } catch (error) {
-      throw new Error(error)
-    }
+  /**
+   * Deletes several "people" resources in a single transaction
+   *
+   * @param ids The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkRemove(ids: number[]): Promise<BulkReport> {
+    return runBulkRemove(
+      this.peopleRepository.manager,
+      People,
+      ids,
+      (id, manager) => this.withManager(manager).remove(id),
+    )
   }
 
   /**
-   * Retrieves the appropriate repository based on the given key.
+   * Returns a copy of this service whose repositories use the given entity manager
    *
-   * This private helper method returns the correct TypeORM repository
-   * based on the provided key. The key is expected to be one of the
-   * related entity types (e.g., 'films', 'starships', 'species', 'vehicles',
-   * 'homeworld'). If the key does not match any of these, an error is thrown.
+   * The bulk operations use it so that every query of `create`, `update` and `remove` runs inside
+   * the transaction of the batch (the transactions of `create` and `update` become savepoints).
    *
-   * @param key The key representing the type of related entity
-   * @returns The corresponding TypeORM repository for the given key
-   * @throws Error if no repository is found for the given key
+   * @param manager The transactional entity manager
+   * @returns A `PeopleService` bound to the transaction
    */
-  private getRepositoryForKey(key: string): Repository<any> {
-    switch (key) {
-      case 'films':
-        return this.filmsRepository
-      case 'starships':
-        return this.starshipsRepository
-      case 'species':
-        return this.speciesRepository
-      case 'vehicles':
-        return this.vehiclesRepository
-      case 'homeworld':
-        return this.homeworldRepository
-      default:
-        throw new Error(`No repository found for key: ${key}`)
-    }
+  private withManager(manager: EntityManager): PeopleService {
+    return new PeopleService(manager.getRepository(People))
   }
 }
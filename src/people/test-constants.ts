@@ -130,3 +130,20 @@ export const starship = { url: 'starship1' } as Starship
  * This mock object represents a vehicle entity with a specific URL.
  */
 export const vehicle = { url: 'vehicle1' } as Vehicle
+
+/**
+ * Mock repository metadata for the "People" entity
+ *
+ * This mock object lists the plain columns of the "People" entity together with
+ * the `homeworldId` relation column, which must not be accepted as a filter field.
+ */
+export const peopleMetadata = {
+  columns: [
+    { propertyName: 'id' },
+    { propertyName: 'name' },
+    { propertyName: 'height' },
+    { propertyName: 'eye_color' },
+    { propertyName: 'gender' },
+    { propertyName: 'homeworld', relationMetadata: {} },
+  ],
+}
@@ -1,6 +1,13 @@
 import { ApiProperty } from '@nestjs/swagger'
 import { AbstractEntity } from '../../shared/abstract.entity'
-import { Column, Entity, JoinTable, ManyToMany, OneToMany } from 'typeorm'
+import {
+  Column,
+  Entity,
+  Index,
+  JoinTable,
+  ManyToMany,
+  OneToMany,
+} from 'typeorm'
 import { People } from '../../people/entities/people.entity'
 import { Film } from '../../films/entities/film.entity'
 import { Image } from '../../images/entities/image.entity'
@@ -15,6 +22,7 @@ import { IsOptional } from 'class-validator'
  * for database mapping and `@nestjs/swagger`'s `ApiProperty` for API documentation.
  */
 @Entity({ name: 'planets' })
+@Index('FT_planets_name', ['name'], { fulltext: true })
 export class Planet extends AbstractEntity<Planet> {
   /**
    * name: The name of the planet (string)
@@ -2,6 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing'
 import { ForbiddenException, HttpException, HttpStatus } from '@nestjs/common'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import { JwtService } from '@nestjs/jwt'
+import { AuditService } from 'src/audit/audit.service'
+import { ImagesService } from 'src/images/images.service'
 import { People } from 'src/people/entities/people.entity'
 import { DataSource, Repository } from 'typeorm'
 import { PlanetsController } from './planets.controller'
@@ -17,6 +19,7 @@ import {
   updatedPlanet,
   updatedPlanetDto,
 } from './test-constants'
+import { describeFindImages } from 'src/images/test-constants'
 
 /**
  * Unit test suite for PlanetsController.
@@ -26,6 +29,7 @@ import {
 describe('PlanetsController', () => {
   let controller: PlanetsController
   let service: PlanetsService
+  let imagesService: ImagesService
 
   /**
    * Setup for each test in the suite.
@@ -67,11 +71,24 @@ describe('PlanetsController', () => {
             verify: jest.fn(),
           },
         },
+        {
+          provide: AuditService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: ImagesService,
+          useValue: {
+            findAllOfAnEntity: jest.fn(),
+          },
+        },
       ],
     }).compile()
 
     controller = module.get<PlanetsController>(PlanetsController)
     service = module.get<PlanetsService>(PlanetsService)
+    imagesService = module.get<ImagesService>(ImagesService)
   })
 
   /**
@@ -130,7 +147,7 @@ describe('PlanetsController', () => {
       // Mock the service's `findAll` method
       jest.spyOn(service, 'findAll').mockResolvedValue(paginatedResult)
 
-      expect(await controller.findAll(1, 10)).toEqual(paginatedResult)
+      expect(await controller.findAll(1, 10, {})).toEqual(paginatedResult)
     })
   })
 
@@ -144,8 +161,8 @@ describe('PlanetsController', () => {
     it('should return a single planet by ID', async () => {
       // Mock the service's `findOne` method
       jest.spyOn(service, 'findOne').mockResolvedValue(planet)
-      expect(await controller.findOne(1)).toEqual(planet)
-      expect(service.findOne).toHaveBeenCalledWith(1)
+      expect(await controller.findOne(1, {})).toEqual(planet)
+      expect(service.findOne).toHaveBeenCalledWith(1, undefined)
     })
 
     /**
@@ -162,6 +179,8 @@ describe('PlanetsController', () => {
     })
   })
 
+  describeFindImages('planets', () => ({ controller, imagesService }))
+
   /**
    * Test suite for the `update` method of PlanetsController.
    */
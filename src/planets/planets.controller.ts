@@ -8,7 +8,7 @@ import {
   Delete,
   Query,
   DefaultValuePipe,
-  UseGuards,
+  HttpStatus,
 } from '@nestjs/common'
 import { PlanetsService } from './planets.service'
 import { CreatePlanetDto } from './dto/create-planet.dto'
@@ -22,8 +22,19 @@ import {
 } from '@nestjs/swagger'
 import { Pagination } from 'nestjs-typeorm-paginate'
 import { limitCount } from 'src/shared/constants'
+import { ListQuery } from 'src/shared/query-filter'
+import { CursorPagination } from 'src/shared/cursor-pagination'
+import { BulkReport } from 'src/shared/bulk-operations'
+import { BulkRemoveDto } from 'src/shared/dto/bulk-remove.dto'
+import { getExpandParameter } from 'src/shared/relation-expansion'
 import { Planet } from 'src/planets/entities/planet.entity'
-import { AdminGuard } from 'src/auth/guards/admin.guard'
+import { Public } from 'src/auth/decorators/public.decorator'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Audited } from 'src/audit/decorators/audited.decorator'
+import { Permissions } from 'src/auth/permissions'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { ImagesService } from 'src/images/images.service'
+import { Image } from 'src/images/entities/image.entity'
 
 /**
  * PlanetsController
@@ -35,15 +46,19 @@ import { AdminGuard } from 'src/auth/guards/admin.guard'
  * decorators for routing, request handling, and API documentation.
  */
 @ApiTags('planets')
+@Audited('planets')
 @Controller('planets')
 export class PlanetsController {
-  constructor(private readonly planetsService: PlanetsService) {}
+  constructor(
+    private readonly planetsService: PlanetsService,
+    private readonly imagesService: ImagesService,
+  ) {}
 
   /**
    * Create a new planet
    *
-   * This endpoint creates a new planet resource. It is protected with `@UseGuards(AdminGuard)`,
-   * requiring admin authorization. It is decorated with `@ApiBearerAuth()` for Swagger
+   * This endpoint creates a new planet resource. It is protected with
+   * `@RequirePermissions(Permissions.PlanetsWrite)`, requiring the `planets:write` permission. It is decorated with `@ApiBearerAuth()` for Swagger
    * to indicate Bearer token authentication and `@ApiBody({ type: CreatePlanetDto })`
    * to describe the expected request body format (CreatePlanetDto). The `@ApiOperation`
    * describes the operation summary.
@@ -51,15 +66,75 @@ export class PlanetsController {
    * @param createPlanetDto (CreatePlanetDto) The data to create the new planet.
    * @returns Promise<Planet> A promise that resolves to the created Planet entity.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.PlanetsWrite)
   @Post('create')
   @ApiBearerAuth()
   @ApiBody({ type: CreatePlanetDto })
   @ApiOperation({ summary: 'Create new "planet"' })
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'A resource with the same name already exists',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async create(@Body() createPlanetDto: CreatePlanetDto): Promise<Planet> {
     return this.planetsService.create(createPlanetDto)
   }
 
+  /**
+   * Creates several "planets" resources in a single transaction
+   *
+   * Every item is validated like the body of `POST /planets/create`. The response reports for every item
+   * whether it was created, skipped as a duplicate name, or failed with its validation errors.
+   *
+   * @param items An array of `CreatePlanetDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.PlanetsWrite)
+  @Post('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: [CreatePlanetDto] })
+  @ApiOperation({ summary: 'Create several "planets" resources' })
+  async bulkCreate(@Body() items: CreatePlanetDto[]): Promise<BulkReport> {
+    return this.planetsService.bulkCreate(items)
+  }
+
+  /**
+   * Updates several "planets" resources in a single transaction
+   *
+   * @param items An array of `UpdatePlanetDto` objects, each with the `id` of the resource to update
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.PlanetsWrite)
+  @Patch('bulk')
+  @ApiBearerAuth()
+  @ApiBody({
+    type: [UpdatePlanetDto],
+    description:
+      'Every item must also contain the `id` of the resource to update.',
+  })
+  @ApiOperation({ summary: 'Update several "planets" resources' })
+  async bulkUpdate(@Body() items: UpdatePlanetDto[]): Promise<BulkReport> {
+    return this.planetsService.bulkUpdate(items)
+  }
+
+  /**
+   * Deletes several "planets" resources in a single transaction
+   *
+   * @param bulkRemoveDto The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.PlanetsWrite)
+  @Delete('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: BulkRemoveDto })
+  @ApiOperation({ summary: 'Delete several "planets" resources' })
+  async bulkRemove(@Body() bulkRemoveDto: BulkRemoveDto): Promise<BulkReport> {
+    return this.planetsService.bulkRemove(bulkRemoveDto.ids)
+  }
+
   /**
    * Get all planets (paginated)
    *
@@ -73,19 +148,45 @@ export class PlanetsController {
    *
    * @param page (number, optional, default 1) The page number for pagination.
    * @param limit (number, optional, default from limitCount) The number of items per page.
-   * @returns Promise<Pagination<Planet>> A promise that resolves to a `Pagination<Planet>` object
-   * containing the paginated list of planets and pagination information.
+   * @param query Field filters, free-text search and sort order from the query string, validated against the entity columns
+   * @returns Promise<Pagination<Planet> | CursorPagination<Planet>> A promise that resolves to a `Pagination<Planet>` object
+   * containing the paginated list of planets and pagination information, or to a `CursorPagination<Planet>` when a `cursor` is given.
    */
+  @Public()
   @Get()
   @ApiOperation({ summary: 'Get all the "planets" resources' })
   @ApiQuery({ name: 'page', required: false })
   @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id` and on the first `sort` field.',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description:
+      'Comma-separated fields to sort by, prefix with "-" for descending order. The quantities stored as text (e.g. heights, lengths, populations) cannot be sorted by. Any other column can be used as an exact-match filter (e.g. `?name=...`).',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Free-text search on the name of the planets.',
+  })
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `residents,residents.homeworld`). `include` is accepted as an alias.',
+  })
   async findAll(
     @Query('page', new DefaultValuePipe(1)) page: number,
     @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
-  ): Promise<Pagination<Planet>> {
+    @Query() query: ListQuery,
+  ): Promise<Pagination<Planet> | CursorPagination<Planet>> {
     if (limit > limitCount) limit = limitCount
-    return this.planetsService.findAll({ page, limit })
+    return this.planetsService.findAll({ page, limit }, query)
   }
 
   /**
@@ -98,19 +199,68 @@ export class PlanetsController {
    * to retrieve the specific planet.
    *
    * @param id (number) The ID of the planet to retrieve.
+   * @param query (ListQuery) The `expand` (or `include`) query parameter listing the relations to embed.
    * @returns Promise<Planet> A promise that resolves to the retrieved Planet entity.
    */
+  @Public()
   @Get(':id')
   @ApiOperation({ summary: 'Get resource "planet" by its "id"' })
-  async findOne(@Param('id') id: number): Promise<Planet> {
-    return await this.planetsService.findOne(id)
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `residents,residents.homeworld`). `include` is accepted as an alias.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findOne(
+    @Param('id') id: number,
+    @Query() query: ListQuery = {},
+  ): Promise<Planet> {
+    return await this.planetsService.findOne(id, getExpandParameter(query))
+  }
+
+  /**
+   * Retrieves the images of a "planet" resource (paginated)
+   *
+   * @param id The ID of the "planet" resource
+   * @param page The page number to retrieve (defaults to 1)
+   * @param limit The number of items per page (defaults to `limitCount`)
+   * @param cursor The opaque cursor selecting cursor pagination (empty for the first page)
+   * @returns A Promise resolving to a `Pagination<Image>` object containing the paginated list, or a
+   *          `CursorPagination<Image>` in cursor mode
+   */
+  @Public()
+  @Get(':id/images')
+  @ApiOperation({ summary: 'Get the images of resource "planet" by its "id"' })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id`.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findImages(
+    @Param('id') id: number,
+    @Query('page', new DefaultValuePipe(1)) page: number,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+    @Query('cursor') cursor?: string,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    if (limit > limitCount) limit = limitCount
+    return this.imagesService.findAllOfAnEntity(
+      'planets',
+      id,
+      { page, limit },
+      cursor,
+    )
   }
 
   /**
    * Update a planet by ID
    *
    * This endpoint updates a planet resource by its ID. It is protected with
-   * `@UseGuards(AdminGuard)`, requiring admin authorization. It is decorated with
+   * `@RequirePermissions(Permissions.PlanetsWrite)`, requiring the `planets:write` permission. It is decorated with
    * `@ApiBearerAuth()` for Swagger to indicate Bearer token authentication and
    * `@ApiBody({ type: UpdatePlanetDto })` to describe the expected request body
    * format (UpdatePlanetDto) for partial updates. The `@ApiOperation` describes
@@ -120,11 +270,20 @@ export class PlanetsController {
    * @param updatePlanetDto (UpdatePlanetDto) The data to update the planet with.
    * @returns Promise<Planet> A promise that resolves to the updated Planet entity.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.PlanetsWrite)
   @Patch(':id')
   @ApiBearerAuth()
   @ApiBody({ type: UpdatePlanetDto })
   @ApiOperation({ summary: 'Update resource "planet" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'Another resource already has the same name',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async update(
     @Param('id') id: number,
     @Body() updatePlanetDto: UpdatePlanetDto,
@@ -136,17 +295,18 @@ export class PlanetsController {
    * Delete a planet by ID
    *
    * This endpoint deletes a planet resource by its ID. It is protected with
-   * `@UseGuards(AdminGuard)`, requiring admin authorization. It is decorated with
+   * `@RequirePermissions(Permissions.PlanetsWrite)`, requiring the `planets:write` permission. It is decorated with
    * `@ApiBearerAuth()` for Swagger to indicate Bearer token authentication and
    * `@ApiOperation` describes the operation summary ("Delete resource 'planet' by its 'id'").
    *
    * @param id (number) The ID of the planet to delete.
    * @returns Promise<void> A promise that resolves after the planet is deleted.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.PlanetsWrite)
   @Delete(':id')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete resource "planet" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
   async remove(@Param('id') id: number): Promise<void> {
     await this.planetsService.remove(id)
   }
@@ -30,6 +30,7 @@ import { ImagesService } from 'src/images/images.service'
  *
  * The module also exports `TypeOrmModule` to make it available for other modules
  * that might need database access to these entities.
+ * It also exports the `PlanetsService`, which is reused by the GraphQL resolvers.
  *
  * Finally, the module provides the `PlanetsService` and any other services
  * (like `ImagesService`) used within the module.
@@ -46,7 +47,7 @@ import { ImagesService } from 'src/images/images.service'
       Image,
     ]),
   ],
-  exports: [TypeOrmModule],
+  exports: [TypeOrmModule, PlanetsService],
   controllers: [PlanetsController],
   providers: [PlanetsService, ImagesService],
 })
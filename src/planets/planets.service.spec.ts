@@ -1,8 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { HttpStatus, NotFoundException } from '@nestjs/common'
 import { PlanetsService } from './planets.service'
 import { DataSource, Repository } from 'typeorm'
-import { Film } from 'src/films/entities/film.entity'
-import { People } from 'src/people/entities/people.entity'
 import { Planet } from './entities/planet.entity'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import {
@@ -17,7 +16,12 @@ import {
   updatedPlanetDto,
 } from './test-constants'
 import { paginate } from 'nestjs-typeorm-paginate'
-import { paginationOptions } from 'src/shared/constants'
+import {
+  localUrl,
+  paginationOptions,
+  relatedEntitiesMap,
+} from 'src/shared/constants'
+import { setRelatedEntities } from 'src/shared/related-entities'
 
 /**
  * Mocking the `nestjs-typeorm-paginate` module
@@ -31,6 +35,17 @@ import { paginationOptions } from 'src/shared/constants'
  */
 jest.mock('nestjs-typeorm-paginate')
 
+/**
+ * Mocking the relation writer of `src/shared/related-entities`
+ *
+ * The related entities are written with TypeORM's relation query builder, which needs a real
+ * data source. The tests only check that the relations of the DTO are passed to it.
+ */
+jest.mock('src/shared/related-entities', () => ({
+  ...jest.requireActual('src/shared/related-entities'),
+  setRelatedEntities: jest.fn(),
+}))
+
 /**
  * Unit test suite for PlanetsService.
  * This test suite covers various scenarios for creating, finding, updating, deleting planet records,
@@ -39,8 +54,7 @@ jest.mock('nestjs-typeorm-paginate')
 describe('PlanetsService', () => {
   let service: PlanetsService
   let planetRepository: Repository<Planet>
-  let peopleRepository: Repository<People>
-  let filmRepository: Repository<Film>
+  let transactionManager: Record<string, jest.Mock>
 
   /**
    * Setup for each test in the suite.
@@ -57,19 +71,9 @@ describe('PlanetsService', () => {
             findOne: jest.fn(),
             save: jest.fn(),
             remove: jest.fn(),
-            query: jest.fn().mockResolvedValue([{ maxId: 0 }]),
-          },
-        },
-        {
-          provide: getRepositoryToken(People),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'people1' } as People),
-          },
-        },
-        {
-          provide: getRepositoryToken(Film),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'film1' } as Film),
+            create: jest.fn((values) => values),
+            update: jest.fn(),
+            query: jest.fn(),
           },
         },
         {
@@ -85,20 +89,18 @@ describe('PlanetsService', () => {
     planetRepository = module.get<Repository<Planet>>(
       getRepositoryToken(Planet),
     )
-    filmRepository = module.get<Repository<Film>>(getRepositoryToken(Film))
-    peopleRepository = module.get<Repository<People>>(
-      getRepositoryToken(People),
-    )
 
     // Mock implementation for paginate function
     jest
       .spyOn(planetRepository, 'findAndCount')
-      .mockImplementation(async () => [[], 0]),
-      // Define the repositories property in the service
-      ((service as any).repositories = {
-        residents: peopleRepository,
-        films: filmRepository,
-      })
+      .mockImplementation(async () => [[], 0])
+    // Run transactions with a transactional manager returning the same repository
+    transactionManager = {
+      transaction: jest.fn((run) => run(transactionManager)),
+      existsBy: jest.fn().mockResolvedValue(true),
+      getRepository: jest.fn(() => planetRepository),
+    }
+    ;(planetRepository as any).manager = transactionManager
   })
 
   /**
@@ -118,34 +120,58 @@ describe('PlanetsService', () => {
     it('should create a new planet', async () => {
       jest.spyOn(planetRepository, 'findOne').mockResolvedValueOnce(null)
       jest.spyOn(planetRepository, 'save').mockResolvedValue(newPlanet)
-      jest.spyOn(planetRepository, 'query').mockResolvedValue([{ maxId: 0 }])
-      jest.spyOn(planetRepository, 'findOne').mockResolvedValueOnce(newPlanet)
-
-      // Setting up mocks for related entities
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
+      // The created planet is fetched again with its related entities
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValueOnce({
+        ...newPlanet,
+        residents: [people],
+        films: [film],
+      } as Planet)
 
       const result = await service.create(createPlanetDto)
-      expect(result).toEqual(newPlanet)
+      // Related entities are returned as SWAPI-style URLs
+      expect(result).toEqual({
+        ...newPlanet,
+        residents: ['people1'],
+        films: ['film1'],
+      })
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Planet,
+        newPlanet.id,
+        createPlanetDto,
+        relatedEntitiesMap.planets.relatedEntities,
+      )
     })
 
     /**
-     * Test to verify that creating a planet with an existing name returns null.
+     * Test to verify that the planet is created in a transaction, with its URL derived from the generated ID.
      */
-    it('should return null if a planet with the same name already exists', async () => {
-      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(null)
-      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(existingPlanet)
+    it('should create a new planet in a transaction', async () => {
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(planetRepository, 'save')
+        .mockResolvedValue({ ...newPlanet, id: 7 } as Planet)
 
-      const consoleErrorSpy = jest
-        .spyOn(console, 'error')
-        .mockImplementation(() => {})
+      await service.create(createPlanetDto)
 
-      expect(await service.create(createPlanetDto)).toBeNull()
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        `Planet '${createPlanetDto.name}' already exists!`,
-      )
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(planetRepository.update).toHaveBeenCalledWith(7, {
+        url: `${localUrl}planets/7/`,
+      })
+      expect(planetRepository.query).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Test to verify that creating a planet with an existing name throws a 409 conflict.
+     */
+    it('should throw a conflict if a planet with the same name already exists', async () => {
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(null)
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(existingPlanet)
 
-      consoleErrorSpy.mockRestore()
+      await expect(service.create(createPlanetDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+        message: `Planet '${createPlanetDto.name}' already exists`,
+      })
     })
 
     /**
@@ -199,6 +225,15 @@ describe('PlanetsService', () => {
 
       await expect(service.findOne(1)).rejects.toThrow('Repository error')
     })
+
+    /**
+     * Test to verify that an unknown ID throws a 404 error.
+     */
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(null)
+
+      await expect(service.findOne(99)).rejects.toThrow(NotFoundException)
+    })
   })
 
   /**
@@ -212,9 +247,48 @@ describe('PlanetsService', () => {
      * Test to verify that a planet can be updated successfully.
      */
     it('should update a planet', async () => {
-      jest.spyOn(planetRepository, 'save').mockResolvedValue(updatedPlanet)
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValueOnce(planet)
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(planetRepository, 'findOne')
+        .mockResolvedValueOnce(updatedPlanet)
 
       expect(await service.update(1, updatedPlanetDto)).toEqual(updatedPlanet)
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Planet,
+        planet.id,
+        updatedPlanetDto,
+        relatedEntitiesMap.planets.relatedEntities,
+      )
+    })
+
+    /**
+     * Test to verify that renaming a planet to the name of another planet throws a 409 conflict.
+     */
+    it('should throw a conflict if another planet has the same name', async () => {
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValueOnce(planet)
+      jest
+        .spyOn(planetRepository, 'findOne')
+        .mockResolvedValueOnce({ ...existingPlanet, id: 2 } as Planet)
+
+      await expect(service.update(1, updatedPlanetDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      })
+      expect(planetRepository.save).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Test to verify that updating an unknown planet throws a 404 error.
+     */
+    it('should throw a not found error for an unknown planet', async () => {
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValueOnce(null)
+
+      await expect(service.update(99, {})).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      })
+      expect(planetRepository.save).not.toHaveBeenCalled()
     })
 
     /**
@@ -226,7 +300,7 @@ describe('PlanetsService', () => {
         .mockRejectedValue(new Error('Repository error'))
 
       await expect(service.update(1, updatedPlanetDto)).rejects.toThrow(
-        'Repository error',
+        'Internal server error',
       )
     })
   })
@@ -257,38 +331,15 @@ describe('PlanetsService', () => {
 
       await expect(service.remove(1)).rejects.toThrow('Internal server error')
     })
-  })
-
-  /**
-   * Test suite for the `fillRelatedEntities` method of PlanetsService.
-   */
-  describe('fillRelatedEntities', () => {
-    const newPanet: Planet = new Planet()
 
     /**
-     * Test to verify that related entities are filled correctly.
+     * Test to verify that removing an unknown ID throws a 404 error.
      */
-    it('should fill related entities', async () => {
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-
-      await service['fillRelatedEntities'](newPanet, createPlanetDto)
-
-      expect(newPanet.residents).toContain(people)
-      expect(newPanet.films).toContain(film)
-    })
-
-    /**
-     * Test to verify that errors in related entity lookups are handled properly.
-     */
-    it('should handle errors in related entity lookups', async () => {
-      jest
-        .spyOn(peopleRepository, 'findOne')
-        .mockRejectedValue(new Error('Internal server error'))
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(null)
 
-      await expect(
-        service['fillRelatedEntities'](newPanet, createPlanetDto),
-      ).rejects.toThrow('Internal server error')
+      await expect(service.remove(99)).rejects.toThrow(NotFoundException)
+      expect(planetRepository.remove).not.toHaveBeenCalled()
     })
   })
 })
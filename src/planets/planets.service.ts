@@ -1,26 +1,58 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common'
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
 import { CreatePlanetDto } from './dto/create-planet.dto'
 import { UpdatePlanetDto } from './dto/update-planet.dto'
 import { Planet } from 'src/planets/entities/planet.entity'
 import { InjectRepository } from '@nestjs/typeorm'
-import { Repository } from 'typeorm'
-import { People } from 'src/people/entities/people.entity'
-import { Film } from 'src/films/entities/film.entity'
+import { EntityManager, FindManyOptions, Repository } from 'typeorm'
 import {
   IPaginationOptions,
   Pagination,
   paginate,
 } from 'nestjs-typeorm-paginate'
-import { localUrl, relatedEntitiesMap } from 'src/shared/constants'
+import {
+  localUrl,
+  relatedEntitiesMap,
+  searchFieldsMap,
+  unsortableFieldsMap,
+} from 'src/shared/constants'
+import { ListQuery, buildListFindOptions } from 'src/shared/query-filter'
+import {
+  getExpandParameter,
+  getExpandRelations,
+  parseExpandParameter,
+  serializePagination,
+  serializeResource,
+} from 'src/shared/relation-expansion'
+import {
+  CursorPagination,
+  isCursorRequest,
+  paginateByCursor,
+} from 'src/shared/cursor-pagination'
+import {
+  BulkReport,
+  runBulkCreate,
+  runBulkRemove,
+  runBulkUpdate,
+} from 'src/shared/bulk-operations'
+import {
+  getColumnValues,
+  setRelatedEntities,
+} from 'src/shared/related-entities'
 import { getResponceOfException } from 'src/shared/common.functions'
 
 /**
  * PlanetsService
  *
- * This service handles business logic related to planets. It injects
- * repositories for `Planet`, `People`, and `Film` entities to interact with
- * the database. It provides methods for creating, retrieving, updating,
- * and deleting planets, handling related entities (residents and films).
+ * This service handles business logic related to planets. It injects the
+ * `Planet` repository to interact with the database. It provides methods for
+ * creating, retrieving, updating, and deleting planets, handling related
+ * entities (residents and films).
  */
 @Injectable()
 export class PlanetsService {
@@ -28,11 +60,6 @@ export class PlanetsService {
   constructor(
     @InjectRepository(Planet)
     private readonly planetsRepository: Repository<Planet>,
-    // Injections for related entity repositories
-    @InjectRepository(People)
-    private readonly peopleRepository: Repository<People>,
-    @InjectRepository(Film)
-    private readonly filmsRepository: Repository<Film>,
   ) {
     this.relatedEntities = relatedEntitiesMap.planets.relatedEntities
   }
@@ -41,66 +68,60 @@ export class PlanetsService {
    * Creates a new planet entity.
    *
    * This method creates a new planet in the database. It first checks if a planet with the same name already exists.
-   * If not, it creates a new planet, assigns it a URL, populates its properties from the DTO, and saves it to the database.
-   * It also handles filling in related entities and updating the URL if necessary.
+   * If not, it saves a new planet with the properties from the DTO, derives its URL from the generated ID and fills in
+   * the related entities. All of this runs in a single transaction, so a failing step leaves nothing behind.
    *
    * @param createPlanetDto - The DTO containing data for creating the planet.
    * @returns The newly created planet entity, including its related entities.
-   * @throws An error if the operation fails.
+   * @throws HttpException on error (409 if a planet with the same name already exists, 400 if a related
+   *         resource does not exist).
    */
   async create(createPlanetDto: CreatePlanetDto): Promise<Planet> {
     try {
-      // Check if a planet with the same name already exists
-      const existsPlanet: Planet = await this.planetsRepository.findOne({
-        where: { name: createPlanetDto.name },
-      })
-      if (existsPlanet) {
-        console.error(`Planet '${createPlanetDto.name}' already exists!`)
-        return null
-      }
-
-      // Create a new Planet object
-      const newPlanet: Planet = new Planet()
-      // Get the last inserted ID
-      const lastIdResult = await this.planetsRepository.query(
-        'SELECT MAX(id) as maxId FROM planets',
-      )
-      const nextId: number =
-        lastIdResult.length > 0 ? lastIdResult[0].maxId + 1 : 1
-      newPlanet.url = `${localUrl}planets/${nextId}/`
-
-      // Populate planet properties from DTO, excluding related entities
-      for (const key in createPlanetDto) {
-        if (key !== 'url' && !this.relatedEntities.includes(key)) {
-          newPlanet[key] = createPlanetDto[key]
-        }
-      }
+      return await this.planetsRepository.manager.transaction(
+        async (manager) => {
+          const planetsRepository: Repository<Planet> =
+            manager.getRepository(Planet)
+          // Check if a planet with the same name already exists
+          const existsPlanet: Planet = await planetsRepository.findOne({
+            where: { name: createPlanetDto.name },
+          })
+          if (existsPlanet) {
+            throw new ConflictException(
+              `Planet '${createPlanetDto.name}' already exists`,
+            )
+          }
 
-      // Save the new planet to the database without related entities
-      const savedPlanet = await this.planetsRepository.save(newPlanet)
+          // Save the new planet to the database without its URL and related entities
+          const savedPlanet: Planet = await planetsRepository.save(
+            planetsRepository.create(
+              getColumnValues<Planet>(createPlanetDto, this.relatedEntities),
+            ),
+          )
 
-      // Update URL if necessary
-      if (savedPlanet.id !== nextId) {
-        console.warn(
-          `Predicted ID (${nextId}) doesn't match actual ID (${savedPlanet.id}). Updating URL...`,
-        )
-        await this.planetsRepository.query(
-          'UPDATE planets SET url = ? WHERE id = ?',
-          [`${localUrl}films/${savedPlanet.id}/`, savedPlanet.id],
-        )
-        savedPlanet.url = `${localUrl}planets/${savedPlanet.id}/`
-      }
+          // Derive the URL from the generated ID
+          await planetsRepository.update(savedPlanet.id, {
+            url: `${localUrl}planets/${savedPlanet.id}/`,
+          })
 
-      // Fill in related entities
-      await this.fillRelatedEntities(savedPlanet, createPlanetDto)
+          // Fill in related entities
+          await setRelatedEntities(
+            manager,
+            Planet,
+            savedPlanet.id,
+            createPlanetDto,
+            this.relatedEntities,
+          )
 
-      // Fetch the updated planet to reflect all changes
-      const updatedPlanet: Planet = await this.planetsRepository.findOne({
-        where: { id: savedPlanet.id },
-        relations: this.relatedEntities,
-      })
+          // Fetch the created planet to reflect all changes
+          const createdPlanet: Planet = await planetsRepository.findOne({
+            where: { id: savedPlanet.id },
+            relations: this.relatedEntities,
+          })
 
-      return updatedPlanet
+          return serializeResource(createdPlanet, 'planets')
+        },
+      )
     } catch (error) {
       throw getResponceOfException(error)
     }
@@ -113,15 +134,53 @@ export class PlanetsService {
    * all planets from the database. It accepts pagination options (`IPaginationOptions`)
    * to control the page size and number. If an error occurs during retrieval,
    * it throws an `HttpException` with an internal server error message.
+   * When a `cursor` query parameter is given, the list is paginated with opaque cursors instead.
    *
    * @param options (IPaginationOptions) The pagination options for retrieving planets.
+   * @param query Field filters, free-text search, sort order and relation expansion from the query string (e.g. `?climate=arid&sort=name&expand=residents`)
    * @returns Promise<Pagination<Planet>> A promise that resolves to a paginated list of Planet entities.
    * @throws HttpException Throws an exception if an error occurs during retrieval.
    */
-  async findAll(options: IPaginationOptions): Promise<Pagination<Planet>> {
+  async findAll(
+    options: IPaginationOptions,
+    query: ListQuery = {},
+  ): Promise<Pagination<Planet> | CursorPagination<Planet>> {
+    // Build where/order clauses from the field filters, the search term and the sort parameter
+    const findOptions: FindManyOptions<Planet> = buildListFindOptions(
+      this.planetsRepository,
+      query,
+      searchFieldsMap.planets,
+      unsortableFieldsMap.planets,
+    )
+    // Load the related entities, rendered as URLs unless expanded
+    const expand: string[] = parseExpandParameter(
+      getExpandParameter(query),
+      'planets',
+    )
+    findOptions.relations = getExpandRelations('planets', expand)
+    findOptions.relationLoadStrategy = 'query'
+    // Use keyset pagination when a cursor is given
+    if (isCursorRequest(query)) {
+      const page: CursorPagination<Planet> = await paginateByCursor<Planet>(
+        this.planetsRepository,
+        findOptions,
+        {
+          cursor: String(query.cursor),
+          limit: Number(options.limit),
+          route: `${localUrl}planets/`,
+          query,
+        },
+      )
+      return serializePagination(page, 'planets', expand)
+    }
     try {
       // Use NestJS TypeORM Paginate to retrieve a paginated list of planets
-      return paginate<Planet>(this.planetsRepository, options)
+      const planets: Pagination<Planet> = await paginate<Planet>(
+        this.planetsRepository,
+        options,
+        findOptions,
+      )
+      return serializePagination(planets, 'planets', expand)
     } catch (error) {
       throw new HttpException(error.message, HttpStatus.INTERNAL_SERVER_ERROR)
     }
@@ -132,18 +191,26 @@ export class PlanetsService {
    *
    * This method fetches a planet entity from the database based on the provided ID.
    * It uses the `planetsRepository` to find the planet with the matching ID.
-   * If the planet is not found, it returns `null`.
+   * If the planet is not found, it throws a `NotFoundException`.
    *
    * @param planetId (number) The ID of the planet to retrieve.
-   * @returns Promise<Planet> A promise that resolves to the Planet entity with the given ID, or `null` if not found.
+   * @param expand The relations to embed instead of their URLs (e.g. `residents,residents.homeworld`)
+   * @returns Promise<Planet> A promise that resolves to the Planet entity with the given ID.
+   * @throws NotFoundException if the planet does not exist.
    */
-  async findOne(planetId: number): Promise<Planet> {
+  async findOne(planetId: number, expand?: string | string[]): Promise<Planet> {
+    const expandedRelations: string[] = parseExpandParameter(expand, 'planets')
     const planet: Planet = await this.planetsRepository.findOne({
       where: {
         id: planetId,
       },
+      relations: getExpandRelations('planets', expandedRelations),
+      relationLoadStrategy: 'query',
     })
-    return planet
+    if (!planet) {
+      throw new NotFoundException(`Planet with id ${planetId} not found`)
+    }
+    return serializeResource(planet, 'planets', expandedRelations)
   }
 
   /**
@@ -152,49 +219,67 @@ export class PlanetsService {
    * This method updates an existing planet entity in the database. It first
    * retrieves the planet using the `findOne` method. Then, it iterates over the
    * properties of the `UpdatePlanetDto` and updates the corresponding properties
-   * of the planet object. It also updates the `edited` field with the current date
-   * and calls `fillRelatedEntities` to handle any updates to related entities.
-   * Finally, it saves the updated planet to the database.
+   * of the planet object. It also updates the `edited` field with the current date,
+   * saves the planet and replaces the related entities present in the DTO. All of
+   * this runs in a single transaction.
    *
    * @param planetId (number) The ID of the planet to update.
    * @param updatePlanetDto (UpdatePlanetDto) The data to update the planet with.
    * @returns Promise<Planet> A promise that resolves to the updated Planet entity.
-   * @throws HttpException Throws an exception if the planet is not found or an error occurs during update.
+   * @throws HttpException Throws an exception if the planet is not found (404), another planet has the new
+   *         name (409), a related resource does not exist (400) or an error occurs during update.
    */
   async update(
     planetId: number,
     updatePlanetDto: UpdatePlanetDto,
   ): Promise<Planet> {
     try {
-      const planet: Planet = await this.findOne(planetId)
-      // Return null if not found
-      if (!planet) return null
-      // Update planet properties based on UpdatePlanetDto
-      for (const key in updatePlanetDto) {
-        if (updatePlanetDto.hasOwnProperty(key) && updatePlanetDto[key]) {
-          // Check if the planet name is being updated
+      return await this.planetsRepository.manager.transaction(
+        async (manager) => {
+          const planetsRepository: Repository<Planet> =
+            manager.getRepository(Planet)
+          const planet: Planet = await planetsRepository.findOne({
+            where: { id: planetId },
+          })
+          if (!planet) {
+            throw new NotFoundException(`Planet with id ${planetId} not found`)
+          }
+          // Check if the name is being updated to the name of another planet
           if (updatePlanetDto.name) {
-            // Search for an existing planet with the new name
-            const existingPlanet = await this.planetsRepository.findOne({
+            const existingPlanet: Planet = await planetsRepository.findOne({
               where: {
                 name: updatePlanetDto.name,
               },
             })
-
-            // If a planet with this name exists and it's not the same planet we're updating
             if (existingPlanet && existingPlanet.id !== planet.id) {
-              console.error(`Planet '${updatePlanetDto.name}' already exists!`)
-              return null
+              throw new ConflictException(
+                `Planet '${updatePlanetDto.name}' already exists`,
+              )
             }
           }
-          planet[key] = updatePlanetDto[key]
-        }
-      }
-      // Update the 'edited' field
-      planet.edited = new Date()
-      // Populate related entities in the planet
-      await this.fillRelatedEntities(planet, updatePlanetDto)
-      return this.planetsRepository.save(planet)
+          // Update the planet properties and the 'edited' field
+          Object.assign(
+            planet,
+            getColumnValues<Planet>(updatePlanetDto, this.relatedEntities),
+          )
+          planet.edited = new Date()
+          await planetsRepository.save(planet)
+          // Replace the related entities present in the DTO
+          await setRelatedEntities(
+            manager,
+            Planet,
+            planet.id,
+            updatePlanetDto,
+            this.relatedEntities,
+          )
+          // Fetch the updated planet to reflect all changes
+          const updatedPlanet: Planet = await planetsRepository.findOne({
+            where: { id: planet.id },
+            relations: this.relatedEntities,
+          })
+          return serializeResource(updatedPlanet, 'planets')
+        },
+      )
     } catch (error) {
       throw getResponceOfException(error)
     }
@@ -205,90 +290,84 @@ export class PlanetsService {
    *
    * This method deletes a planet entity from the database based on the provided ID.
    * It first retrieves the planet using the `findOne` method. If the planet is not found,
-   * it throws an `HttpException` with a "Not Found" status code. Otherwise, it uses the
+   * it throws a `NotFoundException`. Otherwise, it uses the
    * `planetsRepository` to remove the planet from the database.
    *
    * @param planetId (number) The ID of the planet to remove.
    * @throws HttpException Throws an exception if the planet is not found or an error occurs during removal.
    */
   async remove(planetId: number): Promise<Planet> {
-    const planet: Planet = await this.findOne(planetId)
+    const planet: Planet = await this.planetsRepository.findOne({
+      where: { id: planetId },
+    })
+    if (!planet) {
+      throw new NotFoundException(`Planet with id ${planetId} not found`)
+    }
     return await this.planetsRepository.remove(planet)
   }
 
   /**
-   * Fills related entities for a planet.
+   * Creates several planets in a single transaction
    *
-   * This method populates the related entities for a given planet by fetching the related entities from the database
-   * and inserting the relationships into the appropriate table. If any related entity is not found, it is ignored.
+   * Every item is validated against `CreatePlanetDto` and created with `create`. The report tells for every item
+   * whether it was created, skipped as a duplicate name or failed; failed items are rolled back alone.
    *
-   * @param planet - The planet entity to which related entities are to be added.
-   * @param planetDto - The DTO containing data for creating or updating the planet.
-   * @throws An error if the operation fails.
+   * @param items The request body, an array of `CreatePlanetDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
    */
-  private async fillRelatedEntities(
-    planet: Planet,
-    planetDto: CreatePlanetDto | UpdatePlanetDto,
-  ): Promise<void> {
-    let tableName: string
-    let firstParameter: string
-    try {
-      for (const key of this.relatedEntities) {
-        if (planetDto[key]) {
-          const entities = await Promise.all(
-            planetDto[key].map(async (url: string) => {
-              const repository = this.getRepositoryByKey(key)
-              const entity = await repository.findOne({ where: { url } })
-              return entity
-            }),
-          )
-
-          // Filter out any null values (entities that weren't found)
-          const validEntities = entities.filter((obj: null) => obj !== null)
-
-          // Filling in the planet property
-          planet[key] = validEntities
+  async bulkCreate(items: unknown): Promise<BulkReport> {
+    return runBulkCreate(
+      this.planetsRepository.manager,
+      items,
+      CreatePlanetDto,
+      (createDto, manager) => this.withManager(manager).create(createDto),
+    )
+  }
 
-          // Use raw query to insert relations, ignoring duplicates
-          if (validEntities.length > 0) {
-            tableName =
-              key === 'residents' ? `people_planets` : `${key}_planets`
-            firstParameter = key === 'residents' ? `peopleId` : `${key}Id`
+  /**
+   * Updates several planets in a single transaction
+   *
+   * Every item is an `UpdatePlanetDto` with the `id` of the resource to update, and is applied with `update`.
+   *
+   * @param items The request body, an array of `UpdatePlanetDto` objects with an `id`
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkUpdate(items: unknown): Promise<BulkReport> {
+    return runBulkUpdate(
+      this.planetsRepository.manager,
+      Planet,
+      items,
+      UpdatePlanetDto,
+      (id, updateDto, manager) =>
+        this.withManager(manager).update(id, updateDto),
+    )
+  }
 
-            const values = validEntities
-              .map((entity: { id: number }) => `(${entity.id}, ${planet.id})`)
-              .join(',')
-            await this.planetsRepository.query(
-              `INSERT IGNORE INTO ${tableName} (${firstParameter}, planetsId) VALUES ${values}`,
-            )
-          }
-        }
-      }
-    } catch (error) {
-      throw getResponceOfException(error)
-    }
+  /**
+   * Deletes several planets in a single transaction
+   *
+   * @param ids The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkRemove(ids: number[]): Promise<BulkReport> {
+    return runBulkRemove(
+      this.planetsRepository.manager,
+      Planet,
+      ids,
+      (id, manager) => this.withManager(manager).remove(id),
+    )
   }
 
   /**
-   * Retrieves the appropriate repository based on the given key.
+   * Returns a copy of this service whose repositories use the given entity manager
    *
-   * This private helper method returns the correct TypeORM repository
-   * based on the provided key. The key is expected to be one of the
-   * related entity types (e.g., 'films', 'starships', 'species', 'vehicles',
-   * 'homeworld'). If the key does not match any of these, an error is thrown.
+   * The bulk operations use it so that every query of `create`, `update` and `remove` runs inside
+   * the transaction of the batch.
    *
-   * @param key The key representing the type of related entity
-   * @returns The corresponding TypeORM repository for the given key
-   * @throws Error if no repository is found for the given key
+   * @param manager The transactional entity manager
+   * @returns A `PlanetsService` bound to the transaction
    */
-  private getRepositoryByKey(key: string): Repository<any> {
-    switch (key) {
-      case 'residents':
-        return this.peopleRepository
-      case 'films':
-        return this.filmsRepository
-      default:
-        throw new Error(`No repository found for key: ${key}`)
-    }
+  private withManager(manager: EntityManager): PlanetsService {
+    return new PlanetsService(manager.getRepository(Planet))
   }
 }
@@ -0,0 +1,40 @@
+import { Controller, DefaultValuePipe, Get, Query } from '@nestjs/common'
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger'
+import { limitCount } from 'src/shared/constants'
+import { Public } from 'src/auth/decorators/public.decorator'
+import { SearchResults, SearchService } from './search.service'
+
+/**
+ * SearchController: Handles the cross-resource search requests
+ *
+ * This controller exposes a single read-only endpoint that searches people, films, planets,
+ * species, starships and vehicles at once, using the `SearchService`. It is public.
+ */
+@Public()
+@ApiTags('search')
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  /**
+   * Searches all resources (GET /search?q=...)
+   *
+   * This method returns the resources matching the `q` query parameter, ranked by relevance
+   * and grouped by resource name. The number of hits per resource is limited by `limit`.
+   *
+   * @param q (string) The text to search for.
+   * @param limit (number) The maximum number of hits per resource (optional, defaults to limitCount)
+   * @returns Promise<SearchResults> The ranked hits grouped by resource.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Search across all the resources' })
+  @ApiQuery({ name: 'q', required: true })
+  @ApiQuery({ name: 'limit', required: false })
+  async search(
+    @Query('q') q: string,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+  ): Promise<SearchResults> {
+    if (limit > limitCount) limit = limitCount
+    return this.searchService.search(q, Number(limit))
+  }
+}
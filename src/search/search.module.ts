@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common'
+import { SearchController } from './search.controller'
+import { SearchService } from './search.service'
+
+/**
+ * SearchModule
+ *
+ * This module provides the cross-resource free-text search (`GET /search`).
+ * It declares the `SearchController` which handles the search requests, and the
+ * `SearchService` which queries the FULLTEXT indexes of every searchable resource
+ * through the application's data source.
+ */
+@Module({
+  controllers: [SearchController],
+  providers: [SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { BadRequestException } from '@nestjs/common'
+import { getDataSourceToken } from '@nestjs/typeorm'
+import { SearchService } from './search.service'
+import { entityClassesForFill } from 'src/shared/constants'
+
+/**
+ * Unit test suite for SearchService.
+ * The data source is mocked: every resource is queried through the same mocked query builder.
+ */
+describe('SearchService', () => {
+  let service: SearchService
+  let queryBuilder: Record<string, jest.Mock>
+  let dataSource: Record<string, jest.Mock>
+
+  beforeEach(async () => {
+    queryBuilder = {
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getRawAndEntities: jest.fn().mockResolvedValue({ entities: [], raw: [] }),
+    }
+    dataSource = {
+      getRepository: jest.fn(() => ({
+        createQueryBuilder: jest.fn(() => queryBuilder),
+      })),
+    }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        { provide: getDataSourceToken(), useValue: dataSource },
+      ],
+    }).compile()
+
+    service = module.get<SearchService>(SearchService)
+  })
+
+  /**
+   * Returns the search term every resource was queried with
+   *
+   * @returns The distinct `searchTerm` parameters of the queries
+   */
+  const getSearchTerms = (): string[] => [
+    ...new Set(
+      queryBuilder.where.mock.calls.map(([, { searchTerm }]) => searchTerm),
+    ),
+  ]
+
+  it('should group the hits by resource, with their scores as numbers', async () => {
+    const luke = { id: 1, name: 'Luke Skywalker' }
+    const lars = { id: 2, name: 'Owen Lars' }
+    queryBuilder.getRawAndEntities
+      .mockResolvedValueOnce({
+        entities: [luke, lars],
+        raw: [{ score: '2.5' }, { score: '0.75' }],
+      })
+      .mockResolvedValue({ entities: [], raw: [] })
+
+    await expect(service.search('luke', 5)).resolves.toEqual({
+      people: [
+        { score: 2.5, resource: luke },
+        { score: 0.75, resource: lars },
+      ],
+      films: [],
+      planets: [],
+      species: [],
+      starships: [],
+      vehicles: [],
+    })
+  })
+
+  it('should query every resource by descending score, up to the limit', async () => {
+    await service.search('luke', 5)
+
+    for (const entityClass of Object.values(entityClassesForFill)) {
+      expect(dataSource.getRepository).toHaveBeenCalledWith(entityClass)
+    }
+    expect(queryBuilder.where).toHaveBeenCalledWith(
+      'MATCH (starships.name, starships.model) AGAINST (:searchTerm IN BOOLEAN MODE)',
+      { searchTerm: '+luke*' },
+    )
+    expect(queryBuilder.orderBy).toHaveBeenCalledWith('score', 'DESC')
+    expect(queryBuilder.limit).toHaveBeenCalledWith(5)
+  })
+
+  it('should match every word as a prefix, with the operators and wildcards of the query removed', async () => {
+    await service.search('"luke*" -sky+walker (~x-wing) <@>', 5)
+
+    expect(getSearchTerms()).toEqual(['+luke* +sky* +walker* +x* +wing*'])
+  })
+
+  it('should pass the LIKE wildcards as text, which the full-text search does not interpret', async () => {
+    await service.search('50% R2_D2', 5)
+
+    expect(getSearchTerms()).toEqual(['+50%* +R2_D2*'])
+  })
+
+  it.each([undefined, '', '   ', '*+-"()'])(
+    'should refuse the query %p, which has no word to search',
+    async (q) => {
+      await expect(service.search(q, 5)).rejects.toThrow(
+        new BadRequestException(`Query parameter 'q' must not be empty`),
+      )
+      expect(dataSource.getRepository).not.toHaveBeenCalled()
+    },
+  )
+})
@@ -0,0 +1,100 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { InjectDataSource } from '@nestjs/typeorm'
+import { DataSource, Repository } from 'typeorm'
+import {
+  Entity,
+  SearchableResource,
+  entityClassesForFill,
+  searchFieldsMap,
+} from 'src/shared/constants'
+import {
+  fulltextMatchExpression,
+  toFulltextSearchTerm,
+} from 'src/shared/query-filter'
+
+/**
+ * Interface for a single search hit
+ *
+ * This interface `SearchHit` describes one matching resource together with its relevance score,
+ * as computed by MySQL `MATCH ... AGAINST` (a higher score means a better match).
+ */
+export interface SearchHit<T = Entity> {
+  score: number
+  resource: T
+}
+
+/**
+ * Type alias for the response of the cross-resource search
+ *
+ * Hits are grouped by resource name (people, films, planets, species, starships, vehicles),
+ * each group being sorted by descending score.
+ */
+export type SearchResults = Record<SearchableResource, SearchHit[]>
+
+/**
+ * SearchService: Provides free-text search across all SWAPI resources
+ *
+ * This service runs a MySQL FULLTEXT query against every resource listed in `searchFieldsMap`
+ * and returns the ranked hits grouped by resource. The FULLTEXT indexes it relies on are created
+ * by the `AddFulltextIndexes` migration.
+ */
+@Injectable()
+export class SearchService {
+  constructor(@InjectDataSource() private readonly dataSource: DataSource) {}
+
+  /**
+   * Searches all resources for the given text
+   *
+   * @param q (string) The text to search for; every word is matched as a prefix.
+   * @param limit (number) The maximum number of hits returned per resource.
+   * @returns Promise<SearchResults> The ranked hits grouped by resource.
+   * @throws BadRequestException if `q` contains no searchable words.
+   */
+  async search(q: string, limit: number): Promise<SearchResults> {
+    const searchTerm: string | null = q ? toFulltextSearchTerm(q) : null
+    if (!searchTerm) {
+      throw new BadRequestException(`Query parameter 'q' must not be empty`)
+    }
+    const resources = Object.keys(searchFieldsMap) as SearchableResource[]
+    const hits: SearchHit[][] = await Promise.all(
+      resources.map((resource) =>
+        this.searchResource(resource, searchTerm, limit),
+      ),
+    )
+    return resources.reduce((results, resource, index) => {
+      results[resource] = hits[index]
+      return results
+    }, {} as SearchResults)
+  }
+
+  /**
+   * Searches a single resource through its FULLTEXT index
+   *
+   * @param resource (SearchableResource) The name of the resource to search.
+   * @param searchTerm (string) The MySQL boolean-mode search term.
+   * @param limit (number) The maximum number of hits to return.
+   * @returns Promise<SearchHit[]> The hits sorted by descending score.
+   */
+  private async searchResource(
+    resource: SearchableResource,
+    searchTerm: string,
+    limit: number,
+  ): Promise<SearchHit[]> {
+    // The entity class is looked up by name, so the repository is typed with all of them
+    const repository: Repository<
+      InstanceType<(typeof entityClassesForFill)[SearchableResource]>
+    > = this.dataSource.getRepository(entityClassesForFill[resource])
+    const matchExpression: string = `${fulltextMatchExpression(resource, searchFieldsMap[resource])} AGAINST (:searchTerm IN BOOLEAN MODE)`
+    const { entities, raw } = await repository
+      .createQueryBuilder(resource)
+      .addSelect(matchExpression, 'score')
+      .where(matchExpression, { searchTerm })
+      .orderBy('score', 'DESC')
+      .limit(limit)
+      .getRawAndEntities()
+    return entities.map((entity, index) => ({
+      score: Number(raw[index].score),
+      resource: entity,
+    }))
+  }
+}
@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { Controller, Get, INestApplication } from '@nestjs/common'
+import * as request from 'supertest'
+import { localUrl } from './constants'
+import { TransformInterceptor } from './Transform.interceptor'
+import { swapiPrefixMiddleware } from './swapi-compatibility'
+import {
+  ResponseFormatInterceptor,
+  toWookiee,
+  translateToWookiee,
+} from './ResponseFormat.interceptor'
+
+/**
+ * Routes of the tests
+ */
+@Controller('people')
+class TestController {
+  @Get(':id')
+  findOne() {
+    return {
+      id: 1,
+      name: 'Luke',
+      height: 172,
+      films: [`${localUrl}films/1/`],
+      homeworld: { name: 'Tatooine', url: `${localUrl}planets/1/` },
+    }
+  }
+}
+
+/**
+ * Unit test suite for the wookiee encoding.
+ */
+describe('translateToWookiee', () => {
+  it('should transliterate the lowercase letters', () => {
+    expect(translateToWookiee('abcdefghijklm')).toBe(
+      'rarhoawawowwrracahshoransc',
+    )
+    expect(translateToWookiee('nopqrstuvwxyz')).toBe('whooakrqrccaohuhoohkrouf')
+  })
+
+  it('should keep the other characters', () => {
+    expect(translateToWookiee('Luke Skywalker, 19BBY')).toBe(
+      'Lhuorwo Sorroohraanorworc, 19BBY',
+    )
+    expect(translateToWookiee('')).toBe('')
+  })
+
+  it('should transliterate the URLs, punctuation kept', () => {
+    expect(translateToWookiee('https://swapi.dev/api/people/1/')).toBe(
+      'acaoaoakc://cohraakah.wawoho/raakah/akwoooakanwo/1/',
+    )
+  })
+})
+
+/**
+ * Unit test suite for `toWookiee`.
+ */
+describe('toWookiee', () => {
+  it('should encode the keys and string values of the nested objects and arrays', () => {
+    expect(
+      toWookiee({
+        data: {
+          name: 'Luke',
+          films: ['a new hope'],
+          homeworld: { name: 'Tatooine' },
+        },
+      }),
+    ).toEqual({
+      waraaora: {
+        whrascwo: 'Lhuorwo',
+        wwahanscc: ['ra whwooh acooakwo'],
+        acooscwoohoorcanwa: { whrascwo: 'Traaoooooahwhwo' },
+      },
+    })
+  })
+
+  it('should keep the numbers, booleans and null values', () => {
+    expect(toWookiee({ count: 82, next: null, ok: true })).toEqual({
+      oaoohuwhao: 82,
+      whwokao: null,
+      ooor: true,
+    })
+    expect(toWookiee(7)).toBe(7)
+    expect(toWookiee(null)).toBeNull()
+  })
+
+  it('should encode the dates from their ISO representation', () => {
+    expect(
+      toWookiee({ created: new Date('2014-12-09T13:50:51.644Z') }),
+    ).toEqual({ oarcworaaowowa: '2014-12-09T13:50:51.644Z' })
+  })
+})
+
+/**
+ * Unit test suite for ResponseFormatInterceptor.
+ * The routes are served by an HTTP server with the interceptors and middleware registered as in
+ * `main.ts`.
+ */
+describe('ResponseFormatInterceptor', () => {
+  let app: INestApplication
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TestController],
+    }).compile()
+
+    app = module.createNestApplication()
+    app.use(swapiPrefixMiddleware)
+    app.useGlobalInterceptors(
+      new ResponseFormatInterceptor(),
+      new TransformInterceptor(),
+    )
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  it('should send JSON by default', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/people/1')
+      .expect(200)
+
+    expect(response.body.data.name).toBe('Luke')
+  })
+
+  it('should encode the whole response, data wrapper included', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/people/1?format=wookiee')
+      .expect(200)
+
+    expect(response.body).toEqual({
+      waraaora: {
+        ahwa: 1,
+        whrascwo: 'Lhuorwo',
+        acwoahrracao: 172,
+        wwahanscc: [translateToWookiee(`${localUrl}films/1/`)],
+        acooscwoohoorcanwa: {
+          whrascwo: 'Traaoooooahwhwo',
+          hurcan: translateToWookiee(`${localUrl}planets/1/`),
+        },
+      },
+    })
+  })
+
+  it('should ignore the case of the format', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/people/1?format=Wookiee')
+      .expect(200)
+
+    expect(response.body).toHaveProperty('waraaora')
+  })
+
+  it('should encode the SWAPI response, its rewritten URLs included', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/swapi/people/1/?format=wookiee')
+      .expect(200)
+
+    expect(response.body).toEqual({
+      whrascwo: 'Lhuorwo',
+      acwoahrracao: 172,
+      wwahanscc: [translateToWookiee(`${localUrl}swapi/films/1/`)],
+      acooscwoohoorcanwa: {
+        whrascwo: 'Traaoooooahwhwo',
+        hurcan: translateToWookiee(`${localUrl}swapi/planets/1/`),
+      },
+    })
+  })
+
+  it('should refuse an unknown format', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/people/1?format=xml')
+      .expect(400)
+
+    expect(response.body.message).toBe(
+      "Unknown format 'xml'. Allowed formats: json, wookiee",
+    )
+  })
+})
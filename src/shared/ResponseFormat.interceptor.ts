@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common'
+import { Request } from 'express'
+import { Observable, map } from 'rxjs'
+
+/**
+ * Character mapping of the SWAPI "wookiee" encoding
+ *
+ * Every lowercase latin letter is replaced by its wookiee transliteration, exactly as swapi.dev does for
+ * `?format=wookiee`. Any other character (uppercase letters, digits, punctuation) is kept as is.
+ */
+export const wookieeCharacterMap: Record<string, string> = {
+  a: 'ra',
+  b: 'rh',
+  c: 'oa',
+  d: 'wa',
+  e: 'wo',
+  f: 'ww',
+  g: 'rr',
+  h: 'ac',
+  i: 'ah',
+  j: 'sh',
+  k: 'or',
+  l: 'an',
+  m: 'sc',
+  n: 'wh',
+  o: 'oo',
+  p: 'ak',
+  q: 'rq',
+  r: 'rc',
+  s: 'c',
+  t: 'ao',
+  u: 'hu',
+  v: 'ho',
+  w: 'oh',
+  x: 'k',
+  y: 'ro',
+  z: 'uf',
+}
+
+/**
+ * Type alias for a response formatter
+ *
+ * A formatter receives the final response body (already wrapped by `TransformInterceptor`) and returns
+ * the body to send to the client.
+ */
+export type ResponseFormatter = (body: any) => any
+
+/**
+ * Transliterates a string with the wookiee character mapping
+ *
+ * @param text (string) The text to transliterate.
+ * @returns string The wookiee text.
+ */
+export function translateToWookiee(text: string): string {
+  return Array.from(text)
+    .map((char) => wookieeCharacterMap[char] ?? char)
+    .join('')
+}
+
+/**
+ * Recursively encodes a response body in wookiee
+ *
+ * All object keys and string values are transliterated; numbers, booleans and `null` are kept, so that
+ * the response stays valid JSON. Dates are transliterated from their ISO string representation.
+ *
+ * @param body (any) The response body to encode.
+ * @returns any The wookiee-encoded body.
+ */
+export function toWookiee(body: any): any {
+  if (typeof body === 'string') return translateToWookiee(body)
+  if (body instanceof Date) return translateToWookiee(body.toISOString())
+  if (Array.isArray(body)) return body.map(toWookiee)
+  if (body && typeof body === 'object') {
+    const result: Record<string, any> = {}
+    for (const [key, value] of Object.entries(body)) {
+      result[translateToWookiee(key)] = toWookiee(value)
+    }
+    return result
+  }
+  return body
+}
+
+/**
+ * Available response formats, selected with the `format` query parameter
+ */
+export const responseFormatters: Record<string, ResponseFormatter> = {
+  json: (body) => body,
+  wookiee: toWookiee,
+}
+
+/**
+ * Interceptor applying the response format requested with `?format=`
+ *
+ * This interceptor selects a formatter from `responseFormatters` according to the `format` query parameter
+ * (`json` by default) and applies it to the response body. It is meant to be registered before
+ * `TransformInterceptor` with `useGlobalInterceptors()`, so that it runs after it on the way out and formats
+ * the complete response, including the `data` wrapper or the paginated envelope.
+ */
+@Injectable()
+export class ResponseFormatInterceptor implements NestInterceptor {
+  /**
+   * Intercepts controller execution and formats the response
+   *
+   * @param context (ExecutionContext) The execution context of the intercepted request.
+   * @param next (CallHandler) The next handler in the interceptor chain.
+   * @returns Observable<any> An observable that emits the formatted response.
+   * @throws BadRequestException if the requested format is not supported.
+   */
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    // GraphQL responses are shaped by the schema and cannot be re-encoded
+    if (context.getType() !== 'http') return next.handle()
+    const request: Request = context.switchToHttp().getRequest()
+    const format: string = String(request.query.format ?? 'json').toLowerCase()
+    const formatter: ResponseFormatter = responseFormatters[format]
+    if (!formatter) {
+      throw new BadRequestException(
+        `Unknown format '${format}'. Allowed formats: ${Object.keys(responseFormatters).join(', ')}`,
+      )
+    }
+    return next.handle().pipe(map((body) => formatter(body)))
+  }
+}
@@ -5,6 +5,8 @@ import {
   NestInterceptor,
 } from '@nestjs/common'
 import { Observable, map } from 'rxjs'
+import { Request, Response as ExpressResponse } from 'express'
+import { isSwapiMode, toSwapiResponse } from './swapi-compatibility'
 
 /**
  * Interface defining the structure of a response object
@@ -48,6 +50,9 @@ export class TransformInterceptor<T>
    * It takes the execution context (`context`) and the next handler (`next`) as arguments.
    * The `next.handle()` call invokes the controller handler and returns an observable representing the controller's response.
    * The interceptor then uses the `pipe` method on the observable to apply transformations using the `map` operator.
+   * In SWAPI-compatible mode (`/swapi` route prefix or `X-Response-Mode: swapi` header) the response is not wrapped,
+   * but converted into the exact shape returned by swapi.dev instead. GraphQL responses are left untouched, since
+   * their shape is defined by the schema.
    *
    * @param context (ExecutionContext) The execution context of the intercepted request.
    * @param next (CallHandler) The next handler in the interceptor chain.
@@ -57,8 +62,15 @@ export class TransformInterceptor<T>
     context: ExecutionContext,
     next: CallHandler,
   ): Observable<ResponseOrString<T>> {
+    if (context.getType() !== 'http') return next.handle()
+    const request: Request = context.switchToHttp().getRequest()
+    const response: ExpressResponse = context.switchToHttp().getResponse()
     return next.handle().pipe(
       map((element) => {
+        // Return the response as is shaped by SWAPI (no data wrapper)
+        if (isSwapiMode(request)) {
+          return toSwapiResponse(element, request, response)
+        }
         // Check if the element is a string and return it directly (no transformation)
         if (typeof element === 'string') {
           return element
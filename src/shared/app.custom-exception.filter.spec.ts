@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import {
+  BadRequestException,
+  Controller,
+  INestApplication,
+  Logger,
+  Post,
+} from '@nestjs/common'
+import * as request from 'supertest'
+import {
+  CustomExceptionFilter,
+  redactSecrets,
+  redactUrl,
+  redacted,
+} from './app.custom-exception.filter'
+
+/**
+ * Routes of the tests
+ */
+@Controller('auth')
+class TestController {
+  @Post('reset-password')
+  resetPassword() {
+    throw new BadRequestException('Invalid or expired token')
+  }
+}
+
+/**
+ * Unit test suite for the redaction of the secrets of the logged requests.
+ */
+describe('redactSecrets', () => {
+  it('should redact the credential headers', () => {
+    expect(
+      redactSecrets({
+        authorization: 'Bearer eyJhbGciOi',
+        'x-api-key': 'swapi_1234',
+        cookie: 'session=1',
+        'content-type': 'application/json',
+      }),
+    ).toEqual({
+      authorization: redacted,
+      'x-api-key': redacted,
+      cookie: redacted,
+      'content-type': 'application/json',
+    })
+  })
+
+  it('should redact the passwords, tokens and codes of nested bodies', () => {
+    expect(
+      redactSecrets({
+        userName: 'luke',
+        password: 'secret-1',
+        newPassword: 'secret-2',
+        refresh_token: 'abc',
+        challenge_token: 'def',
+        code: '123456',
+        items: [{ name: 'ok', token: 'ghi' }],
+      }),
+    ).toEqual({
+      userName: 'luke',
+      password: redacted,
+      newPassword: redacted,
+      refresh_token: redacted,
+      challenge_token: redacted,
+      code: redacted,
+      items: [{ name: 'ok', token: redacted }],
+    })
+  })
+
+  it('should keep the other values', () => {
+    expect(redactSecrets(undefined)).toBeUndefined()
+    expect(redactSecrets('luke')).toBe('luke')
+  })
+})
+
+/**
+ * Unit test suite for the redaction of the secret query parameters of the logged URLs.
+ */
+describe('redactUrl', () => {
+  it('should redact the secret query parameters only', () => {
+    expect(redactUrl('/auth/verify-email?token=abc&lang=en')).toBe(
+      `/auth/verify-email?token=${redacted}&lang=en`,
+    )
+    expect(redactUrl('/people?page=2&search=sky')).toBe(
+      '/people?page=2&search=sky',
+    )
+  })
+})
+
+/**
+ * Unit test suite for CustomExceptionFilter.
+ */
+describe('CustomExceptionFilter', () => {
+  let app: INestApplication
+  let logs: string[]
+
+  beforeEach(async () => {
+    logs = []
+    const record = (...messages: unknown[]) => {
+      logs.push(messages.join(' '))
+    }
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(record)
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(record)
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TestController],
+    }).compile()
+
+    app = module.createNestApplication({ logger: false })
+    app.useGlobalFilters(new CustomExceptionFilter())
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+    jest.restoreAllMocks()
+  })
+
+  it('should return the problem details and log the request without its secrets', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/reset-password?token=query-secret')
+      .set('Authorization', 'Bearer header-secret')
+      .set('X-API-Key', 'key-secret')
+      .send({ token: 'body-secret', newPassword: 'password-secret' })
+      .expect(400)
+
+    expect(response.body).toMatchObject({
+      status: 400,
+      detail: 'Invalid or expired token',
+    })
+    const log: string = logs.join('\n')
+    expect(log).toContain('POST /auth/reset-password?token=[REDACTED]')
+    expect(log).toContain('Request body:')
+    for (const secret of [
+      'query-secret',
+      'header-secret',
+      'key-secret',
+      'body-secret',
+      'password-secret',
+    ]) {
+      expect(log).not.toContain(secret)
+    }
+  })
+})
@@ -7,13 +7,67 @@ import {
   Logger,
 } from '@nestjs/common'
 import { Request, Response } from 'express'
-import { ErrorResponse } from './constants'
+import { STATUS_CODES } from 'http'
+import { GqlContextType } from '@nestjs/graphql'
+import { ProblemDetails, problemJsonContentType } from './problem-details'
+
+/**
+ * Replacement of the secrets in the logs
+ */
+export const redacted = '[REDACTED]'
+
+/**
+ * Names of the headers, body fields and query parameters whose values are secrets: credentials
+ * (`Authorization`, `X-API-Key`, cookies), passwords, refresh, reset, verification and challenge
+ * tokens, TOTP and recovery codes
+ */
+const secretNamePattern = /authorization|cookie|key|password|secret|token|code/i
+
+/**
+ * Replaces the secrets of a request header, body or query with `[REDACTED]`, in nested objects
+ * and arrays too
+ *
+ * @param value The headers, body or query of a request
+ * @returns A copy of the value whose secret fields are redacted
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, field]) => [
+        name,
+        secretNamePattern.test(name) ? redacted : redactSecrets(field),
+      ]),
+    )
+  }
+  return value
+}
+
+/**
+ * Replaces the secrets of the query string of a URL (e.g. the token of an email verification
+ * link) with `[REDACTED]`
+ *
+ * @param url The URL of a request
+ * @returns The URL whose secret query parameters are redacted
+ */
+export function redactUrl(url: string): string {
+  return url.replace(
+    /([?&])([^=&#]*)=([^&#]*)/g,
+    (parameter: string, separator: string, name: string) =>
+      secretNamePattern.test(name)
+        ? `${separator}${name}=${redacted}`
+        : parameter,
+  )
+}
 
 /**
  * Custom Exception Filter for handling application exceptions
  *
  * This class implements the `ExceptionFilter` interface and acts as a central handler for application exceptions.
  * It's decorated with `@Catch()` to catch all exceptions (`Catch()`) thrown throughout the application.
+ * Errors are returned as RFC 7807 `application/problem+json` bodies (see `ProblemDetails`).
  */
 @Catch()
 export class CustomExceptionFilter implements ExceptionFilter {
@@ -25,29 +79,38 @@ export class CustomExceptionFilter implements ExceptionFilter {
    * This method implements the `catch` method of the `ExceptionFilter` interface. It takes an `exception` object
    * and an `ArgumentsHost` object as arguments. The `ArgumentsHost` provides access to the current HTTP context.
    *
+   * Exceptions raised in GraphQL resolvers are returned as is, so that they are reported in the GraphQL response.
+   *
    * @param exception (Error) The exception object thrown during request processing.
    * @param host (ArgumentsHost) The arguments host object providing access to the HTTP context.
    */
   catch(exception: Error, host: ArgumentsHost) {
+    // GraphQL errors are reported by Apollo in the 'errors' array of the response
+    if (host.getType<GqlContextType>() === 'graphql') {
+      return exception
+    }
     const ctx = host.switchToHttp()
     const response = ctx.getResponse<Response>()
     const request = ctx.getRequest<Request>()
 
     const statusCode = this.getStatus(exception)
-    const message = this.getMessage(exception)
+    const errors = this.getValidationErrors(exception)
 
-    const errorResponse: ErrorResponse = {
-      statusCode,
+    const problem: ProblemDetails = {
+      type: 'about:blank',
+      title: STATUS_CODES[statusCode] ?? 'Error',
+      status: statusCode,
+      detail: errors ? errors.join('; ') : this.getMessage(exception),
+      instance: request.url,
       timestamp: new Date().toISOString(),
-      path: request.url,
       method: request.method,
       errorName: exception.name,
-      message,
+      ...(errors && { errors }),
     }
 
-    this.logError(exception, request, errorResponse)
+    this.logError(exception, request, problem)
 
-    response.status(statusCode).json(errorResponse)
+    response.status(statusCode).type(problemJsonContentType).json(problem)
   }
 
   private getStatus(exception: Error): number {
@@ -62,35 +125,58 @@ export class CustomExceptionFilter implements ExceptionFilter {
       : 'An unexpected error occurred'
   }
 
+  /**
+   * Returns the individual messages of a validation error (e.g. from the `ValidationPipe`), if any
+   */
+  private getValidationErrors(exception: Error): string[] | undefined {
+    if (!(exception instanceof HttpException)) return undefined
+    const body = exception.getResponse()
+    const message: unknown = typeof body === 'object' && body['message']
+    return Array.isArray(message) ? message.map(String) : undefined
+  }
+
+  /**
+   * Logs an exception along with its request
+   *
+   * The credentials, passwords, tokens and codes of the request are redacted (see `redactSecrets`).
+   */
   private logError(
     exception: Error,
     request: Request,
-    errorResponse: ErrorResponse,
+    problem: ProblemDetails,
   ) {
+    const url: string = redactUrl(request.url)
     this.logger.error(
-      `Error occurred during request: ${request.method} ${request.url}`,
+      `Error occurred during request: ${request.method} ${url}`,
       exception.stack,
     )
 
-    this.logger.log('Request headers: ' + JSON.stringify(request.headers))
+    this.logger.log(
+      'Request headers: ' + JSON.stringify(redactSecrets(request.headers)),
+    )
     if (request.body && Object.keys(request.body).length) {
-      this.logger.log('Request body: ' + JSON.stringify(request.body))
+      this.logger.log(
+        'Request body: ' + JSON.stringify(redactSecrets(request.body)),
+      )
     }
     if (request.query && Object.keys(request.query).length) {
-      this.logger.log('Request query: ' + JSON.stringify(request.query))
+      this.logger.log(
+        'Request query: ' + JSON.stringify(redactSecrets(request.query)),
+      )
     }
+    const loggedProblem: string = JSON.stringify({ ...problem, instance: url })
 
     if (exception instanceof HttpException) {
       this.logger.error(
         `HttpException: ${exception.getResponse()}`,
         exception.stack,
-        JSON.stringify(errorResponse),
+        loggedProblem,
       )
     } else {
       this.logger.error(
         `Exception: ${exception.message}`,
         exception.stack,
-        JSON.stringify(errorResponse),
+        loggedProblem,
       )
     }
   }
@@ -0,0 +1,277 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Type,
+} from '@nestjs/common'
+import { plainToInstance } from 'class-transformer'
+import { ValidationError, validate } from 'class-validator'
+import { EntityManager } from 'typeorm'
+
+/**
+ * Maximum number of items accepted by a bulk request
+ */
+export const maxBulkItems: number = 100
+
+/**
+ * Outcome of a single item of a bulk request
+ *
+ * - `created`/`updated`/`deleted`: The operation succeeded.
+ * - `skipped`: The item was ignored because another resource already has the same name.
+ * - `failed`: The item was rejected (validation error, unknown ID or database error) and rolled back.
+ */
+export type BulkItemStatus =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'skipped'
+  | 'failed'
+
+/**
+ * Interface for the result of a single item of a bulk request
+ *
+ * - `index`: The position of the item in the request.
+ * - `status`: The outcome of the item.
+ * - `id`/`url`: The ID and URL of the affected resource, when known.
+ * - `errors`: The reasons why the item was skipped or failed.
+ */
+export interface BulkItemResult {
+  index: number
+  status: BulkItemStatus
+  id?: number
+  url?: string
+  errors?: string[]
+}
+
+/**
+ * Interface for the report returned by the bulk endpoints
+ *
+ * `summary` counts the items per status and `results` lists the outcome of every item, in request order.
+ */
+export interface BulkReport {
+  summary: Partial<Record<BulkItemStatus, number>>
+  results: BulkItemResult[]
+}
+
+/**
+ * Type alias for the function applying one item of a bulk request
+ *
+ * The function receives the entity manager of the item, which must be used for every query so that the
+ * item runs inside the transaction of the batch.
+ */
+type BulkItemHandler<I> = (
+  item: I,
+  manager: EntityManager,
+) => Promise<Omit<BulkItemResult, 'index'>>
+
+/**
+ * Creates a batch of resources in a single transaction
+ *
+ * Every item is validated against the create DTO (the same rules as `POST /<resource>/create`) and then
+ * passed to `create`. An item whose `create` fails with a 409 conflict is reported as a duplicate name.
+ *
+ * @param manager (EntityManager) The entity manager of the resource repository.
+ * @param items (unknown) The request body, expected to be an array of create DTOs.
+ * @param dto (Type<D>) The create DTO class of the resource.
+ * @param create ((dto: D, manager: EntityManager) => Promise<{ id?: number; url?: string }>) Creates one resource.
+ * @returns Promise<BulkReport> The per-item report of the batch.
+ * @throws BadRequestException if the body is not a non-empty array of at most `maxBulkItems` items.
+ */
+export function runBulkCreate<D extends object>(
+  manager: EntityManager,
+  items: unknown,
+  dto: Type<D>,
+  create: (
+    dto: D,
+    manager: EntityManager,
+  ) => Promise<{ id?: number; url?: string }>,
+): Promise<BulkReport> {
+  return runBulkOperation(manager, items, async (item, itemManager) => {
+    const errors: string[] = await validateBulkItem(dto, item)
+    if (errors.length) return { status: 'failed', errors }
+    try {
+      const created = await create(item as D, itemManager)
+      return { status: 'created', id: created.id, url: created.url }
+    } catch (error) {
+      if (isConflict(error)) {
+        return { status: 'skipped', errors: ['duplicate name'] }
+      }
+      throw error
+    }
+  })
+}
+
+/**
+ * Updates a batch of resources in a single transaction
+ *
+ * Every item is an update DTO with the `id` of the resource to update. The DTO part is validated against
+ * the update DTO (the same rules as `PATCH /<resource>/:id`) and then passed to `update`. An item whose
+ * `update` fails with a 409 conflict is reported as a duplicate name.
+ *
+ * @param manager (EntityManager) The entity manager of the resource repository.
+ * @param entity (Type<unknown>) The entity class of the resource, used to check that the IDs exist.
+ * @param items (unknown) The request body, expected to be an array of update DTOs with an `id`.
+ * @param dto (Type<D>) The update DTO class of the resource.
+ * @param update ((id: number, dto: D, manager: EntityManager) => Promise<{ url?: string }>) Updates one resource.
+ * @returns Promise<BulkReport> The per-item report of the batch.
+ * @throws BadRequestException if the body is not a non-empty array of at most `maxBulkItems` items.
+ */
+export function runBulkUpdate<D extends object>(
+  manager: EntityManager,
+  entity: Type<unknown>,
+  items: unknown,
+  dto: Type<D>,
+  update: (
+    id: number,
+    dto: D,
+    manager: EntityManager,
+  ) => Promise<{ url?: string }>,
+): Promise<BulkReport> {
+  return runBulkOperation(manager, items, async (item, itemManager) => {
+    const { id, ...changes } = (item ?? {}) as { id?: unknown }
+    if (!Number.isInteger(id)) {
+      return { status: 'failed', errors: ['id must be an integer number'] }
+    }
+    const errors: string[] = await validateBulkItem(dto, changes)
+    if (errors.length) return { status: 'failed', id: id as number, errors }
+    if (!(await itemManager.existsBy(entity, { id }))) {
+      return { status: 'failed', id: id as number, errors: ['not found'] }
+    }
+    try {
+      const updated = await update(id as number, changes as D, itemManager)
+      return { status: 'updated', id: id as number, url: updated.url }
+    } catch (error) {
+      if (isConflict(error)) {
+        return {
+          status: 'skipped',
+          id: id as number,
+          errors: ['duplicate name'],
+        }
+      }
+      throw error
+    }
+  })
+}
+
+/**
+ * Deletes a batch of resources in a single transaction
+ *
+ * @param manager (EntityManager) The entity manager of the resource repository.
+ * @param entity (Type<unknown>) The entity class of the resource, used to check that the IDs exist.
+ * @param ids (number[]) The IDs of the resources to delete.
+ * @param remove ((id: number, manager: EntityManager) => Promise<unknown>) Deletes one resource.
+ * @returns Promise<BulkReport> The per-item report of the batch.
+ * @throws BadRequestException if `ids` is not a non-empty array of at most `maxBulkItems` items.
+ */
+export function runBulkRemove(
+  manager: EntityManager,
+  entity: Type<unknown>,
+  ids: number[],
+  remove: (id: number, manager: EntityManager) => Promise<unknown>,
+): Promise<BulkReport> {
+  return runBulkOperation<number>(manager, ids, async (id, itemManager) => {
+    if (!(await itemManager.existsBy(entity, { id }))) {
+      return { status: 'failed', id, errors: ['not found'] }
+    }
+    await remove(id, itemManager)
+    return { status: 'deleted', id }
+  })
+}
+
+/**
+ * Runs a bulk operation in a single transaction with a per-item report
+ *
+ * The whole batch runs in one transaction, and every item runs in a nested transaction (a savepoint), so
+ * that a failing item is rolled back and reported without affecting the other items of the batch.
+ *
+ * @param manager (EntityManager) The entity manager of the resource repository.
+ * @param items (unknown) The items of the batch.
+ * @param handler (BulkItemHandler<I>) Applies one item.
+ * @returns Promise<BulkReport> The per-item report of the batch.
+ * @throws BadRequestException if the items are not a non-empty array of at most `maxBulkItems` items.
+ */
+async function runBulkOperation<I>(
+  manager: EntityManager,
+  items: unknown,
+  handler: BulkItemHandler<I>,
+): Promise<BulkReport> {
+  if (!Array.isArray(items) || !items.length) {
+    throw new BadRequestException('The request body must be a non-empty array')
+  }
+  if (items.length > maxBulkItems) {
+    throw new BadRequestException(
+      `A bulk request accepts at most ${maxBulkItems} items`,
+    )
+  }
+  const results: BulkItemResult[] = await manager.transaction(
+    async (transactionManager) => {
+      const itemResults: BulkItemResult[] = []
+      for (const [index, item] of (items as I[]).entries()) {
+        try {
+          const result = await transactionManager.transaction(
+            async (itemManager) => {
+              const itemResult = await handler(item, itemManager)
+              // Roll back the savepoint of a failed item
+              if (itemResult.status === 'failed') {
+                throw new BulkItemFailure(itemResult)
+              }
+              return itemResult
+            },
+          )
+          itemResults.push({ index, ...result })
+        } catch (error) {
+          itemResults.push(
+            error instanceof BulkItemFailure
+              ? { index, ...error.result }
+              : { index, status: 'failed', errors: [error.message] },
+          )
+        }
+      }
+      return itemResults
+    },
+  )
+  const summary: BulkReport['summary'] = {}
+  for (const { status } of results) {
+    summary[status] = (summary[status] ?? 0) + 1
+  }
+  return { summary, results }
+}
+
+/**
+ * Validates one item of a bulk request against a DTO class
+ *
+ * @param dto (Type<object>) The DTO class holding the class-validator rules.
+ * @param item (unknown) The item to validate.
+ * @returns Promise<string[]> The validation error messages (empty if the item is valid).
+ */
+async function validateBulkItem(
+  dto: Type<object>,
+  item: unknown,
+): Promise<string[]> {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return ['item must be an object']
+  }
+  const errors: ValidationError[] = await validate(plainToInstance(dto, item))
+  return errors.flatMap((error) => Object.values(error.constraints ?? {}))
+}
+
+/**
+ * Checks whether an error is a 409 conflict (a resource with the same name already exists)
+ *
+ * @param error (unknown) The error thrown by a create or update.
+ * @returns boolean True if the error is an `HttpException` with the 409 status.
+ */
+function isConflict(error: unknown): boolean {
+  return (
+    error instanceof HttpException && error.getStatus() === HttpStatus.CONFLICT
+  )
+}
+
+/**
+ * Error used to roll back the savepoint of a failed bulk item while keeping its result
+ */
+class BulkItemFailure extends Error {
+  constructor(readonly result: Omit<BulkItemResult, 'index'>) {
+    super(result.errors?.join(', '))
+  }
+}
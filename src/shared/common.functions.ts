@@ -10,7 +10,7 @@ import {
 } from './constants'
 import * as bcrypt from 'bcrypt'
 import { User } from 'src/user/entities/user.entity'
-import { ConfigService } from '@nestjs/config'
+import { ImageStorage } from 'src/images/storage/image-storage'
 
 /**
  * Sets a field value for an object extending `ExtendedBaseEntity`
@@ -97,11 +97,11 @@ let cachedWorkingUrl: string | null = null
 /**
  * Gets the URL of the currently working Star Wars API endpoint.
  *
- * This function checks a list of predefined Star Wars API URLs to determine 
- * which one is currently accessible. It caches the result of the check to 
+ * This function checks a list of predefined Star Wars API URLs to determine
+ * which one is currently accessible. It caches the result of the check to
  * avoid repeated network requests.
  *
- * @returns The URL of the currently working Star Wars API endpoint, 
+ * @returns The URL of the currently working Star Wars API endpoint,
  *          or null if none of the URLs are accessible.
  */
 export async function getWorkingUrl(): Promise<string | null> {
@@ -256,42 +256,21 @@ export async function getObjectNameFromUrl(
 }
 
 /**
- * Generates a URL for an image stored in AWS S3
+ * Generates the public URL of a stored image
  *
- * This function generates a URL for an image stored in AWS S3 using the provided `fileName` and `configService`.
- * It retrieves the bucket name and AWS S3 region from the environment variables using `configService.getOrThrow<string>('VARIABLE_NAME')`.
- * Finally, it constructs the URL by combining these values with the filename and returns the complete URL.
+ * This function asks the configured `ImageStorage` driver for the URL the image file is served from:
+ * the S3 bucket, the S3-compatible server, the static route of the local storage, or the configured
+ * `IMAGE_PUBLIC_URL`.
  *
- * @param fileName (string) The name of the image file stored in AWS S3.
- * @param configService (ConfigService) The configuration service to access environment variables.
- * @returns string The generated URL for the image in AWS S3.
+ * @param fileName (string) The name of the stored image file.
+ * @param storage (ImageStorage) The image storage driver.
+ * @returns string The public URL of the image.
  */
 export function getImageStorageURL(
   fileName: string,
-  configService: ConfigService,
+  storage: ImageStorage,
 ): string {
-  const bucketName: string = configService.getOrThrow<string>('BUCKET_NAME')
-  const awsS3Region: string = configService.getOrThrow('AWS_S3_REGION')
-  return `https://${bucketName}.s3.${awsS3Region}.amazonaws.com/${fileName}`
-}
-
-/**
- * Extracts the filename for deletion from AWS S3 storage
- *
- * This function parses the provided `fileName` to extract the actual filename
- * expected by AWS S3 for deletion. It assumes the filename format to be `<prefix>_<actual_filename>`.
- * If the format is invalid (less than 2 parts separated by an underscore), it throws an error.
- *
- * @param fileName The filename string received (potentially containing a prefix).
- * @returns The actual filename expected by AWS S3 for deletion.
- * @throws Error if the filename format is invalid.
- */
-export function getFileNameForDeleteFromAWS(fileName: string): string {
-  const parts = fileName.split('_')
-  if (parts.length < 2) {
-    throw new Error('Invalid image name format: ' + fileName)
-  }
-  return parts[1]
+  return storage.getPublicUrl(fileName)
 }
 
 /**
@@ -89,10 +89,13 @@ export enum E_Gender {
  * Enum for user roles
  *
  * This enum defines the possible roles for users in the application.
- * It includes `User` and `Admin` roles.
+ * It includes `User`, `Editor`, `Moderator` and `Admin` roles; the permissions
+ * granted to each role are listed in `rolePermissions` (src/auth/permissions.ts).
  */
 export enum UserRoles {
   User = 'user',
+  Editor = 'editor',
+  Moderator = 'moderator',
   Admin = 'admin',
 }
 
@@ -121,21 +124,6 @@ export type SwapiEndpoints = {
   starships: string
 }
 
-/**
- * Interface for error response object
- *
- * This interface defines the structure of the error response object used in the `custom-exception.filter`.
- * It includes properties for `statusCode`, `timestamp`, `path`, `method`, `errorName`, and `message`.
- */
-export type ErrorResponse = {
-  statusCode: number
-  timestamp: string
-  path: string
-  method: string
-  errorName?: string
-  message: string
-}
-
 /**
  * Interface for error response structure
  *
@@ -448,6 +436,94 @@ export const relatedEntitiesMap: RelatedEntitiesMap = {
   },
 }
 
+/**
+ * Mapping of relation names to the SWAPI resources they point to
+ *
+ * This constant `relationResourceMap` resolves every relation name used in `relatedEntitiesMap` (such as
+ * `homeworld`, `characters` or `pilots`) to the name of the resource it references. It is used to look up
+ * the related entities of a relation when expanding nested relations (e.g. `films.planets`).
+ */
+export const relationResourceMap: Record<string, keyof typeof entityClasses> = {
+  homeworld: 'planets',
+  characters: 'people',
+  residents: 'people',
+  pilots: 'people',
+  people: 'people',
+  films: 'films',
+  planets: 'planets',
+  species: 'species',
+  starships: 'starships',
+  vehicles: 'vehicles',
+  images: 'images',
+}
+
+/**
+ * Type alias for the names of the searchable SWAPI resources
+ *
+ * This type alias `SearchableResource` lists the resources that support free-text search
+ * (every entity from `entityClassesForFill`, i.e. all of them except `images`).
+ */
+export type SearchableResource = keyof typeof entityClassesForFill
+
+/**
+ * Mapping of searchable fields for each SWAPI resource
+ *
+ * This constant `searchFieldsMap` defines which columns are matched by the `?search=` query
+ * parameter and by the `/search` endpoint, following the fields that SWAPI itself searches on.
+ * Each list of columns is covered by exactly one MySQL FULLTEXT index (see the `AddFulltextIndexes`
+ * migration), so the order and content of the lists must match the index definitions.
+ */
+export const searchFieldsMap: Record<SearchableResource, string[]> = {
+  people: ['name'],
+  films: ['title'],
+  planets: ['name'],
+  species: ['name'],
+  starships: ['name', 'model'],
+  vehicles: ['name', 'model'],
+}
+
+/**
+ * Mapping of the fields that cannot be sorted for each SWAPI resource
+ *
+ * This constant `unsortableFieldsMap` lists the quantities that SWAPI returns as text and that are
+ * therefore stored in varchar columns: they may hold `unknown` or `n/a`, thousands separators
+ * (`1,358`), ranges (`30-165`) or units (`19BBY`, `1 standard`, `2 months`). MySQL would sort them
+ * as strings (`1000` before `96`), so the `sort` parameter refuses them; they can still be filtered.
+ */
+export const unsortableFieldsMap: Record<SearchableResource, string[]> = {
+  people: ['height', 'mass', 'birth_year'],
+  films: [],
+  planets: [
+    'diameter',
+    'rotation_period',
+    'orbital_period',
+    'gravity',
+    'population',
+    'surface_water',
+  ],
+  species: ['average_height', 'average_lifespan'],
+  starships: [
+    'cost_in_credits',
+    'length',
+    'crew',
+    'passengers',
+    'max_atmosphering_speed',
+    'hyperdrive_rating',
+    'MGLT',
+    'cargo_capacity',
+    'consumables',
+  ],
+  vehicles: [
+    'cost_in_credits',
+    'length',
+    'crew',
+    'passengers',
+    'max_atmosphering_speed',
+    'cargo_capacity',
+    'consumables',
+  ],
+}
+
 /**
  * Object describing entity relationships and their related entities
  *
@@ -472,8 +548,236 @@ export const relationMappings = {
  *
  * - `sub`: The subject of the token, which is typically the user's unique identifier.
  * - `role`: The user's role in the application, such as `user` or `admin`.
+ * - `jti`: The unique identifier of the token, used to revoke it.
+ * - `sid`: The identifier of the session (refresh token family) the token was issued for.
+ * - `emailVerified`: Whether the email address of the user was verified when the token was issued
+ *   (unverified accounts have read-only access).
+ * - `mfa`: Whether the session was opened with a second factor (TOTP or recovery code).
+ * - `typ`: The type of a token that is not an access token (`2fa` for the login challenge tokens);
+ *   such tokens are refused as access tokens.
  */
 export interface Payload {
   sub: string
   role: string
+  jti?: string
+  sid?: string
+  emailVerified?: boolean
+  mfa?: boolean
+  typ?: string
+}
+
+/**
+ * Interface for the authenticated user of a request
+ *
+ * This is the `request.user` set by `JwtStrategy` once the access token was verified:
+ *
+ * - `userId`: The ID of the user (the `sub` claim).
+ * - `role`: The role of the user.
+ * - `emailVerified`: Whether the email address of the user was verified.
+ * - `twoFactor`: Whether the session was opened with a second factor (the `mfa` claim).
+ * - `sessionId`: The session (refresh token family) of the access token (the `sid` claim).
+ * - `apiKeyId`, `scopes`: The ID and the permissions of the API key, when the request was
+ *   authenticated with an `X-API-Key` header (`ApiKeyStrategy`) instead of an access token.
+ */
+export interface AuthenticatedUser {
+  userId: string
+  role: UserRoles
+  emailVerified?: boolean
+  twoFactor?: boolean
+  sessionId?: string
+  apiKeyId?: string
+  scopes?: string[]
+}
+
+/**
+ * Lifetimes of the issued tokens, in seconds
+ *
+ * Access tokens are short-lived JWTs; refresh tokens are opaque random strings stored hashed in
+ * the database and rotated on every use. The refresh token lifetime can be set with
+ * `JWT_REFRESH_TOKEN_LIFETIME` (30 days by default).
+ */
+export const accessTokenLifetime: number = 21600 // 6 hours...
+export const refreshTokenLifetime: number =
+  Number(process.env.JWT_REFRESH_TOKEN_LIFETIME) || 2592000
+
+/**
+ * Algorithms the access tokens can be signed with (`JWT_ALGORITHM`)
+ *
+ * `HS256` signs with the shared `JWT_SECRET`; `RS256` and `ES256` sign with rotated key pairs whose
+ * public keys are published at `GET /.well-known/jwks.json`.
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256'
+
+/**
+ * Settings of the JWT signing (`JwtKeyService`)
+ *
+ * - `algorithm`: The signing algorithm (`JWT_ALGORITHM`, `HS256` by default).
+ * - `issuer`, `audience`: The `iss` and `aud` claims of the tokens, checked on verification
+ *   (`JWT_ISSUER`, the URL of the API by default, and `JWT_AUDIENCE`, `swapi` by default).
+ * - `keyRotationInterval`: Seconds a key pair signs tokens before the next one takes over
+ *   (`JWT_KEY_ROTATION_DAYS`, 30 days by default).
+ * - `keyPrepublication`: Seconds the next key pair is published in the JWKS before it signs tokens,
+ *   so that the verifiers caching the key set know it in time.
+ * - `keyCacheLifetime`: Seconds the key set is cached by every instance (and by the verifiers,
+ *   through the `Cache-Control` header of the JWKS).
+ */
+export const jwtSettings = {
+  algorithm: (process.env.JWT_ALGORITHM || 'HS256') as JwtAlgorithm,
+  issuer: process.env.JWT_ISSUER || localUrl,
+  audience: process.env.JWT_AUDIENCE || 'swapi',
+  keyRotationInterval:
+    (Number(process.env.JWT_KEY_ROTATION_DAYS) || 30) * 86400,
+  keyPrepublication: 86400,
+  keyCacheLifetime: 60,
+}
+
+/**
+ * Lifetimes of the single-use tokens sent by email, in seconds
+ *
+ * Keyed by the `UserTokenPurposes` values: email verification links are valid for a day,
+ * password reset tokens for an hour.
+ */
+export const userTokenLifetimes: Record<string, number> = {
+  email_verification: 86400,
+  password_reset: 3600,
+}
+
+/**
+ * Settings of the two-factor authentication
+ *
+ * - `challengeLifetime`: Seconds to enter the TOTP code after the password (`POST /auth/login/2fa`).
+ * - `recoveryCodeCount`: Number of recovery codes generated on enrolment.
+ * - `issuer`: The service name shown by authenticator apps (`TOTP_ISSUER`).
+ */
+export const twoFactorSettings = {
+  challengeLifetime: 300,
+  recoveryCodeCount: 10,
+  issuer: process.env.TOTP_ISSUER || 'SWAPI',
+}
+
+/**
+ * Interface for the response of the first login step of an account with two-factor authentication
+ *
+ * - `two_factor_required`: Always `true`.
+ * - `challenge_token`: The short-lived token to send with the code to `POST /auth/login/2fa`.
+ */
+export interface TwoFactorChallenge {
+  two_factor_required: true
+  challenge_token: string
+}
+
+/**
+ * Settings of the login brute-force protection (`LoginThrottleService`)
+ *
+ * - `maxAccountFailures`, `maxIpFailures`: Failed attempts allowed on an account, and from a client IP,
+ *   before they are locked.
+ * - `baseLockout`, `maxLockout`: Length of the first lockout in seconds, doubled with every further
+ *   failure up to the maximum.
+ * - `failureWindow`: Seconds without a failure after which the count starts again.
+ */
+export const loginThrottleSettings = {
+  maxAccountFailures: Number(process.env.LOGIN_MAX_ACCOUNT_FAILURES) || 5,
+  maxIpFailures: Number(process.env.LOGIN_MAX_IP_FAILURES) || 20,
+  baseLockout: 30,
+  maxLockout: 3600,
+  failureWindow: 3600,
+}
+
+/**
+ * Lifetime of the API keys, in days
+ *
+ * A key expires after the number of days given on creation, `apiKeyDefaultLifetime` (90) by
+ * default and `apiKeyMaxLifetime` (365) at most.
+ */
+export const apiKeyDefaultLifetime: number = 90
+export const apiKeyMaxLifetime: number = 365
+
+/**
+ * Interface for the tokens returned on login, registration and refresh
+ *
+ * - `access_token`: The signed JWT to send as a Bearer token.
+ * - `refresh_token`: The opaque token to exchange for a new pair at `POST /auth/refresh`.
+ */
+export interface TokenPair {
+  access_token: string
+  refresh_token: string
+}
+
+/**
+ * Type for the image storage drivers
+ */
+export type ImageStorageDriver = 's3' | 's3-compatible' | 'local'
+
+/**
+ * Settings of the image storage (`ImageStorage`)
+ *
+ * - `driver`: Where the images are stored (`IMAGE_STORAGE`): `s3` (AWS S3), `s3-compatible` (MinIO or
+ *   any S3-compatible endpoint) or `local` (a directory of the server). `s3` by default when
+ *   `AWS_S3_REGION` is set, `local` otherwise.
+ * - `bucket`, `region`: The bucket (`BUCKET_NAME`) and its region (`AWS_S3_REGION`).
+ * - `endpoint`: The URL of the S3-compatible server (`S3_ENDPOINT`, e.g. `http://localhost:9000`).
+ * - `publicUrl`: The base URL the stored images are served from, when not the endpoint or the API
+ *   itself (`IMAGE_PUBLIC_URL`, e.g. a CDN).
+ * - `directory`: The directory of the `local` driver (`IMAGE_STORAGE_DIR`, `uploads` by default).
+ * - `route`: The static route the `local` driver serves its directory under.
+ */
+export const imageStorageSettings = {
+  driver: (process.env.IMAGE_STORAGE ||
+    (process.env.AWS_S3_REGION ? 's3' : 'local')) as ImageStorageDriver,
+  bucket: process.env.BUCKET_NAME,
+  region: process.env.AWS_S3_REGION || 'us-east-1',
+  endpoint: process.env.S3_ENDPOINT,
+  publicUrl: process.env.IMAGE_PUBLIC_URL,
+  directory: process.env.IMAGE_STORAGE_DIR || 'uploads',
+  route: '/uploads',
+}
+
+/**
+ * Limits of the uploaded images, checked before they are stored
+ *
+ * - `maxSize`: The largest file accepted, in bytes (`IMAGE_MAX_UPLOAD_SIZE`, 10 MB by default).
+ * - `maxPixels`: The largest image accepted, in pixels (`IMAGE_MAX_PIXELS`, 40 megapixels by
+ *   default), read from the headers of the file so that a small file cannot claim huge dimensions
+ *   (a decompression bomb).
+ */
+export const imageUploadSettings = {
+  maxSize: Number(process.env.IMAGE_MAX_UPLOAD_SIZE) || 10485760,
+  maxPixels: Number(process.env.IMAGE_MAX_PIXELS) || 40000000,
+}
+
+/**
+ * Settings of the variants generated from the uploaded images (`ImageVariantsService`)
+ *
+ * - `sizes`: The named sizes of the variants, as `name:maxSize` pairs (`IMAGE_VARIANT_SIZES`,
+ *   `thumb:160,medium:640,large:1280` by default). Each variant fits in a square of that side, and
+ *   is never larger than the original.
+ * - `formats`: The formats every size is also converted to, besides the format of the original
+ *   (`IMAGE_VARIANT_FORMATS`, `webp` by default, empty for none): `webp`, `avif`, `jpeg` or `png`.
+ * - `jpegQuality`: The quality of the JPEG variants, from 1 to 100 (`IMAGE_JPEG_QUALITY`, 80 by
+ *   default).
+ * - `avifQuality`: The quality of the AVIF variants, from 1 to 100 (`IMAGE_AVIF_QUALITY`, 50 by
+ *   default).
+ * - `maxPixels`: The largest image (in pixels) decoded to generate variants: the largest image
+ *   accepted on upload (`imageUploadSettings.maxPixels`), so that every stored image has variants.
+ */
+export const imageVariantSettings = {
+  sizes: process.env.IMAGE_VARIANT_SIZES ?? 'thumb:160,medium:640,large:1280',
+  formats: process.env.IMAGE_VARIANT_FORMATS ?? 'webp',
+  jpegQuality: Number(process.env.IMAGE_JPEG_QUALITY) || 80,
+  avifQuality: Number(process.env.IMAGE_AVIF_QUALITY) || 50,
+  maxPixels: imageUploadSettings.maxPixels,
+}
+
+/**
+ * Limits of the GraphQL operations, checked before they are executed
+ *
+ * - `maxDepth`: The deepest selection accepted, in nested fields (`GRAPHQL_MAX_DEPTH`, 10 by default).
+ * - `maxCost`: The highest estimated cost accepted (`GRAPHQL_MAX_COST`, 10000 by default): every field
+ *   costs 1, and the selection of a list is counted `listSize` times.
+ * - `listSize`: The number of items assumed for every list, pages and relations alike.
+ */
+export const graphqlQuerySettings = {
+  maxDepth: Number(process.env.GRAPHQL_MAX_DEPTH) || 10,
+  maxCost: Number(process.env.GRAPHQL_MAX_COST) || 10000,
+  listSize: 10,
 }
@@ -0,0 +1,186 @@
+import { BadRequestException } from '@nestjs/common'
+import { FindManyOptions, IsNull, Repository } from 'typeorm'
+import { CursorPagination, paginateByCursor } from './cursor-pagination'
+
+/**
+ * Mocking the configured maximum page size (`LIMIT_COUNT`)
+ */
+jest.mock('src/shared/constants', () => ({
+  ...jest.requireActual('src/shared/constants'),
+  limitCount: 10,
+}))
+
+/**
+ * Interface for the items listed in the tests: `height` is a nullable sort field
+ */
+interface Item {
+  id: number
+  height: number | null
+}
+
+/**
+ * Unit test suite for `paginateByCursor`.
+ * The repository is mocked: the tests check the `where` clause and the page size it is queried with.
+ */
+describe('paginateByCursor', () => {
+  let repository: { find: jest.Mock }
+
+  beforeEach(() => {
+    repository = { find: jest.fn().mockResolvedValue([]) }
+  })
+
+  /**
+   * Fetches a page of the items
+   *
+   * @param cursor The cursor of the page
+   * @param limit The requested page size
+   * @param findOptions The find options of the request (the sort order)
+   * @returns The page
+   */
+  const getPage = (
+    cursor: string,
+    limit: number,
+    findOptions: FindManyOptions<Item> = {},
+  ): Promise<CursorPagination<Item>> =>
+    paginateByCursor<Item>(
+      repository as unknown as Repository<Item>,
+      findOptions,
+      { cursor, limit, route: 'http://localhost/items/' },
+    )
+
+  /**
+   * Returns the cursor to the page after an item, from the first page ending with it
+   *
+   * @param item The last item of the first page
+   * @param order The sort order
+   * @returns The `nextCursor` of the first page
+   */
+  const getNextCursor = async (
+    item: Item,
+    order: FindManyOptions<Item>['order'],
+  ): Promise<string> => {
+    repository.find.mockResolvedValueOnce([item, { id: 99, height: 1 }])
+    const { meta } = await getPage('', 1, { order })
+    return meta.nextCursor
+  }
+
+  /**
+   * Returns the `where` clause of the last query
+   */
+  const getLastWhere = (): Record<string, any>[] =>
+    repository.find.mock.lastCall[0].where
+
+  /**
+   * Test suite for the nullable sort fields.
+   */
+  describe('nullable sort field', () => {
+    it('should continue with the items without a value after a value, in descending order', async () => {
+      const cursor: string = await getNextCursor(
+        { id: 4, height: 172 },
+        { height: 'DESC' },
+      )
+
+      await getPage(cursor, 1, { order: { height: 'DESC' } })
+
+      const where = getLastWhere()
+      expect(where).toHaveLength(3)
+      expect(where[0].height).toMatchObject({ type: 'lessThan', value: 172 })
+      expect(where[1]).toEqual({ height: IsNull() })
+      expect(where[2].height).toMatchObject({ type: 'equal', value: 172 })
+      expect(where[2].id).toMatchObject({ type: 'lessThan', value: 4 })
+    })
+
+    it('should not go back to the items without a value after a value, in ascending order', async () => {
+      const cursor: string = await getNextCursor(
+        { id: 4, height: 172 },
+        { height: 'ASC' },
+      )
+
+      await getPage(cursor, 1, { order: { height: 'ASC' } })
+
+      const where = getLastWhere()
+      expect(where).toHaveLength(2)
+      expect(where[0].height).toMatchObject({ type: 'moreThan', value: 172 })
+      expect(where[1].id).toMatchObject({ type: 'moreThan', value: 4 })
+    })
+
+    it('should continue with the other items without a value, then the values, in ascending order', async () => {
+      const cursor: string = await getNextCursor(
+        { id: 4, height: null },
+        { height: 'ASC' },
+      )
+
+      await getPage(cursor, 1, { order: { height: 'ASC' } })
+
+      const where = getLastWhere()
+      expect(where).toHaveLength(2)
+      expect(where[0].height).toMatchObject({ type: 'not' })
+      expect(where[0].height.child).toEqual(IsNull())
+      expect(where[1].height).toEqual(IsNull())
+      expect(where[1].id).toMatchObject({ type: 'moreThan', value: 4 })
+    })
+
+    it('should only continue with the other items without a value, in descending order', async () => {
+      const cursor: string = await getNextCursor(
+        { id: 4, height: null },
+        { height: 'DESC' },
+      )
+
+      await getPage(cursor, 1, { order: { height: 'DESC' } })
+
+      const where = getLastWhere()
+      expect(where).toHaveLength(1)
+      expect(where[0].height).toEqual(IsNull())
+      expect(where[0].id).toMatchObject({ type: 'lessThan', value: 4 })
+    })
+
+    it('should go back to the items without a value before a value, in ascending order', async () => {
+      const cursor: string = await getNextCursor(
+        { id: 4, height: 172 },
+        { height: 'ASC' },
+      )
+      repository.find.mockResolvedValueOnce([{ id: 5, height: 180 }])
+      const { meta } = await getPage(cursor, 1, { order: { height: 'ASC' } })
+
+      await getPage(meta.prevCursor, 1, { order: { height: 'ASC' } })
+
+      // The previous page is fetched in descending order
+      const where = getLastWhere()
+      expect(repository.find.mock.lastCall[0].order).toEqual({
+        height: 'DESC',
+        id: 'DESC',
+      })
+      expect(where[0].height).toMatchObject({ type: 'lessThan', value: 180 })
+      expect(where[1]).toEqual({ height: IsNull() })
+    })
+  })
+
+  /**
+   * Test suite for the page size.
+   */
+  describe('limit', () => {
+    it.each([NaN, 0, -1, 2.5])('should refuse the limit %p', async (limit) => {
+      await expect(getPage('', limit)).rejects.toThrow(
+        new BadRequestException('The limit must be a positive integer'),
+      )
+      expect(repository.find).not.toHaveBeenCalled()
+    })
+
+    it('should accept a limit from the query string', async () => {
+      await getPage('', '5' as unknown as number)
+
+      expect(repository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 6 }),
+      )
+    })
+
+    it('should cap the limit at the configured maximum', async () => {
+      const { meta } = await getPage('', 1000)
+
+      expect(repository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 11 }),
+      )
+      expect(meta.itemsPerPage).toBe(10)
+    })
+  })
+})
@@ -0,0 +1,321 @@
+import { BadRequestException } from '@nestjs/common'
+import {
+  And,
+  Equal,
+  FindManyOptions,
+  FindOperator,
+  FindOptionsWhere,
+  IsNull,
+  LessThan,
+  MoreThan,
+  Not,
+  Repository,
+} from 'typeorm'
+import { ListQuery } from './query-filter'
+import { limitCount } from './constants'
+
+/**
+ * Interface for a page of a cursor-paginated list
+ *
+ * - `items`: The resources of the page.
+ * - `meta`: The number of items in the page, the requested limit and the opaque cursors of the neighbouring
+ *   pages (null when there is no such page).
+ * - `links`: The absolute URLs of the neighbouring pages, keeping the other query parameters.
+ */
+export interface CursorPagination<T> {
+  items: T[]
+  meta: {
+    itemCount: number
+    itemsPerPage: number
+    nextCursor: string | null
+    prevCursor: string | null
+  }
+  links: {
+    next: string | null
+    prev: string | null
+  }
+}
+
+/**
+ * Interface for the options of `paginateByCursor`
+ *
+ * - `cursor`: The opaque cursor received from a previous page, or an empty string for the first page.
+ * - `limit`: The maximum number of items in the page, capped at `limitCount` (`LIMIT_COUNT`).
+ * - `route`: The absolute URL of the list endpoint, used to build the `next`/`prev` links.
+ * - `query`: The raw query string object of the request, copied into the links.
+ */
+export interface CursorPaginationOptions {
+  cursor: string
+  limit: number
+  route: string
+  query?: ListQuery
+}
+
+/**
+ * Interface for the decoded content of a cursor
+ *
+ * - `id`: The ID of the item the cursor points at.
+ * - `field`/`direction`: The sort the cursor was created with (`id` only when no sort field is given).
+ * - `value`: The value of the sort field for that item; `date` is set when it was a `Date`.
+ * - `before`: Whether the cursor fetches the items before the item (previous page) instead of after it.
+ */
+interface CursorPosition {
+  id: number
+  field?: string
+  direction: 'ASC' | 'DESC'
+  value?: string | number | null
+  date?: boolean
+  before?: boolean
+}
+
+/**
+ * Checks whether a list request asks for cursor pagination
+ *
+ * Cursor pagination is selected by the presence of the `cursor` query parameter; an empty value
+ * (`?cursor=`) requests the first page.
+ *
+ * @param query (ListQuery) The raw query string object of the request.
+ * @returns boolean True if the `cursor` parameter is present.
+ */
+export function isCursorRequest(query: ListQuery = {}): boolean {
+  return query.cursor !== undefined
+}
+
+/**
+ * Paginates a list with opaque cursors (keyset pagination)
+ *
+ * Unlike offset pagination, the page is located from the position of the last (or first) item returned
+ * before, so rows inserted or deleted between two requests never cause items to be skipped or returned twice.
+ * Items are ordered by `id`, or by the first field of the active sort with `id` as tie-breaker. One extra
+ * item is fetched to know whether a further page exists. The sort field may be nullable: the items without a
+ * value are paginated where MySQL sorts them (first in ascending order, last in descending order).
+ *
+ * @param repository (Repository<T>) The repository of the entity being listed.
+ * @param findOptions (FindManyOptions<T>) The find options built from the filters, search, sort and expansion.
+ * @param options (CursorPaginationOptions) The cursor, limit and route of the request.
+ * @returns Promise<CursorPagination<T>> The page of items with the cursors and links of its neighbours.
+ * @throws BadRequestException if the cursor is malformed, was created with another sort order, if
+ *         more than one sort field is requested, or if the limit is not a positive integer.
+ */
+export async function paginateByCursor<T extends { id: number }>(
+  repository: Repository<T>,
+  findOptions: FindManyOptions<T>,
+  options: CursorPaginationOptions,
+): Promise<CursorPagination<T>> {
+  const { cursor, route, query = {} } = options
+  const limit: number = parseCursorLimit(options.limit)
+  const sortEntries = Object.entries(findOptions.order ?? {}).filter(
+    ([field]) => field !== 'id',
+  )
+  if (sortEntries.length > 1) {
+    throw new BadRequestException(
+      'Cursor pagination supports a single sort field',
+    )
+  }
+  const [sortEntry] = sortEntries as [string, 'ASC' | 'DESC'][]
+  const field: string | undefined = sortEntry?.[0]
+  const direction: 'ASC' | 'DESC' = sortEntry?.[1] ?? 'ASC'
+  const position: CursorPosition | null = cursor ? decodeCursor(cursor) : null
+  if (
+    position &&
+    (position.field !== field || position.direction !== direction)
+  ) {
+    throw new BadRequestException(
+      'The cursor was created with a different sort order',
+    )
+  }
+
+  // Fetching backwards reverses the order, the items are put back in order afterwards
+  const isBackwards: boolean = Boolean(position?.before)
+  const fetchDirection: 'ASC' | 'DESC' = isBackwards
+    ? reverseDirection(direction)
+    : direction
+  const order: Record<string, 'ASC' | 'DESC'> = field
+    ? { [field]: fetchDirection, id: fetchDirection }
+    : { id: fetchDirection }
+  const items: T[] = await repository.find({
+    ...findOptions,
+    where: position
+      ? buildKeysetWhere(findOptions.where, position, fetchDirection)
+      : findOptions.where,
+    order: order as FindManyOptions<T>['order'],
+    take: limit + 1,
+  })
+  const hasMore: boolean = items.length > limit
+  const pageItems: T[] = items.slice(0, limit)
+  if (isBackwards) pageItems.reverse()
+
+  const hasNext: boolean = isBackwards ? Boolean(position) : hasMore
+  const hasPrev: boolean = isBackwards ? hasMore : Boolean(position)
+  const toCursor = (item: T, before: boolean): string =>
+    encodeCursor({
+      id: item.id,
+      field,
+      direction,
+      value: field ? item[field] : undefined,
+      before,
+    })
+  const nextCursor: string | null =
+    hasNext && pageItems.length
+      ? toCursor(pageItems[pageItems.length - 1], false)
+      : null
+  const prevCursor: string | null =
+    hasPrev && pageItems.length ? toCursor(pageItems[0], true) : null
+
+  return {
+    items: pageItems,
+    meta: {
+      itemCount: pageItems.length,
+      itemsPerPage: limit,
+      nextCursor,
+      prevCursor,
+    },
+    links: {
+      next: nextCursor && getCursorUrl(route, query, nextCursor),
+      prev: prevCursor && getCursorUrl(route, query, prevCursor),
+    },
+  }
+}
+
+/**
+ * Encodes a cursor position into an opaque, URL-safe string
+ *
+ * @param position (CursorPosition & { value?: unknown }) The position to encode.
+ * @returns string The base64url-encoded cursor.
+ */
+function encodeCursor(
+  position: Omit<CursorPosition, 'value'> & { value?: unknown },
+): string {
+  const { value } = position
+  const encoded: CursorPosition = {
+    ...position,
+    value: value instanceof Date ? value.toISOString() : (value as any),
+    date: value instanceof Date || undefined,
+  }
+  return Buffer.from(JSON.stringify(encoded)).toString('base64url')
+}
+
+/**
+ * Decodes an opaque cursor into its position
+ *
+ * @param cursor (string) The cursor received in the query string.
+ * @returns CursorPosition The decoded position.
+ * @throws BadRequestException if the cursor is malformed.
+ */
+function decodeCursor(cursor: string): CursorPosition {
+  let position: CursorPosition
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  } catch {
+    throw new BadRequestException('Invalid cursor')
+  }
+  if (
+    !position ||
+    !Number.isInteger(position.id) ||
+    !['ASC', 'DESC'].includes(position.direction)
+  ) {
+    throw new BadRequestException('Invalid cursor')
+  }
+  return position
+}
+
+/**
+ * Builds the `where` clause selecting the items after a cursor position
+ *
+ * For a sort field `f` in ascending order, the items after `(value, id)` are those with `f > value`,
+ * or `f = value` and `id > id`. The conditions are added to every branch of the existing filters.
+ * MySQL sorts `NULL` before any value in ascending order and after any value in descending order,
+ * and `f > value` never matches a `NULL`: after a value in descending order also come the items
+ * without a value, and after an item without a value in ascending order come all the items with one.
+ *
+ * @param where (FindManyOptions<T>['where']) The existing filters of the request.
+ * @param position (CursorPosition) The decoded cursor.
+ * @param direction ('ASC' | 'DESC') The direction of the fetch.
+ * @returns FindOptionsWhere<T>[] The alternatives of the keyset condition.
+ */
+function buildKeysetWhere<T>(
+  where: FindManyOptions<T>['where'],
+  position: CursorPosition,
+  direction: 'ASC' | 'DESC',
+): FindOptionsWhere<T>[] {
+  const compare = (value: unknown): FindOperator<any> =>
+    direction === 'ASC' ? MoreThan(value) : LessThan(value)
+  const branches: Record<string, any>[] = Array.isArray(where)
+    ? where
+    : [where ?? {}]
+  const { field, id } = position
+  const value = position.date
+    ? new Date(position.value)
+    : position.value ?? null
+  const conditions: Record<string, FindOperator<any>>[] = []
+  if (!field) {
+    conditions.push({ id: compare(id) })
+  } else {
+    // NULL values come first in ascending order and last in descending order
+    if (value !== null) {
+      conditions.push({ [field]: compare(value) })
+      if (direction === 'DESC') {
+        conditions.push({ [field]: IsNull() })
+      }
+    } else if (direction === 'ASC') {
+      conditions.push({ [field]: Not(IsNull()) })
+    }
+    conditions.push({
+      [field]: value === null ? IsNull() : Equal(value),
+      id: compare(id),
+    })
+  }
+  return branches.flatMap((branch) =>
+    conditions.map((condition) => {
+      const combined: Record<string, any> = { ...branch }
+      for (const [key, operator] of Object.entries(condition)) {
+        combined[key] = key in branch ? And(branch[key], operator) : operator
+      }
+      return combined as FindOptionsWhere<T>
+    }),
+  )
+}
+
+/**
+ * Validates the page size of a cursor-paginated list
+ *
+ * @param limit (number) The requested number of items (possibly a query string value).
+ * @returns number The page size, capped at `limitCount` when it is configured.
+ * @throws BadRequestException if the limit is not a positive integer.
+ */
+function parseCursorLimit(limit: number | string): number {
+  const value: number = Number(limit)
+  if (!Number.isInteger(value) || value < 1) {
+    throw new BadRequestException('The limit must be a positive integer')
+  }
+  return limitCount > 0 ? Math.min(value, limitCount) : value
+}
+
+/**
+ * Returns the opposite sort direction
+ *
+ * @param direction ('ASC' | 'DESC') The sort direction.
+ * @returns 'ASC' | 'DESC' The reversed direction.
+ */
+function reverseDirection(direction: 'ASC' | 'DESC'): 'ASC' | 'DESC' {
+  return direction === 'ASC' ? 'DESC' : 'ASC'
+}
+
+/**
+ * Builds the URL of a neighbouring page
+ *
+ * @param route (string) The absolute URL of the list endpoint.
+ * @param query (ListQuery) The raw query string object of the request.
+ * @param cursor (string) The cursor of the neighbouring page.
+ * @returns string The URL of the page, keeping the other query parameters.
+ */
+function getCursorUrl(route: string, query: ListQuery, cursor: string): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      params.append(key, item)
+    }
+  }
+  params.set('cursor', cursor)
+  return `${route}?${params}`
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsInt } from 'class-validator'
+import { maxBulkItems } from 'src/shared/bulk-operations'
+
+/**
+ * BulkRemoveDto: Data Transfer Object for deleting several resources at once
+ *
+ * This class defines the body of the `DELETE /<resource>/bulk` endpoints, which delete all the
+ * listed resources in a single transaction.
+ */
+export class BulkRemoveDto {
+  /**
+   * ids: The IDs of the resources to delete (array of integers)
+   *
+   * This property is decorated with:
+   *   - `@ApiProperty` to describe it in the Swagger documentation.
+   *   - `@IsArray`, `@ArrayNotEmpty` and `@ArrayMaxSize` to require between 1 and `maxBulkItems` IDs.
+   *   - `@IsInt({ each: true })` to ensure every ID is an integer.
+   */
+  @ApiProperty({
+    description: 'The IDs of the resources to delete.',
+    type: [Number],
+    example: [1, 2, 3],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(maxBulkItems)
+  @IsInt({ each: true })
+  ids: number[]
+}
@@ -0,0 +1,92 @@
+import { applyDecorators } from '@nestjs/common'
+import {
+  ApiExtraModels,
+  ApiProperty,
+  ApiPropertyOptional,
+  ApiResponse,
+  getSchemaPath,
+} from '@nestjs/swagger'
+
+/**
+ * Media type of the error responses (RFC 7807)
+ */
+export const problemJsonContentType: string = 'application/problem+json'
+
+/**
+ * ProblemDetails: Body of every error response (RFC 7807 "Problem Details for HTTP APIs")
+ *
+ * The standard members (`type`, `title`, `status`, `detail`, `instance`) are completed with the
+ * `timestamp`, `method` and `errorName` extension members, and with `errors` for the individual
+ * validation messages of a 400 response.
+ */
+export class ProblemDetails {
+  @ApiProperty({
+    description: 'URI identifying the problem type.',
+    example: 'about:blank',
+  })
+  type: string
+
+  @ApiProperty({
+    description: 'Short summary of the problem type (the HTTP reason phrase).',
+    example: 'Not Found',
+  })
+  title: string
+
+  @ApiProperty({ description: 'HTTP status code.', example: 404 })
+  status: number
+
+  @ApiProperty({
+    description: 'Explanation specific to this occurrence of the problem.',
+    example: 'People with id 99 not found',
+  })
+  detail: string
+
+  @ApiProperty({
+    description: 'Path of the request that caused the problem.',
+    example: '/people/99',
+  })
+  instance: string
+
+  @ApiProperty({ example: '2024-05-04T12:00:00.000Z' })
+  timestamp: string
+
+  @ApiProperty({ example: 'GET' })
+  method: string
+
+  @ApiPropertyOptional({ example: 'NotFoundException' })
+  errorName?: string
+
+  @ApiPropertyOptional({
+    description: 'The individual validation messages (400 responses only).',
+    type: [String],
+    example: ['name must be a string'],
+  })
+  errors?: string[]
+}
+
+/**
+ * Documents an error response of an endpoint in Swagger
+ *
+ * The response is described as an `application/problem+json` body following the `ProblemDetails` schema.
+ *
+ * @param status (number) The HTTP status code of the response.
+ * @param description (string) When the endpoint returns this status.
+ * @returns MethodDecorator & ClassDecorator The combined Swagger decorators.
+ */
+export function ApiProblemResponse(
+  status: number,
+  description: string,
+): MethodDecorator & ClassDecorator {
+  return applyDecorators(
+    ApiExtraModels(ProblemDetails),
+    ApiResponse({
+      status,
+      description,
+      content: {
+        [problemJsonContentType]: {
+          schema: { $ref: getSchemaPath(ProblemDetails) },
+        },
+      },
+    }),
+  )
+}
@@ -0,0 +1,215 @@
+import { BadRequestException } from '@nestjs/common'
+import {
+  And,
+  FindManyOptions,
+  FindOperator,
+  FindOptionsOrder,
+  In,
+  Raw,
+  Repository,
+} from 'typeorm'
+
+/**
+ * Query parameters that are not treated as field filters
+ *
+ * These keys are consumed by the list endpoints themselves or by the interceptors (offset and cursor
+ * pagination, sorting, free-text search, relation expansion and response format) and are therefore skipped
+ * when building the `where` clause from the query string.
+ */
+export const reservedQueryKeys: string[] = [
+  'page',
+  'limit',
+  'cursor',
+  'sort',
+  'search',
+  'expand',
+  'include',
+  'format',
+]
+
+/**
+ * Type for the raw query string object of a list endpoint
+ *
+ * Express parses repeated parameters (`?gender=male&gender=female`) into arrays,
+ * so every value may be either a single string or an array of strings.
+ */
+export type ListQuery = Record<string, string | string[]>
+
+/**
+ * Builds TypeORM find options (where/order) from the query of a list endpoint
+ *
+ * This function turns query parameters such as `?gender=female&eye_color=blue&sort=-skin_color,name`
+ * into a `FindManyOptions` object that can be passed to `paginate()`. Every non-reserved key is
+ * treated as an exact-match filter on the column with the same name; repeated keys are matched with
+ * `IN (...)`. The `sort` parameter is a comma-separated list of column names, where a leading `-`
+ * means descending order. The `search` parameter is matched against `searchFields` through their
+ * MySQL FULLTEXT index. Field names are validated against the columns of the repository's entity.
+ *
+ * @param repository (Repository<T>) The repository of the entity being listed.
+ * @param query (ListQuery) The raw query string object of the request.
+ * @param searchFields (string[]) The columns covered by the entity's FULLTEXT index (see `searchFieldsMap`).
+ * @param unsortableFields (string[]) The columns that cannot be sorted by (see `unsortableFieldsMap`).
+ * @returns FindManyOptions<T> The find options with `where` and `order` clauses.
+ * @throws BadRequestException if a filter or sort field is not a column of the entity, or if a sort
+ *         field cannot be sorted by.
+ */
+export function buildListFindOptions<T>(
+  repository: Repository<T>,
+  query: ListQuery = {},
+  searchFields: string[] = [],
+  unsortableFields: string[] = [],
+): FindManyOptions<T> {
+  const filterKeys: string[] = Object.keys(query).filter(
+    (key) => !reservedQueryKeys.includes(key),
+  )
+  const searchTerm: string | null =
+    query.search && searchFields.length
+      ? toFulltextSearchTerm(query.search)
+      : null
+  // Nothing to filter, search or sort by, return empty options
+  if (!filterKeys.length && !searchTerm && !query.sort) {
+    return {}
+  }
+  const columns: string[] = getFilterableColumns(repository)
+  const options: FindManyOptions<T> = {}
+  const where: Record<string, any> = {}
+
+  // Build the 'where' clause from the field filters
+  for (const key of filterKeys) {
+    if (!columns.includes(key)) {
+      throw new BadRequestException(
+        `Unknown filter field '${key}'. Allowed fields: ${columns.join(', ')}`,
+      )
+    }
+    const value: string | string[] = query[key]
+    where[key] = Array.isArray(value) ? In(value) : value
+  }
+
+  // Add the free-text search condition on the first searchable field
+  if (searchTerm) {
+    const [firstField] = searchFields
+    const searchCondition: FindOperator<any> = Raw(
+      (columnPath: string) =>
+        `${fulltextMatchExpression(getAliasFromColumnPath(columnPath), searchFields)} AGAINST (:search IN BOOLEAN MODE)`,
+      { search: searchTerm },
+    )
+    where[firstField] =
+      firstField in where
+        ? And(where[firstField], searchCondition)
+        : searchCondition
+  }
+  if (Object.keys(where).length) {
+    options.where = where as FindManyOptions<T>['where']
+  }
+
+  // Build the 'order' clause from the 'sort' parameter
+  if (query.sort) {
+    options.order = parseSortParameter<T>(
+      query.sort,
+      columns.filter((column) => !unsortableFields.includes(column)),
+      unsortableFields,
+    )
+  }
+  return options
+}
+
+/**
+ * Converts user input into a MySQL FULLTEXT boolean-mode search term
+ *
+ * This function strips the boolean-mode operators from the input and requires every remaining word
+ * as a prefix, so `luke sky` becomes `+luke* +sky*`. Note that InnoDB ignores words shorter than
+ * `innodb_ft_min_token_size` (3 by default).
+ *
+ * @param search (string | string[]) The raw value of the `search`/`q` query parameter.
+ * @returns string | null The boolean-mode search term, or null if no searchable words remain.
+ */
+export function toFulltextSearchTerm(search: string | string[]): string | null {
+  const words: string[] = (Array.isArray(search) ? search.join(' ') : search)
+    .replace(/[+\-<>()~*"@]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+  return words.length ? words.map((word) => `+${word}*`).join(' ') : null
+}
+
+/**
+ * Builds the `MATCH (...)` part of a FULLTEXT search expression
+ *
+ * The list of columns must be exactly the column list of a FULLTEXT index, otherwise MySQL
+ * rejects the query with "Can't find FULLTEXT index matching the column list".
+ *
+ * @param alias (string) The alias of the table in the query.
+ * @param fields (string[]) The columns covered by the FULLTEXT index.
+ * @returns string The `MATCH (alias.field, ...)` expression.
+ */
+export function fulltextMatchExpression(
+  alias: string,
+  fields: string[],
+): string {
+  return `MATCH (${fields.map((field) => `${alias}.${field}`).join(', ')})`
+}
+
+/**
+ * Extracts the table alias from a column path such as `People.name`
+ *
+ * @param columnPath (string) The column path passed by TypeORM to a `Raw` operator.
+ * @returns string The table alias part of the path.
+ */
+function getAliasFromColumnPath(columnPath: string): string {
+  return columnPath.slice(0, columnPath.lastIndexOf('.'))
+}
+
+/**
+ * Parses the `sort` query parameter into a TypeORM order clause
+ *
+ * This function splits the `sort` value (e.g. `eye_color,-name`) into column names and maps each
+ * of them to `ASC`, or to `DESC` when the name is prefixed with `-`. The quantities stored as text
+ * (`unsortableFields`) are refused rather than sorted in an order that would look wrong.
+ *
+ * @param sort (string | string[]) The value of the `sort` query parameter.
+ * @param columns (string[]) The column names that are allowed for sorting.
+ * @param unsortableFields (string[]) The columns of the entity that cannot be sorted by.
+ * @returns FindOptionsOrder<T> The order clause for TypeORM.
+ * @throws BadRequestException if a sort field is not a column of the entity or cannot be sorted by.
+ */
+export function parseSortParameter<T>(
+  sort: string | string[],
+  columns: string[],
+  unsortableFields: string[] = [],
+): FindOptionsOrder<T> {
+  const order: Record<string, 'ASC' | 'DESC'> = {}
+  const fields: string[] = (Array.isArray(sort) ? sort.join(',') : sort)
+    .split(',')
+    .map((field) => field.trim())
+    .filter(Boolean)
+  for (const field of fields) {
+    const isDescending: boolean = field.startsWith('-')
+    const column: string = isDescending ? field.slice(1) : field
+    if (unsortableFields.includes(column)) {
+      throw new BadRequestException(
+        `The field '${column}' cannot be sorted by, its values are stored as text. Allowed fields: ${columns.join(', ')}`,
+      )
+    }
+    if (!columns.includes(column)) {
+      throw new BadRequestException(
+        `Unknown sort field '${column}'. Allowed fields: ${columns.join(', ')}`,
+      )
+    }
+    order[column] = isDescending ? 'DESC' : 'ASC'
+  }
+  return order as FindOptionsOrder<T>
+}
+
+/**
+ * Returns the names of the columns an entity can be filtered and sorted by
+ *
+ * Only plain columns are returned; relation columns (such as `homeworldId`) are skipped,
+ * because related resources are addressed by their URLs rather than by raw foreign keys.
+ *
+ * @param repository (Repository<T>) The repository of the entity.
+ * @returns string[] The property names of the filterable columns.
+ */
+export function getFilterableColumns<T>(repository: Repository<T>): string[] {
+  return repository.metadata.columns
+    .filter((column) => !column.relationMetadata)
+    .map((column) => column.propertyName)
+}
@@ -0,0 +1,132 @@
+import { BadRequestException, Type } from '@nestjs/common'
+import { DeepPartial, EntityManager, In } from 'typeorm'
+import { RelationMetadata } from 'typeorm/metadata/RelationMetadata'
+
+/**
+ * Returns the column values of a create/update DTO
+ *
+ * The `url` is skipped because it is derived from the ID of the resource, and so are the related entities,
+ * which are set separately with `setRelatedEntities`.
+ *
+ * @param dto (object) The create or update DTO.
+ * @param relatedEntities (string[]) The relation properties of the resource (see `relatedEntitiesMap`).
+ * @returns DeepPartial<E> The values of the plain columns present in the DTO.
+ */
+export function getColumnValues<E>(
+  dto: object,
+  relatedEntities: string[],
+): DeepPartial<E> {
+  const values: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(dto)) {
+    if (
+      key !== 'url' &&
+      !relatedEntities.includes(key) &&
+      value !== undefined
+    ) {
+      values[key] = value
+    }
+  }
+  return values as DeepPartial<E>
+}
+
+/**
+ * Sets the related entities of a resource from a create/update DTO
+ *
+ * The relations are written with TypeORM's relation query builder, which updates the foreign key or the
+ * junction table whichever side of the relation owns it. A relation missing from the DTO is left untouched,
+ * while a relation present in the DTO replaces the current one: list relations are given as arrays of
+ * resource URLs, and single relations (`homeworld`) as the ID of the related resource.
+ *
+ * Must be called with the entity manager of the transaction of the create/update operation, so that the
+ * resource is rolled back when a related resource does not exist.
+ *
+ * @param manager (EntityManager) The transactional entity manager.
+ * @param entity (Type<unknown>) The entity class of the resource.
+ * @param id (number) The ID of the resource.
+ * @param dto (object) The create or update DTO.
+ * @param relatedEntities (string[]) The relation properties of the resource (see `relatedEntitiesMap`).
+ * @returns Promise<void> Resolves once every relation of the DTO is written.
+ * @throws BadRequestException if a related resource does not exist.
+ */
+export async function setRelatedEntities(
+  manager: EntityManager,
+  entity: Type<unknown>,
+  id: number,
+  dto: object,
+  relatedEntities: string[],
+): Promise<void> {
+  const metadata = manager.connection.getMetadata(entity)
+  for (const key of relatedEntities) {
+    const value: unknown = dto[key]
+    if (value === undefined) continue
+    const relation: RelationMetadata =
+      metadata.findRelationWithPropertyPath(key)
+    const relationBuilder = manager
+      .createQueryBuilder()
+      .relation(entity, key)
+      .of(id)
+
+    // Single relation, referenced by the ID of the related resource
+    if (relation.isManyToOne || relation.isOneToOne) {
+      if (value === null) {
+        await relationBuilder.set(null)
+        continue
+      }
+      const [related] = await findRelated(manager, relation, { id: value })
+      if (!related) {
+        throw new BadRequestException(`Unknown ${key}: ${value}`)
+      }
+      await relationBuilder.set(related.id)
+      continue
+    }
+
+    // List relation, referenced by the URLs of the related resources
+    const urls: string[] = [...new Set(Array.isArray(value) ? value : [value])]
+    const related: RelatedResource[] = urls.length
+      ? await findRelated(manager, relation, { url: In(urls) })
+      : []
+    const unknownUrls: string[] = urls.filter(
+      (url) => !related.some((resource) => resource.url === url),
+    )
+    if (unknownUrls.length) {
+      throw new BadRequestException(
+        `Unknown ${key} URLs: ${unknownUrls.join(', ')}`,
+      )
+    }
+    const relatedIds: number[] = related.map((resource) => resource.id)
+    const currentIds: number[] = (
+      await relationBuilder.loadMany<RelatedResource>()
+    ).map((resource) => resource.id)
+    await relationBuilder.addAndRemove(
+      relatedIds.filter((relatedId) => !currentIds.includes(relatedId)),
+      currentIds.filter((currentId) => !relatedIds.includes(currentId)),
+    )
+  }
+}
+
+/**
+ * Interface for the columns of a related resource read by `setRelatedEntities`
+ */
+interface RelatedResource {
+  id: number
+  url: string
+}
+
+/**
+ * Returns the related resources matching a condition
+ *
+ * @param manager (EntityManager) The transactional entity manager.
+ * @param relation (RelationMetadata) The metadata of the relation.
+ * @param where (Record<string, unknown>) The condition on the related resources.
+ * @returns Promise<RelatedResource[]> The IDs and URLs of the matching related resources.
+ */
+function findRelated(
+  manager: EntityManager,
+  relation: RelationMetadata,
+  where: Record<string, unknown>,
+): Promise<RelatedResource[]> {
+  return manager.find<RelatedResource>(relation.inverseEntityMetadata.target, {
+    where,
+    select: { id: true, url: true },
+  })
+}
@@ -0,0 +1,178 @@
+import { BadRequestException } from '@nestjs/common'
+import {
+  entityClasses,
+  relatedEntitiesMap,
+  relationResourceMap,
+} from './constants'
+import { ListQuery } from './query-filter'
+
+/**
+ * Type alias for the names of the resources whose relations can be expanded
+ */
+export type ExpandableResource = keyof typeof entityClasses
+
+/**
+ * Returns the raw relation expansion parameter of a request
+ *
+ * Relations can be expanded with either `?expand=` or its alias `?include=`; `expand` wins if both are given.
+ *
+ * @param query (ListQuery) The raw query string object of the request.
+ * @returns string | string[] | undefined The raw value of the expansion parameter.
+ */
+export function getExpandParameter(
+  query: ListQuery = {},
+): string | string[] | undefined {
+  return query.expand ?? query.include
+}
+
+/**
+ * Parses and validates the `expand`/`include` query parameter
+ *
+ * This function splits the comma-separated list of relations (e.g. `homeworld,films.planets`) and checks
+ * every entry against `relatedEntitiesMap`. A nested entry (`films.planets`) is checked against the related
+ * entities of the resource the first relation points to, and implies the expansion of its parent (`films`).
+ * Only one level of nesting is supported.
+ *
+ * @param expand (string | string[] | undefined) The raw value of the expansion parameter.
+ * @param resource (ExpandableResource) The name of the resource being requested.
+ * @returns string[] The validated relation paths, parents first.
+ * @throws BadRequestException if a relation is unknown or nested more than one level deep.
+ */
+export function parseExpandParameter(
+  expand: string | string[] | undefined,
+  resource: ExpandableResource,
+): string[] {
+  if (!expand) return []
+  const paths: string[] = []
+  const entries: string[] = (Array.isArray(expand) ? expand.join(',') : expand)
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  for (const entry of entries) {
+    const [relation, nestedRelation, ...rest] = entry.split('.')
+    if (rest.length) {
+      throw new BadRequestException(
+        `Relation '${entry}' is nested too deep, only one level of nesting is supported`,
+      )
+    }
+    assertRelation(resource, relation)
+    if (!paths.includes(relation)) paths.push(relation)
+    if (nestedRelation) {
+      assertRelation(relationResourceMap[relation], nestedRelation)
+      if (!paths.includes(entry)) paths.push(entry)
+    }
+  }
+  return paths
+}
+
+/**
+ * Returns the relations that must be loaded to serialize a resource
+ *
+ * Every relation of the resource is loaded, so that non-expanded relations can be rendered as URLs.
+ * For each expanded relation the relations of the related resource are loaded as well, so that the
+ * embedded objects also carry their own URLs (or their expanded nested relation).
+ *
+ * @param resource (ExpandableResource) The name of the resource being requested.
+ * @param expand (string[]) The validated relation paths returned by `parseExpandParameter`.
+ * @returns string[] The relation paths to pass to TypeORM's `relations` option.
+ */
+export function getExpandRelations(
+  resource: ExpandableResource,
+  expand: string[] = [],
+): string[] {
+  const relations: string[] = [...relatedEntitiesMap[resource].relatedEntities]
+  for (const path of expand.filter((path) => !path.includes('.'))) {
+    const relatedResource: ExpandableResource = relationResourceMap[path]
+    for (const nestedRelation of relatedEntitiesMap[relatedResource]
+      .relatedEntities) {
+      relations.push(`${path}.${nestedRelation}`)
+    }
+  }
+  return relations
+}
+
+/**
+ * Serializes a resource with SWAPI-style relations
+ *
+ * Every loaded relation of the entity that is not expanded is replaced by the URL of the related resource
+ * (or an array of URLs for to-many relations), as SWAPI does. Values that are already URLs are kept as is. Expanded relations are embedded as objects,
+ * serialized recursively with their nested expansions. Relations that were not loaded are left out.
+ *
+ * @param entity (T) The entity to serialize.
+ * @param resource (ExpandableResource) The name of the resource the entity belongs to.
+ * @param expand (string[]) The validated relation paths returned by `parseExpandParameter`.
+ * @returns T The serialized resource, or the entity itself if it is `null`/`undefined`.
+ */
+export function serializeResource<T>(
+  entity: T,
+  resource: ExpandableResource,
+  expand: string[] = [],
+): T {
+  if (!entity) return entity
+  const serialized: Record<string, any> = { ...entity }
+  for (const relation of relatedEntitiesMap[resource].relatedEntities) {
+    const value = serialized[relation]
+    if (value === undefined) continue
+    if (expand.includes(relation)) {
+      const nestedExpand: string[] = expand
+        .filter((path) => path.startsWith(`${relation}.`))
+        .map((path) => path.slice(relation.length + 1))
+      const serializeRelated = (related: any) =>
+        serializeResource(related, relationResourceMap[relation], nestedExpand)
+      serialized[relation] = Array.isArray(value)
+        ? value.map(serializeRelated)
+        : serializeRelated(value)
+    } else {
+      serialized[relation] = Array.isArray(value)
+        ? value.map(toResourceUrl)
+        : toResourceUrl(value)
+    }
+  }
+  return serialized as T
+}
+
+/**
+ * Serializes every item of a paginated list with SWAPI-style relations
+ *
+ * @param page (P) The paginated list returned by `paginate()` or `paginateByCursor()`.
+ * @param resource (ExpandableResource) The name of the resource the items belong to.
+ * @param expand (string[]) The validated relation paths returned by `parseExpandParameter`.
+ * @returns P The same page with serialized items.
+ */
+export function serializePagination<P extends { items: unknown[] }>(
+  page: P,
+  resource: ExpandableResource,
+  expand: string[] = [],
+): P {
+  return {
+    ...page,
+    items: page.items.map((item) => serializeResource(item, resource, expand)),
+  }
+}
+
+/**
+ * Returns the URL of a related resource
+ *
+ * @param related (any) The related entity, or a value that is already serialized (e.g. a URL string).
+ * @returns any The `url` of the related entity, the serialized value itself, or `null` for a missing relation.
+ */
+function toResourceUrl(related: any): any {
+  if (related === null || related === undefined) return null
+  return typeof related === 'object' ? related.url : related
+}
+
+/**
+ * Checks that a relation belongs to a resource
+ *
+ * @param resource (ExpandableResource) The name of the resource.
+ * @param relation (string) The name of the relation to check.
+ * @throws BadRequestException if the relation is not listed in `relatedEntitiesMap` for the resource.
+ */
+function assertRelation(resource: ExpandableResource, relation: string): void {
+  const relations: string[] = relatedEntitiesMap[resource].relatedEntities
+  if (!relations.includes(relation)) {
+    throw new BadRequestException(
+      `Unknown relation '${relation}' for '${resource}'. Allowed relations: ${relations.join(', ')}`,
+    )
+  }
+}
@@ -0,0 +1,316 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { Controller, Get, INestApplication } from '@nestjs/common'
+import { Request, Response } from 'express'
+import * as request from 'supertest'
+import { localUrl } from './constants'
+import { TransformInterceptor } from './Transform.interceptor'
+import { swapiPrefixMiddleware, toSwapiResponse } from './swapi-compatibility'
+
+/**
+ * The value returned by the routes of `TestController`, set by each test
+ */
+let body: any
+
+/**
+ * Routes of the tests, returning `body` as a controller would
+ */
+@Controller()
+class TestController {
+  @Get()
+  getRoot() {
+    return body
+  }
+
+  @Get('people')
+  findAll() {
+    return body
+  }
+
+  @Get('people/:id')
+  findOne() {
+    return body
+  }
+}
+
+/**
+ * A resource as returned by a controller: its URLs point to the local server
+ */
+const person = {
+  id: 1,
+  name: 'Luke Skywalker',
+  homeworld: `${localUrl}planets/1/`,
+  films: [`${localUrl}films/1/`, `${localUrl}films/2/`],
+  species: [{ id: 1, name: 'Human', url: `${localUrl}species/1/` }],
+  images: [],
+  created: new Date('2014-12-09T13:50:51.644Z'),
+  url: `${localUrl}people/1/`,
+}
+
+/**
+ * Unit test suite for the SWAPI-compatible response mode.
+ * The routes are served by an HTTP server with the prefix middleware and the response interceptor,
+ * registered as in `main.ts`.
+ */
+describe('SWAPI compatibility', () => {
+  let app: INestApplication
+
+  beforeEach(async () => {
+    body = person
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TestController],
+    }).compile()
+
+    app = module.createNestApplication()
+    app.use(swapiPrefixMiddleware)
+    app.useGlobalInterceptors(new TransformInterceptor())
+    await app.init()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  it('should wrap the response outside of the SWAPI mode', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/people/1')
+      .expect(200)
+
+    expect(response.body).toEqual({
+      data: { ...person, created: person.created.toISOString() },
+    })
+  })
+
+  /**
+   * Test suite for the `X-Response-Mode: swapi` header.
+   */
+  describe('X-Response-Mode header', () => {
+    it('should return the resource as SWAPI does', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/people/1')
+        .set('X-Response-Mode', 'swapi')
+        .expect(200)
+
+      expect(response.body).toEqual({
+        name: 'Luke Skywalker',
+        homeworld: `${localUrl}planets/1/`,
+        films: [`${localUrl}films/1/`, `${localUrl}films/2/`],
+        species: [{ name: 'Human', url: `${localUrl}species/1/` }],
+        created: '2014-12-09T13:50:51.644Z',
+        url: `${localUrl}people/1/`,
+      })
+    })
+
+    it('should ignore the case of the mode', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/people/1')
+        .set('X-Response-Mode', 'SWAPI')
+        .expect(200)
+
+      expect(response.body).not.toHaveProperty('data')
+      expect(response.body).not.toHaveProperty('id')
+    })
+
+    it('should keep the regular response for another mode', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/people/1')
+        .set('X-Response-Mode', 'json')
+        .expect(200)
+
+      expect(response.body.data.id).toBe(1)
+    })
+
+    it('should return a page in the SWAPI envelope', async () => {
+      body = {
+        items: [person],
+        meta: {
+          itemCount: 1,
+          totalItems: 21,
+          itemsPerPage: 10,
+          totalPages: 3,
+          currentPage: 2,
+        },
+        links: {},
+      }
+
+      const response = await request(app.getHttpServer())
+        .get('/people/?page=2&search=sky')
+        .set('X-Response-Mode', 'swapi')
+        .expect(200)
+
+      expect(response.body.count).toBe(21)
+      expect(response.body.results).toHaveLength(1)
+      expect(response.body.results[0]).not.toHaveProperty('id')
+      const next: URL = new URL(response.body.next)
+      const previous: URL = new URL(response.body.previous)
+      expect(next.pathname).toBe('/people/')
+      expect(Object.fromEntries(next.searchParams)).toEqual({
+        page: '3',
+        search: 'sky',
+      })
+      expect(previous.searchParams.get('page')).toBe('1')
+    })
+
+    it('should not link past the first and last pages', async () => {
+      body = {
+        items: [],
+        meta: {
+          itemCount: 0,
+          totalItems: 0,
+          itemsPerPage: 10,
+          totalPages: 1,
+          currentPage: 1,
+        },
+        links: {},
+      }
+
+      const response = await request(app.getHttpServer())
+        .get('/people/')
+        .set('X-Response-Mode', 'swapi')
+        .expect(200)
+
+      expect(response.body).toEqual({
+        count: 0,
+        next: null,
+        previous: null,
+        results: [],
+      })
+    })
+  })
+
+  /**
+   * Test suite for the `/swapi` route prefix.
+   */
+  describe('/swapi prefix', () => {
+    it('should serve the regular route in the SWAPI mode', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/swapi/people/1/')
+        .expect(200)
+
+      expect(response.body).not.toHaveProperty('data')
+      expect(response.body.name).toBe('Luke Skywalker')
+    })
+
+    it('should rewrite the local URLs under the prefix, nested ones included', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/swapi/people/1/')
+        .expect(200)
+
+      expect(response.body).toMatchObject({
+        homeworld: `${localUrl}swapi/planets/1/`,
+        films: [`${localUrl}swapi/films/1/`, `${localUrl}swapi/films/2/`],
+        species: [{ name: 'Human', url: `${localUrl}swapi/species/1/` }],
+        url: `${localUrl}swapi/people/1/`,
+      })
+    })
+
+    it('should link the other pages under the prefix', async () => {
+      body = {
+        items: [person],
+        meta: {
+          itemCount: 1,
+          totalItems: 21,
+          itemsPerPage: 10,
+          totalPages: 3,
+          currentPage: 2,
+        },
+        links: {},
+      }
+
+      const response = await request(app.getHttpServer())
+        .get('/swapi/people/?page=2')
+        .expect(200)
+
+      expect(new URL(response.body.next).pathname).toBe('/swapi/people/')
+      expect(new URL(response.body.previous).pathname).toBe('/swapi/people/')
+      expect(response.body.results[0].url).toBe(`${localUrl}swapi/people/1/`)
+    })
+
+    it('should serve the root of the API under the prefix', async () => {
+      body = { people: `${localUrl}people/` }
+
+      const response = await request(app.getHttpServer())
+        .get('/swapi')
+        .expect(200)
+
+      expect(response.body).toEqual({ people: `${localUrl}swapi/people/` })
+    })
+  })
+
+  /**
+   * Test suite for `swapiPrefixMiddleware`.
+   */
+  describe('swapiPrefixMiddleware', () => {
+    /**
+     * Runs the middleware on a request
+     *
+     * @param url The URL of the request
+     * @returns The request and the response, as left by the middleware
+     */
+    const runMiddleware = (url: string) => {
+      const req = { url, headers: {} } as Request
+      const res = { locals: {} } as Response
+      const next = jest.fn()
+      swapiPrefixMiddleware(req, res, next)
+      expect(next).toHaveBeenCalled()
+      return { req, res }
+    }
+
+    it.each([
+      ['/swapi', '/'],
+      ['/swapi/', '/'],
+      ['/swapi?page=2', '/?page=2'],
+      ['/swapi/people/1/', '/people/1/'],
+    ])('should strip the prefix of %p', (url, expected) => {
+      const { req, res } = runMiddleware(url)
+
+      expect(req.url).toBe(expected)
+      expect(req.headers['x-response-mode']).toBe('swapi')
+      expect(res.locals.swapiPrefix).toBe(true)
+    })
+
+    it.each(['/people/1/', '/swapis/', '/people/swapi'])(
+      'should leave %p as is',
+      (url) => {
+        const { req, res } = runMiddleware(url)
+
+        expect(req.url).toBe(url)
+        expect(req.headers).toEqual({})
+        expect(res.locals.swapiPrefix).toBeUndefined()
+      },
+    )
+  })
+
+  /**
+   * Test suite for the cursor-paginated lists of `toSwapiResponse`.
+   */
+  describe('toSwapiResponse', () => {
+    it('should use the cursor links of a cursor-paginated list, without a count', () => {
+      const page = {
+        items: [person],
+        meta: {
+          itemCount: 1,
+          itemsPerPage: 1,
+          nextCursor: 'b',
+          prevCursor: 'a',
+        },
+        links: {
+          next: `${localUrl}people/?cursor=b`,
+          prev: `${localUrl}people/?cursor=a`,
+        },
+      }
+
+      const swapiPage = toSwapiResponse(
+        page,
+        {} as Request,
+        { locals: { swapiPrefix: true } } as unknown as Response,
+      )
+
+      expect(swapiPage).toMatchObject({
+        count: null,
+        next: `${localUrl}swapi/people/?cursor=b`,
+        previous: `${localUrl}swapi/people/?cursor=a`,
+      })
+      expect(swapiPage.results[0]).not.toHaveProperty('id')
+    })
+  })
+})
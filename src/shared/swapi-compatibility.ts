@@ -0,0 +1,192 @@
+import { NextFunction, Request, Response } from 'express'
+import { Pagination } from 'nestjs-typeorm-paginate'
+import { localUrl } from './constants'
+import { CursorPagination } from './cursor-pagination'
+
+/**
+ * Name of the request header that enables the SWAPI-compatible response mode
+ *
+ * Sending `X-Response-Mode: swapi` with any request returns the response in the exact shape used by swapi.dev.
+ */
+export const swapiModeHeader: string = 'x-response-mode'
+
+/**
+ * Route prefix that enables the SWAPI-compatible response mode
+ *
+ * Every route is also available under this prefix (e.g. `/swapi/people/1/`), so that SWAPI clients
+ * can simply be pointed at `http://<host>:<port>/swapi/` as their base URL.
+ */
+export const swapiRoutePrefix: string = '/swapi'
+
+/**
+ * Fields that exist in this API but not in SWAPI, removed from the resources in SWAPI mode
+ */
+const nonSwapiFields: string[] = ['id', 'images']
+
+/**
+ * Interface for the paginated envelope returned by SWAPI list endpoints
+ */
+export interface SwapiPage<T> {
+  count: number
+  next: string | null
+  previous: string | null
+  results: T[]
+}
+
+/**
+ * Express middleware handling the `/swapi` route prefix
+ *
+ * This middleware strips the `/swapi` prefix from the URL before the request reaches the router,
+ * so that `/swapi/people/` is served by the regular `/people` route, and switches the request to the
+ * SWAPI-compatible mode. It must be registered with `app.use()` so that it runs before routing.
+ *
+ * @param request (Request) The incoming request.
+ * @param response (Response) The outgoing response.
+ * @param next (NextFunction) Passes control to the next handler.
+ */
+export function swapiPrefixMiddleware(
+  request: Request,
+  response: Response,
+  next: NextFunction,
+): void {
+  if (
+    request.url === swapiRoutePrefix ||
+    request.url.startsWith(`${swapiRoutePrefix}/`) ||
+    request.url.startsWith(`${swapiRoutePrefix}?`)
+  ) {
+    request.url = request.url.slice(swapiRoutePrefix.length) || '/'
+    if (request.url.startsWith('?')) request.url = `/${request.url}`
+    request.headers[swapiModeHeader] = 'swapi'
+    response.locals.swapiPrefix = true
+  }
+  next()
+}
+
+/**
+ * Checks whether a request asked for the SWAPI-compatible response mode
+ *
+ * @param request (Request) The incoming request.
+ * @returns boolean True if the request was made under `/swapi` or with `X-Response-Mode: swapi`.
+ */
+export function isSwapiMode(request: Request): boolean {
+  return String(request.headers[swapiModeHeader]).toLowerCase() === 'swapi'
+}
+
+/**
+ * Converts a controller response into the shape returned by SWAPI
+ *
+ * Paginated lists (`items/meta/links` from `nestjs-typeorm-paginate`) become SWAPI's
+ * `{count, next, previous, results}` envelope, with absolute `next`/`previous` page URLs built from the
+ * request. Cursor-paginated lists use their cursor links as `next`/`previous` and have no `count`, since the
+ * total is not computed in that mode. Resources lose the fields SWAPI does not have, and dates are rendered as ISO strings. When the
+ * request was made under the `/swapi` prefix, resource URLs are rewritten to point under that prefix too,
+ * so that clients following them stay in SWAPI mode.
+ *
+ * @param body (any) The value returned by the controller.
+ * @param request (Request) The incoming request.
+ * @param response (Response) The outgoing response.
+ * @returns any The SWAPI-compatible response body.
+ */
+export function toSwapiResponse(
+  body: any,
+  request: Request,
+  response: Response,
+): any {
+  const usePrefix: boolean = Boolean(response.locals?.swapiPrefix)
+  if (isCursorPagination(body)) {
+    const page: SwapiPage<any> = {
+      count: null,
+      next: toSwapiValue(body.links.next, usePrefix),
+      previous: toSwapiValue(body.links.prev, usePrefix),
+      results: body.items.map((item) => toSwapiValue(item, usePrefix)),
+    }
+    return page
+  }
+  if (isPagination(body)) {
+    const { currentPage, totalPages, totalItems } = body.meta
+    const page: SwapiPage<any> = {
+      count: totalItems,
+      next:
+        currentPage < totalPages
+          ? getPageUrl(request, currentPage + 1, usePrefix)
+          : null,
+      previous:
+        currentPage > 1
+          ? getPageUrl(request, currentPage - 1, usePrefix)
+          : null,
+      results: body.items.map((item) => toSwapiValue(item, usePrefix)),
+    }
+    return page
+  }
+  return toSwapiValue(body, usePrefix)
+}
+
+/**
+ * Checks whether a value is a page returned by `nestjs-typeorm-paginate`
+ *
+ * @param body (any) The value to check.
+ * @returns boolean True if the value has `items` and `meta`.
+ */
+function isPagination(body: any): body is Pagination<any> {
+  return Boolean(body) && Array.isArray(body.items) && Boolean(body.meta)
+}
+
+/**
+ * Checks whether a value is a page returned by `paginateByCursor`
+ *
+ * @param body (any) The value to check.
+ * @returns boolean True if the value has `items` and cursor `links`.
+ */
+function isCursorPagination(body: any): body is CursorPagination<any> {
+  return isPagination(body) && 'nextCursor' in body.meta
+}
+
+/**
+ * Recursively converts a value into its SWAPI representation
+ *
+ * @param value (any) The value to convert.
+ * @param usePrefix (boolean) Whether local resource URLs must be rewritten under the `/swapi` prefix.
+ * @returns any The converted value.
+ */
+function toSwapiValue(value: any, usePrefix: boolean): any {
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'string') {
+    return usePrefix && value.startsWith(localUrl)
+      ? `${localUrl}${swapiRoutePrefix.slice(1)}/${value.slice(localUrl.length)}`
+      : value
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toSwapiValue(item, usePrefix))
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {}
+    for (const [key, field] of Object.entries(value)) {
+      if (!nonSwapiFields.includes(key)) {
+        result[key] = toSwapiValue(field, usePrefix)
+      }
+    }
+    return result
+  }
+  return value
+}
+
+/**
+ * Builds the absolute URL of another page of the current list request
+ *
+ * @param request (Request) The incoming request.
+ * @param page (number) The page number to link to.
+ * @param usePrefix (boolean) Whether the URL must be built under the `/swapi` prefix.
+ * @returns string The absolute URL of the page, keeping the other query parameters.
+ */
+function getPageUrl(
+  request: Request,
+  page: number,
+  usePrefix: boolean,
+): string {
+  const url = new URL(
+    `${usePrefix ? swapiRoutePrefix : ''}${request.url}`,
+    `${request.protocol}://${request.get('host')}`,
+  )
+  url.searchParams.set('page', String(page))
+  return url.toString()
+}
@@ -1,6 +1,7 @@
 import {
   Column,
   Entity,
+  Index,
   JoinTable,
   ManyToMany,
   OneToMany,
@@ -23,6 +24,7 @@ import { IsOptional } from 'class-validator'
  * It also utilizes decorators from `@nestjs/swagger` to provide API documentation for the properties.
  */
 @Entity({ name: 'species' })
+@Index('FT_species_name', ['name'], { fulltext: true })
 export class Species extends AbstractEntity<Species> {
   /**
    * Name of the species
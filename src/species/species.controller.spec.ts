@@ -12,8 +12,11 @@ import {
   updatedSpecies,
   updatedSpeciesDto,
 } from './test-constants'
+import { describeFindImages } from 'src/images/test-constants'
 import { DataSource, Repository } from 'typeorm'
 import { JwtService } from '@nestjs/jwt'
+import { AuditService } from 'src/audit/audit.service'
+import { ImagesService } from 'src/images/images.service'
 import { Film } from 'src/films/entities/film.entity'
 import { People } from 'src/people/entities/people.entity'
 import { Planet } from 'src/planets/entities/planet.entity'
@@ -26,6 +29,7 @@ import { Planet } from 'src/planets/entities/planet.entity'
 describe('SpeciesController', () => {
   let controller: SpeciesController
   let service: SpeciesService
+  let imagesService: ImagesService
 
   /**
    * Setup for each test in the suite.
@@ -65,11 +69,24 @@ describe('SpeciesController', () => {
             verify: jest.fn(),
           },
         },
+        {
+          provide: AuditService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: ImagesService,
+          useValue: {
+            findAllOfAnEntity: jest.fn(),
+          },
+        },
       ],
     }).compile()
 
     controller = module.get<SpeciesController>(SpeciesController)
     service = module.get<SpeciesService>(SpeciesService)
+    imagesService = module.get<ImagesService>(ImagesService)
   })
 
   /**
@@ -128,7 +145,7 @@ describe('SpeciesController', () => {
       // Mock the service's `findAll` method
       jest.spyOn(service, 'findAll').mockResolvedValue(paginatedResult)
 
-      expect(await controller.findAll(1, 10)).toEqual(paginatedResult)
+      expect(await controller.findAll(1, 10, {})).toEqual(paginatedResult)
     })
   })
 
@@ -142,8 +159,8 @@ describe('SpeciesController', () => {
     it('should return a single species by ID', async () => {
       // Mock the service's `findOne` method
       jest.spyOn(service, 'findOne').mockResolvedValue(species)
-      expect(await controller.findOne(1)).toEqual(species)
-      expect(service.findOne).toHaveBeenCalledWith(1)
+      expect(await controller.findOne(1, {})).toEqual(species)
+      expect(service.findOne).toHaveBeenCalledWith(1, undefined)
     })
 
     /**
@@ -160,6 +177,8 @@ describe('SpeciesController', () => {
     })
   })
 
+  describeFindImages('species', () => ({ controller, imagesService }))
+
   /**
    * Test suite for the `update` method of SpeciesController.
    */
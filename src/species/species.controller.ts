@@ -8,7 +8,7 @@ import {
   Delete,
   Query,
   DefaultValuePipe,
-  UseGuards,
+  HttpStatus,
 } from '@nestjs/common'
 import { SpeciesService } from './species.service'
 import { CreateSpeciesDto } from './dto/create-species.dto'
@@ -23,7 +23,18 @@ import {
 import { Species } from 'src/species/entities/species.entity'
 import { Pagination } from 'nestjs-typeorm-paginate'
 import { limitCount } from 'src/shared/constants'
-import { AdminGuard } from 'src/auth/guards/admin.guard'
+import { ListQuery } from 'src/shared/query-filter'
+import { CursorPagination } from 'src/shared/cursor-pagination'
+import { BulkReport } from 'src/shared/bulk-operations'
+import { BulkRemoveDto } from 'src/shared/dto/bulk-remove.dto'
+import { getExpandParameter } from 'src/shared/relation-expansion'
+import { Public } from 'src/auth/decorators/public.decorator'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Audited } from 'src/audit/decorators/audited.decorator'
+import { Permissions } from 'src/auth/permissions'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { ImagesService } from 'src/images/images.service'
+import { Image } from 'src/images/entities/image.entity'
 
 /**
  * Controller class for managing Species entities
@@ -33,17 +44,21 @@ import { AdminGuard } from 'src/auth/guards/admin.guard'
  * and provide API documentation. It also utilizes services and DTOs for specific functionalities.
  */
 @ApiTags('species')
+@Audited('species')
 @Controller('species')
 export class SpeciesController {
-  constructor(private readonly speciesService: SpeciesService) {}
+  constructor(
+    private readonly speciesService: SpeciesService,
+    private readonly imagesService: ImagesService,
+  ) {}
 
   /**
    * POST /species/create endpoint
    *
    * Creates a new Species entity based on the provided data in the request body.
-   * Requires admin privileges (protected by AdminGuard).
+   * Requires the `species:write` permission.
    *
-   * @UseGuards - NestJS decorator to apply the AdminGuard for authorization.
+   * @RequirePermissions - Requires the `species:write` permission.
    * @ApiBearerAuth - Requires authorization (bearer token)
    * @Post - NestJS decorator to define a POST endpoint at the specified path.
    * @ApiBody - NestJS Swagger decorator to define the request body schema (CreateSpeciesDto).
@@ -52,15 +67,75 @@ export class SpeciesController {
    * @param createSpeciesDto - The data transfer object containing species creation data.
    * @returns Promise<Species> - A promise resolving to the created Species entity.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.SpeciesWrite)
   @Post('create')
   @ApiBearerAuth()
   @ApiBody({ type: CreateSpeciesDto })
   @ApiOperation({ summary: 'Create new "species"' })
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'A resource with the same name already exists',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async create(@Body() createSpeciesDto: CreateSpeciesDto): Promise<Species> {
     return this.speciesService.create(createSpeciesDto)
   }
 
+  /**
+   * Creates several "species" resources in a single transaction
+   *
+   * Every item is validated like the body of `POST /species/create`. The response reports for every item
+   * whether it was created, skipped as a duplicate name, or failed with its validation errors.
+   *
+   * @param items An array of `CreateSpeciesDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.SpeciesWrite)
+  @Post('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: [CreateSpeciesDto] })
+  @ApiOperation({ summary: 'Create several "species" resources' })
+  async bulkCreate(@Body() items: CreateSpeciesDto[]): Promise<BulkReport> {
+    return this.speciesService.bulkCreate(items)
+  }
+
+  /**
+   * Updates several "species" resources in a single transaction
+   *
+   * @param items An array of `UpdateSpeciesDto` objects, each with the `id` of the resource to update
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.SpeciesWrite)
+  @Patch('bulk')
+  @ApiBearerAuth()
+  @ApiBody({
+    type: [UpdateSpeciesDto],
+    description:
+      'Every item must also contain the `id` of the resource to update.',
+  })
+  @ApiOperation({ summary: 'Update several "species" resources' })
+  async bulkUpdate(@Body() items: UpdateSpeciesDto[]): Promise<BulkReport> {
+    return this.speciesService.bulkUpdate(items)
+  }
+
+  /**
+   * Deletes several "species" resources in a single transaction
+   *
+   * @param bulkRemoveDto The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.SpeciesWrite)
+  @Delete('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: BulkRemoveDto })
+  @ApiOperation({ summary: 'Delete several "species" resources' })
+  async bulkRemove(@Body() bulkRemoveDto: BulkRemoveDto): Promise<BulkReport> {
+    return this.speciesService.bulkRemove(bulkRemoveDto.ids)
+  }
+
   /**
    * GET /species endpoint
    *
@@ -73,17 +148,44 @@ export class SpeciesController {
    * @DefaultValuePipe - NestJS pipe to set default values for query parameters if not provided.
    * @param page - Current page number for pagination (defaults to 1).
    * @param limit - Number of items per page (defaults to limitCount utility function).
-   * @returns Promise<Pagination<Species>> - A promise resolving to a paginated list of Species entities.
+   * @param query Field filters, free-text search and sort order from the query string, validated against the entity columns
+   * @returns Promise<Pagination<Species> | CursorPagination<Species>> - A promise resolving to a paginated list of Species entities
+   * (cursor-paginated when a `cursor` query parameter is given).
    */
+  @Public()
   @Get()
   @ApiOperation({ summary: 'Get all the "species" resources' })
   @ApiQuery({ name: 'page', required: false })
   @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id` and on the first `sort` field.',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description:
+      'Comma-separated fields to sort by, prefix with "-" for descending order. The quantities stored as text (e.g. heights, lengths, populations) cannot be sorted by. Any other column can be used as an exact-match filter (e.g. `?name=...`).',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Free-text search on the name of the species.',
+  })
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `homeworld,films.planets`). `include` is accepted as an alias.',
+  })
   async findAll(
     @Query('page', new DefaultValuePipe(1)) page: number,
     @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
-  ): Promise<Pagination<Species>> {
-    return this.speciesService.findAll({ page, limit })
+    @Query() query: ListQuery,
+  ): Promise<Pagination<Species> | CursorPagination<Species>> {
+    return this.speciesService.findAll({ page, limit }, query)
   }
 
   /**
@@ -95,21 +197,70 @@ export class SpeciesController {
    * @ApiOperation - NestJS Swagger decorator to provide a summary and description for the endpoint.
    * @Param - NestJS decorator to access path parameters from the request.
    * @param id - The ID of the Species entity to retrieve.
+   * @param query - The `expand` (or `include`) query parameter listing the relations to embed.
    * @returns Promise<Species> - A promise resolving to the retrieved Species entity.
    */
+  @Public()
   @Get(':id')
   @ApiOperation({ summary: 'Get resource "species" by its "id"' })
-  async findOne(@Param('id') id: number): Promise<Species> {
-    return this.speciesService.findOne(id)
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `homeworld,films.planets`). `include` is accepted as an alias.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findOne(
+    @Param('id') id: number,
+    @Query() query: ListQuery = {},
+  ): Promise<Species> {
+    return this.speciesService.findOne(id, getExpandParameter(query))
+  }
+
+  /**
+   * Retrieves the images of a "species" resource (paginated)
+   *
+   * @param id The ID of the "species" resource
+   * @param page The page number to retrieve (defaults to 1)
+   * @param limit The number of items per page (defaults to `limitCount`)
+   * @param cursor The opaque cursor selecting cursor pagination (empty for the first page)
+   * @returns A Promise resolving to a `Pagination<Image>` object containing the paginated list, or a
+   *          `CursorPagination<Image>` in cursor mode
+   */
+  @Public()
+  @Get(':id/images')
+  @ApiOperation({ summary: 'Get the images of resource "species" by its "id"' })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id`.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findImages(
+    @Param('id') id: number,
+    @Query('page', new DefaultValuePipe(1)) page: number,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+    @Query('cursor') cursor?: string,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    if (limit > limitCount) limit = limitCount
+    return this.imagesService.findAllOfAnEntity(
+      'species',
+      id,
+      { page, limit },
+      cursor,
+    )
   }
 
   /**
    * PATCH /species/:id endpoint
    *
    * Updates a Species entity with the provided data in the request body.
-   * Requires admin privileges (protected by AdminGuard).
+   * Requires the `species:write` permission.
    *
-   * @UseGuards - NestJS decorator to apply the AdminGuard for authorization.
+   * @RequirePermissions - Requires the `species:write` permission.
    * @Patch - NestJS decorator to define a PATCH endpoint at the specified path with a path parameter.
    * @ApiBody - NestJS Swagger decorator to define the request body schema (UpdateSpeciesDto).
    * @ApiOperation - NestJS Swagger decorator to provide a summary and description for the endpoint.
@@ -119,11 +270,20 @@ export class SpeciesController {
    * @param updateSpeciesDto - The data transfer object containing species update data.
    * @returns Promise<Species> - A promise resolving to the updated Species entity.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.SpeciesWrite)
   @Patch(':id')
   @ApiBearerAuth()
   @ApiBody({ type: UpdateSpeciesDto })
   @ApiOperation({ summary: 'Update resource "species" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'Another resource already has the same name',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async update(
     @Param('id') id: number,
     @Body() updateSpeciesDto: UpdateSpeciesDto,
@@ -135,19 +295,20 @@ export class SpeciesController {
    * DELETE /species/:id endpoint
    *
    * Deletes a Species entity by its ID.
-   * Requires admin privileges (protected by AdminGuard).
+   * Requires the `species:write` permission.
    *
-   * @UseGuards - NestJS decorator to apply the AdminGuard for authorization.
+   * @RequirePermissions - Requires the `species:write` permission.
    * @Delete - NestJS decorator to define a DELETE endpoint at the specified path with a path parameter.
    * @ApiOperation - NestJS Swagger decorator to provide a summary and description for the endpoint.
    * @Param - NestJS decorator to access path parameters from the request.
    * @param id - The ID of the Species entity to delete.
    * @returns Promise<void> - A promise that resolves after the deletion.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.SpeciesWrite)
   @Delete(':id')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete resource "species" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
   async remove(@Param('id') id: number): Promise<Species> {
     return this.speciesService.remove(id)
   }
@@ -1,10 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { HttpStatus, NotFoundException } from '@nestjs/common'
 import { SpeciesService } from './species.service'
 import { DataSource, Repository } from 'typeorm'
 import { Species } from './entities/species.entity'
-import { People } from 'src/people/entities/people.entity'
-import { Film } from 'src/films/entities/film.entity'
-import { Planet } from 'src/planets/entities/planet.entity'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import { paginate } from 'nestjs-typeorm-paginate'
 import {
@@ -19,7 +17,12 @@ import {
   updatedSpecies,
   updatedSpeciesDto,
 } from './test-constants'
-import { paginationOptions } from 'src/shared/constants'
+import {
+  localUrl,
+  paginationOptions,
+  relatedEntitiesMap,
+} from 'src/shared/constants'
+import { setRelatedEntities } from 'src/shared/related-entities'
 
 /**
  * Mocking the `nestjs-typeorm-paginate` module
@@ -33,6 +36,17 @@ import { paginationOptions } from 'src/shared/constants'
  */
 jest.mock('nestjs-typeorm-paginate')
 
+/**
+ * Mocking the relation writer of `src/shared/related-entities`
+ *
+ * The related entities are written with TypeORM's relation query builder, which needs a real
+ * data source. The tests only check that the relations of the DTO are passed to it.
+ */
+jest.mock('src/shared/related-entities', () => ({
+  ...jest.requireActual('src/shared/related-entities'),
+  setRelatedEntities: jest.fn(),
+}))
+
 /**
  * Unit test suite for SpeciesService.
  * This test suite covers various scenarios for creating, finding, updating, deleting species records,
@@ -41,9 +55,7 @@ jest.mock('nestjs-typeorm-paginate')
 describe('SpeciesService', () => {
   let service: SpeciesService
   let speciesRepository: Repository<Species>
-  let peopleRepository: Repository<People>
-  let filmRepository: Repository<Film>
-  let planetRepository: Repository<Planet>
+  let transactionManager: Record<string, jest.Mock>
 
   /**
    * Setup for each test in the suite.
@@ -60,25 +72,9 @@ describe('SpeciesService', () => {
             findOne: jest.fn(),
             save: jest.fn(),
             remove: jest.fn(),
-            query: jest.fn().mockResolvedValue([{ maxId: 0 }]),
-          },
-        },
-        {
-          provide: getRepositoryToken(People),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'people1' } as People),
-          },
-        },
-        {
-          provide: getRepositoryToken(Film),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'film1' } as Film),
-          },
-        },
-        {
-          provide: getRepositoryToken(Planet),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'planet1' } as Planet),
+            create: jest.fn((values) => values),
+            update: jest.fn(),
+            query: jest.fn(),
           },
         },
         {
@@ -94,24 +90,18 @@ describe('SpeciesService', () => {
     speciesRepository = module.get<Repository<Species>>(
       getRepositoryToken(Species),
     )
-    peopleRepository = module.get<Repository<People>>(
-      getRepositoryToken(People),
-    )
-    filmRepository = module.get<Repository<Film>>(getRepositoryToken(Film))
-    planetRepository = module.get<Repository<Planet>>(
-      getRepositoryToken(Planet),
-    )
 
     // Mock implementation for paginate function
     jest
       .spyOn(speciesRepository, 'findAndCount')
-      .mockImplementation(async () => [[], 0]),
-      // Define the relatedEntities property in the service
-      ((service as any).repositories = {
-        people: peopleRepository,
-        homeworld: planetRepository,
-        films: filmRepository,
-      })
+      .mockImplementation(async () => [[], 0])
+    // Run transactions with a transactional manager returning the same repository
+    transactionManager = {
+      transaction: jest.fn((run) => run(transactionManager)),
+      existsBy: jest.fn().mockResolvedValue(true),
+      getRepository: jest.fn(() => speciesRepository),
+    }
+    ;(speciesRepository as any).manager = transactionManager
   })
 
   /**
@@ -131,36 +121,62 @@ describe('SpeciesService', () => {
     it('should create a new species', async () => {
       jest.spyOn(speciesRepository, 'findOne').mockResolvedValueOnce(null)
       jest.spyOn(speciesRepository, 'save').mockResolvedValue(newSpecies)
-      jest.spyOn(speciesRepository, 'query').mockResolvedValue([{ maxId: 0 }])
-      jest.spyOn(speciesRepository, 'findOne').mockResolvedValueOnce(newSpecies)
-
-      // Setting up mocks for related entities
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
-      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(planet)
+      // The created species is fetched again with its related entities
+      jest.spyOn(speciesRepository, 'findOne').mockResolvedValueOnce({
+        ...newSpecies,
+        homeworld: planet,
+        people: [people],
+        films: [film],
+      } as Species)
 
       const result = await service.create(createSpeciesDto)
-      expect(result).toEqual(newSpecies)
+      // Related entities are returned as SWAPI-style URLs
+      expect(result).toEqual({
+        ...newSpecies,
+        homeworld: 'planet1',
+        people: ['people1'],
+        films: ['film1'],
+      })
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Species,
+        newSpecies.id,
+        createSpeciesDto,
+        relatedEntitiesMap.species.relatedEntities,
+      )
+    })
+
+    /**
+     * Test to verify that the species is created in a transaction, with its URL derived from the generated ID.
+     */
+    it('should create a new species in a transaction', async () => {
+      jest.spyOn(speciesRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(speciesRepository, 'save')
+        .mockResolvedValue({ ...newSpecies, id: 7 } as Species)
+
+      await service.create(createSpeciesDto)
+
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(speciesRepository.update).toHaveBeenCalledWith(7, {
+        url: `${localUrl}species/7/`,
+      })
+      expect(speciesRepository.query).not.toHaveBeenCalled()
     })
 
     /**
-     * Test to verify that creating a species with an existing name throws an exception.
+     * Test to verify that creating a species with an existing name throws a 409 conflict.
      */
-    it('should return null if a species with the same name already exists', async () => {
+    it('should throw a conflict if a species with the same name already exists', async () => {
       jest.spyOn(speciesRepository, 'findOne').mockResolvedValue(null)
       jest
         .spyOn(speciesRepository, 'findOne')
         .mockResolvedValue(existingSpecies)
 
-      const consoleErrorSpy = jest
-        .spyOn(console, 'error')
-        .mockImplementation(() => {})
-
-      expect(await service.create(createSpeciesDto)).toBeNull()
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        `Species '${createSpeciesDto.name}' already exists!`,
-      )
-      consoleErrorSpy.mockRestore()
+      await expect(service.create(createSpeciesDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+        message: `Species '${createSpeciesDto.name}' already exists`,
+      })
     })
 
     /**
@@ -214,6 +230,15 @@ describe('SpeciesService', () => {
 
       await expect(service.findOne(1)).rejects.toThrow('Repository error')
     })
+
+    /**
+     * Test to verify that an unknown ID throws a 404 error.
+     */
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(speciesRepository, 'findOne').mockResolvedValue(null)
+
+      await expect(service.findOne(99)).rejects.toThrow(NotFoundException)
+    })
   })
 
   /**
@@ -227,9 +252,48 @@ describe('SpeciesService', () => {
      * Test to verify that a species can be updated successfully.
      */
     it('should update a species', async () => {
-      jest.spyOn(speciesRepository, 'save').mockResolvedValue(updatedSpecies)
+      jest.spyOn(speciesRepository, 'findOne').mockResolvedValueOnce(species)
+      jest.spyOn(speciesRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(speciesRepository, 'findOne')
+        .mockResolvedValueOnce(updatedSpecies)
 
       expect(await service.update(1, updatedSpeciesDto)).toEqual(updatedSpecies)
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Species,
+        species.id,
+        updatedSpeciesDto,
+        relatedEntitiesMap.species.relatedEntities,
+      )
+    })
+
+    /**
+     * Test to verify that renaming a species to the name of another species throws a 409 conflict.
+     */
+    it('should throw a conflict if another species has the same name', async () => {
+      jest.spyOn(speciesRepository, 'findOne').mockResolvedValueOnce(species)
+      jest
+        .spyOn(speciesRepository, 'findOne')
+        .mockResolvedValueOnce({ ...existingSpecies, id: 2 } as Species)
+
+      await expect(service.update(1, updatedSpeciesDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      })
+      expect(speciesRepository.save).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Test to verify that updating an unknown species throws a 404 error.
+     */
+    it('should throw a not found error for an unknown species', async () => {
+      jest.spyOn(speciesRepository, 'findOne').mockResolvedValueOnce(null)
+
+      await expect(service.update(99, {})).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      })
+      expect(speciesRepository.save).not.toHaveBeenCalled()
     })
 
     /**
@@ -272,40 +336,15 @@ describe('SpeciesService', () => {
 
       await expect(service.remove(1)).rejects.toThrow('Internal server error')
     })
-  })
-
-  /**
-   * Test suite for the `fillRelatedEntities` method of SpeciesService.
-   */
-  describe('fillRelatedEntities', () => {
-    const newSpecies: Species = new Species()
-
-    /**
-     * Test to verify that related entities are filled correctly.
-     */
-    it('should fill related entities', async () => {
-      jest.spyOn(planetRepository, 'findOne').mockResolvedValue(planet)
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-
-      await service['fillRelatedEntities'](newSpecies, createSpeciesDto)
-
-      expect(newSpecies.homeworld).toEqual(planet)
-      expect(newSpecies.people).toContain(people)
-      expect(newSpecies.films).toContain(film)
-    })
 
     /**
-     * Test to verify that errors in related entity retrieval are handled properly.
+     * Test to verify that removing an unknown ID throws a 404 error.
      */
-    it('should handle errors when filling related entities', async () => {
-      jest
-        .spyOn(peopleRepository, 'findOne')
-        .mockRejectedValue(new Error('People not found'))
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(speciesRepository, 'findOne').mockResolvedValue(null)
 
-      await expect(
-        service['fillRelatedEntities'](newSpecies, createSpeciesDto),
-      ).rejects.toThrow('People not found')
+      await expect(service.remove(99)).rejects.toThrow(NotFoundException)
+      expect(speciesRepository.remove).not.toHaveBeenCalled()
     })
   })
 })
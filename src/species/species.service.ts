@@ -1,19 +1,50 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common'
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
 import { CreateSpeciesDto } from './dto/create-species.dto'
 import { UpdateSpeciesDto } from './dto/update-species.dto'
 import { InjectRepository } from '@nestjs/typeorm'
-import { Repository } from 'typeorm'
+import { EntityManager, FindManyOptions, Repository } from 'typeorm'
 import { Species } from 'src/species/entities/species.entity'
-import { People } from 'src/people/entities/people.entity'
-import { Film } from 'src/films/entities/film.entity'
-import { Planet } from 'src/planets/entities/planet.entity'
 import {
   IPaginationOptions,
   Pagination,
   paginate,
 } from 'nestjs-typeorm-paginate'
 import { getResponceOfException } from 'src/shared/common.functions'
-import { localUrl, relatedEntitiesMap } from 'src/shared/constants'
+import {
+  localUrl,
+  relatedEntitiesMap,
+  searchFieldsMap,
+  unsortableFieldsMap,
+} from 'src/shared/constants'
+import { ListQuery, buildListFindOptions } from 'src/shared/query-filter'
+import {
+  getExpandParameter,
+  getExpandRelations,
+  parseExpandParameter,
+  serializePagination,
+  serializeResource,
+} from 'src/shared/relation-expansion'
+import {
+  CursorPagination,
+  isCursorRequest,
+  paginateByCursor,
+} from 'src/shared/cursor-pagination'
+import {
+  BulkReport,
+  runBulkCreate,
+  runBulkRemove,
+  runBulkUpdate,
+} from 'src/shared/bulk-operations'
+import {
+  getColumnValues,
+  setRelatedEntities,
+} from 'src/shared/related-entities'
 
 /**
  * SpeciesService class
@@ -36,21 +67,13 @@ export class SpeciesService {
   /**
    * Constructor for SpeciesService
    *
-   * Injects the repositories for Species, People, Films, and Planets.
+   * Injects the repository for Species.
    *
    * @param speciesRepository - Repository for Species entities
-   * @param repositories - Object containing repositories for related entities
    */
   constructor(
     @InjectRepository(Species)
     private readonly speciesRepository: Repository<Species>,
-    // Injections of repositories for related entities.
-    @InjectRepository(Film)
-    private readonly filmsRepository: Repository<Film>,
-    @InjectRepository(People)
-    private readonly peopleRepository: Repository<People>,
-    @InjectRepository(Planet)
-    private readonly planetsRepository: Repository<Planet>,
   ) {
     this.relatedEntities = relatedEntitiesMap.species.relatedEntities
   }
@@ -62,63 +85,58 @@ export class SpeciesService {
    * populates its properties from the provided DTO, saves it to the database, and updates related entities.
    *
    * @param createSpeciesDto - The DTO containing data for creating the species.
-   * @returns A promise that resolves with the created species, or null if a species with the same name already exists.
-   * @throws An error if the operation fails.
+   * @returns A promise that resolves with the created species.
+   * @throws HttpException on error (409 if a species with the same name already exists, 400 if a related
+   *         resource does not exist).
    */
   async create(createSpeciesDto: CreateSpeciesDto): Promise<Species> {
     try {
-      // Check for existing Species with the same name
-      const existsSpecies: Species = await this.speciesRepository.findOne({
-        where: { name: createSpeciesDto.name },
-      })
-      if (existsSpecies) {
-        console.error(`Species '${createSpeciesDto.name}' already exists!`)
-        return null
-      }
+      return await this.speciesRepository.manager.transaction(
+        async (manager) => {
+          const speciesRepository: Repository<Species> =
+            manager.getRepository(Species)
+          // Check if a species with the same name already exists
+          const existsSpecies: Species = await speciesRepository.findOne({
+            where: { name: createSpeciesDto.name },
+          })
+          if (existsSpecies) {
+            throw new ConflictException(
+              `Species '${createSpeciesDto.name}' already exists`,
+            )
+          }
 
-      // Create a new Species object
-      const newSpecies: Species = new Species()
-      // Get the last inserted ID
-      const lastIdResult = await this.speciesRepository.query(
-        'SELECT MAX(id) as maxId FROM species',
-      )
-      const nextId: number =
-        lastIdResult.length > 0 ? lastIdResult[0].maxId + 1 : 1
-      newSpecies.url = `${localUrl}species/${nextId}/`
-      // Populate Species properties from createSpeciesDto
-      for (const key in createSpeciesDto) {
-        if (key !== 'url' && !this.relatedEntities.includes(key)) {
-          newSpecies[key] = createSpeciesDto[key]
-        }
-      }
+          // Save the new species to the database without its URL and related entities
+          const savedSpecies: Species = await speciesRepository.save(
+            speciesRepository.create(
+              getColumnValues<Species>(createSpeciesDto, this.relatedEntities),
+            ),
+          )
 
-      // Save the new species to the database without related entities
-      const savedSpecies = await this.speciesRepository.save(newSpecies)
+          // Derive the URL from the generated ID
+          await speciesRepository.update(savedSpecies.id, {
+            url: `${localUrl}species/${savedSpecies.id}/`,
+          })
 
-      // Update URL if necessary
-      if (savedSpecies.id !== nextId) {
-        console.warn(
-          `Predicted ID (${nextId}) doesn't match actual ID (${savedSpecies.id}). Updating URL...`,
-        )
-        await this.speciesRepository.query(
-          'UPDATE species SET url = ? WHERE id = ?',
-          [`${localUrl}species/${savedSpecies.id}/`, savedSpecies.id],
-        )
-        savedSpecies.url = `${localUrl}species/${savedSpecies.id}/`
-      }
+          // Fill in related entities
+          await setRelatedEntities(
+            manager,
+            Species,
+            savedSpecies.id,
+            createSpeciesDto,
+            this.relatedEntities,
+          )
 
-      // Populate related entities
-      await this.fillRelatedEntities(savedSpecies, createSpeciesDto)
+          // Fetch the created species to reflect all changes
+          const createdSpecies: Species = await speciesRepository.findOne({
+            where: { id: savedSpecies.id },
+            relations: this.relatedEntities,
+          })
 
-      // Fetch the updated species to reflect all changes
-      const updatedSpecies: Species = await this.speciesRepository.findOne({
-        where: { id: savedSpecies.id },
-        relations: this.relatedEntities,
-      })
-      // Return the updated species
-      return updatedSpecies
+          return serializeResource(createdSpecies, 'species')
+        },
+      )
     } catch (error) {
-      throw new Error(error)
+      throw getResponceOfException(error)
     }
   }
 
@@ -131,14 +149,52 @@ export class SpeciesService {
    * (e.g., page number, page size, sort order). It returns a `Promise` that resolves
    * to a `Pagination<Species>` object, containing the paginated list of Species
    * entities along with pagination information.
+   * When a `cursor` query parameter is given, the list is paginated with opaque cursors instead.
    *
    * @param options - Pagination options (object of type `IPaginationOptions`)
+   * @param query Field filters, free-text search, sort order and relation expansion from the query string (e.g. `?designation=sentient&sort=name&expand=homeworld`)
    * @returns Promise<Pagination<Species>> - Promise resolving to a paginated list of Species
    * @throws HttpException - Error with code HttpStatus.INTERNAL_SERVER_ERROR if an error occurs
    */
-  async findAll(options: IPaginationOptions): Promise<Pagination<Species>> {
+  async findAll(
+    options: IPaginationOptions,
+    query: ListQuery = {},
+  ): Promise<Pagination<Species> | CursorPagination<Species>> {
+    // Build where/order clauses from the field filters, the search term and the sort parameter
+    const findOptions: FindManyOptions<Species> = buildListFindOptions(
+      this.speciesRepository,
+      query,
+      searchFieldsMap.species,
+      unsortableFieldsMap.species,
+    )
+    // Load the related entities, rendered as URLs unless expanded
+    const expand: string[] = parseExpandParameter(
+      getExpandParameter(query),
+      'species',
+    )
+    findOptions.relations = getExpandRelations('species', expand)
+    findOptions.relationLoadStrategy = 'query'
+    // Use keyset pagination when a cursor is given
+    if (isCursorRequest(query)) {
+      const page: CursorPagination<Species> = await paginateByCursor<Species>(
+        this.speciesRepository,
+        findOptions,
+        {
+          cursor: String(query.cursor),
+          limit: Number(options.limit),
+          route: `${localUrl}species/`,
+          query,
+        },
+      )
+      return serializePagination(page, 'species', expand)
+    }
     try {
-      return paginate<Species>(this.speciesRepository, options)
+      const species: Pagination<Species> = await paginate<Species>(
+        this.speciesRepository,
+        options,
+        findOptions,
+      )
+      return serializePagination(species, 'species', expand)
     } catch (error) {
       throw new HttpException(error.message, HttpStatus.INTERNAL_SERVER_ERROR)
     }
@@ -151,22 +207,29 @@ export class SpeciesService {
    * provided `speciesId` parameter. It uses the `findOne` method of the
    * `speciesRepository` to fetch the Species record with the corresponding ID.
    * It returns a `Promise` that resolves to the `Species` entity if found,
-   * or `null` if no record is found.
+   * or throws a `NotFoundException` if no record is found.
    *
    * @param speciesId - ID of the Species entity (number)
-   * @returns Promise<Species> - Promise resolving to the Species entity or `null` if not found
-   * @throws HttpException - Error with code HttpStatus.NOT_FOUND if the record is not found
+   * @param expand The relations to embed instead of their URLs (e.g. `homeworld,films.planets`)
+   * @returns Promise<Species> - Promise resolving to the Species entity
+   * @throws NotFoundException - If the record is not found
    */
-  async findOne(speciesId: number) {
+  async findOne(
+    speciesId: number,
+    expand?: string | string[],
+  ): Promise<Species> {
+    const expandedRelations: string[] = parseExpandParameter(expand, 'species')
     const species: Species = await this.speciesRepository.findOne({
       where: {
         id: speciesId,
       },
+      relations: getExpandRelations('species', expandedRelations),
+      relationLoadStrategy: 'query',
     })
     if (!species) {
-      throw new HttpException('Species not found!', HttpStatus.NOT_FOUND)
+      throw new NotFoundException(`Species with id ${speciesId} not found`)
     }
-    return species
+    return serializeResource(species, 'species', expandedRelations)
   }
 
   /**
@@ -181,43 +244,62 @@ export class SpeciesService {
    * @param speciesId - ID of the Species entity to update (number)
    * @param updateSpeciesDto - Data transfer object containing Species update data
    * @returns Promise<Species> - Promise resolving to the updated Species entity
-   * @throws HttpException - Error with code HttpStatus.NOT_FOUND if the record is not found
+   * @throws HttpException - Error with code HttpStatus.NOT_FOUND if the record is not found, HttpStatus.CONFLICT
+   *         if another species has the new name, HttpStatus.BAD_REQUEST if a related resource does not exist
    */
   async update(
     speciesId: number,
     updateSpeciesDto: UpdateSpeciesDto,
   ): Promise<Species> {
     try {
-      const species: Species = await this.findOne(speciesId)
-      // Update Species properties based on updateSpeciesDto
-      for (const key in updateSpeciesDto) {
-        if (updateSpeciesDto.hasOwnProperty(key) && updateSpeciesDto[key]) {
-          // Check if the species name is being updated
+      return await this.speciesRepository.manager.transaction(
+        async (manager) => {
+          const speciesRepository: Repository<Species> =
+            manager.getRepository(Species)
+          const species: Species = await speciesRepository.findOne({
+            where: { id: speciesId },
+          })
+          if (!species) {
+            throw new NotFoundException(
+              `Species with id ${speciesId} not found`,
+            )
+          }
+          // Check if the name is being updated to the name of another species
           if (updateSpeciesDto.name) {
-            // Search for an existing species with the new name
-            const existingSpecies = await this.speciesRepository.findOne({
+            const existingSpecies: Species = await speciesRepository.findOne({
               where: {
                 name: updateSpeciesDto.name,
               },
             })
-
-            // If a species with this name exists and it's not the same species we're updating
             if (existingSpecies && existingSpecies.id !== species.id) {
-              console.error(
-                `Species '${updateSpeciesDto.name}' already exists!`,
+              throw new ConflictException(
+                `Species '${updateSpeciesDto.name}' already exists`,
               )
-              return null
             }
           }
-          species[key] = updateSpeciesDto[key]
-        }
-      }
-      // Update 'edited' field with current timestamp
-      species.edited = new Date()
-      // Update related entities
-      await this.fillRelatedEntities(species, updateSpeciesDto)
-      // Save the updated Species entity to the database
-      return await this.speciesRepository.save(species)
+          // Update the species properties and the 'edited' field
+          Object.assign(
+            species,
+            getColumnValues<Species>(updateSpeciesDto, this.relatedEntities),
+          )
+          species.edited = new Date()
+          await speciesRepository.save(species)
+          // Replace the related entities present in the DTO
+          await setRelatedEntities(
+            manager,
+            Species,
+            species.id,
+            updateSpeciesDto,
+            this.relatedEntities,
+          )
+          // Fetch the updated species to reflect all changes
+          const updatedSpecies: Species = await speciesRepository.findOne({
+            where: { id: species.id },
+            relations: this.relatedEntities,
+          })
+          return serializeResource(updatedSpecies, 'species')
+        },
+      )
     } catch (error) {
       throw getResponceOfException(error)
     }
@@ -230,106 +312,85 @@ export class SpeciesService {
    * provided `speciesId` parameter. It first retrieves the Species record using
    * `findOne`. If the record is found, it uses the `remove` method of the
    * `speciesRepository` to delete it. It returns a `Promise` that resolves to `void`
-   * if the deletion is successful, or throws an `HttpException` with code
-   * HttpStatus.NOT_FOUND if the record is not found, or re-throws any other error.
+   * if the deletion is successful, or throws a `NotFoundException` if the record
+   * is not found, or re-throws any other error.
    *
    * @param speciesId - ID of the Species entity to delete (number)
    * @returns Promise<void> - Promise resolving to `void` if deletion is successful
-   * @throws HttpException - Error with code HttpStatus.NOT_FOUND if the record is not found
+   * @throws NotFoundException - If the record is not found
    */
   async remove(speciesId: number): Promise<Species> {
-    const species: Species = await this.findOne(speciesId)
+    const species: Species = await this.speciesRepository.findOne({
+      where: { id: speciesId },
+    })
+    if (!species) {
+      throw new NotFoundException(`Species with id ${speciesId} not found`)
+    }
     return await this.speciesRepository.remove(species)
   }
 
   /**
-   * Fills related entities for the given species entity.
+   * Creates several species in a single transaction
    *
-   * This method populates related entities for the given species entity, such as homeworld and other related data.
-   * It updates the species entity with references to the related entities and inserts the relations into the database,
-   * ignoring any duplicates.
+   * Every item is validated against `CreateSpeciesDto` and created with `create`. The report tells for every item
+   * whether it was created, skipped as a duplicate name or failed; failed items are rolled back alone.
    *
-   * @param species - The species entity to which related entities are to be added.
-   * @param speciesDto - The DTO containing data for creating or updating the species entity.
-   * @returns A promise that resolves when the related entities are successfully filled.
-   * @throws An error if the operation fails.
+   * @param items The request body, an array of `CreateSpeciesDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
    */
-  private async fillRelatedEntities(
-    species: Species,
-    speciesDto: CreateSpeciesDto | UpdateSpeciesDto,
-  ): Promise<void> {
-    let tableName: string
-    let firstParameter: string
-    try {
-      for (const key of this.relatedEntities) {
-        if (key === 'homeworld' && speciesDto.homeworld) {
-          // Handle the homeworld separately
-          const urlToSearch: string = `${localUrl}planets/${speciesDto.homeworld}/`
-          const planet: Planet = await this.planetsRepository.findOne({
-            where: { url: urlToSearch },
-          })
-          species[key] = planet
-          await this.speciesRepository.query(
-            `UPDATE species SET homeworldId = ? WHERE id = ?`,
-            [planet.id, species.id],
-          )
-        } else if (speciesDto[key]) {
-          // Handle other related entities
-          const entities = await Promise.all(
-            speciesDto[key].map(async (url: string) => {
-              const repository = this.getRepositoryByKey(key)
-              const entity = await repository.findOne({ where: { url } })
-              return entity
-            }),
-          )
-
-          // Filter out any null values (entities that weren't found)
-          const validEntities = entities.filter((e: null) => e !== null)
-
-          // Filling in the species property
-          species[key] = validEntities
+  async bulkCreate(items: unknown): Promise<BulkReport> {
+    return runBulkCreate(
+      this.speciesRepository.manager,
+      items,
+      CreateSpeciesDto,
+      (createDto, manager) => this.withManager(manager).create(createDto),
+    )
+  }
 
-          // Use raw query to insert relations, ignoring duplicates
-          if (validEntities.length > 0) {
-            tableName = `${key}_species`
-            firstParameter = `${key}Id`
+  /**
+   * Updates several species in a single transaction
+   *
+   * Every item is an `UpdateSpeciesDto` with the `id` of the resource to update, and is applied with `update`.
+   *
+   * @param items The request body, an array of `UpdateSpeciesDto` objects with an `id`
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkUpdate(items: unknown): Promise<BulkReport> {
+    return runBulkUpdate(
+      this.speciesRepository.manager,
+      Species,
+      items,
+      UpdateSpeciesDto,
+      (id, updateDto, manager) =>
+        this.withManager(manager).update(id, updateDto),
+    )
+  }
 
-            const values = validEntities
-              .map((entity: { id: number }) => `(${entity.id}, ${species.id})`)
-              .join(',')
-            await this.speciesRepository.query(
-              `INSERT IGNORE INTO ${tableName} (${firstParameter}, speciesId) VALUES ${values}`,
-            )
-          }
-        }
-      }
-    } catch (error) {
-      throw new Error(error)
-    }
+  /**
+   * Deletes several species in a single transaction
+   *
+   * @param ids The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkRemove(ids: number[]): Promise<BulkReport> {
+    return runBulkRemove(
+      this.speciesRepository.manager,
+      Species,
+      ids,
+      (id, manager) => this.withManager(manager).remove(id),
+    )
   }
 
   /**
-   * Retrieves the appropriate repository based on the given key.
+   * Returns a copy of this service whose repositories use the given entity manager
    *
-   * This private helper method returns the correct TypeORM repository
-   * based on the provided key. The key is expected to be one of the
-   * related entity types (e.g., 'films', 'starships', 'species', 'vehicles',
-   * 'homeworld'). If the key does not match any of these, an error is thrown.
+   * The bulk operations use it so that every query of `create`, `update` and `remove` runs inside
+   * the transaction of the batch.
    *
-   * @param key The key representing the type of related entity
-   * @returns The corresponding TypeORM repository for the given key
-   * @throws Error if no repository is found for the given key
+   * @param manager The transactional entity manager
+   * @returns A `SpeciesService` bound to the transaction
    */
-  private getRepositoryByKey(key: string): Repository<any> {
-    switch (key) {
-      case 'people':
-        return this.peopleRepository
-      case 'films':
-        return this.filmsRepository
-      case 'homeworld':
-        return this.planetsRepository
-      default:
-        throw new Error(`No repository found for key: ${key}`)
-    }
+  private withManager(manager: EntityManager): SpeciesService {
+    return new SpeciesService(manager.getRepository(Species))
   }
 }
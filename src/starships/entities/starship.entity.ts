@@ -1,4 +1,11 @@
-import { Column, Entity, JoinTable, ManyToMany, OneToMany } from 'typeorm'
+import {
+  Column,
+  Entity,
+  Index,
+  JoinTable,
+  ManyToMany,
+  OneToMany,
+} from 'typeorm'
 import { AbstractEntity } from '../../shared/abstract.entity'
 import { ApiProperty } from '@nestjs/swagger'
 import { Film } from '../../films/entities/film.entity'
@@ -15,6 +22,7 @@ import { People } from '../../people/entities/people.entity'
  * `@nestjs/swagger`'s `ApiProperty` for API documentation.
  */
 @Entity({ name: 'starships' })
+@Index('FT_starships_name_model', ['name', 'model'], { fulltext: true })
 export class Starship extends AbstractEntity<Starship> {
   /**
    * name: The common name of the starship (string)
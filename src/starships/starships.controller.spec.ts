@@ -5,6 +5,8 @@ import { DataSource, Repository } from 'typeorm'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import { Starship } from './entities/starship.entity'
 import { JwtService } from '@nestjs/jwt'
+import { AuditService } from 'src/audit/audit.service'
+import { ImagesService } from 'src/images/images.service'
 import { Reflector } from '@nestjs/core'
 import { Film } from 'src/films/entities/film.entity'
 import { People } from 'src/people/entities/people.entity'
@@ -17,6 +19,7 @@ import {
   updatedStarship,
   updatedStarshipDto,
 } from './test-constants'
+import { describeFindImages } from 'src/images/test-constants'
 
 /**
  * Unit test suite for SiarshipsController.
@@ -26,6 +29,7 @@ import {
 describe('StarshipsController', () => {
   let controller: StarshipsController
   let service: StarshipsService
+  let imagesService: ImagesService
 
   /**
    * Setup for each test in the suite.
@@ -67,11 +71,24 @@ describe('StarshipsController', () => {
             verify: jest.fn(),
           },
         },
+        {
+          provide: AuditService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: ImagesService,
+          useValue: {
+            findAllOfAnEntity: jest.fn(),
+          },
+        },
       ],
     }).compile()
 
     controller = module.get<StarshipsController>(StarshipsController)
     service = module.get<StarshipsService>(StarshipsService)
+    imagesService = module.get<ImagesService>(ImagesService)
   })
 
   /**
@@ -130,7 +147,7 @@ describe('StarshipsController', () => {
       // Mock the service's `findAll` method
       jest.spyOn(service, 'findAll').mockResolvedValue(paginatedResult)
 
-      expect(await controller.findAll(1, 10)).toEqual(paginatedResult)
+      expect(await controller.findAll(1, 10, {})).toEqual(paginatedResult)
     })
   })
 
@@ -144,8 +161,8 @@ describe('StarshipsController', () => {
     it('should return a single starship by ID', async () => {
       // Mock the service's `findOne` method
       jest.spyOn(service, 'findOne').mockResolvedValue(starship)
-      expect(await controller.findOne(1)).toEqual(starship)
-      expect(service.findOne).toHaveBeenCalledWith(1)
+      expect(await controller.findOne(1, {})).toEqual(starship)
+      expect(service.findOne).toHaveBeenCalledWith(1, undefined)
     })
 
     /**
@@ -162,6 +179,8 @@ describe('StarshipsController', () => {
     })
   })
 
+  describeFindImages('starships', () => ({ controller, imagesService }))
+
   /**
    * Test suite for the `update` method of StarshipsController.
    */
@@ -8,7 +8,7 @@ import {
   Delete,
   Query,
   DefaultValuePipe,
-  UseGuards,
+  HttpStatus,
 } from '@nestjs/common'
 import { StarshipsService } from './starships.service'
 import { CreateStarshipDto } from './dto/create-starship.dto'
@@ -23,7 +23,18 @@ import {
 import { Starship } from 'src/starships/entities/starship.entity'
 import { Pagination } from 'nestjs-typeorm-paginate'
 import { limitCount } from 'src/shared/constants'
-import { AdminGuard } from 'src/auth/guards/admin.guard'
+import { ListQuery } from 'src/shared/query-filter'
+import { CursorPagination } from 'src/shared/cursor-pagination'
+import { BulkReport } from 'src/shared/bulk-operations'
+import { BulkRemoveDto } from 'src/shared/dto/bulk-remove.dto'
+import { getExpandParameter } from 'src/shared/relation-expansion'
+import { Public } from 'src/auth/decorators/public.decorator'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Audited } from 'src/audit/decorators/audited.decorator'
+import { Permissions } from 'src/auth/permissions'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { ImagesService } from 'src/images/images.service'
+import { Image } from 'src/images/entities/image.entity'
 
 /**
  * StarshipsController
@@ -34,18 +45,23 @@ import { AdminGuard } from 'src/auth/guards/admin.guard'
  * and utilizes decorators from `@nestjs/swagger` for API documentation.
  *
  * @ApiTags('starships')
+ * @Audited('starships')
  * @Controller('starships')
  */
 @ApiTags('starships')
+@Audited('starships')
 @Controller('starships')
 export class StarshipsController {
-  constructor(private readonly starshipsService: StarshipsService) {}
+  constructor(
+    private readonly starshipsService: StarshipsService,
+    private readonly imagesService: ImagesService,
+  ) {}
 
   /**
-   * Create Starship (Admin)
+   * Create Starship
    *
    * This endpoint creates a new starship resource based on the provided data
-   * in the request body. It requires admin authorization (`@UseGuards(AdminGuard)`)
+   * in the request body. It requires the `starships:write` permission
    * and expects a `CreateStarshipDto` object in the body.
    *
    * @Post('create')
@@ -57,17 +73,77 @@ export class StarshipsController {
    *
    * @returns Promise<Starship> - A promise resolving to the newly created Starship entity
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.StarshipsWrite)
   @Post('create')
   @ApiBody({ type: CreateStarshipDto })
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Create new "starship"' })
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'A resource with the same name already exists',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async create(
     @Body() createStarshipDto: CreateStarshipDto,
   ): Promise<Starship> {
     return this.starshipsService.create(createStarshipDto)
   }
 
+  /**
+   * Creates several "starships" resources in a single transaction
+   *
+   * Every item is validated like the body of `POST /starships/create`. The response reports for every item
+   * whether it was created, skipped as a duplicate name, or failed with its validation errors.
+   *
+   * @param items An array of `CreateStarshipDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.StarshipsWrite)
+  @Post('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: [CreateStarshipDto] })
+  @ApiOperation({ summary: 'Create several "starships" resources' })
+  async bulkCreate(@Body() items: CreateStarshipDto[]): Promise<BulkReport> {
+    return this.starshipsService.bulkCreate(items)
+  }
+
+  /**
+   * Updates several "starships" resources in a single transaction
+   *
+   * @param items An array of `UpdateStarshipDto` objects, each with the `id` of the resource to update
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.StarshipsWrite)
+  @Patch('bulk')
+  @ApiBearerAuth()
+  @ApiBody({
+    type: [UpdateStarshipDto],
+    description:
+      'Every item must also contain the `id` of the resource to update.',
+  })
+  @ApiOperation({ summary: 'Update several "starships" resources' })
+  async bulkUpdate(@Body() items: UpdateStarshipDto[]): Promise<BulkReport> {
+    return this.starshipsService.bulkUpdate(items)
+  }
+
+  /**
+   * Deletes several "starships" resources in a single transaction
+   *
+   * @param bulkRemoveDto The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.StarshipsWrite)
+  @Delete('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: BulkRemoveDto })
+  @ApiOperation({ summary: 'Delete several "starships" resources' })
+  async bulkRemove(@Body() bulkRemoveDto: BulkRemoveDto): Promise<BulkReport> {
+    return this.starshipsService.bulkRemove(bulkRemoveDto.ids)
+  }
+
   /**
    * Get All Starships (Paginated)
    *
@@ -80,21 +156,51 @@ export class StarshipsController {
    * @ApiOperation({ summary: 'Get all the "starships" resources' })
    * @ApiQuery({ name: 'page', required: false })
    * @ApiQuery({ name: 'limit', required: false })
+   * @ApiQuery({ name: 'cursor', required: false })
+   * @ApiQuery({ name: 'sort', required: false })
+   * @ApiQuery({ name: 'search', required: false })
    *
    * @param page (number) - The current page number (optional, defaults to 1)
    * @param limit (number) - The number of starships per page (optional, defaults to limitCount)
+   * @param query (ListQuery) - Field filters, free-text search and sort order, validated against the entity columns
    *
-   * @returns Promise<Pagination<Starship>> - A promise resolving to a paginated list of Starship entities
+   * @returns Promise<Pagination<Starship> | CursorPagination<Starship>> - A promise resolving to a paginated list of Starship entities
+   * (cursor-paginated when a `cursor` query parameter is given)
    */
+  @Public()
   @Get()
   @ApiOperation({ summary: 'Get all the "starships" resources' })
   @ApiQuery({ name: 'page', required: false })
   @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id` and on the first `sort` field.',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description:
+      'Comma-separated fields to sort by, prefix with "-" for descending order. The quantities stored as text (e.g. heights, lengths, populations) cannot be sorted by. Any other column can be used as an exact-match filter (e.g. `?name=...`).',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Free-text search on the name and model of the starships.',
+  })
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `pilots,pilots.homeworld`). `include` is accepted as an alias.',
+  })
   async findAll(
     @Query('page', new DefaultValuePipe(1)) page: number,
     @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
-  ): Promise<Pagination<Starship>> {
-    return this.starshipsService.findAll({ page, limit })
+    @Query() query: ListQuery,
+  ): Promise<Pagination<Starship> | CursorPagination<Starship>> {
+    return this.starshipsService.findAll({ page, limit }, query)
   }
 
   /**
@@ -106,23 +212,74 @@ export class StarshipsController {
    * @ApiOperation({ summary: 'Get resource "starship" by its "id"' })
    *
    * @param id (number) - The unique identifier of the starship resource to retrieve
+   * @param query (ListQuery) - The `expand` (or `include`) query parameter listing the relations to embed
    *
    * @returns Promise<Starship> - A promise resolving to the Starship entity matching the provided ID
    */
+  @Public()
   @Get(':id')
   @ApiOperation({ summary: 'Get resource "starship" by its "id"' })
-  async findOne(@Param('id') id: number): Promise<Starship> {
-    return this.starshipsService.findOne(id)
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `pilots,pilots.homeworld`). `include` is accepted as an alias.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findOne(
+    @Param('id') id: number,
+    @Query() query: ListQuery = {},
+  ): Promise<Starship> {
+    return this.starshipsService.findOne(id, getExpandParameter(query))
+  }
+
+  /**
+   * Retrieves the images of a "starship" resource (paginated)
+   *
+   * @param id The ID of the "starship" resource
+   * @param page The page number to retrieve (defaults to 1)
+   * @param limit The number of items per page (defaults to `limitCount`)
+   * @param cursor The opaque cursor selecting cursor pagination (empty for the first page)
+   * @returns A Promise resolving to a `Pagination<Image>` object containing the paginated list, or a
+   *          `CursorPagination<Image>` in cursor mode
+   */
+  @Public()
+  @Get(':id/images')
+  @ApiOperation({
+    summary: 'Get the images of resource "starship" by its "id"',
+  })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id`.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findImages(
+    @Param('id') id: number,
+    @Query('page', new DefaultValuePipe(1)) page: number,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+    @Query('cursor') cursor?: string,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    if (limit > limitCount) limit = limitCount
+    return this.imagesService.findAllOfAnEntity(
+      'starships',
+      id,
+      { page, limit },
+      cursor,
+    )
   }
 
   /**
-   * Update Starship (Admin)
+   * Update Starship
    *
    * This endpoint updates an existing starship resource by its unique identifier (`id`).
-   * It requires admin authorization (`@UseGuards(AdminGuard)`) and expects a `UpdateStarshipDto`
+   * It requires the `starships:write` permission and expects a `UpdateStarshipDto`
    * object containing the updated details in the request body.
    *
-   * @UseGuards(AdminGuard)
+   * @RequirePermissions(Permissions.StarshipsWrite)
    * @Patch(':id')
    * @ApiBearerAuth()
    * @ApiOperation({ summary: 'Update resource "starship" by its "id"' })
@@ -132,10 +289,19 @@ export class StarshipsController {
    *
    * @returns Promise<Starship> - A promise resolving to the updated Starship entity
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.StarshipsWrite)
   @Patch(':id')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Update resource "starship" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'Another resource already has the same name',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async update(
     @Param('id') id: number,
     @Body() updateStarshipDto: UpdateStarshipDto,
@@ -144,13 +310,13 @@ export class StarshipsController {
   }
 
   /**
-   * Delete Starship (Admin)
+   * Delete Starship
    *
    * This endpoint deletes a starship resource by its unique identifier (`id`).
-   * It requires admin authorization (`@UseGuards(AdminGuard)`) and expects the starship ID
+   * It requires the `starships:write` permission and expects the starship ID
    * as a path parameter.
    *
-   * @UseGuards(AdminGuard)
+   * @RequirePermissions(Permissions.StarshipsWrite)
    * @Delete(':id')
    * @ApiBearerAuth()
    * @ApiOperation({ summary: 'Delete resource "starship" by its "id"' })
@@ -159,10 +325,11 @@ export class StarshipsController {
    *
    * @returns Promise<void> - A promise that resolves after successful deletion (no content returned)
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.StarshipsWrite)
   @Delete(':id')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete resource "starship" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
   async remove(@Param('id') id: number): Promise<Starship> {
     return this.starshipsService.remove(id)
   }
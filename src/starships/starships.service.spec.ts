@@ -1,8 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { HttpStatus, NotFoundException } from '@nestjs/common'
 import { StarshipsService } from './starships.service'
 import { DataSource, Repository } from 'typeorm'
-import { Film } from 'src/films/entities/film.entity'
-import { People } from 'src/people/entities/people.entity'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import { Starship } from './entities/starship.entity'
 import {
@@ -17,7 +16,12 @@ import {
   updatedStarshipDto,
 } from './test-constants'
 import { paginate } from 'nestjs-typeorm-paginate'
-import { paginationOptions } from 'src/shared/constants'
+import {
+  localUrl,
+  paginationOptions,
+  relatedEntitiesMap,
+} from 'src/shared/constants'
+import { setRelatedEntities } from 'src/shared/related-entities'
 
 /**
  * Mocking the `nestjs-typeorm-paginate` module
@@ -31,6 +35,17 @@ import { paginationOptions } from 'src/shared/constants'
  */
 jest.mock('nestjs-typeorm-paginate')
 
+/**
+ * Mocking the relation writer of `src/shared/related-entities`
+ *
+ * The related entities are written with TypeORM's relation query builder, which needs a real
+ * data source. The tests only check that the relations of the DTO are passed to it.
+ */
+jest.mock('src/shared/related-entities', () => ({
+  ...jest.requireActual('src/shared/related-entities'),
+  setRelatedEntities: jest.fn(),
+}))
+
 /**
  * Unit test suite for StarshipsService.
  * This test suite covers various scenarios for creating, finding, updating, deleting starship records,
@@ -39,8 +54,7 @@ jest.mock('nestjs-typeorm-paginate')
 describe('StarshipsService', () => {
   let service: StarshipsService
   let starshipRepository: Repository<Starship>
-  let filmRepository: Repository<Film>
-  let peopleRepository: Repository<People>
+  let transactionManager: Record<string, jest.Mock>
 
   /**
    * Setup for each test in the suite.
@@ -57,19 +71,9 @@ describe('StarshipsService', () => {
             findOne: jest.fn(),
             save: jest.fn(),
             remove: jest.fn(),
-            query: jest.fn().mockResolvedValue([{ maxId: 0 }]),
-          },
-        },
-        {
-          provide: getRepositoryToken(People),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'people1' } as People),
-          },
-        },
-        {
-          provide: getRepositoryToken(Film),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'film1' } as Film),
+            create: jest.fn((values) => values),
+            update: jest.fn(),
+            query: jest.fn(),
           },
         },
         {
@@ -85,20 +89,18 @@ describe('StarshipsService', () => {
     starshipRepository = module.get<Repository<Starship>>(
       getRepositoryToken(Starship),
     )
-    filmRepository = module.get<Repository<Film>>(getRepositoryToken(Film))
-    peopleRepository = module.get<Repository<People>>(
-      getRepositoryToken(People),
-    )
 
     // Mock implementation for paginate function
     jest
       .spyOn(starshipRepository, 'findAndCount')
-      .mockImplementation(async () => [[], 0]),
-      // Define the repositories property in the service
-      ((service as any).repositories = {
-        pilots: peopleRepository,
-        films: filmRepository,
-      })
+      .mockImplementation(async () => [[], 0])
+    // Run transactions with a transactional manager returning the same repository
+    transactionManager = {
+      transaction: jest.fn((run) => run(transactionManager)),
+      existsBy: jest.fn().mockResolvedValue(true),
+      getRepository: jest.fn(() => starshipRepository),
+    }
+    ;(starshipRepository as any).manager = transactionManager
   })
 
   /**
@@ -118,38 +120,60 @@ describe('StarshipsService', () => {
     it('should create a new starship', async () => {
       jest.spyOn(starshipRepository, 'findOne').mockResolvedValueOnce(null)
       jest.spyOn(starshipRepository, 'save').mockResolvedValue(newStarship)
-      jest.spyOn(starshipRepository, 'query').mockResolvedValue([{ maxId: 0 }])
+      // The created starship is fetched again with its related entities
+      jest.spyOn(starshipRepository, 'findOne').mockResolvedValueOnce({
+        ...newStarship,
+        pilots: [people],
+        films: [film],
+      } as Starship)
+
+      const result = await service.create(createStarshipDto)
+      // Related entities are returned as SWAPI-style URLs
+      expect(result).toEqual({
+        ...newStarship,
+        pilots: ['people1'],
+        films: ['film1'],
+      })
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Starship,
+        newStarship.id,
+        createStarshipDto,
+        relatedEntitiesMap.starships.relatedEntities,
+      )
+    })
+
+    /**
+     * Test to verify that the starship is created in a transaction, with its URL derived from the generated ID.
+     */
+    it('should create a new starship in a transaction', async () => {
+      jest.spyOn(starshipRepository, 'findOne').mockResolvedValueOnce(null)
       jest
-        .spyOn(starshipRepository, 'findOne')
-        .mockResolvedValueOnce(newStarship)
+        .spyOn(starshipRepository, 'save')
+        .mockResolvedValue({ ...newStarship, id: 7 } as Starship)
 
-      // Setting up mocks for related entities
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
+      await service.create(createStarshipDto)
 
-      const result = await service.create(createStarshipDto)
-      expect(result).toEqual(newStarship)
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(starshipRepository.update).toHaveBeenCalledWith(7, {
+        url: `${localUrl}starships/7/`,
+      })
+      expect(starshipRepository.query).not.toHaveBeenCalled()
     })
 
     /**
-     * Test to verify that creating a starship with an existing name returns null.
+     * Test to verify that creating a starship with an existing name throws a 409 conflict.
      */
-    it('should return null if a starship with the same name already exists', async () => {
+    it('should throw a conflict if a starship with the same name already exists', async () => {
       jest.spyOn(starshipRepository, 'findOne').mockResolvedValue(null)
       jest
         .spyOn(starshipRepository, 'findOne')
         .mockResolvedValue(existingStarship)
 
-      const consoleErrorSpy = jest
-        .spyOn(console, 'error')
-        .mockImplementation(() => {})
-
-      expect(await service.create(createStarshipDto)).toBeNull()
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        `Starship '${createStarshipDto.name}' already exists!`,
-      )
-
-      consoleErrorSpy.mockRestore()
+      await expect(service.create(createStarshipDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+        message: `Starship '${createStarshipDto.name}' already exists`,
+      })
     })
 
     /**
@@ -203,6 +227,15 @@ describe('StarshipsService', () => {
 
       await expect(service.findOne(1)).rejects.toThrow('Repository error')
     })
+
+    /**
+     * Test to verify that an unknown ID throws a 404 error.
+     */
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(starshipRepository, 'findOne').mockResolvedValue(null)
+
+      await expect(service.findOne(99)).rejects.toThrow(NotFoundException)
+    })
   })
 
   /**
@@ -216,11 +249,52 @@ describe('StarshipsService', () => {
      * Test to verify that a starship can be updated successfully.
      */
     it('should update a starship', async () => {
-      jest.spyOn(starshipRepository, 'save').mockResolvedValue(updatedStarship)
+      jest.spyOn(starshipRepository, 'findOne').mockResolvedValueOnce(starship)
+      jest.spyOn(starshipRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(starshipRepository, 'findOne')
+        .mockResolvedValueOnce(updatedStarship)
 
       expect(await service.update(1, updatedStarshipDto)).toEqual(
         updatedStarship,
       )
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Starship,
+        starship.id,
+        updatedStarshipDto,
+        relatedEntitiesMap.starships.relatedEntities,
+      )
+    })
+
+    /**
+     * Test to verify that renaming a starship to the name of another starship throws a 409 conflict.
+     */
+    it('should throw a conflict if another starship has the same name', async () => {
+      jest.spyOn(starshipRepository, 'findOne').mockResolvedValueOnce(starship)
+      jest
+        .spyOn(starshipRepository, 'findOne')
+        .mockResolvedValueOnce({ ...existingStarship, id: 2 } as Starship)
+
+      await expect(service.update(1, updatedStarshipDto)).rejects.toMatchObject(
+        {
+          status: HttpStatus.CONFLICT,
+        },
+      )
+      expect(starshipRepository.save).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Test to verify that updating an unknown starship throws a 404 error.
+     */
+    it('should throw a not found error for an unknown starship', async () => {
+      jest.spyOn(starshipRepository, 'findOne').mockResolvedValueOnce(null)
+
+      await expect(service.update(99, {})).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      })
+      expect(starshipRepository.save).not.toHaveBeenCalled()
     })
 
     /**
@@ -263,38 +337,15 @@ describe('StarshipsService', () => {
 
       await expect(service.remove(1)).rejects.toThrow('Internal server error')
     })
-  })
-
-  /**
-   * Test suite for the `fillRelatedEntities` method of StarshipsService.
-   */
-  describe('fillRelatedEntities', () => {
-    const newStarship: Starship = new Starship()
-
-    /**
-     * Test to verify that related entities are filled correctly.
-     */
-    it('should fill related entities', async () => {
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-
-      await service['fillRelatedEntities'](newStarship, createStarshipDto)
-
-      expect(newStarship.pilots).toContain(people)
-      expect(newStarship.films).toContain(film)
-    })
 
     /**
-     * Test to verify that errors in related entity lookups are handled properly.
+     * Test to verify that removing an unknown ID throws a 404 error.
      */
-    it('should handle errors in related entity lookups', async () => {
-      jest
-        .spyOn(peopleRepository, 'findOne')
-        .mockRejectedValue(new Error('Internal server error'))
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(starshipRepository, 'findOne').mockResolvedValue(null)
 
-      await expect(
-        service['fillRelatedEntities'](newStarship, createStarshipDto),
-      ).rejects.toThrow('Internal server error')
+      await expect(service.remove(99)).rejects.toThrow(NotFoundException)
+      expect(starshipRepository.remove).not.toHaveBeenCalled()
     })
   })
 })
@@ -1,18 +1,50 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common'
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
 import { CreateStarshipDto } from './dto/create-starship.dto'
 import { UpdateStarshipDto } from './dto/update-starship.dto'
 import { InjectRepository } from '@nestjs/typeorm'
 import { Starship } from 'src/starships/entities/starship.entity'
-import { Repository } from 'typeorm'
-import { People } from 'src/people/entities/people.entity'
-import { Film } from 'src/films/entities/film.entity'
+import { EntityManager, FindManyOptions, Repository } from 'typeorm'
 import {
   IPaginationOptions,
   Pagination,
   paginate,
 } from 'nestjs-typeorm-paginate'
 import { getResponceOfException } from 'src/shared/common.functions'
-import { localUrl, relatedEntitiesMap } from 'src/shared/constants'
+import {
+  localUrl,
+  relatedEntitiesMap,
+  searchFieldsMap,
+  unsortableFieldsMap,
+} from 'src/shared/constants'
+import { ListQuery, buildListFindOptions } from 'src/shared/query-filter'
+import {
+  getExpandParameter,
+  getExpandRelations,
+  parseExpandParameter,
+  serializePagination,
+  serializeResource,
+} from 'src/shared/relation-expansion'
+import {
+  CursorPagination,
+  isCursorRequest,
+  paginateByCursor,
+} from 'src/shared/cursor-pagination'
+import {
+  BulkReport,
+  runBulkCreate,
+  runBulkRemove,
+  runBulkUpdate,
+} from 'src/shared/bulk-operations'
+import {
+  getColumnValues,
+  setRelatedEntities,
+} from 'src/shared/related-entities'
 
 /**
  * StarshipsService class
@@ -28,19 +60,13 @@ export class StarshipsService {
   /**
    * Constructor for StarshipsService
    *
-   * Injects the repositories for Starships, People, and Films.
+   * Injects the repository for Starships.
    *
    * @param starshipsRepository - Repository for Starship entities
-   * @param repositories - Object containing repositories for related entities
    */
   constructor(
     @InjectRepository(Starship)
     private readonly starshipsRepository: Repository<Starship>,
-    // Inject repositories for related entities (pilots, films)
-    @InjectRepository(Film)
-    private readonly filmsRepository: Repository<Film>,
-    @InjectRepository(People)
-    private readonly peopleRepository: Repository<People>,
   ) {
     this.relatedEntities = relatedEntitiesMap.starships.relatedEntities
   }
@@ -49,69 +75,65 @@ export class StarshipsService {
    * Creates a new Starship entity.
    *
    * This method handles the creation of a new Starship entity, including checking for existing entities
-   * with the same name, setting the URL, populating properties from the DTO, and filling related entities.
+   * with the same name, populating properties from the DTO, deriving the URL from the generated ID, and filling
+   * related entities, all in a single transaction.
    *
    * @param createStarshipDto - The DTO containing data for creating the starship.
-   * @returns The created Starship entity with all related entities populated, or null if a starship with the same name already exists.
-   * @throws An error if the operation fails.
+   * @returns The created Starship entity with all related entities populated.
+   * @throws HttpException on error (409 if a starship with the same name already exists, 400 if a related
+   *         resource does not exist).
    */
   async create(createStarshipDto: CreateStarshipDto) {
     try {
-      // Check if a starship with the given name already exists
-      const existsStarship: Starship = await this.starshipsRepository.findOne({
-        where: { name: createStarshipDto.name },
-      })
-      if (existsStarship) {
-        console.error(`Starship '${createStarshipDto.name}' already exists!`)
-        return null
-      }
+      return await this.starshipsRepository.manager.transaction(
+        async (manager) => {
+          const starshipsRepository: Repository<Starship> =
+            manager.getRepository(Starship)
+          // Check if a starship with the same name already exists
+          const existsStarship: Starship = await starshipsRepository.findOne({
+            where: { name: createStarshipDto.name },
+          })
+          if (existsStarship) {
+            throw new ConflictException(
+              `Starship '${createStarshipDto.name}' already exists`,
+            )
+          }
 
-      // Create a new starship instance
-      const newStarship: Starship = new Starship()
-      // Get the last inserted ID to predict the next ID
-      const lastIdResult = await this.starshipsRepository.query(
-        'SELECT MAX(id) as maxId FROM starships',
-      )
-      const nextId: number =
-        lastIdResult.length > 0 ? lastIdResult[0].maxId + 1 : 1
-      // Set the URL for the new starship
-      newStarship.url = `${localUrl}starships/${nextId}/`
-      // Populate the starship's properties from the DTO, excluding the URL and related entities
-      for (const key in createStarshipDto) {
-        if (key !== 'url' && !this.relatedEntities.includes(key)) {
-          newStarship[key] = createStarshipDto[key]
-        }
-      }
+          // Save the new starship to the database without its URL and related entities
+          const savedStarship: Starship = await starshipsRepository.save(
+            starshipsRepository.create(
+              getColumnValues<Starship>(
+                createStarshipDto,
+                this.relatedEntities,
+              ),
+            ),
+          )
 
-      // Save the new starship to the database without related entities
-      const savedStarship = await this.starshipsRepository.save(newStarship)
+          // Derive the URL from the generated ID
+          await starshipsRepository.update(savedStarship.id, {
+            url: `${localUrl}starships/${savedStarship.id}/`,
+          })
 
-      // Update URL if the actual ID does not match the predicted ID
-      if (savedStarship.id !== nextId) {
-        console.warn(
-          `Predicted ID (${nextId}) doesn't match actual ID (${savedStarship.id}). Updating URL...`,
-        )
-        await this.starshipsRepository.query(
-          'UPDATE starships SET url = ? WHERE id = ?',
-          [`${localUrl}starships/${savedStarship.id}/`, savedStarship.id],
-        )
-        savedStarship.url = `${localUrl}starships/${savedStarship.id}/`
-      }
+          // Fill in related entities
+          await setRelatedEntities(
+            manager,
+            Starship,
+            savedStarship.id,
+            createStarshipDto,
+            this.relatedEntities,
+          )
 
-      // Fill related entities for the new starship
-      await this.fillRelatedEntities(savedStarship, createStarshipDto)
+          // Fetch the created starship to reflect all changes
+          const createdStarship: Starship = await starshipsRepository.findOne({
+            where: { id: savedStarship.id },
+            relations: this.relatedEntities,
+          })
 
-      // Fetch the updated starship to reflect all changes
-      const updatedStarships: Starship = await this.starshipsRepository.findOne(
-        {
-          where: { id: savedStarship.id },
-          relations: this.relatedEntities,
+          return serializeResource(createdStarship, 'starships')
         },
       )
-      // Return the updated starship
-      return updatedStarships
     } catch (error) {
-      throw new Error(error)
+      throw getResponceOfException(error)
     }
   }
 
@@ -124,14 +146,52 @@ export class StarshipsService {
    * (e.g., page number, page size, sort order). It returns a `Promise` that resolves
    * to a `Pagination<Starship>` object, containing the paginated list of Starship
    * entities along with pagination information.
+   * When a `cursor` query parameter is given, the list is paginated with opaque cursors instead.
    *
    * @param options - Pagination options (object of type `IPaginationOptions`)
+   * @param query Field filters, free-text search, sort order and relation expansion from the query string (e.g. `?starship_class=Starfighter&sort=-manufacturer&expand=pilots`)
    * @returns Promise<Pagination<Starship>> - Promise resolving to a paginated list of Starships
    * @throws HttpException - Error with code HttpStatus.INTERNAL_SERVER_ERROR if an error occurs
    */
-  async findAll(options: IPaginationOptions): Promise<Pagination<Starship>> {
+  async findAll(
+    options: IPaginationOptions,
+    query: ListQuery = {},
+  ): Promise<Pagination<Starship> | CursorPagination<Starship>> {
+    // Build where/order clauses from the field filters, the search term and the sort parameter
+    const findOptions: FindManyOptions<Starship> = buildListFindOptions(
+      this.starshipsRepository,
+      query,
+      searchFieldsMap.starships,
+      unsortableFieldsMap.starships,
+    )
+    // Load the related entities, rendered as URLs unless expanded
+    const expand: string[] = parseExpandParameter(
+      getExpandParameter(query),
+      'starships',
+    )
+    findOptions.relations = getExpandRelations('starships', expand)
+    findOptions.relationLoadStrategy = 'query'
+    // Use keyset pagination when a cursor is given
+    if (isCursorRequest(query)) {
+      const page: CursorPagination<Starship> = await paginateByCursor<Starship>(
+        this.starshipsRepository,
+        findOptions,
+        {
+          cursor: String(query.cursor),
+          limit: Number(options.limit),
+          route: `${localUrl}starships/`,
+          query,
+        },
+      )
+      return serializePagination(page, 'starships', expand)
+    }
     try {
-      return paginate<Starship>(this.starshipsRepository, options)
+      const starships: Pagination<Starship> = await paginate<Starship>(
+        this.starshipsRepository,
+        options,
+        findOptions,
+      )
+      return serializePagination(starships, 'starships', expand)
     } catch (error) {
       throw new HttpException(error.message, HttpStatus.INTERNAL_SERVER_ERROR)
     }
@@ -144,19 +204,32 @@ export class StarshipsService {
    * provided `starshipId` parameter. It uses the `findOne` method of the
    * `starshipsRepository` to fetch the Starship record with the corresponding ID.
    * It returns a `Promise` that resolves to the `Starship` entity if found,
-   * or `null` if no record is found.
+   * or throws a `NotFoundException` if no record is found.
    *
    * @param starshipId - ID of the Starship entity (number)
-   * @returns Promise<Starship> - Promise resolving to the Starship entity or `null` if not found
+   * @param expand The relations to embed instead of their URLs (e.g. `pilots,pilots.homeworld`)
+   * @returns Promise<Starship> - Promise resolving to the Starship entity
+   * @throws NotFoundException - If the record is not found
    */
-  async findOne(starshipId: number) {
+  async findOne(
+    starshipId: number,
+    expand?: string | string[],
+  ): Promise<Starship> {
+    const expandedRelations: string[] = parseExpandParameter(
+      expand,
+      'starships',
+    )
     const starship: Starship = await this.starshipsRepository.findOne({
       where: {
         id: starshipId,
       },
+      relations: getExpandRelations('starships', expandedRelations),
+      relationLoadStrategy: 'query',
     })
-    // Return the Starship entity or 'null'
-    return starship
+    if (!starship) {
+      throw new NotFoundException(`Starship with id ${starshipId} not found`)
+    }
+    return serializeResource(starship, 'starships', expandedRelations)
   }
 
   /**
@@ -178,37 +251,55 @@ export class StarshipsService {
     updateStarshipDto: UpdateStarshipDto,
   ): Promise<Starship> {
     try {
-      const starship: Starship = await this.findOne(starshipId)
-      // Return null if not found
-      if (!starship) return null
-      // Update 'starship' properties based on data from 'updateStarshipDto'
-      for (const key in updateStarshipDto) {
-        if (updateStarshipDto.hasOwnProperty(key) && updateStarshipDto[key]) {
-          // Check if the starship name is being updated
+      return await this.starshipsRepository.manager.transaction(
+        async (manager) => {
+          const starshipsRepository: Repository<Starship> =
+            manager.getRepository(Starship)
+          const starship: Starship = await starshipsRepository.findOne({
+            where: { id: starshipId },
+          })
+          if (!starship) {
+            throw new NotFoundException(
+              `Starship with id ${starshipId} not found`,
+            )
+          }
+          // Check if the name is being updated to the name of another starship
           if (updateStarshipDto.name) {
-            // Search for an existing starship with the new name
-            const existingStarship = await this.starshipsRepository.findOne({
-              where: {
-                name: updateStarshipDto.name,
-              },
-            })
-
-            // If a starship with this name exists and it's not the same starship we're updating
+            const existingStarship: Starship =
+              await starshipsRepository.findOne({
+                where: {
+                  name: updateStarshipDto.name,
+                },
+              })
             if (existingStarship && existingStarship.id !== starship.id) {
-              console.error(
-                `Starship '${updateStarshipDto.name}' already exists!`,
+              throw new ConflictException(
+                `Starship '${updateStarshipDto.name}' already exists`,
               )
-              return null
             }
           }
-          starship[key] = updateStarshipDto[key]
-        }
-      }
-      // Update the 'edited' field
-      starship.edited = new Date()
-      // Update data about 'Starship'
-      await this.fillRelatedEntities(starship, updateStarshipDto)
-      return await this.starshipsRepository.save(starship)
+          // Update the starship properties and the 'edited' field
+          Object.assign(
+            starship,
+            getColumnValues<Starship>(updateStarshipDto, this.relatedEntities),
+          )
+          starship.edited = new Date()
+          await starshipsRepository.save(starship)
+          // Replace the related entities present in the DTO
+          await setRelatedEntities(
+            manager,
+            Starship,
+            starship.id,
+            updateStarshipDto,
+            this.relatedEntities,
+          )
+          // Fetch the updated starship to reflect all changes
+          const updatedStarship: Starship = await starshipsRepository.findOne({
+            where: { id: starship.id },
+            relations: this.relatedEntities,
+          })
+          return serializeResource(updatedStarship, 'starships')
+        },
+      )
     } catch (error) {
       throw getResponceOfException(error)
     }
@@ -221,95 +312,84 @@ export class StarshipsService {
    * provided `starshipId` parameter. It first retrieves the Starship record using
    * `findOne`. If the record is found, it uses the `remove` method of the
    * `starshipsRepository` to delete it. It returns a `Promise` that resolves to `void`
-   * if the deletion is successful.
+   * if the deletion is successful, or throws a `NotFoundException` if the record is not found.
    *
    * @param starshipId - ID of the Starship entity to delete (number)
    * @returns Promise<void> - Promise resolving to `void` if deletion is successful
+   * @throws NotFoundException - If the record is not found
    */
   async remove(starshipId: number): Promise<Starship> {
-    const starship: Starship = await this.findOne(starshipId)
+    const starship: Starship = await this.starshipsRepository.findOne({
+      where: { id: starshipId },
+    })
+    if (!starship) {
+      throw new NotFoundException(`Starship with id ${starshipId} not found`)
+    }
     return await this.starshipsRepository.remove(starship)
   }
 
   /**
-   * Fills related entities for a given Starship.
+   * Creates several starships in a single transaction
    *
-   * This method populates the related entities for a Starship entity based on the provided DTO.
-   * It finds the corresponding related entities in the database, filters out any null values,
-   * and inserts the relationships into the appropriate join tables using raw SQL queries.
+   * Every item is validated against `CreateStarshipDto` and created with `create`. The report tells for every item
+   * whether it was created, skipped as a duplicate name or failed; failed items are rolled back alone.
    *
-   * @param starship - The Starship entity to populate related entities for.
-   * @param starshipDto - The DTO containing data for creating or updating the starship, including related entities.
-   * @returns A promise that resolves when the related entities have been populated.
-   * @throws An error if the operation fails.
+   * @param items The request body, an array of `CreateStarshipDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
    */
-  private async fillRelatedEntities(
-    starship: Starship,
-    starshipDto: CreateStarshipDto | UpdateStarshipDto,
-  ): Promise<void> {
-    let tableName: string
-    let firstParameter: string
-    try {
-      for (const key of this.relatedEntities) {
-        if (starshipDto[key]) {
-          const entities = await Promise.all(
-            starshipDto[key].map(async (url: string) => {
-              const repository = this.getRepositoryByKey(key)
-              const entity = await repository.findOne({ where: { url } })
-              return entity
-            }),
-          )
-
-          // Filter out any null values (entities that weren't found)
-          const validEntities = entities.filter((obj: null) => obj !== null)
-
-          // Filling in the starship property
-          starship[key] = validEntities
+  async bulkCreate(items: unknown): Promise<BulkReport> {
+    return runBulkCreate(
+      this.starshipsRepository.manager,
+      items,
+      CreateStarshipDto,
+      (createDto, manager) => this.withManager(manager).create(createDto),
+    )
+  }
 
-          // Use raw query to insert relations, ignoring duplicates
-          if (validEntities.length > 0) {
-            if (key === 'pilots') {
-              tableName = `people_starships`
-              firstParameter = `peopleId`
-            } else {
-              tableName = `${key}_starships`
-              firstParameter = `${key}Id`
-            }
+  /**
+   * Updates several starships in a single transaction
+   *
+   * Every item is an `UpdateStarshipDto` with the `id` of the resource to update, and is applied with `update`.
+   *
+   * @param items The request body, an array of `UpdateStarshipDto` objects with an `id`
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkUpdate(items: unknown): Promise<BulkReport> {
+    return runBulkUpdate(
+      this.starshipsRepository.manager,
+      Starship,
+      items,
+      UpdateStarshipDto,
+      (id, updateDto, manager) =>
+        this.withManager(manager).update(id, updateDto),
+    )
+  }
 
-            const values = validEntities
-              .map((entity: { id: number }) => `(${entity.id}, ${starship.id})`)
-              .join(',')
-            await this.starshipsRepository.query(
-              `INSERT IGNORE INTO ${tableName} (${firstParameter}, starshipsId) VALUES ${values}`,
-            )
-          }
-        }
-      }
-    } catch (error) {
-      throw getResponceOfException(error)
-    }
+  /**
+   * Deletes several starships in a single transaction
+   *
+   * @param ids The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkRemove(ids: number[]): Promise<BulkReport> {
+    return runBulkRemove(
+      this.starshipsRepository.manager,
+      Starship,
+      ids,
+      (id, manager) => this.withManager(manager).remove(id),
+    )
   }
 
   /**
-   * Retrieves the appropriate repository based on the given key.
+   * Returns a copy of this service whose repositories use the given entity manager
    *
-   * This private helper method returns the correct TypeORM repository
-   * based on the provided key. The key is expected to be one of the
-   * related entity types (e.g., 'films', 'pilots').
-   * If the key does not match any of these, an error is thrown.
+   * The bulk operations use it so that every query of `create`, `update` and `remove` runs inside
+   * the transaction of the batch.
    *
-   * @param key The key representing the type of related entity
-   * @returns The corresponding TypeORM repository for the given key
-   * @throws Error if no repository is found for the given key
+   * @param manager The transactional entity manager
+   * @returns A `StarshipsService` bound to the transaction
    */
-  private getRepositoryByKey(key: string): Repository<any> {
-    switch (key) {
-      case 'pilots':
-        return this.peopleRepository
-      case 'films':
-        return this.filmsRepository
-      default:
-        throw new Error(`No repository found for key: ${key}`)
-    }
+  private withManager(manager: EntityManager): StarshipsService {
+    return new StarshipsService(manager.getRepository(Starship))
   }
 }
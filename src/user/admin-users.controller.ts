@@ -0,0 +1,241 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+} from '@nestjs/common'
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger'
+import { Pagination } from 'nestjs-typeorm-paginate'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Audited } from 'src/audit/decorators/audited.decorator'
+import { Permissions } from 'src/auth/permissions'
+import { UserRoles, limitCount, localUrl } from 'src/shared/constants'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { AdminUsersService } from './admin-users.service'
+import { UserResponseDto } from './dto/user-response.dto'
+import { ChangeRoleDto } from './dto/change-role.dto'
+import { UserAdminAction } from './entities/user-admin-action.entity'
+
+/**
+ * AdminUsersController: Management of user accounts by administrators and moderators
+ *
+ * This controller exposes the `/admin/users` resource. Reading the accounts requires the
+ * `users:read` permission, disabling, enabling, resetting and unlocking them `users:moderate`, and changing
+ * roles `users:manage`. Changes to an account are recorded with the ID of the administrator or
+ * moderator and the date (`GET /admin/users/:id/actions`), and end the sessions of the user. Every change,
+ * successful or not, is also recorded in the audit log (`GET /admin/audit`).
+ */
+@ApiTags('admin')
+@ApiBearerAuth()
+@Audited('admin.users')
+@Controller('/admin/users')
+export class AdminUsersController {
+  constructor(private readonly adminUsersService: AdminUsersService) {}
+
+  /**
+   * Lists the users, paginated
+   *
+   * @param page The page number (default 1)
+   * @param limit The page size (capped at `limitCount`)
+   * @param search An optional term searched in the usernames and email addresses
+   * @param role An optional role the users must have
+   * @returns A Promise resolving to a paginated list of `UserResponseDto`
+   */
+  @RequirePermissions(Permissions.UsersRead)
+  @Get()
+  @ApiOperation({ summary: 'List the users' })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Part of the username or email address.',
+  })
+  @ApiQuery({ name: 'role', required: false, enum: UserRoles })
+  async findAll(
+    @Query('page', new DefaultValuePipe(1)) page: number,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+    @Query('search') search?: string,
+    @Query('role') role?: UserRoles,
+  ): Promise<Pagination<UserResponseDto>> {
+    if (limit > limitCount) limit = limitCount
+    return this.adminUsersService.findAll(
+      { page, limit, route: `${localUrl}admin/users` },
+      search,
+      Object.values(UserRoles).includes(role) ? role : undefined,
+    )
+  }
+
+  /**
+   * Returns a user by ID
+   *
+   * @param id The ID of the user
+   * @returns A Promise resolving to the `UserResponseDto` of the user
+   */
+  @RequirePermissions(Permissions.UsersRead)
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a user' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The user does not exist')
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<UserResponseDto> {
+    return this.adminUsersService.findOne(id)
+  }
+
+  /**
+   * Lists the administrator actions taken on a user account
+   *
+   * @param id The ID of the user
+   * @returns A Promise resolving to the recorded actions, the latest first
+   */
+  @RequirePermissions(Permissions.UsersRead)
+  @Get(':id/actions')
+  @ApiOperation({ summary: 'List the administrator actions on a user' })
+  async findActions(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<UserAdminAction[]> {
+    return this.adminUsersService.findActions(id)
+  }
+
+  /**
+   * Changes the role of a user
+   *
+   * @param req The HTTP request object (its `user` is the administrator, set by `JwtAuthGuard`)
+   * @param id The ID of the user
+   * @param changeRoleDto The new role (from request body)
+   * @returns A Promise resolving to the updated `UserResponseDto`
+   */
+  @RequirePermissions(Permissions.UsersManage)
+  @Patch(':id/role')
+  @ApiOperation({ summary: 'Change the role of a user' })
+  @ApiBody({ type: ChangeRoleDto })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The user does not exist')
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid role, or the administrator is changing their own role',
+  )
+  async changeRole(
+    @Req() req,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() changeRoleDto: ChangeRoleDto,
+  ): Promise<UserResponseDto> {
+    return this.adminUsersService.changeRole(
+      req.user.userId,
+      id,
+      changeRoleDto.role,
+    )
+  }
+
+  /**
+   * Disables a user account
+   *
+   * @param req The HTTP request object (its `user` is the administrator or moderator, set by `JwtAuthGuard`)
+   * @param id The ID of the user
+   * @returns A Promise resolving to the updated `UserResponseDto`
+   */
+  @RequirePermissions(Permissions.UsersModerate)
+  @Post(':id/disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable a user account' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The user does not exist')
+  @ApiProblemResponse(
+    HttpStatus.FORBIDDEN,
+    'The user has permissions the moderator does not have',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'The administrator is disabling their own account',
+  )
+  async disable(
+    @Req() req,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<UserResponseDto> {
+    return this.adminUsersService.setDisabled(req.user, id, true)
+  }
+
+  /**
+   * Enables a disabled user account again
+   *
+   * @param req The HTTP request object (its `user` is the administrator or moderator, set by `JwtAuthGuard`)
+   * @param id The ID of the user
+   * @returns A Promise resolving to the updated `UserResponseDto`
+   */
+  @RequirePermissions(Permissions.UsersModerate)
+  @Post(':id/enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Enable a user account' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The user does not exist')
+  @ApiProblemResponse(
+    HttpStatus.FORBIDDEN,
+    'The user has permissions the moderator does not have',
+  )
+  async enable(
+    @Req() req,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<UserResponseDto> {
+    return this.adminUsersService.setDisabled(req.user, id, false)
+  }
+
+  /**
+   * Forces a password reset
+   *
+   * The password stops working and the user is emailed a password reset token, to choose a new
+   * one at `POST /auth/reset-password`; the account cannot be used until then.
+   *
+   * @param req The HTTP request object (its `user` is the administrator or moderator, set by `JwtAuthGuard`)
+   * @param id The ID of the user
+   * @returns A Promise resolving to the `UserResponseDto` of the user
+   */
+  @RequirePermissions(Permissions.UsersModerate)
+  @Post(':id/password-reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Force a password reset' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The user does not exist')
+  @ApiProblemResponse(
+    HttpStatus.FORBIDDEN,
+    'The user has permissions the moderator does not have',
+  )
+  async forcePasswordReset(
+    @Req() req,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<UserResponseDto> {
+    return this.adminUsersService.forcePasswordReset(req.user, id)
+  }
+
+  /**
+   * Unlocks an account locked after too many failed logins
+   *
+   * @param req The HTTP request object (its `user` is the administrator or moderator, set by `JwtAuthGuard`)
+   * @param id The ID of the user
+   * @returns A Promise resolving to the `UserResponseDto` of the user
+   */
+  @RequirePermissions(Permissions.UsersModerate)
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unlock a user account locked after failed logins' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The user does not exist')
+  @ApiProblemResponse(
+    HttpStatus.FORBIDDEN,
+    'The user has permissions the moderator does not have',
+  )
+  async unlock(
+    @Req() req,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<UserResponseDto> {
+    return this.adminUsersService.unlock(req.user, id)
+  }
+}
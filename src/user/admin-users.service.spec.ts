@@ -0,0 +1,241 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { BadRequestException, ForbiddenException } from '@nestjs/common'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { Like, Repository } from 'typeorm'
+import { AdminUsersService } from './admin-users.service'
+import { User } from './entities/user.entity'
+import {
+  UserAdminAction,
+  UserAdminActions,
+} from './entities/user-admin-action.entity'
+import { AuthService } from 'src/auth/auth.service'
+import { LoginThrottleService } from 'src/auth/login-throttle.service'
+import { AuthenticatedUser, UserRoles } from 'src/shared/constants'
+
+/**
+ * Unit test suite for AdminUsersService.
+ * The repositories, the transaction, the sessions and the login throttling are mocked.
+ */
+describe('AdminUsersService', () => {
+  const admin: AuthenticatedUser = { userId: 'admin-1', role: UserRoles.Admin }
+  const moderator: AuthenticatedUser = {
+    userId: 'moderator-1',
+    role: UserRoles.Moderator,
+  }
+  let service: AdminUsersService
+  let usersRepository: Record<string, any>
+  let actionsRepository: Record<string, jest.Mock>
+  let transactionActionsRepository: Record<string, jest.Mock>
+  let authService: Record<string, jest.Mock>
+  let loginThrottleService: Record<string, jest.Mock>
+  let user: User
+
+  beforeEach(async () => {
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      userName: 'luke',
+      email: 'luke@tatooine.org',
+      password: 'hash',
+      role: UserRoles.User,
+      isDisabled: false,
+      passwordResetRequired: false,
+    })
+    transactionActionsRepository = { save: jest.fn() }
+    const transactionUsersRepository = { save: jest.fn(async (saved) => saved) }
+    // A Repository instance, as told apart from a query builder by `paginate`
+    usersRepository = Object.setPrototypeOf(
+      {
+        metadata: { columns: [] },
+        findOne: jest.fn(async () => user),
+        find: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        manager: {
+          transaction: jest.fn(async (run) =>
+            run({
+              getRepository: (entity) =>
+                entity === User
+                  ? transactionUsersRepository
+                  : transactionActionsRepository,
+            }),
+          ),
+        },
+      },
+      Repository.prototype,
+    )
+    actionsRepository = { find: jest.fn(), save: jest.fn() }
+    authService = {
+      revokeUserSessions: jest.fn(),
+      sendPasswordReset: jest.fn(),
+    }
+    loginThrottleService = { unlock: jest.fn() }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminUsersService,
+        { provide: getRepositoryToken(User), useValue: usersRepository },
+        {
+          provide: getRepositoryToken(UserAdminAction),
+          useValue: actionsRepository,
+        },
+        { provide: AuthService, useValue: authService },
+        { provide: LoginThrottleService, useValue: loginThrottleService },
+      ],
+    }).compile()
+
+    service = module.get<AdminUsersService>(AdminUsersService)
+  })
+
+  /**
+   * Test suite for the `findAll` method of AdminUsersService.
+   */
+  describe('findAll', () => {
+    it('should search the usernames and emails of a role, with the wildcards escaped', async () => {
+      await service.findAll({ page: 1, limit: 10 }, '50%_off', UserRoles.Editor)
+
+      expect(usersRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: [
+            { role: UserRoles.Editor, userName: Like('%50\\%\\_off%') },
+            { role: UserRoles.Editor, email: Like('%50\\%\\_off%') },
+          ],
+          order: { userName: 'ASC' },
+        }),
+      )
+    })
+  })
+
+  /**
+   * Test suite for the `changeRole` method of AdminUsersService.
+   */
+  describe('changeRole', () => {
+    it('should save the role with the record of the action and end the sessions', async () => {
+      const response = await service.changeRole(
+        'admin-1',
+        'user-1',
+        UserRoles.Editor,
+      )
+
+      expect(response.role).toBe(UserRoles.Editor)
+      expect(transactionActionsRepository.save).toHaveBeenCalledWith({
+        userId: 'user-1',
+        adminId: 'admin-1',
+        action: UserAdminActions.RoleChanged,
+        details: 'user -> editor',
+      })
+      expect(authService.revokeUserSessions).toHaveBeenCalledWith('user-1')
+    })
+
+    it('should not let administrators change their own role', async () => {
+      await expect(
+        service.changeRole('admin-1', 'admin-1', UserRoles.User),
+      ).rejects.toThrow(BadRequestException)
+      expect(usersRepository.manager.transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Test suite for the `setDisabled` method of AdminUsersService.
+   */
+  describe('setDisabled', () => {
+    it('should disable an account and end its sessions', async () => {
+      await expect(
+        service.setDisabled(moderator, 'user-1', true),
+      ).resolves.toEqual(expect.objectContaining({ isDisabled: true }))
+      expect(transactionActionsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          adminId: 'moderator-1',
+          action: UserAdminActions.Disabled,
+        }),
+      )
+      expect(authService.revokeUserSessions).toHaveBeenCalledWith('user-1')
+    })
+
+    it('should not let administrators disable their own account', async () => {
+      await expect(service.setDisabled(admin, 'admin-1', true)).rejects.toThrow(
+        BadRequestException,
+      )
+    })
+  })
+
+  /**
+   * Test suite of the permission checks shared by the moderation actions: the actor must have every
+   * permission of the role of the user.
+   */
+  describe.each([
+    [
+      'setDisabled',
+      (actor: AuthenticatedUser) => service.setDisabled(actor, 'user-1', true),
+    ],
+    [
+      'forcePasswordReset',
+      (actor: AuthenticatedUser) => service.forcePasswordReset(actor, 'user-1'),
+    ],
+    ['unlock', (actor: AuthenticatedUser) => service.unlock(actor, 'user-1')],
+  ])('%s', (_, act) => {
+    it.each([UserRoles.User, UserRoles.Moderator])(
+      'should let a moderator act on a %s',
+      async (role) => {
+        user.role = role
+
+        await expect(act(moderator)).resolves.toBeDefined()
+      },
+    )
+
+    it.each([UserRoles.Admin, UserRoles.Editor])(
+      'should not let a moderator act on an %s',
+      async (role) => {
+        user.role = role
+
+        await expect(act(moderator)).rejects.toThrow(
+          new ForbiddenException(
+            `Your role cannot manage the accounts with the '${role}' role`,
+          ),
+        )
+        expect(usersRepository.manager.transaction).not.toHaveBeenCalled()
+        expect(actionsRepository.save).not.toHaveBeenCalled()
+        expect(authService.revokeUserSessions).not.toHaveBeenCalled()
+        expect(authService.sendPasswordReset).not.toHaveBeenCalled()
+        expect(loginThrottleService.unlock).not.toHaveBeenCalled()
+      },
+    )
+
+    it('should let an administrator act on another administrator', async () => {
+      user.role = UserRoles.Admin
+
+      await expect(act(admin)).resolves.toBeDefined()
+    })
+  })
+
+  /**
+   * Test suite for the `forcePasswordReset` method of AdminUsersService.
+   */
+  describe('forcePasswordReset', () => {
+    it('should replace the password, require a reset and send the reset email', async () => {
+      await service.forcePasswordReset(admin, 'user-1')
+
+      expect(user.password).not.toBe('hash')
+      expect(user.passwordResetRequired).toBe(true)
+      expect(transactionActionsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ action: UserAdminActions.PasswordReset }),
+      )
+      expect(authService.revokeUserSessions).toHaveBeenCalledWith('user-1')
+      expect(authService.sendPasswordReset).toHaveBeenCalledWith(user, true)
+    })
+  })
+
+  /**
+   * Test suite for the `unlock` method of AdminUsersService.
+   */
+  describe('unlock', () => {
+    it('should clear the failed logins without ending the sessions', async () => {
+      await service.unlock(moderator, 'user-1')
+
+      expect(loginThrottleService.unlock).toHaveBeenCalledWith('luke')
+      expect(actionsRepository.save).toHaveBeenCalledWith({
+        userId: 'user-1',
+        adminId: 'moderator-1',
+        action: UserAdminActions.Unlocked,
+      })
+      expect(authService.revokeUserSessions).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,293 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { EntityManager, FindOptionsWhere, Like, Repository } from 'typeorm'
+import {
+  IPaginationOptions,
+  Pagination,
+  paginate,
+} from 'nestjs-typeorm-paginate'
+import { randomBytes } from 'crypto'
+import { User } from './entities/user.entity'
+import {
+  UserAdminAction,
+  UserAdminActions,
+} from './entities/user-admin-action.entity'
+import { UserResponseDto, toUserResponse } from './dto/user-response.dto'
+import { AuthenticatedUser, UserRoles } from 'src/shared/constants'
+import { hashPassword } from 'src/shared/common.functions'
+import { AuthService } from 'src/auth/auth.service'
+import { hasPermissions, rolePermissions } from 'src/auth/permissions'
+import { LoginThrottleService } from 'src/auth/login-throttle.service'
+
+/**
+ * AdminUsersService
+ *
+ * This service implements the administration of user accounts behind `/admin/users`: listing and
+ * searching users, changing their role, disabling and enabling accounts, forcing password resets
+ * and unlocking the accounts locked after failed logins. Every change is saved together with a
+ * `UserAdminAction` recording which administrator made it and when, and ends the sessions of the
+ * affected user so that their tokens reflect it.
+ * Moderators can only disable, enable and reset the accounts whose permissions they also have
+ * (e.g. not the administrators).
+ */
+@Injectable()
+export class AdminUsersService {
+  constructor(
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    @InjectRepository(UserAdminAction)
+    private readonly actionsRepository: Repository<UserAdminAction>,
+    private readonly authService: AuthService,
+    private readonly loginThrottleService: LoginThrottleService,
+  ) {}
+
+  /**
+   * Retrieves a paginated list of users
+   *
+   * @param options The pagination options
+   * @param search An optional term searched in the usernames and email addresses
+   * @param role An optional role the users must have
+   * @returns A Promise resolving to a paginated list of `UserResponseDto`
+   */
+  async findAll(
+    options: IPaginationOptions,
+    search?: string,
+    role?: UserRoles,
+  ): Promise<Pagination<UserResponseDto>> {
+    const roleFilter: FindOptionsWhere<User> = role ? { role } : {}
+    let where: FindOptionsWhere<User>[] = [roleFilter]
+    if (search) {
+      // Escape the LIKE wildcards of the search term
+      const pattern: string = `%${search.replace(/[\\%_]/g, '\\$&')}%`
+      where = [
+        { ...roleFilter, userName: Like(pattern) },
+        { ...roleFilter, email: Like(pattern) },
+      ]
+    }
+    const page: Pagination<User> = await paginate<User>(
+      this.usersRepository,
+      options,
+      { where, order: { userName: 'ASC' } },
+    )
+    return new Pagination(page.items.map(toUserResponse), page.meta, page.links)
+  }
+
+  /**
+   * Retrieves a user by their ID
+   *
+   * @param userId The ID of the user
+   * @returns A Promise resolving to the `UserResponseDto` of the user
+   * @throws NotFoundException If the user does not exist
+   */
+  async findOne(userId: string): Promise<UserResponseDto> {
+    return toUserResponse(await this.getUser(userId))
+  }
+
+  /**
+   * Lists the administrator actions taken on a user account, the latest first
+   *
+   * @param userId The ID of the user
+   * @returns A Promise resolving to the recorded actions
+   */
+  async findActions(userId: string): Promise<UserAdminAction[]> {
+    return this.actionsRepository.find({
+      where: { userId },
+      order: { created: 'DESC', id: 'DESC' },
+    })
+  }
+
+  /**
+   * Changes the role of a user
+   *
+   * @param adminId The ID of the administrator taking the action
+   * @param userId The ID of the user
+   * @param role The new role
+   * @returns A Promise resolving to the updated `UserResponseDto`
+   * @throws NotFoundException If the user does not exist
+   * @throws BadRequestException If administrators try to change their own role
+   */
+  async changeRole(
+    adminId: string,
+    userId: string,
+    role: UserRoles,
+  ): Promise<UserResponseDto> {
+    this.assertNotSelf(adminId, userId, 'change the role of')
+    const user: User = await this.getUser(userId)
+    const details: string = `${user.role} -> ${role}`
+    user.role = role
+    return this.applyAction(
+      adminId,
+      user,
+      UserAdminActions.RoleChanged,
+      details,
+    )
+  }
+
+  /**
+   * Disables or enables a user account
+   *
+   * A disabled user can neither log in nor refresh their tokens, and loses their current sessions.
+   *
+   * @param actor The administrator or moderator taking the action
+   * @param userId The ID of the user
+   * @param isDisabled `true` to disable the account, `false` to enable it again
+   * @returns A Promise resolving to the updated `UserResponseDto`
+   * @throws NotFoundException If the user does not exist
+   * @throws BadRequestException If administrators try to disable their own account
+   * @throws ForbiddenException If the user has permissions the actor does not have
+   */
+  async setDisabled(
+    actor: AuthenticatedUser,
+    userId: string,
+    isDisabled: boolean,
+  ): Promise<UserResponseDto> {
+    this.assertNotSelf(actor.userId, userId, 'disable or enable')
+    const user: User = await this.getUser(userId)
+    this.assertOutranks(actor, user)
+    user.isDisabled = isDisabled
+    return this.applyAction(
+      actor.userId,
+      user,
+      isDisabled ? UserAdminActions.Disabled : UserAdminActions.Enabled,
+    )
+  }
+
+  /**
+   * Forces a password reset
+   *
+   * The password is replaced by a random one that nobody knows, and the user is sent a password
+   * reset token by email to choose a new one. Until then (`passwordResetRequired`), the current
+   * sessions are ended and no login, token refresh or API key is accepted for the account.
+   *
+   * @param actor The administrator or moderator taking the action
+   * @param userId The ID of the user
+   * @returns A Promise resolving to the `UserResponseDto` of the user
+   * @throws NotFoundException If the user does not exist
+   * @throws ForbiddenException If the user has permissions the actor does not have
+   */
+  async forcePasswordReset(
+    actor: AuthenticatedUser,
+    userId: string,
+  ): Promise<UserResponseDto> {
+    const user: User = await this.getUser(userId)
+    this.assertOutranks(actor, user)
+    user.password = await hashPassword(randomBytes(32).toString('base64url'))
+    user.passwordResetRequired = true
+    const response: UserResponseDto = await this.applyAction(
+      actor.userId,
+      user,
+      UserAdminActions.PasswordReset,
+    )
+    await this.authService.sendPasswordReset(user, true)
+    return response
+  }
+
+  /**
+   * Unlocks an account locked after too many failed logins
+   *
+   * The failed attempts of the account are cleared; its sessions are left untouched.
+   *
+   * @param actor The administrator or moderator taking the action
+   * @param userId The ID of the user
+   * @returns A Promise resolving to the `UserResponseDto` of the user
+   * @throws NotFoundException If the user does not exist
+   * @throws ForbiddenException If the user has permissions the actor does not have
+   */
+  async unlock(
+    actor: AuthenticatedUser,
+    userId: string,
+  ): Promise<UserResponseDto> {
+    const user: User = await this.getUser(userId)
+    this.assertOutranks(actor, user)
+    await this.loginThrottleService.unlock(user.userName)
+    await this.actionsRepository.save({
+      userId: user.id,
+      adminId: actor.userId,
+      action: UserAdminActions.Unlocked,
+    })
+    return toUserResponse(user)
+  }
+
+  /**
+   * Saves a changed user along with the record of the action, then ends the user's sessions
+   *
+   * @param adminId The ID of the administrator taking the action
+   * @param user The changed user
+   * @param action The action taken
+   * @param details Optional details of the change
+   * @returns A Promise resolving to the `UserResponseDto` of the saved user
+   */
+  private async applyAction(
+    adminId: string,
+    user: User,
+    action: UserAdminActions,
+    details: string = null,
+  ): Promise<UserResponseDto> {
+    const savedUser: User = await this.usersRepository.manager.transaction(
+      async (manager: EntityManager) => {
+        await manager.getRepository(UserAdminAction).save({
+          userId: user.id,
+          adminId,
+          action,
+          details,
+        })
+        return manager.getRepository(User).save(user)
+      },
+    )
+    await this.authService.revokeUserSessions(user.id)
+    return toUserResponse(savedUser)
+  }
+
+  /**
+   * Retrieves a user entity by its ID
+   *
+   * @param userId The ID of the user
+   * @returns A Promise resolving to the user
+   * @throws NotFoundException If the user does not exist
+   */
+  private async getUser(userId: string): Promise<User> {
+    const user: User = await this.usersRepository.findOne({
+      where: { id: userId },
+    })
+    if (!user) {
+      throw new NotFoundException(`User with id ${userId} not found`)
+    }
+    return user
+  }
+
+  /**
+   * Prevents administrators from locking themselves out
+   *
+   * @param adminId The ID of the administrator taking the action
+   * @param userId The ID of the user
+   * @param action The action, for the error message
+   * @throws BadRequestException If both IDs are the same
+   */
+  private assertNotSelf(adminId: string, userId: string, action: string) {
+    if (adminId === userId) {
+      throw new BadRequestException(
+        `Administrators cannot ${action} their own account`,
+      )
+    }
+  }
+
+  /**
+   * Prevents moderators from taking over the accounts with more permissions than theirs
+   *
+   * @param actor The administrator or moderator taking the action
+   * @param user The user the action is taken on
+   * @throws ForbiddenException If the role of the user grants permissions the actor does not have
+   */
+  private assertOutranks(actor: AuthenticatedUser, user: User) {
+    if (!hasPermissions(actor.role, rolePermissions[user.role])) {
+      throw new ForbiddenException(
+        `Your role cannot manage the accounts with the '${user.role}' role`,
+      )
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsNotEmpty, IsString, MinLength, Validate } from 'class-validator'
+import { MatchValidator } from 'src/shared/password-validation'
+
+/**
+ * Data transfer object (DTO) for changing the password of the current user
+ *
+ * The current password must be given, and the new password must follow the same
+ * rules as on registration: at least 4 characters, repeated identically
+ * (checked by `MatchValidator`).
+ */
+export class ChangePasswordDto {
+  /**
+   * The current password of the user
+   */
+  @ApiProperty({ description: 'Current password' })
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string
+
+  /**
+   * The new password (minimum length of 4 characters)
+   */
+  @ApiProperty({ description: 'New password', minLength: 4 })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(4)
+  newPassword: string
+
+  /**
+   * The new password repeated (must match `newPassword`)
+   */
+  @ApiProperty({ description: 'Repeated new password' })
+  @IsString()
+  @IsNotEmpty()
+  @Validate(MatchValidator, ['newPassword'])
+  repeatedPassword: string
+}
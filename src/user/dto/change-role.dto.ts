@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger'
+import { IsEnum } from 'class-validator'
+import { UserRoles } from 'src/shared/constants'
+
+/**
+ * Data transfer object (DTO) for changing the role of a user
+ *
+ * This class defines the body of `PATCH /admin/users/:id/role`.
+ */
+export class ChangeRoleDto {
+  /**
+   * The new role of the user (`user`, `editor`, `moderator` or `admin`)
+   */
+  @ApiProperty({ enum: UserRoles })
+  @IsEnum(UserRoles)
+  role: UserRoles
+}
@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MinLength,
+  Validate,
+} from 'class-validator'
+import { EmailValidationService } from 'src/shared/email-validation'
+
+/**
+ * Data transfer object (DTO) for updating the profile of the current user
+ *
+ * This class defines the properties a user can change on their own account.
+ * Both are optional; the role and the password cannot be changed this way.
+ */
+export class UpdateProfileDto {
+  /**
+   * The new username (at least 2 characters, must not be taken)
+   */
+  @ApiPropertyOptional({ description: 'User name', minLength: 2 })
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MinLength(2)
+  userName?: string
+
+  /**
+   * The new email address (must not be used by another user)
+   */
+  @ApiPropertyOptional({ description: 'User email' })
+  @IsOptional()
+  @IsNotEmpty()
+  @Validate(EmailValidationService)
+  email?: string
+}
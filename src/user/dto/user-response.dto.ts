@@ -1,20 +1,24 @@
 import { ApiProperty } from '@nestjs/swagger'
+import { Expose, plainToInstance } from 'class-transformer'
 import { IsEmail, IsString, IsUUID } from 'class-validator'
-import { LoginUserDto } from 'src/auth/dto/login-user.dto'
 import { UserRoles } from 'src/shared/constants'
+import { User } from '../entities/user.entity'
 
 /**
  * Data transfer object (DTO) for user response
  *
- * This class extends the `LoginUserDto` and adds additional properties
- * that are returned in the response when user information is fetched.
+ * This class defines the properties that are returned in the response when user
+ * information is fetched. Only the properties decorated with `@Expose()` are kept
+ * when a `User` entity is converted with `plainToInstance(UserResponseDto, user,
+ * { excludeExtraneousValues: true })`, so the password hash is never serialized.
  */
-export class UserResponseDto extends LoginUserDto {
+export class UserResponseDto {
   /**
    * User ID (UUID)
    *
    * @type {string}
    */
+  @Expose()
   @ApiProperty()
   @IsUUID()
   id: string
@@ -24,6 +28,7 @@ export class UserResponseDto extends LoginUserDto {
    *
    * @type {string}
    */
+  @Expose()
   @ApiProperty()
   @IsString()
   userName: string
@@ -34,16 +39,62 @@ export class UserResponseDto extends LoginUserDto {
    * @type {string}
    * @readonly
    */
+  @Expose()
   @ApiProperty()
   @IsEmail()
   readonly email: string
 
   /**
-   * User roles
+   * User role
    *
-   * @type {UserRoles[]}
+   * @type {UserRoles}
    * @readonly
    */
+  @Expose()
+  @ApiProperty({ enum: UserRoles })
+  readonly role: UserRoles
+
+  /**
+   * Whether the email address was verified
+   *
+   * @type {boolean}
+   * @readonly
+   */
+  @Expose()
+  @ApiProperty()
+  readonly isEmailVerified: boolean
+
+  /**
+   * Whether the account is disabled
+   *
+   * @type {boolean}
+   * @readonly
+   */
+  @Expose()
   @ApiProperty()
-  readonly roles: UserRoles[]
+  readonly isDisabled: boolean
+
+  /**
+   * Whether the user must choose a new password
+   *
+   * @type {boolean}
+   * @readonly
+   */
+  @Expose()
+  @ApiProperty()
+  readonly passwordResetRequired: boolean
+}
+
+/**
+ * Converts a `User` entity into the `UserResponseDto` returned to the client
+ *
+ * Only the exposed properties of the DTO are kept, which leaves the password hash out.
+ *
+ * @param user The user entity
+ * @returns The `UserResponseDto` of the user
+ */
+export function toUserResponse(user: User): UserResponseDto {
+  return plainToInstance(UserResponseDto, user, {
+    excludeExtraneousValues: true,
+  })
 }
@@ -0,0 +1,72 @@
+import { ApiProperty } from '@nestjs/swagger'
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm'
+
+/**
+ * Enum for the actions an administrator can take on a user account
+ */
+export enum UserAdminActions {
+  RoleChanged = 'role_changed',
+  Disabled = 'disabled',
+  Enabled = 'enabled',
+  PasswordReset = 'password_reset',
+  Unlocked = 'unlocked',
+}
+
+/**
+ * UserAdminAction Entity
+ *
+ * This class represents an action taken by an administrator on a user account through the
+ * `/admin/users` endpoints. It records which account was affected, who did it, when, and the
+ * details of the change (e.g. the old and new role).
+ */
+@Entity({ name: 'user_admin_actions' })
+export class UserAdminAction {
+  /**
+   * Unique identifier of the action
+   */
+  @PrimaryGeneratedColumn()
+  @ApiProperty()
+  id: number
+
+  /**
+   * ID of the affected user
+   */
+  @Index()
+  @Column({ length: 36 })
+  @ApiProperty({ description: 'ID of the affected user.' })
+  userId: string
+
+  /**
+   * ID of the administrator who took the action
+   */
+  @Column({ length: 36 })
+  @ApiProperty({ description: 'ID of the administrator.' })
+  adminId: string
+
+  /**
+   * The action taken
+   */
+  @Column({ type: 'enum', enum: UserAdminActions })
+  @ApiProperty({ enum: UserAdminActions })
+  action: UserAdminActions
+
+  /**
+   * Details of the change (e.g. `user -> admin`)
+   */
+  @Column({ nullable: true })
+  @ApiProperty({ required: false })
+  details: string | null
+
+  /**
+   * Date of the action
+   */
+  @CreateDateColumn({ type: 'datetime' })
+  @ApiProperty()
+  created: Date
+}
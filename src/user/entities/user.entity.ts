@@ -23,7 +23,7 @@ export class User {
    * generation strategy as 'uuid'.
    */
   @PrimaryGeneratedColumn('uuid')
-  id: number
+  id: string
 
   /**
    * Username property
@@ -78,4 +78,34 @@ export class User {
   })
   @ApiProperty({ description: 'User role.' })
   role: UserRoles
+
+  /**
+   * Email verification flag
+   *
+   * Set once the user opens the verification link sent on registration (or after an email
+   * change). Until then the account has read-only access.
+   */
+  @Column({ default: false })
+  @ApiProperty({ description: 'Whether the email address was verified.' })
+  isEmailVerified: boolean
+
+  /**
+   * Disabled flag
+   *
+   * A disabled user cannot log in or refresh their tokens. Accounts are disabled and
+   * enabled again by an administrator (`/admin/users/:id/disable`).
+   */
+  @Column({ default: false })
+  @ApiProperty({ description: 'Whether the account is disabled.' })
+  isDisabled: boolean
+
+  /**
+   * Password reset flag
+   *
+   * Set when an administrator forces a password reset, and cleared once the user
+   * chooses a new password (`POST /users/me/password`).
+   */
+  @Column({ default: false })
+  @ApiProperty({ description: 'Whether the user must choose a new password.' })
+  passwordResetRequired: boolean
 }
@@ -0,0 +1,123 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Patch,
+  Post,
+  Req,
+} from '@nestjs/common'
+import { ApiBearerAuth, ApiBody, ApiResponse, ApiTags } from '@nestjs/swagger'
+import { AuthService } from 'src/auth/auth.service'
+import { User } from './entities/user.entity'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { UserService } from './user.service'
+import { UserResponseDto, toUserResponse } from './dto/user-response.dto'
+import { UpdateProfileDto } from './dto/update-profile.dto'
+import { ChangePasswordDto } from './dto/change-password.dto'
+import { getAuditContext } from 'src/audit/audit-context'
+
+/**
+ * UserController: Controller for the self-service account endpoints
+ *
+ * This controller lets an authenticated user read, update and delete their own account, and
+ * change their password. Every route requires a valid access token (checked by the global `JwtAuthGuard`); the user is
+ * identified by the `sub` claim of the token. User data is always returned as a `UserResponseDto`,
+ * so the password hash never leaves the server.
+ */
+@ApiTags('users')
+@ApiBearerAuth()
+@Controller('/users')
+export class UserController {
+  constructor(
+    private readonly userService: UserService,
+    private readonly authService: AuthService,
+  ) {}
+
+  /**
+   * Returns the account of the current user
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @returns A Promise resolving to the `UserResponseDto` of the current user
+   */
+  @Get('/me')
+  @ApiResponse({ status: HttpStatus.OK, type: UserResponseDto })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The account no longer exists')
+  async getMe(@Req() req): Promise<UserResponseDto> {
+    return toUserResponse(await this.userService.getAccount(req.user.userId))
+  }
+
+  /**
+   * Updates the username and/or email address of the current user
+   *
+   * A new email address must be verified again: a verification link is sent to it.
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @param updateProfileDto The new username and/or email address (from request body)
+   * @returns A Promise resolving to the updated `UserResponseDto`
+   */
+  @Patch('/me')
+  @ApiBody({ type: UpdateProfileDto })
+  @ApiResponse({ status: HttpStatus.OK, type: UserResponseDto })
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'The username or email address is already taken',
+  )
+  async updateMe(
+    @Req() req,
+    @Body() updateProfileDto: UpdateProfileDto,
+  ): Promise<UserResponseDto> {
+    const user: User = await this.userService.updateProfile(
+      req.user.userId,
+      updateProfileDto,
+      getAuditContext(req),
+    )
+    if (!user.isEmailVerified) {
+      await this.authService.sendEmailVerification(user)
+    }
+    return toUserResponse(user)
+  }
+
+  /**
+   * Changes the password of the current user
+   *
+   * The other sessions of the user are ended; the session of the request is kept.
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @param changePasswordDto The current password and the new password (from request body)
+   * @returns A Promise resolving to a JSON object with a success message
+   */
+  @Post('/me/password')
+  @HttpCode(HttpStatus.OK)
+  @ApiBody({ type: ChangePasswordDto })
+  @ApiProblemResponse(HttpStatus.FORBIDDEN, 'The current password is incorrect')
+  async changePassword(
+    @Req() req,
+    @Body() changePasswordDto: ChangePasswordDto,
+  ) {
+    await this.userService.changePassword(
+      req.user.userId,
+      changePasswordDto,
+      req.user.sessionId,
+      getAuditContext(req),
+    )
+    return { message: 'Password changed successfully.' }
+  }
+
+  /**
+   * Deletes the account of the current user
+   *
+   * Every session of the user is ended.
+   *
+   * @param req The HTTP request object (its `user` is set by `JwtAuthGuard`)
+   * @returns A Promise resolving to a JSON object with a success message
+   */
+  @Delete('/me')
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The account no longer exists')
+  async removeMe(@Req() req) {
+    await this.userService.removeAccount(req.user.userId, getAuditContext(req))
+    return { message: 'Account deleted successfully.' }
+  }
+}
@@ -1,21 +1,20 @@
 import { Module } from '@nestjs/common'
 import { UserService } from './user.service'
-import { RolesGuard } from 'src/auth/guards/roles.guard'
 import { TypeOrmModule } from '@nestjs/typeorm'
 import { User } from './entities/user.entity'
-import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard'
+import { UserController } from './user.controller'
+import { AdminUsersController } from './admin-users.controller'
+import { AdminUsersService } from './admin-users.service'
+import { UserAdminAction } from './entities/user-admin-action.entity'
 
 /**
  * UserModule
  *
  * This module provides functionalities related to user management. It imports the
- * `UserService` which handles business logic for users, and also includes guards
- * for role-based access control and JWT authentication:
+ * `UserService` which handles business logic for users. Access to its endpoints is controlled
+ * by the global `JwtAuthGuard` of the `AuthModule`.
  *
- * - `RolesGuard`: Ensures that only users with appropriate roles can access certain endpoints.
- * - `JwtAuthGuard`: Ensures that only authenticated users can access certain endpoints.
- *
- * Additionally, it imports the `TypeOrmModule` to establish a database connection
+ * It imports the `TypeOrmModule` to establish a database connection
  * for the `User` entity:
  *
  * - `User`: Represents the user entity in the database.
@@ -26,11 +25,15 @@ import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard'
  * - `UserService`: This allows other modules to inject the `UserService`
  *   for functionalities like user retrieval or manipulation.
  *
- * Providers in this module handle user-related business logic and access control.
+ * Providers in this module handle user-related business logic.
+ * The `UserController` exposes the self-service account endpoints (`/users/me`), and the
+ * `AdminUsersController` the management of the accounts (`/admin/users`), whose
+ * actions are recorded as `UserAdminAction` entities.
  */
 @Module({
-  imports: [TypeOrmModule.forFeature([User])],
-  providers: [UserService, RolesGuard, JwtAuthGuard],
+  imports: [TypeOrmModule.forFeature([User, UserAdminAction])],
+  controllers: [UserController, AdminUsersController],
+  providers: [UserService, AdminUsersService],
   exports: [TypeOrmModule, UserService],
 })
 export class UserModule {}
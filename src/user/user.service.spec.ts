@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { ForbiddenException } from '@nestjs/common'
+import * as bcrypt from 'bcrypt'
+import { UserService } from './user.service'
+import { User } from './entities/user.entity'
+import { ChangePasswordDto } from './dto/change-password.dto'
+import { AuditService } from 'src/audit/audit.service'
+import { RefreshTokenService } from 'src/auth/refresh-token.service'
+import { TokenRevocationService } from 'src/auth/token-revocation.service'
+
+/**
+ * Unit test suite for the session handling of UserService.
+ * The users repository, the refresh tokens, the revocation list and the audit log are mocked.
+ */
+describe('UserService', () => {
+  let service: UserService
+  let usersRepository: Record<string, jest.Mock>
+  let refreshTokenService: Record<string, jest.Mock>
+  let tokenRevocationService: Record<string, jest.Mock>
+  let user: User
+
+  beforeEach(async () => {
+    user = {
+      id: 'user-1',
+      userName: 'luke',
+      password: await bcrypt.hash('old-password', 4),
+      passwordResetRequired: false,
+    } as User
+    usersRepository = {
+      findOne: jest.fn(async () => user),
+      save: jest.fn(async (saved) => saved),
+      remove: jest.fn(),
+    }
+    refreshTokenService = {
+      findActiveFamilies: jest.fn().mockResolvedValue(['sid-1', 'sid-2']),
+      revokeFamily: jest.fn(),
+    }
+    tokenRevocationService = { revoke: jest.fn() }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserService,
+        { provide: getRepositoryToken(User), useValue: usersRepository },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: RefreshTokenService, useValue: refreshTokenService },
+        { provide: TokenRevocationService, useValue: tokenRevocationService },
+      ],
+    }).compile()
+
+    service = module.get<UserService>(UserService)
+  })
+
+  /**
+   * Test suite for the `changePassword` method of UserService.
+   */
+  describe('changePassword', () => {
+    const passwords: ChangePasswordDto = {
+      currentPassword: 'old-password',
+      newPassword: 'new-password',
+      repeatedPassword: 'new-password',
+    }
+
+    it('should end the other sessions of the user and keep the current one', async () => {
+      await service.changePassword('user-1', passwords, 'sid-1')
+
+      expect(refreshTokenService.findActiveFamilies).toHaveBeenCalledWith(
+        'user-1',
+      )
+      expect(refreshTokenService.revokeFamily.mock.calls).toEqual([['sid-2']])
+      expect(tokenRevocationService.revoke.mock.calls).toEqual([['sid-2']])
+      expect(await bcrypt.compare('new-password', user.password)).toBe(true)
+    })
+
+    it('should end every session without a current one', async () => {
+      await service.changePassword('user-1', passwords)
+
+      expect(tokenRevocationService.revoke.mock.calls).toEqual([
+        ['sid-1'],
+        ['sid-2'],
+      ])
+    })
+
+    it('should keep the sessions when the current password is incorrect', async () => {
+      await expect(
+        service.changePassword(
+          'user-1',
+          { ...passwords, currentPassword: 'wrong' },
+          'sid-1',
+        ),
+      ).rejects.toThrow(ForbiddenException)
+      expect(usersRepository.save).not.toHaveBeenCalled()
+      expect(refreshTokenService.revokeFamily).not.toHaveBeenCalled()
+      expect(tokenRevocationService.revoke).not.toHaveBeenCalled()
+    })
+  })
+
+  /**
+   * Test suite for the `removeAccount` method of UserService.
+   */
+  describe('removeAccount', () => {
+    it('should end every session of the user before deleting the account', async () => {
+      usersRepository.remove.mockImplementation(async () => {
+        // The refresh tokens are deleted along with the user
+        expect(tokenRevocationService.revoke).toHaveBeenCalledTimes(2)
+      })
+
+      await service.removeAccount('user-1')
+
+      expect(refreshTokenService.revokeFamily.mock.calls).toEqual([
+        ['sid-1'],
+        ['sid-2'],
+      ])
+      expect(tokenRevocationService.revoke.mock.calls).toEqual([
+        ['sid-1'],
+        ['sid-2'],
+      ])
+      expect(usersRepository.remove).toHaveBeenCalledWith(user)
+    })
+  })
+})
@@ -1,10 +1,26 @@
-import { Injectable } from '@nestjs/common'
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
+import * as bcrypt from 'bcrypt'
 import { CreateUserDto } from './dto/create-user.dto'
+import { UpdateProfileDto } from './dto/update-profile.dto'
+import { ChangePasswordDto } from './dto/change-password.dto'
 import { InjectRepository } from '@nestjs/typeorm'
 import { User } from './entities/user.entity'
 import { Repository } from 'typeorm'
 import { hashPassword } from 'src/shared/common.functions'
 import { ErrorResponce, UserRoles } from 'src/shared/constants'
+import { RefreshTokenService } from 'src/auth/refresh-token.service'
+import { TokenRevocationService } from 'src/auth/token-revocation.service'
+import { AuditService } from 'src/audit/audit.service'
+import { AuditContext } from 'src/audit/audit-context'
+import {
+  AuditActions,
+  AuditOutcomes,
+} from 'src/audit/entities/audit-log.entity'
 
 /**
  * UserService class for managing user data in the application
@@ -13,13 +29,18 @@ import { ErrorResponce, UserRoles } from 'src/shared/constants'
  * in the database. It interacts with the `User` repository to perform these operations.
  *
  * The UserService is injected into other components of the application that need to
- * access and manage user data.
+ * access and manage user data. The changes users make to their own account, and the removal of
+ * accounts, are recorded by the `AuditService`. Changing the password ends the other sessions of
+ * the user, and removing an account all of them (`RefreshTokenService`, `TokenRevocationService`).
  */
 @Injectable()
 export class UserService {
   constructor(
     @InjectRepository(User)
     private readonly usersRepository: Repository<User>,
+    private readonly auditService: AuditService,
+    private readonly refreshTokenService: RefreshTokenService,
+    private readonly tokenRevocationService: TokenRevocationService,
   ) {}
 
   /**
@@ -89,6 +110,19 @@ export class UserService {
     return this.usersRepository.findOne({ where: { userName: userName } })
   }
 
+  /**
+   * Finds a user by their ID.
+   *
+   * This method searches the database for a user with the specified ID (UUID).
+   *
+   * @param userId The ID of the user to find.
+   * @returns Promise that resolves to:
+   *   - `User`: The user object if found, otherwise null.
+   */
+  async findOneById(userId: string): Promise<User> {
+    return this.usersRepository.findOne({ where: { id: userId } })
+  }
+
   /**
    * Finds a user by their email address.
    *
@@ -120,6 +154,171 @@ export class UserService {
     return user
   }
 
+  /**
+   * Retrieves the account of a user by their ID.
+   *
+   * @param userId The ID of the user.
+   * @returns Promise that resolves to the `User` object.
+   * @throws NotFoundException If the user does not exist.
+   */
+  async getAccount(userId: string): Promise<User> {
+    const user: User = await this.findOneById(userId)
+    if (!user) {
+      throw new NotFoundException(`User with id ${userId} not found`)
+    }
+    return user
+  }
+
+  /**
+   * Updates the username and/or email address of a user.
+   *
+   * Both must stay unique: a value already used by another user is rejected.
+   * A new email address has to be verified again.
+   *
+   * @param userId The ID of the user.
+   * @param updateProfileDto The new username and/or email address.
+   * @param context The origin of the request, recorded in the audit log.
+   * @returns Promise that resolves to the updated `User` object.
+   * @throws NotFoundException If the user does not exist.
+   * @throws ConflictException If the username or email address is already taken.
+   */
+  async updateProfile(
+    userId: string,
+    updateProfileDto: UpdateProfileDto,
+    context: AuditContext = {},
+  ): Promise<User> {
+    const user: User = await this.getAccount(userId)
+    const { userName, email } = updateProfileDto
+    if (userName && userName !== user.userName) {
+      if (await this.usersRepository.existsBy({ userName })) {
+        throw new ConflictException(
+          'This username is already taken. Please choose another.',
+        )
+      }
+      user.userName = userName
+    }
+    if (email && email !== user.email) {
+      if (await this.usersRepository.existsBy({ email })) {
+        throw new ConflictException('This email address is already in use.')
+      }
+      user.email = email
+      user.isEmailVerified = false
+    }
+    const savedUser: User = await this.usersRepository.save(user)
+    await this.auditService.record({
+      ...context,
+      action: AuditActions.ProfileUpdated,
+      actorId: userId,
+      target: userId,
+      details: { fields: Object.keys(updateProfileDto) },
+    })
+    return savedUser
+  }
+
+  /**
+   * Changes the password of a user.
+   *
+   * The current password must be confirmed; the new one is hashed before saving. The other
+   * sessions of the user are ended, since the old password may have been used to open them.
+   *
+   * @param userId The ID of the user.
+   * @param changePasswordDto The current password and the new password.
+   * @param sessionId The session of the request, which is kept.
+   * @param context The origin of the request, recorded in the audit log.
+   * @throws NotFoundException If the user does not exist.
+   * @throws ForbiddenException If the current password is incorrect.
+   */
+  async changePassword(
+    userId: string,
+    changePasswordDto: ChangePasswordDto,
+    sessionId?: string,
+    context: AuditContext = {},
+  ): Promise<void> {
+    const user: User = await this.getAccount(userId)
+    const isMatch: boolean = await bcrypt.compare(
+      changePasswordDto.currentPassword,
+      user.password,
+    )
+    if (!isMatch) {
+      await this.auditService.record({
+        ...context,
+        action: AuditActions.PasswordChanged,
+        outcome: AuditOutcomes.Failure,
+        actorId: userId,
+        target: userId,
+        details: { reason: 'invalid_current_password' },
+      })
+      throw new ForbiddenException('The current password is incorrect.')
+    }
+    user.password = await hashPassword(changePasswordDto.newPassword)
+    user.passwordResetRequired = false
+    await this.usersRepository.save(user)
+    await this.revokeSessions(userId, sessionId)
+    await this.auditService.record({
+      ...context,
+      action: AuditActions.PasswordChanged,
+      actorId: userId,
+      target: userId,
+    })
+  }
+
+  /**
+   * Marks the email address of a user as verified.
+   *
+   * @param userId The ID of the user.
+   * @returns Promise that resolves to the updated `User` object.
+   * @throws NotFoundException If the user does not exist.
+   */
+  async markEmailVerified(userId: string): Promise<User> {
+    const user: User = await this.getAccount(userId)
+    user.isEmailVerified = true
+    return this.usersRepository.save(user)
+  }
+
+  /**
+   * Sets a new password after a password reset by email.
+   *
+   * Receiving the reset email also proves that the user owns the address, which is therefore
+   * marked as verified.
+   *
+   * @param userId The ID of the user.
+   * @param newPassword The new password (will be hashed).
+   * @throws NotFoundException If the user does not exist.
+   */
+  async resetPassword(userId: string, newPassword: string): Promise<void> {
+    const user: User = await this.getAccount(userId)
+    user.password = await hashPassword(newPassword)
+    user.passwordResetRequired = false
+    user.isEmailVerified = true
+    await this.usersRepository.save(user)
+  }
+
+  /**
+   * Deletes the account of a user by their ID.
+   *
+   * Every session of the user is ended first: the refresh tokens are deleted along with the
+   * account, but the access tokens already issued would stay valid until they expire.
+   *
+   * @param userId The ID of the user.
+   * @param context The origin of the request, recorded in the audit log.
+   * @throws NotFoundException If the user does not exist.
+   */
+  async removeAccount(
+    userId: string,
+    context: AuditContext = {},
+  ): Promise<void> {
+    const user: User = await this.getAccount(userId)
+    await this.revokeSessions(userId)
+    await this.usersRepository.remove(user)
+    await this.auditService.record({
+      ...context,
+      action: AuditActions.AccountDeleted,
+      actorId: userId,
+      target: userId,
+      details: { userName: user.userName },
+    })
+  }
+
   /**
    * Removes a user from the database by their username.
    *
@@ -129,19 +328,35 @@ export class UserService {
    * In case of database access errors, an exception is thrown.
    *
    * @param name The username of the user to remove.
+   * @param context The origin of the request (the administrator), recorded in the audit log.
    * @returns Promise that resolves to:
    *   - `true`: If the user was successfully removed.
    *   - `false`: If the user was not found.
    * @throws Error: In case of database access errors.
    */
-  async remove(name: string): Promise<boolean> {
+  async remove(name: string, context: AuditContext = {}): Promise<boolean> {
     try {
       const user: User = await this.findOneByName(name)
       if (!user) {
+        await this.auditService.record({
+          ...context,
+          action: AuditActions.RemoveUser,
+          outcome: AuditOutcomes.Failure,
+          target: name,
+          details: { reason: 'unknown_user' },
+        })
         return false
       }
-      // Delete the user from the database
+      const userId: string = user.id
+      // End the sessions of the user, then delete the user from the database
+      await this.revokeSessions(userId)
       await this.usersRepository.remove(user)
+      await this.auditService.record({
+        ...context,
+        action: AuditActions.RemoveUser,
+        target: userId,
+        details: { userName: name },
+      })
       return true
     } catch (error) {
       // Log the error with additional information
@@ -152,4 +367,22 @@ export class UserService {
       return false
     }
   }
+
+  /**
+   * Ends the sessions of a user: their refresh tokens and the access tokens issued for them.
+   *
+   * @param userId The ID of the user.
+   * @param keptSessionId A session to keep (the one changing the password), if any.
+   */
+  private async revokeSessions(
+    userId: string,
+    keptSessionId?: string,
+  ): Promise<void> {
+    const families: string[] =
+      await this.refreshTokenService.findActiveFamilies(userId)
+    for (const family of families.filter((id) => id !== keptSessionId)) {
+      await this.refreshTokenService.revokeFamily(family)
+      await this.tokenRevocationService.revoke(family)
+    }
+  }
 }
@@ -1,4 +1,11 @@
-import { Column, Entity, JoinTable, ManyToMany, OneToMany } from 'typeorm'
+import {
+  Column,
+  Entity,
+  Index,
+  JoinTable,
+  ManyToMany,
+  OneToMany,
+} from 'typeorm'
 import { AbstractEntity } from '../../shared/abstract.entity'
 import { ApiProperty } from '@nestjs/swagger'
 import { Film } from '../../films/entities/film.entity'
@@ -13,6 +20,7 @@ import { Image } from '../../images/entities/image.entity'
  * and API documentation exposure.
  */
 @Entity({ name: 'vehicles' })
+@Index('FT_vehicles_name_model', ['name', 'model'], { fulltext: true })
 export class Vehicle extends AbstractEntity<Vehicle> {
   /**
    * 'name' property
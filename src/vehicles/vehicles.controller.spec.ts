@@ -3,6 +3,8 @@ import { VehiclesController } from './vehicles.controller'
 import { VehiclesService } from './vehicles.service'
 import { DataSource, Repository } from 'typeorm'
 import { JwtService } from '@nestjs/jwt'
+import { AuditService } from 'src/audit/audit.service'
+import { ImagesService } from 'src/images/images.service'
 import { Reflector } from '@nestjs/core'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import { People } from 'src/people/entities/people.entity'
@@ -17,6 +19,7 @@ import {
   updatedVehicleDto,
   vehicle,
 } from './test-constants'
+import { describeFindImages } from 'src/images/test-constants'
 
 /**
  * Unit test suite for VehiclesController.
@@ -26,6 +29,7 @@ import {
 describe('VehiclesController', () => {
   let controller: VehiclesController
   let service: VehiclesService
+  let imagesService: ImagesService
 
   /**
    * Setup for each test in the suite.
@@ -67,11 +71,24 @@ describe('VehiclesController', () => {
             verify: jest.fn(),
           },
         },
+        {
+          provide: AuditService,
+          useValue: {
+            record: jest.fn(),
+          },
+        },
+        {
+          provide: ImagesService,
+          useValue: {
+            findAllOfAnEntity: jest.fn(),
+          },
+        },
       ],
     }).compile()
 
     controller = module.get<VehiclesController>(VehiclesController)
     service = module.get<VehiclesService>(VehiclesService)
+    imagesService = module.get<ImagesService>(ImagesService)
   })
 
   /**
@@ -130,7 +147,7 @@ describe('VehiclesController', () => {
       // Mock the service's `findAll` method
       jest.spyOn(service, 'findAll').mockResolvedValue(paginatedResult)
 
-      expect(await controller.findAll(1, 10)).toEqual(paginatedResult)
+      expect(await controller.findAll(1, 10, {})).toEqual(paginatedResult)
     })
   })
 
@@ -144,8 +161,8 @@ describe('VehiclesController', () => {
     it('should return a single vehicle by ID', async () => {
       // Mock the service's `findOne` method
       jest.spyOn(service, 'findOne').mockResolvedValue(vehicle)
-      expect(await controller.findOne(1)).toEqual(vehicle)
-      expect(service.findOne).toHaveBeenCalledWith(1)
+      expect(await controller.findOne(1, {})).toEqual(vehicle)
+      expect(service.findOne).toHaveBeenCalledWith(1, undefined)
     })
 
     /**
@@ -162,6 +179,8 @@ describe('VehiclesController', () => {
     })
   })
 
+  describeFindImages('vehicles', () => ({ controller, imagesService }))
+
   /**
    * Test suite for the `update` method of VehiclesController.
    */
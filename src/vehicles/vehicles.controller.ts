@@ -8,7 +8,7 @@ import {
   Delete,
   Query,
   DefaultValuePipe,
-  UseGuards,
+  HttpStatus,
 } from '@nestjs/common'
 import { VehiclesService } from './vehicles.service'
 import { CreateVehicleDto } from './dto/create-vehicle.dto'
@@ -23,7 +23,18 @@ import {
 import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
 import { Pagination } from 'nestjs-typeorm-paginate'
 import { limitCount } from 'src/shared/constants'
-import { AdminGuard } from 'src/auth/guards/admin.guard'
+import { ListQuery } from 'src/shared/query-filter'
+import { CursorPagination } from 'src/shared/cursor-pagination'
+import { BulkReport } from 'src/shared/bulk-operations'
+import { BulkRemoveDto } from 'src/shared/dto/bulk-remove.dto'
+import { getExpandParameter } from 'src/shared/relation-expansion'
+import { Public } from 'src/auth/decorators/public.decorator'
+import { RequirePermissions } from 'src/auth/decorators/permissions.decorator'
+import { Audited } from 'src/audit/decorators/audited.decorator'
+import { Permissions } from 'src/auth/permissions'
+import { ApiProblemResponse } from 'src/shared/problem-details'
+import { ImagesService } from 'src/images/images.service'
+import { Image } from 'src/images/entities/image.entity'
 
 /**
  * VehiclesController
@@ -31,17 +42,22 @@ import { AdminGuard } from 'src/auth/guards/admin.guard'
  * This controller handles API requests related to vehicles in the Star Wars universe.
  * It interacts with the `VehiclesService` to perform CRUD (Create, Read, Update, Delete)
  * operations on vehicle data and provides responses in a RESTful API style.
+ * The write operations are recorded in the audit log.
  */
 @ApiTags('vehicles')
+@Audited('vehicles')
 @Controller('vehicles')
 export class VehiclesController {
-  constructor(private readonly vehiclesService: VehiclesService) {}
+  constructor(
+    private readonly vehiclesService: VehiclesService,
+    private readonly imagesService: ImagesService,
+  ) {}
 
   /**
    * Create a new vehicle
    *
    * This method (POST /vehicles/create) creates a new vehicle in the system.
-   * It requires an Admin role due to the `@UseGuards(AdminGuard)` decorator.
+   * It requires the `vehicles:write` permission (`@RequirePermissions()`).
    * The request body should contain a valid `CreateVehicleDto` object.
    * The method uses `@ApiBearerAuth()` for Swagger documentation, indicating Bearer token
    * based authentication, and `@ApiBody()` to describe the expected request body format.
@@ -49,15 +65,75 @@ export class VehiclesController {
    * @param createVehicleDto Data Transfer Object containing vehicle creation data.
    * @returns The newly created Vehicle entity.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.VehiclesWrite)
   @Post('create')
   @ApiBearerAuth()
   @ApiBody({ type: CreateVehicleDto })
   @ApiOperation({ summary: 'Create new "vehicle"' })
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'A resource with the same name already exists',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async create(@Body() createVehicleDto: CreateVehicleDto): Promise<Vehicle> {
     return this.vehiclesService.create(createVehicleDto)
   }
 
+  /**
+   * Creates several "vehicles" resources in a single transaction
+   *
+   * Every item is validated like the body of `POST /vehicles/create`. The response reports for every item
+   * whether it was created, skipped as a duplicate name, or failed with its validation errors.
+   *
+   * @param items An array of `CreateVehicleDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.VehiclesWrite)
+  @Post('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: [CreateVehicleDto] })
+  @ApiOperation({ summary: 'Create several "vehicles" resources' })
+  async bulkCreate(@Body() items: CreateVehicleDto[]): Promise<BulkReport> {
+    return this.vehiclesService.bulkCreate(items)
+  }
+
+  /**
+   * Updates several "vehicles" resources in a single transaction
+   *
+   * @param items An array of `UpdateVehicleDto` objects, each with the `id` of the resource to update
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.VehiclesWrite)
+  @Patch('bulk')
+  @ApiBearerAuth()
+  @ApiBody({
+    type: [UpdateVehicleDto],
+    description:
+      'Every item must also contain the `id` of the resource to update.',
+  })
+  @ApiOperation({ summary: 'Update several "vehicles" resources' })
+  async bulkUpdate(@Body() items: UpdateVehicleDto[]): Promise<BulkReport> {
+    return this.vehiclesService.bulkUpdate(items)
+  }
+
+  /**
+   * Deletes several "vehicles" resources in a single transaction
+   *
+   * @param bulkRemoveDto The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  @RequirePermissions(Permissions.VehiclesWrite)
+  @Delete('bulk')
+  @ApiBearerAuth()
+  @ApiBody({ type: BulkRemoveDto })
+  @ApiOperation({ summary: 'Delete several "vehicles" resources' })
+  async bulkRemove(@Body() bulkRemoveDto: BulkRemoveDto): Promise<BulkReport> {
+    return this.vehiclesService.bulkRemove(bulkRemoveDto.ids)
+  }
+
   /**
    * Get all vehicles (paginated)
    *
@@ -67,17 +143,44 @@ export class VehiclesController {
    *
    * @param page The current page number (defaults to 1).
    * @param limit The number of vehicles per page (defaults to `limitCount` from utils).
-   * @returns A Pagination object containing vehicle data and pagination information.
+   * @param query Field filters, free-text search and sort order from the query string, validated against the entity columns
+   * @returns A Pagination object containing vehicle data and pagination information, or a CursorPagination
+   * object when a `cursor` query parameter is given.
    */
+  @Public()
   @Get()
   @ApiOperation({ summary: 'Get all the "vehicles" resources' })
   @ApiQuery({ name: 'page', required: false })
   @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id` and on the first `sort` field.',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description:
+      'Comma-separated fields to sort by, prefix with "-" for descending order. The quantities stored as text (e.g. heights, lengths, populations) cannot be sorted by. Any other column can be used as an exact-match filter (e.g. `?name=...`).',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Free-text search on the name and model of the vehicles.',
+  })
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `pilots,films.planets`). `include` is accepted as an alias.',
+  })
   async findAll(
     @Query('page', new DefaultValuePipe(1)) page: number,
     @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
-  ): Promise<Pagination<Vehicle>> {
-    return this.vehiclesService.findAll({ page, limit })
+    @Query() query: ListQuery,
+  ): Promise<Pagination<Vehicle> | CursorPagination<Vehicle>> {
+    return this.vehiclesService.findAll({ page, limit }, query)
   }
 
   /**
@@ -87,19 +190,68 @@ export class VehiclesController {
    * It uses `@ApiParam()` for Swagger documentation (not available in current version).
    *
    * @param id The ID of the vehicle to retrieve.
+   * @param query The `expand` (or `include`) query parameter listing the relations to embed.
    * @returns The Vehicle entity with the matching ID, or undefined if not found.
    */
+  @Public()
   @Get(':id')
   @ApiOperation({ summary: 'Get resource "vehicle" by its "id"' })
-  async findOne(@Param('id') id: number): Promise<Vehicle> {
-    return this.vehiclesService.findOne(id)
+  @ApiQuery({
+    name: 'expand',
+    required: false,
+    description:
+      'Comma-separated relations to embed instead of their URLs, nested one level deep (e.g. `pilots,films.planets`). `include` is accepted as an alias.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findOne(
+    @Param('id') id: number,
+    @Query() query: ListQuery = {},
+  ): Promise<Vehicle> {
+    return this.vehiclesService.findOne(id, getExpandParameter(query))
+  }
+
+  /**
+   * Retrieves the images of a "vehicle" resource (paginated)
+   *
+   * @param id The ID of the "vehicle" resource
+   * @param page The page number to retrieve (defaults to 1)
+   * @param limit The number of items per page (defaults to `limitCount`)
+   * @param cursor The opaque cursor selecting cursor pagination (empty for the first page)
+   * @returns A Promise resolving to a `Pagination<Image>` object containing the paginated list, or a
+   *          `CursorPagination<Image>` in cursor mode
+   */
+  @Public()
+  @Get(':id/images')
+  @ApiOperation({ summary: 'Get the images of resource "vehicle" by its "id"' })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Opaque cursor from `meta.nextCursor`/`meta.prevCursor` (empty for the first page). Switches to cursor pagination, keyed on `id`.',
+  })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  async findImages(
+    @Param('id') id: number,
+    @Query('page', new DefaultValuePipe(1)) page: number,
+    @Query('limit', new DefaultValuePipe(limitCount)) limit: number,
+    @Query('cursor') cursor?: string,
+  ): Promise<Pagination<Image> | CursorPagination<Image>> {
+    if (limit > limitCount) limit = limitCount
+    return this.imagesService.findAllOfAnEntity(
+      'vehicles',
+      id,
+      { page, limit },
+      cursor,
+    )
   }
 
   /**
    * Update a vehicle
    *
    * This method (PATCH /vehicles/:id) updates an existing vehicle in the system.
-   * It requires an Admin role due to the `@UseGuards(AdminGuard)` decorator.
+   * It requires the `vehicles:write` permission (`@RequirePermissions()`).
    * The request body should contain a valid `UpdateVehicleDto` object with the updated
    * vehicle information. The URL path parameter `:id` specifies the ID of the vehicle
    * to be updated.
@@ -109,10 +261,19 @@ export class VehiclesController {
    * @param updateVehicleDto Data Transfer Object containing updated vehicle data.
    * @returns The updated Vehicle entity.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.VehiclesWrite)
   @Patch(':id')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Update resource "vehicle" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
+  @ApiProblemResponse(
+    HttpStatus.CONFLICT,
+    'Another resource already has the same name',
+  )
+  @ApiProblemResponse(
+    HttpStatus.BAD_REQUEST,
+    'Invalid body or unknown related resource',
+  )
   async update(
     @Param('id') id: number,
     @Body() updateVehicleDto: UpdateVehicleDto,
@@ -124,17 +285,18 @@ export class VehiclesController {
    * Delete a vehicle
    *
    * This method (DELETE /vehicles/:id) deletes a vehicle from the system.
-   * It requires an Admin role due to the `@UseGuards(AdminGuard)` decorator.
+   * It requires the `vehicles:write` permission (`@RequirePermissions()`).
    * The URL path parameter `:id` specifies the ID of the vehicle to be deleted.
    * The method uses `@ApiBearerAuth()` and `@ApiOperation()` for Swagger documentation.
    *
    * @param id The ID of the vehicle to be deleted.
    * @returns A Promise that resolves to nothing (void) upon successful deletion.
    */
-  @UseGuards(AdminGuard)
+  @RequirePermissions(Permissions.VehiclesWrite)
   @Delete(':id')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete resource "vehicle" by its "id"' })
+  @ApiProblemResponse(HttpStatus.NOT_FOUND, 'The resource does not exist')
   async remove(@Param('id') id: number): Promise<Vehicle> {
     return this.vehiclesService.remove(id)
   }
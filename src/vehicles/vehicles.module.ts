@@ -30,6 +30,7 @@ import { ImagesService } from 'src/images/images.service'
  *
  * This module exports the `TypeOrmModule` to make the database connection accessible
  * to other modules that might need to interact with vehicles.
+ * It also exports the `VehiclesService`, which is reused by the GraphQL resolvers.
  *
  * Controllers in this module (`VehiclesController`) handle vehicle-related API requests.
  * Providers in this module (`VehiclesService` and `ImagesService`) handle vehicle-related
@@ -47,7 +48,7 @@ import { ImagesService } from 'src/images/images.service'
       Image,
     ]),
   ],
-  exports: [TypeOrmModule],
+  exports: [TypeOrmModule, VehiclesService],
   controllers: [VehiclesController],
   providers: [VehiclesService, ImagesService],
 })
@@ -1,9 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing'
+import { HttpStatus, NotFoundException } from '@nestjs/common'
 import { VehiclesService } from './vehicles.service'
 import { DataSource, Repository } from 'typeorm'
 import { Vehicle } from './entities/vehicle.entity'
-import { Film } from 'src/films/entities/film.entity'
-import { People } from 'src/people/entities/people.entity'
 import { getRepositoryToken } from '@nestjs/typeorm'
 import {
   createVehicleDto,
@@ -17,7 +16,12 @@ import {
   vehicle,
 } from './test-constants'
 import { paginate } from 'nestjs-typeorm-paginate'
-import { paginationOptions } from 'src/shared/constants'
+import {
+  localUrl,
+  paginationOptions,
+  relatedEntitiesMap,
+} from 'src/shared/constants'
+import { setRelatedEntities } from 'src/shared/related-entities'
 
 /**
  * Mocking the `nestjs-typeorm-paginate` module
@@ -31,6 +35,17 @@ import { paginationOptions } from 'src/shared/constants'
  */
 jest.mock('nestjs-typeorm-paginate')
 
+/**
+ * Mocking the relation writer of `src/shared/related-entities`
+ *
+ * The related entities are written with TypeORM's relation query builder, which needs a real
+ * data source. The tests only check that the relations of the DTO are passed to it.
+ */
+jest.mock('src/shared/related-entities', () => ({
+  ...jest.requireActual('src/shared/related-entities'),
+  setRelatedEntities: jest.fn(),
+}))
+
 /**
  * Unit test suite for VehiclesService.
  * This test suite covers various scenarios for creating, finding, updating, deleting vehicle records,
@@ -39,8 +54,7 @@ jest.mock('nestjs-typeorm-paginate')
 describe('VehiclesService', () => {
   let service: VehiclesService
   let vehicleRepository: Repository<Vehicle>
-  let filmRepository: Repository<Film>
-  let peopleRepository: Repository<People>
+  let transactionManager: Record<string, jest.Mock>
 
   /**
    * Setup for each test in the suite.
@@ -57,19 +71,9 @@ describe('VehiclesService', () => {
             findOne: jest.fn(),
             save: jest.fn(),
             remove: jest.fn(),
-            query: jest.fn().mockResolvedValue([{ maxId: 0 }]),
-          },
-        },
-        {
-          provide: getRepositoryToken(People),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'people1' } as People),
-          },
-        },
-        {
-          provide: getRepositoryToken(Film),
-          useValue: {
-            findOne: jest.fn().mockResolvedValue({ url: 'film1' } as Film),
+            create: jest.fn((values) => values),
+            update: jest.fn(),
+            query: jest.fn(),
           },
         },
         {
@@ -85,20 +89,18 @@ describe('VehiclesService', () => {
     vehicleRepository = module.get<Repository<Vehicle>>(
       getRepositoryToken(Vehicle),
     )
-    filmRepository = module.get<Repository<Film>>(getRepositoryToken(Film))
-    peopleRepository = module.get<Repository<People>>(
-      getRepositoryToken(People),
-    )
 
     // Mock implementation for paginate function
     jest
       .spyOn(vehicleRepository, 'findAndCount')
-      .mockImplementation(async () => [[], 0]),
-      // Define the repositories property in the service
-      ((service as any).repositories = {
-        pilots: peopleRepository,
-        films: filmRepository,
-      })
+      .mockImplementation(async () => [[], 0])
+    // Run transactions with a transactional manager returning the same repository
+    transactionManager = {
+      transaction: jest.fn((run) => run(transactionManager)),
+      existsBy: jest.fn().mockResolvedValue(true),
+      getRepository: jest.fn(() => vehicleRepository),
+    }
+    ;(vehicleRepository as any).manager = transactionManager
   })
 
   /**
@@ -118,36 +120,60 @@ describe('VehiclesService', () => {
     it('should create a new vehicle', async () => {
       jest.spyOn(vehicleRepository, 'findOne').mockResolvedValueOnce(null)
       jest.spyOn(vehicleRepository, 'save').mockResolvedValue(newVehicle)
-      jest.spyOn(vehicleRepository, 'query').mockResolvedValue([{ maxId: 0 }])
-      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValueOnce(newVehicle)
-
-      // Setting up mocks for related entities
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
+      // The created vehicle is fetched again with its related entities
+      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValueOnce({
+        ...newVehicle,
+        pilots: [people],
+        films: [film],
+      } as Vehicle)
 
       const result = await service.create(createVehicleDto)
-      expect(result).toEqual(newVehicle)
+      // Related entities are returned as SWAPI-style URLs
+      expect(result).toEqual({
+        ...newVehicle,
+        pilots: ['people1'],
+        films: ['film1'],
+      })
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Vehicle,
+        newVehicle.id,
+        createVehicleDto,
+        relatedEntitiesMap.vehicles.relatedEntities,
+      )
     })
 
     /**
-     * Test to verify that creating a vehicle with an existing name returns null.
+     * Test to verify that the vehicle is created in a transaction, with its URL derived from the generated ID.
      */
-    it('should return null if a vehicle with the same name already exists', async () => {
+    it('should create a new vehicle in a transaction', async () => {
+      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(vehicleRepository, 'save')
+        .mockResolvedValue({ ...newVehicle, id: 7 } as Vehicle)
+
+      await service.create(createVehicleDto)
+
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(vehicleRepository.update).toHaveBeenCalledWith(7, {
+        url: `${localUrl}vehicles/7/`,
+      })
+      expect(vehicleRepository.query).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Test to verify that creating a vehicle with an existing name throws a 409 conflict.
+     */
+    it('should throw a conflict if a vehicle with the same name already exists', async () => {
       jest.spyOn(vehicleRepository, 'findOne').mockResolvedValue(null)
       jest
         .spyOn(vehicleRepository, 'findOne')
         .mockResolvedValue(existingVehicle)
 
-      const consoleErrorSpy = jest
-        .spyOn(console, 'error')
-        .mockImplementation(() => {})
-
-      expect(await service.create(createVehicleDto)).toBeNull()
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        `Vehicle '${createVehicleDto.name}' already exists!`,
-      )
-
-      consoleErrorSpy.mockRestore()
+      await expect(service.create(createVehicleDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+        message: `Vehicle '${createVehicleDto.name}' already exists`,
+      })
     })
 
     /**
@@ -201,6 +227,15 @@ describe('VehiclesService', () => {
 
       await expect(service.findOne(1)).rejects.toThrow('Repository error')
     })
+
+    /**
+     * Test to verify that an unknown ID throws a 404 error.
+     */
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValue(null)
+
+      await expect(service.findOne(99)).rejects.toThrow(NotFoundException)
+    })
   })
 
   /**
@@ -214,9 +249,48 @@ describe('VehiclesService', () => {
      * Test to verify that a vehicle can be updated successfully.
      */
     it('should update a vehicle', async () => {
-      jest.spyOn(vehicleRepository, 'save').mockResolvedValue(updatedVehicle)
+      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValueOnce(vehicle)
+      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValueOnce(null)
+      jest
+        .spyOn(vehicleRepository, 'findOne')
+        .mockResolvedValueOnce(updatedVehicle)
 
       expect(await service.update(1, updatedVehicleDto)).toEqual(updatedVehicle)
+      expect(transactionManager.transaction).toHaveBeenCalledTimes(1)
+      expect(setRelatedEntities).toHaveBeenCalledWith(
+        transactionManager,
+        Vehicle,
+        vehicle.id,
+        updatedVehicleDto,
+        relatedEntitiesMap.vehicles.relatedEntities,
+      )
+    })
+
+    /**
+     * Test to verify that renaming a vehicle to the name of another vehicle throws a 409 conflict.
+     */
+    it('should throw a conflict if another vehicle has the same name', async () => {
+      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValueOnce(vehicle)
+      jest
+        .spyOn(vehicleRepository, 'findOne')
+        .mockResolvedValueOnce({ ...existingVehicle, id: 2 } as Vehicle)
+
+      await expect(service.update(1, updatedVehicleDto)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      })
+      expect(vehicleRepository.save).not.toHaveBeenCalled()
+    })
+
+    /**
+     * Test to verify that updating an unknown vehicle throws a 404 error.
+     */
+    it('should throw a not found error for an unknown vehicle', async () => {
+      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValueOnce(null)
+
+      await expect(service.update(99, {})).rejects.toMatchObject({
+        status: HttpStatus.NOT_FOUND,
+      })
+      expect(vehicleRepository.save).not.toHaveBeenCalled()
     })
 
     /**
@@ -259,38 +333,15 @@ describe('VehiclesService', () => {
 
       await expect(service.remove(1)).rejects.toThrow('Internal server error')
     })
-  })
-
-  /**
-   * Test suite for the `fillRelatedEntities` method of VehiclesService.
-   */
-  describe('fillRelatedEntities', () => {
-    const newVehicle: Vehicle = new Vehicle()
 
     /**
-     * Test to verify that related entities are filled correctly.
+     * Test to verify that removing an unknown ID throws a 404 error.
      */
-    it('should fill related entities', async () => {
-      jest.spyOn(peopleRepository, 'findOne').mockResolvedValue(people)
-      jest.spyOn(filmRepository, 'findOne').mockResolvedValue(film)
-
-      await service['fillRelatedEntities'](newVehicle, createVehicleDto)
-
-      expect(newVehicle.pilots).toContain(people)
-      expect(newVehicle.films).toContain(film)
-    })
-
-    /**
-     * Test to verify that errors in related entity lookups are handled properly.
-     */
-    it('should handle errors in related entity lookups', async () => {
-      jest
-        .spyOn(peopleRepository, 'findOne')
-        .mockRejectedValue(new Error('Internal server error'))
+    it('should throw NotFoundException for an unknown ID', async () => {
+      jest.spyOn(vehicleRepository, 'findOne').mockResolvedValue(null)
 
-      await expect(
-        service['fillRelatedEntities'](newVehicle, createVehicleDto),
-      ).rejects.toThrow('Internal server error')
+      await expect(service.remove(99)).rejects.toThrow(NotFoundException)
+      expect(vehicleRepository.remove).not.toHaveBeenCalled()
     })
   })
 })
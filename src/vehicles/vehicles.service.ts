@@ -1,17 +1,49 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common'
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
 import { CreateVehicleDto } from './dto/create-vehicle.dto'
 import { UpdateVehicleDto } from './dto/update-vehicle.dto'
 import { InjectRepository } from '@nestjs/typeorm'
 import { Vehicle } from 'src/vehicles/entities/vehicle.entity'
-import { Repository } from 'typeorm'
-import { People } from 'src/people/entities/people.entity'
-import { Film } from 'src/films/entities/film.entity'
+import { EntityManager, FindManyOptions, Repository } from 'typeorm'
 import {
   IPaginationOptions,
   Pagination,
   paginate,
 } from 'nestjs-typeorm-paginate'
-import { localUrl, relatedEntitiesMap } from 'src/shared/constants'
+import {
+  localUrl,
+  relatedEntitiesMap,
+  searchFieldsMap,
+  unsortableFieldsMap,
+} from 'src/shared/constants'
+import { ListQuery, buildListFindOptions } from 'src/shared/query-filter'
+import {
+  getExpandParameter,
+  getExpandRelations,
+  parseExpandParameter,
+  serializePagination,
+  serializeResource,
+} from 'src/shared/relation-expansion'
+import {
+  CursorPagination,
+  isCursorRequest,
+  paginateByCursor,
+} from 'src/shared/cursor-pagination'
+import {
+  BulkReport,
+  runBulkCreate,
+  runBulkRemove,
+  runBulkUpdate,
+} from 'src/shared/bulk-operations'
+import {
+  getColumnValues,
+  setRelatedEntities,
+} from 'src/shared/related-entities'
 import { getResponceOfException } from 'src/shared/common.functions'
 
 /**
@@ -19,7 +51,7 @@ import { getResponceOfException } from 'src/shared/common.functions'
  *
  * This service provides methods for creating, reading, updating, and deleting (CRUD)
  * operations on vehicle data in the Star Wars universe. It interacts with the
- * `VehicleRepository` and related entity repositories to manage data persistence.
+ * `VehicleRepository` to manage data persistence.
  */
 @Injectable()
 export class VehiclesService {
@@ -27,11 +59,6 @@ export class VehiclesService {
   constructor(
     @InjectRepository(Vehicle)
     private readonly vehicleRepository: Repository<Vehicle>,
-    // Inject repositories for related entities (pilots, films)
-    @InjectRepository(People)
-    private readonly peopleRepository: Repository<People>,
-    @InjectRepository(Film)
-    private readonly filmsRepository: Repository<Film>,
   ) {
     this.relatedEntities = relatedEntitiesMap.vehicles.relatedEntities
   }
@@ -41,67 +68,60 @@ export class VehiclesService {
    *
    * This method checks if a vehicle with the same name already exists. If not,
    * it creates a new Vehicle entity, sets its properties from the provided DTO,
-   * and saves it to the database. It then populates related entities and
-   * updates the vehicle's URL if necessary.
+   * and saves it to the database. It then derives the vehicle's URL from the
+   * generated ID and populates related entities, all in a single transaction.
    *
    * @param createVehicleDto - The DTO containing data for creating the vehicle.
-   * @returns A promise that resolves with the created and fully populated Vehicle entity,
-   * or null if a vehicle with the same name already exists.
-   * @throws An error if the operation fails.
+   * @returns A promise that resolves with the created and fully populated Vehicle entity.
+   * @throws HttpException on error (409 if a vehicle with the same name already exists, 400 if a related
+   * resource does not exist).
    */
   async create(createVehicleDto: CreateVehicleDto) {
     try {
-      // Check for existing vehicle with the same name
-      const existsVehicle: Vehicle = await this.vehicleRepository.findOne({
-        where: { name: createVehicleDto.name },
-      })
-      if (existsVehicle) {
-        console.error(`Vehicle '${createVehicleDto.name}' already exists!`)
-        return null
-      }
-
-      // Create a new Vehicle instance
-      const newVehicle: Vehicle = new Vehicle()
-      // Get the last inserted ID
-      const lastIdResult = await this.vehicleRepository.query(
-        'SELECT MAX(id) as maxId FROM vehicles',
-      )
-      const nextId: number =
-        lastIdResult.length > 0 ? lastIdResult[0].maxId + 1 : 1
-      newVehicle.url = `${localUrl}vehicles/${nextId}/`
-
-      // Populate vehicle properties from DTO, excluding related entities
-      for (const key in createVehicleDto) {
-        if (key !== 'url' && !this.relatedEntities.includes(key)) {
-          newVehicle[key] = createVehicleDto[key]
-        }
-      }
+      return await this.vehicleRepository.manager.transaction(
+        async (manager) => {
+          const vehicleRepository: Repository<Vehicle> =
+            manager.getRepository(Vehicle)
+          // Check if a vehicle with the same name already exists
+          const existsVehicle: Vehicle = await vehicleRepository.findOne({
+            where: { name: createVehicleDto.name },
+          })
+          if (existsVehicle) {
+            throw new ConflictException(
+              `Vehicle '${createVehicleDto.name}' already exists`,
+            )
+          }
 
-      // Save the new vehicle to the database without related entities
-      const savedVehicle = await this.vehicleRepository.save(newVehicle)
+          // Save the new vehicle to the database without its URL and related entities
+          const savedVehicle: Vehicle = await vehicleRepository.save(
+            vehicleRepository.create(
+              getColumnValues<Vehicle>(createVehicleDto, this.relatedEntities),
+            ),
+          )
 
-      // Update URL if necessary
-      if (savedVehicle.id !== nextId) {
-        console.warn(
-          `Predicted ID (${nextId}) doesn't match actual ID (${savedVehicle.id}). Updating URL...`,
-        )
-        await this.vehicleRepository.query(
-          'UPDATE vehicles SET url = ? WHERE id = ?',
-          [`${localUrl}vehicles/${savedVehicle.id}/`, savedVehicle.id],
-        )
-        savedVehicle.url = `${localUrl}vehicles/${savedVehicle.id}/`
-      }
+          // Derive the URL from the generated ID
+          await vehicleRepository.update(savedVehicle.id, {
+            url: `${localUrl}vehicles/${savedVehicle.id}/`,
+          })
 
-      // Fill in related entities
-      await this.fillRelatedEntities(savedVehicle, createVehicleDto)
+          // Fill in related entities
+          await setRelatedEntities(
+            manager,
+            Vehicle,
+            savedVehicle.id,
+            createVehicleDto,
+            this.relatedEntities,
+          )
 
-      // Fetch the updated vehicle to reflect all changes
-      const updatedVehicle: Vehicle = await this.vehicleRepository.findOne({
-        where: { id: savedVehicle.id },
-        relations: this.relatedEntities,
-      })
+          // Fetch the created vehicle to reflect all changes
+          const createdVehicle: Vehicle = await vehicleRepository.findOne({
+            where: { id: savedVehicle.id },
+            relations: this.relatedEntities,
+          })
 
-      return updatedVehicle
+          return serializeResource(createdVehicle, 'vehicles')
+        },
+      )
     } catch (error) {
       throw getResponceOfException(error)
     }
@@ -113,15 +133,53 @@ export class VehiclesService {
    * This method retrieves a paginated list of all vehicles from the database.
    * It uses the `paginate` function from `nestjs-typeorm-paginate` to handle
    * pagination options and returns a `Pagination<Vehicle>` object.
+   * When a `cursor` query parameter is given, the list is paginated with opaque cursors instead.
    *
    * @param options Pagination options (page, limit, etc.)
+   * @param query Field filters, free-text search, sort order and relation expansion from the query string (e.g. `?vehicle_class=wheeled&sort=name&expand=pilots`)
    * @returns A Pagination<Vehicle> object containing vehicle data and pagination information.
    * @throws HttpException if an error occurs during pagination.
    */
-  async findAll(options: IPaginationOptions): Promise<Pagination<Vehicle>> {
+  async findAll(
+    options: IPaginationOptions,
+    query: ListQuery = {},
+  ): Promise<Pagination<Vehicle> | CursorPagination<Vehicle>> {
+    // Build where/order clauses from the field filters, the search term and the sort parameter
+    const findOptions: FindManyOptions<Vehicle> = buildListFindOptions(
+      this.vehicleRepository,
+      query,
+      searchFieldsMap.vehicles,
+      unsortableFieldsMap.vehicles,
+    )
+    // Load the related entities, rendered as URLs unless expanded
+    const expand: string[] = parseExpandParameter(
+      getExpandParameter(query),
+      'vehicles',
+    )
+    findOptions.relations = getExpandRelations('vehicles', expand)
+    findOptions.relationLoadStrategy = 'query'
+    // Use keyset pagination when a cursor is given
+    if (isCursorRequest(query)) {
+      const page: CursorPagination<Vehicle> = await paginateByCursor<Vehicle>(
+        this.vehicleRepository,
+        findOptions,
+        {
+          cursor: String(query.cursor),
+          limit: Number(options.limit),
+          route: `${localUrl}vehicles/`,
+          query,
+        },
+      )
+      return serializePagination(page, 'vehicles', expand)
+    }
     try {
       // Execute query to the repository with pagination options
-      return paginate<Vehicle>(this.vehicleRepository, options)
+      const vehicles: Pagination<Vehicle> = await paginate<Vehicle>(
+        this.vehicleRepository,
+        options,
+        findOptions,
+      )
+      return serializePagination(vehicles, 'vehicles', expand)
     } catch (error) {
       throw new HttpException(error.message, HttpStatus.INTERNAL_SERVER_ERROR)
     }
@@ -134,20 +192,30 @@ export class VehiclesService {
    * provided `vehicleId` parameter. It uses the `findOne` method of the
    * `vehiclesRepository` to fetch the Vehicle record with the corresponding ID.
    * It returns a `Promise` that resolves to the `Vehicle` entity if found,
-   * or `null` if no record is found.
+   * or throws a `NotFoundException` if no record is found.
    *
    * @param vehicleId - ID of the Vehicle entity (number)
-   * @returns Promise<Vehicle> - Promise resolving to the Vehicle entity or `null` if not found
+   * @param expand The relations to embed instead of their URLs (e.g. `pilots,films.planets`)
+   * @returns Promise<Vehicle> - Promise resolving to the Vehicle entity
+   * @throws NotFoundException - If the record is not found
    */
-  async findOne(vehicleId: number): Promise<Vehicle> {
+  async findOne(
+    vehicleId: number,
+    expand?: string | string[],
+  ): Promise<Vehicle> {
+    const expandedRelations: string[] = parseExpandParameter(expand, 'vehicles')
     // Find the Vehicle by ID
     const vehicle: Vehicle = await this.vehicleRepository.findOne({
       where: {
         id: vehicleId,
       },
+      relations: getExpandRelations('vehicles', expandedRelations),
+      relationLoadStrategy: 'query',
     })
-    // Return the Vehicle entity or 'null'
-    return vehicle
+    if (!vehicle) {
+      throw new NotFoundException(`Vehicle with id ${vehicleId} not found`)
+    }
+    return serializeResource(vehicle, 'vehicles', expandedRelations)
   }
 
   /**
@@ -162,48 +230,64 @@ export class VehiclesService {
    * @param vehicleId The ID of the vehicle to update.
    * @param updateVehicleDto Data Transfer Object containing updated vehicle data.
    * @returns The updated Vehicle entity.
-   * @throws HttpException if the vehicle with the given ID is not found or an error occurs during update.
+   * @throws HttpException if the vehicle with the given ID is not found (404), another vehicle has the new
+   * name (409), a related resource does not exist (400) or an error occurs during update.
    */
   async update(
     vehicleId: number,
     updateVehicleDto: UpdateVehicleDto,
   ): Promise<Vehicle> {
     try {
-      // Get the Vehicle by ID
-      const vehicle: Vehicle = await this.findOne(vehicleId)
-      // Return null if not found
-      if (!vehicle) return null
-      // Update Vehicle properties from UpdateVehicleDto
-      for (const key in updateVehicleDto) {
-        if (updateVehicleDto.hasOwnProperty(key) && updateVehicleDto[key]) {
-          // Check if the vehicle name is being updated
+      return await this.vehicleRepository.manager.transaction(
+        async (manager) => {
+          const vehicleRepository: Repository<Vehicle> =
+            manager.getRepository(Vehicle)
+          const vehicle: Vehicle = await vehicleRepository.findOne({
+            where: { id: vehicleId },
+          })
+          if (!vehicle) {
+            throw new NotFoundException(
+              `Vehicle with id ${vehicleId} not found`,
+            )
+          }
+          // Check if the name is being updated to the name of another vehicle
           if (updateVehicleDto.name) {
-            // Search for an existing vehicle with the new name
-            const existingVehicle = await this.vehicleRepository.findOne({
+            const existingVehicle: Vehicle = await vehicleRepository.findOne({
               where: {
                 name: updateVehicleDto.name,
               },
             })
-
-            // If a vehicle with this name exists and it's not the same vehicle we're updating
             if (existingVehicle && existingVehicle.id !== vehicle.id) {
-              console.error(
-                `Vehicle '${updateVehicleDto.name}' already exists!`,
+              throw new ConflictException(
+                `Vehicle '${updateVehicleDto.name}' already exists`,
               )
-              return null
             }
           }
-          vehicle[key] = updateVehicleDto[key]
-        }
-      }
-      // Set the 'edited' field to the current date and time
-      vehicle.edited = new Date()
-      // Update related entities (pilots, films)
-      await this.fillRelatedEntities(vehicle, updateVehicleDto)
-      // Save the updated Vehicle to the repository
-      return await this.vehicleRepository.save(vehicle)
+          // Update the vehicle properties and the 'edited' field
+          Object.assign(
+            vehicle,
+            getColumnValues<Vehicle>(updateVehicleDto, this.relatedEntities),
+          )
+          vehicle.edited = new Date()
+          await vehicleRepository.save(vehicle)
+          // Replace the related entities present in the DTO
+          await setRelatedEntities(
+            manager,
+            Vehicle,
+            vehicle.id,
+            updateVehicleDto,
+            this.relatedEntities,
+          )
+          // Fetch the updated vehicle to reflect all changes
+          const updatedVehicle: Vehicle = await vehicleRepository.findOne({
+            where: { id: vehicle.id },
+            relations: this.relatedEntities,
+          })
+          return serializeResource(updatedVehicle, 'vehicles')
+        },
+      )
     } catch (error) {
-      throw new HttpException(error.message, HttpStatus.BAD_REQUEST)
+      throw getResponceOfException(error)
     }
   }
 
@@ -216,88 +300,82 @@ export class VehiclesService {
    *
    * @param vehicleId The ID of the vehicle to delete.
    * @returns A Promise that resolves to nothing (void) upon successful deletion.
+   * @throws NotFoundException if the vehicle does not exist.
    */
   async remove(vehicleId: number): Promise<Vehicle> {
     // Get the Vehicle by ID
-    const vehicle: Vehicle = await this.findOne(vehicleId)
+    const vehicle: Vehicle = await this.vehicleRepository.findOne({
+      where: { id: vehicleId },
+    })
+    if (!vehicle) {
+      throw new NotFoundException(`Vehicle with id ${vehicleId} not found`)
+    }
     // Delete the Vehicle from the repository
     return await this.vehicleRepository.remove(vehicle)
   }
 
   /**
-   * Populates and inserts related entities for the provided Vehicle entity.
+   * Creates several vehicles in a single transaction
    *
-   * This method iterates over related entities, finds the corresponding entities in the database,
-   * filters out null values, and uses a raw query to insert the relationships into the relevant table,
-   * ignoring duplicates.
+   * Every item is validated against `CreateVehicleDto` and created with `create`. The report tells for every item
+   * whether it was created, skipped as a duplicate name or failed; failed items are rolled back alone.
    *
-   * @param vehicle - The Vehicle entity to populate related entities for.
-   * @param vehicleDto - The DTO containing data for creating or updating the vehicle.
-   * @returns A promise that resolves when the related entities have been populated and inserted.
-   * @throws An error if the operation fails.
+   * @param items The request body, an array of `CreateVehicleDto` objects
+   * @returns A Promise resolving to the per-item `BulkReport`
    */
-  private async fillRelatedEntities(
-    vehicle: Vehicle,
-    vehicleDto: CreateVehicleDto | UpdateVehicleDto,
-  ): Promise<void> {
-    let tableName: string
-    let firstParameter: string
-    try {
-      for (const key of this.relatedEntities) {
-        if (vehicleDto[key]) {
-          const entities = await Promise.all(
-            vehicleDto[key].map(async (url: string) => {
-              const repository = this.getRepositoryByKey(key)
-              const entity = await repository.findOne({ where: { url } })
-              return entity
-            }),
-          )
-
-          // Filter out any null values (entities that weren't found)
-          const validEntities = entities.filter((obj: null) => obj !== null)
-
-          // Filling in the vehicle property
-          vehicle[key] = validEntities
+  async bulkCreate(items: unknown): Promise<BulkReport> {
+    return runBulkCreate(
+      this.vehicleRepository.manager,
+      items,
+      CreateVehicleDto,
+      (createDto, manager) => this.withManager(manager).create(createDto),
+    )
+  }
 
-          // Use raw query to insert relations, ignoring duplicates
-          if (validEntities.length > 0) {
-            tableName = key === 'pilots' ? 'people_vehicles' : `${key}_vehicles`
-            firstParameter = key === 'pilots' ? 'peopleId' : `${key}Id`
+  /**
+   * Updates several vehicles in a single transaction
+   *
+   * Every item is an `UpdateVehicleDto` with the `id` of the resource to update, and is applied with `update`.
+   *
+   * @param items The request body, an array of `UpdateVehicleDto` objects with an `id`
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkUpdate(items: unknown): Promise<BulkReport> {
+    return runBulkUpdate(
+      this.vehicleRepository.manager,
+      Vehicle,
+      items,
+      UpdateVehicleDto,
+      (id, updateDto, manager) =>
+        this.withManager(manager).update(id, updateDto),
+    )
+  }
 
-            const values = validEntities
-              .map((entity: { id: number }) => `(${entity.id}, ${vehicle.id})`)
-              .join(',')
-            await this.vehicleRepository.query(
-              `INSERT IGNORE INTO ${tableName} (${firstParameter}, vehiclesId) VALUES ${values}`,
-            )
-          }
-        }
-      }
-    } catch (error) {
-      throw getResponceOfException(error)
-    }
+  /**
+   * Deletes several vehicles in a single transaction
+   *
+   * @param ids The IDs of the resources to delete
+   * @returns A Promise resolving to the per-item `BulkReport`
+   */
+  async bulkRemove(ids: number[]): Promise<BulkReport> {
+    return runBulkRemove(
+      this.vehicleRepository.manager,
+      Vehicle,
+      ids,
+      (id, manager) => this.withManager(manager).remove(id),
+    )
   }
 
   /**
-   * Retrieves the appropriate repository based on the given key.
+   * Returns a copy of this service whose repositories use the given entity manager
    *
-   * This private helper method returns the correct TypeORM repository
-   * based on the provided key. The key is expected to be one of the
-   * related entity types (e.g., 'films', 'pilots').
-   * If the key does not match any of these, an error is thrown.
+   * The bulk operations use it so that every query of `create`, `update` and `remove` runs inside
+   * the transaction of the batch.
    *
-   * @param key The key representing the type of related entity
-   * @returns The corresponding TypeORM repository for the given key
-   * @throws Error if no repository is found for the given key
+   * @param manager The transactional entity manager
+   * @returns A `VehiclesService` bound to the transaction
    */
-  private getRepositoryByKey(key: string): Repository<any> {
-    switch (key) {
-      case 'pilots':
-        return this.peopleRepository
-      case 'films':
-        return this.filmsRepository
-      default:
-        throw new Error(`No repository found for key: ${key}`)
-    }
+  private withManager(manager: EntityManager): VehiclesService {
+    return new VehiclesService(manager.getRepository(Vehicle))
   }
 }